@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+/**
+ * Copies the src/lib modules the edge functions also need into
+ * supabase/functions/_shared/generated/.
+ *
+ * WHY
+ * Deno deploys each function from supabase/functions/ and cannot import from
+ * src/, so owner-facing text like the showing-report marker used to be pasted
+ * into every function that writes it — and the copies drifted. The source of
+ * truth stays in src/lib (the app imports it, tests cover it); this script
+ * regenerates the Deno copy, and src/test/edge-shared.test.ts fails if someone
+ * edits one side without running it.
+ *
+ * Only dependency-free modules belong in MODULES: the copy is verbatim.
+ *
+ * USAGE:  npm run gen:edge-shared
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join, dirname } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..')
+const OUT = join(ROOT, 'supabase/functions/_shared/generated')
+
+const MODULES = ['showingReports.ts', 'ticketThreads.ts', 'listingAlerts.ts', 'routePlanner.ts', 'openHouse.ts', 'noShowRisk.ts', 'showingSurveys.ts', 'emailTemplateDefaults.ts', 'cityTimezone.ts']
+
+for (const file of MODULES) {
+  const source = readFileSync(join(ROOT, 'src/lib', file), 'utf-8')
+  const banner =
+    `// GENERATED from src/lib/${file} by scripts/generate-edge-shared.mjs — do not edit.\n` +
+    `// Change the source and run \`npm run gen:edge-shared\`.\n\n`
+  writeFileSync(join(OUT, file), banner + source)
+  console.log(`_shared/generated/${file}`)
+}
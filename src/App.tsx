@@ -22,6 +22,9 @@ const Dashboard = lazy(() => import("./pages/dashboard"));
 const PropertiesList = lazy(() => import("./pages/properties/PropertiesList"));
 const PropertyGroupDetail = lazy(() => import("./pages/properties/PropertyGroupDetail"));
 const PropertyDetail = lazy(() => import("./pages/properties/PropertyDetail"));
+const MaintenancePage = lazy(() => import("./pages/maintenance/MaintenancePage"));
+const TicketsInbox = lazy(() => import("./pages/tickets/TicketsInbox"));
+const ApplicantsPage = lazy(() => import("./pages/applicants/ApplicantsPage"));
 const LeadsList = lazy(() => import("./pages/leads/LeadsList"));
 const LeadHygiene = lazy(() => import("./pages/leads/LeadHygiene"));
 const LeadDetail = lazy(() => import("./pages/leads/LeadDetail"));
@@ -49,6 +52,9 @@ const TermsOfService = lazy(() => import("./pages/public/TermsOfService"));
 const SmsSignup = lazy(() => import("./pages/public/SmsSignup"));
 const ScheduleShowing = lazy(() => import("./pages/public/ScheduleShowing"));
 const ShowingAttendance = lazy(() => import("./pages/public/ShowingAttendance"));
+const ManageShowing = lazy(() => import("./pages/public/ManageShowing"));
+const SelfGuidedCheckout = lazy(() => import("./pages/public/SelfGuidedCheckout"));
+const ShowingSurvey = lazy(() => import("./pages/public/ShowingSurvey"));
 const PropertyDetailPublic = lazy(() => import("./pages/public/PropertyDetailPublic"));
 const ApplyGuide = lazy(() => import("./pages/public/ApplyGuide"));
 const ApplicationStarted = lazy(() => import("./pages/public/ApplicationStarted"));
@@ -102,6 +108,12 @@ const App = () => (
                 {/* Opened from the "Leasing Agent" calendar feed. Public by
                     design — the link itself is a signed, expiring token. */}
                 <Route path="/showing/attendance" element={<ShowingAttendance />} />
+                {/* Reschedule/cancel link from the booking confirmation email. */}
+                <Route path="/showing/manage" element={<ManageShowing />} />
+                {/* Check-out form at the end of a self-guided tour. */}
+                <Route path="/showing/checkout" element={<SelfGuidedCheckout />} />
+                {/* Post-tour survey link from the post-showing email. */}
+                <Route path="/showing/survey" element={<ShowingSurvey />} />
                 <Route path="/p/schedule-showing/:propertyId" element={<ScheduleShowing />} />
                 {/* Public property detail (renter-facing "view the property") */}
                 <Route path="/property/:id" element={<PropertyDetailPublic />} />
@@ -169,6 +181,28 @@ const App = () => (
               }
             />
 
+            <Route
+              path="/maintenance"
+              element={
+                <ProtectedRoute allowedRoles={["super_admin", "admin", "editor"]}>
+                  <MainLayout>
+                    <MaintenancePage />
+                  </MainLayout>
+                </ProtectedRoute>
+              }
+            />
+
+            <Route
+              path="/tickets"
+              element={
+                <ProtectedRoute allowedRoles={["super_admin", "admin", "editor"]}>
+                  <MainLayout>
+                    <TicketsInbox />
+                  </MainLayout>
+                </ProtectedRoute>
+              }
+            />
+
             <Route
               path="/leads"
               element={
@@ -219,10 +253,18 @@ const App = () => (
               element={<Navigate to="/showings" replace />}
             />
 
-            {/* Requests Kanban + Applicants list removed (2026-07-25). The
-                "applicant" milestone is now a status-neutral tag set from a
-                completed showing; old links land on Leads. */}
-            <Route path="/applicants" element={<Navigate to="/leads" replace />} />
+            {/* Requests Kanban removed (2026-07-25); old links land on Leads.
+                /applicants is back as the screening workspace. */}
+            <Route
+              path="/applicants"
+              element={
+                <ProtectedRoute allowedRoles={["super_admin", "admin", "editor"]}>
+                  <MainLayout>
+                    <ApplicantsPage />
+                  </MainLayout>
+                </ProtectedRoute>
+              }
+            />
             <Route path="/requests" element={<Navigate to="/leads" replace />} />
             <Route
               path="/playbook"
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Split, Trophy, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import {
+  abLeader,
+  variantRate,
+  AB_MIN_DELIVERED,
+  type AbMetric,
+  type VariantResult,
+} from "@/lib/abTest";
+
+interface CampaignAbResultsProps {
+  campaignId: string;
+  orgId: string;
+}
+
+interface AbConfig {
+  ab_metric: AbMetric;
+  ab_auto_promote: boolean;
+  winner_variant: string | null;
+  ab_decided_at: string | null;
+  variants: Array<{ key: string; subject: string }>;
+}
+
+const METRIC_LABEL: Record<AbMetric, string> = {
+  opened: "Open rate",
+  clicked: "Click rate",
+  booked: "Booked a showing (7 days)",
+};
+
+// Renders nothing for a campaign without variants, so the detail view can
+// mount it unconditionally.
+export const CampaignAbResults = ({ campaignId, orgId }: CampaignAbResultsProps) => {
+  const queryClient = useQueryClient();
+  const [choosing, setChoosing] = useState<string | null>(null);
+
+  const { data: config } = useQuery({
+    queryKey: ["campaign-ab-config", campaignId],
+    queryFn: async (): Promise<AbConfig | null> => {
+      const { data, error } = await supabase
+        .from("campaigns")
+        .select("ab_metric, ab_auto_promote, winner_variant, ab_decided_at, email_variants")
+        .eq("id", campaignId)
+        .maybeSingle();
+      if (error) throw error;
+      const variants = Array.isArray(data?.email_variants)
+        ? (data.email_variants as Array<{ key: string; subject: string }>)
+        : [];
+      if (!data || variants.length < 2) return null;
+      return {
+        ab_metric: data.ab_metric as AbMetric,
+        ab_auto_promote: data.ab_auto_promote,
+        winner_variant: data.winner_variant,
+        ab_decided_at: data.ab_decided_at,
+        // Keep only what the table shows; the variant HTML stays out of the cache.
+        variants: variants.map((v) => ({ key: v.key, subject: v.subject })),
+      };
+    },
+  });
+
+  const { data: results = [] } = useQuery({
+    queryKey: ["campaign-ab-results", campaignId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("ab_variant_results", {
+        p_org: orgId,
+        p_test: campaignId,
+      });
+      if (error) throw error;
+      return (data || []) as VariantResult[];
+    },
+    enabled: !!config,
+    refetchInterval: config && !config.winner_variant ? 30_000 : false,
+  });
+
+  if (!config) return null;
+
+  const metric = config.ab_metric;
+  const leader = abLeader(results, metric);
+
+  const chooseWinner = async (variant: string) => {
+    setChoosing(variant);
+    const { data, error } = await supabase.rpc("choose_campaign_winner", {
+      p_campaign: campaignId,
+      p_variant: variant,
+    });
+    setChoosing(null);
+    if (error) {
+      toast.error(`Could not pick the winner: ${error.message}`);
+      return;
+    }
+    toast.success(`Variant ${variant} is the winner — ${data ?? 0} held emails queued.`);
+    queryClient.invalidateQueries({ queryKey: ["campaign-ab-config", campaignId] });
+    queryClient.invalidateQueries({ queryKey: ["campaign-ab-results", campaignId] });
+    queryClient.invalidateQueries({ queryKey: ["campaigns"] });
+  };
+
+  return (
+    <Card variant="glass">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Split className="h-4 w-4" />
+          A/B test
+          <span className="text-xs font-normal text-slate-500">· winner by {METRIC_LABEL[metric].toLowerCase()}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {config.winner_variant ? (
+          <p className="text-sm text-emerald-700 flex items-center gap-1.5">
+            <Trophy className="h-4 w-4" />
+            Variant {config.winner_variant} won
+            {config.ab_decided_at && ` on ${format(new Date(config.ab_decided_at), "MMM d, HH:mm")}`}
+            . The rest of the audience got it.
+          </p>
+        ) : (
+          <p className="text-xs text-slate-500">
+            {config.ab_auto_promote
+              ? `The winner is sent to the rest automatically once the difference is significant (95%, ${AB_MIN_DELIVERED}+ delivered per variant).`
+              : "Auto-promote is off — pick the winner when you are ready."}
+          </p>
+        )}
+
+        <div className="divide-y rounded-lg border">
+          {config.variants.map((v) => {
+            const r = results.find((x) => x.variant === v.key);
+            const isWinner = config.winner_variant === v.key;
+            const isLeader = !config.winner_variant && leader?.variant === v.key;
+            return (
+              <div key={v.key} className={cn("flex items-center gap-3 p-3", isWinner && "bg-emerald-50/60")}>
+                <Badge variant="outline" className="shrink-0">{v.key}</Badge>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-slate-900 truncate">{v.subject}</p>
+                  <p className="text-xs text-slate-500 tabular-nums">
+                    {r
+                      ? `${r.delivered.toLocaleString()} delivered · ${METRIC_LABEL[metric]} ${(variantRate(r, metric) * 100).toFixed(1)}%`
+                      : "No sends yet"}
+                  </p>
+                </div>
+                {isLeader && (
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      "text-[10px]",
+                      leader?.significant
+                        ? "border-emerald-200 text-emerald-700 bg-emerald-50"
+                        : "border-slate-200 text-slate-500",
+                    )}
+                  >
+                    {leader?.significant ? "Significant" : "Leading"}
+                  </Badge>
+                )}
+                {!config.winner_variant && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!!choosing}
+                    onClick={() => chooseWinner(v.key)}
+                  >
+                    {choosing === v.key ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : "Send to rest"}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
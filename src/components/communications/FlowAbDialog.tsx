@@ -0,0 +1,217 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  abLeader, nextVariantKey, variantRate, AB_METRIC_LABEL, AB_MIN_DELIVERED,
+  type AbMetric, type VariantResult,
+} from "@/lib/abTest";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Plus, Split, Trash2, Trophy } from "lucide-react";
+
+/** Override on top of the step's email_config ("A"). Empty fields inherit. */
+export interface FlowEmailVariant {
+  key: string;
+  subject?: string;
+  bodyParagraphs?: string[];
+}
+
+export interface FlowAbStep {
+  id: string;
+  label: string | null;
+  position: number;
+  email_config: Record<string, unknown>;
+  email_variants: FlowEmailVariant[] | null;
+  ab_metric: string;
+  ab_auto_promote: boolean;
+  winner_variant: string | null;
+  ab_decided_at: string | null;
+}
+
+export interface FlowAbPatch {
+  email_variants: FlowEmailVariant[];
+  ab_metric: AbMetric;
+  ab_auto_promote: boolean;
+  winner_variant: string | null;
+  ab_decided_at: string | null;
+}
+
+// Paragraphs are edited as one text with blank lines between them, the way
+// they read in the email.
+const toText = (p: unknown) => (Array.isArray(p) ? (p as string[]).join("\n\n") : "");
+const toParagraphs = (t: string) => t.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+
+interface Draft { key: string; subject: string; body: string }
+
+/**
+ * A/B variants of one flow step. Only steps with their own copy (email_config)
+ * can be tested: the others are sent by legacy handlers that ignore overrides.
+ */
+export const FlowAbDialog: React.FC<{
+  step: FlowAbStep;
+  busy: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (patch: FlowAbPatch) => void;
+}> = ({ step, busy, onOpenChange, onSave }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const [drafts, setDrafts] = useState<Draft[]>(() =>
+    (step.email_variants || []).map((v) => ({
+      key: v.key, subject: v.subject || "", body: toText(v.bodyParagraphs),
+    })));
+  const [metric, setMetric] = useState<AbMetric>((step.ab_metric as AbMetric) || "opened");
+  const [autoPromote, setAutoPromote] = useState(step.ab_auto_promote);
+
+  const { data: results = [] } = useQuery({
+    queryKey: ["flow-ab-results", step.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("ab_variant_results", {
+        p_org: orgId!, p_test: step.id,
+      });
+      if (error) throw error;
+      return (data || []) as VariantResult[];
+    },
+    enabled: !!orgId && (step.email_variants?.length ?? 0) > 0,
+  });
+
+  const base = step.email_config;
+  const leader = abLeader(results, metric);
+  const keys = ["A", ...drafts.map((d) => d.key)];
+  const patchDraft = (i: number, p: Partial<Draft>) =>
+    setDrafts((ds) => ds.map((d, j) => (j === i ? { ...d, ...p } : d)));
+
+  const variants = (): FlowEmailVariant[] => drafts.map((d) => ({
+    key: d.key,
+    ...(d.subject.trim() ? { subject: d.subject.trim() } : {}),
+    ...(toParagraphs(d.body).length > 0 ? { bodyParagraphs: toParagraphs(d.body) } : {}),
+  }));
+
+  const save = (winner: string | null) => onSave({
+    email_variants: variants(),
+    ab_metric: metric,
+    ab_auto_promote: autoPromote,
+    winner_variant: winner,
+    ab_decided_at: winner ? (winner === step.winner_variant ? step.ab_decided_at : new Date().toISOString()) : null,
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Split className="h-4 w-4 text-[#4F46E5]" /> Prueba A/B · {step.label || `Paso ${step.position}`}
+          </DialogTitle>
+          <DialogDescription>
+            La variante A es el texto actual del paso. Cada envío toma una variante al azar
+            hasta que haya ganadora; desde ahí todos reciben la ganadora.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="rounded-lg border bg-slate-50 p-3 space-y-1">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">A</Badge>
+              <span className="text-sm font-medium text-slate-800 truncate">{String(base.subject || "(sin asunto)")}</span>
+            </div>
+          </div>
+
+          {drafts.map((d, i) => (
+            <div key={d.key} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{d.key}</Badge>
+                <Input value={d.subject} onChange={(e) => patchDraft(i, { subject: e.target.value })}
+                       placeholder={String(base.subject || "Asunto")} className="h-8 text-sm flex-1" />
+                <Button size="icon" variant="ghost" className="h-8 w-8 text-red-500"
+                        onClick={() => setDrafts((ds) => ds.filter((_, j) => j !== i))} title="Quitar variante">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              <Textarea value={d.body} onChange={(e) => patchDraft(i, { body: e.target.value })}
+                        placeholder={toText(base.bodyParagraphs) || "Cuerpo (vacío = igual que A)"}
+                        rows={4} className="text-sm" />
+              <p className="text-[11px] text-slate-400">Vacío = igual que A. Separá párrafos con una línea en blanco.</p>
+            </div>
+          ))}
+
+          <Button size="sm" variant="outline" className="h-8"
+                  onClick={() => setDrafts((ds) => [...ds, { key: nextVariantKey(keys), subject: "", body: "" }])}>
+            <Plus className="h-3.5 w-3.5 mr-1" /> Agregar variante
+          </Button>
+
+          <div className="flex flex-wrap items-center gap-3 pt-2 border-t">
+            <span className="text-xs text-slate-600">Gana por</span>
+            <Select value={metric} onValueChange={(v) => setMetric(v as AbMetric)}>
+              <SelectTrigger className="h-8 w-48 text-sm"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(AB_METRIC_LABEL) as AbMetric[]).map((m) => (
+                  <SelectItem key={m} value={m}>{AB_METRIC_LABEL[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-xs text-slate-600 ml-auto">
+              <Switch checked={autoPromote} onCheckedChange={setAutoPromote} />
+              Elegir ganadora sola (95%, {AB_MIN_DELIVERED}+ entregados por variante)
+            </label>
+          </div>
+
+          {results.length > 0 && (
+            <div className="rounded-lg border divide-y">
+              {keys.map((k) => {
+                const r = results.find((x) => x.variant === k);
+                const isWinner = step.winner_variant === k;
+                return (
+                  <div key={k} className="flex items-center gap-2 px-3 py-2 text-xs">
+                    <Badge variant="outline">{k}</Badge>
+                    <span className="tabular-nums text-slate-600">
+                      {r ? `${r.delivered} entregados · ${(variantRate(r, metric) * 100).toFixed(1)}% ${AB_METRIC_LABEL[metric].toLowerCase()}` : "sin envíos"}
+                    </span>
+                    {isWinner && (
+                      <Badge variant="outline" className="text-[10px] gap-1 border-emerald-200 text-emerald-700 bg-emerald-50">
+                        <Trophy className="h-2.5 w-2.5" /> Ganadora
+                        {step.ab_decided_at && ` · ${format(new Date(step.ab_decided_at), "d MMM", { locale: es })}`}
+                      </Badge>
+                    )}
+                    {!step.winner_variant && leader?.variant === k && (
+                      <Badge variant="outline" className="text-[10px] border-slate-200 text-slate-500">
+                        {leader.significant ? "Diferencia significativa" : "Va ganando"}
+                      </Badge>
+                    )}
+                    {!isWinner && (
+                      <Button size="sm" variant="ghost" className="h-6 px-2 text-[11px] ml-auto" disabled={busy}
+                              onClick={() => save(k)}>
+                        Elegir ganadora
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {step.winner_variant && (
+            <Button variant="outline" disabled={busy} onClick={() => save(null)}>
+              Reabrir la prueba
+            </Button>
+          )}
+          <Button disabled={busy} onClick={() => save(step.winner_variant)}>Guardar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FlowAbDialog;
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { searchLeads, leadDisplayName, type LeadSearchResult } from "@/lib/leadSearch";
+import { BRANCH_PATH_LABEL, type FlowBranchPath } from "@/lib/leadFlow";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { FlaskConical, Loader2, Mail, Hourglass, Ban, AlertTriangle, Eye } from "lucide-react";
+
+/** One entry of the timeline the dispatcher's dry run returns. */
+interface SimulatedStep {
+  position: number;
+  parent_step_id: string | null;
+  branch: string | null;
+  label: string | null;
+  step_type: string;
+  at: string;
+  outcome: "sent" | "stopped" | "waiting" | "error";
+  result: string;
+  exit_conditions: string[];
+  email: { to: string | null; subject: string | null; html: string | null; variant: string | null } | null;
+}
+
+const OUTCOME_STYLE: Record<SimulatedStep["outcome"], { label: string; className: string }> = {
+  sent: { label: "Se enviaría", className: "border-emerald-200 text-emerald-700 bg-emerald-50" },
+  waiting: { label: "Espera", className: "border-violet-200 text-violet-700 bg-violet-50" },
+  stopped: { label: "Se corta acá", className: "border-amber-200 text-amber-700 bg-amber-50" },
+  error: { label: "Fallaría", className: "border-red-200 text-red-700 bg-red-50" },
+};
+
+/**
+ * Run a flow for one real lead without sending anything. The dispatcher does
+ * the work with the SAME engine that sends for real, so what this shows is what
+ * activation would do — not a second opinion of it.
+ */
+export const FlowDryRunDialog: React.FC<{
+  flow: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}> = ({ flow, onOpenChange }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<LeadSearchResult[]>([]);
+  const [lead, setLead] = useState<LeadSearchResult | null>(null);
+  const [assume, setAssume] = useState<FlowBranchPath>("timed_out");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<SimulatedStep[] | null>(null);
+  const [preview, setPreview] = useState<number | null>(null);
+
+  // Another lead or assumption is another simulation; never show stale results.
+  const reset = () => {
+    setTimeline(null);
+    setError(null);
+    setPreview(null);
+  };
+
+  useEffect(() => {
+    if (!orgId || query.trim().length < 2) return;
+    const handle = setTimeout(async () => {
+      try {
+        setResults(await searchLeads(orgId, query, 8));
+      } catch {
+        setResults([]);
+      }
+    }, 200);
+    return () => clearTimeout(handle);
+  }, [query, orgId]);
+
+  const simulate = async () => {
+    if (!flow || !lead) return;
+    setRunning(true);
+    setError(null);
+    const { data, error: fnErr } = await supabase.functions.invoke("agent-task-dispatcher", {
+      body: { dry_run: { flow_id: flow.id, lead_id: lead.id, assume_wait: assume } },
+    });
+    setRunning(false);
+    if (fnErr || !data?.success) {
+      setError(fnErr?.message || data?.error || "No se pudo simular el flujo");
+      return;
+    }
+    setTimeline((data.steps || []) as SimulatedStep[]);
+  };
+
+  return (
+    <Dialog open={!!flow} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="h-4 w-4 text-[#4F46E5]" /> Probar «{flow?.name}»
+          </DialogTitle>
+          <DialogDescription>
+            Recorre el flujo con un lead real sin mandar nada ni tocar sus datos.
+            Las salidas se evalúan con el lead tal como está hoy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 min-w-[220px] space-y-1">
+              <Input
+                value={lead ? leadDisplayName(lead) : query}
+                onChange={(e) => { setLead(null); setQuery(e.target.value); reset(); }}
+                placeholder="Buscar lead por nombre, teléfono o correo"
+                className="h-9 text-sm"
+              />
+              {!lead && query.trim().length >= 2 && results.length > 0 && (
+                <div className="rounded-md border bg-white shadow-sm max-h-48 overflow-y-auto">
+                  {results.map((r) => (
+                    <button
+                      key={r.id}
+                      type="button"
+                      className="w-full text-left px-3 py-1.5 hover:bg-slate-50"
+                      onClick={() => { setLead(r); setResults([]); }}
+                    >
+                      <span className="text-sm font-medium text-slate-900">{leadDisplayName(r)}</span>
+                      <span className="block text-xs text-slate-500">{r.email || "sin correo"}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <Select value={assume} onValueChange={(v) => { setAssume(v as FlowBranchPath); reset(); }}>
+              <SelectTrigger className="h-9 w-56 text-sm"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="timed_out">En las esperas: no hace nada</SelectItem>
+                <SelectItem value="matched">En las esperas: reacciona</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="h-9" disabled={!lead || running} onClick={simulate}>
+              {running ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <FlaskConical className="h-4 w-4 mr-1" />}
+              Simular
+            </Button>
+          </div>
+
+          {error && (
+            <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700 flex items-center gap-2">
+              <AlertTriangle className="h-3.5 w-3.5" /> {error}
+            </div>
+          )}
+
+          {timeline && timeline.length === 0 && (
+            <p className="text-sm text-slate-500">Este flujo no tiene pasos activos.</p>
+          )}
+
+          {timeline && timeline.map((s, i) => {
+            const style = OUTCOME_STYLE[s.outcome];
+            const Icon = s.step_type === "wait_event" ? Hourglass : s.outcome === "stopped" ? Ban : Mail;
+            return (
+              <div key={i} className="rounded-lg border bg-white p-3 shadow-sm space-y-1.5">
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <Icon className="h-3.5 w-3.5 text-slate-500" />
+                  <span className="font-semibold text-sm text-slate-900">
+                    {s.label || `Paso ${s.position}`}
+                  </span>
+                  {s.branch && (
+                    <Badge variant="outline" className="text-[10px] border-violet-200 text-violet-700">
+                      {BRANCH_PATH_LABEL[s.branch as FlowBranchPath] || s.branch}
+                    </Badge>
+                  )}
+                  <Badge variant="outline" className={`text-[10px] ${style.className}`}>{style.label}</Badge>
+                  <span className="text-xs text-slate-500 ml-auto tabular-nums">
+                    {format(new Date(s.at), "EEE d MMM, HH:mm", { locale: es })}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500">{s.result}</p>
+                {s.exit_conditions.length > 0 && (
+                  <p className="text-[11px] text-slate-400">
+                    Sale si: {s.exit_conditions.join(", ")}
+                  </p>
+                )}
+                {s.email && (
+                  <div className="space-y-1.5">
+                    <div className="flex items-center gap-2 text-xs">
+                      {s.email.variant && (
+                        <Badge variant="outline" className="text-[10px] border-indigo-200 text-indigo-700">
+                          Variante {s.email.variant}
+                        </Badge>
+                      )}
+                      <span className="text-slate-700 font-medium truncate">{s.email.subject}</span>
+                      <span className="text-slate-400 truncate">→ {s.email.to || "sin correo"}</span>
+                      <Button size="sm" variant="ghost" className="h-6 px-2 text-[11px] ml-auto"
+                              onClick={() => setPreview(preview === i ? null : i)}>
+                        <Eye className="h-3 w-3 mr-1" /> {preview === i ? "Ocultar" : "Ver correo"}
+                      </Button>
+                    </div>
+                    {preview === i && (
+                      <div className="border rounded-lg overflow-hidden bg-[#f3f4f6]">
+                        <iframe
+                          title={`Correo del paso ${s.position}`}
+                          srcDoc={s.email.html || ""}
+                          className="w-full border-0"
+                          style={{ minHeight: 480 }}
+                          sandbox="allow-same-origin"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FlowDryRunDialog;
@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
 import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
@@ -10,14 +11,23 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Switch } from "@/components/ui/switch";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
   AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import {
   Mail, Clock, ArrowDown, Plus, Trash2, ChevronUp, ChevronDown,
-  Pencil, AlertTriangle, Code2, Lock, Workflow, Check, X,
+  Pencil, AlertTriangle, Code2, Lock, Workflow, Check, X, Hourglass, GitFork, FlaskConical, Split,
 } from "lucide-react";
+import { FlowDryRunDialog } from "./FlowDryRunDialog";
+import { FlowAbDialog, type FlowEmailVariant } from "./FlowAbDialog";
+import {
+  buildFlowLines, lineForks, WAIT_EVENT_LABEL, BRANCH_PATH_LABEL,
+  type FlowStepNode, type FlowWaitEvent, type FlowBranchPath,
+} from "@/lib/leadFlow";
 
 // ── Shapes ────────────────────────────────────────────────────────────
 interface Flow {
@@ -40,8 +50,21 @@ interface FlowStep {
   exit_conditions: unknown;
   is_enabled: boolean;
   email_config: Record<string, unknown>;
+  step_type: string;
+  wait_event: string | null;
+  wait_timeout_minutes: number | null;
+  parent_step_id: string | null;
+  branch: string | null;
+  email_variants: FlowEmailVariant[] | null;
+  ab_metric: string;
+  ab_auto_promote: boolean;
+  winner_variant: string | null;
+  ab_decided_at: string | null;
 }
 interface StepStat { step_key: string; sent: number; delivered: number; opened: number }
+/** report_flow_step_stats row: one per step_key, or per variant under A/B. */
+interface StepStatRow extends StepStat { ab_test: string | null; variant: string | null }
+interface VariantStat { variant: string; delivered: number; opened: number }
 
 const TRIGGER_LABEL: Record<string, string> = {
   lead_created: "Entra un lead nuevo",
@@ -66,13 +89,15 @@ function humanDelay(min: number, anchor: string): string {
 const StepRow: React.FC<{
   step: FlowStep;
   stat?: StepStat;
+  variantStats?: VariantStat[];
   isFirst: boolean;
   isLast: boolean;
   onMove: (dir: -1 | 1) => void;
   onDelete: () => void;
   onRename: (label: string, delayMinutes: number) => void;
+  onAb: () => void;
   busy: boolean;
-}> = ({ step, stat, isFirst, isLast, onMove, onDelete, onRename, busy }) => {
+}> = ({ step, stat, variantStats, isFirst, isLast, onMove, onDelete, onRename, onAb, busy }) => {
   const [editing, setEditing] = useState(false);
   const [label, setLabel] = useState(step.label || "");
   const [delay, setDelay] = useState(String(step.delay_minutes));
@@ -84,6 +109,7 @@ const StepRow: React.FC<{
   // whether editing the template changes anything.
   const materialised = step.email_config && Object.keys(step.email_config).length > 0;
   const source = materialised ? "flow" : step.template_key ? "template" : "code";
+  const abVariants = step.email_variants?.length ?? 0;
 
   return (
     <div className="rounded-lg border bg-white p-3 shadow-sm">
@@ -133,6 +159,17 @@ const StepRow: React.FC<{
           ) : (
             <p className="text-xs text-slate-400 mt-1.5">Sin envíos en 60 días</p>
           )}
+          {variantStats && variantStats.length > 0 && (
+            <div className="flex flex-wrap gap-x-3 mt-1 text-[11px] text-slate-500 tabular-nums">
+              {variantStats.map((v) => (
+                <span key={v.variant}>
+                  <span className="font-semibold text-slate-700">{v.variant}</span>{" "}
+                  {v.delivered > 0 ? `${Math.round((v.opened / v.delivered) * 1000) / 10}%` : "—"}
+                  {step.winner_variant === v.variant && " 🏆"}
+                </span>
+              ))}
+            </div>
+          )}
 
           <div className="flex flex-wrap items-center gap-1.5 mt-2">
             {source === "flow" && (
@@ -153,6 +190,14 @@ const StepRow: React.FC<{
                 <Lock className="h-2.5 w-2.5" /> Solo en el código
               </Badge>
             )}
+            {source === "flow" && (
+              <Button size="sm" variant="ghost" className="h-6 px-2 text-[11px] gap-1" onClick={onAb}
+                      title="Probar asuntos o textos alternativos y quedarse con el que mejor funciona">
+                <Split className="h-3 w-3" />
+                {abVariants === 0 ? "A/B"
+                  : step.winner_variant ? `A/B · ganó ${step.winner_variant}` : `A/B · ${abVariants + 1} variantes`}
+              </Button>
+            )}
             {step.template_key && (
               <Button asChild size="sm" variant="ghost" className="h-6 px-2 text-[11px]">
                 <Link to="/leads/nurturing?tab=email_templates">Editar texto</Link>
@@ -176,6 +221,236 @@ const StepRow: React.FC<{
   );
 };
 
+// ── A wait step: holds the lead until it acts, then forks ─────────────
+const WaitRow: React.FC<{
+  step: FlowStep;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (dir: -1 | 1) => void;
+  onDelete: () => void;
+  onSave: (patch: { label: string; wait_event: FlowWaitEvent; wait_timeout_minutes: number }) => void;
+  busy: boolean;
+}> = ({ step, isFirst, isLast, onMove, onDelete, onSave, busy }) => {
+  const [editing, setEditing] = useState(false);
+  const [label, setLabel] = useState(step.label || "");
+  const [event, setEvent] = useState<FlowWaitEvent>((step.wait_event as FlowWaitEvent) || "email_opened");
+  const [hours, setHours] = useState(String(Math.round((step.wait_timeout_minutes || 0) / 60)));
+
+  const eventLabel = WAIT_EVENT_LABEL[step.wait_event as FlowWaitEvent] || step.wait_event;
+
+  return (
+    <div className="rounded-lg border border-violet-200 bg-violet-50/60 p-3 shadow-sm">
+      <div className="flex items-start gap-2.5">
+        <div className="mt-0.5 h-7 w-7 shrink-0 rounded-md bg-violet-100 flex items-center justify-center">
+          <Hourglass className="h-3.5 w-3.5 text-violet-700" />
+        </div>
+
+        <div className="min-w-0 flex-1">
+          {editing ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <Input value={label} onChange={(e) => setLabel(e.target.value)}
+                     className="h-8 text-sm flex-1 min-w-[140px]" placeholder="Nombre del paso" />
+              <Select value={event} onValueChange={(v) => setEvent(v as FlowWaitEvent)}>
+                <SelectTrigger className="h-8 text-sm w-44"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(WAIT_EVENT_LABEL) as FlowWaitEvent[]).map((k) => (
+                    <SelectItem key={k} value={k}>{WAIT_EVENT_LABEL[k]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input value={hours} onChange={(e) => setHours(e.target.value.replace(/\D/g, ""))}
+                     className="h-8 text-sm w-20" placeholder="horas" />
+              <Button size="sm" className="h-8 px-2" disabled={busy}
+                      onClick={() => {
+                        onSave({
+                          label,
+                          wait_event: event,
+                          wait_timeout_minutes: Math.max(1, Number(hours) || 0) * 60,
+                        });
+                        setEditing(false);
+                      }}>
+                <Check className="h-3.5 w-3.5" />
+              </Button>
+              <Button size="sm" variant="ghost" className="h-8 px-2" onClick={() => setEditing(false)}>
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="font-semibold text-sm text-slate-900">
+                {step.label || `Paso ${step.position}`}
+              </span>
+              <Badge variant="outline" className="text-[10px] gap-1 border-violet-200 text-violet-700">
+                <Clock className="h-2.5 w-2.5" /> Espera hasta {humanDelay(step.wait_timeout_minutes || 0, "after_trigger")}
+              </Badge>
+            </div>
+          )}
+          <p className="text-xs text-slate-500 mt-1.5">
+            Espera a que el lead: <span className="font-medium text-slate-700">{eventLabel}</span>.
+            Lo que pase decide por cuál rama sigue.
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-0.5 shrink-0">
+          <Button size="icon" variant="ghost" className="h-6 w-6" disabled={isFirst || busy}
+                  onClick={() => onMove(-1)} title="Subir"><ChevronUp className="h-3.5 w-3.5" /></Button>
+          <Button size="icon" variant="ghost" className="h-6 w-6" disabled={isLast || busy}
+                  onClick={() => onMove(1)} title="Bajar"><ChevronDown className="h-3.5 w-3.5" /></Button>
+          <Button size="icon" variant="ghost" className="h-6 w-6" disabled={busy}
+                  onClick={() => setEditing((v) => !v)} title="Editar"><Pencil className="h-3.5 w-3.5" /></Button>
+          <Button size="icon" variant="ghost" className="h-6 w-6 text-red-500 hover:text-red-600"
+                  disabled={busy} onClick={onDelete}
+                  title="Quitar (también borra las dos ramas)"><Trash2 className="h-3.5 w-3.5" /></Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ── One line of a flow: the main chain, or one side of a fork ─────────
+const StepLine: React.FC<{
+  flowId: string;
+  nodes: FlowStepNode<FlowStep>[];
+  parentStepId: string | null;
+  branch: FlowBranchPath | null;
+  stats: Record<string, StepStat>;
+  variantStats: Record<string, VariantStat[]>;
+  busy: boolean;
+  run: (label: string, fn: () => Promise<{ error: unknown }>) => void;
+  onAb: (step: FlowStep) => void;
+}> = ({ flowId, nodes, parentStepId, branch, stats, variantStats, busy, run, onAb }) => {
+  const nextPosition = (nodes[nodes.length - 1]?.step.position ?? 0) + 1;
+  const forks = lineForks(nodes);
+
+  const move = (i: number, dir: -1 | 1) => {
+    const s = nodes[i].step;
+    const other = nodes[i + dir]?.step;
+    if (!other) return;
+    // Two-phase swap: position is UNIQUE per line, so parking one row out of
+    // the way first avoids a constraint clash.
+    run("Paso movido", async () => {
+      const park = -1 * (s.position + 1);
+      let r = await supabase.from("flow_steps").update({ position: park }).eq("id", s.id);
+      if (r.error) return r;
+      r = await supabase.from("flow_steps").update({ position: s.position }).eq("id", other.id);
+      if (r.error) return r;
+      return supabase.from("flow_steps").update({ position: other.position }).eq("id", s.id);
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {nodes.map((node, i) => {
+        const s = node.step;
+        return (
+          <React.Fragment key={s.id}>
+            {i > 0 && (
+              <div className="flex justify-center"><ArrowDown className="h-3.5 w-3.5 text-slate-300" /></div>
+            )}
+            <div className={node.unreachable ? "opacity-50" : undefined}>
+              {node.unreachable && (
+                <p className="text-[11px] text-amber-700 mb-1">
+                  Nunca se ejecuta: el lead ya salió de esta línea en la espera de arriba.
+                </p>
+              )}
+              {s.step_type === "wait_event" ? (
+                <WaitRow
+                  step={s}
+                  isFirst={i === 0}
+                  isLast={i === nodes.length - 1}
+                  busy={busy}
+                  onMove={(dir) => move(i, dir)}
+                  onDelete={() => run("Espera eliminada", async () =>
+                    supabase.from("flow_steps").delete().eq("id", s.id))}
+                  onSave={(patch) => run("Espera actualizada", async () =>
+                    supabase.from("flow_steps").update(patch).eq("id", s.id))}
+                />
+              ) : (
+                <StepRow
+                  step={s}
+                  stat={s.notification_key ? stats[s.notification_key] : undefined}
+                  variantStats={variantStats[s.id]}
+                  isFirst={i === 0}
+                  isLast={i === nodes.length - 1}
+                  busy={busy}
+                  onMove={(dir) => move(i, dir)}
+                  onDelete={() => run("Paso eliminado", async () =>
+                    supabase.from("flow_steps").delete().eq("id", s.id))}
+                  onRename={(label, delayMinutes) => run("Paso actualizado", async () =>
+                    supabase.from("flow_steps").update({ label, delay_minutes: delayMinutes }).eq("id", s.id))}
+                  onAb={() => onAb(s)}
+                />
+              )}
+            </div>
+
+            {node.branches && (
+              <div className="grid gap-3 md:grid-cols-2 pl-3 border-l-2 border-violet-200">
+                {(["matched", "timed_out"] as FlowBranchPath[]).map((path) => (
+                  <div key={path} className="space-y-2">
+                    <div className="flex items-center gap-1.5 text-xs font-medium text-violet-700">
+                      <GitFork className="h-3.5 w-3.5" /> {BRANCH_PATH_LABEL[path]}
+                    </div>
+                    <StepLine
+                      flowId={flowId}
+                      nodes={node.branches![path]}
+                      parentStepId={s.id}
+                      branch={path}
+                      stats={stats}
+                      variantStats={variantStats}
+                      busy={busy}
+                      run={run}
+                      onAb={onAb}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+
+      {/* Once a line forks, new steps belong inside one of its branches. */}
+      {!forks && (
+        <div className="flex gap-2">
+          <Button
+            variant="outline" size="sm" className="flex-1 h-8 text-xs border-dashed"
+            disabled={busy}
+            onClick={() => run("Paso agregado", async () =>
+              supabase.from("flow_steps").insert({
+                flow_id: flowId,
+                parent_step_id: parentStepId,
+                branch,
+                position: nextPosition,
+                label: "Correo nuevo",
+                delay_minutes: 1440,
+                notification_key: "flow_custom",
+              }))}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" /> Agregar paso
+          </Button>
+          <Button
+            variant="outline" size="sm" className="flex-1 h-8 text-xs border-dashed"
+            disabled={busy}
+            onClick={() => run("Espera agregada", async () =>
+              supabase.from("flow_steps").insert({
+                flow_id: flowId,
+                parent_step_id: parentStepId,
+                branch,
+                position: nextPosition,
+                label: "Esperar apertura",
+                step_type: "wait_event",
+                wait_event: "email_opened",
+                wait_timeout_minutes: 4320,
+              }))}
+          >
+            <Hourglass className="h-3.5 w-3.5 mr-1" /> Agregar espera
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ── The tab ───────────────────────────────────────────────────────────
 export const FlowsTab: React.FC = () => {
   const { userRecord } = useAuth();
@@ -184,22 +459,43 @@ export const FlowsTab: React.FC = () => {
   const orgId = userRecord?.organization_id;
   const [busy, setBusy] = useState(false);
   const [confirming, setConfirming] = useState<Flow | null>(null);
+  const [testing, setTesting] = useState<Flow | null>(null);
+  const [abStep, setAbStep] = useState<FlowStep | null>(null);
 
   const { data, isLoading } = useQuery({
     queryKey: ["flows", orgId],
     queryFn: async () => {
-      if (!orgId) return { flows: [], steps: [], stats: {} as Record<string, StepStat> };
+      if (!orgId) {
+        return {
+          flows: [], steps: [],
+          stats: {} as Record<string, StepStat>, variantStats: {} as Record<string, VariantStat[]>,
+        };
+      }
       const [{ data: flows }, { data: steps }, { data: statRows }] = await Promise.all([
         supabase.from("flows").select("*").eq("organization_id", orgId).order("created_at"),
         supabase.from("flow_steps").select("*").order("position"),
         supabase.rpc("report_flow_step_stats", { p_org: orgId, p_days: 60 }),
       ]);
+      // A step under A/B comes back as one row per variant: the step total is
+      // their sum, and the split is kept per step (ab_test is the step id).
       const stats: Record<string, StepStat> = {};
-      for (const r of (statRows || []) as StepStat[]) stats[r.step_key] = r;
+      const variantStats: Record<string, VariantStat[]> = {};
+      for (const r of (statRows || []) as StepStatRow[]) {
+        const t = stats[r.step_key] || { step_key: r.step_key, sent: 0, delivered: 0, opened: 0 };
+        stats[r.step_key] = {
+          step_key: r.step_key,
+          sent: t.sent + r.sent, delivered: t.delivered + r.delivered, opened: t.opened + r.opened,
+        };
+        if (r.ab_test && r.variant) {
+          (variantStats[r.ab_test] ||= []).push({ variant: r.variant, delivered: r.delivered, opened: r.opened });
+        }
+      }
+      for (const list of Object.values(variantStats)) list.sort((a, b) => a.variant.localeCompare(b.variant));
       return {
         flows: (flows || []) as Flow[],
         steps: (steps || []) as unknown as FlowStep[],
         stats,
+        variantStats,
       };
     },
     enabled: !!orgId,
@@ -225,8 +521,10 @@ export const FlowsTab: React.FC = () => {
 
   const flows = data?.flows || [];
   const steps = data?.steps || [];
-  const stepsOf = (fid: string) => steps.filter((s) => s.flow_id === fid).sort((a, b) => a.position - b.position);
-  const codeBacked = steps.filter((s) => !(s.email_config && Object.keys(s.email_config).length > 0));
+  const stepsOf = (fid: string) => steps.filter((s) => s.flow_id === fid);
+  const codeBacked = steps.filter((s) =>
+    s.step_type !== "wait_event" && !(s.email_config && Object.keys(s.email_config).length > 0));
+  const sendSteps = steps.filter((s) => s.step_type !== "wait_event");
 
   return (
     <div className="space-y-4">
@@ -249,7 +547,7 @@ export const FlowsTab: React.FC = () => {
             la bienvenida mueve 15.754 correos y hay 196 leads dentro del nurture.
           </p>
           <p>
-            {codeBacked.length} de {steps.length} pasos toman su texto de una plantilla compartida
+            {codeBacked.length} de {sendSteps.length} pasos toman su texto de una plantilla compartida
             o directamente del código. Cada paso lo dice en su etiqueta.
           </p>
         </div>
@@ -283,6 +581,11 @@ export const FlowsTab: React.FC = () => {
                 </div>
 
                 <div className="flex items-center gap-2 shrink-0">
+                  <Button size="sm" variant="outline" className="h-7 px-2 text-xs"
+                          onClick={() => setTesting(flow)}
+                          title="Ver qué haría este flujo con un lead real, sin mandar nada">
+                    <FlaskConical className="h-3.5 w-3.5 mr-1" /> Probar
+                  </Button>
                   <span className="text-xs text-slate-500">
                     {flow.is_active ? "Activo" : "Activar"}
                   </span>
@@ -301,60 +604,40 @@ export const FlowsTab: React.FC = () => {
                 </div>
               </div>
 
-              <div className="space-y-2">
-                {fsteps.map((s, i) => (
-                  <React.Fragment key={s.id}>
-                    {i > 0 && (
-                      <div className="flex justify-center"><ArrowDown className="h-3.5 w-3.5 text-slate-300" /></div>
-                    )}
-                    <StepRow
-                      step={s}
-                      stat={s.notification_key ? data?.stats[s.notification_key] : undefined}
-                      isFirst={i === 0}
-                      isLast={i === fsteps.length - 1}
-                      busy={busy}
-                      onMove={(dir) => {
-                        const other = fsteps[i + dir];
-                        if (!other) return;
-                        // Two-phase swap: position is UNIQUE per flow, so parking
-                        // one row out of the way first avoids a constraint clash.
-                        run("Paso movido", async () => {
-                          const park = -1 * (s.position + 1);
-                          let r = await supabase.from("flow_steps").update({ position: park }).eq("id", s.id);
-                          if (r.error) return r;
-                          r = await supabase.from("flow_steps").update({ position: s.position }).eq("id", other.id);
-                          if (r.error) return r;
-                          return supabase.from("flow_steps").update({ position: other.position }).eq("id", s.id);
-                        });
-                      }}
-                      onDelete={() => run("Paso eliminado", async () =>
-                        supabase.from("flow_steps").delete().eq("id", s.id))}
-                      onRename={(label, delayMinutes) => run("Paso actualizado", async () =>
-                        supabase.from("flow_steps").update({ label, delay_minutes: delayMinutes }).eq("id", s.id))}
-                    />
-                  </React.Fragment>
-                ))}
-
-                <Button
-                  variant="outline" size="sm" className="w-full h-8 text-xs border-dashed"
-                  disabled={busy}
-                  onClick={() => run("Paso agregado", async () =>
-                    supabase.from("flow_steps").insert({
-                      flow_id: flow.id,
-                      position: (fsteps[fsteps.length - 1]?.position ?? 0) + 1,
-                      label: "Correo nuevo",
-                      delay_minutes: 1440,
-                      notification_key: "flow_custom",
-                    }))}
-                >
-                  <Plus className="h-3.5 w-3.5 mr-1" /> Agregar paso
-                </Button>
-              </div>
+              <StepLine
+                flowId={flow.id}
+                nodes={buildFlowLines(fsteps)}
+                parentStepId={null}
+                branch={null}
+                stats={data?.stats || {}}
+                variantStats={data?.variantStats || {}}
+                onAb={setAbStep}
+                busy={busy}
+                run={run}
+              />
             </CardContent>
           </Card>
         );
       })}
 
+      <FlowDryRunDialog key={testing?.id} flow={testing} onOpenChange={(o) => !o && setTesting(null)} />
+      {abStep && (
+        <FlowAbDialog
+          key={abStep.id}
+          step={abStep}
+          busy={busy}
+          onOpenChange={(o) => !o && setAbStep(null)}
+          onSave={(patch) => {
+            setAbStep(null);
+            run(patch.winner_variant && patch.winner_variant !== abStep.winner_variant
+              ? `Variante ${patch.winner_variant} elegida` : "Prueba A/B guardada",
+            async () => supabase.from("flow_steps").update({
+              ...patch, email_variants: patch.email_variants as unknown as Json,
+            }).eq("id", abStep.id));
+          }}
+        />
+      )}
+
       <AlertDialog open={!!confirming} onOpenChange={(o) => !o && setConfirming(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -8,6 +8,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -31,6 +39,7 @@ import {
   Copy,
   Check,
   Rocket,
+  Split,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
@@ -48,6 +57,7 @@ import {
   type SpotlightAudienceMode,
   type SendSpotlightResult,
 } from "@/lib/spotlightCampaign";
+import type { AbMetric } from "@/lib/abTest";
 
 // ── Email HTML renderer ───────────────────────────────────────────────
 //
@@ -283,6 +293,15 @@ export const MassCampaignsTab = () => {
   const [isSending, setIsSending] = useState(false);
   const [sendResult, setSendResult] = useState<SendSpotlightResult | null>(null);
 
+  // A/B: variant B changes subject and intro; everything else is shared so a
+  // difference in results can be pinned on one of the two.
+  const [abEnabled, setAbEnabled] = useState(false);
+  const [subjectB, setSubjectB] = useState("");
+  const [introB, setIntroB] = useState("");
+  const [abFraction, setAbFraction] = useState("0.2");
+  const [abMetric, setAbMetric] = useState<AbMetric>("opened");
+  const [abAutoPromote, setAbAutoPromote] = useState(true);
+
   const toggleStatus = (s: string) =>
     setStatuses((prev) => (prev.includes(s) ? prev.filter((x) => x !== s) : [...prev, s]));
 
@@ -452,6 +471,7 @@ export const MassCampaignsTab = () => {
         marketing: true,
         postalAddress,
       });
+      const abReady = abEnabled && (subjectB.trim() || introB.trim());
       const result = await sendSpotlightCampaign({
         supabase,
         orgId,
@@ -463,6 +483,22 @@ export const MassCampaignsTab = () => {
         recipients,
         propertyIds: [],
         audienceLabel: audienceLabelText,
+        abTest: abReady
+          ? {
+            variants: [{
+              key: "B",
+              subject: subjectB.trim() || subjectLine,
+              html: renderAnnouncementEmailHtml(
+                orgName,
+                { ...content, introText: introB.trim() || introText },
+                { marketing: true, postalAddress },
+              ),
+            }],
+            testFraction: Number(abFraction),
+            metric: abMetric,
+            autoPromote: abAutoPromote,
+          }
+          : undefined,
       });
       setSendResult(result);
       toast({
@@ -471,7 +507,7 @@ export const MassCampaignsTab = () => {
           result.suppressed > 0
             ? `, ${result.suppressed} skipped (unsubscribed / no consent)`
             : ""
-        }.`,
+        }${result.held > 0 ? `; ${result.held} held for the A/B winner` : ""}.`,
       });
     } catch (err) {
       console.error("Announcement send failed:", err);
@@ -564,6 +600,73 @@ export const MassCampaignsTab = () => {
                 <Input value={footerText} onChange={(e) => setFooterText(e.target.value)} />
               </div>
 
+              {/* A/B test */}
+              <div className="rounded-lg border border-slate-200 p-3 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="flex items-center gap-1.5">
+                    <Split className="h-3.5 w-3.5" /> A/B test
+                  </Label>
+                  <Switch checked={abEnabled} onCheckedChange={setAbEnabled} />
+                </div>
+                {abEnabled && (
+                  <>
+                    <p className="text-[11px] text-slate-400">
+                      Variant A is the content above. Variant B swaps only the subject and/or the
+                      intro, so any difference can be traced to them.
+                    </p>
+                    <div className="space-y-1.5">
+                      <Label>Variant B subject</Label>
+                      <Input
+                        value={subjectB}
+                        onChange={(e) => setSubjectB(e.target.value)}
+                        placeholder={subjectLine}
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label>Variant B intro</Label>
+                      <Textarea
+                        value={introB}
+                        onChange={(e) => setIntroB(e.target.value)}
+                        placeholder={introText}
+                        rows={3}
+                      />
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div className="space-y-1.5">
+                        <Label>Test group</Label>
+                        <Select value={abFraction} onValueChange={setAbFraction}>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="0.1">10% — rest gets the winner</SelectItem>
+                            <SelectItem value="0.2">20% — rest gets the winner</SelectItem>
+                            <SelectItem value="0.5">50% — rest gets the winner</SelectItem>
+                            <SelectItem value="1">Everyone, split in half</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label>Winner by</Label>
+                        <Select value={abMetric} onValueChange={(v) => setAbMetric(v as AbMetric)}>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="opened">Opens</SelectItem>
+                            <SelectItem value="clicked">Clicks</SelectItem>
+                            <SelectItem value="booked">Showings booked (7 days)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-xs text-slate-600">
+                        Send the winner automatically once the difference is significant (95%,
+                        100+ delivered per variant). Otherwise pick it in Campaigns.
+                      </p>
+                      <Switch checked={abAutoPromote} onCheckedChange={setAbAutoPromote} />
+                    </div>
+                  </>
+                )}
+              </div>
+
               {/* Composer actions (test / copy) */}
               <div className="flex flex-wrap gap-2 pt-3 border-t">
                 <Button variant="outline" size="sm" onClick={handleCopyHtml} className="gap-1.5">
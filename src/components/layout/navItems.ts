@@ -15,6 +15,9 @@ import {
   Briefcase,
   MessageSquareText,
   Settings,
+  Wrench,
+  LifeBuoy,
+  ClipboardCheck,
 } from 'lucide-react';
 
 /**
@@ -47,11 +50,14 @@ export const NAV_PIPELINE: NavItem[] = [
   { title: 'Leads', href: '/leads', icon: Users, end: true },
   { title: 'Nurturing Leads', href: '/leads/nurturing', icon: Sparkles, permission: 'canEditLeadInfo' },
   { title: 'Showings', href: '/showings', icon: CalendarDays },
+  { title: 'Applicants', href: '/applicants', icon: ClipboardCheck, permission: 'canScreenApplicants' },
 ];
 
-/** Single entry, no section label. */
+/** Properties, their repairs and their tenants' requests; no section label. */
 export const NAV_PROPERTIES: NavItem[] = [
   { title: 'Properties', href: '/properties', icon: Building2 },
+  { title: 'Maintenance', href: '/maintenance', icon: Wrench, permission: 'canManageWorkOrders' },
+  { title: 'Tenant Inbox', href: '/tickets', icon: LifeBuoy, permission: 'canManageTickets' },
 ];
 
 /** Market intelligence + playbooks. */
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from "react";
+import { format, startOfMonth, addMonths } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileSignature, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { createLeaseFromLead, defaultLeaseEnd } from "@/lib/leases";
+import type { LeadTag } from "@/lib/leadTags";
+
+interface CreateLeaseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  leadId: string;
+  leadName: string;
+  /** The lead's property interests — the most recent one is preselected. */
+  tags: LeadTag[];
+  onSuccess: () => void;
+}
+
+interface PropertyOption {
+  id: string;
+  address: string;
+  unit_number: string | null;
+  rent_price: number;
+  deposit_amount: number | null;
+  status: string;
+}
+
+const firstOfNextMonth = () => format(startOfMonth(addMonths(new Date(), 1)), "yyyy-MM-dd");
+
+export const CreateLeaseDialog: React.FC<CreateLeaseDialogProps> = ({
+  open,
+  onOpenChange,
+  leadId,
+  leadName,
+  tags,
+  onSuccess,
+}) => {
+  const { userRecord } = useAuth();
+  const [properties, setProperties] = useState<PropertyOption[]>([]);
+  const [propertyId, setPropertyId] = useState("");
+  const [unitNumber, setUnitNumber] = useState("");
+  const [startDate, setStartDate] = useState(firstOfNextMonth);
+  const [endDate, setEndDate] = useState(() => defaultLeaseEnd(firstOfNextMonth()));
+  const [rent, setRent] = useState("");
+  const [deposit, setDeposit] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const pickProperty = (p: PropertyOption) => {
+    setPropertyId(p.id);
+    setUnitNumber(p.unit_number || "");
+    setRent(p.rent_price ? String(p.rent_price) : "");
+    setDeposit(p.deposit_amount != null ? String(p.deposit_amount) : "");
+  };
+
+  useEffect(() => {
+    if (!open || !userRecord?.organization_id) return;
+    supabase
+      .from("properties")
+      .select("id, address, unit_number, rent_price, deposit_amount, status")
+      .eq("organization_id", userRecord.organization_id)
+      .neq("status", "inactive")
+      .order("address")
+      .then(({ data }) => {
+        const list = data || [];
+        setProperties(list);
+        const preferred = list.find((p) => p.id === tags[0]?.property_id);
+        if (preferred) pickProperty(preferred);
+      });
+    // Only on open: re-running on tag changes would clobber what the user typed.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, userRecord?.organization_id]);
+
+  const rentValue = Number(rent);
+  const depositValue = deposit === "" ? 0 : Number(deposit);
+  const isValid =
+    !!propertyId &&
+    !!startDate &&
+    !!endDate &&
+    endDate > startDate &&
+    rentValue > 0 &&
+    depositValue >= 0;
+
+  const selected = properties.find((p) => p.id === propertyId);
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+    setSaving(true);
+    try {
+      await createLeaseFromLead({
+        leadId,
+        propertyId,
+        unitNumber: unitNumber.trim() || null,
+        startDate,
+        endDate,
+        monthlyRent: rentValue,
+        securityDeposit: depositValue,
+      });
+      toast.success("Lease created", {
+        description: `${leadName} is now a tenant and ${selected?.address || "the property"} is marked rented.`,
+      });
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error creating lease:", error);
+      // The function's RAISE messages are written for the user (overlap, bad dates).
+      toast.error((error as { message?: string })?.message || "Failed to create the lease.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-2rem)] sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5 text-primary" />
+            Create Lease
+          </DialogTitle>
+          <DialogDescription>
+            Turns <strong>{leadName}</strong> into a tenant, records the lease and marks the
+            property as rented.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Property</Label>
+            <Select
+              value={propertyId}
+              onValueChange={(id) => {
+                const p = properties.find((x) => x.id === id);
+                if (p) pickProperty(p);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.address}
+                    {p.unit_number ? ` #${p.unit_number}` : ""}
+                    {p.status === "rented" ? " · Rented" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="lease-start">Start date</Label>
+              <Input
+                id="lease-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  if (e.target.value) setEndDate(defaultLeaseEnd(e.target.value));
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lease-end">End date</Label>
+              <Input
+                id="lease-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="lease-rent">Monthly rent</Label>
+              <Input
+                id="lease-rent"
+                type="number"
+                min={0}
+                value={rent}
+                onChange={(e) => setRent(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lease-deposit">Deposit</Label>
+              <Input
+                id="lease-deposit"
+                type="number"
+                min={0}
+                value={deposit}
+                onChange={(e) => setDeposit(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lease-unit">Unit</Label>
+              <Input
+                id="lease-unit"
+                value={unitNumber}
+                onChange={(e) => setUnitNumber(e.target.value)}
+                placeholder="—"
+              />
+            </div>
+          </div>
+
+          {selected?.status === "rented" && (
+            <p className="text-xs text-amber-600">
+              This property is already marked rented. The lease will be refused if the unit
+              has an active lease for the same dates.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Lease
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -800,6 +800,18 @@ export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({
         }
       }
 
+      // ── 4. Owners for the new leads — after tagging so property rules match ──
+      // Re-imported leads keep whoever owns them (assign_leads skips owned rows).
+      const ASSIGN_CHUNK = 200;
+      for (let i = 0; i < insertedLeads.length; i += ASSIGN_CHUNK) {
+        const ids = insertedLeads.slice(i, i + ASSIGN_CHUNK).map((l) => l.id);
+        const { error: assignErr } = await supabase.rpc("assign_leads", { p_lead_ids: ids });
+        if (assignErr) {
+          console.error("Lead assignment failed:", assignErr.message);
+          break;
+        }
+      }
+
       if (allNotes.length > 0) {
         // supabase-js returns { error } rather than throwing, so an unchecked
         // insert here silently dropped the whole batch (audit note + per-lead
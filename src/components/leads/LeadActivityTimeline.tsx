@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { LeadFieldHistory } from "@/components/leads/LeadFieldHistory";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { format } from "date-fns";
@@ -35,6 +36,7 @@ const FILTER_OPTIONS = [
   { value: "all", label: "All" },
   { value: "messages", label: "Messages" },
   { value: "showing", label: "Showings" },
+  { value: "fields", label: "Field History" },
 ];
 
 export const LeadActivityTimeline: React.FC<LeadActivityTimelineProps> = ({
@@ -310,7 +312,9 @@ export const LeadActivityTimeline: React.FC<LeadActivityTimelineProps> = ({
         </div>
       </CardHeader>
       <CardContent>
-        {visibleEvents.length === 0 ? (
+        {filter === "fields" ? (
+          <LeadFieldHistory leadId={leadId} />
+        ) : visibleEvents.length === 0 ? (
           <div className="text-center py-12">
             <Filter className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
             <p className="text-muted-foreground">
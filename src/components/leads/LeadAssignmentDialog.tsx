@@ -0,0 +1,436 @@
+import React, { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2, UserCheck, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLeadOwners } from "@/hooks/useLeadOwners";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { MATCH_TYPES, RULE_SOURCES, describeRule, parseCities, type MatchType } from "@/lib/leadAssignment";
+
+type PoolAgent = Tables<"lead_assignment_agents">;
+type Rule = Tables<"lead_assignment_rules">;
+
+interface RuleDraft {
+  id: string | null;
+  name: string;
+  match_type: MatchType;
+  match_values: string[];
+  cities: string;
+  agent_ids: string[];
+}
+
+const EMPTY_DRAFT: RuleDraft = { id: null, name: "", match_type: "city", match_values: [], cities: "", agent_ids: [] };
+
+/**
+ * Who owns new leads. The pool is everyone who takes leads, each with an
+ * optional cap on open leads; rules route by city, tagged property, property
+ * group or source, first match wins. Every capture path runs assign_leads()
+ * on new leads, and leads nothing else takes go round-robin across the pool.
+ */
+export const LeadAssignmentDialog: React.FC<{
+  open: boolean;
+  onOpenChange: (o: boolean) => void;
+}> = ({ open, onOpenChange }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const { active: members, nameOf: ownerName } = useLeadOwners(orgId);
+  const [newUserId, setNewUserId] = useState("");
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["lead-assignment", orgId],
+    enabled: open && !!orgId,
+    queryFn: async () => {
+      const [agentsRes, rulesRes, propsRes, groupsRes] = await Promise.all([
+        supabase.from("lead_assignment_agents").select("*").eq("organization_id", orgId!).order("created_at"),
+        supabase.from("lead_assignment_rules").select("*").eq("organization_id", orgId!).order("priority").order("created_at"),
+        supabase.from("properties").select("id, address, unit_number").eq("organization_id", orgId!).order("address"),
+        supabase.from("property_groups").select("id, address").eq("organization_id", orgId!).order("address"),
+      ]);
+      if (agentsRes.error) throw agentsRes.error;
+      if (rulesRes.error) throw rulesRes.error;
+      const agents = (agentsRes.data || []) as PoolAgent[];
+      // Open leads per agent, for the cap column.
+      const openCounts = new Map<string, number>();
+      await Promise.all(agents.map(async (a) => {
+        const { count } = await supabase
+          .from("leads")
+          .select("id", { count: "exact", head: true })
+          .eq("organization_id", orgId!)
+          .eq("assigned_leasing_agent_id", a.user_id)
+          .not("status", "in", "(converted,lost)")
+          .not("is_demo", "is", true);
+        openCounts.set(a.user_id, count ?? 0);
+      }));
+      return {
+        agents,
+        rules: (rulesRes.data || []) as Rule[],
+        properties: (propsRes.data || []).map((p) => ({
+          id: p.id, label: `${p.address}${p.unit_number ? ` #${p.unit_number}` : ""}`,
+        })),
+        groups: (groupsRes.data || []).map((g) => ({ id: g.id, label: g.address })),
+        openCounts,
+      };
+    },
+  });
+
+  const refresh = () => qc.invalidateQueries({ queryKey: ["lead-assignment", orgId] });
+  const fail = (message: string) => toast({ title: "Error", description: message, variant: "destructive" });
+
+  const agents = data?.agents ?? [];
+  const rules = data?.rules ?? [];
+  const pooled = new Set(agents.map((a) => a.user_id));
+  const candidates = members.filter((m) => !pooled.has(m.id));
+  const nameOf = (id: string) =>
+    ownerName(id)
+    ?? data?.properties.find((p) => p.id === id)?.label
+    ?? data?.groups.find((g) => g.id === id)?.label;
+
+  const addAgent = async () => {
+    if (!orgId || !newUserId) return;
+    setBusy(true);
+    const { error } = await supabase.from("lead_assignment_agents").insert({ organization_id: orgId, user_id: newUserId });
+    setBusy(false);
+    if (error) fail(error.message);
+    else { setNewUserId(""); await refresh(); }
+  };
+
+  const updateAgent = async (a: PoolAgent, patch: Partial<Pick<PoolAgent, "is_active" | "max_open_leads">>) => {
+    const { error } = await supabase.from("lead_assignment_agents").update(patch).eq("id", a.id);
+    if (error) fail(error.message);
+    else await refresh();
+  };
+
+  const saveCap = (a: PoolAgent, text: string) => {
+    const cap = text.trim() === "" ? null : Math.max(0, Math.floor(Number(text)));
+    if (cap !== null && Number.isNaN(cap)) return;
+    if (cap !== a.max_open_leads) updateAgent(a, { max_open_leads: cap });
+  };
+
+  const removeAgent = async (a: PoolAgent) => {
+    if (!window.confirm(`Take ${ownerName(a.user_id) ?? "this agent"} out of the pool? Leads they own stay theirs.`)) return;
+    const { error } = await supabase.from("lead_assignment_agents").delete().eq("id", a.id);
+    if (error) fail(error.message);
+    else await refresh();
+  };
+
+  const saveRule = async () => {
+    if (!orgId || !draft) return;
+    const values = draft.match_type === "city" ? parseCities(draft.cities) : draft.match_values;
+    if (!draft.name.trim() || values.length === 0) return;
+    setBusy(true);
+    const row = {
+      name: draft.name.trim(),
+      match_type: draft.match_type,
+      match_values: values,
+      agent_ids: draft.agent_ids,
+    };
+    const { error } = draft.id
+      ? await supabase.from("lead_assignment_rules").update(row).eq("id", draft.id)
+      : await supabase.from("lead_assignment_rules").insert({
+          ...row,
+          organization_id: orgId,
+          priority: rules.length ? Math.max(...rules.map((r) => r.priority)) + 1 : 0,
+          created_by: userRecord?.id ?? null,
+        });
+    setBusy(false);
+    if (error) fail(error.message);
+    else { setDraft(null); await refresh(); }
+  };
+
+  const toggleRule = async (r: Rule, active: boolean) => {
+    const { error } = await supabase.from("lead_assignment_rules").update({ is_active: active }).eq("id", r.id);
+    if (error) fail(error.message);
+    else await refresh();
+  };
+
+  const removeRule = async (r: Rule) => {
+    if (!window.confirm(`Delete the rule “${r.name}”? Leads it already assigned keep their owner.`)) return;
+    const { error } = await supabase.from("lead_assignment_rules").delete().eq("id", r.id);
+    if (error) fail(error.message);
+    else await refresh();
+  };
+
+  // Renumbers the whole list so ties from older rows sort out too.
+  const moveRule = async (index: number, delta: -1 | 1) => {
+    const order = [...rules];
+    const [r] = order.splice(index, 1);
+    order.splice(index + delta, 0, r);
+    setBusy(true);
+    const results = await Promise.all(
+      order.map((rule, i) =>
+        rule.priority === i
+          ? Promise.resolve({ error: null })
+          : supabase.from("lead_assignment_rules").update({ priority: i }).eq("id", rule.id),
+      ),
+    );
+    setBusy(false);
+    const error = results.find((res) => res.error)?.error;
+    if (error) fail(error.message);
+    await refresh();
+  };
+
+  const editRule = (r: Rule) =>
+    setDraft({
+      id: r.id,
+      name: r.name,
+      match_type: r.match_type as MatchType,
+      match_values: r.match_type === "city" ? [] : r.match_values,
+      cities: r.match_type === "city" ? r.match_values.join(", ") : "",
+      agent_ids: r.agent_ids,
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) setDraft(null); onOpenChange(o); }}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCheck className="h-5 w-5 text-[#4F46E5]" /> Lead assignment
+          </DialogTitle>
+          <DialogDescription>
+            New leads from the website, Hemlane, public bookings and CSV imports get an owner automatically.
+            Rules run top to bottom; leads no rule takes go round-robin across the pool.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !orgId || !data ? (
+          <Skeleton className="h-32 w-full" />
+        ) : draft ? (
+          <RuleEditor
+            draft={draft}
+            onChange={setDraft}
+            poolAgents={agents.map((a) => ({ id: a.user_id, label: ownerName(a.user_id) ?? "Unnamed" }))}
+            properties={data.properties}
+            groups={data.groups}
+            busy={busy}
+            onCancel={() => setDraft(null)}
+            onSave={saveRule}
+          />
+        ) : (
+          <div className="space-y-5">
+            <section className="space-y-2">
+              <Label className="text-xs">Pool</Label>
+              {agents.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-3">
+                  Nobody in the pool yet — new leads stay unassigned.
+                </p>
+              ) : (
+                <div className="divide-y rounded-lg border">
+                  {agents.map((a) => {
+                    const open = data.openCounts.get(a.user_id) ?? 0;
+                    const full = a.max_open_leads !== null && open >= a.max_open_leads;
+                    return (
+                      <div key={a.id} className="flex items-center gap-3 px-3 py-2.5">
+                        <div className="flex-1 min-w-0">
+                          <p className={`text-sm font-medium truncate ${a.is_active ? "" : "text-muted-foreground"}`}>
+                            {ownerName(a.user_id) ?? "Unnamed"}
+                          </p>
+                          <p className={`text-xs ${full ? "text-amber-600" : "text-muted-foreground"}`}>
+                            {open} open {open === 1 ? "lead" : "leads"}{full && " · at cap, skipped"}
+                          </p>
+                        </div>
+                        <Input
+                          key={`${a.id}-${a.max_open_leads}`}
+                          type="number"
+                          min={0}
+                          placeholder="No cap"
+                          defaultValue={a.max_open_leads ?? ""}
+                          onBlur={(e) => saveCap(a, e.target.value)}
+                          className="h-8 w-24 text-xs"
+                          aria-label="Open lead cap"
+                        />
+                        <Switch checked={a.is_active} onCheckedChange={(v) => updateAgent(a, { is_active: v })} aria-label="Active" />
+                        <Button size="icon" variant="ghost" className="h-7 w-7" aria-label="Remove" onClick={() => removeAgent(a)}>
+                          <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Select value={newUserId} onValueChange={setNewUserId}>
+                  <SelectTrigger className="h-9"><SelectValue placeholder="Add a team member…" /></SelectTrigger>
+                  <SelectContent>
+                    {candidates.map((u) => <SelectItem key={u.id} value={u.id}>{u.full_name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" className="h-9 bg-[#4F46E5] hover:bg-[#4F46E5]/90" disabled={!newUserId || busy} onClick={addAgent}>
+                  {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-1" /> Add</>}
+                </Button>
+              </div>
+            </section>
+
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Rules</Label>
+                <Button size="sm" variant="outline" className="h-7 text-xs" disabled={agents.length === 0} onClick={() => setDraft(EMPTY_DRAFT)}>
+                  <Plus className="h-3.5 w-3.5 mr-1" /> Add rule
+                </Button>
+              </div>
+              {rules.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-3">
+                  No rules — every new lead goes round-robin across the pool.
+                </p>
+              ) : (
+                <div className="divide-y rounded-lg border">
+                  {rules.map((r, i) => (
+                    <div key={r.id} className="flex items-center gap-2 px-3 py-2.5">
+                      <div className="flex flex-col">
+                        <Button size="icon" variant="ghost" className="h-5 w-5" aria-label="Move up" disabled={i === 0 || busy} onClick={() => moveRule(i, -1)}>
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-5 w-5" aria-label="Move down" disabled={i === rules.length - 1 || busy} onClick={() => moveRule(i, 1)}>
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <button className="flex-1 min-w-0 text-left" onClick={() => editRule(r)}>
+                        <p className={`text-sm font-medium truncate ${r.is_active ? "" : "text-muted-foreground"}`}>{r.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">{describeRule(r, nameOf)}</p>
+                      </button>
+                      <Switch checked={r.is_active} onCheckedChange={(v) => toggleRule(r, v)} aria-label="Active" />
+                      <Button size="icon" variant="ghost" className="h-7 w-7" aria-label="Delete" onClick={() => removeRule(r)}>
+                        <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// ── One rule: what it matches and who it hands to ────────────────────
+const RuleEditor: React.FC<{
+  draft: RuleDraft;
+  onChange: (d: RuleDraft) => void;
+  poolAgents: { id: string; label: string }[];
+  properties: { id: string; label: string }[];
+  groups: { id: string; label: string }[];
+  busy: boolean;
+  onCancel: () => void;
+  onSave: () => void;
+}> = ({ draft, onChange, poolAgents, properties, groups, busy, onCancel, onSave }) => {
+  const options = draft.match_type === "property"
+    ? properties
+    : draft.match_type === "property_group"
+      ? groups
+      : RULE_SOURCES.map((s) => ({ id: s.value, label: s.label }));
+  const labelOf = (id: string) => options.find((o) => o.id === id)?.label ?? "(removed)";
+  const values = draft.match_type === "city" ? parseCities(draft.cities) : draft.match_values;
+  const valid = draft.name.trim() !== "" && values.length > 0;
+
+  const toggleAgent = (id: string) =>
+    onChange({
+      ...draft,
+      agent_ids: draft.agent_ids.includes(id) ? draft.agent_ids.filter((x) => x !== id) : [...draft.agent_ids, id],
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1.5">
+        <Label className="text-xs">Name</Label>
+        <Input value={draft.name} onChange={(e) => onChange({ ...draft, name: e.target.value })} placeholder="West side" className="h-9" />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Match leads by</Label>
+        <Select
+          value={draft.match_type}
+          onValueChange={(v) => onChange({ ...draft, match_type: v as MatchType, match_values: [] })}
+        >
+          <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {MATCH_TYPES.map((m) => <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">{MATCH_TYPES.find((m) => m.value === draft.match_type)?.description}</p>
+      </div>
+
+      {draft.match_type === "city" ? (
+        <div className="space-y-1.5">
+          <Label className="text-xs">Cities</Label>
+          <Input
+            value={draft.cities}
+            onChange={(e) => onChange({ ...draft, cities: e.target.value })}
+            placeholder="Cleveland, Lakewood, Parma"
+            className="h-9"
+          />
+        </div>
+      ) : (
+        <div className="space-y-1.5">
+          <div className="flex flex-wrap gap-1.5">
+            {draft.match_values.map((v) => (
+              <Badge key={v} variant="secondary" className="gap-1">
+                {labelOf(v)}
+                <button type="button" aria-label="Remove" onClick={() => onChange({ ...draft, match_values: draft.match_values.filter((x) => x !== v) })}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <Select value="" onValueChange={(v) => onChange({ ...draft, match_values: [...draft.match_values, v] })}>
+            <SelectTrigger className="h-9"><SelectValue placeholder="Add…" /></SelectTrigger>
+            <SelectContent>
+              {options.filter((o) => !draft.match_values.includes(o.id)).map((o) => (
+                <SelectItem key={o.id} value={o.id}>{o.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">
+          Hand to {draft.agent_ids.length === 0 && <span className="text-muted-foreground">(anyone in the pool)</span>}
+        </Label>
+        <div className="flex flex-wrap gap-1.5">
+          {poolAgents.map((a) => (
+            <button
+              key={a.id}
+              type="button"
+              onClick={() => toggleAgent(a.id)}
+              className={`h-8 px-3 rounded-md border text-xs font-medium transition-colors ${
+                draft.agent_ids.includes(a.id)
+                  ? "bg-[#4F46E5] text-white border-[#4F46E5]"
+                  : "bg-white text-slate-600 hover:bg-slate-50"
+              }`}
+            >
+              {a.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Round-robin among them; when they are all at their cap, the next rule gets a turn.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={onCancel}>Cancel</Button>
+        <Button className="flex-1 bg-[#4F46E5] hover:bg-[#4F46E5]/90" disabled={!valid || busy} onClick={onSave}>
+          {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : draft.id ? "Save rule" : "Add rule"}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { BellOff, Building2, ChevronDown, Download, Layers, ListChecks, Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel,
+  DropdownMenuSeparator, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Json } from "@/integrations/supabase/types";
+import type { PropertyInfo } from "@/components/leads/CsvImportDialog";
+
+type BulkAction = "set_status" | "add_tag" | "snooze" | "enroll_nurture";
+
+// bulk_lead_action refuses more than 1,000 ids per call; 500 keeps each call
+// well inside a request timeout even for add_tag, which runs per lead.
+const CHUNK = 500;
+
+const TITLES: Record<BulkAction, string> = {
+  set_status: "Change status",
+  add_tag: "Add property tag",
+  snooze: "Snooze",
+  enroll_nurture: "Enroll in nurture flow",
+};
+
+/**
+ * Bulk actions over every lead matching the list's filters — not just the
+ * loaded page. `collectIds` pages the filtered set's ids past PostgREST's
+ * 1,000-row cap before anything is written; the ids then go to
+ * bulk_lead_action in chunks.
+ */
+export const LeadBulkActions: React.FC<{
+  total: number;
+  statuses: { value: string; label: string }[];
+  properties: PropertyInfo[];
+  collectIds: () => Promise<string[]>;
+  onExport: () => void;
+  exporting: boolean;
+  onDone: () => void;
+}> = ({ total, statuses, properties, collectIds, onExport, exporting, onDone }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [status, setStatus] = useState("");
+  const [propertyId, setPropertyId] = useState("");
+  const [days, setDays] = useState("14");
+  const [running, setRunning] = useState(false);
+  const [done, setDone] = useState(0);
+  const [target, setTarget] = useState(0);
+
+  // Bulk enrollment opens runs of the active manual_enroll flow, so the menu
+  // names it and stays disabled while it is off. Inactive copies can pile up;
+  // the active one (at most one per trigger) sorts first.
+  const { data: nurtureFlow } = useQuery({
+    queryKey: ["manual-enroll-flow", orgId],
+    enabled: !!orgId,
+    queryFn: async () => {
+      const { data } = await supabase
+        .from("flows")
+        .select("id, name, is_active")
+        .eq("organization_id", orgId!)
+        .eq("trigger_type", "manual_enroll")
+        .order("is_active", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      return data;
+    },
+  });
+
+  const open = (next: BulkAction) => {
+    setAction(next);
+    setDone(0);
+    setTarget(0);
+  };
+
+  const params = (): { [key: string]: Json } | null => {
+    switch (action) {
+      case "set_status": return status ? { status } : null;
+      case "add_tag": return propertyId ? { property_id: propertyId } : null;
+      case "snooze": {
+        const n = parseInt(days, 10);
+        return n >= 1 && n <= 365 ? { days: n } : null;
+      }
+      case "enroll_nurture": return nurtureFlow?.is_active ? { flow_id: nurtureFlow.id } : null;
+      default: return null;
+    }
+  };
+
+  const run = async () => {
+    const p = params();
+    if (!action || !p) return;
+    setRunning(true);
+    let matched = 0;
+    let updated = 0;
+    let sent = 0;
+    try {
+      const ids = await collectIds();
+      setTarget(ids.length);
+      for (let i = 0; i < ids.length; i += CHUNK) {
+        const chunk = ids.slice(i, i + CHUNK);
+        const { data, error } = await supabase.rpc("bulk_lead_action", {
+          p_lead_ids: chunk,
+          p_action: action,
+          p_params: p,
+        });
+        if (error) throw error;
+        const r = (data ?? {}) as { matched?: number; updated?: number };
+        matched += r.matched ?? 0;
+        updated += r.updated ?? 0;
+        sent += chunk.length;
+        setDone(sent);
+      }
+      const skipped = matched - updated;
+      toast.success(
+        `${TITLES[action]}: ${updated} lead${updated === 1 ? "" : "s"} updated` +
+          (skipped > 0 ? `, ${skipped} skipped` : ""),
+        action === "enroll_nurture" && skipped > 0
+          ? { description: "Skipped leads have no reachable email, opted out, are already booked, were nurtured before or are already in the flow." }
+          : undefined,
+      );
+      setAction(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Bulk action failed";
+      toast.error(sent > 0 ? `${message} — stopped after ${sent} leads (${updated} updated)` : message);
+    } finally {
+      setRunning(false);
+      if (sent > 0) onDone();
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="shrink-0" disabled={total === 0}>
+            <ListChecks className="h-4 w-4 mr-1.5" />
+            Bulk actions
+            <ChevronDown className="h-3.5 w-3.5 ml-1.5 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+            All {total.toLocaleString()} leads matching the filters
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => open("set_status")}>
+            <Layers className="h-4 w-4 mr-2" /> Change status…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => open("add_tag")}>
+            <Building2 className="h-4 w-4 mr-2" /> Add property tag…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => open("snooze")}>
+            <BellOff className="h-4 w-4 mr-2" /> Snooze…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => open("enroll_nurture")} disabled={!nurtureFlow?.is_active}>
+            <Send className="h-4 w-4 mr-2" />
+            {nurtureFlow?.is_active ? `Enroll in ${nurtureFlow.name}…` : "Enroll in flow (manual flow is off)"}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={onExport} disabled={exporting}>
+            <Download className="h-4 w-4 mr-2" /> Export CSV
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={action !== null} onOpenChange={(o) => { if (!o && !running) setAction(null); }}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>{action ? TITLES[action] : ""}</DialogTitle>
+            <DialogDescription>
+              Applies to all {total.toLocaleString()} leads matching the current filters, not just this page.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {action === "set_status" && (
+              <div className="space-y-1.5">
+                <Label className="text-xs">New status</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger><SelectValue placeholder="Pick a status" /></SelectTrigger>
+                  <SelectContent>
+                    {statuses.map((s) => <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Leads already in that status are left alone.</p>
+              </div>
+            )}
+
+            {action === "add_tag" && (
+              <div className="space-y-1.5">
+                <Label className="text-xs">Property</Label>
+                <Select value={propertyId} onValueChange={setPropertyId}>
+                  <SelectTrigger><SelectValue placeholder="Pick a property" /></SelectTrigger>
+                  <SelectContent>
+                    {properties.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.address}{p.unit_number ? ` #${p.unit_number}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Leads already tagged with it have the tag moved to most recent.</p>
+              </div>
+            )}
+
+            {action === "snooze" && (
+              <div className="space-y-1.5">
+                <Label htmlFor="bulk-snooze-days" className="text-xs">Days</Label>
+                <Input
+                  id="bulk-snooze-days"
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={days}
+                  onChange={(e) => setDays(e.target.value)}
+                  className="w-28"
+                />
+                <p className="text-xs text-muted-foreground">Snoozed leads drop off the Stale tab until then.</p>
+              </div>
+            )}
+
+            {action === "enroll_nurture" && (
+              <p className="text-sm text-muted-foreground">
+                Only leads with a reachable email who haven't opted out, aren't booked, converted or lost, and were
+                never nurtured before are enrolled. Leads already in {nurtureFlow?.name ?? "the flow"} stay where they
+                are. First steps run over the next six hours, after the step's own delay.
+              </p>
+            )}
+
+            {running && target > 0 && (
+              <div className="space-y-1">
+                <Progress value={(done / target) * 100} className="h-2" />
+                <p className="text-xs text-muted-foreground">{done.toLocaleString()} of {target.toLocaleString()} leads</p>
+              </div>
+            )}
+            {running && target === 0 && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                <Loader2 className="h-3 w-3 animate-spin" /> Collecting matching leads…
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)} disabled={running}>Cancel</Button>
+            <Button onClick={run} disabled={running || !params()} className="bg-[#4F46E5] hover:bg-[#4F46E5]/90">
+              {running ? <Loader2 className="h-4 w-4 animate-spin" /> : `Apply to ${total.toLocaleString()} leads`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -20,6 +20,7 @@ import {
 import {
   CalendarPlus,
   Edit,
+  FileSignature,
   AlertTriangle,
   Loader2,
   Mail,
@@ -71,6 +72,8 @@ interface LeadDetailHeaderProps {
     canDeleteLead: boolean;
   };
   onScheduleShowing: () => void;
+  /** Shown only when the lead can sign a lease (see canCreateLease). */
+  onCreateLease?: () => void;
   onEdit: () => void;
   onTakeControl: () => void;
   onDelete: () => void;
@@ -107,6 +110,7 @@ export const LeadDetailHeader: React.FC<LeadDetailHeaderProps> = ({
   tags,
   permissions,
   onScheduleShowing,
+  onCreateLease,
   onEdit,
   onTakeControl,
   onDelete,
@@ -336,6 +340,17 @@ export const LeadDetailHeader: React.FC<LeadDetailHeaderProps> = ({
                 Schedule Showing
               </Button>
             )}
+            {onCreateLease && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onCreateLease}
+                className={headerButtonClass}
+              >
+                <FileSignature className="mr-2 h-4 w-4" />
+                Create Lease
+              </Button>
+            )}
             {permissions.canEditLeadInfo && (
               <Button
                 variant="outline"
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { endOfDay, format } from "date-fns";
+import { ArrowRight, History, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLeadOwners } from "@/hooks/useLeadOwners";
+import {
+  HISTORY_FIELDS, fieldLabel, formatFieldValue, leadAsOf, loggedValues, sourceLabel, type FieldChange,
+} from "@/lib/leadHistory";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 1000;
+const SHOWN_STEP = 100;
+
+/**
+ * The Field History tab of the activity timeline: every logged change to the
+ * lead, newest first, and the lead as it stood at the end of a chosen day.
+ */
+export const LeadFieldHistory: React.FC<{ leadId: string }> = ({ leadId }) => {
+  const { userRecord } = useAuth();
+  const { nameOf } = useLeadOwners(userRecord?.organization_id);
+  const [field, setField] = useState("all");
+  const [asOfDate, setAsOfDate] = useState("");
+  const [shown, setShown] = useState(SHOWN_STEP);
+
+  // The whole log, paged past PostgREST's 1,000-row cap — the as-of view
+  // needs every change after the chosen day, not just the latest page.
+  const { data: changes = [], isLoading } = useQuery({
+    queryKey: ["lead-field-changes", leadId],
+    queryFn: async (): Promise<FieldChange[]> => {
+      const rows: FieldChange[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("lead_field_changes")
+          .select("id, field_name, old_value, new_value, change_source, changed_by_agent, changed_by_user_id, created_at")
+          .eq("lead_id", leadId)
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if ((data || []).length < PAGE_SIZE) break;
+      }
+      return rows;
+    },
+  });
+
+  const { data: lead } = useQuery({
+    queryKey: ["lead-field-history-current", leadId],
+    enabled: !!asOfDate,
+    queryFn: async () => {
+      const { data, error } = await supabase.from("leads").select("*").eq("id", leadId).single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const fields = useMemo(
+    () => [...new Set(changes.map((c) => c.field_name))].sort((a, b) => fieldLabel(a).localeCompare(fieldLabel(b))),
+    [changes],
+  );
+  const filtered = field === "all" ? changes : changes.filter((c) => c.field_name === field);
+
+  const snapshot = useMemo(() => {
+    if (!asOfDate || !lead) return undefined;
+    return leadAsOf(lead, changes, endOfDay(new Date(`${asOfDate}T00:00:00`)));
+  }, [asOfDate, lead, changes]);
+  const now = useMemo(() => (lead ? loggedValues(lead) : {}), [lead]);
+
+  // Owner changes are logged as user ids.
+  const display = (name: string, value: string | null) =>
+    name === "assigned_leasing_agent_id" && value ? nameOf(value) ?? "Former user" : formatFieldValue(value);
+
+  const actor = (c: FieldChange) => {
+    const who = c.changed_by_user_id ? nameOf(c.changed_by_user_id) ?? "A teammate" : null;
+    return who ? `${who} · ${sourceLabel(c.change_source)}` : sourceLabel(c.change_source);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-12 w-full" />)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        {!asOfDate && (
+          <Select value={field} onValueChange={(v) => { setField(v); setShown(SHOWN_STEP); }}>
+            <SelectTrigger className="h-8 w-48 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All fields</SelectItem>
+              {fields.map((f) => <SelectItem key={f} value={f}>{fieldLabel(f)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex items-end gap-1.5">
+          <div className="space-y-1">
+            <Label htmlFor="lead-as-of" className="text-xs text-muted-foreground">Show this lead as of</Label>
+            <Input
+              id="lead-as-of"
+              type="date"
+              value={asOfDate}
+              max={format(new Date(), "yyyy-MM-dd")}
+              onChange={(e) => setAsOfDate(e.target.value)}
+              className="h-8 text-xs w-40"
+            />
+          </div>
+          {asOfDate && (
+            <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => setAsOfDate("")}>
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {asOfDate ? (
+        snapshot === undefined ? (
+          <Skeleton className="h-40 w-full" />
+        ) : snapshot === null ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            This lead didn't exist yet on {format(new Date(`${asOfDate}T00:00:00`), "MMM d, yyyy")}.
+          </p>
+        ) : (
+          <div className="rounded-lg border divide-y">
+            <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1.5fr)_minmax(0,1.5fr)] gap-3 px-3 py-2 text-xs font-medium text-muted-foreground">
+              <span>Field</span>
+              <span>End of {format(new Date(`${asOfDate}T00:00:00`), "MMM d, yyyy")}</span>
+              <span>Now</span>
+            </div>
+            {HISTORY_FIELDS.map(({ field: name, label }) => {
+              const changed = snapshot.changedSince.has(name);
+              return (
+                <div
+                  key={name}
+                  className={cn(
+                    "grid grid-cols-[minmax(0,1fr)_minmax(0,1.5fr)_minmax(0,1.5fr)] gap-3 px-3 py-1.5 text-sm",
+                    changed && "bg-amber-50 dark:bg-amber-950/30",
+                  )}
+                >
+                  <span className="text-muted-foreground">{label}</span>
+                  <span className={cn("break-words", changed && "font-medium")}>{display(name, snapshot.values[name] ?? null)}</span>
+                  <span className="break-words text-muted-foreground">
+                    {changed ? display(name, now[name] ?? null) : "unchanged"}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )
+      ) : filtered.length === 0 ? (
+        <div className="text-center py-12">
+          <History className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+          <p className="text-muted-foreground">No field changes recorded yet for this lead.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {filtered.slice(0, shown).map((c) => (
+            <div key={c.id} className="p-3 rounded-lg border bg-card/50 space-y-1">
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <span className="font-medium text-sm">{fieldLabel(c.field_name)}</span>
+                <Badge variant="secondary" className="text-xs font-normal">{actor(c)}</Badge>
+              </div>
+              <p className="text-sm flex items-center gap-1.5 flex-wrap">
+                <span className="text-muted-foreground line-through break-all">{display(c.field_name, c.old_value)}</span>
+                <ArrowRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                <span className="break-all">{display(c.field_name, c.new_value)}</span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {c.created_at ? format(new Date(c.created_at), "MMM d, yyyy 'at' h:mm a") : "Unknown time"}
+              </p>
+            </div>
+          ))}
+          {shown < filtered.length && (
+            <div className="pt-2 text-center">
+              <Button variant="outline" onClick={() => setShown((n) => n + SHOWN_STEP)}>
+                Load more ({filtered.length - shown} remaining)
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, UserCheck } from "lucide-react";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useLeadOwners } from "@/hooks/useLeadOwners";
+import { useToast } from "@/hooks/use-toast";
+import { describeAssignment } from "@/lib/leadAssignment";
+
+const UNASSIGNED = "unassigned";
+
+/**
+ * Whose lead this is, who it has belonged to, and — for editors and up — a
+ * picker to hand it to someone else. The log comes from lead_assignment_log,
+ * which records automatic and manual changes alike.
+ */
+export const LeadOwnerCard: React.FC<{
+  leadId: string;
+  ownerId: string | null;
+  onChanged: () => void;
+}> = ({ leadId, ownerId, onChanged }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const permissions = usePermissions();
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const { active, nameOf } = useLeadOwners(orgId);
+  const [saving, setSaving] = useState(false);
+
+  const { data: history = [] } = useQuery({
+    queryKey: ["lead-assignment-log", leadId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("lead_assignment_log")
+        .select("id, from_user_id, to_user_id, via, rule_name, changed_by, created_at")
+        .eq("lead_id", leadId)
+        .order("created_at", { ascending: false })
+        .limit(5);
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const reassign = async (value: string) => {
+    const next = value === UNASSIGNED ? null : value;
+    if (next === ownerId) return;
+    setSaving(true);
+    const { error } = await supabase.from("leads").update({ assigned_leasing_agent_id: next }).eq("id", leadId);
+    setSaving(false);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: next ? `Assigned to ${nameOf(next) ?? "agent"}` : "Lead unassigned" });
+    await qc.invalidateQueries({ queryKey: ["lead-assignment-log", leadId] });
+    onChanged();
+  };
+
+  // A former owner who is no longer active still shows by name.
+  const choices = ownerId && !active.some((o) => o.id === ownerId)
+    ? [{ id: ownerId, full_name: nameOf(ownerId) ?? "Former user" }, ...active]
+    : active;
+
+  return (
+    <div className="glass-card rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold flex items-center gap-2">
+          <UserCheck className="h-4 w-4 text-[#4F46E5]" /> Owner
+        </h3>
+        {saving && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {permissions.canAssignLeadsToAgents ? (
+        <Select value={ownerId ?? UNASSIGNED} onValueChange={reassign} disabled={saving}>
+          <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {choices.map((o) => <SelectItem key={o.id} value={o.id}>{o.full_name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      ) : (
+        <p className="text-sm font-medium">
+          {ownerId ? nameOf(ownerId) ?? "Former user" : <span className="text-muted-foreground">Unassigned</span>}
+        </p>
+      )}
+
+      {history.length > 0 && (
+        <ul className="space-y-1.5 border-t pt-3">
+          {history.map((h) => (
+            <li key={h.id} className="text-xs">
+              <span>{describeAssignment(h, nameOf)}</span>
+              <span className="text-muted-foreground"> · {format(new Date(h.created_at), "MMM d, h:mm a")}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
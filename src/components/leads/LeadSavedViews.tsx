@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Bookmark, Check, ChevronDown, Link2, Loader2, Save, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel,
+  DropdownMenuSeparator, DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Json } from "@/integrations/supabase/types";
+import { parseViewFilters, type LeadViewFilters } from "@/lib/leadViews";
+
+interface SavedView {
+  id: string;
+  name: string;
+  user_id: string;
+  is_shared: boolean;
+  filters: LeadViewFilters;
+}
+
+/**
+ * The Views menu on LeadsList: apply a saved view, save the current filters
+ * as one, share it with the team or copy its link. `initialViewId` is the
+ * ?view= a shared link opened the page with; it is applied once the views
+ * load.
+ */
+export const LeadSavedViews: React.FC<{
+  filters: LeadViewFilters;
+  activeViewId: string | null;
+  initialViewId: string | null;
+  onApply: (view: { id: string; filters: LeadViewFilters } | null) => void;
+}> = ({ filters, activeViewId, initialViewId, onApply }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const qc = useQueryClient();
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const appliedInitial = useRef(false);
+
+  const { data: views = [], isFetched } = useQuery({
+    queryKey: ["lead-saved-views", orgId],
+    enabled: !!orgId,
+    queryFn: async (): Promise<SavedView[]> => {
+      const { data, error } = await supabase
+        .from("lead_saved_views")
+        .select("id, name, user_id, is_shared, filters")
+        .eq("organization_id", orgId!)
+        .order("name");
+      if (error) throw error;
+      return (data || []).map((v) => ({ ...v, filters: parseViewFilters(v.filters) }));
+    },
+  });
+
+  useEffect(() => {
+    if (!initialViewId || appliedInitial.current || !isFetched) return;
+    appliedInitial.current = true;
+    const view = views.find((v) => v.id === initialViewId);
+    if (view) onApply({ id: view.id, filters: view.filters });
+    else toast.error("That view was deleted or isn't shared with you");
+  }, [initialViewId, isFetched, views, onApply]);
+
+  const mine = views.filter((v) => v.user_id === userRecord?.id);
+  const team = views.filter((v) => v.user_id !== userRecord?.id);
+  const active = views.find((v) => v.id === activeViewId) ?? null;
+  const ownsActive = !!active && active.user_id === userRecord?.id;
+  const modified = !!active && JSON.stringify(active.filters) !== JSON.stringify(filters);
+
+  const refresh = () => qc.invalidateQueries({ queryKey: ["lead-saved-views", orgId] });
+
+  const openSave = () => {
+    setName("");
+    setShared(false);
+    setSaveOpen(true);
+  };
+
+  const saveNew = async () => {
+    if (!orgId || !userRecord?.id || !name.trim()) return;
+    setSaving(true);
+    const { data, error } = await supabase
+      .from("lead_saved_views")
+      .insert({
+        organization_id: orgId,
+        user_id: userRecord.id,
+        name: name.trim(),
+        is_shared: shared,
+        filters: filters as unknown as Json,
+      })
+      .select("id")
+      .single();
+    setSaving(false);
+    if (error || !data) {
+      toast.error(error?.message || "Could not save the view");
+      return;
+    }
+    setSaveOpen(false);
+    await refresh();
+    onApply({ id: data.id, filters });
+    toast.success(`Saved “${name.trim()}”`);
+  };
+
+  const updateActive = async (patch: { filters?: LeadViewFilters; is_shared?: boolean }) => {
+    if (!active) return;
+    const { error } = await supabase
+      .from("lead_saved_views")
+      .update({
+        ...(patch.filters ? { filters: patch.filters as unknown as Json } : {}),
+        ...(patch.is_shared !== undefined ? { is_shared: patch.is_shared } : {}),
+      })
+      .eq("id", active.id);
+    if (error) toast.error(error.message);
+    else {
+      await refresh();
+      toast.success(patch.filters ? `Updated “${active.name}”` : patch.is_shared ? "Shared with the team" : "No longer shared");
+    }
+  };
+
+  const remove = async () => {
+    if (!active || !window.confirm(`Delete the view “${active.name}”?`)) return;
+    const { error } = await supabase.from("lead_saved_views").delete().eq("id", active.id);
+    if (error) toast.error(error.message);
+    else {
+      onApply(null);
+      await refresh();
+    }
+  };
+
+  const copyLink = async () => {
+    if (!active) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/leads?view=${active.id}`);
+      toast.success(active.is_shared ? "Link copied" : "Link copied — share the view so others can open it");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const item = (v: SavedView) => (
+    <DropdownMenuItem key={v.id} onSelect={() => onApply({ id: v.id, filters: v.filters })}>
+      <Check className={`h-4 w-4 mr-2 ${v.id === activeViewId ? "opacity-100" : "opacity-0"}`} />
+      <span className="truncate">{v.name}</span>
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="shrink-0 max-w-[240px]">
+            <Bookmark className="h-4 w-4 mr-1.5" />
+            <span className="truncate">{active ? active.name : "Views"}</span>
+            {modified && <span className="ml-1 text-muted-foreground">•</span>}
+            <ChevronDown className="h-3.5 w-3.5 ml-1.5 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          {mine.length > 0 && <DropdownMenuLabel className="text-xs text-muted-foreground">My views</DropdownMenuLabel>}
+          {mine.map(item)}
+          {team.length > 0 && (
+            <DropdownMenuLabel className="text-xs text-muted-foreground flex items-center gap-1">
+              <Users className="h-3 w-3" /> Shared by the team
+            </DropdownMenuLabel>
+          )}
+          {team.map(item)}
+          {views.length === 0 && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">No saved views yet.</p>
+          )}
+          <DropdownMenuSeparator />
+          {active && (
+            <DropdownMenuItem onSelect={() => onApply(null)}>Clear view</DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={openSave}>
+            <Save className="h-4 w-4 mr-2" /> Save current filters…
+          </DropdownMenuItem>
+          {ownsActive && modified && (
+            <DropdownMenuItem onSelect={() => updateActive({ filters })}>
+              <Save className="h-4 w-4 mr-2" /> Update “{active.name}”
+            </DropdownMenuItem>
+          )}
+          {active && (
+            <DropdownMenuItem onSelect={copyLink}>
+              <Link2 className="h-4 w-4 mr-2" /> Copy link
+            </DropdownMenuItem>
+          )}
+          {ownsActive && (
+            <>
+              <DropdownMenuItem onSelect={() => updateActive({ is_shared: !active.is_shared })}>
+                <Users className="h-4 w-4 mr-2" /> {active.is_shared ? "Stop sharing" : "Share with the team"}
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={remove} className="text-red-600">
+                <Trash2 className="h-4 w-4 mr-2" /> Delete view
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Keeps the current filters, search and sort under a name in your Views menu.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="view-name" className="text-xs">Name</Label>
+              <Input
+                id="view-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Cleveland, no contact 30+ days"
+                onKeyDown={(e) => { if (e.key === "Enter") saveNew(); }}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <Label htmlFor="view-shared" className="text-sm">Share with the team</Label>
+                <p className="text-xs text-muted-foreground">Everyone in the org sees it in their Views menu.</p>
+              </div>
+              <Switch id="view-shared" checked={shared} onCheckedChange={setShared} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)}>Cancel</Button>
+            <Button onClick={saveNew} disabled={!name.trim() || saving} className="bg-[#4F46E5] hover:bg-[#4F46E5]/90">
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -1,12 +1,18 @@
 import React, { useState, useEffect } from "react";
-import { Copy, Merge, Loader2, AlertTriangle } from "lucide-react";
+import { Copy, Merge, Loader2, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Skeleton } from "@/components/ui/skeleton";
 import { EmptyState } from "@/components/ui/EmptyState";
-import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -15,21 +21,17 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import { format } from "date-fns";
-import { MergeDialog, performMerge } from "./MergeDialog";
+import {
+  duplicatePairKey,
+  findDuplicatePairs,
+  type DuplicatePair,
+  type MatchConfidence,
+} from "@/lib/leadDedup";
+import { MergeDialog, MergeHistory } from "./MergeDialog";
 
 interface LeadRow {
   id: string;
@@ -45,147 +47,22 @@ interface LeadRow {
   property_address?: string | null;
 }
 
-interface DuplicateGroup {
-  key: string;
-  reason: string;
-  leads: LeadRow[];
-}
-
 interface DuplicatesTabProps {
   refreshKey: number;
   onCountChange: (count: number) => void;
 }
 
-// Union-Find for linking overlapping same-name buckets into one group
-class UnionFind {
-  parent: Map<string, string> = new Map();
+type ConfidenceFilter = "all" | "medium" | "high";
 
-  find(x: string): string {
-    if (!this.parent.has(x)) this.parent.set(x, x);
-    if (this.parent.get(x) !== x) {
-      this.parent.set(x, this.find(this.parent.get(x)!));
-    }
-    return this.parent.get(x)!;
-  }
-
-  union(a: string, b: string) {
-    const ra = this.find(a);
-    const rb = this.find(b);
-    if (ra !== rb) this.parent.set(ra, rb);
-  }
-}
-
-function normalizePhone(phone: string | null): string | null {
-  if (!phone) return null;
-  const digits = phone.replace(/\D/g, "");
-  return digits.length >= 10 ? digits.slice(-10) : null;
-}
-
-function normalizeEmail(email: string | null): string | null {
-  if (!email) return null;
-  return email.trim().toLowerCase();
-}
-
-function normalizeName(name: string | null): string | null {
-  if (!name) return null;
-  return name.trim().toLowerCase().replace(/\s+/g, " ");
-}
-
-/**
- * Detect duplicate groups using CONJUNCTIVE identity: two leads are duplicates
- * only when they share the same normalized name AND the same phone, email or
- * tagged property. The name is part of every grouping key, so different people
- * can never be chained into one group (the old transitive union of loose
- * phone/email matches merged e.g. two distinct people who shared a phone).
- * Contact points used by 2+ distinct names (household phones, shared emails)
- * are ambiguous and excluded as evidence entirely.
- */
-function detectDuplicates(leads: LeadRow[]): DuplicateGroup[] {
-  // Pass 1: which normalized names use each contact point
-  const phoneNames = new Map<string, Set<string>>();
-  const emailNames = new Map<string, Set<string>>();
-  const nameOf = new Map<string, string>();
-  for (const lead of leads) {
-    const name = normalizeName(lead.full_name);
-    if (!name || name.length <= 2) continue; // unnamed leads never group
-    nameOf.set(lead.id, name);
-    const phone = normalizePhone(lead.phone);
-    if (phone) {
-      if (!phoneNames.has(phone)) phoneNames.set(phone, new Set());
-      phoneNames.get(phone)!.add(name);
-    }
-    const email = normalizeEmail(lead.email);
-    if (email) {
-      if (!emailNames.has(email)) emailNames.set(email, new Set());
-      emailNames.get(email)!.add(name);
-    }
-  }
-
-  // Pass 2: bucket leads under conjunctive keys (name embedded in every key)
-  const buckets = new Map<string, { reason: string; leads: LeadRow[] }>();
-  const add = (key: string, reason: string, lead: LeadRow) => {
-    if (!buckets.has(key)) buckets.set(key, { reason, leads: [] });
-    buckets.get(key)!.leads.push(lead);
-  };
-  for (const lead of leads) {
-    const name = nameOf.get(lead.id);
-    if (!name) continue;
-    const phone = normalizePhone(lead.phone);
-    if (phone && phoneNames.get(phone)!.size === 1) {
-      add(`p|${name}|${phone}`, "Same name + phone", lead);
-    }
-    const email = normalizeEmail(lead.email);
-    if (email && emailNames.get(email)!.size === 1) {
-      add(`e|${name}|${email}`, "Same name + email", lead);
-    }
-    for (const propertyId of new Set(lead.property_ids || [])) {
-      add(`pr|${name}|${propertyId}`, "Same name + property", lead);
-    }
-  }
-
-  // Union overlapping buckets — safe, since every bucket holds a single name
-  const uf = new UnionFind();
-  for (const [, bucket] of buckets) {
-    if (bucket.leads.length < 2) continue;
-    for (let i = 1; i < bucket.leads.length; i++) {
-      uf.union(bucket.leads[0].id, bucket.leads[i].id);
-    }
-  }
-
-  // Build groups and collect reasons per contributing bucket
-  const groupMap = new Map<string, LeadRow[]>();
-  for (const lead of leads) {
-    if (!uf.parent.has(lead.id)) continue;
-    const root = uf.find(lead.id);
-    if (!groupMap.has(root)) groupMap.set(root, []);
-    groupMap.get(root)!.push(lead);
-  }
-  const reasonsByRoot = new Map<string, Set<string>>();
-  for (const [, bucket] of buckets) {
-    if (bucket.leads.length < 2) continue;
-    const root = uf.find(bucket.leads[0].id);
-    if (!reasonsByRoot.has(root)) reasonsByRoot.set(root, new Set());
-    reasonsByRoot.get(root)!.add(bucket.reason);
-  }
-
-  const groups: DuplicateGroup[] = [];
-  for (const [root, groupLeads] of groupMap) {
-    if (groupLeads.length < 2) continue;
-    groups.push({
-      key: root,
-      reason: Array.from(reasonsByRoot.get(root) || []).join(", "),
-      leads: groupLeads.sort(
-        (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-      ),
-    });
-  }
-
-  return groups.sort((a, b) => b.leads.length - a.leads.length);
-}
+const CONFIDENCE_BADGE: Record<MatchConfidence, { label: string; className: string }> = {
+  high: { label: "High", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+  medium: { label: "Medium", className: "bg-amber-100 text-amber-800 hover:bg-amber-100" },
+  low: { label: "Low", className: "bg-slate-100 text-slate-700 hover:bg-slate-100" },
+};
 
-// Cap how many groups render at once — with hundreds of duplicates, drawing
-// every card would jank the page. detectDuplicates sorts largest-first, so the
-// biggest cleanups always show; merge those, refresh, and the rest surface.
+// Cap how many pairs render at once — with hundreds of candidates, drawing
+// every card would jank the page. findDuplicatePairs sorts best-first, so the
+// surest matches always show; work through those, refresh, and the rest surface.
 const RENDER_LIMIT = 60;
 
 const PAGE = 1000;
@@ -223,21 +100,14 @@ async function fetchAllRows(
 export const DuplicatesTab: React.FC<DuplicatesTabProps> = ({ refreshKey, onCountChange }) => {
   const { userRecord } = useAuth();
   const [loading, setLoading] = useState(true);
-  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
-  const [selectedWinners, setSelectedWinners] = useState<Record<string, string>>({});
+  const [pairs, setPairs] = useState<DuplicatePair<LeadRow>[]>([]);
+  const [filter, setFilter] = useState<ConfidenceFilter>("medium");
+  // Which lead of each pair to keep, by pair key — defaults to the older one.
+  const [keep, setKeep] = useState<Record<string, string>>({});
+  const [dismissing, setDismissing] = useState<string | null>(null);
   const [mergeTarget, setMergeTarget] = useState<{
     winner: LeadRow;
     loser: LeadRow;
-    groupKey: string;
-  } | null>(null);
-  const [confirmGroup, setConfirmGroup] = useState<{
-    group: DuplicateGroup;
-    winnerId: string;
-  } | null>(null);
-  const [mergeProgress, setMergeProgress] = useState<{
-    current: number;
-    total: number;
-    currentName: string;
   } | null>(null);
 
   useEffect(() => {
@@ -250,8 +120,8 @@ export const DuplicatesTab: React.FC<DuplicatesTabProps> = ({ refreshKey, onCoun
     setLoading(true);
 
     try {
-      // Three slim parallel fetches (no per-row joins), then one client-side pass
-      const [rawLeads, interests, properties] = await Promise.all([
+      // Slim parallel fetches (no per-row joins), then one client-side pass
+      const [rawLeads, interests, properties, dismissals] = await Promise.all([
         fetchAllRows(
           "leads",
           "id, full_name, phone, email, status, source, created_at, last_contact_at",
@@ -261,6 +131,9 @@ export const DuplicatesTab: React.FC<DuplicatesTabProps> = ({ refreshKey, onCoun
           q.eq("organization_id", orgId)
         ),
         fetchAllRows("properties", "id, address", (q) => q.eq("organization_id", orgId)),
+        fetchAllRows("lead_duplicate_dismissals", "id, lead_a_id, lead_b_id", (q) =>
+          q.eq("organization_id", orgId)
+        ),
       ]);
 
       const addressById = new Map<string, string | null>(
@@ -285,16 +158,15 @@ export const DuplicatesTab: React.FC<DuplicatesTabProps> = ({ refreshKey, onCoun
         });
       }
 
-      const detected = detectDuplicates(Array.from(byId.values()));
-      setGroups(detected);
+      const dismissed = new Set<string>(
+        dismissals.map((d: { lead_a_id: string; lead_b_id: string }) =>
+          duplicatePairKey(d.lead_a_id, d.lead_b_id)
+        )
+      );
+      const detected = findDuplicatePairs(Array.from(byId.values()), { dismissed });
+      setPairs(detected);
       onCountChange(detected.length);
-
-      // Auto-select first lead (oldest) as winner per group
-      const winners: Record<string, string> = {};
-      for (const g of detected) {
-        winners[g.key] = g.leads[0].id;
-      }
-      setSelectedWinners(winners);
+      setKeep(Object.fromEntries(detected.map((p) => [p.key, p.a.id])));
     } catch (err: any) {
       console.error("Failed to scan for duplicates:", err.message);
       toast.error("Duplicate scan failed", { description: err.message });
@@ -303,62 +175,30 @@ export const DuplicatesTab: React.FC<DuplicatesTabProps> = ({ refreshKey, onCoun
     setLoading(false);
   };
 
-  const handleMerge = (group: DuplicateGroup) => {
-    const winnerId = selectedWinners[group.key];
-    const winner = group.leads.find((l) => l.id === winnerId)!;
-    if (group.leads.length === 2) {
-      const loser = group.leads.find((l) => l.id !== winnerId)!;
-      setMergeTarget({ winner, loser, groupKey: group.key });
-    } else {
-      // 3+ leads: explicit confirmation listing exactly what will merge
-      setConfirmGroup({ group, winnerId });
-    }
+  const handleMerge = (pair: DuplicatePair<LeadRow>) => {
+    const keepA = (keep[pair.key] || pair.a.id) === pair.a.id;
+    setMergeTarget(keepA ? { winner: pair.a, loser: pair.b } : { winner: pair.b, loser: pair.a });
   };
 
-  const handleMergeGroup = async (group: DuplicateGroup, winnerId: string) => {
-    const losers = group.leads.filter((l) => l.id !== winnerId);
-    const winner = group.leads.find((l) => l.id === winnerId)!;
-    let succeeded = 0;
-    let failed = 0;
-    let firstError: string | null = null;
-
-    setMergeProgress({
-      current: 0,
-      total: losers.length,
-      currentName: winner.full_name || winner.id.slice(0, 8),
+  /** "Not a duplicate": remembered for the org, so the pair never comes back. */
+  const handleDismiss = async (pair: DuplicatePair<LeadRow>) => {
+    if (!userRecord?.organization_id) return;
+    setDismissing(pair.key);
+    const { error } = await supabase.from("lead_duplicate_dismissals").insert({
+      organization_id: userRecord.organization_id,
+      lead_a_id: pair.a.id,
+      lead_b_id: pair.b.id,
+      dismissed_by: userRecord.id,
     });
-
-    for (let i = 0; i < losers.length; i++) {
-      setMergeProgress({
-        current: i + 1,
-        total: losers.length,
-        currentName: losers[i].full_name || losers[i].id.slice(0, 8),
-      });
-      try {
-        await performMerge(winnerId, losers[i].id, userRecord?.id || null, userRecord?.organization_id || null);
-        succeeded++;
-      } catch (err: any) {
-        console.error(`Merge failed for ${losers[i].id}:`, err.message);
-        if (!firstError) firstError = err.message;
-        failed++;
-      }
-    }
-
-    setMergeProgress(null);
-    if (succeeded === 0 && failed > 0) {
-      toast.error(`Merge failed: 0 of ${losers.length} merged`, {
-        description: firstError || undefined,
-      });
-    } else if (failed > 0) {
-      toast.warning(`Merged ${succeeded} of ${losers.length} — ${failed} failed`, {
-        description: firstError || undefined,
-      });
-    } else {
-      toast.success(
-        `Merged ${succeeded} lead${succeeded !== 1 ? "s" : ""} into ${winner.full_name || "primary"}`
-      );
+    setDismissing(null);
+    if (error) {
+      toast.error("Could not save", { description: error.message });
+      return;
     }
-    fetchAndDetect();
+    const remaining = pairs.filter((p) => p.key !== pair.key);
+    setPairs(remaining);
+    onCountChange(remaining.length);
+    toast.success("Marked as not a duplicate");
   };
 
   const handleMergeComplete = () => {
@@ -383,74 +223,111 @@ export const DuplicatesTab: React.FC<DuplicatesTabProps> = ({ refreshKey, onCoun
     );
   }
 
-  if (groups.length === 0) {
+  if (pairs.length === 0) {
     return (
-      <EmptyState
-        icon={Copy}
-        title="No duplicates found"
-        description="Your lead database has no duplicate records. Great job keeping it clean!"
-      />
+      <div className="space-y-4">
+        <EmptyState
+          icon={Copy}
+          title="No duplicates found"
+          description="Your lead database has no duplicate records. Great job keeping it clean!"
+        />
+        <MergeHistory onUnmerged={fetchAndDetect} />
+      </div>
     );
   }
 
+  const byConfidence = (c: MatchConfidence) => pairs.filter((p) => p.confidence === c).length;
+  const visible = pairs.filter((p) =>
+    filter === "all" ? true : filter === "medium" ? p.confidence !== "low" : p.confidence === "high"
+  );
+
   return (
     <div className="space-y-4">
-      <p className="text-sm text-muted-foreground">
-        Found {groups.length} group{groups.length !== 1 ? "s" : ""} of potential duplicates
-        {groups.length > RENDER_LIMIT
-          ? ` — showing the ${RENDER_LIMIT} largest (merge these, then refresh for more)`
-          : ""}
-        . Review each group, select the primary lead to keep, then confirm its merge.
-      </p>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {pairs.length} possible duplicate pair{pairs.length !== 1 ? "s" : ""} —{" "}
+          {byConfidence("high")} high, {byConfidence("medium")} medium, {byConfidence("low")} low
+          confidence
+          {visible.length > RENDER_LIMIT
+            ? `. Showing the ${RENDER_LIMIT} strongest (work through these, then refresh for more)`
+            : ""}
+          . Check the evidence, pick the lead to keep, then merge — or mark the pair as not a
+          duplicate.
+        </p>
+        <Select value={filter} onValueChange={(v) => setFilter(v as ConfidenceFilter)}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="high">High confidence</SelectItem>
+            <SelectItem value="medium">Medium and up</SelectItem>
+            <SelectItem value="all">All pairs</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
 
-      {mergeProgress && (
-        <Card className="border-[#4F46E5]/30">
-          <CardContent className="py-4">
-            <div className="flex items-center gap-3 mb-2">
-              <Loader2 className="h-4 w-4 animate-spin text-[#4F46E5]" />
-              <span className="text-sm font-medium">
-                Merging {mergeProgress.current} of {mergeProgress.total}...
-              </span>
-              <span className="text-sm text-muted-foreground">
-                {mergeProgress.currentName}
-              </span>
-            </div>
-            <Progress
-              value={(mergeProgress.current / mergeProgress.total) * 100}
-              className="h-2"
-            />
-          </CardContent>
-        </Card>
+      {visible.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No pairs at this confidence — widen the filter to see the rest.
+        </p>
       )}
 
-      {groups.slice(0, RENDER_LIMIT).map((group) => (
-        <Card key={group.key}>
+      {visible.slice(0, RENDER_LIMIT).map((pair) => (
+        <Card key={pair.key}>
           <CardHeader className="pb-3">
-            <div className="flex items-center justify-between">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
               <CardTitle className="text-base flex items-center gap-2">
                 <Copy className="h-4 w-4 text-red-500" />
-                {group.leads.length} leads
-                <Badge variant="outline" className="text-xs font-normal">
-                  {group.reason}
+                Match score {pair.score}
+                <Badge className={`text-xs font-normal ${CONFIDENCE_BADGE[pair.confidence].className}`}>
+                  {CONFIDENCE_BADGE[pair.confidence].label} confidence
                 </Badge>
               </CardTitle>
-              <Button size="sm" onClick={() => handleMerge(group)} disabled={!!mergeProgress}>
-                <Merge className="h-4 w-4 mr-1.5" />
-                {group.leads.length > 2 ? `Merge ${group.leads.length - 1} into Primary` : "Merge"}
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDismiss(pair)}
+                  disabled={dismissing === pair.key}
+                >
+                  {dismissing === pair.key ? (
+                    <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+                  ) : (
+                    <X className="h-4 w-4 mr-1.5" />
+                  )}
+                  Not a duplicate
+                </Button>
+                <Button size="sm" onClick={() => handleMerge(pair)}>
+                  <Merge className="h-4 w-4 mr-1.5" />
+                  Merge
+                </Button>
+              </div>
+            </div>
+            {/* Every rule that moved the score, so the call is never blind */}
+            <div className="flex flex-wrap gap-1.5 pt-1">
+              {pair.evidence.map((e) => (
+                <Badge
+                  key={e.label}
+                  variant="outline"
+                  className={`text-xs font-normal ${
+                    e.points < 0 ? "border-red-200 text-red-700" : "border-green-200 text-green-700"
+                  }`}
+                >
+                  {e.points > 0 ? "+" : ""}
+                  {e.points} · {e.label}
+                </Badge>
+              ))}
             </div>
           </CardHeader>
           <CardContent>
             <RadioGroup
-              value={selectedWinners[group.key] || ""}
-              onValueChange={(val) =>
-                setSelectedWinners((prev) => ({ ...prev, [group.key]: val }))
-              }
+              value={keep[pair.key] || pair.a.id}
+              onValueChange={(val) => setKeep((prev) => ({ ...prev, [pair.key]: val }))}
             >
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead className="w-12">Primary</TableHead>
+                    <TableHead className="w-12">Keep</TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead>Phone</TableHead>
                     <TableHead>Email</TableHead>
@@ -460,20 +337,16 @@ export const DuplicatesTab: React.FC<DuplicatesTabProps> = ({ refreshKey, onCoun
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {group.leads.map((lead) => (
+                  {[pair.a, pair.b].map((lead) => (
                     <TableRow
                       key={lead.id}
-                      className={
-                        selectedWinners[group.key] === lead.id
-                          ? "bg-green-50"
-                          : ""
-                      }
+                      className={(keep[pair.key] || pair.a.id) === lead.id ? "bg-green-50" : ""}
                     >
                       <TableCell>
                         <RadioGroupItem
                           value={lead.id}
-                          id={lead.id}
-                          aria-label={`Keep ${lead.full_name || "this lead"} as primary`}
+                          id={`${pair.key}-${lead.id}`}
+                          aria-label={`Keep ${lead.full_name || "this lead"}`}
                         />
                       </TableCell>
                       <TableCell className="font-medium">
@@ -501,17 +374,12 @@ export const DuplicatesTab: React.FC<DuplicatesTabProps> = ({ refreshKey, onCoun
                 </TableBody>
               </Table>
             </RadioGroup>
-
-            {group.leads.length > 2 && (
-              <p className="text-xs text-muted-foreground mt-2">
-                Select the primary lead to keep, then click Merge — you'll see exactly which
-                records will be combined before anything runs.
-              </p>
-            )}
           </CardContent>
         </Card>
       ))}
 
+      <MergeHistory onUnmerged={fetchAndDetect} />
+
       {mergeTarget && (
         <MergeDialog
           open={!!mergeTarget}
@@ -521,65 +389,6 @@ export const DuplicatesTab: React.FC<DuplicatesTabProps> = ({ refreshKey, onCoun
           onMergeComplete={handleMergeComplete}
         />
       )}
-
-      {/* Per-group confirmation for 3+ lead merges — no blind mass merges */}
-      {confirmGroup && (
-        <AlertDialog open onOpenChange={(open) => !open && setConfirmGroup(null)}>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle className="flex items-center gap-2">
-                <AlertTriangle className="h-5 w-5 text-amber-500" />
-                Confirm group merge
-              </AlertDialogTitle>
-              <AlertDialogDescription>
-                {confirmGroup.group.leads.length - 1} duplicate
-                {confirmGroup.group.leads.length - 1 !== 1 ? "s" : ""} will be merged into the
-                primary lead below and then deleted. All their records (notes, showings,
-                emails, ...) move to the primary. This action cannot be undone.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <div className="max-h-56 overflow-y-auto rounded-lg border divide-y text-sm">
-              {confirmGroup.group.leads.map((lead) => {
-                const isWinner = lead.id === confirmGroup.winnerId;
-                return (
-                  <div
-                    key={lead.id}
-                    className={`flex items-center justify-between gap-2 p-2 ${
-                      isWinner ? "bg-green-50" : ""
-                    }`}
-                  >
-                    <div className="min-w-0 truncate">
-                      <span className="font-medium">{lead.full_name || "(no name)"}</span>
-                      <span className="text-muted-foreground ml-2">
-                        {lead.email || lead.phone || "no contact info"}
-                      </span>
-                    </div>
-                    <Badge
-                      variant={isWinner ? "default" : "secondary"}
-                      className="text-xs shrink-0"
-                    >
-                      {isWinner ? "Kept (primary)" : "Merged & deleted"}
-                    </Badge>
-                  </div>
-                );
-              })}
-            </div>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction
-                onClick={() => {
-                  const { group, winnerId } = confirmGroup;
-                  setConfirmGroup(null);
-                  handleMergeGroup(group, winnerId);
-                }}
-                className="bg-[#4F46E5] hover:bg-[#4F46E5]/90"
-              >
-                Merge {confirmGroup.group.leads.length - 1} into Primary
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
-      )}
     </div>
   );
 };
@@ -34,6 +34,7 @@ import {
   Braces,
   Ban,
   CalendarClock,
+  Languages,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
@@ -45,10 +46,14 @@ import {
   type EmailTemplateConfig,
   type EmailTemplatesMap,
   type EmailButton,
+  type EmailLanguage,
   TEMPLATE_TYPES,
   TEMPLATE_META,
   TEMPLATE_VARIABLES,
   DEFAULT_CONFIGS,
+  DEFAULT_CONFIGS_BY_LANGUAGE,
+  EMAIL_LANGUAGES,
+  EMAIL_LANGUAGE_LABELS,
   SAMPLE_VARIABLES,
   renderEmailHtml,
 } from "@/lib/emailTemplateDefaults";
@@ -81,6 +86,7 @@ const VARIABLE_LABELS: Record<string, string> = {
   "{orgName}": "Organization Name",
   "{senderDomain}": "Website Domain",
   "{showingDate}": "Showing Date/Time",
+  "{surveyUrl}": "Post-Tour Survey Link",
 };
 
 /** Small "{ }" button that opens a variable picker popover. Inserts at cursor position. */
@@ -145,6 +151,8 @@ export const EmailTemplatesTab: React.FC<EmailTemplatesTabProps> = ({ refreshKey
   const { getSetting, updateSetting, loading: settingsLoading } = useOrganizationSettings();
 
   const [selectedType, setSelectedType] = useState<EmailTemplateType>("welcome");
+  // Spanish-speaking leads (preferred_language = 'es') get the Spanish variant.
+  const [language, setLanguage] = useState<EmailLanguage>("en");
   const [config, setConfig] = useState<EmailTemplateConfig>(DEFAULT_CONFIGS.welcome);
   const [isDirty, setIsDirty] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -159,15 +167,23 @@ export const EmailTemplatesTab: React.FC<EmailTemplatesTabProps> = ({ refreshKey
 
   // Load saved templates from org settings
   const loadConfig = useCallback(
-    (type: EmailTemplateType) => {
+    (type: EmailTemplateType, lang: EmailLanguage) => {
       const saved = getSetting<EmailTemplatesMap>("email_templates", {});
-      const templateConfig = saved?.[type] || DEFAULT_CONFIGS[type];
+      const savedConfig = lang === "es" ? saved?.es?.[type] : saved?.[type];
+      const templateConfig = savedConfig || DEFAULT_CONFIGS_BY_LANGUAGE[lang][type];
       setConfig(JSON.parse(JSON.stringify(templateConfig)));
       setIsDirty(false);
     },
     [getSetting]
   );
 
+  // A Spanish variant that was never saved isn't what Spanish speakers get
+  // when the English one has been customised — they get the English one
+  // (resolveEmailTemplate). Say so above the editor.
+  const savedTemplates = getSetting<EmailTemplatesMap>("email_templates", {});
+  const spanishFallsBackToEnglish =
+    language === "es" && !savedTemplates?.es?.[selectedType] && !!savedTemplates?.[selectedType];
+
   // Page-level Refresh must not silently discard unsaved edits — tab switches
   // already get a confirm in handleTypeChange, so refreshKey gets the same one.
   const prevRefreshKey = useRef(refreshKey);
@@ -178,9 +194,9 @@ export const EmailTemplatesTab: React.FC<EmailTemplatesTabProps> = ({ refreshKey
     if (isRefresh && isDirty && !window.confirm("You have unsaved changes. Discard them?")) {
       return;
     }
-    loadConfig(selectedType);
+    loadConfig(selectedType, language);
     // eslint-disable-next-line react-hooks/exhaustive-deps -- isDirty is read, not a trigger
-  }, [selectedType, settingsLoading, refreshKey, loadConfig]);
+  }, [selectedType, language, settingsLoading, refreshKey, loadConfig]);
 
   // Update a config field
   const update = <K extends keyof EmailTemplateConfig>(
@@ -243,8 +259,8 @@ export const EmailTemplatesTab: React.FC<EmailTemplatesTabProps> = ({ refreshKey
 
   // Live preview HTML
   const previewHtml = useMemo(
-    () => renderEmailHtml(config, previewVars),
-    [config, previewVars]
+    () => renderEmailHtml(config, previewVars, undefined, { language }),
+    [config, previewVars, language]
   );
 
   // Save handler
@@ -266,10 +282,15 @@ export const EmailTemplatesTab: React.FC<EmailTemplatesTabProps> = ({ refreshKey
           existing = fresh.value as EmailTemplatesMap;
         }
       }
-      const updated: EmailTemplatesMap = { ...existing, [selectedType]: config };
+      const updated: EmailTemplatesMap = language === "es"
+        ? { ...existing, es: { ...existing.es, [selectedType]: config } }
+        : { ...existing, [selectedType]: config };
       await (updateSetting as any)("email_templates", updated as unknown as Record<string, unknown>, "communications");
       setIsDirty(false);
-      toast({ title: "Template saved", description: `${TEMPLATE_META[selectedType].label} template updated. Changes take effect on next send.` });
+      toast({
+        title: "Template saved",
+        description: `${TEMPLATE_META[selectedType].label} (${EMAIL_LANGUAGE_LABELS[language]}) template updated. Changes take effect on next send.`,
+      });
     } catch {
       toast({ title: "Save failed", description: "Could not save the template. Please try again.", variant: "destructive" });
     } finally {
@@ -279,7 +300,7 @@ export const EmailTemplatesTab: React.FC<EmailTemplatesTabProps> = ({ refreshKey
 
   // Reset to defaults
   const handleReset = () => {
-    setConfig(JSON.parse(JSON.stringify(DEFAULT_CONFIGS[selectedType])));
+    setConfig(JSON.parse(JSON.stringify(DEFAULT_CONFIGS_BY_LANGUAGE[language][selectedType])));
     setIsDirty(true);
   };
 
@@ -291,7 +312,7 @@ export const EmailTemplatesTab: React.FC<EmailTemplatesTabProps> = ({ refreshKey
     }
     setIsSendingTest(true);
     try {
-      const html = renderEmailHtml(config, previewVars);
+      const html = renderEmailHtml(config, previewVars, undefined, { language });
       const subject = Object.entries(previewVars).reduce(
         (s, [k, v]) => s.split(k).join(v),
         config.subject
@@ -329,6 +350,11 @@ export const EmailTemplatesTab: React.FC<EmailTemplatesTabProps> = ({ refreshKey
     setSelectedType(type as EmailTemplateType);
   };
 
+  const handleLanguageChange = (lang: string) => {
+    if (isDirty && !window.confirm("You have unsaved changes. Discard them?")) return;
+    setLanguage(lang as EmailLanguage);
+  };
+
   const variables = TEMPLATE_VARIABLES[selectedType];
 
   // Refs for variable insertion at cursor
@@ -356,7 +382,29 @@ export const EmailTemplatesTab: React.FC<EmailTemplatesTabProps> = ({ refreshKey
         </TabsList>
       </Tabs>
 
-      <p className="text-sm text-muted-foreground">{TEMPLATE_META[selectedType].description}</p>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">{TEMPLATE_META[selectedType].description}</p>
+        <Tabs value={language} onValueChange={handleLanguageChange}>
+          <TabsList className="h-8">
+            {EMAIL_LANGUAGES.map((lang) => (
+              <TabsTrigger key={lang} value={lang} className="gap-1.5 text-xs">
+                {lang === "es" && <Languages className="h-3.5 w-3.5" />}
+                {EMAIL_LANGUAGE_LABELS[lang]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Leads get the version in their preferred language. Until a Spanish version is saved, Spanish
+        speakers get the built-in Spanish text — or your English template, once you have customised it.
+      </p>
+      {spanishFallsBackToEnglish && (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+          No Spanish version saved yet — Spanish-speaking leads currently get your English template.
+          Save this one to send it instead.
+        </p>
+      )}
       <p className="text-xs text-muted-foreground">
         Note: the 7-step nurture email sequence (Elijah) is managed in the agent dispatcher
         and is not editable from this tab.
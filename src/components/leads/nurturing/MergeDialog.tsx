@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from "react";
-import { Merge, Loader2, AlertTriangle } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Merge, Loader2, AlertTriangle, History, Undo2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
@@ -152,7 +154,7 @@ export async function performMerge(
   loserId: string,
   userId: string | null,
   orgId?: string | null
-): Promise<void> {
+): Promise<string | null> {
   // Fetch full records to auto-pick which values survive. Org-scope the selects
   // for defense-in-depth (the RPC also validates org membership).
   const scope = (q: any) => (orgId ? q.eq("organization_id", orgId) : q);
@@ -169,15 +171,145 @@ export async function performMerge(
     autoPickDefault(key, winnerFull[key], loserFull[key])
   );
 
-  const { error } = await supabase.rpc("merge_leads", {
+  const { data, error } = await supabase.rpc("merge_leads", {
     p_winner_id: winnerId,
     p_loser_id: loserId,
     p_field_overrides: overrides,
     p_merged_by_user_id: userId ?? undefined,
   });
   if (error) throw new Error(error.message);
+  return mergeIdOf(data);
 }
 
+/** merge_leads returns the snapshot id that unmerge_lead takes. */
+function mergeIdOf(result: unknown): string | null {
+  const id = (result as { merge_id?: unknown } | null)?.merge_id;
+  return typeof id === "string" ? id : null;
+}
+
+/**
+ * Undo a merge from its lead_merges snapshot: the duplicate comes back with
+ * its own id and records, and primary-lead fields the merge changed are put
+ * back unless someone edited them since. The RPC raises a readable message
+ * when it can't (e.g. the primary was itself merged away later).
+ */
+async function unmergeLead(mergeId: string): Promise<void> {
+  const { error } = await supabase.rpc("unmerge_lead", { p_merge_id: mergeId });
+  if (error) throw new Error(error.message);
+}
+
+const fullNameIn = (row: unknown): string | null =>
+  (row as { full_name?: string | null } | null)?.full_name || null;
+
+interface MergeHistoryProps {
+  /** Only merges into these leads; all of the org's recent merges if omitted. */
+  leadIds?: string[];
+  limit?: number;
+  onUnmerged: () => void;
+}
+
+/** Merges that can still be undone, newest first, each with an Unmerge action. */
+export const MergeHistory: React.FC<MergeHistoryProps> = ({ leadIds, limit = 10, onUnmerged }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const [target, setTarget] = useState<{ id: string; name: string } | null>(null);
+  const [undoing, setUndoing] = useState(false);
+
+  const { data: merges = [], refetch } = useQuery({
+    queryKey: ["lead-merges", orgId, leadIds?.join(",") ?? "all", limit],
+    enabled: !!orgId,
+    queryFn: async () => {
+      let q = supabase
+        .from("lead_merges")
+        .select("id, winner_id, merged_at, loser_row, winner_after")
+        .eq("organization_id", orgId!)
+        .is("unmerged_at", null);
+      if (leadIds) q = q.in("winner_id", leadIds);
+      const { data, error } = await q.order("merged_at", { ascending: false }).limit(limit);
+      if (error) throw error;
+      return (data || []).map((m) => ({
+        id: m.id,
+        merged_at: m.merged_at,
+        loser_name: fullNameIn(m.loser_row),
+        winner_name: fullNameIn(m.winner_after),
+      }));
+    },
+  });
+
+  const handleUnmerge = async () => {
+    if (!target) return;
+    setUndoing(true);
+    try {
+      await unmergeLead(target.id);
+      toast.success("Merge undone", { description: `${target.name} is a separate lead again.` });
+      setTarget(null);
+      refetch();
+      onUnmerged();
+    } catch (err) {
+      toast.error("Unmerge failed", { description: (err as Error).message });
+    }
+    setUndoing(false);
+  };
+
+  if (merges.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <p className="text-sm font-medium flex items-center gap-1.5">
+        <History className="h-4 w-4" />
+        {leadIds ? "Earlier merges into this lead" : "Recent merges"}
+      </p>
+      <div className="divide-y text-sm">
+        {merges.map((m) => (
+          <div key={m.id} className="flex items-center justify-between gap-2 py-1.5">
+            <div className="min-w-0 truncate">
+              <span className="font-medium">{m.loser_name || "(no name)"}</span>
+              <span className="text-muted-foreground">
+                {" "}into {m.winner_name || "primary lead"} · {format(new Date(m.merged_at), "MMM d, yyyy h:mm a")}
+              </span>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setTarget({ id: m.id, name: m.loser_name || "The merged lead" })}
+            >
+              <Undo2 className="h-3.5 w-3.5 mr-1.5" />
+              Unmerge
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <AlertDialog open={!!target} onOpenChange={(open) => !open && !undoing && setTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unmerge {target?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The duplicate comes back as its own lead with the records it had before the merge.
+              Fields the merge changed on the primary lead go back too, unless someone has edited
+              them since. The pair won't be suggested as duplicates again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={undoing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleUnmerge();
+              }}
+              disabled={undoing}
+              className="bg-[#4F46E5] hover:bg-[#4F46E5]/90"
+            >
+              {undoing ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Undo2 className="h-4 w-4 mr-1.5" />}
+              Unmerge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
 export const MergeDialog: React.FC<MergeDialogProps> = ({
   open,
   onOpenChange,
@@ -262,7 +394,7 @@ export const MergeDialog: React.FC<MergeDialogProps> = ({
       // (notes, showings, emails, reminders, activity, ...), logs the merge
       // and deletes the duplicate — in a single transaction.
       const overrides = buildOverrides(loserFull, (key) => selections[key] || "winner");
-      const { error } = await supabase.rpc("merge_leads", {
+      const { data, error } = await supabase.rpc("merge_leads", {
         p_winner_id: winner.id,
         p_loser_id: loser.id,
         p_field_overrides: overrides,
@@ -273,8 +405,21 @@ export const MergeDialog: React.FC<MergeDialogProps> = ({
       setMerging(false);
       setConfirmOpen(false);
 
+      const mergeId = mergeIdOf(data);
       toast.success("Leads merged successfully", {
         description: `${loser.full_name || "Duplicate"} merged into ${winner.full_name || "Primary lead"}.`,
+        action: mergeId
+          ? {
+              label: "Undo",
+              onClick: () =>
+                unmergeLead(mergeId)
+                  .then(() => {
+                    toast.success("Merge undone");
+                    onMergeComplete();
+                  })
+                  .catch((err: Error) => toast.error("Unmerge failed", { description: err.message })),
+            }
+          : undefined,
       });
 
       onOpenChange(false);
@@ -305,7 +450,7 @@ export const MergeDialog: React.FC<MergeDialogProps> = ({
             <DialogDescription>
               Choose which values to keep for each field. The losing lead will be deleted and all
               its records (notes, showings, emails, etc.) will be moved to the winner in one
-              atomic operation.
+              atomic operation. A snapshot is kept, so the merge can be undone later.
             </DialogDescription>
           </DialogHeader>
 
@@ -427,6 +572,8 @@ export const MergeDialog: React.FC<MergeDialogProps> = ({
                   </p>
                 </div>
               )}
+
+              <MergeHistory leadIds={[winner.id, loser.id]} onUnmerged={onMergeComplete} />
             </div>
           )}
 
@@ -455,7 +602,7 @@ export const MergeDialog: React.FC<MergeDialogProps> = ({
               Confirm Merge
             </AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently merge "{loser.full_name || "duplicate"}" into "
+              This will merge "{loser.full_name || "duplicate"}" into "
               {winner.full_name || "primary lead"}". All of the duplicate's related records
               {totalRecordsToMove > 0
                 ? ` (${totalRecordsToMove} counted, plus any linked system records)`
@@ -463,7 +610,8 @@ export const MergeDialog: React.FC<MergeDialogProps> = ({
               will be moved to the primary lead, then the duplicate will be deleted.
               <br />
               <br />
-              <strong>This action cannot be undone.</strong>
+              If this turns out to be wrong, use <strong>Unmerge</strong> under Recent merges
+              on the Duplicates tab to split them again.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,388 @@
+import React, { useRef, useState } from "react";
+import { format } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Camera, CheckCircle2, Loader2, Wrench } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import {
+  WORK_ORDER_PRIORITIES,
+  WORK_ORDER_STATUSES,
+  isOpenWorkOrder,
+  signWorkOrderFiles,
+  uploadWorkOrderFile,
+  type WorkOrderPriority,
+  type WorkOrderStatus,
+} from "@/lib/workOrders";
+
+export interface WorkOrderRow {
+  id: string;
+  number: number;
+  property_id: string;
+  title: string;
+  description: string;
+  status: string;
+  priority: string;
+  assigned_to: string | null;
+  vendor_name: string | null;
+  vendor_phone: string | null;
+  resolution_notes: string | null;
+  source: string;
+  created_at: string | null;
+  completed_at: string | null;
+}
+
+interface Option {
+  id: string;
+  label: string;
+}
+
+interface WorkOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** null opens the "new work order" form. */
+  workOrder: WorkOrderRow | null;
+  properties: Option[];
+  assignees: Option[];
+  canEdit: boolean;
+  onSaved: () => void;
+}
+
+const UNASSIGNED = "__none__";
+
+export const WorkOrderDialog: React.FC<WorkOrderDialogProps> = ({
+  open,
+  onOpenChange,
+  workOrder,
+  properties,
+  assignees,
+  canEdit,
+  onSaved,
+}) => {
+  const { userRecord } = useAuth();
+  const qc = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const isNew = !workOrder;
+
+  // Seeded once per mount; the page remounts the dialog (key) for each order.
+  const [propertyId, setPropertyId] = useState(workOrder?.property_id || "");
+  const [title, setTitle] = useState(workOrder?.title || "");
+  const [description, setDescription] = useState(workOrder?.description || "");
+  const [status, setStatus] = useState<WorkOrderStatus>((workOrder?.status as WorkOrderStatus) || "open");
+  const [priority, setPriority] = useState<WorkOrderPriority>((workOrder?.priority as WorkOrderPriority) || "medium");
+  const [assignedTo, setAssignedTo] = useState(workOrder?.assigned_to || UNASSIGNED);
+  const [vendorName, setVendorName] = useState(workOrder?.vendor_name || "");
+  const [vendorPhone, setVendorPhone] = useState(workOrder?.vendor_phone || "");
+  const [resolution, setResolution] = useState(workOrder?.resolution_notes || "");
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const { data: photos = [] } = useQuery({
+    queryKey: ["work-order-files", workOrder?.id],
+    enabled: open && !!workOrder,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("work_order_files")
+        .select("id, file_name, file_url, created_at")
+        .eq("work_order_id", workOrder!.id)
+        .order("created_at");
+      if (error) throw error;
+      const signed = await signWorkOrderFiles((data || []).map((f) => f.file_url));
+      return (data || []).map((f) => ({ ...f, url: signed[f.file_url] || null }));
+    },
+  });
+
+  const save = async (overrides: { status?: WorkOrderStatus } = {}) => {
+    if (!propertyId || !title.trim()) return;
+    setSaving(true);
+    const fields = {
+      property_id: propertyId,
+      title: title.trim(),
+      description: description.trim(),
+      status: overrides.status ?? status,
+      priority,
+      assigned_to: assignedTo === UNASSIGNED ? null : assignedTo,
+      vendor_name: vendorName.trim() || null,
+      vendor_phone: vendorPhone.trim() || null,
+      resolution_notes: resolution.trim() || null,
+    };
+    try {
+      const { error } = isNew
+        ? await supabase.from("work_orders").insert({ ...fields, created_by: userRecord?.id ?? null })
+        : await supabase.from("work_orders").update(fields).eq("id", workOrder.id);
+      if (error) throw error;
+      toast.success(isNew ? "Work order created" : overrides.status === "completed" ? "Work order closed" : "Work order updated");
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving work order:", error);
+      toast.error("Failed to save the work order.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length || !workOrder || !userRecord?.organization_id) return;
+    setUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        await uploadWorkOrderFile({
+          organizationId: userRecord.organization_id,
+          workOrderId: workOrder.id,
+          userId: userRecord.id,
+          file,
+        });
+      }
+      await qc.invalidateQueries({ queryKey: ["work-order-files", workOrder.id] });
+      toast.success(files.length === 1 ? "Photo uploaded" : `${files.length} photos uploaded`);
+    } catch (error) {
+      console.error("Error uploading work order photo:", error);
+      toast.error("Failed to upload the photo.");
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const readOnly = !canEdit;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-2rem)] sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5 text-primary" />
+            {isNew ? "New work order" : `WO-${workOrder.number}`}
+          </DialogTitle>
+          {!isNew && (
+            <DialogDescription>
+              Opened {workOrder.created_at ? format(new Date(workOrder.created_at), "MMM d, yyyy") : "—"}
+              {workOrder.source === "telegram" ? " from Telegram" : ""}
+              {workOrder.completed_at
+                ? ` · closed ${format(new Date(workOrder.completed_at), "MMM d, yyyy")}`
+                : ""}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Property</Label>
+            <Select value={propertyId} onValueChange={setPropertyId} disabled={readOnly}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a property" />
+              </SelectTrigger>
+              <SelectContent>
+                {properties.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="wo-title">Title</Label>
+            <Input
+              id="wo-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Kitchen sink leaking"
+              disabled={readOnly}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="wo-description">Description</Label>
+            <Textarea
+              id="wo-description"
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={readOnly}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as WorkOrderStatus)} disabled={readOnly}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORK_ORDER_STATUSES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(v) => setPriority(v as WorkOrderPriority)} disabled={readOnly}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORK_ORDER_PRIORITIES.map((p) => (
+                    <SelectItem key={p.value} value={p.value}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Assigned to</Label>
+              <Select value={assignedTo} onValueChange={setAssignedTo} disabled={readOnly}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {assignees.map((u) => (
+                    <SelectItem key={u.id} value={u.id}>
+                      {u.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="wo-vendor">Vendor</Label>
+              <Input
+                id="wo-vendor"
+                value={vendorName}
+                onChange={(e) => setVendorName(e.target.value)}
+                placeholder="—"
+                disabled={readOnly}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wo-vendor-phone">Vendor phone</Label>
+              <Input
+                id="wo-vendor-phone"
+                value={vendorPhone}
+                onChange={(e) => setVendorPhone(e.target.value)}
+                placeholder="—"
+                disabled={readOnly}
+              />
+            </div>
+          </div>
+
+          {!isNew && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="wo-resolution">Resolution notes</Label>
+                <Textarea
+                  id="wo-resolution"
+                  rows={2}
+                  value={resolution}
+                  onChange={(e) => setResolution(e.target.value)}
+                  placeholder="What was done, parts, cost…"
+                  disabled={readOnly}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Photos</Label>
+                  {canEdit && (
+                    <>
+                      <input
+                        ref={fileInput}
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => handleFiles(e.target.files)}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => fileInput.current?.click()}
+                        disabled={uploading}
+                      >
+                        {uploading ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Camera className="mr-2 h-4 w-4" />
+                        )}
+                        Add photos
+                      </Button>
+                    </>
+                  )}
+                </div>
+                {photos.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No photos yet.</p>
+                ) : (
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {photos.map((p) =>
+                      p.url ? (
+                        <a key={p.id} href={p.url} target="_blank" rel="noreferrer">
+                          <img
+                            src={p.url}
+                            alt={p.file_name}
+                            className="aspect-square w-full rounded-md border object-cover"
+                          />
+                        </a>
+                      ) : null,
+                    )}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {canEdit && (
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            {!isNew && isOpenWorkOrder(workOrder.status) && (
+              <Button
+                variant="outline"
+                onClick={() => save({ status: "completed" })}
+                disabled={saving || !propertyId || !title.trim()}
+              >
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+                Close work order
+              </Button>
+            )}
+            <Button onClick={() => save()} disabled={saving || !propertyId || !title.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isNew ? "Create" : "Save"}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
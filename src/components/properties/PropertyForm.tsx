@@ -51,6 +51,8 @@ const propertySchema = z.object({
   virtual_tour_url: z.string().url().optional().or(z.literal('')),
   description: z.string().optional(),
   special_notes: z.string().optional(),
+  self_guided_instructions: z.string().optional(),
+  lockbox_id: z.string().optional(),
   investor_id: z.string().optional(),
 });
 
@@ -81,6 +83,10 @@ interface Property {
   section_8_accepted?: boolean | null;
   self_payment_accepted?: boolean | null;
   pet_policy?: string | null;
+  self_guided?: boolean | null;
+  self_guided_instructions?: string | null;
+  lockbox_id?: string | null;
+  overbook_high_risk?: boolean | null;
 }
 
 interface PropertyFormProps {
@@ -117,6 +123,8 @@ export const PropertyForm: React.FC<PropertyFormProps> = ({
   const [selfPaymentAccepted, setSelfPaymentAccepted] = useState<boolean>(
     property?.self_payment_accepted ?? true
   );
+  const [selfGuided, setSelfGuided] = useState<boolean>(property?.self_guided ?? false);
+  const [overbookHighRisk, setOverbookHighRisk] = useState<boolean>(property?.overbook_high_risk ?? false);
   const [alternativePropertyIds, setAlternativePropertyIds] = useState<string[]>(
     Array.isArray(property?.alternative_property_ids) ? property.alternative_property_ids : []
   );
@@ -151,6 +159,8 @@ export const PropertyForm: React.FC<PropertyFormProps> = ({
       virtual_tour_url: property?.virtual_tour_url || '',
       description: property?.description || '',
       special_notes: property?.special_notes || '',
+      self_guided_instructions: property?.self_guided_instructions || '',
+      lockbox_id: property?.lockbox_id || '',
       investor_id: property?.investor_id || '',
     },
   });
@@ -328,6 +338,10 @@ export const PropertyForm: React.FC<PropertyFormProps> = ({
         photos: photos,
         section_8_accepted: section8Accepted,
         self_payment_accepted: selfPaymentAccepted,
+        self_guided: selfGuided,
+        self_guided_instructions: data.self_guided_instructions || null,
+        lockbox_id: data.lockbox_id || null,
+        overbook_high_risk: overbookHighRisk,
         alternative_property_ids: alternativePropertyIds,
         ...(propertyGroupId ? { property_group_id: propertyGroupId } : {}),
       };
@@ -769,6 +783,92 @@ export const PropertyForm: React.FC<PropertyFormProps> = ({
           </CardContent>
         </Card>
 
+        {/* Self-guided showings — booked tours get a door code that only
+            works during their slot instead of an agent. */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Self-Guided Showings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="self-guided"
+                aria-label="Self-guided showings"
+                checked={selfGuided}
+                onCheckedChange={setSelfGuided}
+              />
+              <span className={`text-sm font-medium ${selfGuided ? 'text-emerald-700' : 'text-slate-400'}`}>
+                Renters tour this home on their own
+              </span>
+            </div>
+            {selfGuided && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="self_guided_instructions"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Arrival Instructions</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={3}
+                          placeholder="Park on the street. The keypad is on the side door…"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Sent with the door code in the booking confirmation email.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="lockbox_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lock / Lockbox ID</FormLabel>
+                      <FormControl>
+                        <Input className="min-h-[44px]" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        The device ID at your lock provider. Each showing gets its own code, valid only for its slot.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Overbooking — a tour scored high no-show risk (src/lib/noShowRisk.ts)
+            leaves its time open for one more renter. */}
+        <Card>
+          <CardHeader>
+            <CardTitle>High-Risk Showings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="overbook-high-risk"
+                aria-label="Allow a second booking on high-risk showings"
+                checked={overbookHighRisk}
+                onCheckedChange={setOverbookHighRisk}
+              />
+              <span className={`text-sm font-medium ${overbookHighRisk ? 'text-emerald-700' : 'text-slate-400'}`}>
+                Allow a second booking on high no-show risk times
+              </span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              When a tour here is booked with a high no-show risk, its time stays open for one more renter.
+              The risk only looks at lead time, confirmation, earlier no-shows and booking channel.
+            </p>
+          </CardContent>
+        </Card>
+
         {/* Photos */}
         <Card>
           <CardHeader>
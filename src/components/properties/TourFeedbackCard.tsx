@@ -0,0 +1,107 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { MessageSquareQuote } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { summarizeSurveys, type PricePerception } from '@/lib/showingSurveys';
+
+const PRICE_LABELS: { key: PricePerception; label: string; className: string }[] = [
+  { key: 'too_high', label: 'Too high', className: 'bg-red-400' },
+  { key: 'fair', label: 'About right', className: 'bg-[#4F46E5]' },
+  { key: 'good_value', label: 'Good value', className: 'bg-emerald-500' },
+];
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="rounded-lg border p-3 text-center">
+    <p className="text-lg font-semibold">{value}</p>
+    <p className="text-xs text-muted-foreground">{label}</p>
+  </div>
+);
+
+/**
+ * What renters said in the post-tour survey (showing_surveys), summed up for
+ * one property. The owner sees the same summary, minus contact details, in
+ * the Leasing Tracker.
+ */
+export const TourFeedbackCard: React.FC<{ propertyId: string; organizationId: string }> = ({
+  propertyId,
+  organizationId,
+}) => {
+  const { data: summary, isLoading } = useQuery({
+    queryKey: ['showing-surveys', propertyId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('showing_surveys')
+        .select('condition_rating, price_perception, neighborhood_fit, apply_likelihood, comments, submitted_at')
+        .eq('property_id', propertyId)
+        .eq('organization_id', organizationId)
+        .order('submitted_at', { ascending: false })
+        .limit(500);
+      if (error) throw error;
+      return summarizeSurveys(data || [], { maxComments: 5 });
+    },
+  });
+
+  if (isLoading) return <Skeleton className="h-40 w-full" />;
+  // Nothing answered yet: stay out of the way.
+  if (!summary || summary.responses === 0) return null;
+
+  const fmt = (n: number | null) => (n === null ? '—' : `${n.toFixed(1)}/5`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquareQuote className="h-4 w-4" />
+          Tour Feedback
+          <span className="text-sm font-normal text-muted-foreground">
+            · {summary.responses} {summary.responses === 1 ? 'response' : 'responses'}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <Stat label="Condition" value={fmt(summary.avgCondition)} />
+          <Stat label="Neighborhood fit" value={fmt(summary.avgNeighborhoodFit)} />
+          <Stat label="Likely to apply" value={fmt(summary.avgApplyLikelihood)} />
+          <Stat label="Would apply (4–5)" value={`${summary.likelyToApplyPct ?? 0}%`} />
+        </div>
+
+        <div className="space-y-1.5">
+          <p className="text-sm font-medium">Rent is…</p>
+          <div className="flex h-2.5 rounded-full overflow-hidden bg-muted">
+            {PRICE_LABELS.map((p) => (
+              <div
+                key={p.key}
+                className={p.className}
+                style={{ width: `${(summary.price[p.key] / summary.responses) * 100}%` }}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {PRICE_LABELS.map((p) => (
+              <span key={p.key} className="flex items-center gap-1.5">
+                <span className={`h-2 w-2 rounded-full ${p.className}`} />
+                {p.label} · {summary.price[p.key]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {summary.comments.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Latest comments</p>
+            {summary.comments.map((c, i) => (
+              <div key={i} className="rounded-lg bg-muted/50 p-3">
+                <p className="text-sm whitespace-pre-line">{c.text}</p>
+                <p className="text-xs text-muted-foreground mt-1">{format(new Date(c.submittedAt), 'MMM d, yyyy')}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { supabase } from "@/integrations/supabase/client";
+import { describeListingAlert, type ListingAlertCriteria } from "@/lib/listingAlerts";
+import { BellRing, CheckCircle2, Loader2 } from "lucide-react";
+
+interface ListingAlertDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  criteria: ListingAlertCriteria;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const LISTING_ALERT_CONSENT_LANGUAGE =
+  "Email me when a home that matches this search becomes available. Unsubscribe anytime from any email.";
+
+/**
+ * "Notify me" — saves the renter's current filters against their email so a
+ * dead-end search turns into a lead (save-listing-alert).
+ */
+export function ListingAlertDialog({ open, onOpenChange, criteria }: ListingAlertDialogProps) {
+  const [name, setName] = useState(() => localStorage.getItem("rf_name") || "");
+  const [email, setEmail] = useState(() => localStorage.getItem("rf_email") || "");
+  const [voucher, setVoucher] = useState(false);
+  const [consent, setConsent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const saved = { ...criteria, voucher: voucher || null };
+  const reset = () => { setError(null); setSent(false); setConsent(false); };
+
+  const submit = async () => {
+    setError(null);
+    if (!EMAIL_RE.test(email.trim())) { setError("Please enter a valid email address."); return; }
+    if (!consent) { setError("Please check the box so we can email you."); return; }
+
+    setSending(true);
+    localStorage.setItem("rf_name", name.trim());
+    localStorage.setItem("rf_email", email.trim());
+
+    const { data, error: fnErr } = await supabase.functions.invoke("save-listing-alert", {
+      body: {
+        full_name: name.trim() || undefined,
+        email: email.trim(),
+        criteria: saved,
+        consent,
+        consentText: `${LISTING_ALERT_CONSENT_LANGUAGE} (${window.location.href})`,
+        userAgent: navigator.userAgent,
+      },
+    });
+    setSending(false);
+
+    if (fnErr || (data as { error?: string } | null)?.error) {
+      setError((data as { error?: string } | null)?.error || "Something went wrong. Please try again.");
+      return;
+    }
+    setSent(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { onOpenChange(o); if (!o) reset(); }}>
+      <DialogContent className="sm:max-w-md">
+        {sent ? (
+          <div className="flex flex-col items-center py-6 text-center">
+            <CheckCircle2 className="h-12 w-12 text-emerald-500" />
+            <h3 className="mt-3 text-lg font-bold">You're on the list!</h3>
+            <p className="mt-1 text-sm text-muted-foreground">
+              We'll email {email.trim()} as soon as a home that fits opens up.
+            </p>
+            <Button className="mt-5 w-full" onClick={() => onOpenChange(false)}>Done</Button>
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <BellRing className="h-5 w-5 text-primary" /> Notify me about new homes
+              </DialogTitle>
+              <DialogDescription>{describeListingAlert(saved)}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3">
+              <div>
+                <Label htmlFor="alert-name" className="text-xs">Name <span className="text-muted-foreground">(optional)</span></Label>
+                <Input id="alert-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Your name" />
+              </div>
+              <div>
+                <Label htmlFor="alert-email" className="text-xs">Email</Label>
+                <Input id="alert-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="you@email.com" />
+              </div>
+              <label className="flex items-start gap-2 text-sm">
+                <Checkbox checked={voucher} onCheckedChange={(v) => setVoucher(v === true)} className="mt-0.5" />
+                <span>I'll be renting with a Section 8 voucher</span>
+              </label>
+              <label className="flex items-start gap-2 text-xs text-muted-foreground">
+                <Checkbox checked={consent} onCheckedChange={(v) => setConsent(v === true)} className="mt-0.5" />
+                <span>{LISTING_ALERT_CONSENT_LANGUAGE}</span>
+              </label>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <Button className="w-full font-semibold" onClick={submit} disabled={sending}>
+                {sending ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving…</> : "Notify me"}
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Copy, FileText, Loader2, Mail } from "lucide-react";
+import { toast } from "sonner";
+import { letterHtml, sendAdverseActionLetter } from "@/lib/screening";
+
+interface AdverseActionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Rendered from the template; staff can edit before sending. */
+  initialLetter: string;
+  screeningId: string;
+  organizationId: string;
+  leadId: string;
+  email: string | null;
+  onSent: () => void;
+}
+
+/**
+ * Preview of the adverse-action letter for a denial or conditional approval,
+ * to email, print or copy. Remounted per decision so the draft starts from
+ * the current template.
+ */
+export const AdverseActionDialog: React.FC<AdverseActionDialogProps> = ({
+  open,
+  onOpenChange,
+  initialLetter,
+  screeningId,
+  organizationId,
+  leadId,
+  email,
+  onSent,
+}) => {
+  const [letter, setLetter] = useState(initialLetter);
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    if (!email) return;
+    setSending(true);
+    try {
+      await sendAdverseActionLetter({ screeningId, organizationId, leadId, to: email, letter });
+      toast.success(`Letter emailed to ${email}`);
+      onSent();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error sending adverse-action letter:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send the letter.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handlePrint = () => {
+    const w = window.open("", "_blank");
+    if (!w) return;
+    w.document.write(
+      `<html><head><title>Application decision</title></head><body style="font-family:Georgia,serif;max-width:640px;margin:48px auto;font-size:14px;">${letterHtml(letter)}</body></html>`,
+    );
+    w.document.close();
+    w.focus();
+    w.print();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-2rem)] sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5 text-primary" />
+            Adverse-action letter
+          </DialogTitle>
+          <DialogDescription>
+            Review before sending. Keep a copy — it is your record of why the decision was made.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          rows={18}
+          className="font-mono text-xs"
+          value={letter}
+          onChange={(e) => setLetter(e.target.value)}
+        />
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            onClick={() => navigator.clipboard.writeText(letter).then(() => toast.success("Copied"))}
+          >
+            <Copy className="mr-2 h-4 w-4" />
+            Copy
+          </Button>
+          <Button variant="outline" onClick={handlePrint}>
+            Print
+          </Button>
+          <Button onClick={handleSend} disabled={sending || !email || !letter.trim()}>
+            {sending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+            {email ? "Email to applicant" : "No email on file"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,447 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2, FileText, Loader2, Save, XCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  SCREENING_CHECKLIST,
+  SCREENING_DECISIONS,
+  SCREENING_REASONS,
+  addScreeningNote,
+  incomeCheck,
+  needsReason,
+  renderAdverseActionLetter,
+  type ScreeningChecklist,
+  type ScreeningDecision,
+} from "@/lib/screening";
+import { AdverseActionDialog } from "./AdverseActionDialog";
+
+export interface ApplicantRow {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  applied_at: string | null;
+}
+
+export interface ScreeningPropertyOption {
+  id: string;
+  label: string;
+  rent: number | null;
+}
+
+interface ScreeningRow {
+  id: string;
+  property_id: string | null;
+  monthly_income: number | null;
+  rent_amount: number | null;
+  checklist: ScreeningChecklist;
+  decision: ScreeningDecision;
+  reason_code: string | null;
+  conditions: string | null;
+  decided_at: string | null;
+  adverse_action_sent_at: string | null;
+  updated_at: string;
+}
+
+interface ScreeningWorkspaceProps {
+  applicant: ApplicantRow;
+  properties: ScreeningPropertyOption[];
+  /** The home the applicant most recently showed interest in. */
+  defaultPropertyId: string | null;
+  incomeMultiple: number;
+  companyName: string;
+  canEdit: boolean;
+  onChanged: () => void;
+}
+
+const money = (n: number) => `$${Math.round(n).toLocaleString()}`;
+
+export const ScreeningWorkspace: React.FC<ScreeningWorkspaceProps> = ({
+  applicant,
+  properties,
+  defaultPropertyId,
+  incomeMultiple,
+  companyName,
+  canEdit,
+  onChanged,
+}) => {
+  const { userRecord } = useAuth();
+  const qc = useQueryClient();
+  const [pickedPropertyId, setPickedPropertyId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [savingNote, setSavingNote] = useState(false);
+
+  const { data: screenings = [], isLoading } = useQuery({
+    queryKey: ["application-screenings", applicant.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("application_screenings")
+        .select(
+          "id, property_id, monthly_income, rent_amount, checklist, decision, reason_code, conditions, decided_at, adverse_action_sent_at, updated_at",
+        )
+        .eq("lead_id", applicant.id)
+        .order("updated_at", { ascending: false });
+      if (error) throw error;
+      return (data || []) as ScreeningRow[];
+    },
+  });
+
+  const { data: notes = [] } = useQuery({
+    queryKey: ["applicant-notes", applicant.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("applicant_notes")
+        .select("id, note, created_at, users(full_name)")
+        .eq("lead_id", applicant.id)
+        .order("created_at");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  // Explicit pick, else the last home screened, else the latest interest.
+  const propertyId = pickedPropertyId ?? screenings[0]?.property_id ?? defaultPropertyId ?? "";
+  const property = properties.find((p) => p.id === propertyId) || null;
+  const screening = screenings.find((s) => (s.property_id ?? "") === propertyId) || null;
+
+  const refresh = async () => {
+    await qc.invalidateQueries({ queryKey: ["application-screenings", applicant.id] });
+    onChanged();
+  };
+
+  const handleAddNote = async () => {
+    const body = note.trim();
+    if (!body || !userRecord?.organization_id) return;
+    setSavingNote(true);
+    try {
+      await addScreeningNote(userRecord.organization_id, applicant.id, userRecord.id, body);
+      setNote("");
+      await qc.invalidateQueries({ queryKey: ["applicant-notes", applicant.id] });
+    } catch (error) {
+      console.error("Error adding applicant note:", error);
+      toast.error("Failed to add the note.");
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="space-y-3 border-b p-4">
+        <div>
+          <h2 className="text-lg font-semibold">{applicant.name}</h2>
+          <p className="text-sm text-muted-foreground">
+            {[applicant.email, applicant.phone].filter(Boolean).join(" · ") || "No contact info"}
+            {applicant.applied_at && ` · applied ${format(new Date(applicant.applied_at), "MMM d")}`}
+          </p>
+        </div>
+        <Select value={propertyId} onValueChange={setPickedPropertyId}>
+          <SelectTrigger className="h-9">
+            <SelectValue placeholder="Home applied for" />
+          </SelectTrigger>
+          <SelectContent>
+            {properties.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.label}
+                {screenings.some((s) => s.property_id === p.id) ? " · screened" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 space-y-6 overflow-y-auto p-4">
+        {isLoading ? (
+          <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+        ) : !property ? (
+          <p className="text-sm text-muted-foreground">Pick the home this application is for.</p>
+        ) : (
+          <ScreeningForm
+            key={`${property.id}:${screening?.updated_at ?? "new"}`}
+            applicant={applicant}
+            property={property}
+            screening={screening}
+            incomeMultiple={incomeMultiple}
+            companyName={companyName}
+            canEdit={canEdit}
+            onSaved={refresh}
+          />
+        )}
+
+        {/* Notes */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Notes</h3>
+          {notes.length === 0 && <p className="text-xs text-muted-foreground">No notes yet.</p>}
+          {notes.map((n) => (
+            <div key={n.id} className="rounded-lg border bg-muted/30 p-3 text-sm">
+              <div className="mb-1 text-xs text-muted-foreground">
+                {(n.users as { full_name: string | null } | null)?.full_name || "Staff"}
+                {n.created_at && ` · ${format(new Date(n.created_at), "MMM d, h:mm a")}`}
+              </div>
+              <p className="whitespace-pre-wrap">{n.note}</p>
+            </div>
+          ))}
+          {canEdit && (
+            <div className="space-y-2">
+              <Textarea
+                rows={2}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Called the previous landlord…"
+              />
+              <div className="flex justify-end">
+                <Button size="sm" variant="outline" onClick={handleAddNote} disabled={savingNote || !note.trim()}>
+                  {savingNote && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Add note
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ── Screening form (remounted per home / saved revision) ─────────────────
+
+interface ScreeningFormProps {
+  applicant: ApplicantRow;
+  property: ScreeningPropertyOption;
+  screening: ScreeningRow | null;
+  incomeMultiple: number;
+  companyName: string;
+  canEdit: boolean;
+  onSaved: () => Promise<void>;
+}
+
+const NO_REASON = "__none__";
+
+const ScreeningForm: React.FC<ScreeningFormProps> = ({
+  applicant,
+  property,
+  screening,
+  incomeMultiple,
+  companyName,
+  canEdit,
+  onSaved,
+}) => {
+  const { userRecord } = useAuth();
+  const [income, setIncome] = useState(screening?.monthly_income?.toString() ?? "");
+  const [rent, setRent] = useState((screening?.rent_amount ?? property.rent)?.toString() ?? "");
+  const [checklist, setChecklist] = useState<ScreeningChecklist>(screening?.checklist || {});
+  const [decision, setDecision] = useState<ScreeningDecision>(screening?.decision || "pending");
+  const [reasonCode, setReasonCode] = useState(screening?.reason_code || "");
+  const [conditions, setConditions] = useState(screening?.conditions || "");
+  const [saving, setSaving] = useState(false);
+  const [letterOpen, setLetterOpen] = useState(false);
+
+  const check = incomeCheck(Number(income) || null, Number(rent) || null, incomeMultiple);
+  const reasonMissing = needsReason(decision) && !reasonCode;
+  const savedAdverse =
+    screening && (screening.decision === "denied" || screening.decision === "conditional") && screening.reason_code
+      ? screening
+      : null;
+
+  const handleSave = async () => {
+    if (!userRecord?.organization_id || reasonMissing) return;
+    setSaving(true);
+    const decisionChanged = decision !== (screening?.decision || "pending");
+    const fields = {
+      monthly_income: income ? Number(income) : null,
+      rent_amount: rent ? Number(rent) : null,
+      checklist,
+      decision,
+      reason_code: needsReason(decision) ? reasonCode : null,
+      conditions: decision === "conditional" ? conditions.trim() || null : null,
+      ...(decisionChanged && decision !== "pending" ? { decided_by: userRecord.id } : {}),
+    };
+    try {
+      const { error } = screening
+        ? await supabase.from("application_screenings").update(fields).eq("id", screening.id)
+        : await supabase.from("application_screenings").insert({
+            ...fields,
+            organization_id: userRecord.organization_id,
+            lead_id: applicant.id,
+            property_id: property.id,
+            created_by: userRecord.id,
+          });
+      if (error) throw error;
+      toast.success(decisionChanged && decision !== "pending" ? "Decision recorded" : "Screening saved");
+      await onSaved();
+    } catch (error) {
+      console.error("Error saving screening:", error);
+      toast.error("Failed to save the screening.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const decisionMeta = SCREENING_DECISIONS.find((d) => d.value === screening?.decision);
+
+  return (
+    <div className="space-y-6">
+      {/* Income */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Income</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="screen-income" className="text-xs">Verified monthly income</Label>
+            <Input
+              id="screen-income"
+              type="number"
+              min={0}
+              value={income}
+              onChange={(e) => setIncome(e.target.value)}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="screen-rent" className="text-xs">Rent the applicant pays</Label>
+            <Input
+              id="screen-rent"
+              type="number"
+              min={0}
+              value={rent}
+              onChange={(e) => setRent(e.target.value)}
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+        {check ? (
+          <p className={cn("flex items-center gap-1 text-sm", check.meets ? "text-emerald-700" : "text-red-600")}>
+            {check.meets ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+            {check.ratio}× rent · policy is {incomeMultiple}× ({money(check.required)}/mo)
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Policy: income of {incomeMultiple}× the rent the applicant is responsible for.
+          </p>
+        )}
+      </div>
+
+      {/* Documents */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Documents</h3>
+        {SCREENING_CHECKLIST.map((item) => (
+          <label key={item.id} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={!!checklist[item.id]}
+              onCheckedChange={(v) => setChecklist((c) => ({ ...c, [item.id]: v === true }))}
+              disabled={!canEdit}
+            />
+            {item.label}
+          </label>
+        ))}
+      </div>
+
+      {/* Decision */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold">Decision</h3>
+          {decisionMeta && screening?.decided_at && (
+            <Badge variant="outline" className={decisionMeta.className}>
+              {decisionMeta.label} · {format(new Date(screening.decided_at), "MMM d")}
+            </Badge>
+          )}
+        </div>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <Select value={decision} onValueChange={(v) => setDecision(v as ScreeningDecision)} disabled={!canEdit}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCREENING_DECISIONS.map((d) => (
+                <SelectItem key={d.value} value={d.value}>
+                  {d.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {needsReason(decision) && (
+            <Select
+              value={reasonCode || NO_REASON}
+              onValueChange={(v) => setReasonCode(v === NO_REASON ? "" : v)}
+              disabled={!canEdit}
+            >
+              <SelectTrigger className={cn(reasonMissing && "border-red-300")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_REASON} disabled>
+                  Reason…
+                </SelectItem>
+                {SCREENING_REASONS.map((r) => (
+                  <SelectItem key={r.code} value={r.code}>
+                    {r.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        {decision === "conditional" && (
+          <Textarea
+            rows={2}
+            value={conditions}
+            onChange={(e) => setConditions(e.target.value)}
+            placeholder="e.g. A qualified co-signer, or an additional half month's deposit"
+            disabled={!canEdit}
+          />
+        )}
+        {canEdit && (
+          <div className="flex flex-wrap justify-end gap-2">
+            {savedAdverse && (
+              <Button variant="outline" onClick={() => setLetterOpen(true)}>
+                <FileText className="mr-2 h-4 w-4" />
+                {savedAdverse.adverse_action_sent_at ? "Letter sent — view" : "Adverse-action letter"}
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={saving || reasonMissing}>
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {savedAdverse && userRecord?.organization_id && (
+        <AdverseActionDialog
+          open={letterOpen}
+          onOpenChange={setLetterOpen}
+          initialLetter={renderAdverseActionLetter({
+            decision: savedAdverse.decision as "denied" | "conditional",
+            reasonCode: savedAdverse.reason_code!,
+            applicantName: applicant.name,
+            propertyAddress: property.label,
+            conditions: savedAdverse.conditions,
+            companyName,
+          })}
+          screeningId={savedAdverse.id}
+          organizationId={userRecord.organization_id}
+          leadId={applicant.id}
+          email={applicant.email}
+          onSent={onSaved}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,286 @@
+import React, { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+
+interface CalendarRow {
+  id: string;
+  user_id: string;
+  caldav_url: string;
+  username: string;
+  markets: string[];
+  is_active: boolean;
+  last_synced_at: string | null;
+  last_error: string | null;
+}
+
+/**
+ * Two-way sync with each agent's own calendar over CalDAV (caldav-sync).
+ * Their busy time closes the slots it overlaps and reopens them when it's
+ * gone; their showings show up in that calendar as events. Works with any
+ * CalDAV server — Google, iCloud and Fastmail need an app password.
+ */
+export const CalendarSyncDialog: React.FC<{
+  open: boolean;
+  onOpenChange: (o: boolean) => void;
+}> = ({ open, onOpenChange }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const { toast } = useToast();
+  const qc = useQueryClient();
+
+  const [userId, setUserId] = useState("");
+  const [url, setUrl] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [markets, setMarkets] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["agent-calendars", orgId],
+    enabled: open && !!orgId,
+    queryFn: async () => {
+      const [calRes, usersRes, marketsRes, agentsRes] = await Promise.all([
+        supabase
+          .from("agent_calendars")
+          .select("id, user_id, caldav_url, username, markets, is_active, last_synced_at, last_error")
+          .eq("organization_id", orgId!)
+          .order("created_at"),
+        supabase
+          .from("users")
+          .select("id, full_name")
+          .eq("organization_id", orgId!)
+          .eq("is_active", true)
+          .in("role", ["leasing_agent", "editor", "admin", "super_admin"])
+          .order("full_name"),
+        supabase.from("properties").select("market").eq("organization_id", orgId!).not("market", "is", null),
+        supabase.from("showing_agents").select("id").eq("organization_id", orgId!).eq("is_active", true).limit(1),
+      ]);
+      if (calRes.error) throw calRes.error;
+      return {
+        calendars: (calRes.data || []) as CalendarRow[],
+        users: usersRes.data || [],
+        markets: [...new Set((marketsRes.data || []).map((p) => p.market as string))].sort(),
+        usesAgents: (agentsRes.data || []).length > 0,
+      };
+    },
+  });
+
+  const calendars = data?.calendars ?? [];
+  const nameOf = new Map((data?.users ?? []).map((u) => [u.id, u.full_name || "Agent"]));
+
+  const sync = async (calendarId: string) => {
+    setSyncingId(calendarId);
+    const { data: res, error } = await supabase.functions.invoke("caldav-sync", { body: { calendar_id: calendarId } });
+    setSyncingId(null);
+    const failed = error?.message || res?.calendars?.[0]?.error;
+    if (failed) toast({ title: "Sync failed", description: failed, variant: "destructive" });
+    else toast({ title: "Calendar synced", description: `${res?.closed ?? 0} slots closed · ${res?.reopened ?? 0} reopened` });
+    await qc.invalidateQueries({ queryKey: ["agent-calendars", orgId] });
+  };
+
+  const save = async () => {
+    if (!orgId || !userId || !url.trim() || !username.trim() || !password) return;
+    if (!/^https:\/\//i.test(url.trim())) {
+      toast({ title: "CalDAV URL", description: "Use the https:// address of the calendar.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const { data: row, error } = await supabase
+      .from("agent_calendars")
+      .upsert({
+        organization_id: orgId,
+        user_id: userId,
+        caldav_url: url.trim(),
+        username: username.trim(),
+        password,
+        markets,
+        is_active: true,
+        last_error: null,
+      }, { onConflict: "organization_id,user_id" })
+      .select("id")
+      .single();
+    setSaving(false);
+    if (error || !row) {
+      toast({ title: "Error", description: error?.message || "Could not save.", variant: "destructive" });
+      return;
+    }
+    setUserId("");
+    setUrl("");
+    setUsername("");
+    setPassword("");
+    setMarkets([]);
+    await sync(row.id);
+  };
+
+  const setActive = async (cal: CalendarRow, active: boolean) => {
+    const { error } = await supabase.from("agent_calendars").update({ is_active: active }).eq("id", cal.id);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    await qc.invalidateQueries({ queryKey: ["agent-calendars", orgId] });
+  };
+
+  // Disconnecting drops the busy time with it (ON DELETE CASCADE); the
+  // slots it closed reopen on the next sync.
+  const remove = async (cal: CalendarRow) => {
+    if (!window.confirm(`Disconnect ${nameOf.get(cal.user_id) || "this"} calendar?`)) return;
+    const { error } = await supabase.from("agent_calendars").delete().eq("id", cal.id);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    await qc.invalidateQueries({ queryKey: ["agent-calendars", orgId] });
+  };
+
+  const toggleMarket = (m: string) =>
+    setMarkets((prev) => (prev.includes(m) ? prev.filter((x) => x !== m) : [...prev, m]));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5 text-[#4F46E5]" /> Calendar sync
+          </DialogTitle>
+          <DialogDescription>
+            Connect an agent's own calendar. Anything busy there closes the showing times it overlaps,
+            and their showings appear there as events. Syncs every 10 minutes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !orgId ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <div className="space-y-4">
+            {calendars.length > 0 && (
+              <div className="divide-y rounded-lg border">
+                {calendars.map((c) => (
+                  <div key={c.id} className="flex items-center gap-3 px-3 py-2.5">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{nameOf.get(c.user_id) || "Agent"}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {c.caldav_url.replace(/^https?:\/\//, "")}
+                        {c.last_synced_at && ` · synced ${formatDistanceToNow(parseISO(c.last_synced_at), { addSuffix: true })}`}
+                      </p>
+                      {c.last_error && (
+                        <p className="text-xs text-red-600 flex items-center gap-1">
+                          <AlertTriangle className="h-3 w-3 shrink-0" /> {c.last_error}
+                        </p>
+                      )}
+                    </div>
+                    <Switch
+                      checked={c.is_active}
+                      onCheckedChange={(v) => setActive(c, v)}
+                      aria-label="Sync this calendar"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Sync now"
+                      aria-label="Sync now"
+                      disabled={syncingId === c.id || !c.is_active}
+                      onClick={() => sync(c.id)}
+                    >
+                      {syncingId === c.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Disconnect"
+                      aria-label="Disconnect"
+                      onClick={() => remove(c)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3 rounded-lg border p-3">
+              <div className="col-span-2 space-y-1">
+                <Label>Agent</Label>
+                <Select value={userId} onValueChange={setUserId}>
+                  <SelectTrigger><SelectValue placeholder="Who tours with this calendar" /></SelectTrigger>
+                  <SelectContent>
+                    {(data?.users ?? []).map((u) => (
+                      <SelectItem key={u.id} value={u.id}>{u.full_name || "Agent"}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2 space-y-1">
+                <Label>CalDAV calendar URL</Label>
+                <Input
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://caldav.fastmail.com/dav/calendars/user/ana@example.com/Default/"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Username</Label>
+                <Input value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="off" />
+              </div>
+              <div className="space-y-1">
+                <Label>App password</Label>
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+              {!data?.usesAgents && (data?.markets.length ?? 0) > 0 && (
+                <div className="col-span-2 space-y-1">
+                  <Label>Markets this person tours</Label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {data!.markets.map((m) => (
+                      <Button
+                        key={m}
+                        type="button"
+                        size="sm"
+                        variant={markets.includes(m) ? "default" : "outline"}
+                        className="h-7 text-xs"
+                        onClick={() => toggleMarket(m)}
+                      >
+                        {m}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">None selected = every market.</p>
+                </div>
+              )}
+              <div className="col-span-2">
+                <Button
+                  className="w-full"
+                  onClick={save}
+                  disabled={saving || !userId || !url.trim() || !username.trim() || !password}
+                >
+                  {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Connect and sync
+                </Button>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Only the times of personal appointments are read — never their titles or notes.
+              Times closed here reopen on their own when the appointment is gone.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -32,13 +32,19 @@ import {
   Check,
   X,
   FileText,
+  Repeat,
+  Users,
 } from "lucide-react";
 import { format, addDays, parseISO, startOfWeek } from "date-fns";
 import { buildScheduledAt, formatTimeInTimezone, getTimezoneForCity } from "@/lib/cityTimezone";
 import { sendNotificationEmail } from "@/lib/notificationService";
 import { quickReportText } from "@/lib/showingReports";
 import { marketTone, splitSurface, TONED_MARKETS } from "@/lib/marketColors";
+import { agentCovers, fullMarkets } from "@/lib/showingAgents";
+import { useShowingAgents } from "@/hooks/useShowingAgents";
 import type { TablesUpdate } from "@/integrations/supabase/types";
+import { SlotTemplatesDialog } from "./SlotTemplatesDialog";
+import { OpenHousesDialog } from "./OpenHousesDialog";
 
 // ── The single "bookable" definition: a property whose slots may be shown /
 // opened / booked. Only 'available' — coming_soon is visible in the public
@@ -79,6 +85,7 @@ interface CancelledShowing {
   property_city: string;
   status: string;
   lead_id: string;
+  agent_id: string | null;
 }
 
 // A past showing whose outcome report was never filed — surfaced as a chip so
@@ -98,6 +105,7 @@ interface BookingInfo {
   address: string;
   city: string;
   status: string | null;
+  agentId: string | null;
 }
 
 interface TimeSlotGroup {
@@ -216,6 +224,9 @@ interface ManageSlotsTabProps {
   // PORTALED into the shared header row (tabs + view toggle + this bar on one
   // line). When null, the bar renders inline above the week nav (fallback).
   headerSlot?: HTMLElement | null;
+  // Show one showing agent's calendar: their bookings and cancellations, and
+  // only the open homes in their territory. Null = everyone.
+  agentId?: string | null;
 }
 
 // ── Component ────────────────────────────────────────────────────────
@@ -224,6 +235,7 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
   onOpenReport,
   reloadSignal = 0,
   headerSlot = null,
+  agentId = null,
 }) => {
   const { userRecord } = useAuth();
   const { toast } = useToast();
@@ -233,6 +245,8 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
   const [loading, setLoading] = useState(true);
   const [busyKey, setBusyKey] = useState<string | null>(null);
   const [hideEmptyDays, setHideEmptyDays] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [openHousesOpen, setOpenHousesOpen] = useState(false);
   const [missingReports, setMissingReports] = useState<MissingReport[]>([]);
   // Which showing is mid quick-report (spinner + disable its buttons), by id.
   const [reportingId, setReportingId] = useState<string | null>(null);
@@ -253,6 +267,7 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
   }, []);
 
   const orgId = userRecord?.organization_id;
+  const { agents, capacityOf } = useShowingAgents(orgId);
 
   // Today's date string in Cleveland tz (for now-line + past checks)
   const todayStr = now.toLocaleDateString("en-CA", { timeZone: "America/New_York" });
@@ -401,11 +416,11 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
       (data || []).filter((s: any) => s.booked_showing_id).map((s: any) => s.booked_showing_id),
     )];
 
-    const showingInfoMap = new Map<string, { leadName: string; propertyId: string; status: string }>();
+    const showingInfoMap = new Map<string, { leadName: string; propertyId: string; status: string; agentId: string | null }>();
     if (bookedShowingIds.length > 0) {
       const { data: showingsData } = await supabase
         .from("showings")
-        .select("id, status, property_id, leads(full_name)")
+        .select("id, status, property_id, leasing_agent_id, leads(full_name)")
         .eq("organization_id", orgId)
         .in("id", bookedShowingIds);
       (showingsData || []).forEach((s: any) => {
@@ -413,6 +428,7 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
           leadName: s.leads?.full_name || "Booked",
           propertyId: s.property_id || "",
           status: s.status || "scheduled",
+          agentId: s.leasing_agent_id,
         });
       });
     }
@@ -434,7 +450,7 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
     // (the time was freed for rebooking). Only true dead-ends surface here.
     const { data: cancelledData } = await supabase
       .from("showings")
-      .select("id, scheduled_at, status, lead_id, property_id, leads(full_name), properties(address, city)")
+      .select("id, scheduled_at, status, lead_id, property_id, leasing_agent_id, leads(full_name), properties(address, city)")
       .eq("organization_id", orgId)
       .in("status", ["cancelled", "no_show"])
       .gte("scheduled_at", startInstant)
@@ -459,6 +475,7 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
         property_city: s.properties?.city || "",
         status: s.status,
         lead_id: s.lead_id,
+        agent_id: s.leasing_agent_id,
       });
     });
 
@@ -472,7 +489,7 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
     {
       const { data: activeData } = await supabase
         .from("showings")
-        .select("id, scheduled_at, status, property_id, leads(full_name), properties(address, city)")
+        .select("id, scheduled_at, status, property_id, leasing_agent_id, leads(full_name), properties(address, city)")
         .eq("organization_id", orgId)
         .in("status", ["scheduled", "confirmed", "completed"])
         .gte("scheduled_at", startInstant)
@@ -492,6 +509,7 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
           address: s.properties?.address || "Booked",
           city: s.properties?.city || "",
           status: s.status,
+          agentId: s.leasing_agent_id,
         });
       });
     }
@@ -536,6 +554,7 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
               address: p.property_address,
               city: p.property_city,
               status: p.showing_status,
+              agentId: showingInfoMap.get(p.booked_showing_id!)?.agentId ?? null,
             }));
           // Merge in group-tour attendees (same property + time) not pointed at by
           // any slot row — additive, deduped by showingId.
@@ -916,18 +935,19 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
   // time across every home the same person covers, and only those. So a time
   // is "taken" per market — re-opening a market that already has a booking
   // would let a second renter double-book that agent (review CRITICAL), while
-  // another market at the same hour has its own person and stays free.
+  // another market at the same hour has its own person and stays free. With
+  // several showing agents the market is taken once all of them are.
   const bookedMarkets = async (date: string, time: string): Promise<Set<string>> => {
-    const taken = new Set<string>();
-    if (!orgId) return taken;
+    if (!orgId) return new Set();
     const { data } = await supabase
       .from("showing_available_slots")
-      .select("property_id, properties!inner(market)")
+      .select("booked_showing_id, properties!inner(market)")
       .eq("organization_id", orgId).eq("slot_date", date).eq("slot_time", time).eq("is_booked", true);
-    for (const row of (data || []) as { properties: { market: string | null } | null }[]) {
-      if (row.properties?.market) taken.add(row.properties.market);
-    }
-    return taken;
+    const rows = (data || []) as { booked_showing_id: string | null; properties: { market: string | null } | null }[];
+    return fullMarkets(
+      rows.map((r) => ({ market: r.properties?.market ?? null, tour: r.booked_showing_id })),
+      capacityOf,
+    );
   };
 
   // The subset of `cities` whose market already has a booking at date+time.
@@ -953,12 +973,18 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
     if (!orgId || dates.length === 0) return out;
     const { data } = await supabase
       .from("showing_available_slots")
-      .select("slot_date, slot_time, properties!inner(market)")
+      .select("slot_date, slot_time, booked_showing_id, properties!inner(market)")
       .eq("organization_id", orgId)
       .in("slot_date", dates)
       .eq("is_booked", true);
-    for (const r of (data || []) as { slot_date: string; slot_time: string; properties: { market: string | null } | null }[]) {
-      if (r.properties?.market) out.add(`${r.properties.market}|${r.slot_date}|${r.slot_time}`);
+    const byTime = new Map<string, { market: string | null; tour: string | null }[]>();
+    for (const r of (data || []) as { slot_date: string; slot_time: string; booked_showing_id: string | null; properties: { market: string | null } | null }[]) {
+      const key = `${r.slot_date}|${r.slot_time}`;
+      if (!byTime.has(key)) byTime.set(key, []);
+      byTime.get(key)!.push({ market: r.properties?.market ?? null, tour: r.booked_showing_id });
+    }
+    for (const [key, rows] of byTime) {
+      for (const market of fullMarkets(rows, capacityOf)) out.add(`${market}|${key}`);
     }
     return out;
   };
@@ -1142,10 +1168,32 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
   // Which days to render
   const dayHasContent = (d: DayData) =>
     [...d.timeSlots.values()].some((ts) => ts.properties.length > 0 || ts.bookedCount > 0 || ts.cancelledShowings.length > 0);
+  // One agent's calendar: their own bookings and cancellations, plus the open
+  // homes they could be sent to (their territory; everywhere when they have
+  // none). Unassigned bookings are hidden — they belong to no one's calendar.
+  const agentDays = useMemo(() => {
+    if (!agentId) return slotData;
+    const agent = agents.find((a) => a.user_id === agentId);
+    const covers = (city: string) => !agent || agentCovers(agent, cityMarket.get(city) || city);
+    return slotData.map((d) => {
+      const timeSlots = new Map<string, TimeSlotGroup>();
+      d.timeSlots.forEach((ts, time) => {
+        const bookings = ts.bookings.filter((b) => b.agentId === agentId);
+        timeSlots.set(time, {
+          time,
+          properties: ts.properties.filter((p) => covers(p.property_city)),
+          bookings,
+          bookedCount: bookings.length,
+          cancelledShowings: ts.cancelledShowings.filter((c) => c.agent_id === agentId),
+        });
+      });
+      return { date: d.date, timeSlots };
+    });
+  }, [slotData, agentId, agents, cityMarket]);
   const visibleDays = useMemo(() => {
-    if (!hideEmptyDays) return slotData;
-    return slotData.filter(dayHasContent);
-  }, [slotData, hideEmptyDays]);
+    if (!hideEmptyDays) return agentDays;
+    return agentDays.filter(dayHasContent);
+  }, [agentDays, hideEmptyDays]);
 
   const isPast = (dateStr: string) => dateStr < todayStr;
   const isPastCell = (dateStr: string, time: string) =>
@@ -1433,6 +1481,22 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
           >
             {hideEmptyDays ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
           </button>
+          <button
+            onClick={() => setTemplatesOpen(true)}
+            title="Recurring availability"
+            aria-label="Recurring availability"
+            className="h-7 w-7 inline-flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          >
+            <Repeat className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setOpenHousesOpen(true)}
+            title="Open houses"
+            aria-label="Open houses"
+            className="h-7 w-7 inline-flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          >
+            <Users className="h-4 w-4" />
+          </button>
         </div>
         <Button variant="ghost" size="sm" aria-label="Next week" onClick={() => setWeekOffset((w) => w + 1)}>
           <ChevronRight className="h-4 w-4" />
@@ -1565,6 +1629,7 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
                               cityNames={cityNames}
                               cityCounts={cityCounts}
                               cityMarket={cityMarket}
+                              capacityOf={capacityOf}
                               dayIdx={dIdx}
                               timeIdx={tIdx}
                               highlighted={inDrag(dIdx, tIdx)}
@@ -1659,6 +1724,19 @@ export const ManageSlotsTab: React.FC<ManageSlotsTabProps> = ({
           )}
         </DialogContent>
       </Dialog>
+
+      <SlotTemplatesDialog
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        today={todayStr}
+        onChanged={fetchSlots}
+      />
+      <OpenHousesDialog
+        open={openHousesOpen}
+        onOpenChange={setOpenHousesOpen}
+        today={todayStr}
+        onChanged={fetchSlots}
+      />
     </div>
   );
 };
@@ -1683,6 +1761,7 @@ const SlotCell: React.FC<{
   cityNames: string[];
   cityCounts: Map<string, number>;
   cityMarket: Map<string, string>;
+  capacityOf: (market: string) => number;
   dayIdx: number;
   timeIdx: number;
   highlighted: boolean;
@@ -1694,7 +1773,7 @@ const SlotCell: React.FC<{
   onShowingClick?: (id: string) => void;
   onQuickReport?: (showingId: string, attended: boolean) => void;
   reportingId?: string | null;
-}> = ({ day, time, ts, past, cellBusy, cityNames, cityCounts, cityMarket, dayIdx, timeIdx, highlighted, movedRef, onDragBegin, onOpen, onSetCities, onClose, onShowingClick, onQuickReport, reportingId }) => {
+}> = ({ day, time, ts, past, cellBusy, cityNames, cityCounts, cityMarket, capacityOf, dayIdx, timeIdx, highlighted, movedRef, onDragBegin, onOpen, onSetCities, onClose, onShowingClick, onQuickReport, reportingId }) => {
   const openCount = ts?.properties.length || 0;
   const bookedCount = ts?.bookedCount || 0;
   const cancelled = ts?.cancelledShowings || [];
@@ -1724,8 +1803,14 @@ const SlotCell: React.FC<{
   const bookedTones = bookedMarketList.map((m) => marketTone(m));
   // Booked in two cities at once — split the cell so each market gets its side.
   const splitBg = splitSurface(bookedTones);
-  const toggleableCities = cityNames.filter((c) => !bookedMarketSet.has(marketOf(c)));
-  const lockedCities = cityNames.filter((c) => bookedMarketSet.has(marketOf(c)));
+  // Locked = no agent left for that market here (one booking, unless the org
+  // has several showing agents). A group tour is one agent, so key by home.
+  const fullMarketSet = fullMarkets(
+    bookings.map((b) => ({ market: b.city ? marketOf(b.city) : null, tour: b.address })),
+    capacityOf,
+  );
+  const toggleableCities = cityNames.filter((c) => !fullMarketSet.has(marketOf(c)));
+  const lockedCities = cityNames.filter((c) => fullMarketSet.has(marketOf(c)));
   const openToggleable = toggleableCities.filter((c) => openCitySet.has(c));
   // Cities that are open while this cell also holds a booking elsewhere — the
   // case the old single-state cell could not show at all.
@@ -0,0 +1,295 @@
+import React, { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Users, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { templateTimes } from "@/lib/slotTemplates";
+import { OPEN_HOUSE_MAX_CAPACITY } from "@/lib/openHouse";
+
+interface OpenHouseRow {
+  id: string;
+  propertyId: string;
+  label: string;
+  date: string;
+  time: string;
+  capacity: number;
+  seats: number;
+  waiting: number;
+}
+
+interface OpenHouseHome {
+  id: string;
+  label: string;
+}
+
+const TIME_OPTIONS = templateTimes("08:00", "21:30");
+
+function clock(t: string) {
+  return format(parseISO(`2000-01-01T${t}`), "h:mm a");
+}
+
+/**
+ * Open houses: one slot that several renters book at once (capacity N).
+ * Once it fills, the public page offers its waitlist and a cancellation
+ * books the next renter in line automatically (refill_open_house). A
+ * capacity can grow at any time but never drop below the renters already
+ * booked; a slot someone booked one-on-one can't be turned into one.
+ */
+export const OpenHousesDialog: React.FC<{
+  open: boolean;
+  onOpenChange: (o: boolean) => void;
+  /** Today in Cleveland (yyyy-MM-dd), the grid's own anchor. */
+  today: string;
+  onChanged: () => void;
+}> = ({ open, onOpenChange, today, onChanged }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const qc = useQueryClient();
+  const { toast } = useToast();
+
+  const [propertyId, setPropertyId] = useState("");
+  const [date, setDate] = useState(today);
+  const [time, setTime] = useState("17:00:00");
+  const [capacity, setCapacity] = useState(10);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["open-houses", orgId, today],
+    enabled: open && !!orgId,
+    queryFn: async () => {
+      const [slotsRes, homesRes] = await Promise.all([
+        supabase
+          .from("showing_available_slots")
+          .select("id, property_id, slot_date, slot_time, capacity")
+          .eq("organization_id", orgId!)
+          .eq("is_enabled", true)
+          .gt("capacity", 1)
+          .gte("slot_date", today)
+          .order("slot_date")
+          .order("slot_time"),
+        supabase
+          .from("properties")
+          .select("id, address, unit_number")
+          .eq("organization_id", orgId!)
+          .eq("status", "available")
+          .order("address"),
+      ]);
+      if (slotsRes.error) throw slotsRes.error;
+      const slots = slotsRes.data || [];
+      const ids = slots.map((s) => s.id);
+      const [seatsRes, waitRes] = ids.length
+        ? await Promise.all([
+          supabase.from("showings").select("open_house_slot_id")
+            .in("open_house_slot_id", ids).in("status", ["scheduled", "confirmed"]),
+          supabase.from("open_house_waitlist").select("slot_id").in("slot_id", ids).eq("status", "waiting"),
+        ])
+        : [{ data: [] }, { data: [] }];
+      const tally = (keys: (string | null)[]) => {
+        const m = new Map<string, number>();
+        for (const k of keys) if (k) m.set(k, (m.get(k) || 0) + 1);
+        return m;
+      };
+      const seats = tally((seatsRes.data || []).map((r) => r.open_house_slot_id));
+      const waiting = tally((waitRes.data || []).map((r) => r.slot_id));
+      const homes: OpenHouseHome[] = (homesRes.data || []).map((p) => ({
+        id: p.id,
+        label: p.unit_number ? `${p.address} #${p.unit_number}` : p.address,
+      }));
+      const labelOf = new Map(homes.map((h) => [h.id, h.label]));
+      const rows: OpenHouseRow[] = slots.map((s) => ({
+        id: s.id,
+        propertyId: s.property_id,
+        label: labelOf.get(s.property_id) || "Home",
+        date: s.slot_date,
+        time: s.slot_time,
+        capacity: s.capacity,
+        seats: seats.get(s.id) || 0,
+        waiting: waiting.get(s.id) || 0,
+      }));
+      return { rows, homes };
+    },
+  });
+
+  const refresh = async () => {
+    await qc.invalidateQueries({ queryKey: ["open-houses", orgId] });
+    onChanged();
+  };
+
+  const save = async () => {
+    if (!orgId || !propertyId || !date || !time) return;
+    if (capacity < 2 || capacity > OPEN_HOUSE_MAX_CAPACITY) {
+      toast({ title: "Capacity", description: `Between 2 and ${OPEN_HOUSE_MAX_CAPACITY} renters.`, variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const { data: existing, error: findErr } = await supabase
+        .from("showing_available_slots")
+        .select("id, capacity, is_booked")
+        .eq("organization_id", orgId)
+        .eq("property_id", propertyId)
+        .eq("slot_date", date)
+        .eq("slot_time", time)
+        .maybeSingle();
+      if (findErr) throw findErr;
+
+      if (existing) {
+        const { count } = await supabase.from("showings").select("id", { count: "exact", head: true })
+          .eq("open_house_slot_id", existing.id).in("status", ["scheduled", "confirmed"]);
+        const seats = count || 0;
+        if (existing.is_booked && existing.capacity === 1) {
+          throw new Error("That time is already booked one-on-one. Pick another time.");
+        }
+        if (capacity < seats) {
+          throw new Error(`${seats} renters are already booked — capacity can't go below that.`);
+        }
+        const { error } = await supabase
+          .from("showing_available_slots")
+          .update({ capacity, is_enabled: true, is_booked: seats >= capacity, updated_at: new Date().toISOString() })
+          .eq("id", existing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("showing_available_slots").insert({
+          organization_id: orgId, property_id: propertyId, slot_date: date, slot_time: time,
+          capacity, is_enabled: true, is_booked: false,
+        });
+        if (error) throw error;
+      }
+      toast({ title: "Open house saved", description: `${format(parseISO(date), "MMM d")} · ${clock(time)} — up to ${capacity} renters.` });
+      await refresh();
+    } catch (err) {
+      toast({ title: "Error", description: (err as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Back to a normal one-renter slot. Only while nobody is booked — cancel
+  // the attendees first (each cancellation would otherwise promote someone).
+  const close = async (row: OpenHouseRow) => {
+    if (row.seats > 0) {
+      toast({ title: "Renters booked", description: "Cancel their showings first.", variant: "destructive" });
+      return;
+    }
+    if (!window.confirm(`Close the open house at ${row.label}? ${row.waiting ? `${row.waiting} waiting renters lose their place.` : ""}`)) return;
+    setBusyId(row.id);
+    const [{ error }] = await Promise.all([
+      supabase.from("showing_available_slots").update({ capacity: 1, updated_at: new Date().toISOString() }).eq("id", row.id),
+      supabase.from("open_house_waitlist").update({ status: "left" }).eq("slot_id", row.id).eq("status", "waiting"),
+    ]);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else await refresh();
+    setBusyId(null);
+  };
+
+  const rows = data?.rows ?? [];
+  const homes = data?.homes ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-[#4F46E5]" /> Open houses
+          </DialogTitle>
+          <DialogDescription>
+            One time, several renters. When it fills, renters can join a waitlist and the next in
+            line is booked automatically if someone cancels.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !orgId ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2 space-y-1">
+                <Label>Home</Label>
+                <Select value={propertyId} onValueChange={setPropertyId}>
+                  <SelectTrigger><SelectValue placeholder="Pick a home" /></SelectTrigger>
+                  <SelectContent>
+                    {homes.map((h) => <SelectItem key={h.id} value={h.id}>{h.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Date</Label>
+                <Input type="date" min={today} value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Time</Label>
+                <Select value={time} onValueChange={setTime}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {TIME_OPTIONS.map((t) => <SelectItem key={t} value={t}>{clock(t)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Renters (capacity)</Label>
+                <Input
+                  type="number"
+                  min={2}
+                  max={OPEN_HOUSE_MAX_CAPACITY}
+                  value={capacity}
+                  onChange={(e) => setCapacity(Number(e.target.value) || 0)}
+                />
+              </div>
+              <div className="flex items-end">
+                <Button className="w-full" onClick={save} disabled={saving || !propertyId}>
+                  {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Save open house
+                </Button>
+              </div>
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No upcoming open houses.</p>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {rows.map((r) => (
+                  <div key={r.id} className="flex items-center gap-3 px-3 py-2.5">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{r.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(parseISO(r.date), "EEE, MMM d")} · {clock(r.time)} · {r.seats}/{r.capacity} booked
+                        {r.waiting > 0 && ` · ${r.waiting} waiting`}
+                      </p>
+                    </div>
+                    {busyId === r.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Close open house"
+                        aria-label="Close open house"
+                        onClick={() => close(r)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
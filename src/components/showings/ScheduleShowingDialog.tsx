@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { format } from "date-fns";
+import { es } from "date-fns/locale";
 import { CalendarIcon, Search, Loader2, UserPlus, ChevronDown } from "lucide-react";
 import { toast } from "sonner";
 import { getTimezoneForCity, buildScheduledAt, todayInTimezone } from "@/lib/cityTimezone";
@@ -46,7 +47,8 @@ import { upsertLeadTag } from "@/lib/leadTags";
 import { searchLeads, leadDisplayName, type LeadSearchResult } from "@/lib/leadSearch";
 import {
   renderEmailHtml,
-  DEFAULT_CONFIGS,
+  resolveEmailTemplate,
+  emailLanguageFor,
 } from "@/lib/emailTemplateDefaults";
 import type { EmailTemplatesMap } from "@/lib/emailTemplateDefaults";
 
@@ -187,7 +189,7 @@ export const ScheduleShowingDialog: React.FC<ScheduleShowingDialogProps> = ({
         // (with server-side search we no longer hold the whole lead list in memory).
         supabase
           .from("leads")
-          .select("id, first_name, last_name, full_name, phone, email")
+          .select("id, first_name, last_name, full_name, phone, email, preferred_language")
           .eq("id", preselectedLeadId)
           .maybeSingle()
           .then(({ data }) => { if (data) setSelectedLeadObj(data as LeadOption); });
@@ -401,7 +403,7 @@ export const ScheduleShowingDialog: React.FC<ScheduleShowingDialogProps> = ({
           source: "manual",
           status: "new",
         })
-        .select("id, first_name, last_name, full_name, phone, email")
+        .select("id, first_name, last_name, full_name, phone, email, preferred_language")
         .single();
 
       if (error) throw error;
@@ -562,9 +564,14 @@ export const ScheduleShowingDialog: React.FC<ScheduleShowingDialogProps> = ({
           .single();
 
         const templates = (settingsData?.value as unknown as EmailTemplatesMap) || {};
-        const templateConfig = templates.showing_confirmation || DEFAULT_CONFIGS.showing_confirmation;
-
-        const displayDate = format(selectedDate, "EEEE, MMMM d, yyyy");
+        const { config: templateConfig, language } = resolveEmailTemplate(
+          templates, "showing_confirmation", emailLanguageFor(lead.preferred_language),
+        );
+
+        const displayDate = language === "es"
+          ? format(selectedDate, "EEEE d 'de' MMMM 'de' yyyy", { locale: es })
+          : format(selectedDate, "EEEE, MMMM d, yyyy");
+        const displayTime = language === "es" ? `, ${formatTimeDisplay(slotTime)}` : ` at ${formatTimeDisplay(slotTime)}`;
         const firstName = lead.first_name?.trim() || (lead.full_name || "").trim().split(" ")[0] || "there";
 
         // Fetch org name for template variables
@@ -578,9 +585,9 @@ export const ScheduleShowingDialog: React.FC<ScheduleShowingDialogProps> = ({
           firstName,
           fullName: leadDisplayName(lead),
           propertyAddress: propertyAddr,
-          showingDate: `${displayDate} at ${formatTimeDisplay(slotTime)}`,
+          showingDate: `${displayDate}${displayTime}`,
           orgName: org?.name || "Our Team",
-        });
+        }, undefined, { language });
 
         sendNotificationEmail({
           to: lead.email,
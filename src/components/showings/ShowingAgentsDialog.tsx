@@ -0,0 +1,405 @@
+import React, { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { ChevronLeft, Loader2, Plus, Trash2, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
+import { useShowingAgents, type ShowingAgent } from "@/hooks/useShowingAgents";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ASSIGNMENT_MODES, type AssignmentMode } from "@/lib/showingAgents";
+import { WEEKDAYS, templateTimes } from "@/lib/slotTemplates";
+
+type AgentHours = Tables<"showing_agent_hours">;
+type AgentTimeOff = Tables<"showing_agent_time_off">;
+
+// Start/end choices: every half hour from 8am to 9pm.
+const TIME_OPTIONS = templateTimes("08:00", "21:30");
+
+function clock(t: string) {
+  return format(parseISO(`2000-01-01T${t}`), "h:mm a");
+}
+
+/**
+ * Who gives tours. Each agent has a territory (markets), weekly hours and
+ * time off; book-public-showing hands every new booking to the next free
+ * agent (next_showing_agent) and the slot guard keeps each agent to one tour
+ * at a time. With nobody listed here the org runs one agent per market.
+ */
+export const ShowingAgentsDialog: React.FC<{
+  open: boolean;
+  onOpenChange: (o: boolean) => void;
+  /** Today in Cleveland (yyyy-MM-dd). */
+  today: string;
+}> = ({ open, onOpenChange, today }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const { toast } = useToast();
+  const qc = useQueryClient();
+  const { agents, loading } = useShowingAgents(orgId);
+  const { getSetting, updateSetting } = useOrganizationSettings();
+  const mode = getSetting<AssignmentMode>("showing_assignment_mode");
+  const [editing, setEditing] = useState<string | null>(null);
+  const [newUserId, setNewUserId] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const { data } = useQuery({
+    queryKey: ["showing-agent-options", orgId],
+    enabled: open && !!orgId,
+    queryFn: async () => {
+      const [usersRes, marketsRes, hoursRes, offRes] = await Promise.all([
+        supabase
+          .from("users")
+          .select("id, full_name")
+          .eq("organization_id", orgId!)
+          .eq("is_active", true)
+          .in("role", ["leasing_agent", "editor", "admin", "super_admin"])
+          .order("full_name"),
+        supabase.from("properties").select("market").eq("organization_id", orgId!).not("market", "is", null),
+        supabase.from("showing_agent_hours").select("*").eq("organization_id", orgId!).order("weekday"),
+        supabase
+          .from("showing_agent_time_off")
+          .select("*")
+          .eq("organization_id", orgId!)
+          .gte("ends_on", today)
+          .order("starts_on"),
+      ]);
+      if (usersRes.error) throw usersRes.error;
+      const markets = [...new Set((marketsRes.data || []).map((p) => p.market as string))].sort();
+      return {
+        users: usersRes.data || [],
+        markets,
+        hours: (hoursRes.data || []) as AgentHours[],
+        timeOff: (offRes.data || []) as AgentTimeOff[],
+      };
+    },
+  });
+
+  const refresh = async () => {
+    await Promise.all([
+      qc.invalidateQueries({ queryKey: ["showing-agents", orgId] }),
+      qc.invalidateQueries({ queryKey: ["showing-agent-options", orgId] }),
+    ]);
+  };
+
+  const users = data?.users ?? [];
+  const listed = new Set(agents.map((a) => a.user_id));
+  const candidates = users.filter((u) => !listed.has(u.id));
+  const current = editing ? agents.find((a) => a.id === editing) ?? null : null;
+
+  const setMode = async (value: AssignmentMode) => {
+    try {
+      await updateSetting("showing_assignment_mode", value, "showings", "How new public bookings pick a showing agent");
+    } catch (e) {
+      toast({ title: "Error", description: e instanceof Error ? e.message : "Could not save.", variant: "destructive" });
+    }
+  };
+
+  const addAgent = async () => {
+    if (!orgId || !newUserId) return;
+    setBusy(true);
+    const { error } = await supabase.from("showing_agents").insert({ organization_id: orgId, user_id: newUserId });
+    setBusy(false);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else { setNewUserId(""); await refresh(); }
+  };
+
+  const toggle = async (a: ShowingAgent, active: boolean) => {
+    const { error } = await supabase.from("showing_agents").update({ is_active: active }).eq("id", a.id);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else await refresh();
+  };
+
+  const remove = async (a: ShowingAgent) => {
+    if (!window.confirm(`Remove ${a.full_name} from showings? Their booked tours stay assigned to them.`)) return;
+    const { error } = await supabase.from("showing_agents").delete().eq("id", a.id);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else await refresh();
+  };
+
+  const hoursOf = (agentId: string) => (data?.hours ?? []).filter((h) => h.agent_id === agentId);
+  const timeOffOf = (agentId: string) => (data?.timeOff ?? []).filter((t) => t.agent_id === agentId);
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) setEditing(null); onOpenChange(o); }}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-[#4F46E5]" /> Showing agents
+          </DialogTitle>
+          <DialogDescription>
+            Public bookings go to a free agent automatically. Each agent takes one tour at a time;
+            a market stays open until all of its agents are booked.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !orgId || !data ? (
+          <Skeleton className="h-32 w-full" />
+        ) : current ? (
+          <AgentEditor
+            key={current.id}
+            orgId={orgId}
+            agent={current}
+            markets={data.markets}
+            hours={hoursOf(current.id)}
+            timeOff={timeOffOf(current.id)}
+            today={today}
+            onBack={() => setEditing(null)}
+            onChanged={refresh}
+          />
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Assignment</Label>
+              <Select value={mode} onValueChange={(v) => setMode(v as AssignmentMode)}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ASSIGNMENT_MODES.map((m) => <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {ASSIGNMENT_MODES.find((m) => m.value === mode)?.description}
+              </p>
+            </div>
+
+            {agents.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No showing agents yet — each market takes one tour at a time.
+              </p>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {agents.map((a) => {
+                  const days = new Set(hoursOf(a.id).map((h) => h.weekday)).size;
+                  return (
+                    <div key={a.id} className="flex items-center gap-3 px-3 py-2.5">
+                      <button className="flex-1 min-w-0 text-left" onClick={() => setEditing(a.id)}>
+                        <p className={`text-sm font-medium truncate ${a.is_active ? "" : "text-muted-foreground"}`}>{a.full_name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {a.markets.length ? a.markets.join(", ") : "All markets"}
+                          {" · "}
+                          {days ? `${days} ${days === 1 ? "day" : "days"} a week` : "Any open slot"}
+                          {timeOffOf(a.id).length > 0 && " · time off booked"}
+                        </p>
+                      </button>
+                      <Switch checked={a.is_active} onCheckedChange={(v) => toggle(a, v)} aria-label="Active" />
+                      <Button size="icon" variant="ghost" className="h-7 w-7" aria-label="Remove" onClick={() => remove(a)}>
+                        <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Select value={newUserId} onValueChange={setNewUserId}>
+                <SelectTrigger className="h-9"><SelectValue placeholder="Add a team member…" /></SelectTrigger>
+                <SelectContent>
+                  {candidates.map((u) => <SelectItem key={u.id} value={u.id}>{u.full_name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Button size="sm" className="h-9 bg-[#4F46E5] hover:bg-[#4F46E5]/90" disabled={!newUserId || busy} onClick={addAgent}>
+                {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-1" /> Add</>}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// ── One agent: territory, weekly hours, time off ─────────────────────
+const AgentEditor: React.FC<{
+  orgId: string;
+  agent: ShowingAgent;
+  markets: string[];
+  hours: AgentHours[];
+  timeOff: AgentTimeOff[];
+  today: string;
+  onBack: () => void;
+  onChanged: () => Promise<void>;
+}> = ({ orgId, agent, markets, hours, timeOff, today, onBack, onChanged }) => {
+  const { toast } = useToast();
+  const [territory, setTerritory] = useState<string[]>(agent.markets);
+  // One window per weekday; a day missing here is a day off. No rows at all
+  // means "whenever a slot is open".
+  const [week, setWeek] = useState<Map<number, { start: string; end: string }>>(
+    () => new Map(hours.map((h) => [h.weekday, { start: h.start_time, end: h.end_time }])),
+  );
+  const [saving, setSaving] = useState(false);
+  const [offFrom, setOffFrom] = useState("");
+  const [offTo, setOffTo] = useState("");
+  const [offNote, setOffNote] = useState("");
+  const [offBusy, setOffBusy] = useState(false);
+
+  const toggleMarket = (m: string) =>
+    setTerritory((cur) => (cur.includes(m) ? cur.filter((x) => x !== m) : [...cur, m].sort()));
+
+  const toggleDay = (d: number) =>
+    setWeek((cur) => {
+      const next = new Map(cur);
+      if (next.has(d)) next.delete(d);
+      else next.set(d, { start: "09:00:00", end: "17:00:00" });
+      return next;
+    });
+
+  const setWindow = (d: number, patch: Partial<{ start: string; end: string }>) =>
+    setWeek((cur) => new Map(cur).set(d, { ...cur.get(d)!, ...patch }));
+
+  const valid = [...week.values()].every((w) => w.end > w.start);
+
+  const save = async () => {
+    if (!valid) return;
+    setSaving(true);
+    const { error: agentErr } = await supabase.from("showing_agents").update({ markets: territory }).eq("id", agent.id);
+    const { error: clearErr } = agentErr
+      ? { error: agentErr }
+      : await supabase.from("showing_agent_hours").delete().eq("agent_id", agent.id);
+    const rows = [...week.entries()].map(([weekday, w]) => ({
+      organization_id: orgId, agent_id: agent.id, weekday, start_time: w.start, end_time: w.end,
+    }));
+    const { error } = clearErr || rows.length === 0
+      ? { error: clearErr }
+      : await supabase.from("showing_agent_hours").insert(rows);
+    setSaving(false);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Saved", description: `${agent.full_name}'s territory and hours updated.` });
+    await onChanged();
+  };
+
+  const addTimeOff = async () => {
+    if (!offFrom) return;
+    setOffBusy(true);
+    const { error } = await supabase.from("showing_agent_time_off").insert({
+      organization_id: orgId,
+      agent_id: agent.id,
+      starts_on: offFrom,
+      ends_on: offTo || offFrom,
+      note: offNote.trim() || null,
+    });
+    setOffBusy(false);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else { setOffFrom(""); setOffTo(""); setOffNote(""); await onChanged(); }
+  };
+
+  const removeTimeOff = async (id: string) => {
+    setOffBusy(true);
+    const { error } = await supabase.from("showing_agent_time_off").delete().eq("id", id);
+    setOffBusy(false);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else await onChanged();
+  };
+
+  return (
+    <div className="space-y-4">
+      <button className="flex items-center gap-1 text-sm font-medium" onClick={onBack}>
+        <ChevronLeft className="h-4 w-4" /> {agent.full_name}
+      </button>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Territory {territory.length === 0 && <span className="text-muted-foreground">(all markets)</span>}</Label>
+        <div className="flex flex-wrap gap-1.5">
+          {markets.map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => toggleMarket(m)}
+              className={`h-8 px-3 rounded-md border text-xs font-medium transition-colors ${
+                territory.includes(m)
+                  ? "bg-[#4F46E5] text-white border-[#4F46E5]"
+                  : "bg-white text-slate-600 hover:bg-slate-50"
+              }`}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Weekly hours {week.size === 0 && <span className="text-muted-foreground">(any open slot)</span>}</Label>
+        <div className="space-y-1.5">
+          {WEEKDAYS.map((d) => {
+            const w = week.get(d.value);
+            return (
+              <div key={d.value} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => toggleDay(d.value)}
+                  className={`h-8 w-11 rounded-md border text-xs font-medium transition-colors ${
+                    w ? "bg-[#4F46E5] text-white border-[#4F46E5]" : "bg-white text-slate-600 hover:bg-slate-50"
+                  }`}
+                >
+                  {d.short}
+                </button>
+                {w ? (
+                  <>
+                    <Select value={w.start} onValueChange={(v) => setWindow(d.value, { start: v })}>
+                      <SelectTrigger className="h-8 w-28 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {TIME_OPTIONS.map((t) => <SelectItem key={t} value={t}>{clock(t)}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-xs text-muted-foreground">to</span>
+                    <Select value={w.end} onValueChange={(v) => setWindow(d.value, { end: v })}>
+                      <SelectTrigger className="h-8 w-28 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {TIME_OPTIONS.map((t) => <SelectItem key={t} value={t}>{clock(t)}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </>
+                ) : (
+                  <span className="text-xs text-muted-foreground">{week.size ? "Off" : "—"}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <Button className="w-full bg-[#4F46E5] hover:bg-[#4F46E5]/90" disabled={!valid || saving} onClick={save}>
+        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save territory & hours"}
+      </Button>
+
+      <div className="space-y-2 rounded-lg border bg-slate-50 px-3 py-2.5">
+        <p className="text-xs font-semibold text-slate-700">Time off — no tours assigned on these dates</p>
+        {timeOff.map((t) => (
+          <div key={t.id} className="flex items-center justify-between text-xs">
+            <span>
+              {format(parseISO(t.starts_on), "MMM d")}
+              {t.ends_on !== t.starts_on && ` – ${format(parseISO(t.ends_on), "MMM d")}`}
+              {t.note && <span className="text-muted-foreground"> · {t.note}</span>}
+            </span>
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" disabled={offBusy} onClick={() => removeTimeOff(t.id)}>
+              Remove
+            </Button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Input type="date" min={today} value={offFrom} onChange={(e) => setOffFrom(e.target.value)} className="h-8 text-xs w-36" />
+          <Input type="date" min={offFrom || today} value={offTo} onChange={(e) => setOffTo(e.target.value)} className="h-8 text-xs w-36" />
+          <Input placeholder="Vacation" value={offNote} onChange={(e) => setOffNote(e.target.value)} className="h-8 text-xs" />
+          <Button size="sm" className="h-8 bg-[#4F46E5] hover:bg-[#4F46E5]/90" disabled={!offFrom || offBusy} onClick={addTimeOff}>
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -38,9 +38,10 @@ import { format, parseISO } from "date-fns";
 import { getTimezoneForCity, formatTimeInTimezone, buildScheduledAt, todayInTimezone } from "@/lib/cityTimezone";
 import { fetchAvailableProperties, sendLeadShowingEmail, sendNotificationEmail } from "@/lib/notificationService";
 import { markApplicationGenerated, unmarkApplicationGenerated } from "@/lib/applications";
-import { renderEmailHtml, DEFAULT_CONFIGS } from "@/lib/emailTemplateDefaults";
+import { renderEmailHtml, resolveEmailTemplate, emailLanguageFor, formatShowingDateEs } from "@/lib/emailTemplateDefaults";
 import type { EmailTemplatesMap } from "@/lib/emailTemplateDefaults";
 import type { TablesUpdate } from "@/integrations/supabase/types";
+import { noShowRisk } from "@/lib/noShowRisk";
 
 // Showings book only on the hour or half-hour (:00 / :30) — mirrors every
 // picker in the app and the DB guard (trg_enforce_showing_half_hour). Takes an
@@ -78,6 +79,7 @@ interface ShowingDetailDialogProps {
 interface ShowingData {
   id: string;
   scheduled_at: string;
+  created_at: string | null;
   status: string;
   duration_minutes: number | null;
   cancellation_reason: string | null;
@@ -90,12 +92,36 @@ interface ShowingData {
   prospect_interest_level: string | null;
   booking_source: string | null;
   booked_by_name: string | null;
+  agent_checked_in_at: string | null;
+  agent_check_in_distance_m: number | null;
+  prospect_arrived_at: string | null;
   lead_id: string;
   property_id: string;
   properties: { id: string; address: string; unit_number: string | null; city: string | null } | null;
-  leads: { id: string; full_name: string | null; phone: string; email: string | null; sms_consent: boolean | null; has_voucher: boolean | null; applied_at: string | null } | null;
+  leads: { id: string; full_name: string | null; phone: string; email: string | null; preferred_language: string | null; sms_consent: boolean | null; has_voucher: boolean | null; applied_at: string | null } | null;
 }
 
+const RISK_STYLE: Record<string, string> = {
+  low: "border-emerald-200 bg-emerald-50 text-emerald-800",
+  medium: "border-amber-200 bg-amber-50 text-amber-800",
+  high: "border-red-200 bg-red-50 text-red-800",
+};
+
+type CheckInEvent = "agent_arrived" | "prospect_arrived";
+
+// Check-in is open from an hour before the tour to an hour after it ends —
+// the same window showing_check_in enforces.
+const CHECK_IN_WINDOW_MS = 60 * 60_000;
+
+const currentPosition = () =>
+  new Promise<GeolocationPosition>((resolve, reject) =>
+    navigator.geolocation.getCurrentPosition(resolve, reject, {
+      enableHighAccuracy: true,
+      timeout: 15_000,
+      maximumAge: 0,
+    }),
+  );
+
 const statusConfig: Record<string, { label: string; color: string; icon: React.ReactNode }> = {
   scheduled: { label: "Scheduled", color: "bg-blue-100 text-blue-800", icon: <CalendarDays className="h-3.5 w-3.5" /> },
   confirmed: { label: "Confirmed", color: "bg-emerald-100 text-emerald-800", icon: <CheckCircle className="h-3.5 w-3.5" /> },
@@ -130,6 +156,10 @@ export const ShowingDetailDialog: React.FC<ShowingDetailDialogProps> = ({
   const [editDuration, setEditDuration] = useState(30);
   const [saving, setSaving] = useState(false);
   const [applyBusy, setApplyBusy] = useState(false);
+  const [priorNoShows, setPriorNoShows] = useState(0);
+  const [checkingIn, setCheckingIn] = useState<CheckInEvent | null>(null);
+  // When the showing was loaded — the check-in window is judged against it.
+  const [loadedAt, setLoadedAt] = useState(0);
 
   useEffect(() => {
     if (!open || !showingId) {
@@ -150,12 +180,13 @@ export const ShowingDetailDialog: React.FC<ShowingDetailDialogProps> = ({
       let query = supabase
         .from("showings")
         .select(`
-          id, scheduled_at, status, duration_minutes, cancellation_reason,
+          id, scheduled_at, created_at, status, duration_minutes, cancellation_reason,
           agent_report, agent_report_photo_url, confirmed_at, cancelled_at,
           completed_at, confirmation_attempts, prospect_interest_level,
           lead_id, property_id, booking_source, booked_by_name,
+          agent_checked_in_at, agent_check_in_distance_m, prospect_arrived_at,
           properties(id, address, unit_number, city),
-          leads(id, full_name, phone, email, sms_consent, has_voucher, applied_at)
+          leads(id, full_name, phone, email, preferred_language, sms_consent, has_voucher, applied_at)
         `)
         .eq("id", showingId);
       if (userRecord?.organization_id) query = query.eq("organization_id", userRecord.organization_id);
@@ -167,6 +198,15 @@ export const ShowingDetailDialog: React.FC<ShowingDetailDialogProps> = ({
         onOpenChange(false);
       } else {
         setShowing(data as any);
+        setLoadedAt(Date.now());
+        // Earlier no-shows by this renter feed the no-show risk below.
+        const { count } = await supabase
+          .from("showings")
+          .select("id", { count: "exact", head: true })
+          .eq("lead_id", data.lead_id)
+          .eq("status", "no_show")
+          .lt("scheduled_at", data.scheduled_at);
+        setPriorNoShows(count || 0);
       }
       setLoading(false);
     };
@@ -344,6 +384,7 @@ export const ShowingDetailDialog: React.FC<ShowingDetailDialogProps> = ({
           organizationId: userRecord.organization_id,
           showingId: showing.id,
           type: "cancelled",
+          preferredLanguage: showing.leads.preferred_language,
           emailData: {
             leadName: showing.leads.full_name || "there",
             propertyAddress: showing.properties?.address || "the property",
@@ -450,12 +491,15 @@ export const ShowingDetailDialog: React.FC<ShowingDetailDialogProps> = ({
           organizationId: userRecord.organization_id,
           showingId: showing.id,
           type: "rescheduled",
+          preferredLanguage: showing.leads.preferred_language,
           emailData: {
             leadName,
             propertyAddress: propertyAddr,
             bookingUrl: `${window.location.origin}/p/book-showing`,
             otherProperties: otherProps,
-            scheduledTime: showingDate,
+            scheduledTime: emailLanguageFor(showing.leads.preferred_language) === "es"
+              ? formatShowingDateEs(showing.scheduled_at, propTz2)
+              : showingDate,
           },
         });
         emailQueued = true; // fire-and-forget queue — best signal we have
@@ -750,7 +794,6 @@ export const ShowingDetailDialog: React.FC<ShowingDetailDialogProps> = ({
       if (showing.leads?.email) {
         const propertyAddr = showing.properties?.address || "the property";
         const fullAddr = `${propertyAddr}${showing.properties?.unit_number ? ` #${showing.properties.unit_number}` : ""}${showing.properties?.city ? `, ${showing.properties.city}` : ""}`;
-        const showingDateStr = format(new Date(newScheduledAt), "EEEE, MMMM d") + " at " + formatTimeInTimezone(newScheduledAt, tz);
         const firstName = showing.leads.full_name?.trim().split(" ")[0] || "there";
 
         const { data: settingsData } = await supabase
@@ -760,7 +803,12 @@ export const ShowingDetailDialog: React.FC<ShowingDetailDialogProps> = ({
           .eq("key", "email_templates")
           .maybeSingle();
         const templates = (settingsData?.value as unknown as EmailTemplatesMap) || {};
-        const templateConfig = templates.showing_confirmation || DEFAULT_CONFIGS.showing_confirmation;
+        const { config: templateConfig, language } = resolveEmailTemplate(
+          templates, "showing_confirmation", emailLanguageFor(showing.leads.preferred_language),
+        );
+        const showingDateStr = language === "es"
+          ? formatShowingDateEs(newScheduledAt, tz)
+          : format(new Date(newScheduledAt), "EEEE, MMMM d") + " at " + formatTimeInTimezone(newScheduledAt, tz);
 
         const { data: org } = await supabase
           .from("organizations")
@@ -774,7 +822,7 @@ export const ShowingDetailDialog: React.FC<ShowingDetailDialogProps> = ({
           propertyAddress: fullAddr,
           showingDate: showingDateStr,
           orgName: org?.name || "Our Team",
-        });
+        }, undefined, { language });
 
         sendNotificationEmail({
           to: showing.leads.email,
@@ -1133,8 +1181,69 @@ export const ShowingDetailDialog: React.FC<ShowingDetailDialogProps> = ({
     }
   };
 
+  // On-site check-in: the phone's location is checked against the property's
+  // coordinates by showing_check_in, which also stamps the time. These
+  // verified arrivals are what the show rate in Analytics is built on.
+  const handleCheckIn = async (event: CheckInEvent) => {
+    if (!showing) return;
+    if (!("geolocation" in navigator)) {
+      toast.error("This device can't share its location");
+      return;
+    }
+    setCheckingIn(event);
+    try {
+      const pos = await currentPosition();
+      const { data, error } = await supabase.rpc("showing_check_in", {
+        p_showing_id: showing.id,
+        p_event: event,
+        p_latitude: pos.coords.latitude,
+        p_longitude: pos.coords.longitude,
+        p_accuracy_m: pos.coords.accuracy,
+      });
+      if (error) throw error;
+      const res = data as { agent_checked_in_at: string | null; prospect_arrived_at: string | null; distance_m: number };
+      setShowing({
+        ...showing,
+        agent_checked_in_at: res.agent_checked_in_at,
+        prospect_arrived_at: res.prospect_arrived_at,
+        agent_check_in_distance_m: showing.agent_check_in_distance_m ?? res.distance_m,
+      });
+      toast.success(event === "agent_arrived" ? "Checked in" : "Prospect arrival recorded", {
+        description: `${res.distance_m} m from the property`,
+      });
+      onSuccess?.();
+    } catch (err) {
+      // GeolocationPositionError: 1 = denied, 2 = unavailable, 3 = timeout.
+      const code = (err as GeolocationPositionError)?.code;
+      const message = code === 1
+        ? "Allow location access for this site to check in."
+        : code === 2 || code === 3
+          ? "Couldn't get a location fix. Step outside or try again."
+          : (err as Error)?.message || "Check-in failed";
+      toast.error("Check-in failed", { description: message });
+    } finally {
+      setCheckingIn(null);
+    }
+  };
+
   const isActive = showing?.status === "scheduled" || showing?.status === "confirmed";
+  const checkInOpen = !!showing && (() => {
+    const start = new Date(showing.scheduled_at).getTime();
+    const end = start + (showing.duration_minutes || 30) * 60_000;
+    return loadedAt >= start - CHECK_IN_WINDOW_MS && loadedAt <= end + CHECK_IN_WINDOW_MS;
+  })();
   const sc = statusConfig[showing?.status || ""] || statusConfig.scheduled;
+  // Only tours still ahead of us have a no-show risk worth acting on.
+  const risk = showing && (showing.status === "scheduled" || showing.status === "confirmed")
+    ? noShowRisk({
+      bookedAt: showing.created_at || showing.scheduled_at,
+      scheduledAt: showing.scheduled_at,
+      confirmed: showing.status === "confirmed" || !!showing.confirmed_at,
+      confirmationAttempts: showing.confirmation_attempts ?? 0,
+      priorNoShows,
+      bookingSource: showing.booking_source,
+    })
+    : null;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -1317,6 +1426,63 @@ export const ShowingDetailDialog: React.FC<ShowingDetailDialogProps> = ({
               )}
             </div>
 
+            {/* No-show risk — rule-based, every point shown (src/lib/noShowRisk.ts) */}
+            {risk && (
+              <div className={`rounded-lg border p-3 space-y-1.5 ${RISK_STYLE[risk.level]}`}>
+                <p className="text-sm font-medium flex items-center gap-1.5">
+                  <AlertTriangle className="h-3.5 w-3.5" />
+                  No-show risk: <span className="capitalize">{risk.level}</span>
+                  <span className="text-xs font-normal opacity-80">({risk.score}/100)</span>
+                </p>
+                <ul className="text-xs space-y-0.5">
+                  {risk.reasons.map((r) => (
+                    <li key={r.label} className="flex justify-between gap-3">
+                      <span>{r.label}</span>
+                      <span className="tabular-nums">{r.points > 0 ? `+${r.points}` : r.points}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* On-site check-in (geofenced) */}
+            {(showing.agent_checked_in_at || (isActive && checkInOpen)) && (
+              <div className="rounded-lg border border-[#e5e7eb] p-3 space-y-2">
+                <p className="text-sm font-medium flex items-center gap-1.5">
+                  <MapPin className="h-3.5 w-3.5 text-[#4F46E5]" /> On-site check-in
+                </p>
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                  <p>
+                    Agent:{" "}
+                    {showing.agent_checked_in_at
+                      ? `arrived ${format(parseISO(showing.agent_checked_in_at), "h:mm a")}${
+                        showing.agent_check_in_distance_m != null ? ` · ${showing.agent_check_in_distance_m} m away` : ""
+                      }`
+                      : "not checked in"}
+                  </p>
+                  <p>
+                    Prospect:{" "}
+                    {showing.prospect_arrived_at
+                      ? `arrived ${format(parseISO(showing.prospect_arrived_at), "h:mm a")}`
+                      : "not arrived yet"}
+                  </p>
+                </div>
+                {isActive && checkInOpen && !showing.prospect_arrived_at && (
+                  <Button
+                    size="sm"
+                    className="w-full bg-[#4F46E5] hover:bg-[#4F46E5]/90 gap-1.5"
+                    disabled={checkingIn !== null}
+                    onClick={() => handleCheckIn(showing.agent_checked_in_at ? "prospect_arrived" : "agent_arrived")}
+                  >
+                    {checkingIn ? <Loader2 className="h-4 w-4 animate-spin" /> : showing.agent_checked_in_at
+                      ? <UserCheck className="h-4 w-4" />
+                      : <MapPin className="h-4 w-4" />}
+                    {showing.agent_checked_in_at ? "Prospect arrived" : "I've arrived"}
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* Completed showing info */}
             {showing.status === "completed" && (
               <div className="rounded-lg border border-emerald-200 bg-emerald-50 p-3 space-y-2">
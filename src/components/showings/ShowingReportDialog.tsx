@@ -24,6 +24,7 @@ import { Switch } from "@/components/ui/switch";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { fetchAvailableProperties, sendLeadShowingEmail } from "@/lib/notificationService";
+import { emailLanguageFor } from "@/lib/emailTemplateDefaults";
 import { upsertLeadTag } from "@/lib/leadTags";
 import { markApplicationGenerated } from "@/lib/applications";
 import type { TablesUpdate } from "@/integrations/supabase/types";
@@ -64,7 +65,7 @@ export const ShowingReportDialog: React.FC<ShowingReportDialogProps> = ({
   const [cancellationReason, setCancellationReason] = useState("");
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [submitting, setSubmitting] = useState(false);
-  const [leadData, setLeadData] = useState<{ full_name: string | null; phone: string; email: string | null } | null>(null);
+  const [leadData, setLeadData] = useState<{ full_name: string | null; phone: string; email: string | null; preferred_language: string | null } | null>(null);
   const [showingData, setShowingData] = useState<{ scheduled_at: string; property_id: string | null; properties: { address: string; unit_number: string | null; city: string | null; rent_price: number | null } | null } | null>(null);
   const [markApplied, setMarkApplied] = useState(false);
   const [reassignPropertyId, setReassignPropertyId] = useState<string>("");
@@ -82,7 +83,7 @@ export const ShowingReportDialog: React.FC<ShowingReportDialogProps> = ({
       setLeadData(null);
       setShowingData(null);
       Promise.all([
-        supabase.from("leads").select("full_name, phone, email").eq("organization_id", userRecord.organization_id).eq("id", leadId).single(),
+        supabase.from("leads").select("full_name, phone, email, preferred_language").eq("organization_id", userRecord.organization_id).eq("id", leadId).single(),
         supabase.from("showings").select("scheduled_at, property_id, properties(address, unit_number, city, rent_price)").eq("organization_id", userRecord.organization_id).eq("id", showingId).single(),
         supabase.from("properties").select("id, address, unit_number, city").eq("organization_id", userRecord.organization_id).order("address"),
       ]).then(([leadRes, showingRes, propsRes]) => {
@@ -274,14 +275,16 @@ export const ShowingReportDialog: React.FC<ShowingReportDialogProps> = ({
           5,
           showingData.properties?.city || undefined,
         );
-        const scheduledTime = new Date(showingData.scheduled_at).toLocaleString("en-US", {
-          weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit",
-        });
+        const scheduledTime = new Date(showingData.scheduled_at).toLocaleString(
+          emailLanguageFor(leadData.preferred_language) === "es" ? "es-US" : "en-US",
+          { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" },
+        );
         sendLeadShowingEmail({
           leadEmail: leadData.email,
           organizationId: userRecord.organization_id,
           showingId,
           type: status as "no_show" | "cancelled" | "rescheduled",
+          preferredLanguage: leadData.preferred_language,
           emailData: {
             leadName: leadData.full_name || "there",
             propertyAddress: propertyAddress || "your scheduled property",
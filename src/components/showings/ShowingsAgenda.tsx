@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
@@ -19,10 +19,13 @@ import { format } from "date-fns";
 import { es } from "date-fns/locale";
 import { getTimezoneForCity, formatTimeInTimezone, todayInTimezone } from "@/lib/cityTimezone";
 import { sendNotificationEmail } from "@/lib/notificationService";
-import { renderEmailHtml, DEFAULT_CONFIGS } from "@/lib/emailTemplateDefaults";
+import { renderEmailHtml, resolveEmailTemplate, emailLanguageFor, formatShowingDateEs } from "@/lib/emailTemplateDefaults";
 import type { EmailTemplatesMap } from "@/lib/emailTemplateDefaults";
 import { quickReportText } from "@/lib/showingReports";
 import type { TablesUpdate } from "@/integrations/supabase/types";
+import { planRoutes, type RouteLeg } from "@/lib/routePlanner";
+import { openHouseRosters, rosterHeadline, type OpenHouseInfo } from "@/lib/openHouse";
+import { RouteSummary, RouteLegLine } from "@/components/showings/ShowingsRoute";
 
 // Day-focused, action-first list of a single day's showings — the mobile
 // Showings view (replaces the slot grid on phones) and a desktop toggle option.
@@ -30,6 +33,8 @@ import type { TablesUpdate } from "@/integrations/supabase/types";
 // as a card whose actions reuse existing handlers (no new backend):
 //   ✅/👻 quick report · 📞 contact (tel/sms/mailto) · ✉️ templated email ·
 //   🔁 manage (reschedule/cancel/edit via the detail dialog) · 📝 full report.
+// Above the cards, the day as a drive (lib/routePlanner): one route per agent,
+// or per market when tours are unassigned, with each hop's estimated drive.
 
 // The agenda day is the ORG's calendar day (Cleveland), not the browser's —
 // mirrors ManageSlotsTab, so a traveling admin sees the same day/times as HQ.
@@ -61,9 +66,18 @@ interface AgendaShowing {
   lead_name?: string;
   lead_phone?: string | null;
   lead_email?: string | null;
+  lead_language?: string | null;
   property_address?: string;
   property_city?: string | null;
   property_full?: string;
+  property_market?: string | null;
+  lat: number | null;
+  lng: number | null;
+  agent_id: string | null;
+  /** Renter lets themselves in with a door code — no agent drives there. */
+  self_guided: boolean;
+  /** Open house this renter is one of several attendees of. */
+  open_house_slot_id: string | null;
 }
 
 interface ShowingsAgendaProps {
@@ -71,8 +85,13 @@ interface ShowingsAgendaProps {
   onReload?: () => void;
   onOpenReport: (showingId: string, leadId: string, propertyAddress?: string) => void;
   onShowingClick: (showingId: string) => void;
+  /** Only this showing agent's tours (users.id). Null = everyone's. */
+  agentId?: string | null;
 }
 
+// One route per person: the assigned agent, else the market's single agent.
+const routeGroup = (s: AgendaShowing) => s.agent_id || `m:${s.property_market || s.property_city || "?"}`;
+
 const STATUS_BADGE: Record<string, { label: string; className: string }> = {
   scheduled: { label: "Agendado", className: "bg-blue-100 text-blue-800 border-blue-200" },
   confirmed: { label: "Confirmado", className: "bg-green-100 text-green-800 border-green-200" },
@@ -81,7 +100,7 @@ const STATUS_BADGE: Record<string, { label: string; className: string }> = {
 };
 
 export const ShowingsAgenda: React.FC<ShowingsAgendaProps> = ({
-  reloadSignal = 0, onReload, onOpenReport, onShowingClick,
+  reloadSignal = 0, onReload, onOpenReport, onShowingClick, agentId = null,
 }) => {
   const { userRecord } = useAuth();
   const { toast } = useToast();
@@ -89,6 +108,7 @@ export const ShowingsAgenda: React.FC<ShowingsAgendaProps> = ({
 
   const [day, setDay] = useState<string>(() => todayInTimezone(ORG_TZ));
   const [showings, setShowings] = useState<AgendaShowing[]>([]);
+  const [openHouseInfo, setOpenHouseInfo] = useState<Map<string, OpenHouseInfo>>(new Map());
   const [loading, setLoading] = useState(true);
   const [busyId, setBusyId] = useState<string | null>(null);
   const [contactFor, setContactFor] = useState<AgendaShowing | null>(null);
@@ -183,13 +203,14 @@ export const ShowingsAgenda: React.FC<ShowingsAgendaProps> = ({
   const fetchDay = useCallback(async () => {
     if (!orgId) return;
     setLoading(true);
-    const { data, error } = await supabase.from("showings")
-      .select("id, scheduled_at, status, duration_minutes, lead_id, properties(address, unit_number, city, state, zip_code), leads(full_name, phone, email)")
+    let query = supabase.from("showings")
+      .select("id, scheduled_at, status, duration_minutes, lead_id, leasing_agent_id, self_guided, open_house_slot_id, properties(address, unit_number, city, state, zip_code, market, latitude, longitude), leads(full_name, phone, email, preferred_language)")
       .eq("organization_id", orgId)
       .in("status", ["scheduled", "confirmed", "completed", "no_show"])
       .gte("scheduled_at", orgBoundaryUTC(day, false))
-      .lte("scheduled_at", orgBoundaryUTC(day, true))
-      .order("scheduled_at", { ascending: true });
+      .lte("scheduled_at", orgBoundaryUTC(day, true));
+    if (agentId) query = query.eq("leasing_agent_id", agentId);
+    const { data, error } = await query.order("scheduled_at", { ascending: true });
     if (error) {
       // Keep whatever was on screen — a failed fetch must NOT paint the
       // "no showings" empty state (an agent would miss real appointments).
@@ -205,11 +226,28 @@ export const ShowingsAgenda: React.FC<ShowingsAgendaProps> = ({
       return {
         id: s.id, scheduled_at: s.scheduled_at, status: s.status, duration_minutes: s.duration_minutes,
         lead_id: s.lead_id, lead_name: s.leads?.full_name, lead_phone: s.leads?.phone, lead_email: s.leads?.email,
+        lead_language: s.leads?.preferred_language ?? null,
         property_address: p.address, property_city: p.city ?? null, property_full: full,
+        property_market: p.market ?? null, lat: p.latitude ?? null, lng: p.longitude ?? null,
+        agent_id: s.leasing_agent_id ?? null, self_guided: s.self_guided === true,
+        open_house_slot_id: s.open_house_slot_id ?? null,
       };
     }));
+    // Open houses on this day: capacity and who is still waiting for a seat.
+    const slotIds = [...new Set((data || []).map((s) => s.open_house_slot_id).filter((id): id is string => !!id))];
+    const info = new Map<string, OpenHouseInfo>();
+    if (slotIds.length) {
+      const [{ data: slots }, { data: waiting }] = await Promise.all([
+        supabase.from("showing_available_slots").select("id, capacity").in("id", slotIds),
+        supabase.from("open_house_waitlist").select("slot_id").in("slot_id", slotIds).eq("status", "waiting"),
+      ]);
+      for (const sl of slots || []) {
+        info.set(sl.id, { capacity: sl.capacity, waiting: (waiting || []).filter((w) => w.slot_id === sl.id).length });
+      }
+    }
+    setOpenHouseInfo(info);
     setLoading(false);
-  }, [orgId, day, toast]);
+  }, [orgId, day, agentId, toast]);
 
   useEffect(() => { fetchDay(); }, [fetchDay, reloadSignal]);
 
@@ -246,18 +284,22 @@ export const ShowingsAgenda: React.FC<ShowingsAgendaProps> = ({
     if (sendingEmail) return; // block a double-tap from queueing the email twice
     if (!s.lead_email) { toast({ title: "Sin email", description: "Este lead no tiene email.", variant: "destructive" }); return; }
     setSendingEmail(true);
-    const cfg = templates.showing_confirmation || DEFAULT_CONFIGS.showing_confirmation;
+    const { config: cfg, language } = resolveEmailTemplate(
+      templates, "showing_confirmation", emailLanguageFor(s.lead_language),
+    );
     const firstName = (s.lead_name || "").trim().split(" ")[0] || "there";
     // The lead reads this — the time must be the PROPERTY's clock, never the
     // admin's browser clock (a traveling owner would email the wrong hour).
     const propTz = getTimezoneForCity(s.property_city);
-    const displayDate = new Date(s.scheduled_at).toLocaleDateString("en-US", {
-      timeZone: propTz, weekday: "long", month: "long", day: "numeric",
-    }) + " at " + formatTimeInTimezone(s.scheduled_at, propTz);
+    const displayDate = language === "es"
+      ? formatShowingDateEs(s.scheduled_at, propTz)
+      : new Date(s.scheduled_at).toLocaleDateString("en-US", {
+        timeZone: propTz, weekday: "long", month: "long", day: "numeric",
+      }) + " at " + formatTimeInTimezone(s.scheduled_at, propTz);
     const addr = s.property_full || s.property_address || "the property";
     const html = renderEmailHtml(cfg, {
       firstName, fullName: s.lead_name || firstName, propertyAddress: addr, showingDate: displayDate, orgName,
-    });
+    }, undefined, { language });
     sendNotificationEmail({
       to: s.lead_email,
       subject: cfg.subject.replace("{propertyAddress}", addr).replace("{showingDate}", displayDate),
@@ -268,6 +310,47 @@ export const ShowingsAgenda: React.FC<ShowingsAgendaProps> = ({
     setContactFor(null);
   };
 
+  const rosters = useMemo(
+    () => openHouseRosters(showings, (s) => s.open_house_slot_id, (s) => s.lead_name || "Lead", (s) => s.status, openHouseInfo),
+    [showings, openHouseInfo],
+  );
+
+  // ── The day as a drive ───────────────────────────────────────────────
+  // An open house is one stop however many renters come: only its first
+  // attendee goes into the route.
+  const { routes, legTo } = useMemo(() => {
+    const seenOpenHouse = new Set<string>();
+    const plans = planRoutes(
+      showings
+        .filter((s) => !s.self_guided)
+        .filter((s) => {
+          if (!s.open_house_slot_id) return true;
+          if (seenOpenHouse.has(s.open_house_slot_id)) return false;
+          seenOpenHouse.add(s.open_house_slot_id);
+          return true;
+        })
+        .map((s) => ({ ...s, start: s.scheduled_at, durationMinutes: s.duration_minutes || 30 })),
+      (s) => routeGroup(s),
+    );
+    const legTo = new Map<string, RouteLeg>();
+    const routes = [...plans.entries()]
+      .filter(([, plan]) => plan.stops.length > 1)
+      .map(([key, plan]) => {
+        plan.legs.forEach((l) => legTo.set(l.toId, l));
+        const markets = [...new Set(plan.stops.map((st) => {
+          const sh = showings.find((x) => x.id === st.id);
+          return sh?.property_market || sh?.property_city || "Sin ciudad";
+        }))];
+        return { key, label: `Ruta · ${markets.join(", ")}`, plan };
+      });
+    return { routes, legTo };
+  }, [showings]);
+  const stopLabel = useCallback((id: string) => {
+    const sh = showings.find((x) => x.id === id);
+    if (!sh) return "";
+    return `${formatTimeInTimezone(sh.scheduled_at, getTimezoneForCity(sh.property_city))} ${sh.property_address || ""}`.trim();
+  }, [showings]);
+
   const go = (n: number) => setDay((d) => addDaysStr(d, n));
   const todayStr = todayInTimezone(ORG_TZ);
   // Noon-UTC anchor: format() reads browser-local parts, and noon UTC stays on
@@ -318,14 +401,21 @@ export const ShowingsAgenda: React.FC<ShowingsAgendaProps> = ({
         </Card>
       ) : (
         <div className="space-y-2">
+          <RouteSummary routes={routes} describe={stopLabel} />
           {showings.map((s) => {
             const badge = STATUS_BADGE[s.status] || { label: s.status, className: "bg-slate-100 text-slate-700 border-slate-200" };
             const busy = busyId === s.id;
             const showQuick = isPast(s) && !reported(s);
             // Property-timezone clock (matches the grid + detail dialog).
             const time = formatTimeInTimezone(s.scheduled_at, getTimezoneForCity(s.property_city));
+            const leg = legTo.get(s.id);
+            const roster = s.open_house_slot_id ? rosters.get(s.open_house_slot_id) : undefined;
             return (
-              <Card key={s.id} className="overflow-hidden">
+              <React.Fragment key={s.id}>
+              {leg && (
+                <RouteLegLine leg={leg} fromLabel={showings.find((x) => x.id === leg.fromId)?.property_address || "la anterior"} />
+              )}
+              <Card className="overflow-hidden">
                 <CardContent className="p-3 space-y-2.5">
                   {/* Header — tap to open the full detail dialog. The + sits
                       OUTSIDE that button (a button inside a button is invalid
@@ -346,7 +436,18 @@ export const ShowingsAgenda: React.FC<ShowingsAgendaProps> = ({
                             {s.property_city}
                           </span>
                         )}
+                        {s.self_guided && (
+                          <span className="shrink-0 px-1.5 rounded border text-[10px] font-semibold bg-amber-50 text-amber-800 border-amber-200">
+                            🔑 Sin agente
+                          </span>
+                        )}
                       </div>
+                      {roster && (
+                        <div className="text-[11px] text-muted-foreground mt-0.5">
+                          <span className="font-semibold text-[#4F46E5]">👥 {rosterHeadline(roster)}</span>
+                          <span className="block truncate">{roster.names.join(", ")}</span>
+                        </div>
+                      )}
                     </div>
                     <Badge variant="outline" className={`text-[10px] shrink-0 ${badge.className}`}>{badge.label}</Badge>
                   </button>
@@ -391,6 +492,7 @@ export const ShowingsAgenda: React.FC<ShowingsAgendaProps> = ({
                   </div>
                 </CardContent>
               </Card>
+              </React.Fragment>
             );
           })}
         </div>
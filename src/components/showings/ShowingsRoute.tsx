@@ -0,0 +1,83 @@
+import React from "react";
+import { Car, AlertTriangle, Route as RouteIcon } from "lucide-react";
+import type { RouteLeg, RoutePlan } from "@/lib/routePlanner";
+
+// Drive-time pieces of the agenda: a per-route summary card and the hop line
+// drawn above each showing. The numbers come from the local distance model in
+// lib/routePlanner, so they are estimates — the copy says so.
+
+interface RouteSummaryProps {
+  /** One entry per driver (agent or market) with at least two stops. */
+  routes: { key: string; label: string; plan: RoutePlan }[];
+  /** "9:30 AM · 509 E 143rd" for a showing id. */
+  describe: (showingId: string) => string;
+}
+
+export const RouteSummary: React.FC<RouteSummaryProps> = ({ routes, describe }) => {
+  if (routes.length === 0) return null;
+  return (
+    <div className="rounded-lg border bg-slate-50 px-3 py-2.5 space-y-2">
+      {routes.map(({ key, label, plan }) => (
+        <div key={key} className="space-y-1">
+          <div className="flex items-center gap-1.5 text-xs font-semibold text-slate-800">
+            <RouteIcon className="h-3.5 w-3.5 text-[#4F46E5]" />
+            <span className="truncate">{label}</span>
+            <span className="ml-auto shrink-0 font-normal text-muted-foreground">
+              {plan.stops.length} paradas · ~{plan.driveMinutes} min de manejo
+            </span>
+          </div>
+          {(plan.impossible > 0 || plan.tight > 0) && (
+            <p className={`text-xs m-0 ${plan.impossible > 0 ? "text-red-700" : "text-amber-700"}`}>
+              {plan.impossible > 0 && `${plan.impossible} traslado${plan.impossible === 1 ? "" : "s"} imposible${plan.impossible === 1 ? "" : "s"}`}
+              {plan.impossible > 0 && plan.tight > 0 && " · "}
+              {plan.tight > 0 && `${plan.tight} justo${plan.tight === 1 ? "" : "s"}`}
+            </p>
+          )}
+          {plan.suggestedOrder && plan.suggestedDriveMinutes != null && (
+            <p className="text-xs text-muted-foreground m-0">
+              Por cercanía (~{plan.driveMinutes - plan.suggestedDriveMinutes} min menos):{" "}
+              {plan.suggestedOrder.map(describe).join(" → ")}
+            </p>
+          )}
+        </div>
+      ))}
+      <p className="text-[10px] text-muted-foreground m-0">Tiempos estimados por distancia, sin tráfico.</p>
+    </div>
+  );
+};
+
+interface RouteLegLineProps {
+  leg: RouteLeg;
+  /** Address of the previous stop on this route. */
+  fromLabel: string;
+}
+
+export const RouteLegLine: React.FC<RouteLegLineProps> = ({ leg, fromLabel }) => {
+  if (leg.status === "unknown") {
+    return (
+      <div className="flex items-center gap-1.5 px-1 text-[11px] text-muted-foreground">
+        <Car className="h-3 w-3 shrink-0" />
+        <span className="truncate">Sin coordenadas para estimar el manejo desde {fromLabel}</span>
+      </div>
+    );
+  }
+  if (leg.driveMinutes === 0) {
+    return (
+      <div className="flex items-center gap-1.5 px-1 text-[11px] text-muted-foreground">
+        <Car className="h-3 w-3 shrink-0" />
+        <span>Misma casa que la anterior</span>
+      </div>
+    );
+  }
+  const tone = leg.status === "impossible" ? "text-red-700" : leg.status === "tight" ? "text-amber-700" : "text-muted-foreground";
+  return (
+    <div className={`flex items-center gap-1.5 px-1 text-[11px] ${tone}`}>
+      {leg.status === "impossible" ? <AlertTriangle className="h-3 w-3 shrink-0" /> : <Car className="h-3 w-3 shrink-0" />}
+      <span className="truncate">
+        {leg.status === "impossible"
+          ? `No llega: ~${leg.driveMinutes} min de manejo desde ${fromLabel} y ${Math.max(0, leg.gapMinutes)} min entre visitas`
+          : `~${leg.driveMinutes} min desde ${fromLabel} · ${leg.slackMinutes} min de margen`}
+      </span>
+    </div>
+  );
+};
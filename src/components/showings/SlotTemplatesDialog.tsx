@@ -0,0 +1,502 @@
+import React, { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { CalendarX, Loader2, Plus, Repeat, Trash2, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  TEMPLATE_HORIZON_DAYS,
+  WEEKDAYS,
+  describeSlotTemplate,
+  templateDates,
+  templateTimes,
+} from "@/lib/slotTemplates";
+
+type SlotTemplate = Tables<"showing_slot_templates">;
+type SlotException = Tables<"showing_slot_template_exceptions">;
+
+interface TemplateHome {
+  id: string;
+  label: string;
+  city: string;
+}
+
+// Start/end choices: every half hour from 8am to 9pm.
+const TIME_OPTIONS = templateTimes("08:00", "21:30");
+
+function clock(t: string) {
+  return format(parseISO(`2000-01-01T${t}`), "h:mm a");
+}
+
+/**
+ * Weekly recurring availability ("Tue/Thu 4–7pm at these homes, until Dec
+ * 31"). Saving a template opens its slots right away (DB trigger); the nightly
+ * cron keeps them rolling TEMPLATE_HORIZON_DAYS ahead. Skipping a date — one
+ * template, or a holiday for all of them — takes only that day's open slots
+ * down; closing a single cell in the grid does the same for that cell.
+ */
+export const SlotTemplatesDialog: React.FC<{
+  open: boolean;
+  onOpenChange: (o: boolean) => void;
+  /** Today in Cleveland (yyyy-MM-dd), the grid's own anchor. */
+  today: string;
+  onChanged: () => void;
+}> = ({ open, onOpenChange, today, onChanged }) => {
+  const { userRecord } = useAuth();
+  const orgId = userRecord?.organization_id;
+  const qc = useQueryClient();
+  // null = list; "new" = blank editor; otherwise the template being edited.
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["slot-templates", orgId],
+    enabled: open && !!orgId,
+    queryFn: async () => {
+      const [tplRes, excRes, homesRes] = await Promise.all([
+        supabase.from("showing_slot_templates").select("*").eq("organization_id", orgId!).order("created_at"),
+        supabase
+          .from("showing_slot_template_exceptions")
+          .select("*")
+          .eq("organization_id", orgId!)
+          .gte("exception_date", today)
+          .order("exception_date"),
+        supabase
+          .from("properties")
+          .select("id, address, unit_number, city")
+          .eq("organization_id", orgId!)
+          .eq("status", "available")
+          .order("address"),
+      ]);
+      if (tplRes.error) throw tplRes.error;
+      if (excRes.error) throw excRes.error;
+      const homes: TemplateHome[] = (homesRes.data || []).map((p) => ({
+        id: p.id,
+        label: p.unit_number ? `${p.address} #${p.unit_number}` : p.address,
+        city: p.city || "Other",
+      }));
+      return { templates: tplRes.data || [], exceptions: excRes.data || [], homes };
+    },
+  });
+
+  const refresh = async () => {
+    await qc.invalidateQueries({ queryKey: ["slot-templates", orgId] });
+    onChanged();
+  };
+
+  const templates = data?.templates ?? [];
+  const exceptions = data?.exceptions ?? [];
+  const homes = data?.homes ?? [];
+  const current = editing && editing !== "new" ? templates.find((t) => t.id === editing) ?? null : null;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) setEditing(null); onOpenChange(o); }}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5 text-[#4F46E5]" /> Recurring availability
+          </DialogTitle>
+          <DialogDescription>
+            Weekly hours that open themselves, kept {TEMPLATE_HORIZON_DAYS} days ahead. Closing one
+            cell in the grid or skipping a date never touches the rest of the series.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !orgId ? (
+          <Skeleton className="h-32 w-full" />
+        ) : editing ? (
+          <TemplateEditor
+            key={editing}
+            orgId={orgId}
+            template={current}
+            homes={homes}
+            exceptions={exceptions}
+            today={today}
+            onDone={async (saved) => {
+              if (saved) await refresh();
+              setEditing(null);
+            }}
+            onSkipped={refresh}
+          />
+        ) : (
+          <div className="space-y-4">
+            <TemplateList
+              templates={templates}
+              homes={homes}
+              onEdit={setEditing}
+              onChanged={refresh}
+            />
+            <Button size="sm" variant="outline" className="w-full" onClick={() => setEditing("new")}>
+              <Plus className="h-4 w-4 mr-1" /> New template
+            </Button>
+            <HolidayList orgId={orgId} exceptions={exceptions} today={today} onChanged={refresh} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// ── Template list ──────────────────────────────────────────────────────
+const TemplateList: React.FC<{
+  templates: SlotTemplate[];
+  homes: TemplateHome[];
+  onEdit: (id: string) => void;
+  onChanged: () => Promise<void>;
+}> = ({ templates, homes, onEdit, onChanged }) => {
+  const { toast } = useToast();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const bookable = useMemo(() => new Set(homes.map((h) => h.id)), [homes]);
+
+  const toggle = async (t: SlotTemplate, active: boolean) => {
+    setBusyId(t.id);
+    const { error } = await supabase.from("showing_slot_templates").update({ is_active: active }).eq("id", t.id);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else await onChanged();
+    setBusyId(null);
+  };
+
+  const remove = async (t: SlotTemplate) => {
+    if (!window.confirm(`Delete "${t.name}"? Its open, unbooked slots close; bookings stay.`)) return;
+    setBusyId(t.id);
+    const { error } = await supabase.from("showing_slot_templates").delete().eq("id", t.id);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else await onChanged();
+    setBusyId(null);
+  };
+
+  if (templates.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        No recurring hours yet. Add one instead of re-drawing the same week by hand.
+      </p>
+    );
+  }
+
+  return (
+    <div className="divide-y rounded-lg border">
+      {templates.map((t) => {
+        const homeCount = t.property_ids.filter((id) => bookable.has(id)).length;
+        return (
+          <div key={t.id} className="flex items-center gap-3 px-3 py-2.5">
+            <button className="flex-1 min-w-0 text-left" onClick={() => onEdit(t.id)}>
+              <p className={`text-sm font-medium truncate ${t.is_active ? "" : "text-muted-foreground"}`}>{t.name}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {describeSlotTemplate(t)} · {homeCount} {homeCount === 1 ? "home" : "homes"}
+              </p>
+            </button>
+            {busyId === t.id ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : (
+              <>
+                <Switch checked={t.is_active} onCheckedChange={(v) => toggle(t, v)} aria-label="Active" />
+                <Button size="icon" variant="ghost" className="h-7 w-7" aria-label="Delete" onClick={() => remove(t)}>
+                  <Trash2 className="h-3.5 w-3.5 text-red-500" />
+                </Button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// ── Org-wide skipped dates (holidays) ─────────────────────────────────
+const HolidayList: React.FC<{
+  orgId: string;
+  exceptions: SlotException[];
+  today: string;
+  onChanged: () => Promise<void>;
+}> = ({ orgId, exceptions, today, onChanged }) => {
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const holidays = exceptions.filter((e) => e.template_id === null);
+
+  const add = async () => {
+    if (!date) return;
+    setBusy(true);
+    const { error } = await supabase.from("showing_slot_template_exceptions").insert({
+      organization_id: orgId,
+      exception_date: date,
+      note: note.trim() || null,
+    });
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else { setDate(""); setNote(""); await onChanged(); }
+    setBusy(false);
+  };
+
+  const removeHoliday = async (id: string) => {
+    setBusy(true);
+    const { error } = await supabase.from("showing_slot_template_exceptions").delete().eq("id", id);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else await onChanged();
+    setBusy(false);
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-slate-50 px-3 py-2.5">
+      <p className="text-xs font-semibold text-slate-700 flex items-center gap-1.5">
+        <CalendarX className="h-3.5 w-3.5" /> Holidays — no template opens on these dates
+      </p>
+      {holidays.map((h) => (
+        <div key={h.id} className="flex items-center justify-between text-xs">
+          <span>
+            {format(parseISO(h.exception_date), "EEE, MMM d")}
+            {h.note && <span className="text-muted-foreground"> · {h.note}</span>}
+          </span>
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" disabled={busy} onClick={() => removeHoliday(h.id)}>
+            Remove
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Input type="date" min={today} value={date} onChange={(e) => setDate(e.target.value)} className="h-8 text-xs w-40" />
+        <Input placeholder="Thanksgiving" value={note} onChange={(e) => setNote(e.target.value)} className="h-8 text-xs" />
+        <Button size="sm" className="h-8 bg-[#4F46E5] hover:bg-[#4F46E5]/90" disabled={!date || busy} onClick={add}>
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// ── Editor ────────────────────────────────────────────────────────────
+const TemplateEditor: React.FC<{
+  orgId: string;
+  template: SlotTemplate | null;
+  homes: TemplateHome[];
+  exceptions: SlotException[];
+  today: string;
+  onDone: (saved: boolean) => Promise<void> | void;
+  onSkipped: () => Promise<void>;
+}> = ({ orgId, template, homes, exceptions, today, onDone, onSkipped }) => {
+  const { toast } = useToast();
+  const [name, setName] = useState(template?.name ?? "");
+  const [weekdays, setWeekdays] = useState<number[]>(template?.weekdays ?? []);
+  const [start, setStart] = useState(template?.start_time ?? "16:00:00");
+  const [end, setEnd] = useState(template?.end_time ?? "19:00:00");
+  const [startsOn, setStartsOn] = useState(template?.starts_on ?? today);
+  const [endsOn, setEndsOn] = useState(template?.ends_on ?? "");
+  const [propertyIds, setPropertyIds] = useState<Set<string>>(() => new Set(template?.property_ids ?? []));
+  const [saving, setSaving] = useState(false);
+  const [skipBusy, setSkipBusy] = useState<string | null>(null);
+
+  const byCity = useMemo(() => {
+    const m = new Map<string, TemplateHome[]>();
+    for (const h of homes) {
+      if (!m.has(h.city)) m.set(h.city, []);
+      m.get(h.city)!.push(h);
+    }
+    return [...m.entries()].sort((a, b) => a[0].localeCompare(b[0]));
+  }, [homes]);
+
+  const rule = { weekdays, start_time: start, end_time: end, starts_on: startsOn, ends_on: endsOn || null };
+  const slotCount = templateTimes(start, end).length;
+  const valid = name.trim() && weekdays.length > 0 && slotCount > 0 && propertyIds.size > 0
+    && (!endsOn || endsOn >= startsOn);
+
+  // Upcoming dates of the SAVED rule; this template's own skips stay listed
+  // (struck through) so they can be restored.
+  const upcoming = template ? templateDates(template, today, 14) : [];
+  const skippedDates = new Set(
+    exceptions.filter((e) => e.template_id === template?.id).map((e) => e.exception_date),
+  );
+
+  const toggleDay = (d: number) =>
+    setWeekdays((cur) => (cur.includes(d) ? cur.filter((x) => x !== d) : [...cur, d].sort((a, b) => a - b)));
+
+  const toggleHomes = (ids: string[], on: boolean) =>
+    setPropertyIds((cur) => {
+      const next = new Set(cur);
+      ids.forEach((id) => (on ? next.add(id) : next.delete(id)));
+      return next;
+    });
+
+  const save = async () => {
+    if (!valid) return;
+    setSaving(true);
+    const payload = {
+      name: name.trim(),
+      weekdays,
+      start_time: start,
+      end_time: end,
+      starts_on: startsOn,
+      ends_on: endsOn || null,
+      property_ids: [...propertyIds],
+    };
+    const { error } = template
+      ? await supabase.from("showing_slot_templates").update(payload).eq("id", template.id)
+      : await supabase.from("showing_slot_templates").insert({ ...payload, organization_id: orgId });
+    setSaving(false);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: template ? "Template updated" : "Template created", description: describeSlotTemplate(rule) });
+    await onDone(true);
+  };
+
+  const setSkipped = async (date: string, skip: boolean) => {
+    if (!template) return;
+    setSkipBusy(date);
+    const { error } = skip
+      ? await supabase.from("showing_slot_template_exceptions").insert({
+          organization_id: orgId, template_id: template.id, exception_date: date,
+        })
+      : await supabase.from("showing_slot_template_exceptions").delete()
+          .eq("template_id", template.id).eq("exception_date", date);
+    setSkipBusy(null);
+    if (error) toast({ title: "Error", description: error.message, variant: "destructive" });
+    else await onSkipped();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1.5">
+        <Label htmlFor="tpl-name" className="text-xs">Name</Label>
+        <Input id="tpl-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Westropp evenings" />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Days</Label>
+        <div className="flex flex-wrap gap-1.5">
+          {WEEKDAYS.map((d) => (
+            <button
+              key={d.value}
+              type="button"
+              onClick={() => toggleDay(d.value)}
+              className={`h-8 w-11 rounded-md border text-xs font-medium transition-colors ${
+                weekdays.includes(d.value)
+                  ? "bg-[#4F46E5] text-white border-[#4F46E5]"
+                  : "bg-white text-slate-600 hover:bg-slate-50"
+              }`}
+            >
+              {d.short}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs">From</Label>
+          <Select value={start} onValueChange={setStart}>
+            <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {TIME_OPTIONS.map((t) => <SelectItem key={t} value={t}>{clock(t)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Until</Label>
+          <Select value={end} onValueChange={setEnd}>
+            <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {TIME_OPTIONS.map((t) => <SelectItem key={t} value={t}>{clock(t)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="tpl-starts" className="text-xs">Starting</Label>
+          <Input id="tpl-starts" type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} className="h-9" />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="tpl-ends" className="text-xs">Ending (optional)</Label>
+          <Input id="tpl-ends" type="date" min={startsOn} value={endsOn} onChange={(e) => setEndsOn(e.target.value)} className="h-9" />
+        </div>
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        {slotCount > 0
+          ? `${slotCount} half-hour slot${slotCount === 1 ? "" : "s"} per day, last one at ${clock(templateTimes(start, end)[slotCount - 1])}.`
+          : "The end time has to be after the start time."}
+      </p>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Homes ({propertyIds.size})</Label>
+        <div className="max-h-56 overflow-y-auto rounded-lg border divide-y">
+          {byCity.map(([city, list]) => {
+            const ids = list.map((h) => h.id);
+            const all = ids.every((id) => propertyIds.has(id));
+            return (
+              <div key={city} className="px-3 py-2 space-y-1">
+                <label className="flex items-center gap-2 text-xs font-semibold cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={all}
+                    onChange={(e) => toggleHomes(ids, e.target.checked)}
+                    className="rounded border-slate-300"
+                  />
+                  {city} <span className="font-normal text-muted-foreground">({list.length})</span>
+                </label>
+                {list.map((h) => (
+                  <label key={h.id} className="flex items-center gap-2 text-xs cursor-pointer pl-5">
+                    <input
+                      type="checkbox"
+                      checked={propertyIds.has(h.id)}
+                      onChange={(e) => toggleHomes([h.id], e.target.checked)}
+                      className="rounded border-slate-300"
+                    />
+                    {h.label}
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {template && upcoming.length > 0 && (
+        <div className="space-y-1.5">
+          <Label className="text-xs">Next two weeks</Label>
+          <div className="flex flex-wrap gap-1.5">
+            {upcoming
+              .map((d) => {
+                const skipped = skippedDates.has(d);
+                return (
+                  <button
+                    key={d}
+                    type="button"
+                    disabled={skipBusy !== null}
+                    onClick={() => setSkipped(d, !skipped)}
+                    title={skipped ? "Restore this date" : "Skip this date only"}
+                    className={`inline-flex items-center gap-1 rounded-md border px-2 py-1 text-[11px] transition-colors ${
+                      skipped
+                        ? "border-dashed text-muted-foreground line-through hover:bg-slate-50"
+                        : "bg-emerald-50 border-emerald-200 text-emerald-700 hover:bg-red-50 hover:border-red-200 hover:text-red-600"
+                    }`}
+                  >
+                    {skipBusy === d ? <Loader2 className="h-3 w-3 animate-spin" /> : skipped && <Undo2 className="h-3 w-3" />}
+                    {format(parseISO(d), "EEE MMM d")}
+                  </button>
+                );
+              })}
+          </div>
+          <p className="text-[11px] text-muted-foreground">Click a date to skip just that day; booked showings are kept.</p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-1">
+        <Button variant="ghost" size="sm" onClick={() => onDone(false)}>Cancel</Button>
+        <Button size="sm" className="bg-[#4F46E5] hover:bg-[#4F46E5]/90" disabled={!valid || saving} onClick={save}>
+          {saving && <Loader2 className="h-3.5 w-3.5 animate-spin mr-1" />}
+          {template ? "Save changes" : "Create"}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LifeBuoy, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { TICKET_PRIORITIES, type TicketPriority } from "@/lib/tickets";
+
+export interface TenantOption {
+  id: string;
+  name: string;
+  email: string | null;
+  property_id: string;
+  propertyLabel: string;
+}
+
+interface NewTicketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tenants: TenantOption[];
+  onCreated: (ticketId: string) => void;
+}
+
+/**
+ * Logs a request a tenant made by phone or to a personal inbox, so it lands
+ * in the shared queue instead of someone's head.
+ */
+export const NewTicketDialog: React.FC<NewTicketDialogProps> = ({
+  open,
+  onOpenChange,
+  tenants,
+  onCreated,
+}) => {
+  const { userRecord } = useAuth();
+  const [tenantId, setTenantId] = useState("");
+  const [email, setEmail] = useState("");
+  const [subject, setSubject] = useState("");
+  const [description, setDescription] = useState("");
+  const [priority, setPriority] = useState<TicketPriority>("medium");
+  const [saving, setSaving] = useState(false);
+
+  const tenant = tenants.find((t) => t.id === tenantId);
+  const isValid = !!tenant && !!subject.trim() && !!description.trim();
+
+  const handleSubmit = async () => {
+    if (!isValid || !userRecord?.organization_id) return;
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("tickets")
+        .insert({
+          organization_id: userRecord.organization_id,
+          tenant_id: tenant.id,
+          property_id: tenant.property_id,
+          requester_name: tenant.name,
+          requester_email: email.trim() || tenant.email,
+          subject: subject.trim(),
+          description: description.trim(),
+          priority,
+          created_by: userRecord.id,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+      toast.success("Ticket created");
+      onCreated(data.id);
+      onOpenChange(false);
+      setTenantId("");
+      setEmail("");
+      setSubject("");
+      setDescription("");
+      setPriority("medium");
+    } catch (error) {
+      console.error("Error creating ticket:", error);
+      toast.error("Failed to create the ticket.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-2rem)] sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LifeBuoy className="h-5 w-5 text-primary" />
+            New ticket
+          </DialogTitle>
+          <DialogDescription>
+            Replies go to the tenant by email; their answers come back to this thread.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Tenant</Label>
+            <Select
+              value={tenantId}
+              onValueChange={(id) => {
+                setTenantId(id);
+                setEmail(tenants.find((t) => t.id === id)?.email || "");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a tenant" />
+              </SelectTrigger>
+              <SelectContent>
+                {tenants.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name} · {t.propertyLabel}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="ticket-email">Reply-to email</Label>
+              <Input
+                id="ticket-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="tenant@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(v) => setPriority(v as TicketPriority)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TICKET_PRIORITIES.map((p) => (
+                    <SelectItem key={p.value} value={p.value}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ticket-subject">Subject</Label>
+            <Input
+              id="ticket-subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="No hot water"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ticket-description">What the tenant reported</Label>
+            <Textarea
+              id="ticket-description"
+              rows={4}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create ticket
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,256 @@
+import React, { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Lock, Mail, Send } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  TICKET_PRIORITIES,
+  TICKET_STATUSES,
+  addTicketNote,
+  sendTicketReply,
+  ticketSla,
+} from "@/lib/tickets";
+
+export interface TicketRow {
+  id: string;
+  number: number;
+  subject: string;
+  description: string;
+  status: string;
+  priority: string;
+  property_id: string | null;
+  tenant_id: string | null;
+  assigned_to: string | null;
+  requester_name: string | null;
+  requester_email: string | null;
+  created_at: string | null;
+  first_response_at: string | null;
+  last_message_at: string | null;
+}
+
+interface TicketThreadProps {
+  ticket: TicketRow;
+  propertyLabel: string | null;
+  assignees: { id: string; label: string }[];
+  canEdit: boolean;
+  onChanged: () => void;
+}
+
+const UNASSIGNED = "__none__";
+
+export const TicketThread: React.FC<TicketThreadProps> = ({
+  ticket,
+  propertyLabel,
+  assignees,
+  canEdit,
+  onChanged,
+}) => {
+  const { userRecord } = useAuth();
+  const qc = useQueryClient();
+  const [draft, setDraft] = useState("");
+  const [mode, setMode] = useState<"reply" | "note">("reply");
+  const [sending, setSending] = useState(false);
+
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey: ["ticket-messages", ticket.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ticket_messages")
+        .select("id, message, direction, author_email, sender_id, created_at")
+        .eq("ticket_id", ticket.id)
+        .order("created_at");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const assigneeName = (id: string | null) => assignees.find((a) => a.id === id)?.label;
+
+  const update = async (fields: { status?: string; priority?: string; assigned_to?: string | null }) => {
+    const { error } = await supabase.from("tickets").update(fields).eq("id", ticket.id);
+    if (error) {
+      console.error("Error updating ticket:", error);
+      toast.error("Failed to update the ticket.");
+      return;
+    }
+    onChanged();
+  };
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+    setSending(true);
+    try {
+      if (mode === "reply") await sendTicketReply(ticket.id, body);
+      else await addTicketNote(ticket.id, userRecord?.id ?? null, body);
+      setDraft("");
+      toast.success(mode === "reply" ? "Reply sent" : "Note added");
+      await qc.invalidateQueries({ queryKey: ["ticket-messages", ticket.id] });
+      onChanged();
+    } catch (error) {
+      console.error("Error sending ticket message:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const sla = ticketSla(ticket);
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="space-y-3 border-b p-4">
+        <div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="font-mono">#{ticket.number}</span>
+            {propertyLabel && <span>· {propertyLabel}</span>}
+          </div>
+          <h2 className="text-lg font-semibold">{ticket.subject}</h2>
+          <p className="text-sm text-muted-foreground">
+            {ticket.requester_name || "Unknown tenant"}
+            {ticket.requester_email ? ` · ${ticket.requester_email}` : " · no email on file"}
+          </p>
+          {sla && (
+            <p
+              className={cn(
+                "mt-1 text-xs",
+                sla.overdue ? "text-red-600" : sla.atRisk ? "text-amber-600" : "text-muted-foreground",
+              )}
+            >
+              {sla.kind === "first_response" ? "First reply" : "Resolution"}{" "}
+              {sla.overdue ? "overdue since" : "due"} {format(sla.dueAt, "MMM d, h:mm a")}
+            </p>
+          )}
+        </div>
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+          <Select value={ticket.status} onValueChange={(status) => update({ status })} disabled={!canEdit}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TICKET_STATUSES.map((s) => (
+                <SelectItem key={s.value} value={s.value}>
+                  {s.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={ticket.priority} onValueChange={(priority) => update({ priority })} disabled={!canEdit}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TICKET_PRIORITIES.map((p) => (
+                <SelectItem key={p.value} value={p.value}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={ticket.assigned_to || UNASSIGNED}
+            onValueChange={(id) => update({ assigned_to: id === UNASSIGNED ? null : id })}
+            disabled={!canEdit}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {assignees.map((u) => (
+                <SelectItem key={u.id} value={u.id}>
+                  {u.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Thread */}
+      <div className="flex-1 space-y-3 overflow-y-auto p-4">
+        <div className="rounded-lg border bg-muted/30 p-3 text-sm">
+          <div className="mb-1 text-xs text-muted-foreground">
+            Reported {ticket.created_at ? formatDistanceToNow(new Date(ticket.created_at), { addSuffix: true }) : ""}
+          </div>
+          <p className="whitespace-pre-wrap">{ticket.description}</p>
+        </div>
+        {isLoading ? (
+          <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          messages.map((m) => (
+            <div
+              key={m.id}
+              className={cn(
+                "max-w-[85%] rounded-lg border p-3 text-sm",
+                m.direction === "outbound" && "ml-auto border-primary/20 bg-primary/5",
+                m.direction === "internal" && "ml-auto border-amber-200 bg-amber-50",
+              )}
+            >
+              <div className="mb-1 flex items-center gap-1 text-xs text-muted-foreground">
+                {m.direction === "internal" ? <Lock className="h-3 w-3" /> : <Mail className="h-3 w-3" />}
+                {m.direction === "inbound"
+                  ? m.author_email || ticket.requester_name || "Tenant"
+                  : assigneeName(m.sender_id) || "Staff"}
+                {m.direction === "internal" && " · internal note"}
+                {m.created_at && ` · ${format(new Date(m.created_at), "MMM d, h:mm a")}`}
+              </div>
+              <p className="whitespace-pre-wrap">{m.message}</p>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Composer */}
+      {canEdit && (
+        <div className="space-y-2 border-t p-4">
+          <div className="flex items-center gap-2">
+            <Badge
+              variant={mode === "reply" ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setMode("reply")}
+            >
+              Email reply
+            </Badge>
+            <Badge
+              variant={mode === "note" ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setMode("note")}
+            >
+              Internal note
+            </Badge>
+          </div>
+          <Textarea
+            rows={3}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={mode === "reply" ? "Write to the tenant…" : "Only staff will see this"}
+          />
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSend}
+              disabled={sending || !draft.trim() || (mode === "reply" && !ticket.requester_email)}
+            >
+              {sending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              {mode === "reply" ? "Send reply" : "Add note"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -58,6 +58,13 @@ export interface OverviewFunnel {
 export interface OverviewShowings {
   scheduled: number; completed: number; no_show: number; cancelled: number;
   rescheduled: number; total: number; show_rate: number | null;
+  // show_rate is arrivals ÷ on-site check-ins once a range has any check-ins,
+  // else the reported completed ÷ (completed + no_show) — see the
+  // showing_check_in migration. reported_show_rate is always the latter.
+  show_rate_basis?: "verified" | "reported";
+  reported_show_rate?: number | null;
+  verified_checkins?: number;
+  verified_arrivals?: number;
 }
 
 export interface OverviewFirstResponse {
@@ -276,7 +283,10 @@ export function exportAnalyticsToCSV(data: AnalyticsData, range: { from: Date; t
     ["Showings completed", o.showings.completed.toString()],
     ["Showings no-show", o.showings.no_show.toString()],
     ["Showings cancelled", o.showings.cancelled.toString()],
-    ["Show rate", o.showings.show_rate != null ? `${o.showings.show_rate}%` : "N/A"],
+    [
+      o.showings.show_rate_basis === "verified" ? "Show rate (verified check-ins)" : "Show rate",
+      o.showings.show_rate != null ? `${o.showings.show_rate}%` : "N/A",
+    ],
     ["AI cost (range)", `$${Number(o.costs.total).toFixed(2)}`],
     [""],
     ["Funnel", "Leads"],
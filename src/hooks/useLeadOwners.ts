@@ -0,0 +1,42 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface LeadOwner {
+  /** users.id — what leads.assigned_leasing_agent_id holds. */
+  id: string;
+  full_name: string;
+  is_active: boolean;
+}
+
+/**
+ * Everyone who can own a lead: the org's leasing agents, editors and admins.
+ * Inactive users stay in the list so old owners and log entries still have a
+ * name; `active` is who a lead can be handed to.
+ */
+export function useLeadOwners(orgId: string | null | undefined) {
+  const query = useQuery({
+    queryKey: ["lead-owners", orgId],
+    enabled: !!orgId,
+    queryFn: async (): Promise<LeadOwner[]> => {
+      const { data, error } = await supabase
+        .from("users")
+        .select("id, full_name, is_active")
+        .eq("organization_id", orgId!)
+        .in("role", ["leasing_agent", "editor", "admin", "super_admin"])
+        .order("full_name");
+      if (error) throw error;
+      return (data || []).map((u) => ({
+        id: u.id,
+        full_name: u.full_name || "Unnamed",
+        is_active: u.is_active !== false,
+      }));
+    },
+  });
+
+  const owners = useMemo(() => query.data || [], [query.data]);
+  const active = useMemo(() => owners.filter((o) => o.is_active), [owners]);
+  const nameOf = useCallback((id: string) => owners.find((o) => o.id === id)?.full_name, [owners]);
+
+  return { owners, active, nameOf, loading: query.isLoading };
+}
@@ -35,6 +35,7 @@ export const DEFAULT_SETTINGS = {
   default_duration_minutes: 30,
   buffer_minutes: 15,
   showing_lead_time_minutes: 60,
+  showing_assignment_mode: "round_robin" as "round_robin" | "territory",
   showing_weekly_schedule: {
     "0": null,
     "1": { start: "09:00", end: "17:00" },
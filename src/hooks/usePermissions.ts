@@ -30,8 +30,15 @@ export interface Permissions {
   canChangeLeadStatus: boolean;
   canMarkDoNotContact: boolean;
   canDeleteLead: boolean;
+  canBulkEditLeads: boolean;
   canTakeHumanControl: boolean;
   canReleaseHumanControl: boolean;
+  canCreateLease: boolean;
+  canScreenApplicants: boolean;
+
+  // Maintenance
+  canManageWorkOrders: boolean;
+  canManageTickets: boolean;
 
   // Showings
   canViewAllShowings: boolean;
@@ -117,8 +124,17 @@ const createPermissions = (role: AppRole | null): Permissions => {
     canChangeLeadStatus: isEditorOrAbove || isLeasingAgent,
     canMarkDoNotContact: isEditorOrAbove,
     canDeleteLead: isAdminOrAbove,
+    // Writes across the whole filtered list, so not for leasing agents.
+    canBulkEditLeads: isEditorOrAbove,
     canTakeHumanControl: isEditorOrAbove || isLeasingAgent,
     canReleaseHumanControl: isEditorOrAbove || isLeasingAgent,
+    // Marks the property rented, so same bar as changing property status.
+    canCreateLease: isEditorOrAbove,
+    canScreenApplicants: isEditorOrAbove,
+
+    // Maintenance
+    canManageWorkOrders: isEditorOrAbove,
+    canManageTickets: isEditorOrAbove,
 
     // Showings
     canViewAllShowings: isEditorOrAbove,
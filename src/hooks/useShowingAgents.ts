@@ -0,0 +1,59 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
+import { marketCapacity, type AssignmentMode, type ShowingAgentSummary } from "@/lib/showingAgents";
+
+export interface ShowingAgent extends ShowingAgentSummary {
+  /** showing_agents.id (hours and time off hang off this). */
+  id: string;
+  last_assigned_at: string | null;
+}
+
+/**
+ * The org's showing agents plus the capacity rule the week grid and agenda
+ * use to decide whether a market is full at a given time. Orgs that never set
+ * agents up get an empty list and a capacity of 1 everywhere.
+ */
+export function useShowingAgents(orgId: string | null | undefined) {
+  const { getSetting } = useOrganizationSettings();
+  const mode = getSetting<AssignmentMode>("showing_assignment_mode");
+
+  const query = useQuery({
+    queryKey: ["showing-agents", orgId],
+    enabled: !!orgId,
+    queryFn: async (): Promise<ShowingAgent[]> => {
+      const { data, error } = await supabase
+        .from("showing_agents")
+        .select("id, user_id, markets, is_active, last_assigned_at, users!showing_agents_user_id_fkey(full_name)")
+        .eq("organization_id", orgId!);
+      if (error) throw error;
+      return (data || [])
+        .map((a) => ({
+          id: a.id,
+          user_id: a.user_id,
+          markets: a.markets || [],
+          is_active: a.is_active,
+          last_assigned_at: a.last_assigned_at,
+          full_name: (a.users as { full_name: string | null } | null)?.full_name || "Unnamed",
+        }))
+        .sort((a, b) => a.full_name.localeCompare(b.full_name));
+    },
+  });
+
+  const agents = useMemo(() => query.data || [], [query.data]);
+  const activeAgents = useMemo(() => agents.filter((a) => a.is_active), [agents]);
+  const capacityOf = useCallback(
+    (market: string | null) => marketCapacity(agents, market, mode),
+    [agents, mode],
+  );
+
+  return {
+    agents,
+    activeAgents,
+    mode,
+    capacityOf,
+    loading: query.isLoading,
+    refetch: query.refetch,
+  };
+}
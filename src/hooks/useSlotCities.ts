@@ -1,5 +1,7 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { useShowingAgents } from "@/hooks/useShowingAgents";
+import { fullMarkets } from "@/lib/showingAgents";
 
 // Only 'available' homes can be opened for showings (coming_soon is visible in
 // the public catalog but not bookable). Mirrors the gate in ManageSlotsTab,
@@ -23,7 +25,9 @@ export interface SlotMutationResult {
  * (Cleveland + East Cleveland are one; Milwaukee is its own). So the same 4pm
  * can be booked in Milwaukee and still open in Cleveland — and the only thing
  * you may not do is open a second home in a market that already has a booking
- * at that time, because that agent can't be in two places at once.
+ * at that time, because that agent can't be in two places at once. With
+ * several showing agents a market only fills up once every agent who can take
+ * it has a tour at that time (see lib/showingAgents).
  *
  * Every mutation returns a result instead of raising toasts, so each surface
  * can report in its own voice and refresh its own data.
@@ -32,6 +36,7 @@ export function useSlotCities(orgId: string | null | undefined) {
   const [citiesWithProps, setCitiesWithProps] = useState<Map<string, string[]>>(new Map());
   const [cityMarket, setCityMarket] = useState<Map<string, string>>(new Map());
   const [loading, setLoading] = useState(true);
+  const { capacityOf } = useShowingAgents(orgId);
 
   useEffect(() => {
     if (!orgId) return;
@@ -67,22 +72,22 @@ export function useSlotCities(orgId: string | null | undefined) {
 
   const marketOf = useCallback((city: string) => cityMarket.get(city) || city, [cityMarket]);
 
-  /** Markets that already hold a booking at this date+time. */
+  /** Markets with no agent left at this date+time. */
   const bookedMarkets = useCallback(async (date: string, time: string): Promise<Set<string>> => {
-    const taken = new Set<string>();
-    if (!orgId) return taken;
+    if (!orgId) return new Set();
     const { data } = await supabase
       .from("showing_available_slots")
-      .select("property_id, properties!inner(market)")
+      .select("booked_showing_id, properties!inner(market)")
       .eq("organization_id", orgId)
       .eq("slot_date", date)
       .eq("slot_time", time)
       .eq("is_booked", true);
-    for (const row of (data || []) as { properties: { market: string | null } | null }[]) {
-      if (row.properties?.market) taken.add(row.properties.market);
-    }
-    return taken;
-  }, [orgId]);
+    const rows = (data || []) as { booked_showing_id: string | null; properties: { market: string | null } | null }[];
+    return fullMarkets(
+      rows.map((r) => ({ market: r.properties?.market ?? null, tour: r.booked_showing_id })),
+      capacityOf,
+    );
+  }, [orgId, capacityOf]);
 
   /** Which of `cities` sit in a market that is already booked at that time. */
   const blockedCities = useCallback(
@@ -264,6 +264,115 @@ export type Database = {
           },
         ]
       }
+      agent_busy_blocks: {
+        Row: {
+          calendar_id: string
+          ends_at: string
+          id: string
+          organization_id: string
+          starts_at: string
+          user_id: string
+        }
+        Insert: {
+          calendar_id: string
+          ends_at: string
+          id?: string
+          organization_id: string
+          starts_at: string
+          user_id: string
+        }
+        Update: {
+          calendar_id?: string
+          ends_at?: string
+          id?: string
+          organization_id?: string
+          starts_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_busy_blocks_calendar_id_fkey"
+            columns: ["calendar_id"]
+            isOneToOne: false
+            referencedRelation: "agent_calendars"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_busy_blocks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_busy_blocks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agent_calendars: {
+        Row: {
+          caldav_url: string
+          created_at: string
+          id: string
+          is_active: boolean
+          last_error: string | null
+          last_synced_at: string | null
+          markets: string[]
+          organization_id: string
+          password: string
+          updated_at: string
+          user_id: string
+          username: string
+        }
+        Insert: {
+          caldav_url: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_synced_at?: string | null
+          markets?: string[]
+          organization_id: string
+          password: string
+          updated_at?: string
+          user_id: string
+          username: string
+        }
+        Update: {
+          caldav_url?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_synced_at?: string | null
+          markets?: string[]
+          organization_id?: string
+          password?: string
+          updated_at?: string
+          user_id?: string
+          username?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_calendars_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_calendars_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       agent_tasks: {
         Row: {
           action_type: string
@@ -457,25 +566,31 @@ export type Database = {
       }
       applicant_notes: {
         Row: {
-          applicant_id: string
+          applicant_id: string | null
           author_id: string
           created_at: string | null
           id: string
+          lead_id: string | null
           note: string
+          organization_id: string | null
         }
         Insert: {
-          applicant_id: string
+          applicant_id?: string | null
           author_id: string
           created_at?: string | null
           id?: string
+          lead_id?: string | null
           note: string
+          organization_id?: string | null
         }
         Update: {
-          applicant_id?: string
+          applicant_id?: string | null
           author_id?: string
           created_at?: string | null
           id?: string
+          lead_id?: string | null
           note?: string
+          organization_id?: string | null
         }
         Relationships: [
           {
@@ -489,9 +604,123 @@ export type Database = {
             foreignKeyName: "applicant_notes_author_id_fkey"
             columns: ["author_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "applicant_notes_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "applicant_notes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_screenings: {
+        Row: {
+          adverse_action_sent_at: string | null
+          checklist: Json
+          conditions: string | null
+          created_at: string
+          created_by: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision: string
+          id: string
+          lead_id: string
+          monthly_income: number | null
+          organization_id: string
+          property_id: string | null
+          reason_code: string | null
+          rent_amount: number | null
+          updated_at: string
+        }
+        Insert: {
+          adverse_action_sent_at?: string | null
+          checklist?: Json
+          conditions?: string | null
+          created_at?: string
+          created_by?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: string
+          id?: string
+          lead_id: string
+          monthly_income?: number | null
+          organization_id: string
+          property_id?: string | null
+          reason_code?: string | null
+          rent_amount?: number | null
+          updated_at?: string
+        }
+        Update: {
+          adverse_action_sent_at?: string | null
+          checklist?: Json
+          conditions?: string | null
+          created_at?: string
+          created_by?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: string
+          id?: string
+          lead_id?: string
+          monthly_income?: number | null
+          organization_id?: string
+          property_id?: string | null
+          reason_code?: string | null
+          rent_amount?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_screenings_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_screenings_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_screenings_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_screenings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_screenings_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "application_screenings_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "property_performance"
+            referencedColumns: ["property_id"]
+          },
         ]
       }
       business_leads: {
@@ -819,6 +1048,9 @@ export type Database = {
       }
       campaigns: {
         Row: {
+          ab_auto_promote: boolean
+          ab_decided_at: string | null
+          ab_metric: string
           campaign_type: string
           completed_at: string | null
           created_at: string | null
@@ -827,6 +1059,7 @@ export type Database = {
           description: string | null
           email_body: string | null
           email_subject: string | null
+          email_variants: Json
           emails_queued: number | null
           failed_count: number | null
           id: string
@@ -847,8 +1080,12 @@ export type Database = {
           total_leads: number | null
           updated_at: string | null
           voice_script: string | null
+          winner_variant: string | null
         }
         Insert: {
+          ab_auto_promote?: boolean
+          ab_decided_at?: string | null
+          ab_metric?: string
           campaign_type: string
           completed_at?: string | null
           created_at?: string | null
@@ -857,6 +1094,7 @@ export type Database = {
           description?: string | null
           email_body?: string | null
           email_subject?: string | null
+          email_variants?: Json
           emails_queued?: number | null
           failed_count?: number | null
           id?: string
@@ -877,8 +1115,12 @@ export type Database = {
           total_leads?: number | null
           updated_at?: string | null
           voice_script?: string | null
+          winner_variant?: string | null
         }
         Update: {
+          ab_auto_promote?: boolean
+          ab_decided_at?: string | null
+          ab_metric?: string
           campaign_type?: string
           completed_at?: string | null
           created_at?: string | null
@@ -887,6 +1129,7 @@ export type Database = {
           description?: string | null
           email_body?: string | null
           email_subject?: string | null
+          email_variants?: Json
           emails_queued?: number | null
           failed_count?: number | null
           id?: string
@@ -907,6 +1150,7 @@ export type Database = {
           total_leads?: number | null
           updated_at?: string | null
           voice_script?: string | null
+          winner_variant?: string | null
         }
         Relationships: [
           {
@@ -1607,6 +1851,8 @@ export type Database = {
       }
       flow_runs: {
         Row: {
+          current_branch: string | null
+          current_parent_step_id: string | null
           current_position: number
           ended_at: string | null
           flow_id: string
@@ -1619,6 +1865,8 @@ export type Database = {
           status: string
         }
         Insert: {
+          current_branch?: string | null
+          current_parent_step_id?: string | null
           current_position?: number
           ended_at?: string | null
           flow_id: string
@@ -1631,6 +1879,8 @@ export type Database = {
           status?: string
         }
         Update: {
+          current_branch?: string | null
+          current_parent_step_id?: string | null
           current_position?: number
           ended_at?: string | null
           flow_id?: string
@@ -1643,6 +1893,13 @@ export type Database = {
           status?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "flow_runs_current_parent_step_id_fkey"
+            columns: ["current_parent_step_id"]
+            isOneToOne: false
+            referencedRelation: "flow_steps"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "flow_runs_flow_id_fkey"
             columns: ["flow_id"]
@@ -1668,11 +1925,16 @@ export type Database = {
       }
       flow_steps: {
         Row: {
+          ab_auto_promote: boolean
+          ab_decided_at: string | null
+          ab_metric: string
+          branch: string | null
           channel: string
           created_at: string
           delay_anchor: string
           delay_minutes: number
           email_config: Json
+          email_variants: Json
           exit_conditions: Json
           flow_id: string
           id: string
@@ -1681,14 +1943,24 @@ export type Database = {
           position: number
           template_key: string | null
           notification_key: string | null
+          parent_step_id: string | null
+          step_type: string
           updated_at: string
+          wait_event: string | null
+          wait_timeout_minutes: number | null
+          winner_variant: string | null
         }
         Insert: {
+          ab_auto_promote?: boolean
+          ab_decided_at?: string | null
+          ab_metric?: string
+          branch?: string | null
           channel?: string
           created_at?: string
           delay_anchor?: string
           delay_minutes?: number
           email_config?: Json
+          email_variants?: Json
           exit_conditions?: Json
           flow_id: string
           id?: string
@@ -1697,14 +1969,24 @@ export type Database = {
           position: number
           template_key?: string | null
           notification_key?: string | null
+          parent_step_id?: string | null
+          step_type?: string
           updated_at?: string
+          wait_event?: string | null
+          wait_timeout_minutes?: number | null
+          winner_variant?: string | null
         }
         Update: {
+          ab_auto_promote?: boolean
+          ab_decided_at?: string | null
+          ab_metric?: string
+          branch?: string | null
           channel?: string
           created_at?: string
           delay_anchor?: string
           delay_minutes?: number
           email_config?: Json
+          email_variants?: Json
           exit_conditions?: Json
           flow_id?: string
           id?: string
@@ -1713,7 +1995,12 @@ export type Database = {
           position?: number
           template_key?: string | null
           notification_key?: string | null
+          parent_step_id?: string | null
+          step_type?: string
           updated_at?: string
+          wait_event?: string | null
+          wait_timeout_minutes?: number | null
+          winner_variant?: string | null
         }
         Relationships: [
           {
@@ -1723,6 +2010,13 @@ export type Database = {
             referencedRelation: "flows"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "flow_steps_parent_step_id_fkey"
+            columns: ["parent_step_id"]
+            isOneToOne: false
+            referencedRelation: "flow_steps"
+            referencedColumns: ["id"]
+          },
         ]
       }
       flows: {
@@ -2217,76 +2511,389 @@ export type Database = {
         }
         Relationships: []
       }
-      lead_field_changes: {
+      lead_assignment_agents: {
         Row: {
-          change_source: string
-          changed_by_agent: string | null
-          changed_by_user_id: string | null
-          created_at: string | null
-          field_name: string
+          created_at: string
+          id: string
+          is_active: boolean
+          last_assigned_at: string | null
+          max_open_leads: number | null
+          organization_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_assigned_at?: string | null
+          max_open_leads?: number | null
+          organization_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_assigned_at?: string | null
+          max_open_leads?: number | null
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_assignment_agents_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_assignment_agents_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_assignment_log: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_user_id: string | null
           id: string
           lead_id: string
-          new_value: string | null
-          note: string | null
-          old_value: string | null
           organization_id: string
-          related_call_id: string | null
+          rule_id: string | null
+          rule_name: string | null
+          to_user_id: string | null
+          via: string
         }
         Insert: {
-          change_source: string
-          changed_by_agent?: string | null
-          changed_by_user_id?: string | null
-          created_at?: string | null
-          field_name: string
+          changed_by?: string | null
+          created_at?: string
+          from_user_id?: string | null
           id?: string
           lead_id: string
-          new_value?: string | null
-          note?: string | null
-          old_value?: string | null
           organization_id: string
-          related_call_id?: string | null
+          rule_id?: string | null
+          rule_name?: string | null
+          to_user_id?: string | null
+          via?: string
         }
         Update: {
-          change_source?: string
-          changed_by_agent?: string | null
-          changed_by_user_id?: string | null
-          created_at?: string | null
-          field_name?: string
+          changed_by?: string | null
+          created_at?: string
+          from_user_id?: string | null
           id?: string
           lead_id?: string
-          new_value?: string | null
-          note?: string | null
-          old_value?: string | null
           organization_id?: string
-          related_call_id?: string | null
+          rule_id?: string | null
+          rule_name?: string | null
+          to_user_id?: string | null
+          via?: string
         }
         Relationships: [
           {
-            foreignKeyName: "lead_field_changes_changed_by_user_id_fkey"
-            columns: ["changed_by_user_id"]
+            foreignKeyName: "lead_assignment_log_changed_by_fkey"
+            columns: ["changed_by"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "lead_field_changes_lead_id_fkey"
+            foreignKeyName: "lead_assignment_log_from_user_id_fkey"
+            columns: ["from_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_assignment_log_lead_id_fkey"
             columns: ["lead_id"]
             isOneToOne: false
             referencedRelation: "leads"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "lead_field_changes_organization_id_fkey"
+            foreignKeyName: "lead_assignment_log_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "lead_field_changes_related_call_id_fkey"
-            columns: ["related_call_id"]
+            foreignKeyName: "lead_assignment_log_rule_id_fkey"
+            columns: ["rule_id"]
             isOneToOne: false
-            referencedRelation: "calls"
+            referencedRelation: "lead_assignment_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_assignment_log_to_user_id_fkey"
+            columns: ["to_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_assignment_rules: {
+        Row: {
+          agent_ids: string[]
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          match_type: string
+          match_values: string[]
+          name: string
+          organization_id: string
+          priority: number
+          updated_at: string
+        }
+        Insert: {
+          agent_ids?: string[]
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          match_type: string
+          match_values?: string[]
+          name: string
+          organization_id: string
+          priority?: number
+          updated_at?: string
+        }
+        Update: {
+          agent_ids?: string[]
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          match_type?: string
+          match_values?: string[]
+          name?: string
+          organization_id?: string
+          priority?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_assignment_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_assignment_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_duplicate_dismissals: {
+        Row: {
+          created_at: string
+          dismissed_by: string | null
+          id: string
+          lead_a_id: string
+          lead_b_id: string
+          organization_id: string
+        }
+        Insert: {
+          created_at?: string
+          dismissed_by?: string | null
+          id?: string
+          lead_a_id: string
+          lead_b_id: string
+          organization_id: string
+        }
+        Update: {
+          created_at?: string
+          dismissed_by?: string | null
+          id?: string
+          lead_a_id?: string
+          lead_b_id?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_duplicate_dismissals_dismissed_by_fkey"
+            columns: ["dismissed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_duplicate_dismissals_lead_a_id_fkey"
+            columns: ["lead_a_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_duplicate_dismissals_lead_b_id_fkey"
+            columns: ["lead_b_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_duplicate_dismissals_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_field_changes: {
+        Row: {
+          change_source: string
+          changed_by_agent: string | null
+          changed_by_user_id: string | null
+          created_at: string | null
+          field_name: string
+          id: string
+          lead_id: string
+          new_value: string | null
+          note: string | null
+          old_value: string | null
+          organization_id: string
+          related_call_id: string | null
+        }
+        Insert: {
+          change_source: string
+          changed_by_agent?: string | null
+          changed_by_user_id?: string | null
+          created_at?: string | null
+          field_name: string
+          id?: string
+          lead_id: string
+          new_value?: string | null
+          note?: string | null
+          old_value?: string | null
+          organization_id: string
+          related_call_id?: string | null
+        }
+        Update: {
+          change_source?: string
+          changed_by_agent?: string | null
+          changed_by_user_id?: string | null
+          created_at?: string | null
+          field_name?: string
+          id?: string
+          lead_id?: string
+          new_value?: string | null
+          note?: string | null
+          old_value?: string | null
+          organization_id?: string
+          related_call_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_field_changes_changed_by_user_id_fkey"
+            columns: ["changed_by_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_field_changes_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_field_changes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_field_changes_related_call_id_fkey"
+            columns: ["related_call_id"]
+            isOneToOne: false
+            referencedRelation: "calls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_merges: {
+        Row: {
+          children: Json
+          field_overrides: Json | null
+          id: string
+          loser_id: string
+          loser_row: Json
+          merged_at: string
+          merged_by: string | null
+          organization_id: string
+          unmerged_at: string | null
+          unmerged_by: string | null
+          winner_after: Json | null
+          winner_before: Json
+          winner_id: string
+        }
+        Insert: {
+          children?: Json
+          field_overrides?: Json | null
+          id?: string
+          loser_id: string
+          loser_row: Json
+          merged_at?: string
+          merged_by?: string | null
+          organization_id: string
+          unmerged_at?: string | null
+          unmerged_by?: string | null
+          winner_after?: Json | null
+          winner_before: Json
+          winner_id: string
+        }
+        Update: {
+          children?: Json
+          field_overrides?: Json | null
+          id?: string
+          loser_id?: string
+          loser_row?: Json
+          merged_at?: string
+          merged_by?: string | null
+          organization_id?: string
+          unmerged_at?: string | null
+          unmerged_by?: string | null
+          winner_after?: Json | null
+          winner_before?: Json
+          winner_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_merges_merged_by_fkey"
+            columns: ["merged_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_merges_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_merges_unmerged_by_fkey"
+            columns: ["unmerged_by"]
+            isOneToOne: false
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
         ]
@@ -2532,6 +3139,54 @@ export type Database = {
           },
         ]
       }
+      lead_saved_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          is_shared: boolean
+          name: string
+          organization_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_shared?: boolean
+          name: string
+          organization_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_shared?: boolean
+          name?: string
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_saved_views_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_saved_views_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       leads: {
         Row: {
           ai_brief: string | null
@@ -2910,40 +3565,86 @@ export type Database = {
           },
         ]
       }
-      notifications: {
+      listing_alert_events: {
         Row: {
-          category: string | null
-          created_at: string | null
-          email_sent: boolean | null
+          created_at: string
           id: string
-          is_read: boolean | null
-          link: string | null
-          message: string
           organization_id: string
-          read_at: string | null
-          related_lead_id: string | null
-          related_property_id: string | null
-          related_showing_id: string | null
-          sms_sent: boolean | null
-          title: string
-          type: string
-          user_id: string
+          processed_at: string | null
+          property_id: string
         }
         Insert: {
-          category?: string | null
-          created_at?: string | null
-          email_sent?: boolean | null
+          created_at?: string
           id?: string
-          is_read?: boolean | null
-          link?: string | null
-          message: string
           organization_id: string
-          read_at?: string | null
-          related_lead_id?: string | null
-          related_property_id?: string | null
-          related_showing_id?: string | null
-          sms_sent?: boolean | null
-          title: string
+          processed_at?: string | null
+          property_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization_id?: string
+          processed_at?: string | null
+          property_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "listing_alert_events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "listing_alert_events_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "listing_alert_events_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "property_performance"
+            referencedColumns: ["property_id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          category: string | null
+          created_at: string | null
+          email_sent: boolean | null
+          id: string
+          is_read: boolean | null
+          link: string | null
+          message: string
+          organization_id: string
+          read_at: string | null
+          related_lead_id: string | null
+          related_property_id: string | null
+          related_showing_id: string | null
+          sms_sent: boolean | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string | null
+          email_sent?: boolean | null
+          id?: string
+          is_read?: boolean | null
+          link?: string | null
+          message: string
+          organization_id: string
+          read_at?: string | null
+          related_lead_id?: string | null
+          related_property_id?: string | null
+          related_showing_id?: string | null
+          sms_sent?: boolean | null
+          title: string
           type?: string
           user_id: string
         }
@@ -3010,6 +3711,71 @@ export type Database = {
           },
         ]
       }
+      open_house_waitlist: {
+        Row: {
+          created_at: string
+          id: string
+          lead_id: string
+          notified_at: string | null
+          organization_id: string
+          promoted_at: string | null
+          showing_id: string | null
+          slot_id: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          lead_id: string
+          notified_at?: string | null
+          organization_id: string
+          promoted_at?: string | null
+          showing_id?: string | null
+          slot_id: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          lead_id?: string
+          notified_at?: string | null
+          organization_id?: string
+          promoted_at?: string | null
+          showing_id?: string | null
+          slot_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "open_house_waitlist_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "open_house_waitlist_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "open_house_waitlist_showing_id_fkey"
+            columns: ["showing_id"]
+            isOneToOne: false
+            referencedRelation: "showings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "open_house_waitlist_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "showing_available_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       organization_credentials: {
         Row: {
           bland_api_key: string | null
@@ -3305,10 +4071,12 @@ export type Database = {
           is_demo: boolean | null
           latitude: number | null
           listed_date: string | null
+          lockbox_id: string | null
           longitude: number | null
           managed_by: string | null
           market: string | null
           organization_id: string
+          overbook_high_risk: boolean
           owner_id: string | null
           pet_policy: string | null
           photos: Json | null
@@ -3317,6 +4085,8 @@ export type Database = {
           published_on: string[] | null
           rent_price: number
           section_8_accepted: boolean | null
+          self_guided: boolean
+          self_guided_instructions: string | null
           self_payment_accepted: boolean
           special_notes: string | null
           square_feet: number | null
@@ -3351,10 +4121,12 @@ export type Database = {
           is_demo?: boolean | null
           latitude?: number | null
           listed_date?: string | null
+          lockbox_id?: string | null
           longitude?: number | null
           managed_by?: string | null
           market?: string | null
           organization_id: string
+          overbook_high_risk?: boolean
           owner_id?: string | null
           pet_policy?: string | null
           photos?: Json | null
@@ -3363,6 +4135,8 @@ export type Database = {
           published_on?: string[] | null
           rent_price: number
           section_8_accepted?: boolean | null
+          self_guided?: boolean
+          self_guided_instructions?: string | null
           self_payment_accepted?: boolean
           special_notes?: string | null
           square_feet?: number | null
@@ -3397,10 +4171,12 @@ export type Database = {
           is_demo?: boolean | null
           latitude?: number | null
           listed_date?: string | null
+          lockbox_id?: string | null
           longitude?: number | null
           managed_by?: string | null
           market?: string | null
           organization_id?: string
+          overbook_high_risk?: boolean
           owner_id?: string | null
           pet_policy?: string | null
           photos?: Json | null
@@ -3409,6 +4185,8 @@ export type Database = {
           published_on?: string[] | null
           rent_price?: number
           section_8_accepted?: boolean | null
+          self_guided?: boolean
+          self_guided_instructions?: string | null
           self_payment_accepted?: boolean
           special_notes?: string | null
           square_feet?: number | null
@@ -3839,117 +4617,749 @@ export type Database = {
             foreignKeyName: "report_favorites_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      section8_requests: {
+        Row: {
+          agency: string
+          bedrooms: number
+          created_at: string | null
+          email: string
+          full_name: string
+          id: string
+          notes: string | null
+          phone: string
+          status: string
+        }
+        Insert: {
+          agency: string
+          bedrooms: number
+          created_at?: string | null
+          email: string
+          full_name: string
+          id?: string
+          notes?: string | null
+          phone: string
+          status?: string
+        }
+        Update: {
+          agency?: string
+          bedrooms?: number
+          created_at?: string | null
+          email?: string
+          full_name?: string
+          id?: string
+          notes?: string | null
+          phone?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      saved_searches: {
+        Row: {
+          active: boolean
+          created_at: string
+          criteria: Json
+          email: string
+          id: string
+          last_notified_at: string | null
+          lead_id: string
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          criteria?: Json
+          email: string
+          id?: string
+          last_notified_at?: string | null
+          lead_id: string
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          criteria?: Json
+          email?: string
+          id?: string
+          last_notified_at?: string | null
+          lead_id?: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_searches_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_searches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      showing_access_codes: {
+        Row: {
+          checked_out_at: string | null
+          code: string
+          created_at: string
+          external_id: string | null
+          id: string
+          organization_id: string
+          property_id: string | null
+          provider: string
+          revoked_at: string | null
+          showing_id: string
+          valid_from: string
+          valid_until: string
+        }
+        Insert: {
+          checked_out_at?: string | null
+          code: string
+          created_at?: string
+          external_id?: string | null
+          id?: string
+          organization_id: string
+          property_id?: string | null
+          provider: string
+          revoked_at?: string | null
+          showing_id: string
+          valid_from: string
+          valid_until: string
+        }
+        Update: {
+          checked_out_at?: string | null
+          code?: string
+          created_at?: string
+          external_id?: string | null
+          id?: string
+          organization_id?: string
+          property_id?: string | null
+          provider?: string
+          revoked_at?: string | null
+          showing_id?: string
+          valid_from?: string
+          valid_until?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "showing_access_codes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_access_codes_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_access_codes_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "property_performance"
+            referencedColumns: ["property_id"]
+          },
+          {
+            foreignKeyName: "showing_access_codes_showing_id_fkey"
+            columns: ["showing_id"]
+            isOneToOne: true
+            referencedRelation: "showings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      showing_agent_hours: {
+        Row: {
+          agent_id: string
+          end_time: string
+          id: string
+          organization_id: string
+          start_time: string
+          weekday: number
+        }
+        Insert: {
+          agent_id: string
+          end_time: string
+          id?: string
+          organization_id: string
+          start_time: string
+          weekday: number
+        }
+        Update: {
+          agent_id?: string
+          end_time?: string
+          id?: string
+          organization_id?: string
+          start_time?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "showing_agent_hours_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "showing_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_agent_hours_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      showing_agent_time_off: {
+        Row: {
+          agent_id: string
+          created_at: string
+          ends_on: string
+          id: string
+          note: string | null
+          organization_id: string
+          starts_on: string
+        }
+        Insert: {
+          agent_id: string
+          created_at?: string
+          ends_on: string
+          id?: string
+          note?: string | null
+          organization_id: string
+          starts_on: string
+        }
+        Update: {
+          agent_id?: string
+          created_at?: string
+          ends_on?: string
+          id?: string
+          note?: string | null
+          organization_id?: string
+          starts_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "showing_agent_time_off_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "showing_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_agent_time_off_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      showing_agents: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          last_assigned_at: string | null
+          markets: string[]
+          organization_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_assigned_at?: string | null
+          markets?: string[]
+          organization_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_assigned_at?: string | null
+          markets?: string[]
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "showing_agents_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_agents_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      showing_available_slots: {
+        Row: {
+          booked_at: string | null
+          booked_showing_id: string | null
+          capacity: number
+          closed_by_calendar: boolean
+          created_at: string | null
+          created_by: string | null
+          duration_minutes: number
+          id: string
+          is_booked: boolean
+          is_enabled: boolean
+          organization_id: string
+          overbook_showing_id: string | null
+          property_id: string
+          slot_date: string
+          slot_time: string
+          template_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          booked_at?: string | null
+          booked_showing_id?: string | null
+          capacity?: number
+          closed_by_calendar?: boolean
+          created_at?: string | null
+          created_by?: string | null
+          duration_minutes?: number
+          id?: string
+          is_booked?: boolean
+          is_enabled?: boolean
+          organization_id: string
+          overbook_showing_id?: string | null
+          property_id: string
+          slot_date: string
+          slot_time: string
+          template_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          booked_at?: string | null
+          booked_showing_id?: string | null
+          capacity?: number
+          closed_by_calendar?: boolean
+          created_at?: string | null
+          created_by?: string | null
+          duration_minutes?: number
+          id?: string
+          is_booked?: boolean
+          is_enabled?: boolean
+          organization_id?: string
+          overbook_showing_id?: string | null
+          property_id?: string
+          slot_date?: string
+          slot_time?: string
+          template_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "showing_available_slots_booked_showing_id_fkey"
+            columns: ["booked_showing_id"]
+            isOneToOne: false
+            referencedRelation: "showings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_available_slots_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_available_slots_overbook_showing_id_fkey"
+            columns: ["overbook_showing_id"]
+            isOneToOne: false
+            referencedRelation: "showings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_available_slots_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_available_slots_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "property_performance"
+            referencedColumns: ["property_id"]
+          },
+          {
+            foreignKeyName: "showing_available_slots_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "showing_slot_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      showing_calendar_events: {
+        Row: {
+          calendar_id: string
+          duration_minutes: number
+          etag: string | null
+          event_uid: string
+          scheduled_at: string
+          showing_id: string
+          synced_at: string
+        }
+        Insert: {
+          calendar_id: string
+          duration_minutes: number
+          etag?: string | null
+          event_uid: string
+          scheduled_at: string
+          showing_id: string
+          synced_at?: string
+        }
+        Update: {
+          calendar_id?: string
+          duration_minutes?: number
+          etag?: string | null
+          event_uid?: string
+          scheduled_at?: string
+          showing_id?: string
+          synced_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "showing_calendar_events_calendar_id_fkey"
+            columns: ["calendar_id"]
+            isOneToOne: false
+            referencedRelation: "agent_calendars"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_calendar_events_showing_id_fkey"
+            columns: ["showing_id"]
+            isOneToOne: false
+            referencedRelation: "showings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      showing_slot_template_exceptions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          exception_date: string
+          id: string
+          note: string | null
+          organization_id: string
+          template_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          exception_date: string
+          id?: string
+          note?: string | null
+          organization_id: string
+          template_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          exception_date?: string
+          id?: string
+          note?: string | null
+          organization_id?: string
+          template_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "showing_slot_template_exceptions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_slot_template_exceptions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_slot_template_exceptions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "showing_slot_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      showing_slot_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          end_time: string
+          ends_on: string | null
+          id: string
+          is_active: boolean
+          name: string
+          organization_id: string
+          property_ids: string[]
+          start_time: string
+          starts_on: string
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          end_time: string
+          ends_on?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          organization_id: string
+          property_ids?: string[]
+          start_time: string
+          starts_on?: string
+          updated_at?: string
+          weekdays: number[]
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          end_time?: string
+          ends_on?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          organization_id?: string
+          property_ids?: string[]
+          start_time?: string
+          starts_on?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "showing_slot_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_slot_templates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      showing_surveys: {
+        Row: {
+          apply_likelihood: number
+          comments: string | null
+          condition_rating: number
+          id: string
+          lead_id: string | null
+          neighborhood_fit: number
+          organization_id: string
+          price_perception: string
+          property_id: string
+          showing_id: string
+          submitted_at: string
+        }
+        Insert: {
+          apply_likelihood: number
+          comments?: string | null
+          condition_rating: number
+          id?: string
+          lead_id?: string | null
+          neighborhood_fit: number
+          organization_id: string
+          price_perception: string
+          property_id: string
+          showing_id: string
+          submitted_at?: string
+        }
+        Update: {
+          apply_likelihood?: number
+          comments?: string | null
+          condition_rating?: number
+          id?: string
+          lead_id?: string | null
+          neighborhood_fit?: number
+          organization_id?: string
+          price_perception?: string
+          property_id?: string
+          showing_id?: string
+          submitted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "showing_surveys_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_surveys_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_surveys_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_surveys_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "property_performance"
+            referencedColumns: ["property_id"]
+          },
+          {
+            foreignKeyName: "showing_surveys_showing_id_fkey"
+            columns: ["showing_id"]
+            isOneToOne: true
+            referencedRelation: "showings"
             referencedColumns: ["id"]
           },
         ]
       }
-      section8_requests: {
+      showing_waitlist: {
         Row: {
-          agency: string
-          bedrooms: number
-          created_at: string | null
+          created_at: string
           email: string
-          full_name: string
           id: string
-          notes: string | null
-          phone: string
+          lead_id: string
+          notified_at: string | null
+          organization_id: string
+          property_id: string
           status: string
         }
         Insert: {
-          agency: string
-          bedrooms: number
-          created_at?: string | null
+          created_at?: string
           email: string
-          full_name: string
           id?: string
-          notes?: string | null
-          phone: string
+          lead_id: string
+          notified_at?: string | null
+          organization_id: string
+          property_id: string
           status?: string
         }
         Update: {
-          agency?: string
-          bedrooms?: number
-          created_at?: string | null
+          created_at?: string
           email?: string
-          full_name?: string
           id?: string
-          notes?: string | null
-          phone?: string
+          lead_id?: string
+          notified_at?: string | null
+          organization_id?: string
+          property_id?: string
           status?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "showing_waitlist_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_waitlist_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_waitlist_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "showing_waitlist_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "property_performance"
+            referencedColumns: ["property_id"]
+          },
+        ]
       }
-      showing_available_slots: {
+      showing_waitlist_events: {
         Row: {
-          booked_at: string | null
-          booked_showing_id: string | null
-          created_at: string | null
-          created_by: string | null
-          duration_minutes: number
+          created_at: string
           id: string
-          is_booked: boolean
-          is_enabled: boolean
           organization_id: string
+          processed_at: string | null
           property_id: string
-          slot_date: string
-          slot_time: string
-          updated_at: string | null
         }
         Insert: {
-          booked_at?: string | null
-          booked_showing_id?: string | null
-          created_at?: string | null
-          created_by?: string | null
-          duration_minutes?: number
+          created_at?: string
           id?: string
-          is_booked?: boolean
-          is_enabled?: boolean
           organization_id: string
+          processed_at?: string | null
           property_id: string
-          slot_date: string
-          slot_time: string
-          updated_at?: string | null
         }
         Update: {
-          booked_at?: string | null
-          booked_showing_id?: string | null
-          created_at?: string | null
-          created_by?: string | null
-          duration_minutes?: number
+          created_at?: string
           id?: string
-          is_booked?: boolean
-          is_enabled?: boolean
           organization_id?: string
+          processed_at?: string | null
           property_id?: string
-          slot_date?: string
-          slot_time?: string
-          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "showing_available_slots_booked_showing_id_fkey"
-            columns: ["booked_showing_id"]
-            isOneToOne: false
-            referencedRelation: "showings"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "showing_available_slots_organization_id_fkey"
+            foreignKeyName: "showing_waitlist_events_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "showing_available_slots_property_id_fkey"
+            foreignKeyName: "showing_waitlist_events_property_id_fkey"
             columns: ["property_id"]
             isOneToOne: false
             referencedRelation: "properties"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "showing_available_slots_property_id_fkey"
+            foreignKeyName: "showing_waitlist_events_property_id_fkey"
             columns: ["property_id"]
             isOneToOne: false
             referencedRelation: "property_performance"
@@ -3959,6 +5369,9 @@ export type Database = {
       }
       showings: {
         Row: {
+          agent_check_in_distance_m: number | null
+          agent_checked_in_at: string | null
+          agent_checked_in_by: string | null
           agent_report: string | null
           agent_report_photo_url: string | null
           booked_by: string | null
@@ -3977,15 +5390,21 @@ export type Database = {
           last_confirmation_attempt_at: string | null
           lead_id: string
           leasing_agent_id: string | null
+          open_house_slot_id: string | null
           organization_id: string
           property_id: string
+          prospect_arrived_at: string | null
           prospect_interest_level: string | null
           rescheduled_to_id: string | null
           scheduled_at: string
+          self_guided: boolean
           status: string
           updated_at: string | null
         }
         Insert: {
+          agent_check_in_distance_m?: number | null
+          agent_checked_in_at?: string | null
+          agent_checked_in_by?: string | null
           agent_report?: string | null
           agent_report_photo_url?: string | null
           booked_by?: string | null
@@ -4004,15 +5423,21 @@ export type Database = {
           last_confirmation_attempt_at?: string | null
           lead_id: string
           leasing_agent_id?: string | null
+          open_house_slot_id?: string | null
           organization_id: string
           property_id: string
+          prospect_arrived_at?: string | null
           prospect_interest_level?: string | null
           rescheduled_to_id?: string | null
           scheduled_at: string
+          self_guided?: boolean
           status?: string
           updated_at?: string | null
         }
         Update: {
+          agent_check_in_distance_m?: number | null
+          agent_checked_in_at?: string | null
+          agent_checked_in_by?: string | null
           agent_report?: string | null
           agent_report_photo_url?: string | null
           booked_by?: string | null
@@ -4031,15 +5456,25 @@ export type Database = {
           last_confirmation_attempt_at?: string | null
           lead_id?: string
           leasing_agent_id?: string | null
+          open_house_slot_id?: string | null
           organization_id?: string
           property_id?: string
+          prospect_arrived_at?: string | null
           prospect_interest_level?: string | null
           rescheduled_to_id?: string | null
           scheduled_at?: string
+          self_guided?: boolean
           status?: string
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "showings_agent_checked_in_by_fkey"
+            columns: ["agent_checked_in_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "showings_lead_id_fkey"
             columns: ["lead_id"]
@@ -4054,6 +5489,13 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "showings_open_house_slot_id_fkey"
+            columns: ["open_house_slot_id"]
+            isOneToOne: false
+            referencedRelation: "showing_available_slots"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "showings_organization_id_fkey"
             columns: ["organization_id"]
@@ -4357,6 +5799,7 @@ export type Database = {
           first_name: string
           id: string
           last_name: string
+          lead_id: string | null
           move_in_date: string | null
           move_out_date: string | null
           phone: string | null
@@ -4370,6 +5813,7 @@ export type Database = {
           first_name: string
           id?: string
           last_name: string
+          lead_id?: string | null
           move_in_date?: string | null
           move_out_date?: string | null
           phone?: string | null
@@ -4383,6 +5827,7 @@ export type Database = {
           first_name?: string
           id?: string
           last_name?: string
+          lead_id?: string | null
           move_in_date?: string | null
           move_out_date?: string | null
           phone?: string | null
@@ -4391,6 +5836,13 @@ export type Database = {
           unit_number?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "tenants_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tenants_property_id_fkey"
             columns: ["property_id"]
@@ -4409,24 +5861,33 @@ export type Database = {
       }
       ticket_messages: {
         Row: {
+          author_email: string | null
           created_at: string | null
+          direction: string
+          email_id: string | null
           id: string
           message: string
-          sender_id: string
+          sender_id: string | null
           ticket_id: string
         }
         Insert: {
+          author_email?: string | null
           created_at?: string | null
+          direction?: string
+          email_id?: string | null
           id?: string
           message: string
-          sender_id: string
+          sender_id?: string | null
           ticket_id: string
         }
         Update: {
+          author_email?: string | null
           created_at?: string | null
+          direction?: string
+          email_id?: string | null
           id?: string
           message?: string
-          sender_id?: string
+          sender_id?: string | null
           ticket_id?: string
         }
         Relationships: [
@@ -4434,7 +5895,7 @@ export type Database = {
             foreignKeyName: "ticket_messages_sender_id_fkey"
             columns: ["sender_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
           {
@@ -4450,37 +5911,61 @@ export type Database = {
         Row: {
           assigned_to: string | null
           created_at: string | null
-          created_by: string
+          created_by: string | null
           description: string
+          first_response_at: string | null
           id: string
+          last_message_at: string | null
+          number: number
+          organization_id: string | null
           priority: string
           property_id: string | null
+          requester_email: string | null
+          requester_name: string | null
+          resolved_at: string | null
           status: string
           subject: string
+          tenant_id: string | null
           updated_at: string | null
         }
         Insert: {
           assigned_to?: string | null
           created_at?: string | null
-          created_by: string
+          created_by?: string | null
           description?: string
+          first_response_at?: string | null
           id?: string
+          last_message_at?: string | null
+          number?: number
+          organization_id?: string | null
           priority?: string
           property_id?: string | null
+          requester_email?: string | null
+          requester_name?: string | null
+          resolved_at?: string | null
           status?: string
           subject: string
+          tenant_id?: string | null
           updated_at?: string | null
         }
         Update: {
           assigned_to?: string | null
           created_at?: string | null
-          created_by?: string
+          created_by?: string | null
           description?: string
+          first_response_at?: string | null
           id?: string
+          last_message_at?: string | null
+          number?: number
+          organization_id?: string | null
           priority?: string
           property_id?: string | null
+          requester_email?: string | null
+          requester_name?: string | null
+          resolved_at?: string | null
           status?: string
           subject?: string
+          tenant_id?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -4488,14 +5973,21 @@ export type Database = {
             foreignKeyName: "tickets_assigned_to_fkey"
             columns: ["assigned_to"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
           {
             foreignKeyName: "tickets_created_by_fkey"
             columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
@@ -4512,6 +6004,13 @@ export type Database = {
             referencedRelation: "property_performance"
             referencedColumns: ["property_id"]
           },
+          {
+            foreignKeyName: "tickets_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       transactions: {
@@ -5059,7 +6558,7 @@ export type Database = {
             foreignKeyName: "work_order_files_uploaded_by_fkey"
             columns: ["uploaded_by"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
           {
@@ -5076,15 +6575,18 @@ export type Database = {
           assigned_to: string | null
           completed_at: string | null
           created_at: string | null
-          created_by: string
+          created_by: string | null
           description: string
           evidence_uploaded_at: string | null
           id: string
+          number: number
           priority: string
           property_id: string
           resolution_notes: string | null
+          source: string
           status: string
           title: string
+          updated_at: string
           vendor_name: string | null
           vendor_phone: string | null
         }
@@ -5092,15 +6594,18 @@ export type Database = {
           assigned_to?: string | null
           completed_at?: string | null
           created_at?: string | null
-          created_by: string
+          created_by?: string | null
           description?: string
           evidence_uploaded_at?: string | null
           id?: string
+          number?: number
           priority?: string
           property_id: string
           resolution_notes?: string | null
+          source?: string
           status?: string
           title: string
+          updated_at?: string
           vendor_name?: string | null
           vendor_phone?: string | null
         }
@@ -5108,15 +6613,18 @@ export type Database = {
           assigned_to?: string | null
           completed_at?: string | null
           created_at?: string | null
-          created_by?: string
+          created_by?: string | null
           description?: string
           evidence_uploaded_at?: string | null
           id?: string
+          number?: number
           priority?: string
           property_id?: string
           resolution_notes?: string | null
+          source?: string
           status?: string
           title?: string
+          updated_at?: string
           vendor_name?: string | null
           vendor_phone?: string | null
         }
@@ -5125,14 +6633,14 @@ export type Database = {
             foreignKeyName: "work_orders_assigned_to_fkey"
             columns: ["assigned_to"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
           {
             foreignKeyName: "work_orders_created_by_fkey"
             columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
           {
@@ -5197,6 +6705,38 @@ export type Database = {
         Args: { p_lead_id: string; p_property_id: string; p_source?: string }
         Returns: string
       }
+      ab_pick_winner: {
+        Args: {
+          p_metric: string
+          p_min_delivered?: number
+          p_org: string
+          p_test: string
+          p_z?: number
+        }
+        Returns: string
+      }
+      ab_variant_counts: {
+        Args: { p_org: string; p_test: string }
+        Returns: {
+          booked: number
+          clicked: number
+          delivered: number
+          opened: number
+          sent: number
+          variant: string
+        }[]
+      }
+      ab_variant_results: {
+        Args: { p_org: string; p_test: string }
+        Returns: {
+          booked: number
+          clicked: number
+          delivered: number
+          opened: number
+          sent: number
+          variant: string
+        }[]
+      }
       agents_live_status: { Args: never; Returns: Json }
       analytics_email_campaigns: {
         Args: { p_bucket?: string; p_from: string; p_to: string }
@@ -5211,6 +6751,15 @@ export type Database = {
         }
         Returns: Json
       }
+      analytics_overview_base: {
+        Args: {
+          p_from: string
+          p_property?: string[]
+          p_source?: string
+          p_to: string
+        }
+        Returns: Json
+      }
       analytics_time_series: {
         Args: {
           p_bucket?: string
@@ -5228,11 +6777,24 @@ export type Database = {
           showings_scheduled: number
         }[]
       }
+      assign_leads: { Args: { p_lead_ids: string[] }; Returns: number }
+      bulk_lead_action: {
+        Args: { p_action: string; p_lead_ids: string[]; p_params?: Json }
+        Returns: Json
+      }
       can_manage_property_photos: {
         Args: { _auth_user_id: string }
         Returns: boolean
       }
       check_coming_soon_expiring: { Args: never; Returns: number }
+      choose_campaign_winner: {
+        Args: { p_campaign: string; p_variant: string }
+        Returns: number
+      }
+      claim_open_house_seat: {
+        Args: { p_showing: string; p_slot: string }
+        Returns: boolean
+      }
       claim_pending_tasks: {
         Args: { p_batch_size?: number; p_organization_id: string }
         Returns: {
@@ -5303,6 +6865,18 @@ export type Database = {
         }
         Returns: undefined
       }
+      create_lease_from_lead: {
+        Args: {
+          p_end_date: string
+          p_lead_id: string
+          p_monthly_rent: number
+          p_property_id: string
+          p_security_deposit: number
+          p_start_date: string
+          p_unit_number?: string
+        }
+        Returns: string
+      }
       dashboard_lead_charts: { Args: { p_days?: number }; Returns: Json }
       dashboard_live: { Args: never; Returns: Json }
       enroll_showing_nurture: {
@@ -5376,6 +6950,7 @@ export type Database = {
         }
         Returns: undefined
       }
+      insertable_columns: { Args: { p_table: unknown }; Returns: string }
       is_admin: { Args: never; Returns: boolean }
       is_editor_or_above: { Args: never; Returns: boolean }
       is_staff_role: { Args: never; Returns: boolean }
@@ -5389,6 +6964,14 @@ export type Database = {
         }
         Returns: Json
       }
+      lead_reference_columns: {
+        Args: never
+        Returns: {
+          column_name: string
+          key_column: string
+          table_name: string
+        }[]
+      }
       leasing_tracker_response_stats: {
         Args: { p_organization_id: string }
         Returns: Json
@@ -5435,6 +7018,10 @@ export type Database = {
         Args: { doorloop_status: string }
         Returns: string
       }
+      materialize_slot_templates: {
+        Args: { p_horizon_days?: number; p_template?: string }
+        Returns: number
+      }
       merge_leads: {
         Args: {
           p_field_overrides?: Json
@@ -5444,6 +7031,31 @@ export type Database = {
         }
         Returns: Json
       }
+      merge_leads_base: {
+        Args: {
+          p_field_overrides?: Json
+          p_loser_id: string
+          p_merged_by_user_id?: string
+          p_winner_id: string
+        }
+        Returns: Json
+      }
+      next_lead_assignee: {
+        Args: { p_agent_ids: string[]; p_org: string }
+        Returns: string
+      }
+      next_showing_agent: {
+        Args: {
+          p_duration_minutes?: number
+          p_group_property?: string
+          p_market: string
+          p_org: string
+          p_scheduled_at: string
+          p_slot_date: string
+          p_slot_time: string
+        }
+        Returns: string
+      }
       normalize_phone_e164: { Args: { p_phone: string }; Returns: string }
       nurture_health_check: {
         Args: { p_organization_id: string }
@@ -5464,6 +7076,18 @@ export type Database = {
           incomplete: number
         }[]
       }
+      org_uses_showing_agents: { Args: { p_org: string }; Returns: boolean }
+      open_house_slots: {
+        Args: { p_from: string; p_property: string; p_to: string }
+        Returns: {
+          capacity: number
+          seats_taken: number
+          slot_date: string
+          slot_id: string
+          slot_time: string
+          waiting: number
+        }[]
+      }
       pause_lead_agent_tasks: {
         Args: { _lead_id: string; _reason: string; _user_id: string }
         Returns: number
@@ -5497,14 +7121,26 @@ export type Database = {
         }
         Returns: Json
       }
+      promote_ab_winners: { Args: never; Returns: number }
+      refill_open_house: {
+        Args: { p_leaving: string; p_slot: string }
+        Returns: undefined
+      }
+      release_campaign_holdout: {
+        Args: { p_campaign: string; p_variant: string }
+        Returns: number
+      }
       report_flow_step_stats: {
         Args: { p_days?: number; p_org: string }
         Returns: {
+          ab_test: string | null
+          clicked: number
           delivered: number
           last_sent_at: string
           opened: number
           sent: number
           step_key: string
+          variant: string | null
         }[]
       }
       report_campaign_stats_all: {
@@ -5616,6 +7252,16 @@ export type Database = {
         Returns: undefined
       }
       task_queue_insights: { Args: never; Returns: Json }
+      showing_check_in: {
+        Args: {
+          p_accuracy_m?: number
+          p_event: string
+          p_latitude: number
+          p_longitude: number
+          p_showing_id: string
+        }
+        Returns: Json
+      }
       tenant_doc_path_allowed: {
         Args: { _bucket: string; _name: string; _user: string }
         Returns: boolean
@@ -5629,6 +7275,7 @@ export type Database = {
           property_id: string
         }[]
       }
+      unmerge_lead: { Args: { p_merge_id: string }; Returns: Json }
       unstick_processing_emails: { Args: never; Returns: undefined }
       user_has_property_access: {
         Args: { _auth_user_id: string; _property_id: string }
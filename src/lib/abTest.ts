@@ -0,0 +1,96 @@
+/**
+ * A/B testing for emails — the client half.
+ *
+ * The decision itself lives in SQL (`ab_pick_winner` / `promote_ab_winners`),
+ * so a closed tab never stalls a test. This file mirrors that math for the UI,
+ * so "leading" on screen means the same thing the cron will act on, and splits
+ * a campaign audience into test groups and a holdout.
+ *
+ * Variant "A" is always the original copy: `email_config` on a flow step, the
+ * base subject/HTML on a campaign. Alternatives are "B", "C", …
+ */
+
+export type AbMetric = "opened" | "clicked" | "booked";
+
+export const AB_METRIC_LABEL: Record<AbMetric, string> = {
+  opened: "Aperturas",
+  clicked: "Clics",
+  booked: "Visitas agendadas",
+};
+
+/** Same thresholds as public.ab_pick_winner — keep them in step. */
+export const AB_MIN_DELIVERED = 100;
+export const AB_Z_THRESHOLD = 1.96;
+
+export interface VariantResult {
+  variant: string;
+  delivered: number;
+  opened: number;
+  clicked: number;
+  booked: number;
+}
+
+export const nextVariantKey = (existing: string[]): string => {
+  for (let code = 66; code <= 90; code++) {
+    const key = String.fromCharCode(code);
+    if (!existing.includes(key)) return key;
+  }
+  return `V${existing.length + 1}`;
+};
+
+export const variantRate = (r: VariantResult, metric: AbMetric): number =>
+  r.delivered > 0 ? r[metric] / r.delivered : 0;
+
+/**
+ * Best variant and whether it is already a winner: a two-proportion z-test of
+ * the best against the runner-up, with a minimum sample on both. Returns null
+ * with fewer than two variants that have sends.
+ */
+export function abLeader(
+  results: VariantResult[],
+  metric: AbMetric,
+): { variant: string; z: number; significant: boolean } | null {
+  const ranked = results
+    .filter((r) => r.delivered > 0)
+    .sort((a, b) => variantRate(b, metric) - variantRate(a, metric));
+  if (ranked.length < 2) return null;
+  const [best, runner] = ranked;
+  const pool = (best[metric] + runner[metric]) / (best.delivered + runner.delivered);
+  const se = Math.sqrt(pool * (1 - pool) * (1 / best.delivered + 1 / runner.delivered));
+  const z = se > 0 ? (variantRate(best, metric) - variantRate(runner, metric)) / se : 0;
+  return {
+    variant: best.variant,
+    z,
+    significant: best.delivered >= AB_MIN_DELIVERED
+      && runner.delivered >= AB_MIN_DELIVERED
+      && z >= AB_Z_THRESHOLD,
+  };
+}
+
+/**
+ * Split an audience: a random `testFraction` of it is dealt round-robin across
+ * the variants, the rest is the holdout that later gets the winner. A fraction
+ * of 1 means "no holdout, just split everyone". The test group is never smaller
+ * than one recipient per variant.
+ */
+export function assignAbGroups<T>(
+  items: T[],
+  variantKeys: string[],
+  testFraction: number,
+  random: () => number = Math.random,
+): { assigned: Array<{ item: T; variant: string }>; held: T[] } {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  const testSize = testFraction >= 1
+    ? shuffled.length
+    : Math.min(shuffled.length, Math.max(variantKeys.length, Math.round(shuffled.length * testFraction)));
+  return {
+    assigned: shuffled.slice(0, testSize).map((item, i) => ({
+      item, variant: variantKeys[i % variantKeys.length],
+    })),
+    held: shuffled.slice(testSize),
+  };
+}
@@ -4,6 +4,14 @@
 const CITY_TZ: Record<string, string> = {
   // Ohio (Eastern)
   "Cleveland": "America/New_York",
+  "East Cleveland": "America/New_York",
+  "Cleveland Heights": "America/New_York",
+  "Shaker Heights": "America/New_York",
+  "Garfield Heights": "America/New_York",
+  "Maple Heights": "America/New_York",
+  "Warrensville Heights": "America/New_York",
+  "South Euclid": "America/New_York",
+  "Bedford": "America/New_York",
   "Akron": "America/New_York",
   "Elyria": "America/New_York",
   "Lorain": "America/New_York",
@@ -16,8 +24,13 @@ const CITY_TZ: Record<string, string> = {
   "Euclid": "America/New_York",
   "Mentor": "America/New_York",
   "Mansfield": "America/New_York",
+  "Cincinnati": "America/New_York",
+  "Dayton": "America/New_York",
   // Wisconsin (Central)
   "Milwaukee": "America/Chicago",
+  "West Allis": "America/Chicago",
+  "Wauwatosa": "America/Chicago",
+  "Greenfield": "America/Chicago",
   "Madison": "America/Chicago",
   "Green Bay": "America/Chicago",
   "Kenosha": "America/Chicago",
@@ -25,6 +38,7 @@ const CITY_TZ: Record<string, string> = {
   // Missouri (Central)
   "Saint Louis": "America/Chicago",
   "St. Louis": "America/Chicago",
+  "St Louis": "America/Chicago",
   "Kansas City": "America/Chicago",
   "Springfield": "America/Chicago",
   // Illinois (Central)
@@ -40,9 +54,13 @@ const CITY_TZ: Record<string, string> = {
 
 const DEFAULT_TZ = "America/New_York";
 
+// properties.city is typed by hand ("milwaukee ", "WEST ALLIS"), so match
+// ignoring case and surrounding spaces.
+const CITY_TZ_LOWER = new Map(Object.entries(CITY_TZ).map(([city, tz]) => [city.toLowerCase(), tz]));
+
 export function getTimezoneForCity(city: string | null | undefined): string {
   if (!city) return DEFAULT_TZ;
-  return CITY_TZ[city] || CITY_TZ[city.trim()] || DEFAULT_TZ;
+  return CITY_TZ_LOWER.get(city.trim().toLowerCase()) || DEFAULT_TZ;
 }
 
 /** Build a timezone-aware ISO string from a date + time in a given IANA timezone.
@@ -1,6 +1,7 @@
 // ── Email Template Config Types & Defaults ─────────────────────────────────
-// Used by the Email Templates editor (Nurturing Leads) and referenced by the
-// agent-task-dispatcher edge function for rendering custom templates.
+// Used by the Email Templates editor (Nurturing Leads) and, through the
+// generated copy in supabase/functions/_shared/generated/, by the
+// agent-task-dispatcher edge function. Keep it dependency-free.
 
 export type EmailTemplateType =
   | "welcome"
@@ -30,7 +31,24 @@ export interface EmailTemplateConfig {
   footerText: string;
 }
 
-export type EmailTemplatesMap = Partial<Record<EmailTemplateType, EmailTemplateConfig>>;
+export type EmailTemplateConfigs = Partial<Record<EmailTemplateType, EmailTemplateConfig>>;
+
+/** Languages a lead-facing email can go out in (leads.preferred_language). */
+export type EmailLanguage = "en" | "es";
+
+export const EMAIL_LANGUAGES: EmailLanguage[] = ["en", "es"];
+
+export const EMAIL_LANGUAGE_LABELS: Record<EmailLanguage, string> = {
+  en: "English",
+  es: "Español",
+};
+
+/**
+ * organization_settings.email_templates. English templates stay at the top
+ * level, where every saved map already has them; Spanish variants live under
+ * `es`, keyed the same way.
+ */
+export type EmailTemplatesMap = EmailTemplateConfigs & { es?: EmailTemplateConfigs };
 
 // ── Metadata for the editor UI ─────────────────────────────────────────────
 
@@ -118,6 +136,7 @@ export const TEMPLATE_VARIABLES: Record<EmailTemplateType, string[]> = {
     "{propertyAddress}",
     "{orgName}",
     "{senderDomain}",
+    "{surveyUrl}",
   ],
   cancelled_showing: [
     "{firstName}",
@@ -216,6 +235,7 @@ export const DEFAULT_CONFIGS: Record<EmailTemplateType, EmailTemplateConfig> = {
     ],
     buttons: [
       { text: "Start Application", url: "https://{senderDomain}/p/apply", style: "primary" },
+      { text: "Rate Your Tour (1 min)", url: "{surveyUrl}", style: "secondary" },
     ],
     showPropertyCard: false,
     showSteps: false,
@@ -258,6 +278,181 @@ export const DEFAULT_CONFIGS: Record<EmailTemplateType, EmailTemplateConfig> = {
   },
 };
 
+// ── Spanish defaults ───────────────────────────────────────────────────────
+// Same layout, buttons and variables as DEFAULT_CONFIGS; only the copy differs.
+
+export const DEFAULT_CONFIGS_ES: Record<EmailTemplateType, EmailTemplateConfig> = {
+  welcome: {
+    subject: "¡Bienvenido a {orgName}!",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Casas de alquiler de calidad en Cleveland",
+    bodyParagraphs: [
+      "¡Bienvenido, {firstName}!",
+      "Gracias por su interés en nuestras propiedades de alquiler. Nos da mucho gusto ayudarle a encontrar su próximo hogar en Cleveland.",
+    ],
+    buttons: [
+      { text: "Agendar una visita", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+      { text: "Aplicar ahora", url: "https://{senderDomain}/p/apply", style: "secondary" },
+    ],
+    showPropertyCard: true,
+    showSteps: true,
+    stepTexts: [
+      "Le mostraremos las propiedades disponibles que mejor le queden",
+      "Agende una visita cuando le convenga",
+      "¡Aplique en línea y múdese!",
+    ],
+    showSection8Badge: true,
+    footerText: "¿Preguntas? Simplemente responda a este correo — estamos para ayudarle.",
+  },
+  schedule_showing: {
+    subject: "Su visita le espera — ¡agéndela hoy!",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Agende su visita gratis",
+    bodyParagraphs: [
+      "¡Hola, {firstName}!",
+      "Las buenas casas no duran mucho — y tenemos el lugar perfecto esperándole.",
+      "Agende una visita gratis y sin compromiso para verlo en persona. ¡Los horarios se llenan rápido!",
+    ],
+    buttons: [
+      { text: "Agendar mi visita", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+    ],
+    showPropertyCard: true,
+    showSteps: false,
+    showSection8Badge: true,
+    footerText: "¿Preguntas? Responda a este correo o llámenos — estamos para ayudarle.",
+  },
+  showing_confirmation: {
+    subject: "Recordatorio de visita — {propertyAddress}",
+    headerTitle: "{orgName}",
+    bodyParagraphs: [
+      "Hola, {firstName}:",
+      "Le recordamos su próxima visita a {propertyAddress} el {showingDate}.",
+      "Por favor responda SÍ para confirmar, o llámenos si necesita cambiar la hora.",
+    ],
+    buttons: [],
+    showPropertyCard: true,
+    showSteps: false,
+    showSection8Badge: false,
+    footerText: "Responda a este correo o llámenos para cambiar la hora.",
+  },
+  no_show: {
+    subject: "Le extrañamos — {propertyAddress}",
+    headerTitle: "{orgName}",
+    bodyParagraphs: [
+      "Hola, {firstName}:",
+      "Vimos que no pudo llegar a la visita en {propertyAddress}. No se preocupe — ¡son cosas que pasan!",
+      "Con gusto la reprogramamos para un horario que le quede mejor.",
+    ],
+    buttons: [],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: false,
+    footerText: "Responda para reprogramar o llámenos cuando quiera.",
+  },
+  post_showing: {
+    subject: "Próximos pasos — {propertyAddress}",
+    headerTitle: "{orgName}",
+    bodyParagraphs: [
+      "Hola, {firstName}:",
+      "¡Gracias por visitar {propertyAddress} hoy! Esperamos que le haya gustado.",
+      "¿Listo para que sea su nuevo hogar? Empiece su solicitud en línea:",
+    ],
+    buttons: [
+      { text: "Empezar solicitud", url: "https://{senderDomain}/p/apply", style: "primary" },
+      { text: "Califique su visita (1 min)", url: "{surveyUrl}", style: "secondary" },
+    ],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: false,
+    footerText: "¿Tiene preguntas? Solo responda a este correo.",
+  },
+  cancelled_showing: {
+    subject: "Su visita fue cancelada — {propertyAddress}",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Disculpe las molestias",
+    bodyParagraphs: [
+      "Hola, {firstName}:",
+      "Su visita a {propertyAddress} fue cancelada. Le pedimos disculpas por las molestias.",
+      "Tenemos más propiedades disponibles — agende otra visita y le ayudamos a encontrar el hogar indicado.",
+    ],
+    buttons: [
+      { text: "Agendar otra visita", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+    ],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: true,
+    footerText: "¿Preguntas? Responda a este correo o llámenos — estamos para ayudarle.",
+  },
+  rescheduled_showing: {
+    subject: "Su visita fue reprogramada — {propertyAddress}",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Elija una nueva fecha y hora",
+    bodyParagraphs: [
+      "Hola, {firstName}:",
+      "Su visita a {propertyAddress} del {showingDate} fue reprogramada.",
+      "Por favor elija una nueva fecha y hora que le convenga:",
+    ],
+    buttons: [
+      { text: "Reprogramar visita", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+    ],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: true,
+    footerText: "¿Preguntas? Responda a este correo o llámenos — estamos para ayudarle.",
+  },
+};
+
+export const DEFAULT_CONFIGS_BY_LANGUAGE: Record<EmailLanguage, Record<EmailTemplateType, EmailTemplateConfig>> = {
+  en: DEFAULT_CONFIGS,
+  es: DEFAULT_CONFIGS_ES,
+};
+
+// ── Picking the template at send time ──────────────────────────────────────
+
+/** leads.preferred_language → the language to email in. Anything that isn't
+ * Spanish (including null on older leads) gets English. */
+export function emailLanguageFor(preferredLanguage: string | null | undefined): EmailLanguage {
+  return String(preferredLanguage || "").trim().toLowerCase().startsWith("es") ? "es" : "en";
+}
+
+export interface ResolvedEmailTemplate {
+  config: EmailTemplateConfig;
+  /** The language the chosen copy is written in — may be English for a
+   * Spanish-speaking lead (see resolveEmailTemplate). */
+  language: EmailLanguage;
+  /** True when the org saved this copy; false for the stock defaults. */
+  custom: boolean;
+}
+
+/**
+ * The copy to send for `type` to a lead who reads `language`:
+ *
+ * 1. the org's saved variant in that language;
+ * 2. the org's saved English template — an org that rewrote its English
+ *    email and has not written the Spanish one yet keeps its own wording
+ *    rather than our stock Spanish;
+ * 3. the stock default in that language.
+ */
+export function resolveEmailTemplate(
+  saved: EmailTemplatesMap | null | undefined,
+  type: EmailTemplateType,
+  language: EmailLanguage,
+): ResolvedEmailTemplate {
+  const variant = language === "es" ? saved?.es?.[type] : undefined;
+  if (variant) return { config: variant, language, custom: true };
+  const english = saved?.[type];
+  if (english) return { config: english, language: "en", custom: true };
+  return { config: DEFAULT_CONFIGS_BY_LANGUAGE[language][type], language, custom: false };
+}
+
+/** A showing time the way a Spanish email reads it, on the property's clock:
+ * "sábado, 15 de marzo, 2:00 p.m.". English callers keep their own formats. */
+export function formatShowingDateEs(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleString("es-US", {
+    timeZone, weekday: "long", month: "long", day: "numeric", hour: "numeric", minute: "2-digit",
+  });
+}
+
 // ── Sample variables for live preview ──────────────────────────────────────
 
 export const SAMPLE_VARIABLES: Record<string, string> = {
@@ -270,6 +465,7 @@ export const SAMPLE_VARIABLES: Record<string, string> = {
   "{showingDate}": "Saturday, March 15 at 2:00 PM",
   "{orgName}": "Rent Finder Cleveland",
   "{senderDomain}": "rentfindercleveland.com",
+  "{surveyUrl}": "https://rentfindercleveland.com/showing/survey",
 };
 
 // ── HTML Renderer ──────────────────────────────────────────────────────────
@@ -303,6 +499,39 @@ export const UNSUBSCRIBE_URL_PLACEHOLDER = "{{unsubscribe_url}}";
  * the org's real address (organizations.address/city/state/zip). */
 export const DEFAULT_MARKETING_POSTAL_ADDRESS = "Rent Finder Cleveland, Cleveland, OH";
 
+/** Fixed text the renderer adds around a template's own copy. */
+export const EMAIL_CHROME: Record<
+  EmailLanguage,
+  {
+    bed: string;
+    bath: string;
+    perMonth: string;
+    section8Badge: string;
+    marketingReason: string;
+    unsubscribe: string;
+    unsubscribeSuffix: string;
+  }
+> = {
+  en: {
+    bed: "bed",
+    bath: "bath",
+    perMonth: "/mo",
+    section8Badge: "Section 8 Vouchers Accepted",
+    marketingReason: "You are receiving this email because you inquired about a rental home with",
+    unsubscribe: "Unsubscribe",
+    unsubscribeSuffix: "from marketing emails.",
+  },
+  es: {
+    bed: "hab.",
+    bath: "baños",
+    perMonth: "/mes",
+    section8Badge: "Aceptamos vales de Sección 8",
+    marketingReason: "Recibe este correo porque preguntó por una casa de alquiler con",
+    unsubscribe: "Cancele su suscripción",
+    unsubscribeSuffix: "a los correos promocionales.",
+  },
+};
+
 export interface RenderEmailOptions {
   /** When true, append the CAN-SPAM marketing footer (postal address +
    * unsubscribe link). Leave false/undefined for transactional emails. */
@@ -313,6 +542,8 @@ export interface RenderEmailOptions {
    * {{unsubscribe_url}} placeholder is left intact for the sending edge
    * function to substitute (keeps the HMAC secret server-side only). */
   unsubscribeUrl?: string;
+  /** Language of the badge and marketing footer. Defaults to English. */
+  language?: EmailLanguage;
 }
 
 export function renderEmailHtml(
@@ -322,6 +553,7 @@ export function renderEmailHtml(
   options: RenderEmailOptions = {}
 ): string {
   const v = (text: string) => interpolate(text, variables);
+  const chrome = EMAIL_CHROME[options.language || "en"];
   const PRIMARY = "#4F46E5";
   const GOLD = "#ffb22c";
 
@@ -350,8 +582,8 @@ export function renderEmailHtml(
     ? `<div style="background:#EEF2FF;border-left:4px solid ${PRIMARY};border-radius:8px;padding:16px 20px;margin:20px 0;">
          <p style="margin:0;font-family:Montserrat,Arial,sans-serif;font-size:14px;color:#555;">
            <strong>${v("{propertyAddress}")}</strong><br/>
-           ${variables["{propertyBeds}"] ? `${v("{propertyBeds}")} bed / ${v("{propertyBaths}")} bath` : ""}
-           ${variables["{propertyRent}"] ? ` &middot; ${v("{propertyRent}")}/mo` : ""}
+           ${variables["{propertyBeds}"] ? `${v("{propertyBeds}")} ${chrome.bed} / ${v("{propertyBaths}")} ${chrome.bath}` : ""}
+           ${variables["{propertyRent}"] ? ` &middot; ${v("{propertyRent}")}${chrome.perMonth}` : ""}
          </p>
        </div>`
     : "";
@@ -381,7 +613,7 @@ export function renderEmailHtml(
   const section8Html = config.showSection8Badge
     ? `<div style="text-align:center;margin:20px 0;">
          <span style="display:inline-block;background:#e8f5e9;color:#2e7d32;font-family:Montserrat,Arial,sans-serif;font-size:13px;font-weight:600;padding:8px 18px;border-radius:20px;border:1px solid #c8e6c9;">
-           Section 8 Vouchers Accepted
+           ${chrome.section8Badge}
          </span>
        </div>`
     : "";
@@ -393,13 +625,13 @@ export function renderEmailHtml(
   const marketingFooterHtml = options.marketing
     ? `
         <p style="margin:14px 0 0;font-family:Montserrat,Arial,sans-serif;font-size:12px;line-height:1.5;color:#9ca3af;">
-          You are receiving this email because you inquired about a rental home with ${v(config.headerTitle)}.
+          ${chrome.marketingReason} ${v(config.headerTitle)}.
         </p>
         <p style="margin:6px 0 0;font-family:Montserrat,Arial,sans-serif;font-size:12px;line-height:1.5;color:#9ca3af;">
           ${escapeHtml(postalAddress)}
         </p>
         <p style="margin:6px 0 0;font-family:Montserrat,Arial,sans-serif;font-size:12px;line-height:1.5;color:#9ca3af;">
-          <a href="${unsubscribeUrl}" style="color:#6b7280;text-decoration:underline;">Unsubscribe</a> from marketing emails.
+          <a href="${unsubscribeUrl}" style="color:#6b7280;text-decoration:underline;">${chrome.unsubscribe}</a> ${chrome.unsubscribeSuffix}
         </p>`
     : "";
 
@@ -0,0 +1,110 @@
+// Lead ownership. New leads from every capture path go through
+// assign_leads(): rules send them to part of the pool by city, tagged
+// property, property group or source (first rule whose agents have room
+// wins); anything no rule takes is dealt round-robin across the whole pool.
+// Agents at their cap of open leads are skipped. Every change of owner lands
+// in lead_assignment_log.
+
+export type MatchType = "city" | "property" | "property_group" | "source";
+
+export const MATCH_TYPES: { value: MatchType; label: string; description: string }[] = [
+  {
+    value: "city",
+    label: "City",
+    description: "The lead's city, or the city of any home they asked about.",
+  },
+  {
+    value: "property",
+    label: "Property",
+    description: "Leads tagged with any of these homes.",
+  },
+  {
+    value: "property_group",
+    label: "Property group",
+    description: "Leads tagged with a home in any of these groups.",
+  },
+  {
+    value: "source",
+    label: "Source",
+    description: "Where the lead came from.",
+  },
+];
+
+// What the capture paths write to leads.source.
+export const RULE_SOURCES: { value: string; label: string }[] = [
+  { value: "website", label: "Website" },
+  { value: "hemlane_email", label: "Hemlane Email" },
+  { value: "hemlane", label: "Hemlane" },
+  { value: "csv_import", label: "CSV Import" },
+  { value: "campaign", label: "Campaign" },
+  { value: "manual", label: "Manual" },
+  { value: "zillow", label: "Zillow" },
+  { value: "referral", label: "Referral" },
+];
+
+export type AssignmentVia = "rule" | "round_robin" | "manual";
+
+export interface AssignmentRuleSummary {
+  name: string;
+  match_type: string;
+  match_values: string[];
+  /** users.id; empty = the whole pool. */
+  agent_ids: string[];
+}
+
+export interface AssignmentLogEntry {
+  from_user_id: string | null;
+  to_user_id: string | null;
+  via: string;
+  rule_name: string | null;
+  changed_by: string | null;
+}
+
+/** Cities typed as "Cleveland, akron\nLakewood" — trimmed, case-insensitively unique. */
+export function parseCities(text: string): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const raw of text.split(/[,\n]/)) {
+    const city = raw.trim().replace(/\s+/g, " ");
+    if (!city || seen.has(city.toLowerCase())) continue;
+    seen.add(city.toLowerCase());
+    out.push(city);
+  }
+  return out;
+}
+
+function orList(items: string[]): string {
+  if (items.length <= 1) return items[0] ?? "";
+  return `${items.slice(0, -1).join(", ")} or ${items[items.length - 1]}`;
+}
+
+/**
+ * One line for the rules list: "City is Cleveland or Akron → Ana, Luis".
+ * `nameOf` resolves property, group and user ids; unknown ids read as
+ * "(removed)".
+ */
+export function describeRule(rule: AssignmentRuleSummary, nameOf: (id: string) => string | undefined): string {
+  const label = MATCH_TYPES.find((m) => m.value === rule.match_type)?.label ?? rule.match_type;
+  const values = rule.match_values.map((v) =>
+    rule.match_type === "city"
+      ? v
+      : rule.match_type === "source"
+        ? RULE_SOURCES.find((s) => s.value === v)?.label ?? v
+        : nameOf(v) ?? "(removed)",
+  );
+  const who = rule.agent_ids.length ? rule.agent_ids.map((id) => nameOf(id) ?? "(removed)").join(", ") : "anyone in the pool";
+  return `${label} is ${orList(values) || "—"} → ${who}`;
+}
+
+/** A log row as a sentence: "Assigned to Ana by rule “Cleveland”". */
+export function describeAssignment(entry: AssignmentLogEntry, nameOf: (id: string) => string | undefined): string {
+  const name = (id: string | null) => (id ? nameOf(id) ?? "a former user" : "nobody");
+  let text: string;
+  if (!entry.to_user_id) text = `Unassigned from ${name(entry.from_user_id)}`;
+  else if (!entry.from_user_id) text = `Assigned to ${name(entry.to_user_id)}`;
+  else text = `Reassigned from ${name(entry.from_user_id)} to ${name(entry.to_user_id)}`;
+
+  if (entry.via === "rule") return `${text} by rule “${entry.rule_name ?? "deleted rule"}”`;
+  if (entry.via === "round_robin") return `${text} by round-robin`;
+  return entry.changed_by ? `${text} by ${name(entry.changed_by)}` : text;
+}
@@ -1,10 +1,12 @@
 // Shared lead de-duplication logic — a single source of truth so the Nurturing
 // dashboard widget and the Duplicates tab always agree on the count.
 //
-// Groups leads via union-find across three strategies: same phone, same email,
-// or same name + any shared tagged property. Callers MUST pass the FULL lead set
-// (paginate past PostgREST's 1000-row cap) — otherwise the result is silently
-// undercounted, which is exactly the bug this file was created to fix.
+// detectDuplicates groups leads via union-find across three strategies: same
+// phone, same email, or same name + any shared tagged property.
+// findDuplicatePairs scores pairs on fuzzier evidence for the review queue.
+// Callers MUST pass the FULL lead set (paginate past PostgREST's 1000-row
+// cap) — otherwise the result is silently undercounted, which is exactly the
+// bug this file was created to fix.
 
 export interface DedupLead {
   id: string;
@@ -160,6 +162,380 @@ export function detectDuplicates<T extends DedupLead>(leads: T[]): DuplicateGrou
   return groups.sort((a, b) => b.leads.length - a.leads.length);
 }
 
+// ── Scored matching ──────────────────────────────────────────────────────
+// The exact-key grouping above can only say "same" or "not the same", so
+// anything fuzzier (Bill vs William, a mistyped phone, jdoe@gmail vs
+// jdoe@yahoo) was either missed or held for a blind manual look. The scorer
+// compares two leads signal by signal and adds up fixed points, keeping every
+// rule that fired as evidence so the reviewer sees WHY a pair was flagged.
+// Pairs are only ever compared inside a shared block (phone, phone with one
+// digit masked, email, email name, surname sound + first name), never all
+// against all.
+
+export type MatchSignal = "name" | "phone" | "email" | "property";
+export type MatchConfidence = "high" | "medium" | "low";
+
+export interface MatchEvidence {
+  signal: MatchSignal;
+  label: string;
+  /** Negative when the signal argues against a match. */
+  points: number;
+}
+
+export interface PairScore {
+  score: number;
+  confidence: MatchConfidence;
+  /** Every rule that moved the score, biggest first. */
+  evidence: MatchEvidence[];
+}
+
+export interface DuplicatePair<T extends DedupLead = DedupLead> extends PairScore {
+  key: string;
+  /** The older lead of the two — the default one to keep. */
+  a: T;
+  b: T;
+}
+
+export const DUPLICATE_HIGH = 75;
+export const DUPLICATE_MEDIUM = 50;
+/** Pairs below this are not worth a reviewer's time. */
+export const DUPLICATE_MIN_SCORE = 40;
+
+/** Blocks bigger than this are a shared office phone or a very common name,
+ * not one person — comparing everyone in them only floods the queue. */
+const MAX_BLOCK = 25;
+
+// Same person, different spelling on the form. Kept to names we actually see
+// in the lead list (English and Spanish); a name may sit in more than one row.
+const NICKNAME_GROUPS: string[][] = [
+  ["william", "will", "bill", "billy", "willie", "liam"],
+  ["robert", "rob", "robbie", "bob", "bobby"],
+  ["richard", "rich", "rick", "ricky", "dick"],
+  ["james", "jim", "jimmy", "jamie"],
+  ["john", "johnny", "jon", "jack"],
+  ["michael", "mike", "mikey", "mick"],
+  ["christopher", "chris", "topher"],
+  ["christina", "christine", "chris", "tina", "chrissy"],
+  ["joseph", "joe", "joey"],
+  ["thomas", "tom", "tommy"],
+  ["anthony", "tony"],
+  ["daniel", "dan", "danny"],
+  ["david", "dave", "davey"],
+  ["edward", "ed", "eddie", "ted"],
+  ["charles", "charlie", "chuck"],
+  ["kenneth", "ken", "kenny"],
+  ["steven", "stephen", "steve"],
+  ["timothy", "tim", "timmy"],
+  ["matthew", "matt"],
+  ["nicholas", "nick", "nicky"],
+  ["benjamin", "ben", "benny"],
+  ["samuel", "sam", "sammy"],
+  ["samantha", "sam", "sammy"],
+  ["alexander", "alex", "al"],
+  ["alexandra", "alex", "alexa", "sandra", "sandy"],
+  ["elizabeth", "liz", "lizzy", "beth", "betty", "eliza", "elisa"],
+  ["katherine", "catherine", "kathryn", "kate", "katie", "kathy", "cathy", "kat"],
+  ["jennifer", "jen", "jenny"],
+  ["jessica", "jess", "jessie"],
+  ["margaret", "maggie", "peggy", "meg"],
+  ["patricia", "pat", "patty", "tricia", "trish"],
+  ["patrick", "pat"],
+  ["rebecca", "becky", "becca"],
+  ["deborah", "debra", "debbie", "deb"],
+  ["victoria", "vicky", "tori"],
+  ["tiffany", "tiff"],
+  ["latoya", "toya"],
+  ["tamika", "mika"],
+  ["demetrius", "meech"],
+  ["jose", "pepe", "chepe"],
+  ["francisco", "paco", "pancho", "frank", "frankie"],
+  ["guadalupe", "lupe", "lupita"],
+  ["jesus", "chuy"],
+  ["ignacio", "nacho"],
+  ["enrique", "kike", "quique"],
+  ["manuel", "manny", "manolo"],
+  ["roberto", "beto", "tito"],
+  ["alberto", "beto", "al"],
+  ["alejandro", "alex", "ale", "jandro"],
+  ["alejandra", "alex", "ale"],
+  ["eduardo", "lalo", "eddie"],
+  ["guillermo", "memo", "willy"],
+  ["fernando", "nando"],
+  ["gerardo", "jerry"],
+  ["rosario", "charo"],
+  ["dolores", "lola"],
+  ["concepcion", "concha", "conchita"],
+  ["maria", "mari"],
+];
+
+const NICKNAME_INDEX: Map<string, number[]> = (() => {
+  const index = new Map<string, number[]>();
+  NICKNAME_GROUPS.forEach((group, i) => {
+    for (const name of group) index.set(name, [...(index.get(name) || []), i]);
+  });
+  return index;
+})();
+
+function isNickname(a: string, b: string): boolean {
+  const ga = NICKNAME_INDEX.get(a);
+  const gb = NICKNAME_INDEX.get(b);
+  return !!ga && !!gb && ga.some((g) => gb.includes(g));
+}
+
+/** Jaro-Winkler similarity, 0–1. Forgiving of typos and dropped letters near
+ * the end, strict about the first few characters. */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/** American Soundex ("Smith" and "Smyth" → S530), for blocking only. */
+function soundex(word: string): string {
+  const codes: Record<string, string> = {
+    b: "1", f: "1", p: "1", v: "1",
+    c: "2", g: "2", j: "2", k: "2", q: "2", s: "2", x: "2", z: "2",
+    d: "3", t: "3", l: "4", m: "5", n: "5", r: "6",
+  };
+  let out = word[0] || "";
+  let last = codes[out] || "";
+  for (const ch of word.slice(1)) {
+    const code = codes[ch] || "";
+    if (code && code !== last) out += code;
+    if (ch !== "h" && ch !== "w") last = code;
+  }
+  return (out + "000").slice(0, 4);
+}
+
+interface ParsedName {
+  first: string;
+  /** Every token after the first — Spanish leads often give both surnames. */
+  surnames: string[];
+}
+
+function parseName(name: string | null): ParsedName | null {
+  const tokens = (name || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  if (tokens.length === 0 || tokens.join("").length <= 2) return null;
+  return { first: tokens[0], surnames: tokens.slice(1) };
+}
+
+const SIMILAR = 0.9;
+
+type FirstNameMatch = "same" | "nickname" | "similar" | "initial" | "different";
+
+function compareFirst(a: string, b: string): FirstNameMatch {
+  if (a === b) return "same";
+  if (isNickname(a, b)) return "nickname";
+  if ((a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b))) return "initial";
+  if (Math.min(a.length, b.length) >= 4 && jaroWinkler(a, b) >= SIMILAR) return "similar";
+  return "different";
+}
+
+type SurnameMatch = "same" | "similar" | "missing" | "different";
+
+function compareSurnames(a: string[], b: string[]): SurnameMatch {
+  if (a.length === 0 || b.length === 0) return "missing";
+  if (a.some((s) => b.includes(s))) return "same";
+  if (a.some((s) => s.length >= 4 && b.some((t) => t.length >= 4 && jaroWinkler(s, t) >= SIMILAR))) return "similar";
+  return "different";
+}
+
+type PhoneMatch = "same" | "transposed" | "one_digit" | "different";
+
+function comparePhones(a: string, b: string): PhoneMatch {
+  if (a === b) return "same";
+  const diff: number[] = [];
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) diff.push(i);
+  if (diff.length === 1) return "one_digit";
+  if (diff.length === 2 && diff[1] === diff[0] + 1 && a[diff[0]] === b[diff[1]] && a[diff[1]] === b[diff[0]]) {
+    return "transposed";
+  }
+  return "different";
+}
+
+/** The part of an address a person actually picks: no +tag, no dots. */
+function emailLocalPart(email: string): string {
+  return email.split("@")[0].split("+")[0].replace(/\./g, "");
+}
+
+const display = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+export function confidenceFor(score: number): MatchConfidence {
+  if (score >= DUPLICATE_HIGH) return "high";
+  if (score >= DUPLICATE_MEDIUM) return "medium";
+  return "low";
+}
+
+/** Score how likely two leads are the same person, with the evidence. */
+export function scorePair(a: DedupLead, b: DedupLead): PairScore {
+  const evidence: MatchEvidence[] = [];
+  const add = (signal: MatchSignal, label: string, points: number) => evidence.push({ signal, label, points });
+
+  const phoneA = normalizePhone(a.phone);
+  const phoneB = normalizePhone(b.phone);
+  const phone = phoneA && phoneB ? comparePhones(phoneA, phoneB) : null;
+  if (phone === "same") add("phone", "Same phone", 45);
+  else if (phone === "transposed") add("phone", `Phones differ by two swapped digits (${phoneA} / ${phoneB})`, 30);
+  else if (phone === "one_digit") add("phone", `Phones differ by one digit (${phoneA} / ${phoneB})`, 20);
+  else if (phone === "different") add("phone", "Different phones", -10);
+
+  const emailA = normalizeEmail(a.email);
+  const emailB = normalizeEmail(b.email);
+  let sameEmail = false;
+  if (emailA && emailB) {
+    const localA = emailLocalPart(emailA);
+    const localB = emailLocalPart(emailB);
+    if (emailA === emailB) {
+      sameEmail = true;
+      add("email", "Same email", 45);
+    } else if (localA === localB && localA.length >= 4) {
+      add("email", `Same email name, different address (${emailA} / ${emailB})`, 25);
+    } else if (Math.min(localA.length, localB.length) >= 5 && jaroWinkler(localA, localB) >= 0.92) {
+      add("email", `Similar emails (${emailA} / ${emailB})`, 15);
+    }
+  }
+
+  const nameA = parseName(a.full_name);
+  const nameB = parseName(b.full_name);
+  if (nameA && nameB) {
+    const first = compareFirst(nameA.first, nameB.first);
+    const last = compareSurnames(nameA.surnames, nameB.surnames);
+    const firsts = `${display(nameA.first)} / ${display(nameB.first)}`;
+    const sharedContact = phone === "same" || sameEmail;
+    if (first === "same" && (last === "same" || (nameA.surnames.length === 0 && nameB.surnames.length === 0))) {
+      add("name", "Same name", 35);
+    } else if (first === "nickname" && last === "same") {
+      add("name", `Nickname of the same name (${firsts})`, 30);
+    } else if (first === "similar" && last === "same") {
+      add("name", `Similar first names (${firsts})`, 25);
+    } else if (first === "same" && last === "similar") {
+      add("name", `Similar last names (${nameA.surnames.join(" ")} / ${nameB.surnames.join(" ")})`, 25);
+    } else if ((first === "same" || first === "nickname") && last === "missing") {
+      add("name", "Same first name, one has no last name", 15);
+    } else if (first === "initial" && last === "same") {
+      add("name", `Initial matches first name (${firsts})`, 15);
+    } else if (first === "different" && last === "different") {
+      add("name", "Different names", -40);
+    } else if (first === "different" && sharedContact) {
+      // Spouses, parents and roommates share a phone or an email all the time.
+      add("name", `Different first names on a shared contact (${firsts}) — household?`, -35);
+    }
+  }
+
+  const sharedProperties = new Set(a.property_ids || []);
+  const shared = (b.property_ids || []).filter((id) => sharedProperties.has(id)).length;
+  if (shared > 0) add("property", `Interested in ${shared === 1 ? "the same property" : `${shared} of the same properties`}`, 10);
+
+  const score = Math.max(0, Math.min(100, evidence.reduce((sum, e) => sum + e.points, 0)));
+  evidence.sort((x, y) => Math.abs(y.points) - Math.abs(x.points));
+  return { score, confidence: confidenceFor(score), evidence };
+}
+
+/** Order-independent id for a pair — what a "not a duplicate" is stored under. */
+export function duplicatePairKey(idA: string, idB: string): string {
+  return idA < idB ? `${idA}|${idB}` : `${idB}|${idA}`;
+}
+
+function blockKeys(lead: DedupLead): string[] {
+  const keys: string[] = [];
+  const phone = normalizePhone(lead.phone);
+  if (phone) {
+    keys.push(`p|${phone}`);
+    for (let i = 0; i < phone.length; i++) {
+      // One digit mistyped: same number with that digit masked.
+      keys.push(`p${i}|${phone.slice(0, i)}${phone.slice(i + 1)}`);
+      // Two neighbours swapped: mask both, remember them as a set.
+      if (i < phone.length - 1) {
+        keys.push(`t${i}|${phone.slice(0, i)}${phone.slice(i + 2)}|${[phone[i], phone[i + 1]].sort().join("")}`);
+      }
+    }
+  }
+  const email = normalizeEmail(lead.email);
+  if (email) {
+    keys.push(`e|${email}`);
+    const local = emailLocalPart(email);
+    if (local.length >= 4) keys.push(`l|${local}`);
+  }
+  const name = parseName(lead.full_name);
+  if (name) {
+    const firsts = NICKNAME_INDEX.get(name.first)?.map((g) => `g${g}`) || [soundex(name.first)];
+    for (const surname of name.surnames.length ? name.surnames : [""]) {
+      for (const first of firsts) keys.push(`n|${surname && soundex(surname)}|${first}`);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Likely duplicate pairs, best first. Pairs already marked "not a duplicate"
+ * (by duplicatePairKey) are left out. As with detectDuplicates, pass the FULL
+ * lead set.
+ */
+export function findDuplicatePairs<T extends DedupLead>(
+  leads: T[],
+  options: { minScore?: number; dismissed?: Set<string> } = {},
+): DuplicatePair<T>[] {
+  const minScore = options.minScore ?? DUPLICATE_MIN_SCORE;
+  const blocks = new Map<string, T[]>();
+  for (const lead of leads) {
+    for (const key of new Set(blockKeys(lead))) {
+      const block = blocks.get(key);
+      if (block) block.push(lead);
+      else blocks.set(key, [lead]);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair<T>[] = [];
+  for (const block of blocks.values()) {
+    if (block.length < 2 || block.length > MAX_BLOCK) continue;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = duplicatePairKey(block[i].id, block[j].id);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        if (options.dismissed?.has(key)) continue;
+        const result = scorePair(block[i], block[j]);
+        if (result.score < minScore) continue;
+        const [a, b] = new Date(block[i].created_at || 0).getTime() <= new Date(block[j].created_at || 0).getTime()
+          ? [block[i], block[j]]
+          : [block[j], block[i]];
+        pairs.push({ key, a, b, ...result });
+      }
+    }
+  }
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
 // Fetch ALL non-lost leads for the given org, paginating past the 1000-row cap.
 // Returns the minimal columns dedup needs (callers can widen the select, but
 // must keep the lead_property_interests embed so property_ids stays populated).
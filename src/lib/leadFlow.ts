@@ -231,3 +231,81 @@ export const COPY_SOURCE_HELP: Record<CopySource, string> = {
   "code-only":
     "No hay plantilla para este correo: el texto vive dentro de la función y cambiarlo requiere desplegar.",
 };
+
+// ── Branching flows ───────────────────────────────────────────────────
+// Everything above maps the hardcoded path. What follows renders the EDITABLE
+// flows in `flow_steps`, which can now fork: a `wait_event` step holds the lead
+// until it does something (or a timeout passes) and the run continues on one of
+// two child lines. The dispatcher's handleFlowStep walks the same shape.
+
+export type FlowWaitEvent = "email_opened" | "showing_booked" | "reply_received";
+export type FlowBranchPath = "matched" | "timed_out";
+
+export const WAIT_EVENT_LABEL: Record<FlowWaitEvent, string> = {
+  email_opened: "Abre un correo",
+  showing_booked: "Reserva una visita",
+  reply_received: "Responde un correo",
+};
+
+export const BRANCH_PATH_LABEL: Record<FlowBranchPath, string> = {
+  matched: "Si lo hizo",
+  timed_out: "Si no lo hizo a tiempo",
+};
+
+/** The columns of a flow_steps row the tree needs. */
+export interface FlowStepShape {
+  id: string;
+  position: number;
+  step_type: string;
+  parent_step_id: string | null;
+  branch: string | null;
+}
+
+export interface FlowStepNode<T extends FlowStepShape> {
+  step: T;
+  /**
+   * A step placed after a wait on the same line. The run leaves the line at
+   * the wait, so the engine never reaches it — the editor says so instead of
+   * letting it look live.
+   */
+  unreachable: boolean;
+  /** Only for wait steps: the two lines a lead can continue on. */
+  branches: Record<FlowBranchPath, FlowStepNode<T>[]> | null;
+}
+
+/**
+ * Turn the flat flow_steps rows of ONE flow into its lines: the main line
+ * (parent_step_id null) with each wait step carrying its two branches, nested
+ * as deep as the data goes.
+ */
+export function buildFlowLines<T extends FlowStepShape>(
+  rows: T[],
+  parentStepId: string | null = null,
+  branch: FlowBranchPath | null = null,
+): FlowStepNode<T>[] {
+  const line = rows
+    .filter((r) => (r.parent_step_id ?? null) === parentStepId && (r.branch ?? null) === branch)
+    .sort((a, b) => a.position - b.position);
+
+  let forked = false;
+  return line.map((step) => {
+    const unreachable = forked;
+    const isWait = step.step_type === "wait_event";
+    if (isWait) forked = true;
+    return {
+      step,
+      unreachable,
+      branches: isWait
+        ? {
+            matched: buildFlowLines(rows, step.id, "matched"),
+            timed_out: buildFlowLines(rows, step.id, "timed_out"),
+          }
+        : null,
+    };
+  });
+}
+
+/** True when a line already forks, so new steps belong inside a branch. */
+export function lineForks<T extends FlowStepShape>(line: FlowStepNode<T>[]): boolean {
+  return line.some((n) => n.step.step_type === "wait_event");
+}
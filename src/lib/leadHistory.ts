@@ -0,0 +1,143 @@
+import { format } from "date-fns";
+
+// Field-level lead history. Every lead update leaves one lead_field_changes
+// row per changed column (track_lead_field_changes), with old and new value as
+// text — the same text Postgres gives for `to_jsonb(lead)->>column`. Walking
+// those back from the current row gives the lead as it was at any moment.
+
+export interface FieldChange {
+  id: string;
+  field_name: string;
+  old_value: string | null;
+  new_value: string | null;
+  change_source: string;
+  changed_by_agent: string | null;
+  changed_by_user_id: string | null;
+  created_at: string | null;
+}
+
+// The fields the "as of" view shows, in order. The trigger logs every column
+// except bookkeeping ones; these are the ones worth reading side by side.
+export const HISTORY_FIELDS: { field: string; label: string }[] = [
+  { field: "full_name", label: "Name" },
+  { field: "first_name", label: "First name" },
+  { field: "last_name", label: "Last name" },
+  { field: "email", label: "Email" },
+  { field: "phone", label: "Phone" },
+  { field: "whatsapp_number", label: "WhatsApp" },
+  { field: "status", label: "Status" },
+  { field: "source", label: "Source" },
+  { field: "source_detail", label: "Source detail" },
+  { field: "city", label: "City" },
+  { field: "move_in_date", label: "Move-in date" },
+  { field: "budget_min", label: "Budget min" },
+  { field: "budget_max", label: "Budget max" },
+  { field: "has_voucher", label: "Voucher" },
+  { field: "voucher_status", label: "Voucher status" },
+  { field: "voucher_amount", label: "Voucher amount" },
+  { field: "housing_authority", label: "Housing authority" },
+  { field: "preferred_language", label: "Language" },
+  { field: "contact_preference", label: "Contact preference" },
+  { field: "assigned_leasing_agent_id", label: "Owner" },
+  { field: "is_human_controlled", label: "Human controlled" },
+  { field: "do_not_contact", label: "Do not contact" },
+  { field: "sms_consent", label: "SMS consent" },
+  { field: "email_marketing_consent", label: "Email consent" },
+  { field: "unsubscribed_at", label: "Unsubscribed" },
+  { field: "lost_reason", label: "Lost reason" },
+  { field: "snoozed_until", label: "Snoozed until" },
+  { field: "doorloop_prospect_id", label: "DoorLoop prospect" },
+  { field: "hemlane_lead_id", label: "Hemlane lead" },
+];
+
+const FIELD_LABELS = new Map(HISTORY_FIELDS.map((f) => [f.field, f.label]));
+
+// change_source values written by the trigger: RPC names, edge-function
+// labels (_shared/leadAudit.ts) and the ui/system/database fallbacks.
+const SOURCE_LABELS: Record<string, string> = {
+  ui: "Edited in the app",
+  system: "System",
+  database: "Scheduled job",
+  hemlane_parser: "Hemlane parser",
+  task_dispatcher: "Task dispatcher",
+  doorloop_pull: "DoorLoop pull",
+  doorloop_push: "DoorLoop push",
+  sync_leads_to_doorloop: "DoorLoop sync",
+  merge_leads: "Merge",
+  unmerge_lead: "Merge undone",
+  bulk_lead_action: "Bulk action",
+  assign_leads: "Auto-assignment",
+  submit_inquiry: "Website inquiry",
+  book_public_showing: "Public booking",
+  capture_lead: "Lead capture",
+};
+
+const humanize = (key: string) => {
+  const s = key.replace(/_/g, " ").trim();
+  return s ? s.charAt(0).toUpperCase() + s.slice(1) : key;
+};
+
+export function fieldLabel(field: string): string {
+  return FIELD_LABELS.get(field) ?? humanize(field);
+}
+
+export function sourceLabel(source: string): string {
+  return SOURCE_LABELS[source] ?? humanize(source);
+}
+
+/** A logged value for display: booleans as Yes/No, dates readable, empty as —. */
+export function formatFieldValue(value: string | null): string {
+  if (value === null || value === "") return "—";
+  if (value === "true") return "Yes";
+  if (value === "false") return "No";
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return format(new Date(`${value}T00:00:00`), "MMM d, yyyy");
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) {
+    const d = new Date(value);
+    if (!Number.isNaN(d.getTime())) return format(d, "MMM d, yyyy h:mm a");
+  }
+  return value;
+}
+
+/** A lead row's values as the trigger logs them (`jsonb ->> column`). */
+export function loggedValues(row: Record<string, unknown>): Record<string, string | null> {
+  const values: Record<string, string | null> = {};
+  for (const [key, value] of Object.entries(row)) {
+    values[key] =
+      value === null || value === undefined ? null
+      : typeof value === "string" ? value
+      : typeof value === "number" || typeof value === "boolean" ? String(value)
+      : JSON.stringify(value);
+  }
+  return values;
+}
+
+/**
+ * The lead as it was at `at`: each field takes the old value of its first
+ * change after `at`, or its current value if it hasn't changed since.
+ * `changedSince` lists the fields that differ from now. Null when the lead
+ * didn't exist yet.
+ */
+export function leadAsOf(
+  current: Record<string, unknown>,
+  changes: Pick<FieldChange, "field_name" | "old_value" | "created_at">[],
+  at: Date,
+): { values: Record<string, string | null>; changedSince: Set<string> } | null {
+  const createdAt = typeof current.created_at === "string" ? new Date(current.created_at) : null;
+  if (createdAt && createdAt > at) return null;
+
+  const values = loggedValues(current);
+
+  const after = changes
+    .filter((c) => c.created_at && new Date(c.created_at) > at)
+    .sort((a, b) => new Date(a.created_at!).getTime() - new Date(b.created_at!).getTime());
+
+  const seen = new Set<string>();
+  const changedSince = new Set<string>();
+  for (const c of after) {
+    if (seen.has(c.field_name)) continue;
+    seen.add(c.field_name);
+    if (c.old_value !== values[c.field_name]) changedSince.add(c.field_name);
+    values[c.field_name] = c.old_value;
+  }
+  return { values, changedSince };
+}
@@ -7,6 +7,7 @@ export interface LeadSearchResult {
   full_name: string | null;
   phone: string | null;
   email: string | null;
+  preferred_language?: string | null;
 }
 
 /** Display name for a lead row, tolerant of split/legacy name fields. */
@@ -50,7 +51,7 @@ export async function searchLeads(
 
   const { data, error } = await supabase
     .from("leads")
-    .select("id, first_name, last_name, full_name, phone, email")
+    .select("id, first_name, last_name, full_name, phone, email, preferred_language")
     .eq("organization_id", organizationId)
     .or(ors.join(","))
     .order("full_name")
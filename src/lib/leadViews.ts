@@ -0,0 +1,122 @@
+import type { ActiveFilters } from "@/components/leads/LeadFilterPills";
+
+// Saved LeadsList views. A view is the list's whole filter state as JSON in
+// lead_saved_views.filters; LeadsList applies it with the same query builder
+// as the table, the CSV export and the bulk actions, so all four always see
+// the same leads. Views saved before a filter existed load with that
+// filter's default.
+
+export type LastContactWindow = "any" | "7d" | "30d" | "stale_30d" | "stale_90d" | "never";
+
+export const LAST_CONTACT_WINDOWS: { value: LastContactWindow; label: string }[] = [
+  { value: "any", label: "Any Last Contact" },
+  { value: "7d", label: "Contacted in 7 Days" },
+  { value: "30d", label: "Contacted in 30 Days" },
+  { value: "stale_30d", label: "No Contact 30+ Days" },
+  { value: "stale_90d", label: "No Contact 90+ Days" },
+  { value: "never", label: "Never Contacted" },
+];
+
+// Milestone score levels (compute_milestone_score): the score is the highest
+// milestone reached, so "at least" is the useful comparison.
+export const SCORE_LEVELS: { value: number; label: string }[] = [
+  { value: 10, label: "Had a Showing (10+)" },
+  { value: 50, label: "Scheduled (50+)" },
+  { value: 80, label: "Attended (80+)" },
+  { value: 100, label: "Applied (100)" },
+];
+
+export type ViewSortField = "full_name" | "status" | "created_at" | "last_contact_at";
+
+export interface LeadViewFilters {
+  status: string;
+  source: string;
+  /** Tagged property id, or "all". */
+  property: string;
+  /** City of a tagged property, or "all". */
+  city: string;
+  /** "all" | "mine" | "unassigned" | users.id */
+  owner: string;
+  /** Minimum lead_score; null = any. */
+  minScore: number | null;
+  lastContact: LastContactWindow;
+  search: string;
+  pills: ActiveFilters;
+  sort: { field: ViewSortField; direction: "asc" | "desc" };
+}
+
+export const DEFAULT_VIEW_FILTERS: LeadViewFilters = {
+  status: "all",
+  source: "all",
+  property: "all",
+  city: "all",
+  owner: "all",
+  minScore: null,
+  lastContact: "any",
+  search: "",
+  pills: { humanControlled: false, moveInSoon: false, section8: false, hasShowing: false, applicant: false },
+  sort: { field: "created_at", direction: "desc" },
+};
+
+const SORT_FIELDS: ViewSortField[] = ["full_name", "status", "created_at", "last_contact_at"];
+
+/** A stored view's filters, with anything missing or malformed at its default. */
+export function parseViewFilters(raw: unknown): LeadViewFilters {
+  const src = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const str = (key: keyof LeadViewFilters) => (typeof src[key] === "string" && src[key] ? (src[key] as string) : null);
+  const d = DEFAULT_VIEW_FILTERS;
+
+  const pillsIn = src.pills && typeof src.pills === "object" ? (src.pills as Record<string, unknown>) : {};
+  const pills = { ...d.pills };
+  for (const k of Object.keys(pills) as (keyof ActiveFilters)[]) pills[k] = pillsIn[k] === true;
+
+  const sortIn = src.sort && typeof src.sort === "object" ? (src.sort as Record<string, unknown>) : {};
+  const field = SORT_FIELDS.includes(sortIn.field as ViewSortField) ? (sortIn.field as ViewSortField) : d.sort.field;
+  const direction = sortIn.direction === "asc" || sortIn.direction === "desc" ? sortIn.direction : d.sort.direction;
+
+  const lastContact = LAST_CONTACT_WINDOWS.some((w) => w.value === src.lastContact)
+    ? (src.lastContact as LastContactWindow)
+    : d.lastContact;
+
+  return {
+    status: str("status") ?? d.status,
+    source: str("source") ?? d.source,
+    property: str("property") ?? d.property,
+    city: str("city") ?? d.city,
+    owner: str("owner") ?? d.owner,
+    minScore: typeof src.minScore === "number" && Number.isFinite(src.minScore) ? src.minScore : null,
+    lastContact,
+    search: typeof src.search === "string" ? src.search : "",
+    pills,
+    sort: { field, direction },
+  };
+}
+
+/** True when nothing narrows the list (sort aside). */
+export function isUnfiltered(f: LeadViewFilters): boolean {
+  return (
+    f.status === "all" && f.source === "all" && f.property === "all" && f.city === "all" &&
+    f.owner === "all" && f.minScore === null && f.lastContact === "any" && !f.search.trim() &&
+    !Object.values(f.pills).some(Boolean)
+  );
+}
+
+/**
+ * last_contact_at bounds for a window: `since` = contacted on or after,
+ * `before` = last contacted before (never-contacted leads count as stale),
+ * `never` = no contact at all.
+ */
+export function lastContactBounds(
+  window: LastContactWindow,
+  now: Date = new Date(),
+): { since?: string; before?: string; never?: boolean } {
+  const daysAgo = (n: number) => new Date(now.getTime() - n * 24 * 60 * 60 * 1000).toISOString();
+  switch (window) {
+    case "7d": return { since: daysAgo(7) };
+    case "30d": return { since: daysAgo(30) };
+    case "stale_30d": return { before: daysAgo(30) };
+    case "stale_90d": return { before: daysAgo(90) };
+    case "never": return { never: true };
+    default: return {};
+  }
+}
@@ -0,0 +1,77 @@
+import { addDays, addMonths, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+// The end of the funnel: an applicant becomes a tenant with a lease. All the
+// writes (tenant, lease, property → "rented", lead → "converted") happen in
+// create_lease_from_lead so a half-created lease can't leave a property
+// showing as available.
+
+export interface LeaseDraft {
+  leadId: string;
+  propertyId: string;
+  unitNumber: string | null;
+  startDate: string; // yyyy-MM-dd
+  endDate: string;   // yyyy-MM-dd
+  monthlyRent: number;
+  securityDeposit: number;
+}
+
+export interface LeadLease {
+  id: string;
+  start_date: string;
+  end_date: string;
+  monthly_rent: number;
+  security_deposit: number;
+  unit_number: string | null;
+  status: string;
+  property: { id: string; address: string; unit_number: string | null } | null;
+}
+
+/**
+ * A lease is offered once the lead applied (the applicant marker) or was moved
+ * to converted by hand — before that there is nobody to sign it.
+ */
+export function canCreateLease(lead: { status: string; applied_at?: string | null }): boolean {
+  return lead.status === "converted" || lead.status === "in_application" || !!lead.applied_at;
+}
+
+/** A 12-month lease starting on the 1st ends on the last day of month 12. */
+export function defaultLeaseEnd(startDate: string, months = 12): string {
+  return format(addDays(addMonths(parseISO(startDate), months), -1), "yyyy-MM-dd");
+}
+
+/** Returns the new lease id. */
+export async function createLeaseFromLead(draft: LeaseDraft): Promise<string> {
+  const { data, error } = await supabase.rpc("create_lease_from_lead", {
+    p_lead_id: draft.leadId,
+    p_property_id: draft.propertyId,
+    p_unit_number: draft.unitNumber ?? undefined,
+    p_start_date: draft.startDate,
+    p_end_date: draft.endDate,
+    p_monthly_rent: draft.monthlyRent,
+    p_security_deposit: draft.securityDeposit,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** The lead's most recent lease, if they became a tenant. */
+export async function fetchLeadLease(leadId: string): Promise<LeadLease | null> {
+  const { data: tenant, error } = await supabase
+    .from("tenants")
+    .select("id")
+    .eq("lead_id", leadId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!tenant) return null;
+
+  const { data: lease, error: leaseErr } = await supabase
+    .from("leases")
+    .select("id, start_date, end_date, monthly_rent, security_deposit, unit_number, status, property:properties(id, address, unit_number)")
+    .eq("tenant_id", tenant.id)
+    .order("start_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (leaseErr) throw leaseErr;
+  return (lease as LeadLease | null) ?? null;
+}
@@ -0,0 +1,77 @@
+// No-show risk for a booked showing: a handful of plain rules with fixed
+// points, so staff can see exactly why a tour is flagged. Used by the showing
+// dialog, and by book-public-showing to decide on an extra confirmation touch
+// and whether a home's slot may take a second booking.
+//
+// Fair Housing: the score looks only at how and when THIS tour was booked and
+// whether this renter kept earlier tours. Source of income (housing vouchers /
+// Section 8), household, name, language and any other protected attribute
+// must NOT influence it — the input type below carries none of them on
+// purpose, same rule as predict-conversion.
+//
+// Dependency-free on purpose: book-public-showing runs this same code from
+// supabase/functions/_shared/generated (npm run gen:edge-shared).
+
+export type NoShowRiskLevel = "low" | "medium" | "high";
+
+export interface NoShowRiskInput {
+  /** When the showing was booked (showings.created_at). */
+  bookedAt: string | Date;
+  scheduledAt: string | Date;
+  confirmed: boolean;
+  /** Confirmation emails sent without an answer yet. */
+  confirmationAttempts: number;
+  /** This renter's earlier showings marked no_show. */
+  priorNoShows: number;
+  /** showings.booking_source. */
+  bookingSource: string | null | undefined;
+}
+
+export interface NoShowRiskReason {
+  label: string;
+  points: number;
+}
+
+export interface NoShowRisk {
+  score: number;
+  level: NoShowRiskLevel;
+  /** Every rule that moved the score, biggest first. */
+  reasons: NoShowRiskReason[];
+}
+
+export const NO_SHOW_RISK_HIGH = 50;
+export const NO_SHOW_RISK_MEDIUM = 25;
+
+const HOUR = 60 * 60 * 1000;
+
+export function noShowRisk(input: NoShowRiskInput): NoShowRisk {
+  const reasons: NoShowRiskReason[] = [];
+  const add = (label: string, points: number) => reasons.push({ label, points });
+
+  // Lead time: the further out a tour was booked, the likelier plans change.
+  const leadHours = (new Date(input.scheduledAt).getTime() - new Date(input.bookedAt).getTime()) / HOUR;
+  if (leadHours > 7 * 24) add("Booked more than a week ahead", 30);
+  else if (leadHours > 3 * 24) add("Booked 3–7 days ahead", 20);
+  else if (leadHours > 24) add("Booked 1–3 days ahead", 10);
+
+  if (input.confirmed) add("Confirmed", -20);
+  else if (input.confirmationAttempts > 0) add("No answer to the confirmation", 25);
+  else add("Not confirmed yet", 10);
+
+  if (input.priorNoShows >= 2) add(`${input.priorNoShows} earlier no-shows`, 45);
+  else if (input.priorNoShows === 1) add("1 earlier no-show", 30);
+
+  // Channel: a tour booked with someone from the team has had a conversation
+  // behind it; a self-serve click has not.
+  if (input.bookingSource === "public_link") add("Self-booked online", 10);
+  else if (input.bookingSource === "open_house_waitlist") add("Booked from a waitlist", 15);
+
+  const score = Math.max(0, Math.min(100, reasons.reduce((sum, r) => sum + r.points, 0)));
+  const level: NoShowRiskLevel =
+    score >= NO_SHOW_RISK_HIGH ? "high" : score >= NO_SHOW_RISK_MEDIUM ? "medium" : "low";
+  return {
+    score,
+    level,
+    reasons: reasons.sort((a, b) => Math.abs(b.points) - Math.abs(a.points)),
+  };
+}
@@ -11,9 +11,12 @@ import {
 } from "./emailTemplates";
 import type { LeadShowingEmailData } from "./emailTemplates";
 import {
+  type EmailLanguage,
+  type EmailTemplatesMap,
   type EmailTemplateType,
-  DEFAULT_CONFIGS,
+  emailLanguageFor,
   renderEmailHtml,
+  resolveEmailTemplate,
 } from "./emailTemplateDefaults";
 
 // Default notification preferences
@@ -171,14 +174,18 @@ export async function fetchAvailableProperties(
 
 // Build "Other Available Properties" HTML block for branded templates
 function buildPropertyListHtml(
-  properties: LeadShowingEmailData["otherProperties"]
+  properties: LeadShowingEmailData["otherProperties"],
+  language: EmailLanguage = "en"
 ): string {
   if (properties.length === 0) return "";
   const PRIMARY = "#4F46E5";
+  const t = language === "es"
+    ? { title: "Otras propiedades disponibles", bed: "hab.", perMonth: "/mes", section8: "Acepta Sección 8" }
+    : { title: "Other Available Properties", bed: "bed", perMonth: "/mo", section8: "Section 8 OK" };
   return `
     <div style="margin:20px 0;">
       <p style="margin:0 0 10px;font-family:Montserrat,Arial,sans-serif;font-size:14px;font-weight:700;color:#333;">
-        Other Available Properties
+        ${t.title}
       </p>
       ${properties
         .map(
@@ -186,7 +193,7 @@ function buildPropertyListHtml(
         <div style="background:#f8f9fa;border-left:4px solid ${PRIMARY};border-radius:8px;padding:12px 16px;margin-bottom:8px;">
           <p style="margin:0;font-family:Montserrat,Arial,sans-serif;font-size:14px;font-weight:600;color:#1a1a1a;">${p.address}</p>
           <p style="margin:4px 0 0;font-family:Montserrat,Arial,sans-serif;font-size:13px;color:#6b7280;">
-            ${p.bedrooms ? `${p.bedrooms} bed` : ""}${p.rent_price ? ` · $${p.rent_price.toLocaleString()}/mo` : ""}${p.section_8_accepted ? " · Section 8 OK" : ""}
+            ${p.bedrooms ? `${p.bedrooms} ${t.bed}` : ""}${p.rent_price ? ` · $${p.rent_price.toLocaleString()}${t.perMonth}` : ""}${p.section_8_accepted ? ` · ${t.section8}` : ""}
           </p>
         </div>`
         )
@@ -202,8 +209,10 @@ export async function sendLeadShowingEmail(params: {
   showingId: string;
   type: "no_show" | "cancelled" | "rescheduled";
   emailData: LeadShowingEmailData;
+  /** leads.preferred_language — picks the Spanish variant for 'es'. */
+  preferredLanguage?: string | null;
 }): Promise<void> {
-  const { leadEmail, organizationId, showingId, type, emailData } = params;
+  const { leadEmail, organizationId, showingId, type, emailData, preferredLanguage } = params;
 
   // Map type to configurable template key
   const templateTypeMap: Record<string, EmailTemplateType> = {
@@ -214,7 +223,7 @@ export async function sendLeadShowingEmail(params: {
   const templateType = templateTypeMap[type];
 
   // Try to load org-customized template, fall back to defaults
-  let config = DEFAULT_CONFIGS[templateType];
+  let saved: EmailTemplatesMap = {};
   try {
     const { data } = await supabase
       .from("organization_settings")
@@ -222,15 +231,13 @@ export async function sendLeadShowingEmail(params: {
       .eq("organization_id", organizationId)
       .eq("key", "email_templates")
       .maybeSingle();
-    if (data?.value && typeof data.value === "object") {
-      const saved = data.value as Record<string, unknown>;
-      if (saved[templateType]) {
-        config = saved[templateType] as typeof config;
-      }
+    if (data?.value && typeof data.value === "object" && !Array.isArray(data.value)) {
+      saved = data.value as EmailTemplatesMap;
     }
   } catch {
     // Use defaults if fetch fails
   }
+  const { config, language } = resolveEmailTemplate(saved, templateType, emailLanguageFor(preferredLanguage));
 
   // Also fetch org name and sender domain for variables
   let orgName = "Rent Finder Cleveland";
@@ -262,10 +269,10 @@ export async function sendLeadShowingEmail(params: {
   };
 
   // Build property list HTML as extra content
-  const propertyListHtml = buildPropertyListHtml(emailData.otherProperties);
+  const propertyListHtml = buildPropertyListHtml(emailData.otherProperties, language);
 
   // Render the branded email
-  const html = renderEmailHtml(config, variables, propertyListHtml);
+  const html = renderEmailHtml(config, variables, propertyListHtml, { language });
 
   // Interpolate the subject line
   const subject = Object.entries(variables).reduce(
@@ -0,0 +1,60 @@
+// Open houses: one showing_available_slots row with capacity > 1, several
+// renters booked into it (showings.open_house_slot_id), and a waitlist once
+// it is full. Each renter is still their own showing — attendance and the
+// report are per person — so the agenda, the Telegram agenda and the iCal
+// feed keep one entry per showing and add the roster to each.
+//
+// Dependency-free on purpose: telegram-webhook and showings-ics run this same
+// code from supabase/functions/_shared/generated (npm run gen:edge-shared).
+
+export const OPEN_HOUSE_MAX_CAPACITY = 50;
+
+const ACTIVE = new Set(["scheduled", "confirmed"]);
+
+export interface OpenHouseInfo {
+  capacity: number;
+  /** Renters on the waitlist still waiting for a seat. */
+  waiting: number;
+}
+
+export interface OpenHouseRoster {
+  /** Active attendees' names, in booking order. */
+  names: string[];
+  capacity: number | null;
+  waiting: number;
+}
+
+/**
+ * Active attendees per open house. `rows` are showings (any order, any mix);
+ * those without a slot id, or no longer scheduled/confirmed, are ignored.
+ */
+export function openHouseRosters<T>(
+  rows: T[],
+  slotOf: (r: T) => string | null | undefined,
+  nameOf: (r: T) => string,
+  statusOf: (r: T) => string,
+  info: Map<string, OpenHouseInfo> = new Map(),
+): Map<string, OpenHouseRoster> {
+  const rosters = new Map<string, OpenHouseRoster>();
+  for (const r of rows) {
+    const slot = slotOf(r);
+    if (!slot || !ACTIVE.has(statusOf(r))) continue;
+    if (!rosters.has(slot)) {
+      const i = info.get(slot);
+      rosters.set(slot, { names: [], capacity: i?.capacity ?? null, waiting: i?.waiting ?? 0 });
+    }
+    rosters.get(slot)!.names.push(nameOf(r).trim() || "Lead");
+  }
+  return rosters;
+}
+
+/** "Open house · 3/10 · 2 en espera" — the one-line header. */
+export function rosterHeadline(roster: OpenHouseRoster): string {
+  const seats = roster.capacity ? `${roster.names.length}/${roster.capacity}` : `${roster.names.length}`;
+  return `Open house · ${seats}${roster.waiting > 0 ? ` · ${roster.waiting} en espera` : ""}`;
+}
+
+/** Headline plus the names, for plain-text places (Telegram, iCal). */
+export function rosterText(roster: OpenHouseRoster): string {
+  return `${rosterHeadline(roster)}: ${roster.names.join(", ")}`;
+}
@@ -0,0 +1,184 @@
+// The day's tours as a drive: which order to visit the homes in, how long each
+// hop takes, and which back-to-back tours cannot physically be made.
+//
+// Drive times come from a local model — straight-line distance stretched by a
+// road factor at an urban average speed, plus a fixed parking/walk-up cost — so
+// nothing here calls a maps API. It is a planning estimate, deliberately a bit
+// pessimistic, not turn-by-turn routing.
+//
+// Dependency-free on purpose: telegram-webhook runs this same planner from
+// supabase/functions/_shared/generated (npm run gen:edge-shared).
+
+export interface RouteStop {
+  /** showings.id */
+  id: string;
+  /** scheduled_at (ISO). */
+  start: string;
+  durationMinutes: number;
+  /** properties.latitude / longitude — null when the home was never geocoded. */
+  lat: number | null;
+  lng: number | null;
+}
+
+export type LegStatus = "ok" | "tight" | "impossible" | "unknown";
+
+export interface RouteLeg {
+  fromId: string;
+  toId: string;
+  /** Straight-line miles; null when either end has no coordinates. */
+  miles: number | null;
+  driveMinutes: number | null;
+  /** Minutes between the end of one tour and the start of the next. */
+  gapMinutes: number;
+  /** gap − drive; negative means the agent arrives late. */
+  slackMinutes: number | null;
+  status: LegStatus;
+}
+
+export interface RoutePlan {
+  /** The stops in booked (time) order. */
+  stops: RouteStop[];
+  /** One leg per consecutive pair of `stops`. */
+  legs: RouteLeg[];
+  /** Total estimated driving for the booked order (known legs only). */
+  driveMinutes: number;
+  impossible: number;
+  tight: number;
+  /**
+   * A shorter geographic order for the same homes (stop ids), offered only
+   * when it saves at least SUGGEST_MIN_SAVING minutes of driving. The times
+   * are booked, so this is advice for future bookings or a reschedule.
+   */
+  suggestedOrder: string[] | null;
+  suggestedDriveMinutes: number | null;
+}
+
+/** Roads are longer than the crow flies. */
+export const ROAD_FACTOR = 1.35;
+/** Average city driving speed, mph. */
+export const AVERAGE_MPH = 25;
+/** Parking and walking up to the door, minutes. */
+export const PARKING_MINUTES = 5;
+/** Less spare time than this between tours is flagged as tight. */
+export const TIGHT_SLACK_MINUTES = 10;
+export const SUGGEST_MIN_SAVING = 10;
+
+// Two stops this close are the same home (a group tour) — no drive.
+const SAME_PLACE_MILES = 0.05;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Great-circle distance in miles. */
+export function haversineMiles(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 3958.8 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Estimated door-to-door minutes for a straight-line distance. */
+export function estimateDriveMinutes(miles: number): number {
+  if (miles < SAME_PLACE_MILES) return 0;
+  return Math.ceil((miles * ROAD_FACTOR * 60) / AVERAGE_MPH + PARKING_MINUTES);
+}
+
+const located = (s: RouteStop): s is RouteStop & { lat: number; lng: number } =>
+  s.lat != null && s.lng != null;
+
+function milesBetween(a: RouteStop, b: RouteStop): number | null {
+  return located(a) && located(b) ? haversineMiles(a, b) : null;
+}
+
+function pathMinutes(path: RouteStop[]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    const m = milesBetween(path[i - 1], path[i]);
+    if (m != null) total += estimateDriveMinutes(m);
+  }
+  return total;
+}
+
+// Nearest neighbour from the first stop, then 2-opt until nothing improves.
+// A day is a handful of stops, so the O(n³) worst case is irrelevant.
+function shortestPath(stops: RouteStop[]): RouteStop[] {
+  if (stops.length < 3) return stops;
+  const rest = stops.slice(1);
+  const path = [stops[0]];
+  while (rest.length) {
+    const last = path[path.length - 1];
+    let best = 0;
+    for (let i = 1; i < rest.length; i++) {
+      if ((milesBetween(last, rest[i]) ?? Infinity) < (milesBetween(last, rest[best]) ?? Infinity)) best = i;
+    }
+    path.push(rest.splice(best, 1)[0]);
+  }
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < path.length - 1; i++) {
+      for (let j = i + 1; j < path.length; j++) {
+        const candidate = [...path.slice(0, i), ...path.slice(i, j + 1).reverse(), ...path.slice(j + 1)];
+        if (pathMinutes(candidate) < pathMinutes(path)) {
+          path.splice(0, path.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+  return path;
+}
+
+/** Plan one agent's (or one market's) day. */
+export function planRoute(input: RouteStop[]): RoutePlan {
+  const stops = [...input].sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+  const legs: RouteLeg[] = [];
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1];
+    const to = stops[i];
+    const miles = milesBetween(from, to);
+    const driveMinutes = miles == null ? null : estimateDriveMinutes(miles);
+    const gapMinutes = Math.round((Date.parse(to.start) - Date.parse(from.start)) / 60000 - from.durationMinutes);
+    const slackMinutes = driveMinutes == null ? null : gapMinutes - driveMinutes;
+    let status: LegStatus = "unknown";
+    // Same home: whatever the overlap, the agent is already there.
+    if (driveMinutes === 0) status = "ok";
+    else if (slackMinutes != null) {
+      status = slackMinutes < 0 ? "impossible" : slackMinutes < TIGHT_SLACK_MINUTES ? "tight" : "ok";
+    }
+    legs.push({ fromId: from.id, toId: to.id, miles, driveMinutes, gapMinutes, slackMinutes, status });
+  }
+
+  const driveMinutes = legs.reduce((n, l) => n + (l.driveMinutes ?? 0), 0);
+  const withCoords = stops.filter(located);
+  const bookedMinutes = pathMinutes(withCoords);
+  const best = shortestPath(withCoords);
+  const bestMinutes = pathMinutes(best);
+  const differs = best.some((s, i) => s.id !== withCoords[i].id);
+  const worthIt = differs && bookedMinutes - bestMinutes >= SUGGEST_MIN_SAVING;
+
+  return {
+    stops,
+    legs,
+    driveMinutes,
+    impossible: legs.filter((l) => l.status === "impossible").length,
+    tight: legs.filter((l) => l.status === "tight").length,
+    suggestedOrder: worthIt ? best.map((s) => s.id) : null,
+    suggestedDriveMinutes: worthIt ? bestMinutes : null,
+  };
+}
+
+/**
+ * One plan per person doing the driving: stops sharing a group key (the
+ * assigned showing agent, else the market) are one route.
+ */
+export function planRoutes<T extends RouteStop>(stops: T[], groupOf: (s: T) => string): Map<string, RoutePlan> {
+  const groups = new Map<string, T[]>();
+  for (const s of stops) {
+    const key = groupOf(s);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(s);
+  }
+  const plans = new Map<string, RoutePlan>();
+  for (const [key, group] of groups) plans.set(key, planRoute(group));
+  return plans;
+}
@@ -0,0 +1,278 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Rental-application screening. An applicant is a lead with applied_at set
+// (markApplicationGenerated / submit-application); staff review them here
+// against the org's ListingPolicies and record a decision with a reason code.
+//
+// Fair Housing: nothing in this module reads or records voucher status or
+// source of income, and no reason code refers to it — the same rule
+// predict-conversion follows. The income test runs on the rent the applicant
+// is responsible for, which is how a voucher holder's income is assessed
+// without asking how the rest of the rent is paid.
+
+export type ScreeningDecision = "pending" | "approved" | "conditional" | "denied";
+
+export const SCREENING_DECISIONS: { value: ScreeningDecision; label: string; className: string }[] = [
+  { value: "pending", label: "In review", className: "bg-slate-50 text-slate-600 border-slate-200" },
+  { value: "approved", label: "Approved", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  { value: "conditional", label: "Conditional", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  { value: "denied", label: "Denied", className: "bg-red-50 text-red-700 border-red-200" },
+];
+
+export interface ScreeningReason {
+  code: string;
+  label: string;
+  /** Sentence used in the adverse-action letter. */
+  letterText: string;
+  /**
+   * Based on the TransUnion report, so the letter must carry the FCRA
+   * notice (agency contact, free copy, right to dispute).
+   */
+  consumerReport: boolean;
+}
+
+export const SCREENING_REASONS: ScreeningReason[] = [
+  {
+    code: "insufficient_income",
+    label: "Income below requirement",
+    letterText: "Verified monthly income is below the required multiple of your monthly rent.",
+    consumerReport: false,
+  },
+  {
+    code: "credit_history",
+    label: "Credit history",
+    letterText: "Information in your credit report.",
+    consumerReport: true,
+  },
+  {
+    code: "eviction_history",
+    label: "Eviction history",
+    letterText: "Eviction-related court records in your screening report.",
+    consumerReport: true,
+  },
+  {
+    code: "criminal_history",
+    label: "Criminal history (individual assessment)",
+    letterText:
+      "A conviction in your screening report that, after an individual assessment of its nature, severity and recency, we determined poses a risk to residents or property.",
+    consumerReport: true,
+  },
+  {
+    code: "rental_reference",
+    label: "Unsatisfactory landlord reference",
+    letterText: "An unsatisfactory reference from a current or previous landlord.",
+    consumerReport: false,
+  },
+  {
+    code: "unverifiable_information",
+    label: "Information could not be verified",
+    letterText: "We could not verify information provided in your application.",
+    consumerReport: false,
+  },
+  {
+    code: "incomplete_application",
+    label: "Incomplete application",
+    letterText: "Your application was missing required documents.",
+    consumerReport: false,
+  },
+  {
+    code: "unit_unavailable",
+    label: "Home no longer available",
+    letterText: "The home you applied for has been leased to an earlier qualified applicant.",
+    consumerReport: false,
+  },
+];
+
+export function screeningReason(code: string | null | undefined): ScreeningReason | undefined {
+  return SCREENING_REASONS.find((r) => r.code === code);
+}
+
+/** Denials and conditional approvals need a reason; approvals don't. */
+export function needsReason(decision: ScreeningDecision): boolean {
+  return decision === "denied" || decision === "conditional";
+}
+
+export const SCREENING_CHECKLIST: { id: string; label: string }[] = [
+  { id: "photo_id", label: "Government photo ID" },
+  { id: "income_docs", label: "Last 3 paystubs or income letter" },
+  { id: "screening_fee", label: "Screening fee paid" },
+  { id: "screening_report", label: "TransUnion report received" },
+  { id: "landlord_reference", label: "Landlord reference" },
+];
+
+export type ScreeningChecklist = Record<string, boolean>;
+
+export function checklistProgress(checklist: ScreeningChecklist | null | undefined): { done: number; total: number } {
+  const c = checklist || {};
+  return {
+    done: SCREENING_CHECKLIST.filter((item) => c[item.id]).length,
+    total: SCREENING_CHECKLIST.length,
+  };
+}
+
+export interface IncomeCheck {
+  /** Income ÷ rent, e.g. 3.2. */
+  ratio: number;
+  /** Monthly income needed to meet the multiple. */
+  required: number;
+  meets: boolean;
+}
+
+/** Income-to-rent test against ListingPolicies.incomeMultiple; null until both numbers are in. */
+export function incomeCheck(
+  monthlyIncome: number | null | undefined,
+  rent: number | null | undefined,
+  incomeMultiple: number,
+): IncomeCheck | null {
+  if (!monthlyIncome || !rent || rent <= 0) return null;
+  const multiple = incomeMultiple || 3;
+  const ratio = Math.round((monthlyIncome / rent) * 100) / 100;
+  return { ratio, required: rent * multiple, meets: monthlyIncome >= rent * multiple };
+}
+
+// ── Adverse-action letters ────────────────────────────────────────────────
+
+/** The agency named in the FCRA notice (the screening report provider). */
+export const SCREENING_AGENCY = {
+  name: "TransUnion Rental Screening Solutions, Inc.",
+  address: "6430 S. Fiddlers Green Circle, Suite 500, Greenwood Village, CO 80111",
+  phone: "1-866-775-0961",
+};
+
+export const ADVERSE_ACTION_TEMPLATES: Record<"denied" | "conditional", string> = {
+  denied: `{date}
+
+Dear {applicantName},
+
+Thank you for applying to rent {propertyAddress}. After reviewing your application, we are unable to approve it at this time for the following reason:
+
+• {reason}
+{fcraNotice}
+Under the federal Fair Housing Act, we do not discriminate on the basis of race, color, religion, sex, national origin, disability or familial status, and we accept Housing Choice Vouchers.
+
+Sincerely,
+{companyName}`,
+  conditional: `{date}
+
+Dear {applicantName},
+
+Thank you for applying to rent {propertyAddress}. We can approve your application on the following condition:
+
+{conditions}
+
+We set this condition for the following reason:
+
+• {reason}
+{fcraNotice}
+Please let us know within 5 business days whether you accept. Under the federal Fair Housing Act, we do not discriminate on the basis of race, color, religion, sex, national origin, disability or familial status, and we accept Housing Choice Vouchers.
+
+Sincerely,
+{companyName}`,
+};
+
+const FCRA_NOTICE = `
+This decision was based in whole or in part on information in a consumer report from:
+
+{agencyName}
+{agencyAddress}
+{agencyPhone}
+
+The agency did not make this decision and cannot explain why it was made. You have the right to a free copy of your report from the agency if you ask within 60 days, and the right to dispute the accuracy or completeness of any information in it directly with the agency.
+`;
+
+export interface AdverseActionContext {
+  decision: "denied" | "conditional";
+  reasonCode: string;
+  applicantName: string;
+  propertyAddress: string;
+  conditions?: string | null;
+  companyName: string;
+  date?: Date;
+}
+
+/** Fills the template for the decision; the FCRA block only when the reason came from the report. */
+export function renderAdverseActionLetter(ctx: AdverseActionContext): string {
+  const reason = screeningReason(ctx.reasonCode);
+  const fcra = reason?.consumerReport
+    ? FCRA_NOTICE.replace("{agencyName}", SCREENING_AGENCY.name)
+        .replace("{agencyAddress}", SCREENING_AGENCY.address)
+        .replace("{agencyPhone}", SCREENING_AGENCY.phone)
+    : "";
+  const tags: Record<string, string> = {
+    "{date}": (ctx.date || new Date()).toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    }),
+    "{applicantName}": ctx.applicantName.trim() || "Applicant",
+    "{propertyAddress}": ctx.propertyAddress.trim() || "the home you applied for",
+    "{reason}": reason?.letterText || "",
+    "{conditions}": ctx.conditions?.trim() || "",
+    "{fcraNotice}": fcra,
+    "{companyName}": ctx.companyName,
+  };
+  let letter = ADVERSE_ACTION_TEMPLATES[ctx.decision];
+  for (const [k, v] of Object.entries(tags)) letter = letter.split(k).join(v);
+  return letter.replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/** Staff note on the applicant (applicant_notes, keyed by lead). */
+export async function addScreeningNote(
+  organizationId: string,
+  leadId: string,
+  authorId: string,
+  note: string,
+): Promise<void> {
+  const { error } = await supabase.from("applicant_notes").insert({
+    organization_id: organizationId,
+    lead_id: leadId,
+    author_id: authorId,
+    note,
+  });
+  if (error) throw error;
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Plain-text letter → email body, one <p> per paragraph. */
+export function letterHtml(letter: string): string {
+  return letter
+    .split(/\n{2,}/)
+    .map((p) => `<p style="margin:0 0 14px;line-height:1.5;">${escapeHtml(p).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+/** Emails the letter to the applicant and stamps the screening. */
+export async function sendAdverseActionLetter(args: {
+  screeningId: string;
+  organizationId: string;
+  leadId: string;
+  to: string;
+  letter: string;
+}): Promise<void> {
+  const { data, error } = await supabase.functions.invoke("send-notification-email", {
+    body: {
+      to: args.to,
+      subject: "About your rental application",
+      html: letterHtml(args.letter),
+      notification_type: "adverse_action",
+      organization_id: args.organizationId,
+      related_entity_id: args.leadId,
+      related_entity_type: "lead",
+    },
+  });
+  if (error) throw error;
+  if ((data as { error?: string } | null)?.error) throw new Error((data as { error: string }).error);
+
+  const { error: stampErr } = await supabase
+    .from("application_screenings")
+    .update({ adverse_action_sent_at: new Date().toISOString() })
+    .eq("id", args.screeningId);
+  if (stampErr) throw stampErr;
+}
@@ -0,0 +1,70 @@
+// Multi-agent showing capacity. With no showing_agents set up an org has one
+// person per market (the original rule: one booking fills the market at that
+// time). With agents, a market holds as many simultaneous tours as there are
+// active agents covering it; book-public-showing assigns who goes through
+// next_showing_agent() and only blocks the rest of the market once nobody is
+// left, so the grid's "is this market full?" check counts the same way.
+
+export type AssignmentMode = "round_robin" | "territory";
+
+export const ASSIGNMENT_MODES: { value: AssignmentMode; label: string; description: string }[] = [
+  {
+    value: "round_robin",
+    label: "Round-robin",
+    description: "Each booking goes to whoever free has waited longest, in any market.",
+  },
+  {
+    value: "territory",
+    label: "By territory",
+    description: "Only agents who cover the home's market; agents with no territory fill in.",
+  },
+];
+
+export interface ShowingAgentSummary {
+  /** users.id — what showings.leasing_agent_id holds. */
+  user_id: string;
+  full_name: string;
+  /** Territory; empty = every market. */
+  markets: string[];
+  is_active: boolean;
+}
+
+/** True when the agent can be sent to a home in `market`. */
+export function agentCovers(agent: Pick<ShowingAgentSummary, "markets">, market: string | null): boolean {
+  return agent.markets.length === 0 || (market !== null && agent.markets.includes(market));
+}
+
+/**
+ * How many tours a market can hold at one time. Round-robin ignores
+ * territories, so every active agent counts. Without agents it is 1.
+ */
+export function marketCapacity(
+  agents: ShowingAgentSummary[],
+  market: string | null,
+  mode: AssignmentMode = "round_robin",
+): number {
+  const active = agents.filter((a) => a.is_active);
+  if (active.length === 0) return 1;
+  return mode === "territory" ? active.filter((a) => agentCovers(a, market)).length : active.length;
+}
+
+/**
+ * Markets that are full, from the bookings at one date+time. `tour` groups
+ * rows that take one agent: slot rows sharing a booked_showing_id (a full
+ * market's siblings all point at the booking that filled it), or a group
+ * tour's attendees at one home.
+ */
+export function fullMarkets(
+  rows: { market: string | null; tour: string | null }[],
+  capacityOf: (market: string) => number,
+): Set<string> {
+  const tours = new Map<string, Set<string>>();
+  for (const r of rows) {
+    if (!r.market) continue;
+    if (!tours.has(r.market)) tours.set(r.market, new Set());
+    tours.get(r.market)!.add(r.tour ?? `row-${tours.get(r.market)!.size}`);
+  }
+  const full = new Set<string>();
+  for (const [market, ids] of tours) if (ids.size >= capacityOf(market)) full.add(market);
+  return full;
+}
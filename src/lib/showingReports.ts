@@ -12,12 +12,41 @@
  * Only the PRESENCE of a marker is load-bearing: the "Missing reports" chip
  * keys off `agent_report IS NULL`, so the wording is free to change.
  *
- * ⚠️ Duplicated as `quickReportText` in
- * `supabase/functions/telegram-webhook/index.ts` — Deno cannot import from
- * `src/`, and the Telegram attendance buttons write the same marker. Change one,
- * change the other.
+ * The edge functions that write the same marker (telegram-webhook,
+ * showing-attendance) import a generated copy from
+ * `supabase/functions/_shared/generated/` — Deno cannot import from `src/`.
+ * After changing this file run `npm run gen:edge-shared`.
  */
 export const quickReportText = (attended: boolean): string =>
   attended
     ? "Asistió ✅"
     : "No asistió 👻 — en seguimiento para confirmar la visita";
+
+/** What the renter answered on the self-guided check-out form. */
+export interface SelfGuidedCheckout {
+  toured: boolean;
+  interest: "high" | "medium" | "low" | "not_interested" | null;
+  lockedUp: boolean;
+  notes: string;
+}
+
+const INTEREST_TEXT: Record<NonNullable<SelfGuidedCheckout["interest"]>, string> = {
+  high: "muy interesado",
+  medium: "algo interesado",
+  low: "poco interesado",
+  not_interested: "no le interesa",
+};
+
+/**
+ * `showings.agent_report` for a self-guided tour, written by the
+ * self-guided-checkout function from the renter's own check-out form. Same
+ * audience as quickReportText (the owner reads it), so it says who reported
+ * it — there was no agent on site.
+ */
+export const selfGuidedReportText = (c: SelfGuidedCheckout): string => {
+  const parts = [c.toured ? "Visita sin agente ✅" : "Visita sin agente — no llegó a entrar 👻"];
+  if (c.toured && c.interest) parts.push(INTEREST_TEXT[c.interest]);
+  parts.push(c.lockedUp ? "dejó la casa cerrada" : "⚠️ NO confirmó que cerró la casa");
+  const notes = c.notes.trim();
+  return `${parts.join(" · ")} (reportado por el prospecto)${notes ? `: ${notes}` : ""}`;
+};
@@ -0,0 +1,122 @@
+/**
+ * The short survey a renter gets after a completed tour (link in the
+ * post-showing email, answered on /showing/survey, stored in
+ * `showing_surveys` — one row per showing).
+ *
+ * Owners keep asking why a unit isn't renting; the answers here are the
+ * renters' own side of that story, next to the agent's notes. The same
+ * summary feeds PropertyDetail (staff) and the public Leasing Tracker
+ * (owners), so the tracker copy runs with `redact` on: free text is the only
+ * place a renter can type their own name, phone or email.
+ *
+ * showing-survey (validation) and leasing-tracker-lookup (summary) import a
+ * generated copy from `supabase/functions/_shared/generated/` — Deno cannot
+ * import from `src/`. After changing this file run `npm run gen:edge-shared`.
+ */
+
+export type PricePerception = "too_high" | "fair" | "good_value";
+
+export const PRICE_PERCEPTIONS: readonly PricePerception[] = ["too_high", "fair", "good_value"];
+
+export const SURVEY_MAX_COMMENTS = 1000;
+
+/** What the renter answered. Ratings are 1 (worst) – 5 (best). */
+export interface ShowingSurveyAnswers {
+  conditionRating: number;
+  pricePerception: PricePerception;
+  neighborhoodFit: number;
+  applyLikelihood: number;
+  comments: string;
+}
+
+/** A `showing_surveys` row, as far as the summary needs it. */
+export interface ShowingSurveyRow {
+  condition_rating: number;
+  price_perception: string;
+  neighborhood_fit: number;
+  apply_likelihood: number;
+  comments: string | null;
+  submitted_at: string;
+}
+
+export interface ShowingSurveySummary {
+  responses: number;
+  /** Averages to one decimal; null with no responses. */
+  avgCondition: number | null;
+  avgNeighborhoodFit: number | null;
+  avgApplyLikelihood: number | null;
+  /** Share (0–100) who answered 4 or 5 on "how likely are you to apply". */
+  likelyToApplyPct: number | null;
+  price: Record<PricePerception, number>;
+  /** Newest first, empty answers dropped. */
+  comments: { text: string; submittedAt: string }[];
+}
+
+const isRating = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 1 && (v as number) <= 5;
+
+/** A POST body (snake_case, as the page sends it) → checked answers, or null. */
+export function parseSurveyAnswers(body: Record<string, unknown> | null): ShowingSurveyAnswers | null {
+  if (!body) return null;
+  const { condition_rating, price_perception, neighborhood_fit, apply_likelihood, comments } = body;
+  if (!isRating(condition_rating) || !isRating(neighborhood_fit) || !isRating(apply_likelihood)) return null;
+  if (!PRICE_PERCEPTIONS.includes(price_perception as PricePerception)) return null;
+  return {
+    conditionRating: condition_rating,
+    pricePerception: price_perception as PricePerception,
+    neighborhoodFit: neighborhood_fit,
+    applyLikelihood: apply_likelihood,
+    comments: typeof comments === "string" ? comments.trim().slice(0, SURVEY_MAX_COMMENTS) : "",
+  };
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Removes contact details from free text: emails, links, phone numbers
+ * (10+ digits, so prices and street numbers survive) and any of `names` —
+ * pass the respondents' own names, the one thing no pattern can spot.
+ */
+export function redactContactInfo(text: string, names: string[] = []): string {
+  let out = text
+    .replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, "[redacted]")
+    .replace(/\b(?:https?:\/\/|www\.)\S+/gi, "[redacted]")
+    .replace(/\+?\d[\d\s().-]{7,}\d/g, (m) => (m.replace(/\D/g, "").length >= 10 ? "[redacted]" : m));
+  const words = new Set(
+    names.flatMap((n) => n.split(/\s+/)).map((w) => w.replace(/[^\p{L}'-]/gu, "")).filter((w) => w.length >= 2),
+  );
+  for (const w of words) {
+    out = out.replace(new RegExp(`(?<![\\p{L}])${escapeRegExp(w)}(?![\\p{L}])`, "giu"), "[redacted]");
+  }
+  return out;
+}
+
+const avg = (nums: number[]) =>
+  nums.length ? Math.round((nums.reduce((a, b) => a + b, 0) / nums.length) * 10) / 10 : null;
+
+export function summarizeSurveys(
+  rows: ShowingSurveyRow[],
+  opts: { maxComments?: number; redact?: boolean; names?: string[] } = {},
+): ShowingSurveySummary {
+  const price: Record<PricePerception, number> = { too_high: 0, fair: 0, good_value: 0 };
+  for (const r of rows) {
+    if (PRICE_PERCEPTIONS.includes(r.price_perception as PricePerception)) price[r.price_perception as PricePerception]++;
+  }
+  const likely = rows.filter((r) => r.apply_likelihood >= 4).length;
+  const comments = rows
+    .filter((r) => r.comments?.trim())
+    .sort((a, b) => b.submitted_at.localeCompare(a.submitted_at))
+    .slice(0, opts.maxComments ?? 20)
+    .map((r) => {
+      const text = r.comments!.trim();
+      return { text: opts.redact ? redactContactInfo(text, opts.names) : text, submittedAt: r.submitted_at };
+    });
+  return {
+    responses: rows.length,
+    avgCondition: avg(rows.map((r) => r.condition_rating)),
+    avgNeighborhoodFit: avg(rows.map((r) => r.neighborhood_fit)),
+    avgApplyLikelihood: avg(rows.map((r) => r.apply_likelihood)),
+    likelyToApplyPct: rows.length ? Math.round((likely / rows.length) * 100) : null,
+    price,
+    comments,
+  };
+}
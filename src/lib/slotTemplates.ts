@@ -0,0 +1,97 @@
+import { addDays, format, getISODay, parseISO } from "date-fns";
+
+// Recurring availability templates. The cron-run SQL materializer
+// (materialize_slot_templates) is the source of truth for what gets opened;
+// these helpers mirror its rules so the dialog can preview a template and
+// list its upcoming dates without a round trip.
+
+/** ISO weekdays, 1 = Monday … 7 = Sunday (Postgres isodow). */
+export const WEEKDAYS: { value: number; short: string }[] = [
+  { value: 1, short: "Mon" },
+  { value: 2, short: "Tue" },
+  { value: 3, short: "Wed" },
+  { value: 4, short: "Thu" },
+  { value: 5, short: "Fri" },
+  { value: 6, short: "Sat" },
+  { value: 7, short: "Sun" },
+];
+
+/** How far ahead the nightly cron keeps templates materialized. */
+export const TEMPLATE_HORIZON_DAYS = 28;
+
+export interface SlotTemplateRule {
+  weekdays: number[];
+  /** "HH:MM" or "HH:MM:SS". */
+  start_time: string;
+  end_time: string;
+  starts_on: string;
+  ends_on: string | null;
+}
+
+export interface SlotTemplateException {
+  template_id: string | null;
+  exception_date: string;
+}
+
+function toMinutes(t: string): number {
+  const [h, m] = t.split(":").map(Number);
+  return h * 60 + (m || 0);
+}
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}:00`;
+}
+
+/** Half-hour slot times from start up to, not including, end. */
+export function templateTimes(start: string, end: string): string[] {
+  const out: string[] = [];
+  for (let m = toMinutes(start); m + 30 <= toMinutes(end); m += 30) out.push(toTime(m));
+  return out;
+}
+
+/**
+ * Dates the template opens between `from` and `from + days` (inclusive),
+ * minus exceptions for this template or for the whole org.
+ */
+export function templateDates(
+  rule: SlotTemplateRule,
+  from: string,
+  days: number,
+  exceptions: SlotTemplateException[] = [],
+  templateId: string | null = null,
+): string[] {
+  const skipped = new Set(
+    exceptions
+      .filter((e) => e.template_id === null || e.template_id === templateId)
+      .map((e) => e.exception_date),
+  );
+  const first = rule.starts_on > from ? rule.starts_on : from;
+  const horizon = format(addDays(parseISO(from), days), "yyyy-MM-dd");
+  const last = rule.ends_on && rule.ends_on < horizon ? rule.ends_on : horizon;
+  const out: string[] = [];
+  for (let d = parseISO(first); format(d, "yyyy-MM-dd") <= last; d = addDays(d, 1)) {
+    const date = format(d, "yyyy-MM-dd");
+    if (rule.weekdays.includes(getISODay(d)) && !skipped.has(date)) out.push(date);
+  }
+  return out;
+}
+
+function formatClock(t: string): string {
+  const m = toMinutes(t);
+  const h = Math.floor(m / 60);
+  const suffix = h >= 12 ? "pm" : "am";
+  const h12 = h % 12 || 12;
+  return m % 60 ? `${h12}:${String(m % 60).padStart(2, "0")}${suffix}` : `${h12}${suffix}`;
+}
+
+/** e.g. "Tue/Thu 4pm–7pm · until Dec 31". */
+export function describeSlotTemplate(rule: SlotTemplateRule): string {
+  const days = WEEKDAYS.filter((d) => rule.weekdays.includes(d.value)).map((d) => d.short);
+  const dayLabel =
+    days.length === 7 ? "Every day"
+    : days.length === 5 && !rule.weekdays.includes(6) && !rule.weekdays.includes(7) ? "Weekdays"
+    : days.join("/");
+  const parts = [`${dayLabel} ${formatClock(rule.start_time)}–${formatClock(rule.end_time)}`];
+  if (rule.ends_on) parts.push(`until ${format(parseISO(rule.ends_on), "MMM d")}`);
+  return parts.join(" · ");
+}
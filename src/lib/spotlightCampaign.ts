@@ -15,6 +15,7 @@
 // is present, which we always set below.)
 
 import { leadIdsTaggedWith } from "@/lib/leadTags";
+import { assignAbGroups, type AbMetric } from "@/lib/abTest";
 
 export type SpotlightAudienceMode = "all_active" | "by_status" | "interested";
 
@@ -155,6 +156,26 @@ export interface SendSpotlightArgs {
   propertyIds: string[];
   audienceLabel: string;
   sendDelaySeconds?: number;
+  /** Optional A/B test. `subject`/`html` above are variant "A". */
+  abTest?: SpotlightAbTest;
+}
+
+export interface SpotlightVariant {
+  key: string;
+  subject: string;
+  /** Rendered like `html`, footer placeholder included. */
+  html: string;
+}
+
+export interface SpotlightAbTest {
+  /** The alternatives to variant "A" (B, C, …). */
+  variants: SpotlightVariant[];
+  /** Share of the audience that is split across variants; the rest waits for
+   *  the winner as `held` rows. 1 = no holdout. */
+  testFraction: number;
+  metric: AbMetric;
+  /** Let promote_ab_winners() release the holdout when a winner is clear. */
+  autoPromote: boolean;
 }
 
 export interface SendSpotlightResult {
@@ -162,6 +183,8 @@ export interface SendSpotlightResult {
   queued: number;
   suppressed: number;
   totalRecipients: number;
+  /** A/B holdout rows waiting for the winner (included in `queued`). */
+  held: number;
 }
 
 /**
@@ -186,11 +209,15 @@ export async function sendSpotlightCampaign(
     propertyIds,
     audienceLabel,
     sendDelaySeconds = 2,
+    abTest,
   } = args;
+  const variants: SpotlightVariant[] = abTest && abTest.variants.length > 0
+    ? [{ key: "A", subject, html }, ...abTest.variants]
+    : [];
 
   const totalRecipients = recipients.length;
   if (totalRecipients === 0) {
-    return { campaignId: null, queued: 0, suppressed: 0, totalRecipients: 0 };
+    return { campaignId: null, queued: 0, suppressed: 0, totalRecipients: 0, held: 0 };
   }
 
   // ── 1. Create the campaign row (tracking in Campaigns + progress panel) ──
@@ -213,6 +240,13 @@ export async function sendSpotlightCampaign(
     emails_queued: 0,
     sms_template: null,
     created_by: createdBy ?? null,
+    ...(variants.length > 0
+      ? {
+        email_variants: variants,
+        ab_metric: abTest!.metric,
+        ab_auto_promote: abTest!.autoPromote,
+      }
+      : {}),
   };
   // `send_delay_seconds` lives in the campaigns-hardening migration which may
   // not have run on every DB. Attempt with it, retry without on 42703/204,
@@ -275,27 +309,48 @@ export async function sendSpotlightCampaign(
   // ── 3. Bulk-insert queued email_events for eligible recipients ──
   // process-email-queue picks these up on its next tick, fills the per-recipient
   // unsubscribe URL, paces sends (rate-limit), retries, and tracks the campaign.
+  //
+  // Under an A/B test the test group is tagged {ab_test, variant}; the holdout
+  // goes in as `held` — no HTML, never claimed by the worker — until
+  // release_campaign_holdout() fills in the winner's copy and queues it.
   const nowIso = new Date().toISOString();
+  const eligible = recipients.filter((r) => !suppressed.has(r.id));
+  const { assigned, held } = variants.length > 0
+    ? assignAbGroups(eligible, variants.map((v) => v.key), abTest!.testFraction)
+    : { assigned: eligible.map((item) => ({ item, variant: null as string | null })), held: [] };
+  const base = (r: SpotlightRecipient) => ({
+    from_name: orgName,
+    notification_type: "campaign_featured",
+    related_entity_id: r.id,
+    related_entity_type: "lead",
+    queued_at: nowIso,
+    campaign_id: campaignId,
+  });
   const rows: Array<Record<string, unknown>> = [];
-  for (const r of recipients) {
-    if (suppressed.has(r.id)) continue;
+  for (const { item: r, variant } of assigned) {
+    const v = variants.find((x) => x.key === variant);
     rows.push({
       organization_id: orgId,
       event_type: "delivery_delayed",
       recipient_email: r.email,
-      subject,
+      subject: v?.subject ?? subject,
       details: {
-        html,
-        from_name: orgName,
+        ...base(r),
+        html: v?.html ?? html,
         status: "queued",
-        notification_type: "campaign_featured",
-        related_entity_id: r.id,
-        related_entity_type: "lead",
-        queued_at: nowIso,
-        campaign_id: campaignId,
+        ...(v ? { ab_test: campaignId, variant: v.key } : {}),
       },
     });
   }
+  for (const r of held) {
+    rows.push({
+      organization_id: orgId,
+      event_type: "delivery_delayed",
+      recipient_email: r.email,
+      subject,
+      details: { ...base(r), status: "held" },
+    });
+  }
 
   let queued = 0;
   // ~50KB of HTML per row → cap chunks at 100 to stay under PostgREST payload limits.
@@ -309,5 +364,5 @@ export async function sendSpotlightCampaign(
   // ── 4. Reconcile the queued count on the campaign row ──
   await supabase.from("campaigns").update({ emails_queued: queued }).eq("id", campaignId);
 
-  return { campaignId, queued, suppressed: suppressed.size, totalRecipients };
+  return { campaignId, queued, suppressed: suppressed.size, totalRecipients, held: held.length };
 }
@@ -0,0 +1,60 @@
+// How a tenant ticket survives a round trip through email. Outbound replies
+// carry "[Ticket #123]" in the subject; the tenant's mail client keeps it on
+// "Re:", and reconcile-inbound-emails reads it back to thread the reply.
+//
+// Dependency-free on purpose: copied verbatim into the edge functions by
+// scripts/generate-edge-shared.mjs.
+
+const TICKET_TOKEN_RE = /\[Ticket #(\d+)\]/i;
+
+/** The subject every email on ticket `number` goes out with. */
+export function ticketEmailSubject(number: number, subject: string): string {
+  const base = subject.replace(TICKET_TOKEN_RE, "").replace(/^\s*(re|fw|fwd)\s*:\s*/i, "").trim();
+  return `Re: ${base || "Your request"} [Ticket #${number}]`;
+}
+
+/** The ticket number in an inbound subject, or null when it isn't a ticket reply. */
+export function parseTicketNumber(subject: string | null | undefined): number | null {
+  const m = (subject || "").match(TICKET_TOKEN_RE);
+  return m ? Number(m[1]) : null;
+}
+
+// Where the quoted history starts in the clients tenants actually use
+// (Gmail, Outlook, iPhone Mail — in English and Spanish).
+const QUOTE_MARKERS = [
+  /^On .+wrote:\s*$/i,
+  /^El .+escribió:\s*$/i,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^-{2,}\s*Mensaje original\s*-{2,}/i,
+  /^From:\s/i,
+  /^De:\s/i,
+  /^Sent from my /i,
+  /^Enviado desde mi /i,
+];
+
+/**
+ * Just what the tenant wrote: the text before the quoted thread. Falls back to
+ * the HTML body with the tags dropped when the email has no text part.
+ */
+export function replyText(text: string | null | undefined, html?: string | null): string {
+  const source = (text && text.trim())
+    ? text
+    : (html || "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div)>/gi, "\n")
+      .replace(/<blockquote[\s\S]*$/i, "")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">");
+
+  const kept: string[] = [];
+  for (const line of source.replace(/\r\n/g, "\n").split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith(">")) break;
+    if (QUOTE_MARKERS.some((re) => re.test(trimmed))) break;
+    kept.push(line);
+  }
+  return kept.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
@@ -0,0 +1,78 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Tenant support tickets. Replies are emailed by send-message and the
+// tenant's answers are threaded back by reconcile-inbound-emails (see
+// ticketThreads.ts for the subject token that makes the round trip work).
+
+export type TicketStatus = "open" | "pending" | "resolved" | "closed";
+export type TicketPriority = "low" | "medium" | "high" | "urgent";
+
+export const TICKET_STATUSES: { value: TicketStatus; label: string; className: string }[] = [
+  { value: "open", label: "Open", className: "bg-blue-50 text-blue-700 border-blue-200" },
+  { value: "pending", label: "Waiting on tenant", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  { value: "resolved", label: "Resolved", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  { value: "closed", label: "Closed", className: "bg-slate-50 text-slate-500 border-slate-200" },
+];
+
+export const TICKET_PRIORITIES: { value: TicketPriority; label: string }[] = [
+  { value: "urgent", label: "Urgent" },
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
+
+/**
+ * Hours to first reply and to resolution, by priority. "Urgent" is no heat or
+ * water; a dripping faucet is "low".
+ */
+export const TICKET_SLA_HOURS: Record<TicketPriority, { firstResponse: number; resolution: number }> = {
+  urgent: { firstResponse: 2, resolution: 24 },
+  high: { firstResponse: 8, resolution: 72 },
+  medium: { firstResponse: 24, resolution: 168 },
+  low: { firstResponse: 48, resolution: 336 },
+};
+
+const HOUR = 3_600_000;
+
+export interface TicketSla {
+  /** Which clock is running: the first reply, then the resolution. */
+  kind: "first_response" | "resolution";
+  dueAt: Date;
+  overdue: boolean;
+  /** Less than a quarter of the window left. */
+  atRisk: boolean;
+}
+
+/** The running SLA clock, or null once the ticket is resolved or closed. */
+export function ticketSla(
+  ticket: { status: string; priority: string; created_at: string | null; first_response_at: string | null },
+  now: Date = new Date(),
+): TicketSla | null {
+  if (ticket.status === "resolved" || ticket.status === "closed" || !ticket.created_at) return null;
+  const hours = TICKET_SLA_HOURS[ticket.priority as TicketPriority] ?? TICKET_SLA_HOURS.medium;
+  const kind = ticket.first_response_at ? "resolution" : "first_response";
+  const windowMs = (kind === "first_response" ? hours.firstResponse : hours.resolution) * HOUR;
+  const dueAt = new Date(new Date(ticket.created_at).getTime() + windowMs);
+  const left = dueAt.getTime() - now.getTime();
+  return { kind, dueAt, overdue: left < 0, atRisk: left >= 0 && left < windowMs / 4 };
+}
+
+/** Emails the reply to the requester and records it on the thread. */
+export async function sendTicketReply(ticketId: string, body: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke("send-message", {
+    body: { ticket_id: ticketId, body },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Failed to send the reply");
+}
+
+/** Staff-only note on the thread; never emailed. */
+export async function addTicketNote(ticketId: string, userId: string | null, body: string): Promise<void> {
+  const { error } = await supabase.from("ticket_messages").insert({
+    ticket_id: ticketId,
+    direction: "internal",
+    sender_id: userId,
+    message: body,
+  });
+  if (error) throw error;
+}
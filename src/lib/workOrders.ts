@@ -0,0 +1,92 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Maintenance work orders. The web page and the Showings Telegram bot
+// (/orden, /cerrar) write the same rows; the statuses and priorities here are
+// the ones the work_orders CHECK constraints accept.
+
+export type WorkOrderStatus = "open" | "in_progress" | "on_hold" | "completed" | "cancelled";
+export type WorkOrderPriority = "low" | "medium" | "high" | "urgent";
+
+export const WORK_ORDER_STATUSES: { value: WorkOrderStatus; label: string; className: string }[] = [
+  { value: "open", label: "Open", className: "bg-blue-50 text-blue-700 border-blue-200" },
+  { value: "in_progress", label: "In progress", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  { value: "on_hold", label: "On hold", className: "bg-slate-50 text-slate-600 border-slate-200" },
+  { value: "completed", label: "Completed", className: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  { value: "cancelled", label: "Cancelled", className: "bg-slate-50 text-slate-400 border-slate-200" },
+];
+
+export const WORK_ORDER_PRIORITIES: { value: WorkOrderPriority; label: string; className: string }[] = [
+  { value: "urgent", label: "Urgent", className: "bg-red-50 text-red-700 border-red-200" },
+  { value: "high", label: "High", className: "bg-orange-50 text-orange-700 border-orange-200" },
+  { value: "medium", label: "Medium", className: "bg-slate-50 text-slate-700 border-slate-200" },
+  { value: "low", label: "Low", className: "bg-slate-50 text-slate-500 border-slate-200" },
+];
+
+const PRIORITY_RANK: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+export function isOpenWorkOrder(status: string): boolean {
+  return status !== "completed" && status !== "cancelled";
+}
+
+/**
+ * The order the list is worked in: open before closed, then urgent first,
+ * then oldest first — a week-old leak outranks this morning's.
+ */
+export function compareWorkOrders(
+  a: { status: string; priority: string; created_at: string | null },
+  b: { status: string; priority: string; created_at: string | null },
+): number {
+  const open = Number(isOpenWorkOrder(b.status)) - Number(isOpenWorkOrder(a.status));
+  if (open !== 0) return open;
+  const rank = (PRIORITY_RANK[a.priority] ?? 9) - (PRIORITY_RANK[b.priority] ?? 9);
+  if (rank !== 0) return rank;
+  return (a.created_at || "").localeCompare(b.created_at || "");
+}
+
+export const WORK_ORDER_BUCKET = "work-order-files";
+
+/** <org>/<work order>/<file> — the shape tenant_doc_path_allowed checks. */
+export function workOrderFilePath(organizationId: string, workOrderId: string, fileName: string): string {
+  const safe = fileName.replace(/[^\w.-]+/g, "_").slice(-80);
+  return `${organizationId}/${workOrderId}/${Date.now()}-${safe}`;
+}
+
+/** Uploads a photo and records it in work_order_files. */
+export async function uploadWorkOrderFile(args: {
+  organizationId: string;
+  workOrderId: string;
+  userId: string | null;
+  file: File;
+}): Promise<void> {
+  const path = workOrderFilePath(args.organizationId, args.workOrderId, args.file.name);
+  const { error: upErr } = await supabase.storage
+    .from(WORK_ORDER_BUCKET)
+    .upload(path, args.file, { contentType: args.file.type || undefined });
+  if (upErr) throw upErr;
+
+  const { error } = await supabase.from("work_order_files").insert({
+    work_order_id: args.workOrderId,
+    file_name: args.file.name,
+    file_size: args.file.size,
+    file_url: path,
+    uploaded_by: args.userId,
+  });
+  if (error) {
+    await supabase.storage.from(WORK_ORDER_BUCKET).remove([path]);
+    throw error;
+  }
+}
+
+/** The bucket is private: file_url holds the path, shown through signed URLs. */
+export async function signWorkOrderFiles(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+  const { data, error } = await supabase.storage
+    .from(WORK_ORDER_BUCKET)
+    .createSignedUrls(paths, 60 * 60);
+  if (error) throw error;
+  const out: Record<string, string> = {};
+  for (const row of data || []) {
+    if (row.path && row.signedUrl) out[row.path] = row.signedUrl;
+  }
+  return out;
+}
@@ -416,7 +416,7 @@ const Analytics: React.FC = () => {
               icon={Calendar}
               subtitle={
                 o?.showings.show_rate != null
-                  ? `${o.showings.show_rate}% show-rate`
+                  ? `${o.showings.show_rate}% show-rate${o.showings.show_rate_basis === "verified" ? " verificado" : ""}`
                   : "sin resueltos en el rango"
               }
               loading={isLoading || !data}
@@ -913,8 +913,17 @@ const Analytics: React.FC = () => {
                     Showings en el tiempo
                   </CardTitle>
                   {o?.showings.show_rate != null && (
-                    <Badge variant="secondary" className="text-xs">
+                    <Badge
+                      variant="secondary"
+                      className="text-xs"
+                      title={
+                        o.showings.show_rate_basis === "verified"
+                          ? `${o.showings.verified_arrivals} de ${o.showings.verified_checkins} visitas con check-in del agente en la propiedad`
+                          : "Según los reportes del agente — aún no hay check-ins en el rango"
+                      }
+                    >
                       show-rate {o.showings.show_rate}%
+                      {o.showings.show_rate_basis === "verified" && " · verificado"}
                     </Badge>
                   )}
                 </div>
@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ClipboardCheck, Search, UserCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { cn } from "@/lib/utils";
+import { loadListingConfig } from "@/lib/listingTemplate";
+import { SCREENING_DECISIONS, checklistProgress, type ScreeningChecklist } from "@/lib/screening";
+import {
+  ScreeningWorkspace,
+  type ApplicantRow,
+  type ScreeningPropertyOption,
+} from "@/components/screening/ScreeningWorkspace";
+
+const ALL = "all";
+
+/**
+ * Applicants: leads with an application (applied_at set), screened against
+ * the org's listing policies. Replaces the list removed on 2026-07-25, which
+ * only showed who had applied.
+ */
+const ApplicantsPage: React.FC = () => {
+  const { userRecord } = useAuth();
+  const permissions = usePermissions();
+  const qc = useQueryClient();
+  const orgId = userRecord?.organization_id;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = searchParams.get("lead");
+  const [decisionFilter, setDecisionFilter] = useState(ALL);
+  const [search, setSearch] = useState("");
+
+  const { data: context } = useQuery({
+    queryKey: ["screening-context", orgId],
+    enabled: !!orgId,
+    queryFn: async () => {
+      const [config, propsRes, orgRes] = await Promise.all([
+        loadListingConfig(supabase, orgId!),
+        supabase
+          .from("properties")
+          .select("id, address, unit_number, rent_price")
+          .eq("organization_id", orgId!)
+          .order("address"),
+        supabase.from("organizations").select("name").eq("id", orgId!).maybeSingle(),
+      ]);
+      const properties: ScreeningPropertyOption[] = (propsRes.data || []).map((p) => ({
+        id: p.id,
+        label: p.unit_number ? `${p.address} #${p.unit_number}` : p.address,
+        rent: p.rent_price,
+      }));
+      return {
+        incomeMultiple: config.policies.incomeMultiple,
+        properties,
+        companyName: orgRes.data?.name || "Rent Finder Cleveland",
+      };
+    },
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["applicants", orgId],
+    enabled: !!orgId,
+    queryFn: async () => {
+      const [leadsRes, screeningsRes] = await Promise.all([
+        supabase
+          .from("leads")
+          .select("id, full_name, first_name, last_name, email, phone, applied_at, lead_property_interests(property_id, last_interest_at)")
+          .eq("organization_id", orgId!)
+          .not("applied_at", "is", null)
+          .order("applied_at", { ascending: false })
+          .limit(500),
+        supabase
+          .from("application_screenings")
+          .select("lead_id, decision, checklist, updated_at")
+          .eq("organization_id", orgId!)
+          .order("updated_at", { ascending: false }),
+      ]);
+      if (leadsRes.error) throw leadsRes.error;
+      if (screeningsRes.error) throw screeningsRes.error;
+
+      // The most recently touched screening stands for the applicant in the list.
+      const latest = new Map<string, { decision: string; checklist: ScreeningChecklist }>();
+      for (const s of screeningsRes.data || []) {
+        if (!latest.has(s.lead_id)) {
+          latest.set(s.lead_id, { decision: s.decision, checklist: s.checklist as ScreeningChecklist });
+        }
+      }
+
+      return (leadsRes.data || []).map((l) => {
+        const interests = [...(l.lead_property_interests || [])].sort((a, b) =>
+          (b.last_interest_at || "").localeCompare(a.last_interest_at || ""),
+        );
+        const applicant: ApplicantRow = {
+          id: l.id,
+          name: l.full_name || [l.first_name, l.last_name].filter(Boolean).join(" ") || "Unnamed applicant",
+          email: l.email,
+          phone: l.phone,
+          applied_at: l.applied_at,
+        };
+        return {
+          applicant,
+          defaultPropertyId: interests[0]?.property_id ?? null,
+          screening: latest.get(l.id) || null,
+        };
+      });
+    },
+  });
+
+  const rows = useMemo(() => data ?? [], [data]);
+  const visible = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return rows.filter((r) => {
+      const decision = r.screening?.decision || "pending";
+      if (decisionFilter !== ALL && decision !== decisionFilter) return false;
+      if (!q) return true;
+      return [r.applicant.name, r.applicant.email, r.applicant.phone]
+        .some((v) => v?.toLowerCase().includes(q));
+    });
+  }, [rows, decisionFilter, search]);
+
+  const inReview = rows.filter((r) => (r.screening?.decision || "pending") === "pending").length;
+  const selected = rows.find((r) => r.applicant.id === selectedId) || null;
+
+  const select = (id: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("lead", id);
+    setSearchParams(next);
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-6">
+      {/* Header */}
+      <div>
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-6 w-6 text-[#4F46E5]" />
+          <h1
+            className="text-2xl md:text-3xl font-bold text-[#4F46E5]"
+            style={{ fontFamily: "Montserrat" }}
+          >
+            Applicants
+          </h1>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          {inReview} in review · income requirement {context?.incomeMultiple ?? 3}× rent
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="relative lg:col-span-2">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name, email or phone"
+            className="pl-9"
+          />
+        </div>
+        <Select value={decisionFilter} onValueChange={setDecisionFilter}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any decision</SelectItem>
+            {SCREENING_DECISIONS.map((d) => (
+              <SelectItem key={d.value} value={d.value}>
+                {d.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : (
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+          {/* List */}
+          <div className="space-y-2">
+            {visible.length === 0 ? (
+              <EmptyState
+                icon={UserCheck}
+                title="No applicants"
+                description="Leads show up here once they start an application."
+              />
+            ) : (
+              visible.map((r) => {
+                const meta = SCREENING_DECISIONS.find((d) => d.value === (r.screening?.decision || "pending"));
+                const docs = checklistProgress(r.screening?.checklist);
+                return (
+                  <Card
+                    key={r.applicant.id}
+                    className={cn(
+                      "cursor-pointer p-3 transition-colors hover:bg-muted/40",
+                      r.applicant.id === selectedId && "border-primary bg-primary/5",
+                    )}
+                    onClick={() => select(r.applicant.id)}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{r.applicant.name}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {r.applicant.applied_at &&
+                            `Applied ${formatDistanceToNow(new Date(r.applicant.applied_at), { addSuffix: true })}`}
+                          {r.screening && ` · ${docs.done}/${docs.total} documents`}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className={cn("shrink-0", meta?.className)}>
+                        {meta?.label}
+                      </Badge>
+                    </div>
+                  </Card>
+                );
+              })
+            )}
+          </div>
+
+          {/* Workspace */}
+          <Card className="min-h-[28rem] overflow-hidden lg:sticky lg:top-4 lg:h-[calc(100vh-12rem)]">
+            {selected && context ? (
+              <ScreeningWorkspace
+                key={selected.applicant.id}
+                applicant={selected.applicant}
+                properties={context.properties}
+                defaultPropertyId={selected.defaultPropertyId}
+                incomeMultiple={context.incomeMultiple}
+                companyName={context.companyName}
+                canEdit={permissions.canScreenApplicants}
+                onChanged={() => qc.invalidateQueries({ queryKey: ["applicants", orgId] })}
+              />
+            ) : (
+              <EmptyState icon={ClipboardCheck} title="Pick an applicant" description="Their screening shows up here." />
+            )}
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApplicantsPage;
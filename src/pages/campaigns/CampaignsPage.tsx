@@ -29,6 +29,7 @@ import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { CampaignCreateWizard } from "@/components/campaigns/CampaignCreateWizard";
 import { CampaignProgressPanel } from "@/components/campaigns/CampaignProgressPanel";
+import { CampaignAbResults } from "@/components/campaigns/CampaignAbResults";
 import type { RealtimeChannel } from "@supabase/supabase-js";
 
 // ── Types ────────────────────────────────────────────────────────────
@@ -516,6 +517,8 @@ const CampaignDetailView = ({
         totalLeads={campaign.total_leads}
         leadsWithEmail={campaign.leads_with_email}
       />
+
+      <CampaignAbResults campaignId={campaign.id} orgId={orgId} />
     </div>
   );
 };
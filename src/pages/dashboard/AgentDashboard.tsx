@@ -276,7 +276,7 @@ export const AgentDashboard = () => {
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => navigate("/leads")}
+              onClick={() => navigate("/leads?owner=mine")}
             >
               View All <ChevronRight className="h-4 w-4 ml-1" />
             </Button>
@@ -19,6 +19,7 @@ import {
   CheckCircle,
   XCircle,
   Ban,
+  FileSignature,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
@@ -40,7 +41,10 @@ import { InteractionHistoryCard } from "@/components/leads/InteractionHistoryCar
 import { UpcomingActionsPreview } from "@/components/leads/UpcomingActionsPreview";
 import { NotesTab } from "@/components/leads/NotesTab";
 import { PinnedNotesPreview } from "@/components/leads/PinnedNotesPreview";
+import { LeadOwnerCard } from "@/components/leads/LeadOwnerCard";
 import { LeasingReportTab } from "@/components/leads/LeasingReportTab";
+import { CreateLeaseDialog } from "@/components/leads/CreateLeaseDialog";
+import { canCreateLease, fetchLeadLease, type LeadLease } from "@/lib/leases";
 import { LEAD_TAGS_EMBED, mapEmbeddedTags } from "@/lib/leadTags";
 import type { Tables } from "@/integrations/supabase/types";
 
@@ -81,6 +85,7 @@ const LeadDetail: React.FC = () => {
   const [lead, setLead] = useState<LeadWithRelations | null>(null);
   const [consentLogs, setConsentLogs] = useState<ConsentLog[]>([]);
   const [prediction, setPrediction] = useState<LeadPrediction | null>(null);
+  const [lease, setLease] = useState<LeadLease | null>(null);
   const [predictionLoading, setPredictionLoading] = useState(false);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("overview");
@@ -92,6 +97,7 @@ const LeadDetail: React.FC = () => {
   const [takeoverOpen, setTakeoverOpen] = useState(false);
   const [releaseOpen, setReleaseOpen] = useState(false);
   const [scheduleShowingOpen, setScheduleShowingOpen] = useState(false);
+  const [createLeaseOpen, setCreateLeaseOpen] = useState(false);
 
   // Fetch notes count for header badge
   const fetchNotesCount = useCallback(async () => {
@@ -131,7 +137,7 @@ const LeadDetail: React.FC = () => {
         leadData.ai_brief_generated_by,
       ].filter(Boolean) as string[];
 
-      const [usersRes, consentRes, predictionRes] = await Promise.all([
+      const [usersRes, consentRes, predictionRes, leaseRes] = await Promise.all([
         relatedUserIds.length > 0
           ? supabase.from("users").select("id, full_name").in("id", relatedUserIds)
           : Promise.resolve({ data: [] as { id: string; full_name: string }[] }),
@@ -147,6 +153,10 @@ const LeadDetail: React.FC = () => {
           .eq("lead_id", id)
           .eq("organization_id", userRecord.organization_id)
           .maybeSingle(),
+        fetchLeadLease(id).catch((err) => {
+          console.error("Error fetching lease:", err);
+          return null;
+        }),
       ]);
 
       const nameById: Record<string, string> = {};
@@ -165,6 +175,7 @@ const LeadDetail: React.FC = () => {
       });
 
       setConsentLogs(consentRes.data || []);
+      setLease(leaseRes);
 
       if (predictionRes.data && !predictionRes.error) {
         const predData = predictionRes.data;
@@ -315,6 +326,11 @@ const LeadDetail: React.FC = () => {
           canDeleteLead: permissions.canDeleteLead,
         }}
         onScheduleShowing={() => setScheduleShowingOpen(true)}
+        onCreateLease={
+          permissions.canCreateLease && canCreateLease(lead) && lease?.status !== "active"
+            ? () => setCreateLeaseOpen(true)
+            : undefined
+        }
         onEdit={() => setEditOpen(true)}
         onTakeControl={() => setTakeoverOpen(true)}
         onDelete={async () => {
@@ -363,6 +379,28 @@ const LeadDetail: React.FC = () => {
 
         {/* TAB 1: Overview - 2x2 Grid */}
         <TabsContent value="overview" className="space-y-4">
+          {lease && (
+            <div className="glass-card rounded-2xl p-4 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+              <div className="flex items-center gap-2 font-semibold">
+                <FileSignature className="h-4 w-4 text-primary" />
+                Tenant
+                <Badge variant="outline" className="capitalize">{lease.status}</Badge>
+              </div>
+              <span>
+                {lease.property?.address || "Property"}
+                {lease.unit_number ? ` #${lease.unit_number}` : ""}
+              </span>
+              <span className="text-muted-foreground">
+                {format(new Date(`${lease.start_date}T00:00:00`), "MMM d, yyyy")} –{" "}
+                {format(new Date(`${lease.end_date}T00:00:00`), "MMM d, yyyy")}
+              </span>
+              <span className="text-muted-foreground">
+                ${Number(lease.monthly_rent).toLocaleString()}/mo · deposit $
+                {Number(lease.security_deposit).toLocaleString()}
+              </span>
+            </div>
+          )}
+
           <div className="grid gap-4 lg:grid-cols-2">
             {/* Top-left: Interaction History (replaces Lead Profile) */}
             <div className="glass-card rounded-2xl p-4">
@@ -382,7 +420,7 @@ const LeadDetail: React.FC = () => {
               />
             </div>
 
-            {/* Bottom: Upcoming Actions Preview */}
+            {/* Bottom-left: Upcoming Actions Preview */}
             <div className="glass-card rounded-2xl p-4">
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-sm font-semibold">Upcoming Actions</h3>
@@ -397,6 +435,9 @@ const LeadDetail: React.FC = () => {
               </div>
               <UpcomingActionsPreview leadId={lead.id} onSeeAll={() => setActiveTab("activity")} />
             </div>
+
+            {/* Bottom-right: Owner + reassignment history */}
+            <LeadOwnerCard leadId={lead.id} ownerId={lead.assigned_leasing_agent_id} onChanged={fetchLead} />
           </div>
 
           {/* Pinned Notes Preview (if any) */}
@@ -652,6 +693,15 @@ const LeadDetail: React.FC = () => {
         onSuccess={fetchLead}
       />
 
+      <CreateLeaseDialog
+        open={createLeaseOpen}
+        onOpenChange={setCreateLeaseOpen}
+        leadId={lead.id}
+        leadName={leadName}
+        tags={mapEmbeddedTags(lead as Parameters<typeof mapEmbeddedTags>[0])}
+        onSuccess={fetchLead}
+      />
+
       <ScheduleShowingDialog
         open={scheduleShowingOpen}
         onOpenChange={setScheduleShowingOpen}
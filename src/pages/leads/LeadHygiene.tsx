@@ -98,7 +98,7 @@ const LeadHygiene: React.FC = () => {
         {(counts.duplicates ?? 0) > 0 && (
           <Badge variant="destructive" className="text-sm px-3 py-1">
             <Copy className="h-3.5 w-3.5 mr-1.5" />
-            {counts.duplicates} duplicate group{counts.duplicates !== 1 ? "s" : ""}
+            {counts.duplicates} possible duplicate{counts.duplicates !== 1 ? "s" : ""}
           </Badge>
         )}
         {(counts.incomplete ?? 0) > 0 && (
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import {
   Card,
@@ -45,6 +45,10 @@ import {
   Sparkles,
   Building2,
   Loader2,
+  UserCheck,
+  MapPin,
+  Gauge,
+  Clock,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
@@ -55,8 +59,22 @@ import { LeadStatusBadge } from "@/components/leads/LeadStatusBadge";
 import { LeadForm } from "@/components/leads/LeadForm";
 import { CsvImportDialog, type PropertyInfo } from "@/components/leads/CsvImportDialog";
 import LeadFilterPills, { ActiveFilters, FilterCounts } from "@/components/leads/LeadFilterPills";
+import { LeadAssignmentDialog } from "@/components/leads/LeadAssignmentDialog";
+import { LeadSavedViews } from "@/components/leads/LeadSavedViews";
+import { LeadBulkActions } from "@/components/leads/LeadBulkActions";
+import { useLeadOwners } from "@/hooks/useLeadOwners";
 import { LeadTagChips } from "@/components/leads/LeadTagChips";
 import { LEAD_TAGS_DISPLAY_EMBED, formatTagAddress, mapEmbeddedTags } from "@/lib/leadTags";
+import {
+  DEFAULT_VIEW_FILTERS,
+  LAST_CONTACT_WINDOWS,
+  SCORE_LEVELS,
+  isUnfiltered,
+  lastContactBounds,
+  type LastContactWindow,
+  type LeadViewFilters,
+  type ViewSortField,
+} from "@/lib/leadViews";
 import type { Tables } from "@/integrations/supabase/types";
 
 // Agent name mapping — 6 canonical agents across 4 departments
@@ -158,7 +176,14 @@ const LEAD_SOURCES = [
 
 const ITEMS_PER_PAGE = 20;
 
-type SortField = "full_name" | "status" | "created_at" | "last_contact_at";
+// Owner filter: "mine" and "unassigned", or a users.id.
+const OWNER_VIEWS = [
+  { value: "all", label: "All Owners" },
+  { value: "mine", label: "My Leads" },
+  { value: "unassigned", label: "Unassigned" },
+];
+
+type SortField = ViewSortField;
 type SortDirection = "asc" | "desc";
 
 const DEFAULT_FILTERS: ActiveFilters = {
@@ -179,7 +204,7 @@ const DEFAULT_COUNTS: FilterCounts = {
 
 const LeadsList: React.FC = () => {
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { userRecord } = useAuth();
   const permissions = usePermissions();
 
@@ -193,6 +218,10 @@ const LeadsList: React.FC = () => {
   const [statusFilter, setStatusFilter] = useState("all");
   const [sourceFilter, setSourceFilter] = useState("all");
   const [propertyFilter, setPropertyFilter] = useState("all");
+  const [ownerFilter, setOwnerFilter] = useState(() => searchParams.get("owner") || "all");
+  const [cityFilter, setCityFilter] = useState("all");
+  const [scoreFilter, setScoreFilter] = useState<number | null>(null);
+  const [lastContactFilter, setLastContactFilter] = useState<LastContactWindow>("any");
   const [properties, setProperties] = useState<PropertyInfo[]>([]);
   const [activeFilters, setActiveFilters] = useState<ActiveFilters>(() => {
     if (filterParam === "human_controlled") return { ...DEFAULT_FILTERS, humanControlled: true };
@@ -212,6 +241,12 @@ const LeadsList: React.FC = () => {
   const [formOpen, setFormOpen] = useState(false);
   const [importOpen, setImportOpen] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [assignmentOpen, setAssignmentOpen] = useState(false);
+
+  // Saved view currently applied; ?view= is a shared link to one.
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [initialViewId] = useState(() => searchParams.get("view"));
+  const { owners, nameOf: ownerName } = useLeadOwners(userRecord?.organization_id);
 
   // IDs of leads with active showings (for filter)
   const [leadsWithShowings, setLeadsWithShowings] = useState<Set<string>>(new Set());
@@ -232,6 +267,8 @@ const LeadsList: React.FC = () => {
     if (filter === "human_controlled") {
       setActiveFilters({ ...DEFAULT_FILTERS, humanControlled: true });
     }
+    const owner = searchParams.get("owner");
+    if (owner) setOwnerFilter(owner);
   }, [searchParams]);
 
   // Fetch filter counts (runs once on load and when base filters change)
@@ -321,23 +358,119 @@ const LeadsList: React.FC = () => {
     fetchProperties();
   }, [userRecord?.organization_id]);
 
+  // Cities with at least one property, for the city filter — a lead is "in"
+  // a city when it is tagged with a property there.
+  const cities = useMemo(
+    () => [...new Set(properties.map((p) => p.city?.trim()).filter((c): c is string => !!c))].sort(),
+    [properties],
+  );
+
+  // The one filtered leads query behind the table, the CSV export and the
+  // bulk actions, so all three always see exactly the same leads. Callers add
+  // their own order/range. is_demo IS NOT TRUE is the same predicate as
+  // dashboard_live(), so the page total always matches the Dashboard headline.
+  // 2026-07-19 (owner decision): the list counts ALL leads — the old
+  // completeness/junk filter hid 665 real leads and made this page disagree
+  // with every other count in the system. Incomplete leads are still triaged
+  // in Nurturing.
+  const buildLeadsQuery = (orgId: string, columns: string, withCount = false) => {
+    const today = startOfDay(new Date());
+    const in20Days = addDays(today, 20);
+
+    // Property-interest filters use ALIASED !inner embeds so server-side
+    // count/pagination stay exact — an inner embed filters the parent row
+    // without duplicating it, however many of its tags match.
+    const select = [
+      columns,
+      propertyFilter !== "all" ? "ipi_filter:lead_property_interests!inner(property_id)" : null,
+      cityFilter !== "all" ? "ipi_city:lead_property_interests!inner(property_id)" : null,
+    ].filter(Boolean).join(", ");
+
+    let query = supabase
+      .from("leads")
+      .select(select, withCount ? { count: "exact" } : undefined)
+      .eq("organization_id", orgId)
+      .not("is_demo", "is", true);
+
+    // Apply dropdown filters
+    if (statusFilter !== "all") {
+      query = query.eq("status", statusFilter);
+    }
+    if (sourceFilter !== "all") {
+      query = query.eq("source", sourceFilter);
+    }
+    if (propertyFilter !== "all") {
+      query = query.eq("ipi_filter.property_id", propertyFilter);
+    }
+    if (cityFilter !== "all") {
+      const inCity = properties.filter((p) => p.city?.trim() === cityFilter).map((p) => p.id);
+      query = query.in("ipi_city.property_id", inCity);
+    }
+    if (ownerFilter === "unassigned") {
+      query = query.is("assigned_leasing_agent_id", null);
+    } else if (ownerFilter !== "all") {
+      const ownerId = ownerFilter === "mine" ? userRecord?.id : ownerFilter;
+      if (ownerId) query = query.eq("assigned_leasing_agent_id", ownerId);
+    }
+    if (scoreFilter !== null) {
+      query = query.gte("lead_score", scoreFilter);
+    }
+    const contact = lastContactBounds(lastContactFilter);
+    if (contact.since) query = query.gte("last_contact_at", contact.since);
+    if (contact.before) query = query.or(`last_contact_at.is.null,last_contact_at.lt.${contact.before}`);
+    if (contact.never) query = query.is("last_contact_at", null);
+
+    // Apply toggle filters
+    if (activeFilters.humanControlled) {
+      query = query.eq("is_human_controlled", true);
+    }
+    if (activeFilters.moveInSoon) {
+      query = query
+        .gte("move_in_date", today.toISOString().split("T")[0])
+        .lte("move_in_date", in20Days.toISOString().split("T")[0]);
+    }
+    if (activeFilters.section8) {
+      query = query.or("has_voucher.eq.true,voucher_status.eq.active");
+    }
+    // "Has Showing" — apply server-side against the full set of lead IDs with
+    // active showings so count/pagination stay correct (not a page-only filter).
+    if (activeFilters.hasShowing) {
+      query = query.in("id", [...leadsWithShowings]);
+    }
+    // "Applicant" — the status-neutral applied_at milestone tag.
+    if (activeFilters.applicant) {
+      query = query.not("applied_at", "is", null);
+    }
+
+    // Search filter
+    if (debouncedSearch) {
+      // Search name + email + phone (sanitized against PostgREST .or() grammar).
+      const q = debouncedSearch.replace(/[,()%*]/g, " ").trim();
+      const digits = debouncedSearch.replace(/\D/g, "");
+      const ors = [
+        `full_name.ilike.%${q}%`,
+        `first_name.ilike.%${q}%`,
+        `last_name.ilike.%${q}%`,
+        `email.ilike.%${q}%`,
+      ];
+      if (digits.length >= 3) ors.push(`phone.ilike.%${digits}%`);
+      query = query.or(ors.join(","));
+    }
+
+    return query;
+  };
+
   const fetchLeads = async () => {
     if (!userRecord?.organization_id) return;
 
     const seq = ++fetchSeqRef.current;
     setLoading(true);
     try {
-      const today = startOfDay(new Date());
-      const in20Days = addDays(today, 20);
-
       // Select only columns needed for list view. Property-interest tags come
-      // from the LPI junction; when filtering by property, an ALIASED !inner
-      // embed keeps server-side count/pagination exact (UNIQUE(lead,property)
-      // guarantees no parent-row duplication for a single-property filter).
-      let query = supabase
-        .from("leads")
-        .select(
-          `
+      // from the LPI junction.
+      let query = buildLeadsQuery(
+        userRecord.organization_id,
+        `
           id,
           full_name,
           first_name,
@@ -352,66 +485,11 @@ const LeadsList: React.FC = () => {
           created_at,
           last_contact_at,
           preferred_language,
-          ${LEAD_TAGS_DISPLAY_EMBED}${propertyFilter !== "all" ? ",\n          ipi_filter:lead_property_interests!inner(property_id)" : ""}
+          assigned_leasing_agent_id,
+          ${LEAD_TAGS_DISPLAY_EMBED}
         `,
-          { count: "exact" }
-        )
-        .eq("organization_id", userRecord.organization_id)
-        // is_demo IS NOT TRUE — same predicate as dashboard_live() so the page
-        // total always matches the Dashboard headline.
-        .not("is_demo", "is", true);
-      // 2026-07-19 (owner decision): the list counts ALL leads — the old
-      // completeness/junk filter hid 665 real leads and made this page disagree
-      // with every other count in the system. Incomplete leads are still
-      // triaged in Nurturing.
-
-      // Apply dropdown filters
-      if (statusFilter !== "all") {
-        query = query.eq("status", statusFilter);
-      }
-      if (sourceFilter !== "all") {
-        query = query.eq("source", sourceFilter);
-      }
-      if (propertyFilter !== "all") {
-        query = query.eq("ipi_filter.property_id", propertyFilter);
-      }
-
-      // Apply toggle filters
-      if (activeFilters.humanControlled) {
-        query = query.eq("is_human_controlled", true);
-      }
-      if (activeFilters.moveInSoon) {
-        query = query
-          .gte("move_in_date", today.toISOString().split("T")[0])
-          .lte("move_in_date", in20Days.toISOString().split("T")[0]);
-      }
-      if (activeFilters.section8) {
-        query = query.or("has_voucher.eq.true,voucher_status.eq.active");
-      }
-      // "Has Showing" — apply server-side against the full set of lead IDs with
-      // active showings so count/pagination stay correct (not a page-only filter).
-      if (activeFilters.hasShowing) {
-        query = query.in("id", [...leadsWithShowings]);
-      }
-      // "Applicant" — the status-neutral applied_at milestone tag.
-      if (activeFilters.applicant) {
-        query = query.not("applied_at", "is", null);
-      }
-
-      // Search filter
-      if (debouncedSearch) {
-        // Search name + email + phone (sanitized against PostgREST .or() grammar).
-        const q = debouncedSearch.replace(/[,()%*]/g, " ").trim();
-        const digits = debouncedSearch.replace(/\D/g, "");
-        const ors = [
-          `full_name.ilike.%${q}%`,
-          `first_name.ilike.%${q}%`,
-          `last_name.ilike.%${q}%`,
-          `email.ilike.%${q}%`,
-        ];
-        if (digits.length >= 3) ors.push(`phone.ilike.%${digits}%`);
-        query = query.or(ors.join(","));
-      }
+        true,
+      );
 
       // Apply sorting — nulls last (Postgres DESC defaults to NULLS FIRST, which
       // buried Last Contact under ~16k blank rows), with id as a stable tiebreaker.
@@ -488,6 +566,8 @@ const LeadsList: React.FC = () => {
   // active; gating the dep prevents the Set-identity churn from
   // fetchFilterCounts double-fetching the list on mount.
   const showingsDep = activeFilters.hasShowing ? leadsWithShowings : null;
+  // Likewise the property list only matters while a city is picked.
+  const cityDep = cityFilter !== "all" ? properties : null;
 
   useEffect(() => {
     fetchLeads();
@@ -496,6 +576,11 @@ const LeadsList: React.FC = () => {
     statusFilter,
     sourceFilter,
     propertyFilter,
+    ownerFilter,
+    cityFilter,
+    scoreFilter,
+    lastContactFilter,
+    cityDep,
     activeFilters,
     showingsDep,
     debouncedSearch,
@@ -525,60 +610,19 @@ const LeadsList: React.FC = () => {
     setExporting(true);
 
     try {
-      const today = startOfDay(new Date());
-      const in20Days = addDays(today, 20);
-
-      // Builds the export query with EXACTLY the same predicates as fetchLeads —
-      // the old export carried a NOT-NULL/junk-name filter the list dropped by
-      // owner decision (2026-07-19), silently excluding ~587 visible leads.
-      // A fresh builder per call because .range() differs per page.
-      const buildExportQuery = () => {
-        let q = supabase
-          .from("leads")
-          .select(
-            `id, full_name, first_name, last_name, email, phone, status, source, is_human_controlled, has_voucher, voucher_status, move_in_date, created_at, last_contact_at, preferred_language, ${LEAD_TAGS_DISPLAY_EMBED}${propertyFilter !== "all" ? ", ipi_filter:lead_property_interests!inner(property_id)" : ""}`
-          )
-          .eq("organization_id", userRecord.organization_id)
-          .not("is_demo", "is", true);
-
-        if (statusFilter !== "all") q = q.eq("status", statusFilter);
-        if (sourceFilter !== "all") q = q.eq("source", sourceFilter);
-        if (propertyFilter !== "all") q = q.eq("ipi_filter.property_id", propertyFilter);
-        if (activeFilters.humanControlled) q = q.eq("is_human_controlled", true);
-        if (activeFilters.moveInSoon) {
-          q = q
-            .gte("move_in_date", today.toISOString().split("T")[0])
-            .lte("move_in_date", in20Days.toISOString().split("T")[0]);
-        }
-        if (activeFilters.section8) q = q.or("has_voucher.eq.true,voucher_status.eq.active");
-        // "Has Showing" — filter server-side against the full set of lead IDs with
-        // active showings so the export matches the list view exactly.
-        if (activeFilters.hasShowing) {
-          q = q.in("id", [...leadsWithShowings]);
-        }
-        if (activeFilters.applicant) {
-          q = q.not("applied_at", "is", null);
-        }
-        if (debouncedSearch) {
-          // Search name + email + phone (sanitized against PostgREST .or() grammar).
-          const sq = debouncedSearch.replace(/[,()%*]/g, " ").trim();
-          const digits = debouncedSearch.replace(/\D/g, "");
-          const ors = [
-            `full_name.ilike.%${sq}%`,
-            `first_name.ilike.%${sq}%`,
-            `last_name.ilike.%${sq}%`,
-            `email.ilike.%${sq}%`,
-          ];
-          if (digits.length >= 3) ors.push(`phone.ilike.%${digits}%`);
-          q = q.or(ors.join(","));
-        }
-
-        // Same sort as the list, with id tiebreaker so .range() pages never
-        // skip/duplicate rows on non-unique sort columns.
-        return q
+      // The list's own query (the old export carried a NOT-NULL/junk-name
+      // filter the list dropped by owner decision, 2026-07-19, silently
+      // excluding ~587 visible leads). A fresh builder per call because
+      // .range() differs per page; same sort as the list, with id tiebreaker so
+      // pages never skip/duplicate rows on non-unique sort columns.
+      const orgId = userRecord.organization_id;
+      const buildExportQuery = () =>
+        buildLeadsQuery(
+          orgId,
+          `id, full_name, first_name, last_name, email, phone, status, source, is_human_controlled, has_voucher, voucher_status, move_in_date, created_at, last_contact_at, preferred_language, assigned_leasing_agent_id, ${LEAD_TAGS_DISPLAY_EMBED}`,
+        )
           .order(sortField, { ascending: sortDirection === "asc", nullsFirst: false })
           .order("id", { ascending: true });
-      };
 
       // PostgREST caps un-ranged selects at 1,000 rows — paginate until a short
       // page so the export always contains the FULL filtered set (~18k leads).
@@ -600,7 +644,7 @@ const LeadsList: React.FC = () => {
       const headers = [
         "Name", "First Name", "Last Name", "Email", "Phone", "Status", "Source",
         "Human Controlled", "Voucher", "Move-in Date",
-        "Language", "Created", "Last Contact", "Properties",
+        "Language", "Created", "Last Contact", "Properties", "Owner",
       ];
 
       const escape = (v: string | null | undefined) => {
@@ -629,6 +673,7 @@ const LeadsList: React.FC = () => {
         l.created_at ? format(new Date(l.created_at), "yyyy-MM-dd") : "",
         l.last_contact_at ? format(new Date(l.last_contact_at), "yyyy-MM-dd") : "",
         escape(mapEmbeddedTags(l as Parameters<typeof mapEmbeddedTags>[0]).map(formatTagAddress).join("; ")),
+        escape(l.assigned_leasing_agent_id ? ownerName(l.assigned_leasing_agent_id) : ""),
       ].join(","));
 
       const csv = [headers.join(","), ...csvRows].join("\n");
@@ -649,6 +694,65 @@ const LeadsList: React.FC = () => {
     }
   };
 
+  // Every id in the filtered set, paged past PostgREST's 1,000-row cap. Bulk
+  // actions collect the whole set BEFORE writing: paging while a status change
+  // lands would shift rows out of the filter and skip them.
+  const collectFilteredIds = async (): Promise<string[]> => {
+    if (!userRecord?.organization_id) return [];
+    const PAGE_SIZE = 1000;
+    const ids: string[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await buildLeadsQuery(userRecord.organization_id, "id")
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      const page = (data || []) as unknown as { id: string }[];
+      ids.push(...page.map((l) => l.id));
+      if (page.length < PAGE_SIZE) break;
+    }
+    return ids;
+  };
+
+  // The list's filter state in saved-view form; key order matches
+  // parseViewFilters so a view compares equal to the state it set.
+  const currentFilters = useMemo<LeadViewFilters>(() => ({
+    status: statusFilter,
+    source: sourceFilter,
+    property: propertyFilter,
+    city: cityFilter,
+    owner: ownerFilter,
+    minScore: scoreFilter,
+    lastContact: lastContactFilter,
+    search: searchQuery.trim(),
+    pills: activeFilters,
+    sort: { field: sortField, direction: sortDirection },
+  }), [
+    statusFilter, sourceFilter, propertyFilter, cityFilter, ownerFilter, scoreFilter,
+    lastContactFilter, searchQuery, activeFilters, sortField, sortDirection,
+  ]);
+
+  // Applying a view replaces every filter; clearing one resets to defaults.
+  const applyView = useCallback((view: { id: string; filters: LeadViewFilters } | null) => {
+    const f = view?.filters ?? DEFAULT_VIEW_FILTERS;
+    setStatusFilter(f.status);
+    setSourceFilter(f.source);
+    setPropertyFilter(f.property);
+    setCityFilter(f.city);
+    setOwnerFilter(f.owner);
+    setScoreFilter(f.minScore);
+    setLastContactFilter(f.lastContact);
+    setSearchQuery(f.search);
+    setDebouncedSearch(f.search);
+    setActiveFilters(f.pills);
+    setSortField(f.sort.field);
+    setSortDirection(f.sort.direction);
+    setCurrentPage(1);
+    setActiveViewId(view?.id ?? null);
+    setSearchParams(view ? { view: view.id } : {}, { replace: true });
+  }, [setSearchParams]);
+
+  const filtered = !isUnfiltered(currentFilters);
+
   const SortableHeader: React.FC<{ field: SortField; children: React.ReactNode; className?: string }> = ({
     field,
     children,
@@ -703,6 +807,12 @@ const LeadsList: React.FC = () => {
             )}
             <span className="hidden sm:inline">{exporting ? "Exporting..." : "Export"}</span>
           </Button>
+          {permissions.canModifySettings && (
+            <Button variant="outline" onClick={() => setAssignmentOpen(true)}>
+              <UserCheck className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Assignment</span>
+            </Button>
+          )}
           {permissions.canCreateLead && (
             <>
               <Button variant="outline" onClick={() => setImportOpen(true)}>
@@ -721,7 +831,7 @@ const LeadsList: React.FC = () => {
       {/* Filters */}
       <div className="glass-card rounded-xl p-4 mb-6 space-y-4">
         {/* Row 1: Search + Dropdowns */}
-        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-6">
           {/* Search */}
           <div className="relative sm:col-span-2">
             <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
@@ -797,10 +907,101 @@ const LeadsList: React.FC = () => {
               ))}
             </SelectContent>
           </Select>
+
+          {/* Owner */}
+          <Select
+            value={ownerFilter}
+            onValueChange={(v) => {
+              setOwnerFilter(v);
+              setCurrentPage(1);
+            }}
+          >
+            <SelectTrigger className="min-h-[44px]">
+              <UserCheck className="h-4 w-4 mr-1.5 text-muted-foreground shrink-0" />
+              <SelectValue placeholder="Owner" />
+            </SelectTrigger>
+            <SelectContent>
+              {OWNER_VIEWS.map((o) => (
+                <SelectItem key={o.value} value={o.value}>
+                  {o.label}
+                </SelectItem>
+              ))}
+              {owners.filter((o) => o.id !== userRecord?.id).map((o) => (
+                <SelectItem key={o.id} value={o.id}>
+                  {o.full_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {/* City of a tagged property */}
+          <Select
+            value={cityFilter}
+            onValueChange={(v) => {
+              setCityFilter(v);
+              setCurrentPage(1);
+            }}
+          >
+            <SelectTrigger className="min-h-[44px]">
+              <MapPin className="h-4 w-4 mr-1.5 text-muted-foreground shrink-0" />
+              <SelectValue placeholder="City" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Cities</SelectItem>
+              {cities.map((c) => (
+                <SelectItem key={c} value={c}>
+                  {c}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {/* Milestone score */}
+          <Select
+            value={scoreFilter === null ? "any" : String(scoreFilter)}
+            onValueChange={(v) => {
+              setScoreFilter(v === "any" ? null : Number(v));
+              setCurrentPage(1);
+            }}
+          >
+            <SelectTrigger className="min-h-[44px]">
+              <Gauge className="h-4 w-4 mr-1.5 text-muted-foreground shrink-0" />
+              <SelectValue placeholder="Score" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any Score</SelectItem>
+              {SCORE_LEVELS.map((l) => (
+                <SelectItem key={l.value} value={String(l.value)}>
+                  {l.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {/* Last contact */}
+          <Select
+            value={lastContactFilter}
+            onValueChange={(v) => {
+              setLastContactFilter(v as LastContactWindow);
+              setCurrentPage(1);
+            }}
+          >
+            <SelectTrigger className="min-h-[44px]">
+              <Clock className="h-4 w-4 mr-1.5 text-muted-foreground shrink-0" />
+              <SelectValue placeholder="Last Contact" />
+            </SelectTrigger>
+            <SelectContent>
+              {LAST_CONTACT_WINDOWS.map((w) => (
+                <SelectItem key={w.value} value={w.value}>
+                  {w.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
-        {/* Row 2: Toggle Pills + Clean Data */}
-        <div className="flex items-center justify-between gap-4">
+        {/* Row 2: Toggle Pills + Views, Bulk Actions, Clean Data */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
           <LeadFilterPills
             activeFilters={activeFilters}
             filterCounts={filterCounts}
@@ -808,6 +1009,26 @@ const LeadsList: React.FC = () => {
             loading={loading}
           />
           <div className="flex items-center gap-2 shrink-0">
+            <LeadSavedViews
+              filters={currentFilters}
+              activeViewId={activeViewId}
+              initialViewId={initialViewId}
+              onApply={applyView}
+            />
+            {permissions.canBulkEditLeads && (
+              <LeadBulkActions
+                total={totalCount}
+                statuses={LEAD_STATUSES.filter((st) => st.value !== "all")}
+                properties={properties}
+                collectIds={collectFilteredIds}
+                onExport={handleExportCsv}
+                exporting={exporting}
+                onDone={() => {
+                  fetchLeads();
+                  fetchFilterCounts();
+                }}
+              />
+            )}
             {permissions.canEditLeadInfo && (
               <Button
                 variant="outline"
@@ -837,11 +1058,11 @@ const LeadsList: React.FC = () => {
               <UserX className="h-12 w-12 text-muted-foreground mb-4" />
               <h3 className="text-lg font-medium">No leads found</h3>
               <p className="text-muted-foreground mb-4">
-                {searchQuery || statusFilter !== "all" || sourceFilter !== "all" || propertyFilter !== "all" || Object.values(activeFilters).some(Boolean)
+                {filtered
                   ? "Try adjusting your filters."
                   : "Import leads via CSV or create one manually."}
               </p>
-              {permissions.canCreateLead && !searchQuery && statusFilter === "all" && sourceFilter === "all" && propertyFilter === "all" && !Object.values(activeFilters).some(Boolean) && (
+              {permissions.canCreateLead && !filtered && (
                 <div className="flex gap-2">
                   <Button variant="outline" onClick={() => setImportOpen(true)}>
                     <Upload className="h-4 w-4 mr-2" />
@@ -862,6 +1083,7 @@ const LeadsList: React.FC = () => {
                     <SortableHeader field="full_name">Name</SortableHeader>
                     <SortableHeader field="status">Status</SortableHeader>
                     <TableHead className="hidden sm:table-cell">Property</TableHead>
+                    <TableHead className="hidden lg:table-cell">Owner</TableHead>
                     <SortableHeader field="created_at" className="hidden sm:table-cell">Created</SortableHeader>
                     <SortableHeader field="last_contact_at" className="hidden sm:table-cell">Last Contact</SortableHeader>
                     <TableHead className="hidden sm:table-cell">Next Action</TableHead>
@@ -905,6 +1127,13 @@ const LeadsList: React.FC = () => {
                           <span className="text-muted-foreground text-[13px]">—</span>
                         )}
                       </TableCell>
+                      <TableCell className="hidden lg:table-cell text-[13px] whitespace-nowrap">
+                        {lead.assigned_leasing_agent_id ? (
+                          ownerName(lead.assigned_leasing_agent_id) ?? "Former user"
+                        ) : (
+                          <span className="text-muted-foreground">Unassigned</span>
+                        )}
+                      </TableCell>
                       <TableCell className="hidden sm:table-cell text-muted-foreground text-[13px]">
                         {lead.created_at
                           ? format(new Date(lead.created_at), "MMM d, yyyy")
@@ -997,6 +1226,8 @@ const LeadsList: React.FC = () => {
         }}
         properties={properties}
       />
+
+      <LeadAssignmentDialog open={assignmentOpen} onOpenChange={setAssignmentOpen} />
     </div>
   );
 };
@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Wrench, Camera, MessageCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { WorkOrderDialog, type WorkOrderRow } from "@/components/maintenance/WorkOrderDialog";
+import {
+  WORK_ORDER_PRIORITIES,
+  WORK_ORDER_STATUSES,
+  compareWorkOrders,
+  isOpenWorkOrder,
+} from "@/lib/workOrders";
+
+const ALL = "all";
+const OPEN = "open_any";
+
+const MaintenancePage: React.FC = () => {
+  const { userRecord } = useAuth();
+  const permissions = usePermissions();
+  const qc = useQueryClient();
+  const orgId = userRecord?.organization_id;
+
+  const [propertyFilter, setPropertyFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(OPEN);
+  const [priorityFilter, setPriorityFilter] = useState(ALL);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selected, setSelected] = useState<WorkOrderRow | null>(null);
+  const [dialogKey, setDialogKey] = useState(0);
+
+  const { data: options } = useQuery({
+    queryKey: ["maintenance-options", orgId],
+    enabled: !!orgId,
+    queryFn: async () => {
+      const [propsRes, usersRes] = await Promise.all([
+        supabase
+          .from("properties")
+          .select("id, address, unit_number")
+          .eq("organization_id", orgId!)
+          .order("address"),
+        supabase
+          .from("users")
+          .select("id, full_name")
+          .eq("organization_id", orgId!)
+          .eq("is_active", true)
+          .order("full_name"),
+      ]);
+      return {
+        properties: (propsRes.data || []).map((p) => ({
+          id: p.id,
+          label: p.unit_number ? `${p.address} #${p.unit_number}` : p.address,
+        })),
+        assignees: (usersRes.data || []).map((u) => ({ id: u.id, label: u.full_name || "—" })),
+      };
+    },
+  });
+
+  const propertyIds = useMemo(() => (options?.properties || []).map((p) => p.id), [options]);
+
+  const { data: workOrders = [], isLoading } = useQuery({
+    queryKey: ["work-orders", orgId, propertyIds.length],
+    enabled: !!orgId && !!options,
+    queryFn: async () => {
+      if (propertyIds.length === 0) return [];
+      const { data, error } = await supabase
+        .from("work_orders")
+        .select(
+          "id, number, property_id, title, description, status, priority, assigned_to, vendor_name, vendor_phone, resolution_notes, source, created_at, completed_at, work_order_files(count)",
+        )
+        .in("property_id", propertyIds)
+        .order("created_at", { ascending: false })
+        .limit(500);
+      if (error) throw error;
+      return (data || []).map((w) => ({
+        ...w,
+        photoCount: (w.work_order_files as unknown as { count: number }[])?.[0]?.count ?? 0,
+      }));
+    },
+  });
+
+  const propertyLabel = useMemo(
+    () => new Map((options?.properties || []).map((p) => [p.id, p.label])),
+    [options],
+  );
+  const assigneeLabel = useMemo(
+    () => new Map((options?.assignees || []).map((u) => [u.id, u.label])),
+    [options],
+  );
+
+  const visible = useMemo(
+    () =>
+      workOrders
+        .filter((w) => propertyFilter === ALL || w.property_id === propertyFilter)
+        .filter((w) =>
+          statusFilter === ALL
+            ? true
+            : statusFilter === OPEN
+              ? isOpenWorkOrder(w.status)
+              : w.status === statusFilter,
+        )
+        .filter((w) => priorityFilter === ALL || w.priority === priorityFilter)
+        .sort(compareWorkOrders),
+    [workOrders, propertyFilter, statusFilter, priorityFilter],
+  );
+
+  const openCount = workOrders.filter((w) => isOpenWorkOrder(w.status)).length;
+  const urgentCount = workOrders.filter((w) => isOpenWorkOrder(w.status) && w.priority === "urgent").length;
+
+  const openDialog = (wo: WorkOrderRow | null) => {
+    setSelected(wo);
+    setDialogKey((k) => k + 1);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <Wrench className="h-6 w-6 text-[#4F46E5]" />
+            <h1
+              className="text-2xl md:text-3xl font-bold text-[#4F46E5]"
+              style={{ fontFamily: "Montserrat" }}
+            >
+              Maintenance
+            </h1>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            {openCount} open work order{openCount === 1 ? "" : "s"}
+            {urgentCount > 0 ? ` · ${urgentCount} urgent` : ""}
+          </p>
+        </div>
+        {permissions.canManageWorkOrders && (
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New work order
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Select value={propertyFilter} onValueChange={setPropertyFilter}>
+          <SelectTrigger className="sm:w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All properties</SelectItem>
+            {(options?.properties || []).map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={OPEN}>Not closed</SelectItem>
+            <SelectItem value={ALL}>Any status</SelectItem>
+            {WORK_ORDER_STATUSES.map((s) => (
+              <SelectItem key={s.value} value={s.value}>
+                {s.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+          <SelectTrigger className="sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any priority</SelectItem>
+            {WORK_ORDER_PRIORITIES.map((p) => (
+              <SelectItem key={p.value} value={p.value}>
+                {p.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* List */}
+      {isLoading || !options ? (
+        <LoadingSpinner />
+      ) : visible.length === 0 ? (
+        <EmptyState
+          icon={Wrench}
+          title="No work orders"
+          description="Nothing matches these filters. Field staff can also open one from the Showings bot with /orden."
+        />
+      ) : (
+        <div className="space-y-2">
+          {visible.map((w) => {
+            const statusMeta = WORK_ORDER_STATUSES.find((s) => s.value === w.status);
+            const priorityMeta = WORK_ORDER_PRIORITIES.find((p) => p.value === w.priority);
+            return (
+              <Card
+                key={w.id}
+                className="cursor-pointer transition-colors hover:bg-muted/40"
+                onClick={() => openDialog(w)}
+              >
+                <CardContent className="flex flex-col sm:flex-row sm:items-center gap-2 p-4">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-mono text-muted-foreground">WO-{w.number}</span>
+                      <span className="truncate font-medium">{w.title}</span>
+                    </div>
+                    <p className="truncate text-sm text-muted-foreground">
+                      {propertyLabel.get(w.property_id) || "—"}
+                      {w.assigned_to ? ` · ${assigneeLabel.get(w.assigned_to) || "Assigned"}` : " · Unassigned"}
+                      {w.created_at ? ` · ${formatDistanceToNow(new Date(w.created_at), { addSuffix: true })}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {w.source === "telegram" && (
+                      <MessageCircle className="h-4 w-4 text-muted-foreground" aria-label="Opened from Telegram" />
+                    )}
+                    {w.photoCount > 0 && (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Camera className="h-3.5 w-3.5" />
+                        {w.photoCount}
+                      </span>
+                    )}
+                    <Badge variant="outline" className={priorityMeta?.className}>
+                      {priorityMeta?.label || w.priority}
+                    </Badge>
+                    <Badge variant="outline" className={statusMeta?.className}>
+                      {statusMeta?.label || w.status}
+                    </Badge>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <WorkOrderDialog
+        key={dialogKey}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        workOrder={selected}
+        properties={options?.properties || []}
+        assignees={options?.assignees || []}
+        canEdit={permissions.canManageWorkOrders}
+        onSaved={() => qc.invalidateQueries({ queryKey: ["work-orders", orgId] })}
+      />
+    </div>
+  );
+};
+
+export default MaintenancePage;
@@ -35,6 +35,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { PropertyForm } from '@/components/properties/PropertyForm';
 import { PhotoUpload } from '@/components/properties/PhotoUpload';
 import { ReassignLeadsDialog } from '@/components/properties/ReassignLeadsDialog';
+import { TourFeedbackCard } from '@/components/properties/TourFeedbackCard';
 import {
   ArrowLeft,
   Edit,
@@ -809,6 +810,9 @@ const PropertyDetail: React.FC = () => {
             </Card>
           )}
 
+          {/* Post-tour survey answers */}
+          {organization?.id && <TourFeedbackCard propertyId={property.id} organizationId={organization.id} />}
+
           {/* Alternative Properties */}
           {alternativeProperties.length > 0 && (
             <Card>
@@ -14,6 +14,7 @@ import {
 import { StatCard } from "@/components/dashboard/StatCard";
 import { cn } from "@/lib/utils";
 import { useSeo } from "@/hooks/useSeo";
+import { PRICE_PERCEPTIONS, type ShowingSurveySummary } from "@/lib/showingSurveys";
 import {
   ResponsiveContainer,
   BarChart,
@@ -151,6 +152,9 @@ interface TrackerData {
     /** Typed action codes for the work done AFTER this tour. Labels render here. */
     follow_ups?: { action: string; at: string }[];
   }[];
+  // Post-tour survey summary; comments arrive with contact details and
+  // respondents' names already redacted by the lookup.
+  tour_feedback?: ShowingSurveySummary | null;
   // Typed action codes only — the label is rendered here, so no prospect data
   // ever reaches this page (see the leasing_activity migration).
   leasing_activity?: {
@@ -292,6 +296,16 @@ const STRINGS = {
       `${up} cupos próximos · ${past} pasados`,
     openSlotsMore: (n: number) => `+${n} cupos más`,
     noOpenSlots: "No hay cupos abiertos próximos para esta propiedad",
+    feedback: "Opinión de los visitantes",
+    feedbackSub: (n: number) =>
+      `Encuesta que responden los prospectos después de la visita · ${n} ${n === 1 ? "respuesta" : "respuestas"}`,
+    feedbackCondition: "Estado de la propiedad",
+    feedbackNeighborhood: "Encaje con el barrio",
+    feedbackApply: "Probabilidad de aplicar",
+    feedbackWouldApply: "Aplicarían (4–5)",
+    feedbackPrice: "El precio les parece…",
+    feedbackPriceLabels: { too_high: "Muy alto", fair: "Justo", good_value: "Buen precio" } as Record<string, string>,
+    feedbackComments: "Comentarios recientes",
     minutes: "min",
     commentUnit: (u: string) => `Unidad ${u}`,
     interest: (lvl: string) => `Interés ${lvl}`,
@@ -440,6 +454,16 @@ const STRINGS = {
       `${up} upcoming slots · ${past} past`,
     openSlotsMore: (n: number) => `+${n} more slots`,
     noOpenSlots: "No upcoming open slots for this property",
+    feedback: "What Visitors Say",
+    feedbackSub: (n: number) =>
+      `Survey renters answer after their tour · ${n} ${n === 1 ? "response" : "responses"}`,
+    feedbackCondition: "Condition",
+    feedbackNeighborhood: "Neighborhood fit",
+    feedbackApply: "Likely to apply",
+    feedbackWouldApply: "Would apply (4–5)",
+    feedbackPrice: "Rent is…",
+    feedbackPriceLabels: { too_high: "Too high", fair: "About right", good_value: "Good value" } as Record<string, string>,
+    feedbackComments: "Recent comments",
     minutes: "min",
     commentUnit: (u: string) => `Unit ${u}`,
     interest: (lvl: string) => `${lvl} interest`,
@@ -1320,6 +1344,10 @@ function Tracker({ data, t }: { data: TrackerData; t: T }) {
         </CardContent>
       </Card>
 
+      {data.tour_feedback && data.tour_feedback.responses > 0 && (
+        <TourFeedbackCard feedback={data.tour_feedback} tz={tz} t={t} />
+      )}
+
       {/* Charts row 1 */}
       <div className="grid gap-4 md:grid-cols-2">
         <ChartCard title={t.pipeline} subtitle={t.pipelineSub}>
@@ -1565,6 +1593,74 @@ function LeasingActivityCard({
   );
 }
 
+// ── Tour feedback — the renters' side of "why isn't it renting?" ─────────────
+function TourFeedbackCard({ feedback, tz, t }: { feedback: ShowingSurveySummary; tz: string; t: T }) {
+  const rating = (n: number | null) => (n === null ? "—" : `${n.toLocaleString(t.locale)}/5`);
+  const priceColor: Record<string, string> = { too_high: "#EF4444", fair: "#4F46E5", good_value: "#22C55E" };
+  return (
+    <Card variant="glass">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <MessageSquareQuote className="h-4 w-4 text-[#4F46E5]" /> {t.feedback}
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">{t.feedbackSub(feedback.responses)}</p>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {[
+            [t.feedbackCondition, rating(feedback.avgCondition)],
+            [t.feedbackNeighborhood, rating(feedback.avgNeighborhoodFit)],
+            [t.feedbackApply, rating(feedback.avgApplyLikelihood)],
+            [t.feedbackWouldApply, `${feedback.likelyToApplyPct ?? 0}%`],
+          ].map(([label, value]) => (
+            <div key={label} className="rounded-lg border border-[#4F46E5]/10 bg-white/60 p-3 text-center">
+              <p className="text-lg font-bold text-slate-900">{value}</p>
+              <p className="text-xs text-muted-foreground">{label}</p>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1.5">
+          <p className="text-sm font-medium">{t.feedbackPrice}</p>
+          <div className="flex h-2.5 rounded-full overflow-hidden bg-muted">
+            {PRICE_PERCEPTIONS.map((p) => (
+              <div
+                key={p}
+                style={{ width: `${(feedback.price[p] / feedback.responses) * 100}%`, background: priceColor[p] }}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {PRICE_PERCEPTIONS.map((p) => (
+              <span key={p} className="flex items-center gap-1.5">
+                <span className="h-2 w-2 rounded-full" style={{ background: priceColor[p] }} />
+                {t.feedbackPriceLabels[p]} · {feedback.price[p]}
+              </span>
+            ))}
+          </div>
+        </div>
+        {feedback.comments.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">{t.feedbackComments}</p>
+            {feedback.comments.map((c, i) => (
+              <div key={i} className="flex gap-2 text-sm">
+                <CornerDownRight className="h-4 w-4 text-[#4F46E5]/60 mt-0.5 shrink-0" />
+                <div>
+                  <p className="whitespace-pre-line">“{c.text}”</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(c.submittedAt).toLocaleDateString(t.locale, {
+                      timeZone: tz, month: "short", day: "numeric", year: "numeric",
+                    })}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function ChartCard({
   title,
   subtitle,
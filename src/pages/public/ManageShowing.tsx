@@ -0,0 +1,346 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Loader2, CalendarClock, XCircle, AlertTriangle } from "lucide-react";
+
+import { useSeo } from "@/hooks/useSeo";
+/**
+ * Reschedule or cancel a booked tour from the link in the confirmation email
+ * (minted by book-public-showing, verified by the manage-showing function).
+ *
+ * Lives on the app domain for the same reason as ShowingAttendance: Supabase
+ * will not serve text/html from *.supabase.co, so the function speaks JSON.
+ * Opening the link only reads; nothing moves until a button is pressed.
+ */
+
+const FN_URL = `${import.meta.env.VITE_SUPABASE_URL || "https://glzzzthgotfwoiaranmp.supabase.co"}/functions/v1/manage-showing`;
+
+interface Slot {
+  id: string;
+  date: string;
+  time: string;
+}
+
+interface Info {
+  state: "manage" | "rescheduled" | "cancelled" | "closed";
+  first_name: string;
+  address: string;
+  when: string;
+  previous_when?: string;
+  duration_minutes: number;
+  can_reschedule?: boolean;
+  slots?: Slot[];
+  /** Self-guided tours: the door code for the new time (code null = not issued). */
+  access?: {
+    code: string | null;
+    valid_from: string | null;
+    valid_until: string | null;
+    instructions: string | null;
+  } | null;
+}
+
+const ERROR_TEXT: Record<string, string> = {
+  invalid_or_expired: "This link is invalid or has expired.",
+  not_found: "We couldn't find that showing.",
+  slot_taken: "That time was just taken. Please pick another one.",
+  daily_cap: "You already have the maximum number of tours booked that day. Please pick another day.",
+  lead_conflict: "You already have another tour booked at that time. Please pick another time.",
+  property_unavailable: "This home is no longer available for showings.",
+  save_failed: "We couldn't save that change. Please try again.",
+};
+
+// Errors that still leave the page usable — show them above the slot list.
+const RECOVERABLE = new Set(["slot_taken", "daily_cap", "lead_conflict", "save_failed"]);
+
+const formatTime = (t: string) => {
+  const [h, m] = t.split(":").map(Number);
+  return `${h % 12 === 0 ? 12 : h % 12}:${String(m).padStart(2, "0")} ${h >= 12 ? "PM" : "AM"}`;
+};
+
+const formatDay = (d: string) =>
+  new Date(`${d}T12:00:00`).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" });
+
+const Shell = ({ children }: { children: React.ReactNode }) => (
+  <div className="min-h-screen bg-[#f3f4f6] flex items-center justify-center p-5">
+    <div className="bg-white rounded-2xl max-w-md w-full overflow-hidden shadow-[0_8px_32px_rgba(0,0,0,0.08)]">
+      {children}
+    </div>
+  </div>
+);
+
+const Header = ({ title }: { title: string }) => (
+  <div className="bg-gradient-to-br from-[#4F46E5] to-[#6366F1] px-6 py-5">
+    <h1 className="text-white text-lg font-bold m-0">{title}</h1>
+  </div>
+);
+
+async function fetchInfo(token: string): Promise<{ info: Info } | { error: string }> {
+  try {
+    const r = await fetch(`${FN_URL}?t=${encodeURIComponent(token)}`);
+    const body = await r.json();
+    if (body?.error) return { error: ERROR_TEXT[body.error] || "We couldn't open this link." };
+    return { info: body as Info };
+  } catch {
+    return { error: "We couldn't connect. Check your connection and try again." };
+  }
+}
+
+const Details = ({ address, when }: { address: string; when: string }) => (
+  <div className="space-y-1 text-sm text-slate-700">
+    <p className="m-0 font-semibold text-slate-900">{address}</p>
+    <p className="m-0 text-slate-500">{when}</p>
+  </div>
+);
+
+const AccessCode = ({ access }: { access: NonNullable<Info["access"]> }) => (
+  <div className="rounded-lg bg-amber-50 border-l-4 border-amber-400 p-3 space-y-1.5 text-sm text-slate-700">
+    <p className="m-0 font-semibold text-slate-900">Self-guided tour — no agent will meet you.</p>
+    {access.code ? (
+      <>
+        <p className="m-0">
+          Your new door code: <span className="font-bold text-lg tracking-widest">{access.code}</span>
+        </p>
+        <p className="m-0 text-xs text-slate-500">
+          It works from {access.valid_from} to {access.valid_until}. Your old code no longer works.
+        </p>
+      </>
+    ) : (
+      <p className="m-0">We'll send your new door code shortly. Your old code no longer works.</p>
+    )}
+    {access.instructions && <p className="m-0 whitespace-pre-line">{access.instructions}</p>}
+    <p className="m-0 text-xs text-slate-500">
+      The check-out link in your confirmation email still works for the new time.
+    </p>
+  </div>
+);
+
+const ManageShowing = () => {
+  // Opened from an email with a token in the URL: never indexed.
+  useSeo({ title: "Manage Your Showing | Rent Finder Cleveland", noindex: true });
+  const [params] = useSearchParams();
+  const token = params.get("t") || "";
+
+  const [info, setInfo] = useState<Info | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [loading, setLoading] = useState(!!token);
+  const [saving, setSaving] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [confirmCancel, setConfirmCancel] = useState(false);
+
+  const apply = useCallback((res: { info: Info } | { error: string }) => {
+    if ("info" in res) setInfo(res.info);
+    else setError(res.error);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (token) fetchInfo(token).then(apply);
+  }, [token, apply]);
+
+  const submit = async (payload: { action: "cancel" } | { action: "reschedule"; slot_id: string }) => {
+    setSaving(true);
+    setNotice(null);
+    try {
+      const r = await fetch(FN_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ t: token, ...payload }),
+      });
+      const body = await r.json();
+      if (body?.error && RECOVERABLE.has(body.error)) {
+        setNotice(ERROR_TEXT[body.error]);
+        setSelected(null);
+        apply(await fetchInfo(token));
+      } else if (body?.error) {
+        setError(ERROR_TEXT[body.error] || "We couldn't save that change.");
+      } else {
+        setInfo(body as Info);
+      }
+    } catch {
+      setNotice("We couldn't save that change. Check your connection.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, Slot[]>();
+    for (const s of info?.slots || []) {
+      if (!byDay.has(s.date)) byDay.set(s.date, []);
+      byDay.get(s.date)!.push(s);
+    }
+    return [...byDay.entries()];
+  }, [info?.slots]);
+
+  if (loading) {
+    return (
+      <Shell>
+        <Header title="Opening your showing…" />
+        <div className="p-8 flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-[#4F46E5]" />
+        </div>
+      </Shell>
+    );
+  }
+
+  if (error || !info) {
+    return (
+      <Shell>
+        <Header title="Link not valid" />
+        <div className="px-6 py-5 space-y-3">
+          <div className="flex items-start gap-2 text-sm text-slate-600">
+            <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 shrink-0" />
+            <p className="m-0">{error || ERROR_TEXT.invalid_or_expired}</p>
+          </div>
+          <p className="text-sm text-slate-500 m-0">
+            To change your showing, reply to your confirmation email or give us a call.
+          </p>
+        </div>
+      </Shell>
+    );
+  }
+
+  if (info.state === "rescheduled") {
+    return (
+      <Shell>
+        <Header title="Showing rescheduled" />
+        <div className="px-6 py-5 space-y-3">
+          <div className="text-4xl text-center">📅</div>
+          <Details address={info.address} when={info.when} />
+          {info.previous_when && (
+            <p className="text-xs text-slate-400 m-0 line-through">{info.previous_when}</p>
+          )}
+          <p className="text-sm text-slate-600 m-0">
+            You're all set{info.first_name ? `, ${info.first_name}` : ""}. Your old time has been released.
+            This link still works if you need to change it again.
+          </p>
+          {info.access && <AccessCode access={info.access} />}
+        </div>
+      </Shell>
+    );
+  }
+
+  if (info.state === "cancelled") {
+    return (
+      <Shell>
+        <Header title="Showing cancelled" />
+        <div className="px-6 py-5 space-y-3">
+          <Details address={info.address} when={info.when} />
+          <p className="text-sm text-slate-600 m-0">
+            Your showing is cancelled. Thanks for letting us know — the time is open for someone else now.
+          </p>
+        </div>
+      </Shell>
+    );
+  }
+
+  if (info.state === "closed") {
+    return (
+      <Shell>
+        <Header title="This showing can't be changed" />
+        <div className="px-6 py-5 space-y-3">
+          <Details address={info.address} when={info.when} />
+          <p className="text-sm text-slate-600 m-0">
+            This showing has already taken place or been closed. To book another tour, reply to your
+            confirmation email or give us a call.
+          </p>
+        </div>
+      </Shell>
+    );
+  }
+
+  if (confirmCancel) {
+    return (
+      <Shell>
+        <Header title="Cancel this showing?" />
+        <div className="px-6 py-5 space-y-4">
+          <Details address={info.address} when={info.when} />
+          <button
+            onClick={() => submit({ action: "cancel" })}
+            disabled={saving}
+            className="w-full h-12 rounded-xl bg-red-600 hover:bg-red-600/90 disabled:opacity-60 text-white font-bold text-[15px] flex items-center justify-center gap-2 transition-colors"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4" />}
+            Yes, cancel my showing
+          </button>
+          <button
+            onClick={() => setConfirmCancel(false)}
+            disabled={saving}
+            className="w-full h-10 rounded-xl text-slate-600 hover:bg-slate-50 text-sm font-medium"
+          >
+            Keep it
+          </button>
+        </div>
+      </Shell>
+    );
+  }
+
+  return (
+    <Shell>
+      <Header title={`Manage your showing${info.first_name ? `, ${info.first_name}` : ""}`} />
+      <div className="px-6 py-5 space-y-4">
+        <Details address={info.address} when={info.when} />
+
+        {notice && (
+          <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p className="m-0">{notice}</p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <p className="text-sm font-semibold text-slate-900 m-0">Pick a new time</p>
+          {!info.can_reschedule ? (
+            <p className="text-sm text-slate-500 m-0">This home is no longer taking new showings.</p>
+          ) : days.length === 0 ? (
+            <p className="text-sm text-slate-500 m-0">
+              There are no other open times for this home right now. Check back later, or cancel below.
+            </p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto space-y-3 pr-1">
+              {days.map(([day, slots]) => (
+                <div key={day}>
+                  <p className="text-xs font-medium text-slate-500 m-0 mb-1.5">{formatDay(day)}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {slots.map((s) => (
+                      <button
+                        key={s.id}
+                        onClick={() => setSelected(s.id)}
+                        disabled={saving}
+                        className={`h-9 px-3 rounded-lg border text-sm font-medium transition-colors ${
+                          selected === s.id
+                            ? "bg-[#4F46E5] border-[#4F46E5] text-white"
+                            : "border-slate-200 text-slate-700 hover:border-[#4F46E5]"
+                        }`}
+                      >
+                        {formatTime(s.time)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={() => selected && submit({ action: "reschedule", slot_id: selected })}
+            disabled={!selected || saving}
+            className="w-full h-12 rounded-xl bg-[#4F46E5] hover:bg-[#4F46E5]/90 disabled:opacity-60 text-white font-bold text-[15px] flex items-center justify-center gap-2 transition-colors"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarClock className="h-4 w-4" />}
+            Move my showing
+          </button>
+        </div>
+
+        <button
+          onClick={() => setConfirmCancel(true)}
+          disabled={saving}
+          className="w-full h-10 rounded-xl text-red-600 hover:bg-red-50 text-sm font-medium"
+        >
+          Cancel my showing instead
+        </button>
+      </div>
+    </Shell>
+  );
+};
+
+export default ManageShowing;
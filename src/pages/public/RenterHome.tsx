@@ -17,7 +17,7 @@ import {
 import {
   MapPin, BedDouble, Bath, Search, CheckCircle2, Home as HomeIcon,
   Phone, CalendarCheck, ShieldCheck, Clock, KeyRound, ArrowRight, FileSignature,
-  MessageSquare, X, SlidersHorizontal, Plus, List, Map as MapIcon, ChevronDown,
+  MessageSquare, X, SlidersHorizontal, Plus, List, Map as MapIcon, ChevronDown, BellRing,
 } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { ListingsMap } from "@/components/public/ListingsMap";
@@ -25,6 +25,8 @@ import {
   Sheet, SheetContent, SheetHeader, SheetTitle,
 } from "@/components/ui/sheet";
 import { SiteFooter } from "@/components/public/SiteFooter";
+import { cityGroupOf, isMultiFamilyType, type ListingAlertCriteria } from "@/lib/listingAlerts";
+import { ListingAlertDialog } from "@/components/public/ListingAlertDialog";
 
 const PHONE_DISPLAY = "(440) 444-4737";
 const PHONE_E164 = "+14404444737";
@@ -137,13 +139,6 @@ function titleCaseType(t: string | null): string {
 const PRICE_MIN = 700;
 const PRICE_MAX = 2000;
 
-/** Same heuristic as ScheduleShowing: duplex/triplex/fourplex/apartment/multi-unit. */
-function isMultiFamilyType(t?: string | null): boolean {
-  if (!t) return false;
-  const s = t.toLowerCase();
-  return s.includes("plex") || s.includes("multi") || s.includes("apart") || s.includes("unit");
-}
-
 /* ── Segmented filter cells (Bedrooms / Bathrooms / Property type) ──
    Exact-match semantics: a building whose units span 1–3 bd matches "2".
    "5" means 5+. "0" is Studio. */
@@ -505,11 +500,8 @@ export default function RenterHome() {
   // the data is untouched and every card still shows its real city, because
   // East Cleveland has its own housing authority, inspections and SAFMR caps
   // and a voucher holder has to know which one a home is actually in.
-  const CITY_GROUPS: Record<string, string[]> = {
-    Cleveland: ["Cleveland", "East Cleveland"],
-  };
-  const cityGroupOf = (c: string) =>
-    Object.keys(CITY_GROUPS).find((g) => CITY_GROUPS[g].includes(c)) ?? c;
+  // The grouping lives in CITY_GROUPS (lib/listingAlerts) so saved searches
+  // match new homes the same way.
   const [city, setCity] = useState(DEFAULT_CITY);
   const [area, setArea] = useState("all");
   const [beds, setBeds] = useState("any");   // exact match; "0" = Studio, "5" = 5+
@@ -690,6 +682,19 @@ export default function RenterHome() {
   // List ⇄ Map view (desktop: segmented toggle; mobile: floating button)
   const [viewMode, setViewMode] = useState<"list" | "map">("list");
 
+  // "Notify me": the current filter set, saved against the renter's email.
+  const [alertOpen, setAlertOpen] = useState(false);
+  const alertCriteria: ListingAlertCriteria = {
+    city: city !== "all" ? city : null,
+    area: area !== "all" ? area : null,
+    beds: beds !== "any" ? Number(beds) : null,
+    baths: baths !== "any" ? Number(baths) : null,
+    zip: zip !== "all" ? zip : null,
+    price_min: priceActive && priceRange[0] > PRICE_MIN ? priceRange[0] : null,
+    price_max: priceActive && priceRange[1] < PRICE_MAX ? priceRange[1] : null,
+    home_type: homeType === "single" || homeType === "multi" ? homeType : null,
+  };
+
   const resetFilters = () => {
     setCity(DEFAULT_CITY); // "all" — reset shows the whole portfolio again
     setArea("all"); setBeds("any"); setBaths("any"); setZip("all");
@@ -1075,6 +1080,9 @@ export default function RenterHome() {
             {hasActiveFilters && (
               <Button variant="outline" size="sm" onClick={resetFilters}>Clear filters</Button>
             )}
+            <Button variant="outline" size="sm" onClick={() => setAlertOpen(true)}>
+              <BellRing className="h-4 w-4 mr-1.5" /> Notify me
+            </Button>
             {/* Desktop List | Map segmented toggle */}
             <div className="hidden lg:inline-flex rounded-full border border-border/60 bg-muted/70 p-1">
               <button
@@ -1131,11 +1139,14 @@ export default function RenterHome() {
             <HomeIcon className="h-10 w-10 text-primary/50 mx-auto mb-3" />
             <p className="font-semibold text-foreground">No homes match those filters right now.</p>
             <p className="text-muted-foreground text-sm mt-1 mb-4">
-              We add homes that welcome vouchers regularly. Tell us what you're looking for and we'll reach out when something fits.
+              We add homes that welcome vouchers regularly. Save this search and we'll email you the moment one that fits opens up.
             </p>
             <div className="flex gap-2 justify-center flex-wrap">
               <Button variant="outline" onClick={resetFilters}>Clear filters</Button>
-              <Button asChild><Link to="/p/book-showing">Tell us what you need</Link></Button>
+              <Button onClick={() => setAlertOpen(true)}>
+                <BellRing className="h-4 w-4 mr-1.5" /> Notify me when one opens up
+              </Button>
+              <Button asChild variant="outline"><Link to="/p/book-showing">Tell us what you need</Link></Button>
             </div>
           </Card>
         ) : (
@@ -1269,6 +1280,8 @@ export default function RenterHome() {
         </div>
       </section>
 
+      <ListingAlertDialog open={alertOpen} onOpenChange={setAlertOpen} criteria={alertCriteria} />
+
       {/* Footer — SEO-rich internal linking into the content hub */}
       <div ref={footerRef}>
         <SiteFooter />
@@ -48,6 +48,16 @@ interface PropertyWithSlots extends Property {
 interface AvailableSlot {
   slot_time: string;
   duration_minutes: number;
+  /** Open house (capacity > 1): seats left, or full with a waitlist to join. */
+  open_house?: { seats_left: number; full: boolean };
+}
+
+interface OpenHouseSlotRow {
+  slot_date: string;
+  slot_time: string;
+  capacity: number;
+  seats_taken: number;
+  waiting: number;
 }
 
 // ── Same-day tour (back-to-back showings for one visitor) ────────────────
@@ -621,6 +631,82 @@ const UnitSelectCard: React.FC<{
 
 /* ================================================================ */
 
+// ── Fully booked home: join its waitlist instead of dead-ending ──────────
+// join-showing-waitlist keeps the place in line; send-showing-waitlist emails
+// a prefilled booking link when a slot opens, first come first served.
+const PropertyWaitlist: React.FC<{
+  propertyId: string;
+  defaultName: string;
+  defaultEmail: string;
+  defaultPhone: string;
+}> = ({ propertyId, defaultName, defaultEmail, defaultPhone }) => {
+  const [name, setName] = useState(defaultName);
+  const [email, setEmail] = useState(defaultEmail);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState<number | null | undefined>(undefined);
+  const emailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+  const join = async () => {
+    if (!emailValid) return;
+    setSaving(true);
+    setError(null);
+    const { data, error: fnError } = await supabase.functions.invoke("join-showing-waitlist", {
+      body: { property_id: propertyId, email: email.trim(), full_name: name.trim(), phone: defaultPhone },
+    });
+    if (fnError || data?.error) {
+      setError(data?.error || "We couldn't add you to the waitlist. Please try again or call us.");
+    } else {
+      setPosition(data?.position ?? null);
+      try {
+        if (name.trim()) localStorage.setItem("rf_name", name.trim());
+        localStorage.setItem("rf_email", email.trim());
+      } catch { /* storage blocked (private mode) — nothing to remember */ }
+    }
+    setSaving(false);
+  };
+
+  if (position !== undefined) {
+    return (
+      <div className="py-3 text-center space-y-1">
+        <CheckCircle className="h-6 w-6 text-emerald-600 mx-auto" />
+        <p className="text-sm font-semibold">You're on the waitlist{position ? ` — #${position} in line` : ""}.</p>
+        <p className="text-xs text-muted-foreground">
+          We'll email you as soon as a time opens, with a link to book it in one tap.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 py-1">
+      <p className="text-sm text-muted-foreground">
+        Every showing time for this home is taken. Join the waitlist and we'll email you the moment one opens.
+      </p>
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Input placeholder="Full name" value={name} onChange={(e) => setName(e.target.value)} />
+        <Input
+          type="email"
+          inputMode="email"
+          autoComplete="email"
+          placeholder="Email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <Button
+        className="w-full bg-[#4F46E5] hover:bg-[#4F46E5]/90 text-white"
+        disabled={saving || !emailValid}
+        onClick={join}
+      >
+        {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Clock className="h-4 w-4 mr-2" />}
+        Notify me when a time opens
+      </Button>
+    </div>
+  );
+};
+
 const ScheduleShowing: React.FC = () => {
   // Es el destino #1 de conversión y declaraba canonical al home, así que
   // Google lo descartaba como duplicado de la portada. La variante con
@@ -746,6 +832,8 @@ const ScheduleShowing: React.FC = () => {
   const [booked, setBooked] = useState(false);
   const [bookingError, setBookingError] = useState<string | null>(null);
   const [bookedLeadId, setBookedLeadId] = useState<string | null>(null);
+  // Set instead of a booking when the renter joined a full open house's waitlist.
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
   const [applyingSent, setApplyingSent] = useState(false);
   const [applyingLoading, setApplyingLoading] = useState(false);
 
@@ -1103,14 +1191,18 @@ const ScheduleShowing: React.FC = () => {
       const today = format(new Date(), "yyyy-MM-dd");
       const maxDate = format(addDays(new Date(), 30), "yyyy-MM-dd");
 
-      const { data, error } = await supabase
-        .from("showing_available_slots")
-        .select("slot_date, slot_time")
-        .eq("property_id", effectivePropertyId)
-        .eq("is_enabled", true)
-        .eq("is_booked", false)
-        .gte("slot_date", today)
-        .lte("slot_date", maxDate);
+      const [{ data, error }, { data: openHouses }] = await Promise.all([
+        supabase
+          .from("showing_available_slots")
+          .select("slot_date, slot_time")
+          .eq("property_id", effectivePropertyId)
+          .eq("is_enabled", true)
+          .eq("is_booked", false)
+          .gte("slot_date", today)
+          .lte("slot_date", maxDate),
+        // Full open houses are is_booked but still take waitlist sign-ups.
+        supabase.rpc("open_house_slots", { p_property: effectivePropertyId, p_from: today, p_to: maxDate }),
+      ]);
 
       if (!error && data) {
         // Apply the SAME lead-time cutoff the time grid uses, so "today" only
@@ -1121,7 +1213,11 @@ const ScheduleShowing: React.FC = () => {
         const nowInTz = new Date(new Date().toLocaleString("en-US", { timeZone: tz }));
         const todayStr = format(nowInTz, "yyyy-MM-dd");
         const cutoffMinutes = nowInTz.getHours() * 60 + nowInTz.getMinutes() + leadTimeMinutes;
-        const bookable = data.filter((d) => {
+        const candidates = [
+          ...data,
+          ...((openHouses || []) as OpenHouseSlotRow[]).map((o) => ({ slot_date: o.slot_date, slot_time: o.slot_time })),
+        ];
+        const bookable = candidates.filter((d) => {
           if (d.slot_date !== todayStr) return true;
           const [h, m] = String(d.slot_time).split(":").map(Number);
           return h * 60 + m >= cutoffMinutes;
@@ -1141,16 +1237,31 @@ const ScheduleShowing: React.FC = () => {
       setSelectedTime(null);
       const dateStr = format(selectedDate, "yyyy-MM-dd");
 
-      const { data, error } = await supabase
-        .from("showing_available_slots")
-        .select("slot_time, duration_minutes")
-        .eq("property_id", effectivePropertyId)
-        .eq("slot_date", dateStr)
-        .eq("is_enabled", true)
-        .eq("is_booked", false)
-        .order("slot_time");
-
-      if (!error && data) {
+      const [{ data: freeSlots, error }, { data: openHouses }] = await Promise.all([
+        supabase
+          .from("showing_available_slots")
+          .select("slot_time, duration_minutes")
+          .eq("property_id", effectivePropertyId)
+          .eq("slot_date", dateStr)
+          .eq("is_enabled", true)
+          .eq("is_booked", false)
+          .order("slot_time"),
+        supabase.rpc("open_house_slots", { p_property: effectivePropertyId, p_from: dateStr, p_to: dateStr }),
+      ]);
+
+      if (!error && freeSlots) {
+        // Open houses: free ones say how many spots are left; full ones are
+        // offered as "join the waitlist" at the same time.
+        const houses = new Map(((openHouses || []) as OpenHouseSlotRow[]).map((o) => [o.slot_time, o]));
+        const data: AvailableSlot[] = freeSlots.map((slot) => {
+          const o = houses.get(slot.slot_time);
+          return o ? { ...slot, open_house: { seats_left: Math.max(0, o.capacity - o.seats_taken), full: false } } : slot;
+        });
+        for (const o of houses.values()) {
+          if (data.some((slot) => slot.slot_time === o.slot_time)) continue;
+          data.push({ slot_time: o.slot_time, duration_minutes: 30, open_house: { seats_left: 0, full: true } });
+        }
+        data.sort((a, b) => a.slot_time.localeCompare(b.slot_time));
         // Filter out slots that are too close to the current time
         const tz = getTimezoneForCity(property?.city);
         const nowInTz = new Date(new Date().toLocaleString("en-US", { timeZone: tz }));
@@ -1178,6 +1289,7 @@ const ScheduleShowing: React.FC = () => {
   const isMoveInValid = /^\d{4}-\d{2}-\d{2}$/.test(moveInDate) && moveInDate >= minMoveIn;
   const isNoteValid = note.trim().length >= 3;
   const canBook = Boolean(fullName.trim()) && isPhoneValid && isMoveInValid && isNoteValid;
+  const waitlistPick = !!timeSlots.find((t) => t.slot_time === selectedTime)?.open_house?.full;
 
   // ---- Handle booking ----
   const handleBook = async () => {
@@ -1210,6 +1322,7 @@ const ScheduleShowing: React.FC = () => {
           src: attribSrc,
           campaign_id: attribCid,
           prefill_token: prefillToken,
+          join_waitlist: waitlistPick,
         },
       });
 
@@ -1230,6 +1343,11 @@ const ScheduleShowing: React.FC = () => {
 
       if (data?.error) {
         setBookingError(data.error);
+      } else if (data?.waitlisted) {
+        // No tour yet, so no same-day tour either — just the waitlist spot.
+        setBooked(true);
+        setWaitlistPosition(data.position ?? 0);
+        if (data?.lead_id) setBookedLeadId(data.lead_id);
       } else {
         setBooked(true);
         if (data?.lead_id) setBookedLeadId(data.lead_id);
@@ -1429,6 +1547,7 @@ const ScheduleShowing: React.FC = () => {
   // Reset all for "Schedule Another"
   const handleScheduleAnother = () => {
     setBooked(false);
+    setWaitlistPosition(null);
     setSelectedDate(undefined);
     setSelectedTime(null);
     setFullName("");
@@ -1885,6 +2004,26 @@ const ScheduleShowing: React.FC = () => {
               <div className="h-16 w-16 rounded-full bg-emerald-100 flex items-center justify-center mx-auto">
                 <CheckCircle className="h-8 w-8 text-emerald-600" />
               </div>
+              {waitlistPosition !== null ? (
+                <>
+                  <h2 className="text-xl font-bold">You're on the Waitlist</h2>
+                  <p className="text-muted-foreground">
+                    The open house on{" "}
+                    <span className="font-semibold text-foreground">
+                      {selectedDate && format(selectedDate, "EEEE, MMMM d, yyyy")}
+                    </span>{" "}
+                    at{" "}
+                    <span className="font-semibold text-foreground">
+                      {selectedTime && formatTime(selectedTime)}
+                    </span>{" "}
+                    is full{waitlistPosition > 0 ? <> — you're <span className="font-semibold text-foreground">#{waitlistPosition}</span> in line</> : ""}.
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    If someone cancels, we'll book you in automatically and email you a confirmation.
+                  </p>
+                </>
+              ) : (
+              <>
               <h2 className="text-xl font-bold">Showing Confirmed!</h2>
               <p className="text-muted-foreground">
                 Your showing has been scheduled for{" "}
@@ -1901,6 +2040,8 @@ const ScheduleShowing: React.FC = () => {
                 You'll receive a confirmation call or text shortly. If you need to reschedule,
                 please call us directly.
               </p>
+              </>
+              )}
 
               {/* Same-day tour: itinerary summary (once there are 2+ stops) */}
               {tourStops.length >= 2 && (
@@ -2056,9 +2197,13 @@ const ScheduleShowing: React.FC = () => {
                     ))}
                   </div>
                 ) : availableDates.length === 0 ? (
-                  <p className="text-sm text-muted-foreground py-4 text-center">
-                    No available dates at this time. Please check back later or call us.
-                  </p>
+                  <PropertyWaitlist
+                    key={property.id}
+                    propertyId={property.id}
+                    defaultName={fullName}
+                    defaultEmail={email}
+                    defaultPhone={phone}
+                  />
                 ) : (
                   <div
                     className="flex gap-1.5 overflow-x-auto pb-1 -mx-1 px-1 snap-x snap-mandatory [&::-webkit-scrollbar]:hidden"
@@ -2151,6 +2296,11 @@ const ScheduleShowing: React.FC = () => {
                         >
                           <Clock className="h-3.5 w-3.5 mr-1.5" />
                           {formatTime(slot.slot_time)}
+                          {slot.open_house && (
+                            <span className="ml-1 text-[10px] opacity-80">
+                              {slot.open_house.full ? "· waitlist" : `· ${slot.open_house.seats_left} left`}
+                            </span>
+                          )}
                         </Button>
                       ))}
                     </div>
@@ -2351,7 +2501,7 @@ const ScheduleShowing: React.FC = () => {
                       ) : (
                         <>
                           <CheckCircle className="h-4 w-4 mr-2" />
-                          Confirm Showing
+                          {waitlistPick ? "Join Waitlist" : "Confirm Showing"}
                         </>
                       )}
                     </Button>
@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Loader2, LogOut, AlertTriangle } from "lucide-react";
+
+import { useSeo } from "@/hooks/useSeo";
+/**
+ * Check-out form at the end of a self-guided tour (link minted by
+ * book-public-showing, recorded by the self-guided-checkout function). With
+ * no agent on site, what the renter answers here is the showing report.
+ *
+ * Lives on the app domain for the same reason as ShowingAttendance: Supabase
+ * will not serve text/html from *.supabase.co, so the function speaks JSON.
+ */
+
+const FN_URL = `${import.meta.env.VITE_SUPABASE_URL || "https://glzzzthgotfwoiaranmp.supabase.co"}/functions/v1/self-guided-checkout`;
+
+type Interest = "high" | "medium" | "low" | "not_interested";
+
+interface Info {
+  state: "checkout" | "checked_out" | "already_checked_out" | "too_early" | "cancelled" | "closed";
+  first_name: string;
+  address: string;
+  when: string;
+  locked_up?: boolean;
+}
+
+const ERROR_TEXT: Record<string, string> = {
+  invalid_or_expired: "This link is invalid or has expired.",
+  not_found: "We couldn't find that showing.",
+  save_failed: "We couldn't save your check-out. Please try again.",
+  bad_request: "Please answer the questions above.",
+};
+
+const INTEREST_OPTIONS: { value: Interest; label: string }[] = [
+  { value: "high", label: "Very interested" },
+  { value: "medium", label: "Somewhat" },
+  { value: "low", label: "Not really" },
+  { value: "not_interested", label: "Not for me" },
+];
+
+const Shell = ({ children }: { children: React.ReactNode }) => (
+  <div className="min-h-screen bg-[#f3f4f6] flex items-center justify-center p-5">
+    <div className="bg-white rounded-2xl max-w-md w-full overflow-hidden shadow-[0_8px_32px_rgba(0,0,0,0.08)]">
+      {children}
+    </div>
+  </div>
+);
+
+const Header = ({ title }: { title: string }) => (
+  <div className="bg-gradient-to-br from-[#4F46E5] to-[#6366F1] px-6 py-5">
+    <h1 className="text-white text-lg font-bold m-0">{title}</h1>
+  </div>
+);
+
+const Details = ({ address, when }: { address: string; when: string }) => (
+  <div className="space-y-1 text-sm text-slate-700">
+    <p className="m-0 font-semibold text-slate-900">{address}</p>
+    <p className="m-0 text-slate-500">{when}</p>
+  </div>
+);
+
+const Choice = ({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`h-10 px-3 rounded-lg border text-sm font-medium transition-colors ${
+      active ? "bg-[#4F46E5] border-[#4F46E5] text-white" : "border-slate-200 text-slate-700 hover:border-[#4F46E5]"
+    }`}
+  >
+    {children}
+  </button>
+);
+
+async function fetchInfo(token: string): Promise<{ info: Info } | { error: string }> {
+  try {
+    const r = await fetch(`${FN_URL}?t=${encodeURIComponent(token)}`);
+    const body = await r.json();
+    if (body?.error) return { error: ERROR_TEXT[body.error] || "We couldn't open this link." };
+    return { info: body as Info };
+  } catch {
+    return { error: "We couldn't connect. Check your connection and try again." };
+  }
+}
+
+const SelfGuidedCheckout = () => {
+  // Opened from an email with a token in the URL: never indexed.
+  useSeo({ title: "Check Out | Rent Finder Cleveland", noindex: true });
+  const [params] = useSearchParams();
+  const token = params.get("t") || "";
+
+  const [info, setInfo] = useState<Info | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [loading, setLoading] = useState(!!token);
+  const [saving, setSaving] = useState(false);
+
+  const [toured, setToured] = useState<boolean | null>(null);
+  const [interest, setInterest] = useState<Interest | null>(null);
+  const [lockedUp, setLockedUp] = useState<boolean | null>(null);
+  const [notes, setNotes] = useState("");
+
+  const apply = useCallback((res: { info: Info } | { error: string }) => {
+    if ("info" in res) setInfo(res.info);
+    else setError(res.error);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (token) fetchInfo(token).then(apply);
+  }, [token, apply]);
+
+  const ready = toured !== null && lockedUp !== null && (!toured || interest !== null);
+
+  const submit = async () => {
+    if (!ready) return;
+    setSaving(true);
+    setNotice(null);
+    try {
+      const r = await fetch(FN_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ t: token, toured, interest: toured ? interest : null, locked_up: lockedUp, notes }),
+      });
+      const body = await r.json();
+      if (body?.error === "save_failed" || body?.error === "bad_request") setNotice(ERROR_TEXT[body.error]);
+      else if (body?.error) setError(ERROR_TEXT[body.error] || "We couldn't save your check-out.");
+      else setInfo(body as Info);
+    } catch {
+      setNotice("We couldn't save your check-out. Check your connection.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Shell>
+        <Header title="Opening your check-out…" />
+        <div className="p-8 flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-[#4F46E5]" />
+        </div>
+      </Shell>
+    );
+  }
+
+  if (error || !info) {
+    return (
+      <Shell>
+        <Header title="Link not valid" />
+        <div className="px-6 py-5 space-y-3">
+          <div className="flex items-start gap-2 text-sm text-slate-600">
+            <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 shrink-0" />
+            <p className="m-0">{error || ERROR_TEXT.invalid_or_expired}</p>
+          </div>
+          <p className="text-sm text-slate-500 m-0">
+            Please reply to your confirmation email or give us a call to let us know how the tour went.
+          </p>
+        </div>
+      </Shell>
+    );
+  }
+
+  if (info.state === "checked_out" || info.state === "already_checked_out") {
+    return (
+      <Shell>
+        <Header title="You're checked out" />
+        <div className="px-6 py-5 space-y-3">
+          <div className="text-4xl text-center">👋</div>
+          <Details address={info.address} when={info.when} />
+          <p className="text-sm text-slate-600 m-0">
+            Thanks{info.first_name ? `, ${info.first_name}` : ""}! Your door code no longer works.
+            {info.locked_up === false && " We've let the team know the home may not be locked — someone will check on it."}
+          </p>
+        </div>
+      </Shell>
+    );
+  }
+
+  if (info.state !== "checkout") {
+    const text = info.state === "too_early"
+      ? "Check-out opens when your tour starts. Come back to this link before you leave the home."
+      : info.state === "cancelled"
+        ? "This showing was cancelled, so there's nothing to check out of."
+        : "This showing is already closed.";
+    return (
+      <Shell>
+        <Header title={info.state === "too_early" ? "Not yet" : "Nothing to check out"} />
+        <div className="px-6 py-5 space-y-3">
+          <Details address={info.address} when={info.when} />
+          <p className="text-sm text-slate-600 m-0">{text}</p>
+        </div>
+      </Shell>
+    );
+  }
+
+  return (
+    <Shell>
+      <Header title={`Check out${info.first_name ? `, ${info.first_name}` : ""}`} />
+      <div className="px-6 py-5 space-y-5">
+        <Details address={info.address} when={info.when} />
+
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-slate-900 m-0">Did you tour the home?</p>
+          <div className="flex gap-2">
+            <Choice active={toured === true} onClick={() => setToured(true)}>Yes</Choice>
+            <Choice active={toured === false} onClick={() => setToured(false)}>No, I couldn't get in</Choice>
+          </div>
+        </div>
+
+        {toured && (
+          <div className="space-y-2">
+            <p className="text-sm font-semibold text-slate-900 m-0">How interested are you?</p>
+            <div className="flex flex-wrap gap-2">
+              {INTEREST_OPTIONS.map((o) => (
+                <Choice key={o.value} active={interest === o.value} onClick={() => setInterest(o.value)}>
+                  {o.label}
+                </Choice>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-slate-900 m-0">Is the door locked and the key/lockbox secured?</p>
+          <div className="flex gap-2">
+            <Choice active={lockedUp === true} onClick={() => setLockedUp(true)}>Yes</Choice>
+            <Choice active={lockedUp === false} onClick={() => setLockedUp(false)}>No / not sure</Choice>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-slate-900 m-0">Anything we should know? (optional)</p>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            maxLength={1000}
+            rows={3}
+            className="w-full rounded-lg border border-slate-200 p-2 text-sm focus:outline-none focus:border-[#4F46E5]"
+            placeholder="Questions, problems getting in, anything that looked wrong…"
+          />
+        </div>
+
+        {notice && (
+          <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p className="m-0">{notice}</p>
+          </div>
+        )}
+
+        <button
+          onClick={submit}
+          disabled={!ready || saving}
+          className="w-full h-12 rounded-xl bg-[#4F46E5] hover:bg-[#4F46E5]/90 disabled:opacity-60 text-white font-bold text-[15px] flex items-center justify-center gap-2 transition-colors"
+        >
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+          Check out
+        </button>
+      </div>
+    </Shell>
+  );
+};
+
+export default SelfGuidedCheckout;
@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Loader2, Send, AlertTriangle } from "lucide-react";
+
+import { useSeo } from "@/hooks/useSeo";
+import { SURVEY_MAX_COMMENTS, type PricePerception } from "@/lib/showingSurveys";
+/**
+ * Post-tour survey (link in the post-showing email, recorded by the
+ * showing-survey function). What renters answer here is what the owner reads
+ * in the Leasing Tracker when a unit isn't renting.
+ *
+ * Lives on the app domain for the same reason as ShowingAttendance: Supabase
+ * will not serve text/html from *.supabase.co, so the function speaks JSON.
+ */
+
+const FN_URL = `${import.meta.env.VITE_SUPABASE_URL || "https://glzzzthgotfwoiaranmp.supabase.co"}/functions/v1/showing-survey`;
+
+interface Info {
+  state: "survey" | "answered" | "already_answered" | "closed";
+  first_name: string;
+  address: string;
+  when: string;
+}
+
+const ERROR_TEXT: Record<string, string> = {
+  invalid_or_expired: "This link is invalid or has expired.",
+  not_found: "We couldn't find that showing.",
+  save_failed: "We couldn't save your answers. Please try again.",
+  bad_request: "Please answer the questions above.",
+};
+
+const PRICE_OPTIONS: { value: PricePerception; label: string }[] = [
+  { value: "too_high", label: "Too high" },
+  { value: "fair", label: "About right" },
+  { value: "good_value", label: "Good value" },
+];
+
+const Shell = ({ children }: { children: React.ReactNode }) => (
+  <div className="min-h-screen bg-[#f3f4f6] flex items-center justify-center p-5">
+    <div className="bg-white rounded-2xl max-w-md w-full overflow-hidden shadow-[0_8px_32px_rgba(0,0,0,0.08)]">
+      {children}
+    </div>
+  </div>
+);
+
+const Header = ({ title }: { title: string }) => (
+  <div className="bg-gradient-to-br from-[#4F46E5] to-[#6366F1] px-6 py-5">
+    <h1 className="text-white text-lg font-bold m-0">{title}</h1>
+  </div>
+);
+
+const Details = ({ address, when }: { address: string; when: string }) => (
+  <div className="space-y-1 text-sm text-slate-700">
+    <p className="m-0 font-semibold text-slate-900">{address}</p>
+    <p className="m-0 text-slate-500">{when}</p>
+  </div>
+);
+
+const Choice = ({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`h-10 px-3 rounded-lg border text-sm font-medium transition-colors ${
+      active ? "bg-[#4F46E5] border-[#4F46E5] text-white" : "border-slate-200 text-slate-700 hover:border-[#4F46E5]"
+    }`}
+  >
+    {children}
+  </button>
+);
+
+/** 1–5 with the two ends labelled, so nobody has to guess which way is good. */
+const Rating = ({
+  question, low, high, value, onChange,
+}: { question: string; low: string; high: string; value: number | null; onChange: (v: number) => void }) => (
+  <div className="space-y-2">
+    <p className="text-sm font-semibold text-slate-900 m-0">{question}</p>
+    <div className="grid grid-cols-5 gap-2">
+      {[1, 2, 3, 4, 5].map((n) => (
+        <Choice key={n} active={value === n} onClick={() => onChange(n)}>{n}</Choice>
+      ))}
+    </div>
+    <div className="flex justify-between text-xs text-slate-400">
+      <span>{low}</span>
+      <span>{high}</span>
+    </div>
+  </div>
+);
+
+async function fetchInfo(token: string): Promise<{ info: Info } | { error: string }> {
+  try {
+    const r = await fetch(`${FN_URL}?t=${encodeURIComponent(token)}`);
+    const body = await r.json();
+    if (body?.error) return { error: ERROR_TEXT[body.error] || "We couldn't open this link." };
+    return { info: body as Info };
+  } catch {
+    return { error: "We couldn't connect. Check your connection and try again." };
+  }
+}
+
+const ShowingSurvey = () => {
+  // Opened from an email with a token in the URL: never indexed.
+  useSeo({ title: "How Was Your Tour? | Rent Finder Cleveland", noindex: true });
+  const [params] = useSearchParams();
+  const token = params.get("t") || "";
+
+  const [info, setInfo] = useState<Info | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [loading, setLoading] = useState(!!token);
+  const [saving, setSaving] = useState(false);
+
+  const [condition, setCondition] = useState<number | null>(null);
+  const [price, setPrice] = useState<PricePerception | null>(null);
+  const [neighborhood, setNeighborhood] = useState<number | null>(null);
+  const [likelihood, setLikelihood] = useState<number | null>(null);
+  const [comments, setComments] = useState("");
+
+  const apply = useCallback((res: { info: Info } | { error: string }) => {
+    if ("info" in res) setInfo(res.info);
+    else setError(res.error);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (token) fetchInfo(token).then(apply);
+  }, [token, apply]);
+
+  const ready = condition !== null && price !== null && neighborhood !== null && likelihood !== null;
+
+  const submit = async () => {
+    if (!ready) return;
+    setSaving(true);
+    setNotice(null);
+    try {
+      const r = await fetch(FN_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          t: token,
+          condition_rating: condition,
+          price_perception: price,
+          neighborhood_fit: neighborhood,
+          apply_likelihood: likelihood,
+          comments,
+        }),
+      });
+      const body = await r.json();
+      if (body?.error === "save_failed" || body?.error === "bad_request") setNotice(ERROR_TEXT[body.error]);
+      else if (body?.error) setError(ERROR_TEXT[body.error] || "We couldn't save your answers.");
+      else setInfo(body as Info);
+    } catch {
+      setNotice("We couldn't save your answers. Check your connection.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Shell>
+        <Header title="Opening your survey…" />
+        <div className="p-8 flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-[#4F46E5]" />
+        </div>
+      </Shell>
+    );
+  }
+
+  if (error || !info) {
+    return (
+      <Shell>
+        <Header title="Link not valid" />
+        <div className="px-6 py-5 space-y-3">
+          <div className="flex items-start gap-2 text-sm text-slate-600">
+            <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 shrink-0" />
+            <p className="m-0">{error || ERROR_TEXT.invalid_or_expired}</p>
+          </div>
+          <p className="text-sm text-slate-500 m-0">
+            You can always reply to our email to tell us how the tour went.
+          </p>
+        </div>
+      </Shell>
+    );
+  }
+
+  if (info.state === "answered" || info.state === "already_answered") {
+    return (
+      <Shell>
+        <Header title="Thanks for the feedback" />
+        <div className="px-6 py-5 space-y-3">
+          <div className="text-4xl text-center">🙏</div>
+          <Details address={info.address} when={info.when} />
+          <p className="text-sm text-slate-600 m-0">
+            {info.state === "answered"
+              ? `Thanks${info.first_name ? `, ${info.first_name}` : ""}! Your answers help us and the owner get this home right.`
+              : "We already have your answers for this tour."}
+          </p>
+        </div>
+      </Shell>
+    );
+  }
+
+  if (info.state !== "survey") {
+    return (
+      <Shell>
+        <Header title="Nothing to rate" />
+        <div className="px-6 py-5 space-y-3">
+          <Details address={info.address} when={info.when} />
+          <p className="text-sm text-slate-600 m-0">This survey is only for tours that took place.</p>
+        </div>
+      </Shell>
+    );
+  }
+
+  return (
+    <Shell>
+      <Header title={`How was the tour${info.first_name ? `, ${info.first_name}` : ""}?`} />
+      <div className="px-6 py-5 space-y-5">
+        <Details address={info.address} when={info.when} />
+
+        <Rating
+          question="Condition of the home"
+          low="Poor"
+          high="Excellent"
+          value={condition}
+          onChange={setCondition}
+        />
+
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-slate-900 m-0">The rent for this home is…</p>
+          <div className="flex flex-wrap gap-2">
+            {PRICE_OPTIONS.map((o) => (
+              <Choice key={o.value} active={price === o.value} onClick={() => setPrice(o.value)}>
+                {o.label}
+              </Choice>
+            ))}
+          </div>
+        </div>
+
+        <Rating
+          question="How well does the neighborhood fit you?"
+          low="Not at all"
+          high="Perfectly"
+          value={neighborhood}
+          onChange={setNeighborhood}
+        />
+
+        <Rating
+          question="How likely are you to apply?"
+          low="Not likely"
+          high="Very likely"
+          value={likelihood}
+          onChange={setLikelihood}
+        />
+
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-slate-900 m-0">Anything else? (optional)</p>
+          <textarea
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            maxLength={SURVEY_MAX_COMMENTS}
+            rows={3}
+            className="w-full rounded-lg border border-slate-200 p-2 text-sm focus:outline-none focus:border-[#4F46E5]"
+            placeholder="What you liked, what held you back…"
+          />
+          <p className="text-xs text-slate-400 m-0">Shared with the owner without your name or contact details.</p>
+        </div>
+
+        {notice && (
+          <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <p className="m-0">{notice}</p>
+          </div>
+        )}
+
+        <button
+          onClick={submit}
+          disabled={!ready || saving}
+          className="w-full h-12 rounded-xl bg-[#4F46E5] hover:bg-[#4F46E5]/90 disabled:opacity-60 text-white font-bold text-[15px] flex items-center justify-center gap-2 transition-colors"
+        >
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          Send answers
+        </button>
+      </div>
+    </Shell>
+  );
+};
+
+export default ShowingSurvey;
@@ -13,6 +13,8 @@ import {
   FileText,
   Eye,
   CalendarPlus,
+  Users,
+  RefreshCw,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -44,6 +46,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { usePermissions } from "@/hooks/usePermissions";
 import { useToast } from "@/hooks/use-toast";
 import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
+import { useShowingAgents } from "@/hooks/useShowingAgents";
 import { format, addDays, parseISO, startOfWeek } from "date-fns";
 import { ScheduleShowingDialog } from "@/components/showings/ScheduleShowingDialog";
 import { ShowingReportDialog } from "@/components/showings/ShowingReportDialog";
@@ -52,6 +55,8 @@ import { BookingPageTab } from "@/components/showings/BookingPageTab";
 import { ShowingDetailDialog } from "@/components/showings/ShowingDetailDialog";
 import { ShowingsAgenda } from "@/components/showings/ShowingsAgenda";
 import { LeasingAgentCalendarDialog } from "@/components/showings/LeasingAgentCalendarDialog";
+import { ShowingAgentsDialog } from "@/components/showings/ShowingAgentsDialog";
+import { CalendarSyncDialog } from "@/components/showings/CalendarSyncDialog";
 import { quickReportText } from "@/lib/showingReports";
 import type { TablesUpdate } from "@/integrations/supabase/types";
 
@@ -90,6 +95,13 @@ const ShowingsList: React.FC = () => {
   const bumpCalendar = () => setCalendarReload((n) => n + 1);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [calendarOpen, setCalendarOpen] = useState(false);
+  const [agentsOpen, setAgentsOpen] = useState(false);
+  const [calendarSyncOpen, setCalendarSyncOpen] = useState(false);
+  // Whose calendar the grid/agenda shows ("all" = everyone). The picker only
+  // appears once the org has showing agents set up.
+  const { agents: showingAgents } = useShowingAgents(userRecord?.organization_id);
+  const [agentFilter, setAgentFilter] = useState("all");
+  const agentId = agentFilter === "all" ? null : agentFilter;
 
   // Mount only the ACTIVE view variant. The previous CSS-only hiding
   // (lg:hidden / hidden lg:block) mounted BOTH the mobile Agenda and the
@@ -455,6 +467,30 @@ const ShowingsList: React.FC = () => {
                 <CalendarPlus className="h-4 w-4 sm:mr-1" />
                 <span className="hidden sm:inline">Calendario</span>
               </Button>
+              {permissions.canEditOrganizationSettings && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8"
+                  title="Showing agents (territories, hours, time off, assignment)"
+                  onClick={() => setAgentsOpen(true)}
+                >
+                  <Users className="h-4 w-4 sm:mr-1" />
+                  <span className="hidden sm:inline">Agents</span>
+                </Button>
+              )}
+              {permissions.canEditOrganizationSettings && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8"
+                  title="Two-way sync with agents' own calendars (CalDAV)"
+                  onClick={() => setCalendarSyncOpen(true)}
+                >
+                  <RefreshCw className="h-4 w-4 sm:mr-1" />
+                  <span className="hidden sm:inline">Sync</span>
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -481,6 +517,12 @@ const ShowingsList: React.FC = () => {
       </div>
 
       <LeasingAgentCalendarDialog open={calendarOpen} onOpenChange={setCalendarOpen} />
+      <CalendarSyncDialog open={calendarSyncOpen} onOpenChange={setCalendarSyncOpen} />
+      <ShowingAgentsDialog
+        open={agentsOpen}
+        onOpenChange={setAgentsOpen}
+        today={new Date().toLocaleDateString("en-CA", { timeZone: "America/New_York" })}
+      />
 
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-3">
@@ -516,6 +558,20 @@ const ShowingsList: React.FC = () => {
             </div>
           )}
 
+          {activeTab === "slots" && showingAgents.length > 0 && (
+            <Select value={agentFilter} onValueChange={setAgentFilter}>
+              <SelectTrigger className="h-8 w-44 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All agents</SelectItem>
+                {showingAgents.map((a) => (
+                  <SelectItem key={a.user_id} value={a.user_id}>{a.full_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
           {/* Portal target for ManageSlotsTab's "Missing reports" bar (desktop). */}
           <div ref={setMrSlot} className="hidden lg:flex items-center gap-2 flex-wrap" />
         </div>
@@ -582,6 +638,7 @@ const ShowingsList: React.FC = () => {
               onReload={bumpCalendar}
               onOpenReport={openReport}
               onShowingClick={openDetail}
+              agentId={agentId}
             />
           ) : desktopView === "agenda" ? (
             <div className="space-y-3">
@@ -590,6 +647,7 @@ const ShowingsList: React.FC = () => {
                 onReload={bumpCalendar}
                 onOpenReport={openReport}
                 onShowingClick={openDetail}
+                agentId={agentId}
               />
             </div>
           ) : (
@@ -599,6 +657,7 @@ const ShowingsList: React.FC = () => {
                 onOpenReport={openReport}
                 onShowingClick={openDetail}
                 headerSlot={mrSlot}
+                agentId={agentId}
               />
             </div>
           )}
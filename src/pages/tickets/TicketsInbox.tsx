@@ -0,0 +1,306 @@
+import React, { useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Inbox, LifeBuoy, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { cn } from "@/lib/utils";
+import { TicketThread, type TicketRow } from "@/components/tickets/TicketThread";
+import { NewTicketDialog, type TenantOption } from "@/components/tickets/NewTicketDialog";
+import { TICKET_STATUSES, ticketSla } from "@/lib/tickets";
+
+const ALL = "all";
+const ACTIVE = "active";
+const MINE = "mine";
+
+const TicketsInbox: React.FC = () => {
+  const { userRecord } = useAuth();
+  const permissions = usePermissions();
+  const qc = useQueryClient();
+  const orgId = userRecord?.organization_id;
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const selectedId = searchParams.get("ticket");
+  const propertyFilter = searchParams.get("property") || ALL;
+  const tenantFilter = searchParams.get("tenant") || ALL;
+  const [statusFilter, setStatusFilter] = useState(ACTIVE);
+  const [assigneeFilter, setAssigneeFilter] = useState(ALL);
+  const [newOpen, setNewOpen] = useState(false);
+
+  const setParam = (key: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (!value || value === ALL) next.delete(key);
+    else next.set(key, value);
+    setSearchParams(next);
+  };
+
+  const { data: options } = useQuery({
+    queryKey: ["ticket-options", orgId],
+    enabled: !!orgId,
+    queryFn: async () => {
+      const [propsRes, usersRes, tenantsRes] = await Promise.all([
+        supabase
+          .from("properties")
+          .select("id, address, unit_number")
+          .eq("organization_id", orgId!)
+          .order("address"),
+        supabase
+          .from("users")
+          .select("id, full_name")
+          .eq("organization_id", orgId!)
+          .eq("is_active", true)
+          .order("full_name"),
+        supabase
+          .from("tenants")
+          .select("id, first_name, last_name, email, property_id, status")
+          .order("last_name"),
+      ]);
+      const properties = (propsRes.data || []).map((p) => ({
+        id: p.id,
+        label: p.unit_number ? `${p.address} #${p.unit_number}` : p.address,
+      }));
+      const propertyLabel = new Map(properties.map((p) => [p.id, p.label]));
+      const tenants: TenantOption[] = (tenantsRes.data || [])
+        .filter((t) => propertyLabel.has(t.property_id))
+        .map((t) => ({
+          id: t.id,
+          name: `${t.first_name} ${t.last_name}`.trim(),
+          email: t.email,
+          property_id: t.property_id,
+          propertyLabel: propertyLabel.get(t.property_id) || "",
+        }));
+      return {
+        properties,
+        propertyLabel,
+        tenants,
+        assignees: (usersRes.data || []).map((u) => ({ id: u.id, label: u.full_name || "—" })),
+      };
+    },
+  });
+
+  const { data: tickets = [], isLoading } = useQuery({
+    queryKey: ["tickets", orgId],
+    enabled: !!orgId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tickets")
+        .select(
+          "id, number, subject, description, status, priority, property_id, tenant_id, assigned_to, requester_name, requester_email, created_at, first_response_at, last_message_at",
+        )
+        .eq("organization_id", orgId!)
+        .order("last_message_at", { ascending: false })
+        .limit(500);
+      if (error) throw error;
+      return data as TicketRow[];
+    },
+  });
+
+  const visible = useMemo(
+    () =>
+      tickets.filter((t) => {
+        if (propertyFilter !== ALL && t.property_id !== propertyFilter) return false;
+        if (tenantFilter !== ALL && t.tenant_id !== tenantFilter) return false;
+        if (statusFilter === ACTIVE && (t.status === "resolved" || t.status === "closed")) return false;
+        if (statusFilter !== ACTIVE && statusFilter !== ALL && t.status !== statusFilter) return false;
+        if (assigneeFilter === MINE && t.assigned_to !== userRecord?.id) return false;
+        if (assigneeFilter !== ALL && assigneeFilter !== MINE && t.assigned_to !== assigneeFilter) return false;
+        return true;
+      }),
+    [tickets, propertyFilter, tenantFilter, statusFilter, assigneeFilter, userRecord?.id],
+  );
+
+  const overdueCount = tickets.filter((t) => ticketSla(t)?.overdue).length;
+  const selected = tickets.find((t) => t.id === selectedId) || null;
+  const refresh = () => qc.invalidateQueries({ queryKey: ["tickets", orgId] });
+
+  return (
+    <div className="space-y-6 p-4 md:p-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <LifeBuoy className="h-6 w-6 text-[#4F46E5]" />
+            <h1
+              className="text-2xl md:text-3xl font-bold text-[#4F46E5]"
+              style={{ fontFamily: "Montserrat" }}
+            >
+              Tenant Inbox
+            </h1>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            {tickets.filter((t) => t.status === "open").length} waiting on us
+            {overdueCount > 0 && (
+              <span className="text-red-600"> · {overdueCount} past SLA</span>
+            )}
+          </p>
+        </div>
+        {permissions.canManageTickets && (
+          <Button onClick={() => setNewOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New ticket
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <Select value={propertyFilter} onValueChange={(v) => setParam("property", v)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All properties</SelectItem>
+            {(options?.properties || []).map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={tenantFilter} onValueChange={(v) => setParam("tenant", v)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All tenants</SelectItem>
+            {(options?.tenants || []).map((t) => (
+              <SelectItem key={t.id} value={t.id}>
+                {t.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ACTIVE}>Open + waiting</SelectItem>
+            <SelectItem value={ALL}>Any status</SelectItem>
+            {TICKET_STATUSES.map((s) => (
+              <SelectItem key={s.value} value={s.value}>
+                {s.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Anyone</SelectItem>
+            <SelectItem value={MINE}>Assigned to me</SelectItem>
+            {(options?.assignees || []).map((u) => (
+              <SelectItem key={u.id} value={u.id}>
+                {u.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : (
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+          {/* List */}
+          <div className="space-y-2">
+            {visible.length === 0 ? (
+              <EmptyState
+                icon={Inbox}
+                title="Inbox zero"
+                description="No tickets match these filters."
+              />
+            ) : (
+              visible.map((t) => {
+                const sla = ticketSla(t);
+                const statusMeta = TICKET_STATUSES.find((s) => s.value === t.status);
+                return (
+                  <Card
+                    key={t.id}
+                    className={cn(
+                      "cursor-pointer p-3 transition-colors hover:bg-muted/40",
+                      t.id === selectedId && "border-primary bg-primary/5",
+                    )}
+                    onClick={() => setParam("ticket", t.id)}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-xs text-muted-foreground">#{t.number}</span>
+                          <span className="truncate font-medium">{t.subject}</span>
+                        </div>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {t.requester_name || "—"}
+                          {t.property_id ? ` · ${options?.propertyLabel.get(t.property_id) || ""}` : ""}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className={cn("shrink-0", statusMeta?.className)}>
+                        {statusMeta?.label || t.status}
+                      </Badge>
+                    </div>
+                    <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                      {sla?.overdue && (
+                        <span className="flex items-center gap-1 text-red-600">
+                          <AlertTriangle className="h-3 w-3" />
+                          {sla.kind === "first_response" ? "Reply overdue" : "Past SLA"}
+                        </span>
+                      )}
+                      {sla?.atRisk && <span className="text-amber-600">Due soon</span>}
+                      {t.last_message_at && (
+                        <span>{formatDistanceToNow(new Date(t.last_message_at), { addSuffix: true })}</span>
+                      )}
+                    </div>
+                  </Card>
+                );
+              })
+            )}
+          </div>
+
+          {/* Thread */}
+          <Card className="min-h-[28rem] overflow-hidden lg:sticky lg:top-4 lg:h-[calc(100vh-12rem)]">
+            {selected ? (
+              <TicketThread
+                key={selected.id}
+                ticket={selected}
+                propertyLabel={selected.property_id ? options?.propertyLabel.get(selected.property_id) || null : null}
+                assignees={options?.assignees || []}
+                canEdit={permissions.canManageTickets}
+                onChanged={refresh}
+              />
+            ) : (
+              <EmptyState icon={LifeBuoy} title="Pick a ticket" description="The conversation shows up here." />
+            )}
+          </Card>
+        </div>
+      )}
+
+      <NewTicketDialog
+        open={newOpen}
+        onOpenChange={setNewOpen}
+        tenants={options?.tenants || []}
+        onCreated={(id) => {
+          refresh();
+          setParam("ticket", id);
+        }}
+      />
+    </div>
+  );
+};
+
+export default TicketsInbox;
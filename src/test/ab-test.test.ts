@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  abLeader, assignAbGroups, nextVariantKey, AB_MIN_DELIVERED, AB_Z_THRESHOLD,
+  type VariantResult,
+} from "@/lib/abTest";
+
+const result = (variant: string, delivered: number, opened: number): VariantResult => ({
+  variant, delivered, opened, clicked: 0, booked: 0,
+});
+
+describe("abLeader", () => {
+  it("needs two variants with sends", () => {
+    expect(abLeader([result("A", 500, 100)], "opened")).toBeNull();
+    expect(abLeader([result("A", 500, 100), result("B", 0, 0)], "opened")).toBeNull();
+  });
+
+  it("calls a clear, well-sampled difference significant", () => {
+    const leader = abLeader([result("A", 1000, 200), result("B", 1000, 300)], "opened");
+    expect(leader?.variant).toBe("B");
+    expect(leader?.significant).toBe(true);
+  });
+
+  it("does not call a winner below the minimum sample, however big the gap", () => {
+    const leader = abLeader([result("A", 50, 5), result("B", 50, 30)], "opened");
+    expect(leader?.variant).toBe("B");
+    expect(leader?.significant).toBe(false);
+  });
+
+  it("needs the minimum sample on the runner-up too", () => {
+    const best = result("A", AB_MIN_DELIVERED, 60);
+    expect(abLeader([best, result("B", AB_MIN_DELIVERED - 1, 10)], "opened")?.significant).toBe(false);
+    expect(abLeader([best, result("B", AB_MIN_DELIVERED, 10)], "opened")?.significant).toBe(true);
+  });
+
+  it("calls a winner only at the z threshold", () => {
+    const leader = abLeader([result("A", 1000, 200), result("B", 1000, 230)], "opened")!;
+    expect(leader.z).toBeLessThan(AB_Z_THRESHOLD);
+    expect(leader.significant).toBe(false);
+  });
+
+  it("does not call a winner on noise", () => {
+    const leader = abLeader([result("A", 1000, 200), result("B", 1000, 210)], "opened");
+    expect(leader?.significant).toBe(false);
+  });
+});
+
+describe("assignAbGroups", () => {
+  const audience = Array.from({ length: 100 }, (_, i) => i);
+
+  it("splits a test fraction round-robin and holds the rest", () => {
+    const { assigned, held } = assignAbGroups(audience, ["A", "B"], 0.2);
+    expect(assigned).toHaveLength(20);
+    expect(held).toHaveLength(80);
+    expect(assigned.filter((a) => a.variant === "A")).toHaveLength(10);
+    expect(new Set([...assigned.map((a) => a.item), ...held]).size).toBe(100);
+  });
+
+  it("splits everyone when the fraction is 1", () => {
+    const { assigned, held } = assignAbGroups(audience, ["A", "B", "C"], 1);
+    expect(assigned).toHaveLength(100);
+    expect(held).toHaveLength(0);
+  });
+
+  it("gives every variant at least one recipient", () => {
+    const { assigned } = assignAbGroups([1, 2, 3, 4, 5], ["A", "B", "C"], 0.1);
+    expect(new Set(assigned.map((a) => a.variant))).toEqual(new Set(["A", "B", "C"]));
+  });
+});
+
+describe("nextVariantKey", () => {
+  it("continues the alphabet after A", () => {
+    expect(nextVariantKey(["A"])).toBe("B");
+    expect(nextVariantKey(["A", "B", "D"])).toBe("C");
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  accessWindow, FakeAccessCodeProvider, getAccessCodeProvider, issueShowingAccessCode, type AccessCodeClient,
+} from "../../supabase/functions/_shared/accessCodes.ts";
+
+describe("accessWindow", () => {
+  it("pads the slot on both sides", () => {
+    const { validFrom, validUntil } = accessWindow("2026-10-20T14:00:00Z", 30);
+    expect(validFrom.toISOString()).toBe("2026-10-20T13:45:00.000Z");
+    expect(validUntil.toISOString()).toBe("2026-10-20T14:45:00.000Z");
+  });
+});
+
+describe("FakeAccessCodeProvider", () => {
+  it("issues a six-digit code that only opens inside its window", async () => {
+    const provider = new FakeAccessCodeProvider();
+    const window = accessWindow("2026-10-20T14:00:00Z", 30);
+    const issued = await provider.issue({ showingId: "s1", lockId: null, ...window });
+
+    expect(issued.code).toMatch(/^\d{6}$/);
+    expect(provider.opens(issued.code, new Date("2026-10-20T13:50:00Z"))).toBe(true);
+    expect(provider.opens(issued.code, new Date("2026-10-20T13:30:00Z"))).toBe(false);
+    expect(provider.opens(issued.code, new Date("2026-10-20T15:00:00Z"))).toBe(false);
+  });
+
+  it("stops opening once revoked", async () => {
+    const provider = new FakeAccessCodeProvider();
+    const window = accessWindow(new Date(), 30);
+    const issued = await provider.issue({ showingId: "s1", lockId: null, ...window });
+    expect(provider.opens(issued.code)).toBe(true);
+    await provider.revoke(issued);
+    expect(provider.opens(issued.code)).toBe(false);
+  });
+});
+
+describe("getAccessCodeProvider", () => {
+  it("resolves registered names and refuses unknown ones", () => {
+    expect(getAccessCodeProvider("fake").name).toBe("fake");
+    expect(() => getAccessCodeProvider("acme-locks")).toThrow(/Unknown access code provider/);
+  });
+});
+
+describe("issueShowingAccessCode", () => {
+  const showing = {
+    organizationId: "o1", showingId: "s1", propertyId: "p1", lockId: null,
+    scheduledAt: "2026-10-20T14:00:00Z", durationMinutes: 30,
+  };
+  const clientWith = (error: { message: string } | null, rows: Record<string, unknown>[] = []) =>
+    ({ from: () => ({ insert: (row: Record<string, unknown>) => { rows.push(row); return Promise.resolve({ error }); } }) }) as unknown as AccessCodeClient;
+
+  it("stores the code with its window and provider", async () => {
+    const rows: Record<string, unknown>[] = [];
+    const issued = await issueShowingAccessCode(clientWith(null, rows), showing, new FakeAccessCodeProvider());
+    expect(rows[0]).toMatchObject({
+      showing_id: "s1", provider: "fake", code: issued.code,
+      valid_from: "2026-10-20T13:45:00.000Z", valid_until: "2026-10-20T14:45:00.000Z",
+    });
+  });
+
+  it("revokes the code at the provider when it cannot be stored", async () => {
+    const provider = new FakeAccessCodeProvider();
+    const revoke = vi.spyOn(provider, "revoke");
+    await expect(issueShowingAccessCode(clientWith({ message: "boom" }), showing, provider))
+      .rejects.toThrow(/insert failed/);
+    expect(revoke).toHaveBeenCalledTimes(1);
+  });
+});
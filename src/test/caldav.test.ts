@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildEventIcs, calendarDataOf, deleteEvent, fetchBusyBlocks, overlapsBusy, parseBusyBlocks, putEvent,
+  showingEventUid, zonedToUtc, CalDavError, type CalDavCalendar, type CalDavFetch,
+} from "../../supabase/functions/_shared/caldav.ts";
+
+const NY = "America/New_York";
+
+const vevent = (lines: string[]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", "BEGIN:VEVENT", ...lines, "END:VEVENT", "END:VCALENDAR"].join("\r\n");
+
+/** A CalDAV server in a Map: enough of REPORT / PUT / DELETE for the client. */
+function fakeServer(base: string) {
+  const store = new Map<string, string>();
+  const fetch: CalDavFetch = async (url, init) => {
+    if (init.method === "PUT") {
+      store.set(url, String(init.body));
+      return new Response(null, { status: 201, headers: { ETag: `"${store.size}"` } });
+    }
+    if (init.method === "DELETE") {
+      return new Response(null, { status: store.delete(url) ? 204 : 404 });
+    }
+    if (init.method === "REPORT" && url === base) {
+      const responses = [...store.entries()].map(([href, ics]) =>
+        `<d:response><d:href>${href}</d:href><d:propstat><d:prop><cal:calendar-data>${
+          ics.replace(/&/g, "&amp;").replace(/</g, "&lt;")
+        }</cal:calendar-data></d:prop></d:propstat></d:response>`);
+      return new Response(
+        `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">${responses.join("")}</d:multistatus>`,
+        { status: 207 },
+      );
+    }
+    return new Response(null, { status: 405 });
+  };
+  return { store, fetch };
+}
+
+describe("zonedToUtc", () => {
+  it("reads a wall-clock time in the given zone, across DST", () => {
+    expect(zonedToUtc("2026-08-20", "10:00", NY).toISOString()).toBe("2026-08-20T14:00:00.000Z");
+    expect(zonedToUtc("2026-12-20", "10:00", NY).toISOString()).toBe("2026-12-20T15:00:00.000Z");
+    expect(zonedToUtc("2026-08-20", "10:00", "America/Chicago").toISOString()).toBe("2026-08-20T15:00:00.000Z");
+  });
+});
+
+describe("parseBusyBlocks", () => {
+  it("reads UTC, zoned and floating times", () => {
+    const blocks = parseBusyBlocks(
+      [
+        vevent(["UID:a", "DTSTART:20260820T140000Z", "DTEND:20260820T150000Z"]),
+        vevent(["UID:b", "DTSTART;TZID=America/Chicago:20260820T090000", "DURATION:PT45M"]),
+        vevent(["UID:c", "DTSTART:20260820T160000", "DTEND:20260820T163000"]),
+      ].join("\r\n"),
+      NY,
+    );
+    expect(blocks.map((b) => [b.uid, b.start.toISOString(), b.end.toISOString()])).toEqual([
+      ["a", "2026-08-20T14:00:00.000Z", "2026-08-20T15:00:00.000Z"],
+      ["b", "2026-08-20T14:00:00.000Z", "2026-08-20T14:45:00.000Z"],
+      ["c", "2026-08-20T20:00:00.000Z", "2026-08-20T20:30:00.000Z"],
+    ]);
+  });
+
+  it("skips free and cancelled events, and ignores alarm durations", () => {
+    const blocks = parseBusyBlocks(
+      [
+        vevent(["UID:free", "DTSTART:20260820T140000Z", "DTEND:20260820T150000Z", "TRANSP:TRANSPARENT"]),
+        vevent(["UID:gone", "DTSTART:20260820T140000Z", "DTEND:20260820T150000Z", "STATUS:CANCELLED"]),
+        vevent([
+          "UID:dentist", "DTSTART:20260820T140000Z", "DTEND:20260820T150000Z",
+          "BEGIN:VALARM", "TRIGGER:-PT15M", "DURATION:PT5M", "ACTION:DISPLAY", "END:VALARM",
+        ]),
+      ].join("\r\n"),
+      NY,
+    );
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].end.toISOString()).toBe("2026-08-20T15:00:00.000Z");
+  });
+
+  it("treats an all-day event as the whole local day and unfolds long lines", () => {
+    const [block] = parseBusyBlocks(
+      vevent(["UID:vaca", "SUMMARY:Out of", " office", "DTSTART;VALUE=DATE:20260821", "DTEND;VALUE=DATE:20260822"]),
+      NY,
+    );
+    expect(block.start.toISOString()).toBe("2026-08-21T04:00:00.000Z");
+    expect(block.end.toISOString()).toBe("2026-08-22T04:00:00.000Z");
+  });
+});
+
+describe("calendarDataOf", () => {
+  it("unescapes the payload whatever the namespace prefix", () => {
+    const xml = `<multistatus><response><C:calendar-data>BEGIN:VCALENDAR&#13;\nX:a&amp;b&lt;</C:calendar-data></response>` +
+      `<response><calendar-data xmlns="urn:ietf:params:xml:ns:caldav"><![CDATA[BEGIN:VCALENDAR]]></calendar-data></response></multistatus>`;
+    expect(calendarDataOf(xml)).toEqual(["BEGIN:VCALENDAR\r\nX:a&b<", "BEGIN:VCALENDAR"]);
+  });
+});
+
+describe("overlapsBusy", () => {
+  const blocks = [{ start: new Date("2026-08-20T14:00:00Z"), end: new Date("2026-08-20T15:00:00Z") }];
+  it("counts any overlap but not touching ends", () => {
+    expect(overlapsBusy(new Date("2026-08-20T14:30:00Z"), new Date("2026-08-20T15:00:00Z"), blocks)).toBe(true);
+    expect(overlapsBusy(new Date("2026-08-20T15:00:00Z"), new Date("2026-08-20T15:30:00Z"), blocks)).toBe(false);
+  });
+});
+
+describe("round trip against a CalDAV server", () => {
+  const base = "https://dav.example.com/ana/personal/";
+  const cal: CalDavCalendar = { url: base, username: "ana", password: "secret" };
+  const from = new Date("2026-08-20T00:00:00Z");
+  const to = new Date("2026-08-27T00:00:00Z");
+
+  it("writes a showing, leaves it out of busy time, and deletes it", async () => {
+    const server = fakeServer(base);
+    server.store.set(`${base}dentist.ics`, vevent(["UID:dentist", "DTSTART:20260820T140000Z", "DTEND:20260820T150000Z"]));
+
+    const uid = showingEventUid("s-1");
+    const etag = await putEvent(cal, {
+      uid,
+      start: new Date("2026-08-21T14:00:00Z"),
+      end: new Date("2026-08-21T14:30:00Z"),
+      summary: "Showing — Ana Pérez — 123 Main St",
+    }, { fetch: server.fetch });
+    expect(etag).toBe('"2"');
+    expect(server.store.get(`${base}${encodeURIComponent(uid)}.ics`)).toContain(`UID:${uid}`);
+
+    const busy = await fetchBusyBlocks(cal, from, to, { fetch: server.fetch });
+    expect(busy.map((b) => b.uid)).toEqual(["dentist"]);
+
+    await deleteEvent(cal, uid, { fetch: server.fetch });
+    await deleteEvent(cal, uid, { fetch: server.fetch }); // already gone is fine
+    expect(server.store.size).toBe(1);
+  });
+
+  it("clips busy time to the window and sends basic auth", async () => {
+    let auth = "";
+    const server = fakeServer(base);
+    server.store.set(`${base}trip.ics`, vevent(["UID:trip", "DTSTART:20260819T120000Z", "DTEND:20260820T120000Z"]));
+    const [block] = await fetchBusyBlocks(cal, from, to, {
+      fetch: (url, init) => {
+        auth = String((init.headers as Record<string, string>).Authorization);
+        return server.fetch(url, init);
+      },
+    });
+    expect(block.start).toEqual(from);
+    expect(auth).toBe(`Basic ${btoa("ana:secret")}`);
+  });
+
+  it("reports a refused login with its status", async () => {
+    const refuse: CalDavFetch = async () => new Response(null, { status: 401 });
+    await expect(fetchBusyBlocks(cal, from, to, { fetch: refuse })).rejects.toMatchObject({ status: 401 });
+    await expect(fetchBusyBlocks(cal, from, to, { fetch: refuse })).rejects.toBeInstanceOf(CalDavError);
+  });
+});
+
+describe("buildEventIcs", () => {
+  it("escapes text and folds long lines at 75 octets", () => {
+    const ics = buildEventIcs({
+      uid: "u1",
+      start: new Date("2026-08-21T14:00:00Z"),
+      end: new Date("2026-08-21T14:30:00Z"),
+      summary: "Showing; Ana, Pérez",
+      description: "Aplicante: Ana Pérez\nTel: +12165550100 ".repeat(4),
+    }, new Date("2026-08-01T00:00:00Z"));
+    expect(ics).toContain("SUMMARY:Showing\\; Ana\\, Pérez");
+    expect(ics).toContain("DTSTART:20260821T140000Z");
+    for (const line of ics.split("\r\n")) expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+  });
+});
+
+// Against a real server — e.g. `docker run -p 5232:5232 tomsquest/docker-radicale`
+// with a calendar created at CALDAV_TEST_URL:
+//   CALDAV_TEST_URL=http://localhost:5232/user/test/ CALDAV_TEST_USER=user CALDAV_TEST_PASSWORD=pass npx vitest run caldav
+const live = process.env.CALDAV_TEST_URL;
+describe.skipIf(!live)("a local CalDAV server", () => {
+  it("round-trips a busy event and a showing", async () => {
+    const cal: CalDavCalendar = {
+      url: live!, username: process.env.CALDAV_TEST_USER || "", password: process.env.CALDAV_TEST_PASSWORD || "",
+    };
+    const start = new Date(Date.now() + 2 * 24 * 3600_000);
+    const end = new Date(start.getTime() + 3600_000);
+    const busyUid = `busy-${start.getTime()}`;
+    await putEvent(cal, { uid: busyUid, start, end, summary: "Dentist" });
+    await putEvent(cal, { uid: showingEventUid(`live-${start.getTime()}`), start, end, summary: "Showing" });
+
+    const blocks = await fetchBusyBlocks(cal, new Date(), new Date(Date.now() + 7 * 24 * 3600_000));
+    expect(blocks.map((b) => b.uid)).toContain(busyUid);
+    expect(blocks.some((b) => b.uid.startsWith("showing-"))).toBe(false);
+
+    await deleteEvent(cal, busyUid);
+    await deleteEvent(cal, showingEventUid(`live-${start.getTime()}`));
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { buildScheduledAt, getTimezoneForCity } from "@/lib/cityTimezone";
+
+describe("getTimezoneForCity", () => {
+  it("matches hand-typed cities regardless of case and spacing", () => {
+    expect(getTimezoneForCity("Milwaukee")).toBe("America/Chicago");
+    expect(getTimezoneForCity(" west allis ")).toBe("America/Chicago");
+    expect(getTimezoneForCity("ST LOUIS")).toBe("America/Chicago");
+  });
+
+  it("falls back to Cleveland time", () => {
+    expect(getTimezoneForCity("East Cleveland")).toBe("America/New_York");
+    expect(getTimezoneForCity("Nowhere")).toBe("America/New_York");
+    expect(getTimezoneForCity(null)).toBe("America/New_York");
+  });
+});
+
+describe("buildScheduledAt", () => {
+  it("stamps the slot with that day's offset in the property's zone", () => {
+    expect(buildScheduledAt("2026-07-01", "10:00:00", "America/Chicago")).toBe("2026-07-01T10:00:00-05:00");
+    expect(buildScheduledAt("2026-12-01", "10:00:00", "America/New_York")).toBe("2026-12-01T10:00:00-05:00");
+  });
+});
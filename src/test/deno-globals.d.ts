@@ -0,0 +1,3 @@
+// The edge-function helpers under supabase/functions/_shared are plain TS and
+// tested here, but read env vars through Deno when no value is passed in.
+declare const Deno: { env: { get(name: string): string | undefined } };
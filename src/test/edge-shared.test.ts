@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import { toE164, formatPhoneE164 } from "../../supabase/functions/_shared/phone.ts";
+import { escapeHtml } from "../../supabase/functions/_shared/html.ts";
+import { timingSafeEqual } from "../../supabase/functions/_shared/crypto.ts";
+import { buildCorsHeaders, corsHeaders } from "../../supabase/functions/_shared/cors.ts";
+import { signLeadToken, signShowingToken, verifyShowingToken } from "../../supabase/functions/_shared/token.ts";
+import {
+  redactToken, showingsBotFor, type TelegramCredsClient,
+} from "../../supabase/functions/_shared/telegram.ts";
+import {
+  authorizeCaller, isServiceRoleRequest, ADMIN_ROLES, type AuthClient, type CallerUserRow,
+} from "../../supabase/functions/_shared/auth.ts";
+
+describe("phone", () => {
+  it("normalizes US numbers strictly", () => {
+    expect(toE164("(555) 123-4567")).toBe("+15551234567");
+    expect(toE164("1 555 123 4567")).toBe("+15551234567");
+    expect(toE164("+44 20 7946 0958")).toBeNull();
+    expect(toE164(5551234567)).toBeNull();
+  });
+
+  it("keeps international numbers only in the permissive form", () => {
+    expect(formatPhoneE164("+44 20 7946 0958")).toBe("+442079460958");
+    expect(formatPhoneE164("555-1234")).toBeNull();
+    expect(formatPhoneE164("1".repeat(16))).toBeNull();
+  });
+});
+
+describe("escapeHtml", () => {
+  it("escapes markup and quotes, and tolerates null", () => {
+    expect(escapeHtml(`<b a="x">&</b>`)).toBe("&lt;b a=&quot;x&quot;&gt;&amp;&lt;/b&gt;");
+    expect(escapeHtml(null)).toBe("");
+  });
+});
+
+describe("timingSafeEqual", () => {
+  it("compares by content, including length", () => {
+    expect(timingSafeEqual("secret", "secret")).toBe(true);
+    expect(timingSafeEqual("secret", "secreT")).toBe(false);
+    expect(timingSafeEqual("secret", "secret2")).toBe(false);
+    expect(timingSafeEqual("", "")).toBe(true);
+  });
+});
+
+describe("cors", () => {
+  it("defaults to a POST endpoint", () => {
+    expect(corsHeaders["Access-Control-Allow-Methods"]).toBe("POST, OPTIONS");
+  });
+
+  it("appends extra headers and omits methods unless asked", () => {
+    const h = buildCorsHeaders({ extraHeaders: ["x-webhook-secret"] });
+    expect(h["Access-Control-Allow-Headers"]).toMatch(/content-type, x-webhook-secret$/);
+    expect(h["Access-Control-Allow-Methods"]).toBeUndefined();
+  });
+});
+
+describe("showing tokens", () => {
+  const secret = "test-secret";
+  const inAnHour = Math.floor(Date.now() / 1000) + 3600;
+
+  it("verifies a link it signed, for that action only", async () => {
+    const token = await signShowingToken("show-1", "manage", inAnHour, secret);
+    expect(await verifyShowingToken(token, "manage", secret)).toEqual({ showingId: "show-1" });
+    expect(await verifyShowingToken(token, "checkout", secret)).toBeNull();
+  });
+
+  it("rejects forged, re-pointed and expired links", async () => {
+    const token = await signShowingToken("show-1", "survey", inAnHour, secret);
+    expect(await verifyShowingToken(token, "survey", "other-secret")).toBeNull();
+    expect(await verifyShowingToken(token.replace("show-1", "show-2"), "survey", secret)).toBeNull();
+    const expired = await signShowingToken("show-1", "survey", inAnHour - 7200, secret);
+    expect(await verifyShowingToken(expired, "survey", secret)).toBeNull();
+    expect(await verifyShowingToken(token, "survey", "")).toBeNull();
+  });
+
+  it("signs prefill links as <leadId>.<exp>.<sig>", async () => {
+    const token = await signLeadToken("lead-1", inAnHour, secret);
+    expect(token).toMatch(new RegExp(`^lead-1\\.${inAnHour}\\.[\\w-]{43}$`));
+    expect(token).not.toBe(await signLeadToken("lead-1", inAnHour, "other-secret"));
+  });
+});
+
+describe("telegram", () => {
+  const client = (
+    creds: Record<string, string | null> | null,
+    legacy: { key: string; value: unknown }[] = [],
+  ): TelegramCredsClient => ({
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          single: async () => ({ data: creds }),
+          in: async () => ({ data: legacy }),
+        }),
+      }),
+    }),
+  });
+  const general = { telegram_bot_token: "gen-tok", telegram_chat_id: "gen-chat" };
+
+  it("redacts bot tokens from logged errors", () => {
+    expect(redactToken("fetch https://api.telegram.org/bot123:AB-c_d/sendMessage"))
+      .toBe("fetch https://api.telegram.org/bot<redacted>/sendMessage");
+  });
+
+  it("prefers the complete route pair, then the general bot", async () => {
+    const route = { ...general, telegram_route_bot_token: "route-tok", telegram_route_chat_id: "route-chat" };
+    expect(await showingsBotFor(client(route), "org-1")).toEqual({ botToken: "route-tok", chatId: "route-chat" });
+    const half = { ...general, telegram_route_bot_token: "route-tok", telegram_route_chat_id: null };
+    expect(await showingsBotFor(client(half), "org-1")).toEqual({ botToken: "gen-tok", chatId: "gen-chat" });
+    expect(await showingsBotFor(client(null), "org-1")).toBeNull();
+  });
+
+  it("reads legacy route settings stored as JSON strings", async () => {
+    const legacy = [
+      { key: "telegram_route_bot_token", value: JSON.stringify("old-tok") },
+      { key: "telegram_route_chat_id", value: "-100" },
+    ];
+    expect(await showingsBotFor(client(general, legacy), "org-1")).toEqual({ botToken: "old-tok", chatId: "-100" });
+  });
+});
+
+describe("authorizeCaller", () => {
+  const keys = { serviceRoleKey: "service-key", anonKey: "anon-key" };
+  const request = (token?: string) =>
+    new Request("https://x.test", { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+  const client = (row: CallerUserRow | null, validJwt = "user-jwt"): AuthClient => ({
+    auth: {
+      getUser: async (jwt) => ({ data: { user: jwt === validJwt ? { id: "auth-1" } : null }, error: null }),
+    },
+    from: () => ({ select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: row, error: null }) }) }) }),
+  });
+  const admin: CallerUserRow = { id: "u1", role: "admin", is_active: true, organization_id: "org-1" };
+
+  it("lets the service role through without a lookup", async () => {
+    const { caller } = await authorizeCaller(request("service-key"), client(null), keys);
+    expect(caller).toEqual({ kind: "service" });
+  });
+
+  it("rejects missing, anon and invalid tokens with 401", async () => {
+    for (const token of [undefined, "anon-key", "forged"]) {
+      const { response } = await authorizeCaller(request(token), client(admin), keys);
+      expect(response?.status).toBe(401);
+    }
+  });
+
+  it("returns the user's org", async () => {
+    const { caller } = await authorizeCaller(request("user-jwt"), client(admin), keys);
+    expect(caller).toEqual({
+      kind: "user", authUserId: "auth-1", userId: "u1", role: "admin", organizationId: "org-1",
+    });
+  });
+
+  it("rejects inactive users, wrong roles and orgless users with 403", async () => {
+    const cases: [CallerUserRow | null, Parameters<typeof authorizeCaller>[2]][] = [
+      [null, keys],
+      [{ ...admin, is_active: false }, keys],
+      [{ ...admin, role: "leasing_agent" }, { ...keys, roles: ADMIN_ROLES }],
+      [{ ...admin, organization_id: null }, { ...keys, requireOrganization: true }],
+    ];
+    for (const [row, opts] of cases) {
+      const { response } = await authorizeCaller(request("user-jwt"), client(row), opts);
+      expect(response?.status).toBe(403);
+    }
+  });
+
+  it("takes the service key from apikey only when asked", async () => {
+    const invoked = new Request("https://x.test", {
+      headers: { Authorization: "Bearer anon-key", apikey: "service-key" },
+    });
+    expect(isServiceRoleRequest(invoked, "service-key")).toBe(true);
+    expect(isServiceRoleRequest(invoked, "other-key")).toBe(false);
+    expect((await authorizeCaller(invoked, client(null), keys)).response?.status).toBe(401);
+    const { caller } = await authorizeCaller(invoked, client(null), { ...keys, serviceRoleInApikey: true });
+    expect(caller).toEqual({ kind: "service" });
+  });
+});
+
+describe("generated edge copies", () => {
+  it.each(["showingReports.ts", "ticketThreads.ts", "listingAlerts.ts", "routePlanner.ts", "openHouse.ts", "noShowRisk.ts", "showingSurveys.ts", "emailTemplateDefaults.ts", "cityTimezone.ts"])("%s matches its src/lib source", (file) => {
+    const source = fs.readFileSync(`src/lib/${file}`, "utf-8");
+    const copy = fs.readFileSync(`supabase/functions/_shared/generated/${file}`, "utf-8");
+    expect(copy.endsWith(source)).toBe(true);
+    expect(copy.startsWith(`// GENERATED from src/lib/${file}`)).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CONFIGS, DEFAULT_CONFIGS_ES, TEMPLATE_TYPES, emailLanguageFor, renderEmailHtml, resolveEmailTemplate,
+  type EmailTemplateConfig,
+} from "@/lib/emailTemplateDefaults";
+
+const custom = (subject: string): EmailTemplateConfig => ({ ...DEFAULT_CONFIGS.no_show, subject });
+
+describe("emailLanguageFor", () => {
+  it("emails in Spanish only when the lead asked for it", () => {
+    expect(emailLanguageFor("es")).toBe("es");
+    expect(emailLanguageFor(" ES ")).toBe("es");
+    expect(emailLanguageFor("en")).toBe("en");
+    expect(emailLanguageFor(null)).toBe("en");
+    expect(emailLanguageFor("fr")).toBe("en");
+  });
+});
+
+describe("resolveEmailTemplate", () => {
+  it("uses the org's Spanish variant for a Spanish speaker", () => {
+    const saved = { no_show: custom("Missed you"), es: { no_show: custom("Le extrañamos") } };
+    expect(resolveEmailTemplate(saved, "no_show", "es")).toMatchObject({
+      language: "es", custom: true, config: { subject: "Le extrañamos" },
+    });
+    expect(resolveEmailTemplate(saved, "no_show", "en").config.subject).toBe("Missed you");
+  });
+
+  it("falls back to the org's English template before the stock Spanish one", () => {
+    expect(resolveEmailTemplate({ no_show: custom("Missed you") }, "no_show", "es")).toMatchObject({
+      language: "en", custom: true, config: { subject: "Missed you" },
+    });
+  });
+
+  it("uses the stock copy in the lead's language when nothing was saved", () => {
+    expect(resolveEmailTemplate(null, "welcome", "es")).toEqual({
+      language: "es", custom: false, config: DEFAULT_CONFIGS_ES.welcome,
+    });
+    expect(resolveEmailTemplate({}, "welcome", "en")).toEqual({
+      language: "en", custom: false, config: DEFAULT_CONFIGS.welcome,
+    });
+  });
+});
+
+describe("Spanish defaults", () => {
+  it("mirror the English layout, buttons and variables", () => {
+    for (const type of TEMPLATE_TYPES) {
+      const en = DEFAULT_CONFIGS[type];
+      const es = DEFAULT_CONFIGS_ES[type];
+      expect(es.buttons.map((b) => [b.url, b.style])).toEqual(en.buttons.map((b) => [b.url, b.style]));
+      expect([es.showPropertyCard, es.showSteps, es.showSection8Badge]).toEqual([en.showPropertyCard, en.showSteps, en.showSection8Badge]);
+      const vars = (c: EmailTemplateConfig) => [...JSON.stringify(c).matchAll(/\{[a-zA-Z]+\}/g)].map((m) => m[0]).sort();
+      expect(new Set(vars(es))).toEqual(new Set(vars(en)));
+    }
+  });
+
+  it("render the badge and marketing footer in Spanish", () => {
+    const html = renderEmailHtml(DEFAULT_CONFIGS_ES.welcome, {}, undefined, { marketing: true, language: "es" });
+    expect(html).toContain("Aceptamos vales de Sección 8");
+    expect(html).toContain("Cancele su suscripción");
+    expect(html).not.toContain("Section 8 Vouchers Accepted");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { buildFlowLines, lineForks, type FlowStepShape } from "@/lib/leadFlow";
+
+// The editor and the engine have to agree on what a "line" is: the main chain
+// is parent_step_id NULL, and a wait step owns exactly two child lines. If the
+// tree drew a step the dispatcher never reaches, the owner would be reading a
+// diagram that lies.
+
+const step = (
+  id: string,
+  position: number,
+  extra: Partial<FlowStepShape> = {},
+): FlowStepShape => ({
+  id, position, step_type: "email", parent_step_id: null, branch: null, ...extra,
+});
+
+describe("buildFlowLines", () => {
+  it("keeps a straight flow as one ordered line", () => {
+    const lines = buildFlowLines([step("b", 2), step("a", 1), step("c", 3)]);
+    expect(lines.map((n) => n.step.id)).toEqual(["a", "b", "c"]);
+    expect(lines.every((n) => n.branches === null && !n.unreachable)).toBe(true);
+    expect(lineForks(lines)).toBe(false);
+  });
+
+  it("hangs both branches off a wait step, each starting at position 1", () => {
+    const lines = buildFlowLines([
+      step("welcome", 1),
+      step("wait", 2, { step_type: "wait_event" }),
+      step("yes1", 1, { parent_step_id: "wait", branch: "matched" }),
+      step("no1", 1, { parent_step_id: "wait", branch: "timed_out" }),
+      step("no2", 2, { parent_step_id: "wait", branch: "timed_out" }),
+    ]);
+    expect(lines.map((n) => n.step.id)).toEqual(["welcome", "wait"]);
+    expect(lineForks(lines)).toBe(true);
+    const fork = lines[1].branches!;
+    expect(fork.matched.map((n) => n.step.id)).toEqual(["yes1"]);
+    expect(fork.timed_out.map((n) => n.step.id)).toEqual(["no1", "no2"]);
+  });
+
+  it("nests a wait inside a branch", () => {
+    const lines = buildFlowLines([
+      step("wait", 1, { step_type: "wait_event" }),
+      step("inner", 1, { step_type: "wait_event", parent_step_id: "wait", branch: "timed_out" }),
+      step("deep", 1, { parent_step_id: "inner", branch: "matched" }),
+    ]);
+    const inner = lines[0].branches!.timed_out[0];
+    expect(inner.branches!.matched.map((n) => n.step.id)).toEqual(["deep"]);
+    expect(inner.branches!.timed_out).toEqual([]);
+  });
+
+  it("flags steps after a wait on the same line as unreachable", () => {
+    const lines = buildFlowLines([
+      step("wait", 1, { step_type: "wait_event" }),
+      step("orphan", 2),
+    ]);
+    expect(lines[0].unreachable).toBe(false);
+    expect(lines[1].unreachable).toBe(true);
+  });
+});
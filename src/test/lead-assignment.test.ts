@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { describeAssignment, describeRule, parseCities, type AssignmentLogEntry } from "@/lib/leadAssignment";
+
+const names: Record<string, string> = { u1: "Ana Perez", u2: "Luis Gomez", p1: "1234 Cedar Ave", g1: "Lakeview Group" };
+const nameOf = (id: string) => names[id];
+
+describe("parseCities", () => {
+  it("splits on commas and lines, trims, and drops repeats in any case", () => {
+    expect(parseCities(" Cleveland, akron\nLakewood ,cleveland,,  East   Cleveland ")).toEqual([
+      "Cleveland", "akron", "Lakewood", "East Cleveland",
+    ]);
+    expect(parseCities("  ")).toEqual([]);
+  });
+});
+
+describe("describeRule", () => {
+  it("names the match values and the agents", () => {
+    expect(describeRule({ name: "CLE", match_type: "city", match_values: ["Cleveland", "Akron"], agent_ids: ["u1", "u2"] }, nameOf))
+      .toBe("City is Cleveland or Akron → Ana Perez, Luis Gomez");
+    expect(describeRule({ name: "Web", match_type: "source", match_values: ["website"], agent_ids: [] }, nameOf))
+      .toBe("Source is Website → anyone in the pool");
+  });
+
+  it("resolves homes and groups by id and flags ones that are gone", () => {
+    expect(describeRule({ name: "x", match_type: "property", match_values: ["p1", "p9"], agent_ids: ["u9"] }, nameOf))
+      .toBe("Property is 1234 Cedar Ave or (removed) → (removed)");
+    expect(describeRule({ name: "x", match_type: "property_group", match_values: ["g1"], agent_ids: ["u1"] }, nameOf))
+      .toBe("Property group is Lakeview Group → Ana Perez");
+  });
+});
+
+describe("describeAssignment", () => {
+  const entry = (over: Partial<AssignmentLogEntry>): AssignmentLogEntry => ({
+    from_user_id: null, to_user_id: "u1", via: "manual", rule_name: null, changed_by: null, ...over,
+  });
+
+  it("says how an automatic assignment picked the agent", () => {
+    expect(describeAssignment(entry({ via: "rule", rule_name: "Cleveland" }), nameOf)).toBe("Assigned to Ana Perez by rule “Cleveland”");
+    expect(describeAssignment(entry({ via: "round_robin" }), nameOf)).toBe("Assigned to Ana Perez by round-robin");
+  });
+
+  it("says who moved a lead by hand", () => {
+    expect(describeAssignment(entry({ from_user_id: "u1", to_user_id: "u2", changed_by: "u1" }), nameOf))
+      .toBe("Reassigned from Ana Perez to Luis Gomez by Ana Perez");
+    expect(describeAssignment(entry({ from_user_id: "u2", to_user_id: null, changed_by: "u7" }), nameOf))
+      .toBe("Unassigned from Luis Gomez by a former user");
+  });
+});
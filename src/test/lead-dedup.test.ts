@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  duplicatePairKey, findDuplicatePairs, jaroWinkler, scorePair, type DedupLead,
+} from "@/lib/leadDedup";
+
+let n = 0;
+const lead = (over: Partial<DedupLead> = {}): DedupLead => ({
+  id: `lead-${++n}`,
+  full_name: null,
+  phone: null,
+  email: null,
+  property_ids: [],
+  created_at: `2026-08-${String(n).padStart(2, "0")}T12:00:00Z`,
+  ...over,
+});
+
+const labels = (a: DedupLead, b: DedupLead) => scorePair(a, b).evidence.map((e) => e.label);
+
+describe("jaroWinkler", () => {
+  it("scores typos high and unrelated names low", () => {
+    expect(jaroWinkler("martha", "marhta")).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler("smith", "smith")).toBe(1);
+    expect(jaroWinkler("smith", "jones")).toBeLessThan(0.5);
+  });
+});
+
+describe("scorePair", () => {
+  it("rates the same name and phone as high, whatever the phone format", () => {
+    const s = scorePair(
+      lead({ full_name: "Ana Pérez", phone: "+1 (216) 555-0100" }),
+      lead({ full_name: "ana perez", phone: "2165550100" }),
+    );
+    expect(s).toMatchObject({ score: 80, confidence: "high" });
+    expect(s.evidence.map((e) => e.label)).toEqual(["Same phone", "Same name"]);
+  });
+
+  it("knows nicknames in English and Spanish", () => {
+    expect(labels(lead({ full_name: "Bill Carter" }), lead({ full_name: "William Carter" })))
+      .toEqual(["Nickname of the same name (Bill / William)"]);
+    expect(labels(lead({ full_name: "Pancho Ruiz" }), lead({ full_name: "Francisco Ruiz Soto" })))
+      .toEqual(["Nickname of the same name (Pancho / Francisco)"]);
+  });
+
+  it("catches a phone with two swapped digits or one wrong digit", () => {
+    expect(labels(lead({ phone: "2165550100" }), lead({ phone: "2165550010" })))
+      .toEqual(["Phones differ by two swapped digits (2165550100 / 2165550010)"]);
+    expect(labels(lead({ phone: "2165550100" }), lead({ phone: "2165550109" })))
+      .toEqual(["Phones differ by one digit (2165550100 / 2165550109)"]);
+    expect(labels(lead({ phone: "2165550100" }), lead({ phone: "2167770100" }))).toEqual(["Different phones"]);
+  });
+
+  it("compares the name part of an email, ignoring dots and +tags", () => {
+    expect(labels(lead({ email: "j.doe+rent@gmail.com" }), lead({ email: "jdoe@yahoo.com" })))
+      .toEqual(["Same email name, different address (j.doe+rent@gmail.com / jdoe@yahoo.com)"]);
+    expect(labels(lead({ email: "marisol.reyes@gmail.com" }), lead({ email: "marisolreyez@gmail.com" })))
+      .toEqual(["Similar emails (marisol.reyes@gmail.com / marisolreyez@gmail.com)"]);
+  });
+
+  it("counts different first names on a shared phone against a match", () => {
+    const s = scorePair(
+      lead({ full_name: "Maria Lopez", phone: "2165550100" }),
+      lead({ full_name: "Jose Lopez", phone: "2165550100" }),
+    );
+    expect(s.score).toBe(10);
+    expect(s.evidence[1]).toMatchObject({ signal: "name", points: -35 });
+  });
+
+  it("adds a little for a shared tagged property and stays within 0–100", () => {
+    const a = lead({ full_name: "Ana Perez", phone: "2165550100", email: "ana@x.com", property_ids: ["p1"] });
+    const b = lead({ full_name: "Ana Perez", phone: "2165550100", email: "ana@x.com", property_ids: ["p1", "p2"] });
+    expect(scorePair(a, b)).toMatchObject({ score: 100, confidence: "high" });
+    expect(scorePair(lead({ full_name: "Ana Perez" }), lead({ full_name: "Luis Gomez", phone: "1" })).score).toBe(0);
+  });
+});
+
+describe("findDuplicatePairs", () => {
+  const older = lead({ full_name: "Robert King", phone: "2165550100" });
+  const newer = lead({ full_name: "Bob King", phone: "2165551000" });
+  const stranger = lead({ full_name: "Carla Diaz", phone: "4405550199" });
+
+  it("finds fuzzy pairs through blocking and puts the older lead first", () => {
+    const pairs = findDuplicatePairs([newer, stranger, older]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ key: duplicatePairKey(newer.id, older.id), a: older, b: newer, score: 60 });
+  });
+
+  it("leaves out pairs marked as not a duplicate", () => {
+    const dismissed = new Set([duplicatePairKey(older.id, newer.id)]);
+    expect(findDuplicatePairs([older, newer], { dismissed })).toEqual([]);
+  });
+
+  it("does not list a bare name match", () => {
+    expect(findDuplicatePairs([lead({ full_name: "Ana Perez" }), lead({ full_name: "Ana Perez" })])).toEqual([]);
+  });
+});
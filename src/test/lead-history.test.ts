@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { fieldLabel, formatFieldValue, leadAsOf, sourceLabel } from "@/lib/leadHistory";
+
+describe("leadAsOf", () => {
+  const current = {
+    id: "lead-1",
+    created_at: "2026-08-01T09:00:00+00:00",
+    phone: "+14405550199",
+    status: "showing_scheduled",
+    has_voucher: true,
+    budget_max: 1400,
+  };
+  const changes = [
+    // Parser overwrote the phone on Aug 10, a user changed it again on Aug 20.
+    { field_name: "phone", old_value: "+12165550123", created_at: "2026-08-10T12:00:00+00:00" },
+    { field_name: "phone", old_value: "+12165559999", created_at: "2026-08-20T12:00:00+00:00" },
+    { field_name: "status", old_value: "contacted", created_at: "2026-08-15T12:00:00+00:00" },
+  ];
+
+  it("takes the old value of each field's first change after the date", () => {
+    const then = leadAsOf(current, changes, new Date("2026-08-05T00:00:00Z"))!;
+    expect(then.values.phone).toBe("+12165550123");
+    expect(then.values.status).toBe("contacted");
+    expect(then.changedSince).toEqual(new Set(["phone", "status"]));
+
+    const mid = leadAsOf(current, changes, new Date("2026-08-16T00:00:00Z"))!;
+    expect(mid.values.phone).toBe("+12165559999");
+    expect(mid.values.status).toBe("showing_scheduled");
+    expect(mid.changedSince).toEqual(new Set(["phone"]));
+  });
+
+  it("keeps untouched fields as logged text and knows when the lead didn't exist", () => {
+    const now = leadAsOf(current, changes, new Date("2026-09-01T00:00:00Z"))!;
+    expect(now.values).toMatchObject({ has_voucher: "true", budget_max: "1400", phone: "+14405550199" });
+    expect(now.changedSince.size).toBe(0);
+    expect(leadAsOf(current, changes, new Date("2026-07-31T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("labels", () => {
+  it("names known fields and sources and humanizes the rest", () => {
+    expect(fieldLabel("assigned_leasing_agent_id")).toBe("Owner");
+    expect(fieldLabel("identity_verified")).toBe("Identity verified");
+    expect(sourceLabel("hemlane_parser")).toBe("Hemlane parser");
+    expect(sourceLabel("send_message")).toBe("Send message");
+  });
+
+  it("formats logged values for reading", () => {
+    expect(formatFieldValue(null)).toBe("—");
+    expect(formatFieldValue("true")).toBe("Yes");
+    expect(formatFieldValue("2026-09-01")).toBe("Sep 1, 2026");
+    expect(formatFieldValue("+12165550123")).toBe("+12165550123");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_VIEW_FILTERS, isUnfiltered, lastContactBounds, parseViewFilters } from "@/lib/leadViews";
+
+describe("parseViewFilters", () => {
+  it("round-trips a saved view", () => {
+    const view = {
+      ...DEFAULT_VIEW_FILTERS,
+      status: "nurturing",
+      city: "Lakewood",
+      owner: "mine",
+      minScore: 50,
+      lastContact: "stale_30d" as const,
+      search: "perez",
+      pills: { ...DEFAULT_VIEW_FILTERS.pills, section8: true },
+      sort: { field: "last_contact_at" as const, direction: "asc" as const },
+    };
+    expect(parseViewFilters(JSON.parse(JSON.stringify(view)))).toEqual(view);
+  });
+
+  it("fills filters an older view never had and drops junk", () => {
+    expect(parseViewFilters({ status: "new", pills: { applicant: true, bogus: true } })).toEqual({
+      ...DEFAULT_VIEW_FILTERS,
+      status: "new",
+      pills: { ...DEFAULT_VIEW_FILTERS.pills, applicant: true },
+    });
+    expect(parseViewFilters({ minScore: "80", lastContact: "yesterday", sort: { field: "phone", direction: "up" } }))
+      .toEqual(DEFAULT_VIEW_FILTERS);
+    expect(parseViewFilters(null)).toEqual(DEFAULT_VIEW_FILTERS);
+  });
+});
+
+describe("isUnfiltered", () => {
+  it("ignores sort but notices any filter", () => {
+    expect(isUnfiltered({ ...DEFAULT_VIEW_FILTERS, sort: { field: "status", direction: "asc" } })).toBe(true);
+    expect(isUnfiltered({ ...DEFAULT_VIEW_FILTERS, minScore: 10 })).toBe(false);
+    expect(isUnfiltered({ ...DEFAULT_VIEW_FILTERS, search: "  " })).toBe(true);
+  });
+});
+
+describe("lastContactBounds", () => {
+  const now = new Date("2026-08-31T12:00:00Z");
+
+  it("turns windows into last_contact_at bounds", () => {
+    expect(lastContactBounds("7d", now)).toEqual({ since: "2026-08-24T12:00:00.000Z" });
+    expect(lastContactBounds("stale_90d", now)).toEqual({ before: "2026-06-02T12:00:00.000Z" });
+    expect(lastContactBounds("never", now)).toEqual({ never: true });
+    expect(lastContactBounds("any", now)).toEqual({});
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { canCreateLease, defaultLeaseEnd } from "@/lib/leases";
+
+describe("canCreateLease", () => {
+  it("opens once the lead applied or was converted", () => {
+    expect(canCreateLease({ status: "converted" })).toBe(true);
+    expect(canCreateLease({ status: "in_application" })).toBe(true);
+    expect(canCreateLease({ status: "showing_completed", applied_at: "2026-08-01T12:00:00Z" })).toBe(true);
+  });
+
+  it("stays closed for leads that never applied", () => {
+    expect(canCreateLease({ status: "qualified", applied_at: null })).toBe(false);
+  });
+});
+
+describe("defaultLeaseEnd", () => {
+  it("ends a 12-month lease the day before its anniversary", () => {
+    expect(defaultLeaseEnd("2026-09-01")).toBe("2027-08-31");
+    expect(defaultLeaseEnd("2026-09-15", 6)).toBe("2027-03-14");
+  });
+
+  it("handles leap years", () => {
+    expect(defaultLeaseEnd("2027-03-01")).toBe("2028-02-29");
+  });
+});
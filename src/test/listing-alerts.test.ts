@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  cityGroupOf,
+  describeListingAlert,
+  listingAlertMatches,
+  neighborhoodOf,
+  type ListingAlertUnit,
+} from "@/lib/listingAlerts";
+
+const unit: ListingAlertUnit = {
+  city: "East Cleveland",
+  zip_code: "44112",
+  bedrooms: 3,
+  bathrooms: 1.5,
+  rent_price: 1150,
+  property_type: "single_family",
+  section_8_accepted: true,
+};
+
+describe("listingAlertMatches", () => {
+  it("matches everything with no filters", () => {
+    expect(listingAlertMatches({}, unit)).toBe(true);
+  });
+
+  it("groups East Cleveland under Cleveland and resolves the area from the zip", () => {
+    expect(cityGroupOf("East Cleveland")).toBe("Cleveland");
+    expect(listingAlertMatches({ city: "Cleveland" }, unit)).toBe(true);
+    expect(listingAlertMatches({ city: "Milwaukee" }, unit)).toBe(false);
+    expect(neighborhoodOf("44112", "East Cleveland")).toBe("East Cleveland");
+    expect(neighborhoodOf("53206", "Milwaukee")).toBe("Milwaukee");
+    expect(listingAlertMatches({ area: "Glenville" }, unit)).toBe(false);
+  });
+
+  it("uses exact beds with 5+, and a forgiving bath band", () => {
+    expect(listingAlertMatches({ beds: 3 }, unit)).toBe(true);
+    expect(listingAlertMatches({ beds: 2 }, unit)).toBe(false);
+    expect(listingAlertMatches({ beds: 5 }, { ...unit, bedrooms: 6 })).toBe(true);
+    expect(listingAlertMatches({ baths: 1 }, unit)).toBe(true);
+    expect(listingAlertMatches({ baths: 2 }, unit)).toBe(true);
+    expect(listingAlertMatches({ baths: 3 }, unit)).toBe(false);
+  });
+
+  it("filters on price only when set, and drops contact-for-price homes then", () => {
+    expect(listingAlertMatches({ price_max: 1200 }, unit)).toBe(true);
+    expect(listingAlertMatches({ price_max: 1000 }, unit)).toBe(false);
+    expect(listingAlertMatches({ price_min: 1200 }, unit)).toBe(false);
+    expect(listingAlertMatches({ price_min: 800 }, { ...unit, rent_price: 0 })).toBe(false);
+  });
+
+  it("filters on home type and voucher acceptance", () => {
+    expect(listingAlertMatches({ home_type: "single" }, unit)).toBe(true);
+    expect(listingAlertMatches({ home_type: "multi" }, { ...unit, property_type: "Duplex" })).toBe(true);
+    expect(listingAlertMatches({ voucher: true }, { ...unit, section_8_accepted: false })).toBe(false);
+  });
+});
+
+describe("describeListingAlert", () => {
+  it("summarizes the filters in the card order", () => {
+    expect(describeListingAlert({})).toBe("Any home");
+    expect(
+      describeListingAlert({ beds: 3, city: "Cleveland", price_min: 900, price_max: 1400, voucher: true }),
+    ).toBe("3 bd · Cleveland · $900–$1,400 · Section 8");
+    expect(describeListingAlert({ beds: 0, area: "Glenville", price_max: 1000 })).toBe(
+      "Studio · Glenville · up to $1,000",
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { noShowRisk, type NoShowRiskInput } from "@/lib/noShowRisk";
+
+const TOUR = "2026-08-20T17:00:00Z";
+const hoursBefore = (h: number) => new Date(new Date(TOUR).getTime() - h * 3600_000).toISOString();
+
+const input = (over: Partial<NoShowRiskInput> = {}): NoShowRiskInput => ({
+  bookedAt: hoursBefore(12),
+  scheduledAt: TOUR,
+  confirmed: false,
+  confirmationAttempts: 0,
+  priorNoShows: 0,
+  bookingSource: "admin",
+  ...over,
+});
+
+describe("noShowRisk", () => {
+  it("rates a same-day tour booked with the team as low", () => {
+    const risk = noShowRisk(input());
+    expect(risk).toMatchObject({ score: 10, level: "low" });
+    expect(risk.reasons).toEqual([{ label: "Not confirmed yet", points: 10 }]);
+  });
+
+  it("adds up lead time, channel and an earlier no-show into high", () => {
+    const risk = noShowRisk(input({ bookedAt: hoursBefore(10 * 24), bookingSource: "public_link", priorNoShows: 1 }));
+    expect(risk.score).toBe(80);
+    expect(risk.level).toBe("high");
+    expect(risk.reasons.map((r) => r.label)).toEqual([
+      "Booked more than a week ahead",
+      "1 earlier no-show",
+      "Not confirmed yet",
+      "Self-booked online",
+    ]);
+  });
+
+  it("lowers the score once the renter confirms", () => {
+    const before = noShowRisk(input({ bookedAt: hoursBefore(4 * 24), bookingSource: "public_link" }));
+    const after = noShowRisk(input({ bookedAt: hoursBefore(4 * 24), bookingSource: "public_link", confirmed: true }));
+    expect(before).toMatchObject({ score: 40, level: "medium" });
+    expect(after).toMatchObject({ score: 10, level: "low" });
+  });
+
+  it("counts an unanswered confirmation more than none sent yet", () => {
+    expect(noShowRisk(input({ confirmationAttempts: 2 })).score).toBe(25);
+  });
+
+  it("stays within 0–100", () => {
+    expect(noShowRisk(input({ confirmed: true })).score).toBe(0);
+    expect(
+      noShowRisk(input({
+        bookedAt: hoursBefore(30 * 24), confirmationAttempts: 3, priorNoShows: 4, bookingSource: "open_house_waitlist",
+      })).score,
+    ).toBe(100);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { openHouseRosters, rosterHeadline, rosterText } from "@/lib/openHouse";
+
+interface Row { id: string; slot: string | null; name: string; status: string }
+
+const row = (id: string, slot: string | null, name: string, status = "scheduled"): Row => ({ id, slot, name, status });
+const rosters = (rows: Row[], info = new Map<string, { capacity: number; waiting: number }>()) =>
+  openHouseRosters(rows, (r) => r.slot, (r) => r.name, (r) => r.status, info);
+
+describe("openHouseRosters", () => {
+  it("groups active attendees per open house, in booking order", () => {
+    const map = rosters([
+      row("1", "oh-a", "Ana Pérez"),
+      row("2", null, "Solo Renter"),
+      row("3", "oh-a", "Ben Ortiz", "confirmed"),
+      row("4", "oh-b", "Cara Diaz"),
+    ]);
+    expect([...map.keys()]).toEqual(["oh-a", "oh-b"]);
+    expect(map.get("oh-a")!.names).toEqual(["Ana Pérez", "Ben Ortiz"]);
+  });
+
+  it("leaves out cancelled, no-show and moved attendees", () => {
+    const map = rosters([
+      row("1", "oh-a", "Ana", "cancelled"),
+      row("2", "oh-a", "Ben", "no_show"),
+      row("3", "oh-a", "Cara", "rescheduled"),
+      row("4", "oh-a", "Dan"),
+    ]);
+    expect(map.get("oh-a")!.names).toEqual(["Dan"]);
+  });
+
+  it("carries capacity and the waitlist count when known", () => {
+    const map = rosters([row("1", "oh-a", "Ana")], new Map([["oh-a", { capacity: 10, waiting: 2 }]]));
+    expect(map.get("oh-a")).toEqual({ names: ["Ana"], capacity: 10, waiting: 2 });
+  });
+
+  it("names a blank lead", () => {
+    expect(rosters([row("1", "oh-a", "  ")]).get("oh-a")!.names).toEqual(["Lead"]);
+  });
+});
+
+describe("roster text", () => {
+  it("shows seats taken of capacity and who is waiting", () => {
+    const roster = { names: ["Ana", "Ben", "Cara"], capacity: 10, waiting: 2 };
+    expect(rosterHeadline(roster)).toBe("Open house · 3/10 · 2 en espera");
+    expect(rosterText(roster)).toBe("Open house · 3/10 · 2 en espera: Ana, Ben, Cara");
+  });
+
+  it("drops the parts it does not know", () => {
+    expect(rosterHeadline({ names: ["Ana"], capacity: null, waiting: 0 })).toBe("Open house · 1");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { estimateDriveMinutes, haversineMiles, planRoute, planRoutes, type RouteStop } from "@/lib/routePlanner";
+
+// Three Cleveland-area homes: two on the east side a mile apart, one in Parma.
+const EAST_A = { lat: 41.5320, lng: -81.5720 };
+const EAST_B = { lat: 41.5400, lng: -81.5550 };
+const PARMA = { lat: 41.4048, lng: -81.7229 };
+
+const stop = (id: string, time: string, at: { lat: number; lng: number } | null, durationMinutes = 30): RouteStop => ({
+  id, start: `2026-10-20T${time}:00-04:00`, durationMinutes, lat: at?.lat ?? null, lng: at?.lng ?? null,
+});
+
+describe("drive model", () => {
+  it("measures miles and turns them into door-to-door minutes", () => {
+    expect(haversineMiles(EAST_A, PARMA)).toBeGreaterThan(11);
+    expect(haversineMiles(EAST_A, PARMA)).toBeLessThan(13);
+    expect(estimateDriveMinutes(0)).toBe(0);
+    expect(estimateDriveMinutes(10)).toBe(38);
+  });
+});
+
+describe("planRoute", () => {
+  it("sorts by time and flags a hop that cannot be made", () => {
+    const plan = planRoute([
+      stop("parma", "10:30", PARMA),
+      stop("east", "10:00", EAST_A),
+    ]);
+    expect(plan.stops.map((s) => s.id)).toEqual(["east", "parma"]);
+    expect(plan.legs[0].gapMinutes).toBe(0);
+    expect(plan.legs[0].status).toBe("impossible");
+    expect(plan.impossible).toBe(1);
+  });
+
+  it("is ok with room to drive, tight with little, unknown without coordinates", () => {
+    const plan = planRoute([
+      stop("a", "10:00", EAST_A),
+      stop("b", "11:00", EAST_B),
+      stop("c", "11:45", EAST_A),
+      stop("d", "13:00", null),
+    ]);
+    expect(plan.legs.map((l) => l.status)).toEqual(["ok", "tight", "unknown"]);
+    expect(plan.tight).toBe(1);
+  });
+
+  it("treats tours at the same home as no drive", () => {
+    const plan = planRoute([stop("a", "10:00", EAST_A), stop("b", "10:00", EAST_A)]);
+    expect(plan.legs[0]).toMatchObject({ driveMinutes: 0, status: "ok" });
+  });
+
+  it("suggests a shorter geographic order only when it saves real time", () => {
+    const zigzag = planRoute([
+      stop("a", "09:00", EAST_A),
+      stop("p", "11:00", PARMA),
+      stop("b", "13:00", EAST_B),
+    ]);
+    expect(zigzag.suggestedOrder).toEqual(["a", "b", "p"]);
+    expect(zigzag.suggestedDriveMinutes).toBeLessThan(zigzag.driveMinutes);
+
+    const sensible = planRoute([stop("a", "09:00", EAST_A), stop("b", "10:00", EAST_B), stop("p", "12:00", PARMA)]);
+    expect(sensible.suggestedOrder).toBeNull();
+  });
+});
+
+describe("planRoutes", () => {
+  it("plans each driver separately", () => {
+    const plans = planRoutes(
+      [{ ...stop("a", "10:00", EAST_A), who: "ana" }, { ...stop("p", "10:00", PARMA), who: "ben" }],
+      (s) => s.who,
+    );
+    expect(plans.get("ana")!.legs).toHaveLength(0);
+    expect(plans.get("ben")!.stops.map((s) => s.id)).toEqual(["p"]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import {
+  SCREENING_REASONS,
+  checklistProgress,
+  incomeCheck,
+  letterHtml,
+  needsReason,
+  renderAdverseActionLetter,
+} from "@/lib/screening";
+
+describe("incomeCheck", () => {
+  it("compares income to the policy multiple of rent", () => {
+    expect(incomeCheck(3600, 1200, 3)).toEqual({ ratio: 3, required: 3600, meets: true });
+    expect(incomeCheck(3000, 1200, 3)).toEqual({ ratio: 2.5, required: 3600, meets: false });
+  });
+
+  it("uses the rent the applicant pays, not the contract rent", () => {
+    // Contract rent 1,200 but the applicant's share is 300.
+    expect(incomeCheck(1000, 300, 3)?.meets).toBe(true);
+  });
+
+  it("waits until both numbers are in", () => {
+    expect(incomeCheck(null, 1200, 3)).toBeNull();
+    expect(incomeCheck(3600, 0, 3)).toBeNull();
+  });
+});
+
+describe("screening reasons", () => {
+  it("only asks for a reason on denials and conditional approvals", () => {
+    expect(needsReason("approved")).toBe(false);
+    expect(needsReason("pending")).toBe(false);
+    expect(needsReason("denied")).toBe(true);
+    expect(needsReason("conditional")).toBe(true);
+  });
+
+  it("never offers voucher or source of income as a reason", () => {
+    for (const r of SCREENING_REASONS) {
+      const text = `${r.code} ${r.label} ${r.letterText}`.toLowerCase();
+      expect(text).not.toMatch(/voucher|section 8|source of income|subsid/);
+    }
+  });
+
+  it("counts checklist items that are ticked", () => {
+    expect(checklistProgress({ photo_id: true, income_docs: false, screening_fee: true })).toEqual({ done: 2, total: 5 });
+    expect(checklistProgress(null).done).toBe(0);
+  });
+});
+
+describe("renderAdverseActionLetter", () => {
+  const base = {
+    applicantName: "Jane Doe",
+    propertyAddress: "123 Main St",
+    companyName: "Rent Finder Cleveland",
+    date: new Date(2026, 7, 10),
+  };
+
+  it("adds the FCRA notice for reasons that came from the consumer report", () => {
+    const letter = renderAdverseActionLetter({ ...base, decision: "denied", reasonCode: "credit_history" });
+    expect(letter).toContain("Dear Jane Doe");
+    expect(letter).toContain("August 10, 2026");
+    expect(letter).toContain("TransUnion");
+    expect(letter).toContain("right to dispute");
+  });
+
+  it("leaves the FCRA notice out otherwise", () => {
+    const letter = renderAdverseActionLetter({ ...base, decision: "denied", reasonCode: "insufficient_income" });
+    expect(letter).toContain("below the required multiple");
+    expect(letter).not.toContain("TransUnion");
+    expect(letter).not.toMatch(/\{\w+\}/);
+  });
+
+  it("spells out the conditions on a conditional approval", () => {
+    const letter = renderAdverseActionLetter({
+      ...base,
+      decision: "conditional",
+      reasonCode: "rental_reference",
+      conditions: "A security deposit of two months' rent.",
+    });
+    expect(letter).toContain("approve your application on the following condition");
+    expect(letter).toContain("two months' rent");
+  });
+});
+
+describe("letterHtml", () => {
+  it("escapes the letter and splits it into paragraphs", () => {
+    const html = letterHtml("Dear <b>Jane</b>,\n\nLine one\nLine two");
+    expect(html).toContain("&lt;b&gt;Jane&lt;/b&gt;");
+    expect(html.match(/<p /g)).toHaveLength(2);
+    expect(html).toContain("Line one<br>Line two");
+  });
+});
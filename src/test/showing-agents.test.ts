@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { agentCovers, fullMarkets, marketCapacity } from "@/lib/showingAgents";
+
+const ana = { user_id: "u-ana", full_name: "Ana", markets: ["Cleveland"], is_active: true };
+const ben = { user_id: "u-ben", full_name: "Ben", markets: ["Milwaukee"], is_active: true };
+const cy = { user_id: "u-cy", full_name: "Cy", markets: [], is_active: true };
+
+describe("agentCovers", () => {
+  it("an empty territory covers every market", () => {
+    expect(agentCovers(cy, "Milwaukee")).toBe(true);
+    expect(agentCovers(ana, "Milwaukee")).toBe(false);
+    expect(agentCovers(ana, "Cleveland")).toBe(true);
+  });
+});
+
+describe("marketCapacity", () => {
+  it("is 1 without showing agents (the single-agent rule)", () => {
+    expect(marketCapacity([], "Cleveland")).toBe(1);
+    expect(marketCapacity([{ ...ana, is_active: false }], "Cleveland")).toBe(1);
+  });
+
+  it("round-robin counts every active agent", () => {
+    expect(marketCapacity([ana, ben, cy], "Cleveland", "round_robin")).toBe(3);
+  });
+
+  it("territory counts the market's agents plus the no-territory ones", () => {
+    expect(marketCapacity([ana, ben, cy], "Cleveland", "territory")).toBe(2);
+    expect(marketCapacity([ana, ben], "Akron", "territory")).toBe(0);
+  });
+});
+
+describe("fullMarkets", () => {
+  const capacity = (m: string) => (m === "Cleveland" ? 2 : 1);
+
+  it("fills a market only when its tours reach capacity", () => {
+    expect(fullMarkets([{ market: "Cleveland", tour: "s1" }], capacity)).toEqual(new Set());
+    expect(fullMarkets([
+      { market: "Cleveland", tour: "s1" },
+      { market: "Cleveland", tour: "s2" },
+      { market: "Milwaukee", tour: "s3" },
+    ], capacity)).toEqual(new Set(["Cleveland", "Milwaukee"]));
+  });
+
+  it("rows sharing a tour are one agent", () => {
+    expect(fullMarkets([
+      { market: "Cleveland", tour: "s1" },
+      { market: "Cleveland", tour: "s1" },
+    ], capacity)).toEqual(new Set());
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseSurveyAnswers, redactContactInfo, summarizeSurveys, type ShowingSurveyRow,
+} from "@/lib/showingSurveys";
+
+const row = (over: Partial<ShowingSurveyRow> = {}): ShowingSurveyRow => ({
+  condition_rating: 4,
+  price_perception: "fair",
+  neighborhood_fit: 4,
+  apply_likelihood: 3,
+  comments: null,
+  submitted_at: "2026-08-20T17:00:00Z",
+  ...over,
+});
+
+describe("parseSurveyAnswers", () => {
+  const body = { condition_rating: 5, price_perception: "too_high", neighborhood_fit: 2, apply_likelihood: 1, comments: "  Small kitchen " };
+
+  it("accepts a complete answer and trims the comment", () => {
+    expect(parseSurveyAnswers(body)).toEqual({
+      conditionRating: 5, pricePerception: "too_high", neighborhoodFit: 2, applyLikelihood: 1, comments: "Small kitchen",
+    });
+  });
+
+  it("refuses ratings outside 1–5 and unknown price answers", () => {
+    expect(parseSurveyAnswers({ ...body, condition_rating: 6 })).toBeNull();
+    expect(parseSurveyAnswers({ ...body, neighborhood_fit: 2.5 })).toBeNull();
+    expect(parseSurveyAnswers({ ...body, apply_likelihood: "4" })).toBeNull();
+    expect(parseSurveyAnswers({ ...body, price_perception: "cheap" })).toBeNull();
+    expect(parseSurveyAnswers(null)).toBeNull();
+  });
+});
+
+describe("redactContactInfo", () => {
+  it("strips emails, links, phones and the respondent's name, but keeps prices and street numbers", () => {
+    const text = "Ana Pérez here — call 216-555-0100 or ana.p@mail.com, see www.example.com. Rent $1,250 at 1234 Cedar is high.";
+    expect(redactContactInfo(text, ["Ana Pérez"])).toBe(
+      "[redacted] [redacted] here — call [redacted] or [redacted], see [redacted] Rent $1,250 at 1234 Cedar is high.",
+    );
+  });
+
+  it("only matches whole words of a name", () => {
+    expect(redactContactInfo("Banana bread smell", ["Ana"])).toBe("Banana bread smell");
+  });
+});
+
+describe("summarizeSurveys", () => {
+  it("averages ratings, counts price answers and the share likely to apply", () => {
+    const s = summarizeSurveys([
+      row({ condition_rating: 2, apply_likelihood: 5, price_perception: "too_high" }),
+      row({ condition_rating: 3, apply_likelihood: 4, price_perception: "too_high" }),
+      row({ condition_rating: 3, apply_likelihood: 1 }),
+    ]);
+    expect(s).toMatchObject({
+      responses: 3,
+      avgCondition: 2.7,
+      avgNeighborhoodFit: 4,
+      avgApplyLikelihood: 3.3,
+      likelyToApplyPct: 67,
+      price: { too_high: 2, fair: 1, good_value: 0 },
+    });
+  });
+
+  it("lists non-empty comments newest first, redacted on request", () => {
+    const s = summarizeSurveys([
+      row({ comments: "Old one", submitted_at: "2026-08-01T00:00:00Z" }),
+      row({ comments: "  " }),
+      row({ comments: "Text me at 2165550100", submitted_at: "2026-08-25T00:00:00Z" }),
+    ], { redact: true });
+    expect(s.comments.map((c) => c.text)).toEqual(["Text me at [redacted]", "Old one"]);
+  });
+
+  it("has no averages without responses", () => {
+    expect(summarizeSurveys([])).toMatchObject({ responses: 0, avgCondition: null, likelyToApplyPct: null, comments: [] });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { describeSlotTemplate, templateDates, templateTimes } from "@/lib/slotTemplates";
+
+// Tue/Thu 4–7pm from Mon Dec 1, 2026 until Wed Dec 31.
+const rule = {
+  weekdays: [2, 4],
+  start_time: "16:00:00",
+  end_time: "19:00:00",
+  starts_on: "2026-12-01",
+  ends_on: "2026-12-31",
+};
+
+describe("templateTimes", () => {
+  it("yields half-hour slots up to, not including, the end", () => {
+    expect(templateTimes("16:00", "19:00")).toEqual([
+      "16:00:00", "16:30:00", "17:00:00", "17:30:00", "18:00:00", "18:30:00",
+    ]);
+  });
+
+  it("is empty when the window is shorter than a slot", () => {
+    expect(templateTimes("16:00:00", "16:15:00")).toEqual([]);
+    expect(templateTimes("17:00", "16:00")).toEqual([]);
+  });
+});
+
+describe("templateDates", () => {
+  it("keeps only the template's weekdays", () => {
+    expect(templateDates(rule, "2026-12-01", 7)).toEqual(["2026-12-01", "2026-12-03", "2026-12-08"]);
+  });
+
+  it("stops at ends_on", () => {
+    expect(templateDates(rule, "2026-12-28", 14)).toEqual(["2026-12-29", "2026-12-31"]);
+  });
+
+  it("does not start before starts_on", () => {
+    expect(templateDates(rule, "2026-11-20", 14)).toEqual(["2026-12-01", "2026-12-03"]);
+  });
+
+  it("skips org holidays and the template's own exceptions, not other templates'", () => {
+    const exceptions = [
+      { template_id: null, exception_date: "2026-12-03" },
+      { template_id: "tpl-a", exception_date: "2026-12-08" },
+      { template_id: "tpl-b", exception_date: "2026-12-10" },
+    ];
+    expect(templateDates(rule, "2026-12-01", 10, exceptions, "tpl-a")).toEqual(["2026-12-01", "2026-12-10"]);
+  });
+});
+
+describe("describeSlotTemplate", () => {
+  it("reads like the request", () => {
+    expect(describeSlotTemplate(rule)).toBe("Tue/Thu 4pm–7pm · until Dec 31");
+  });
+
+  it("names common day sets", () => {
+    expect(describeSlotTemplate({ ...rule, weekdays: [1, 2, 3, 4, 5], ends_on: null, start_time: "09:30:00" }))
+      .toBe("Weekdays 9:30am–7pm");
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { ticketSla } from "@/lib/tickets";
+import { parseTicketNumber, replyText, ticketEmailSubject } from "@/lib/ticketThreads";
+
+describe("ticket email threading", () => {
+  it("round-trips the ticket number through the subject", () => {
+    const subject = ticketEmailSubject(123, "No hot water");
+    expect(subject).toBe("Re: No hot water [Ticket #123]");
+    expect(parseTicketNumber(`RE: ${subject}`)).toBe(123);
+    expect(ticketEmailSubject(123, subject)).toBe(subject);
+  });
+
+  it("ignores ordinary subjects", () => {
+    expect(parseTicketNumber("Question about 123 Main St")).toBeNull();
+    expect(parseTicketNumber(null)).toBeNull();
+  });
+
+  it("keeps only the tenant's new text", () => {
+    const text = "Still no hot water.\nCan someone come today?\n\nOn Mon, Aug 10, 2026 at 9:00 AM Rent Finder wrote:\n> Hi Ana,";
+    expect(replyText(text)).toBe("Still no hot water.\nCan someone come today?");
+    expect(replyText("Gracias!\n\nEl lun, 10 ago 2026 escribió:\n> Hola")).toBe("Gracias!");
+  });
+
+  it("falls back to the HTML body", () => {
+    expect(replyText(null, "<div>Fixed, thanks<br>Ana</div><blockquote>old</blockquote>")).toBe("Fixed, thanks\nAna");
+  });
+});
+
+describe("ticketSla", () => {
+  const now = new Date("2026-08-10T12:00:00Z");
+
+  it("runs the first-response clock until someone replies", () => {
+    const sla = ticketSla(
+      { status: "open", priority: "urgent", created_at: "2026-08-10T09:00:00Z", first_response_at: null },
+      now,
+    );
+    expect(sla?.kind).toBe("first_response");
+    expect(sla?.overdue).toBe(true);
+  });
+
+  it("switches to the resolution clock after the first reply", () => {
+    const sla = ticketSla(
+      { status: "pending", priority: "medium", created_at: "2026-08-10T09:00:00Z", first_response_at: "2026-08-10T10:00:00Z" },
+      now,
+    );
+    expect(sla?.kind).toBe("resolution");
+    expect(sla?.overdue).toBe(false);
+    expect(sla?.atRisk).toBe(false);
+  });
+
+  it("stops once resolved", () => {
+    expect(
+      ticketSla({ status: "resolved", priority: "high", created_at: "2026-08-01T00:00:00Z", first_response_at: null }, now),
+    ).toBeNull();
+  });
+});
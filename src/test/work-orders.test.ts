@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { compareWorkOrders, isOpenWorkOrder, workOrderFilePath } from "@/lib/workOrders";
+
+describe("compareWorkOrders", () => {
+  const wo = (status: string, priority: string, created_at: string) => ({ status, priority, created_at });
+
+  it("puts open orders first, urgent first, then oldest first", () => {
+    const list = [
+      wo("completed", "urgent", "2026-08-01T00:00:00Z"),
+      wo("open", "medium", "2026-08-02T00:00:00Z"),
+      wo("in_progress", "urgent", "2026-08-05T00:00:00Z"),
+      wo("open", "medium", "2026-08-01T00:00:00Z"),
+    ];
+    expect([...list].sort(compareWorkOrders)).toEqual([list[2], list[3], list[1], list[0]]);
+  });
+});
+
+describe("isOpenWorkOrder", () => {
+  it("treats completed and cancelled as closed", () => {
+    expect(isOpenWorkOrder("on_hold")).toBe(true);
+    expect(isOpenWorkOrder("completed")).toBe(false);
+    expect(isOpenWorkOrder("cancelled")).toBe(false);
+  });
+});
+
+describe("workOrderFilePath", () => {
+  it("keeps the org/work-order prefix the storage policies check", () => {
+    const path = workOrderFilePath("org-1", "wo-1", "leak under sink (1).jpg");
+    expect(path).toMatch(/^org-1\/wo-1\/\d+-leak_under_sink_1_.jpg$/);
+  });
+});
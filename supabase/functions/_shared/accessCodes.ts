@@ -0,0 +1,174 @@
+// Time-boxed door codes for self-guided showings.
+//
+// A provider turns "let this renter into this home between A and B" into a
+// code. Real smart locks / lockboxes each have their own API; they plug in by
+// implementing AccessCodeProvider and registering under a name. Which one runs
+// is ACCESS_CODE_PROVIDER (default "fake").
+//
+// The fake provider talks to nothing: it makes up a code and remembers it in
+// memory. It is for tests and for homes with a keypad someone programs by
+// hand from the code in the panel — it does NOT unlock anything by itself.
+
+export interface AccessCodeRequest {
+  showingId: string;
+  /** properties.lockbox_id — the device at the provider; null for the fake. */
+  lockId: string | null;
+  validFrom: Date;
+  validUntil: Date;
+}
+
+export interface IssuedAccessCode {
+  code: string;
+  /** The provider's handle for revoking it later, if it has one. */
+  externalId: string | null;
+}
+
+export interface AccessCodeProvider {
+  /** Stored on showing_access_codes.provider so revoke goes to the same place. */
+  readonly name: string;
+  issue(req: AccessCodeRequest): Promise<IssuedAccessCode>;
+  revoke(code: { code: string; externalId: string | null }): Promise<void>;
+}
+
+/** How early a renter may open the door, and how long they have after the slot ends. */
+export const EARLY_ACCESS_MINUTES = 15;
+export const LATE_ACCESS_MINUTES = 15;
+
+/** The window a showing's code works in: the slot, padded on both sides. */
+export function accessWindow(scheduledAt: string | Date, durationMinutes: number): { validFrom: Date; validUntil: Date } {
+  const start = new Date(scheduledAt).getTime();
+  return {
+    validFrom: new Date(start - EARLY_ACCESS_MINUTES * 60_000),
+    validUntil: new Date(start + (durationMinutes + LATE_ACCESS_MINUTES) * 60_000),
+  };
+}
+
+function randomDigits(n: number): string {
+  const bytes = new Uint8Array(n);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => String(b % 10)).join("");
+}
+
+/** In-memory provider for tests and hand-programmed keypads. */
+export class FakeAccessCodeProvider implements AccessCodeProvider {
+  readonly name = "fake";
+  private readonly live = new Map<string, { showingId: string; validFrom: Date; validUntil: Date }>();
+
+  issue(req: AccessCodeRequest): Promise<IssuedAccessCode> {
+    let code = randomDigits(6);
+    while (this.live.has(code)) code = randomDigits(6);
+    this.live.set(code, { showingId: req.showingId, validFrom: req.validFrom, validUntil: req.validUntil });
+    return Promise.resolve({ code, externalId: `fake-${req.showingId}` });
+  }
+
+  revoke({ code }: { code: string; externalId: string | null }): Promise<void> {
+    this.live.delete(code);
+    return Promise.resolve();
+  }
+
+  /** Would the door open for `code` at `at`? (What a real lock decides.) */
+  opens(code: string, at: Date = new Date()): boolean {
+    const entry = this.live.get(code);
+    return !!entry && at >= entry.validFrom && at <= entry.validUntil;
+  }
+}
+
+const PROVIDERS: Record<string, () => AccessCodeProvider> = {
+  fake: () => new FakeAccessCodeProvider(),
+};
+
+/**
+ * The provider named `name` (default: ACCESS_CODE_PROVIDER, then "fake").
+ * An unknown name throws — issuing a made-up code for a lock that expects a
+ * real one would strand the renter at the door.
+ */
+export function getAccessCodeProvider(name?: string | null): AccessCodeProvider {
+  const key = name || Deno.env.get("ACCESS_CODE_PROVIDER") || "fake";
+  const make = PROVIDERS[key];
+  if (!make) throw new Error(`Unknown access code provider: ${key}`);
+  return make();
+}
+
+// ── Persistence (showing_access_codes) ───────────────────────────────────
+
+export interface StoredAccessCode {
+  id: string;
+  provider: string;
+  code: string;
+  external_id: string | null;
+}
+
+/** The slice of a supabase-js client the helpers below touch. */
+export interface AccessCodeClient {
+  from(table: "showing_access_codes"): {
+    insert(row: Record<string, unknown>): PromiseLike<{ error: { message: string } | null }>;
+    select(columns: string): {
+      eq(column: string, value: string): {
+        is(column: string, value: null): PromiseLike<{ data: StoredAccessCode[] | null; error: unknown }>;
+      };
+    };
+    update(values: Record<string, unknown>): {
+      eq(column: string, value: string): PromiseLike<{ error: unknown }>;
+    };
+  };
+}
+
+/**
+ * Issue and store the code for one self-guided showing. Throws when the
+ * provider or the insert fails — the caller decides what the renter is told.
+ */
+export async function issueShowingAccessCode(
+  client: AccessCodeClient,
+  showing: {
+    organizationId: string;
+    showingId: string;
+    propertyId: string;
+    lockId: string | null;
+    scheduledAt: string;
+    durationMinutes: number;
+  },
+  provider: AccessCodeProvider = getAccessCodeProvider(),
+): Promise<{ code: string; validFrom: Date; validUntil: Date }> {
+  const window = accessWindow(showing.scheduledAt, showing.durationMinutes);
+  const issued = await provider.issue({ showingId: showing.showingId, lockId: showing.lockId, ...window });
+  const { error } = await client.from("showing_access_codes").insert({
+    organization_id: showing.organizationId,
+    showing_id: showing.showingId,
+    property_id: showing.propertyId,
+    provider: provider.name,
+    code: issued.code,
+    external_id: issued.externalId,
+    valid_from: window.validFrom.toISOString(),
+    valid_until: window.validUntil.toISOString(),
+  });
+  if (error) {
+    // Don't leave a live code at the provider that nothing points to.
+    await provider.revoke(issued).catch(() => undefined);
+    throw new Error(`showing_access_codes insert failed: ${error.message}`);
+  }
+  return { code: issued.code, ...window };
+}
+
+/**
+ * Revoke a showing's live code(s) — on cancel, reschedule and check-out.
+ * Best-effort per code: a provider failure is logged, not thrown, so the
+ * showing change it accompanies still goes through.
+ */
+export async function revokeShowingAccessCodes(
+  client: AccessCodeClient,
+  showingId: string,
+  extra: Record<string, unknown> = {},
+): Promise<void> {
+  const { data } = await client.from("showing_access_codes").select("id, provider, code, external_id")
+    .eq("showing_id", showingId).is("revoked_at", null);
+  for (const row of data || []) {
+    try {
+      await getAccessCodeProvider(row.provider).revoke({ code: row.code, externalId: row.external_id });
+    } catch (err) {
+      console.error(`Access code revoke failed (${row.provider}):`, (err as Error)?.message);
+    }
+    await client.from("showing_access_codes")
+      .update({ revoked_at: new Date().toISOString(), ...extra })
+      .eq("id", row.id);
+  }
+}
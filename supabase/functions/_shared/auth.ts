@@ -0,0 +1,120 @@
+// Who is calling this function? The one check every privileged edge function
+// needs, and the one that used to be pasted (and drift) in each of them.
+//
+//   * the service-role key → an internal call (cron, another function)
+//   * a user JWT           → an active row in public.users, optionally with
+//                            one of `roles`
+//   * nothing / anon key   → 401
+//
+// The client is passed in, not created here, so tests can hand in a fake and
+// functions reuse the service client they already hold.
+
+import { jsonResponse } from "./cors.ts";
+import { timingSafeEqual } from "./crypto.ts";
+
+export interface CallerUserRow {
+  id: string;
+  role: string | null;
+  is_active: boolean | null;
+  organization_id: string | null;
+}
+
+export type Caller =
+  | { kind: "service" }
+  | {
+    kind: "user";
+    authUserId: string;
+    userId: string;
+    role: string | null;
+    organizationId: string | null;
+  };
+
+/** The slice of a supabase-js client this module touches. */
+export interface AuthClient {
+  auth: {
+    getUser(jwt: string): PromiseLike<{ data: { user: { id: string } | null }; error: unknown }>;
+  };
+  from(table: string): {
+    select(columns: string): {
+      eq(column: string, value: string): {
+        maybeSingle(): PromiseLike<{ data: CallerUserRow | null; error: unknown }>;
+      };
+    };
+  };
+}
+
+export interface AuthorizeOptions {
+  /** Allowed users.role values. Omit to let any active user through. */
+  roles?: string[];
+  /** Reject users that have no organization. */
+  requireOrganization?: boolean;
+  /** Also take the service-role key from `apikey`, where functions.invoke puts it. */
+  serviceRoleInApikey?: boolean;
+  /** The function's own CORS headers, for the 401/403 responses. */
+  corsHeaders?: Record<string, string>;
+  /** Defaults to SUPABASE_SERVICE_ROLE_KEY / SUPABASE_ANON_KEY. */
+  serviceRoleKey?: string;
+  anonKey?: string;
+}
+
+export const ADMIN_ROLES = ["super_admin", "admin"];
+
+export function bearerToken(req: Request): string {
+  return (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "").trim();
+}
+
+export function isServiceRoleToken(token: string, serviceRoleKey?: string): boolean {
+  const key = serviceRoleKey ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  return token.length > 0 && key.length > 0 && timingSafeEqual(token, key);
+}
+
+/**
+ * The service-role key in either header: raw-fetch callers send it as the
+ * Bearer token, functions.invoke() in `apikey` (its Bearer is the anon key).
+ * For internal-only functions that accept no user at all.
+ */
+export function isServiceRoleRequest(req: Request, serviceRoleKey?: string): boolean {
+  return isServiceRoleToken(bearerToken(req), serviceRoleKey)
+    || isServiceRoleToken((req.headers.get("apikey") || "").trim(), serviceRoleKey);
+}
+
+export async function authorizeCaller(
+  req: Request,
+  supabase: AuthClient,
+  opts: AuthorizeOptions = {},
+): Promise<{ caller: Caller; response?: undefined } | { caller?: undefined; response: Response }> {
+  const deny = (status: 401 | 403) => ({
+    response: jsonResponse({ error: status === 401 ? "Unauthorized" : "Forbidden" }, status, opts.corsHeaders),
+  });
+
+  const token = bearerToken(req);
+  const service = opts.serviceRoleInApikey
+    ? isServiceRoleRequest(req, opts.serviceRoleKey)
+    : isServiceRoleToken(token, opts.serviceRoleKey);
+  if (service) return { caller: { kind: "service" } };
+
+  const anonKey = opts.anonKey ?? Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+  if (!token || (anonKey && timingSafeEqual(token, anonKey))) return deny(401);
+
+  const { data: authData, error: authErr } = await supabase.auth.getUser(token);
+  if (authErr || !authData?.user) return deny(401);
+
+  const { data: row } = await supabase
+    .from("users")
+    .select("id, role, is_active, organization_id")
+    .eq("auth_user_id", authData.user.id)
+    .maybeSingle();
+  if (!row || row.is_active === false) return deny(403);
+  if (opts.roles && !opts.roles.includes(row.role || "")) return deny(403);
+  if (opts.requireOrganization && !row.organization_id) return deny(403);
+
+  return {
+    caller: {
+      kind: "user",
+      authUserId: authData.user.id,
+      userId: row.id,
+      role: row.role,
+      organizationId: row.organization_id,
+    },
+  };
+}
@@ -0,0 +1,346 @@
+// Two-way sync with an agent's own calendar over CalDAV (RFC 4791).
+//
+// Reads: the agent's busy time in a window (calendar-query REPORT, with the
+// server expanding recurring events into instances). Writes: one event per
+// showing, PUT under a stable UID so a moved tour overwrites its event and a
+// cancelled one is DELETEd. Our own events come back on the next read; they
+// are recognised by their UID and never count as busy time.
+//
+// Google Calendar, iCloud, Fastmail, Nextcloud and Radicale all speak it.
+// Every call takes the fetch to use, so the tests drive it with a fake and it
+// can be pointed at a local server (src/test/caldav.test.ts, CALDAV_TEST_URL).
+
+export interface CalDavCalendar {
+  /** The calendar collection, e.g. https://caldav.example.com/ana/personal/ */
+  url: string;
+  username: string;
+  password: string;
+}
+
+export type CalDavFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface BusyBlock {
+  uid: string;
+  start: Date;
+  end: Date;
+}
+
+export class CalDavError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "CalDavError";
+  }
+}
+
+const EVENT_DOMAIN = "rentfindercleveland.com";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The UID a showing's event is written under — stable for the showing's life. */
+export function showingEventUid(showingId: string): string {
+  return `showing-${showingId}@${EVENT_DOMAIN}`;
+}
+
+export function isShowingEventUid(uid: string): boolean {
+  return uid.startsWith("showing-") && uid.endsWith(`@${EVENT_DOMAIN}`);
+}
+
+// ── Time zones ───────────────────────────────────────────────────────────
+
+function offsetMs(at: number, tz: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz, hourCycle: "h23",
+    year: "numeric", month: "2-digit", day: "2-digit",
+    hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(new Date(at));
+  const n = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(n("year"), n("month") - 1, n("day"), n("hour"), n("minute"), n("second")) - at;
+}
+
+/** Wall-clock date ("YYYY-MM-DD") and time ("HH:MM[:SS]") in `tz` → the instant. */
+export function zonedToUtc(date: string, time: string, tz: string): Date {
+  const [y, mo, d] = date.split("-").map(Number);
+  const [h, mi, s] = time.split(":").map(Number);
+  const wall = Date.UTC(y, mo - 1, d, h, mi, s || 0);
+  // Twice: the first guess can sit on the other side of a DST switch.
+  let at = wall - offsetMs(wall, tz);
+  at = wall - offsetMs(at, tz);
+  return new Date(at);
+}
+
+// ── Reading iCalendar ────────────────────────────────────────────────────
+
+interface IcsProp {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseLine(line: string): IcsProp | null {
+  const colon = line.indexOf(":");
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const eq = p.indexOf("=");
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function icsInstant(prop: IcsProp, defaultTz: string): { at: Date; allDay: boolean } | null {
+  const v = prop.value.trim();
+  const m = v.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return null;
+  const date = `${m[1]}-${m[2]}-${m[3]}`;
+  if (!m[4] || prop.params.VALUE === "DATE") {
+    return { at: zonedToUtc(date, "00:00", defaultTz), allDay: true };
+  }
+  const time = `${m[4]}:${m[5]}:${m[6]}`;
+  if (m[7]) return { at: new Date(`${date}T${time}Z`), allDay: false };
+  let tz = prop.params.TZID || defaultTz;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+  } catch {
+    // Outlook writes Windows zone names ("Eastern Standard Time").
+    tz = defaultTz;
+  }
+  return { at: zonedToUtc(date, time, tz), allDay: false };
+}
+
+function durationMs(value: string): number {
+  const m = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return 0;
+  const [, sign, w, d, h, mi, s] = m;
+  const ms = ((+(w || 0) * 7 + +(d || 0)) * 24 * 3600 + +(h || 0) * 3600 + +(mi || 0) * 60 + +(s || 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * The busy time in an iCalendar document: every VEVENT that is neither
+ * cancelled nor marked free (TRANSP:TRANSPARENT). Floating and all-day times
+ * are read in `defaultTz` — the agent's own zone.
+ */
+export function parseBusyBlocks(ics: string, defaultTz: string): BusyBlock[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const blocks: BusyBlock[] = [];
+  let event: Map<string, IcsProp> | null = null;
+  // Components nested in an event (VALARM) carry their own DURATION etc.
+  let nested = 0;
+
+  for (const line of lines) {
+    const prop = parseLine(line);
+    if (!prop) continue;
+    if (prop.name === "BEGIN") {
+      if (prop.value === "VEVENT" && !event) event = new Map();
+      else if (event) nested++;
+      continue;
+    }
+    if (prop.name === "END") {
+      if (event && nested > 0) {
+        nested--;
+      } else if (event && prop.value === "VEVENT") {
+        const block = toBlock(event, defaultTz);
+        if (block) blocks.push(block);
+        event = null;
+      }
+      continue;
+    }
+    if (event && nested === 0 && !event.has(prop.name)) event.set(prop.name, prop);
+  }
+  return blocks;
+}
+
+function toBlock(event: Map<string, IcsProp>, defaultTz: string): BusyBlock | null {
+  if (event.get("STATUS")?.value.trim().toUpperCase() === "CANCELLED") return null;
+  if (event.get("TRANSP")?.value.trim().toUpperCase() === "TRANSPARENT") return null;
+  const dtstart = event.get("DTSTART");
+  const start = dtstart && icsInstant(dtstart, defaultTz);
+  if (!start) return null;
+
+  const dtend = event.get("DTEND");
+  const duration = event.get("DURATION");
+  let end = dtend ? icsInstant(dtend, defaultTz)?.at : undefined;
+  if (!end && duration) end = new Date(start.at.getTime() + durationMs(duration.value));
+  if (!end) end = new Date(start.at.getTime() + (start.allDay ? DAY_MS : 0));
+  if (end <= start.at) return null;
+
+  const uid = event.get("UID")?.value.trim() || "";
+  const recurrence = event.get("RECURRENCE-ID")?.value.trim();
+  return { uid: recurrence ? `${uid}#${recurrence}` : uid, start: start.at, end };
+}
+
+/** The calendar-data payloads of a multistatus response. */
+export function calendarDataOf(multistatus: string): string[] {
+  const out: string[] = [];
+  const re = /<(?:[\w-]+:)?calendar-data\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/g;
+  for (const m of multistatus.matchAll(re)) {
+    const body = m[1].trim().replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1");
+    out.push(
+      body
+        .replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'").replace(/&#13;/g, "\r").replace(/&#10;/g, "\n")
+        .replace(/&amp;/g, "&"),
+    );
+  }
+  return out;
+}
+
+// ── Writing iCalendar ────────────────────────────────────────────────────
+
+function icsText(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function icsUtc(d: Date): string {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// RFC 5545 §3.1: fold at 75 octets, never inside a UTF-8 sequence.
+function fold(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const out: string[] = [];
+  let start = 0;
+  let limit = 75;
+  while (start < bytes.length) {
+    let end = Math.min(start + limit, bytes.length);
+    while (end > start && end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    out.push(new TextDecoder().decode(bytes.slice(start, end)));
+    start = end;
+    limit = 74;
+  }
+  return out.join("\r\n ");
+}
+
+export interface ShowingEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  location?: string;
+  description?: string;
+}
+
+export function buildEventIcs(ev: ShowingEvent, now: Date = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Rent Finder Cleveland//Showings//EN",
+    "BEGIN:VEVENT",
+    `UID:${ev.uid}`,
+    `DTSTAMP:${icsUtc(now)}`,
+    `DTSTART:${icsUtc(ev.start)}`,
+    `DTEND:${icsUtc(ev.end)}`,
+    `SUMMARY:${icsText(ev.summary)}`,
+    ...(ev.location ? [`LOCATION:${icsText(ev.location)}`] : []),
+    ...(ev.description ? [`DESCRIPTION:${icsText(ev.description)}`] : []),
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+// ── Talking to the server ────────────────────────────────────────────────
+
+function authHeader(cal: CalDavCalendar): string {
+  const bytes = new TextEncoder().encode(`${cal.username}:${cal.password}`);
+  let s = "";
+  for (const b of bytes) s += String.fromCharCode(b);
+  return `Basic ${btoa(s)}`;
+}
+
+function eventUrl(cal: CalDavCalendar, uid: string): string {
+  return `${cal.url.replace(/\/?$/, "/")}${encodeURIComponent(uid)}.ics`;
+}
+
+export function calendarQueryXml(from: Date, to: Date): string {
+  const range = `start="${icsUtc(from)}" end="${icsUtc(to)}"`;
+  return `<?xml version="1.0" encoding="utf-8"?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <D:getetag/>
+    <C:calendar-data><C:expand ${range}/></C:calendar-data>
+  </D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR">
+      <C:comp-filter name="VEVENT"><C:time-range ${range}/></C:comp-filter>
+    </C:comp-filter>
+  </C:filter>
+</C:calendar-query>`;
+}
+
+/**
+ * The agent's busy time between `from` and `to`, clipped to that window.
+ * Events this sync wrote (showings) are left out.
+ */
+export async function fetchBusyBlocks(
+  cal: CalDavCalendar,
+  from: Date,
+  to: Date,
+  opts: { fetch?: CalDavFetch; defaultTz?: string } = {},
+): Promise<BusyBlock[]> {
+  const doFetch = opts.fetch ?? fetch;
+  const res = await doFetch(cal.url, {
+    method: "REPORT",
+    headers: {
+      Authorization: authHeader(cal),
+      "Content-Type": "application/xml; charset=utf-8",
+      Depth: "1",
+    },
+    body: calendarQueryXml(from, to),
+  });
+  if (res.status !== 207 && !res.ok) {
+    throw new CalDavError(`CalDAV REPORT failed (${res.status})`, res.status);
+  }
+  const tz = opts.defaultTz ?? "America/New_York";
+  const blocks: BusyBlock[] = [];
+  for (const ics of calendarDataOf(await res.text())) {
+    for (const b of parseBusyBlocks(ics, tz)) {
+      if (isShowingEventUid(b.uid.split("#")[0]) || b.end <= from || b.start >= to) continue;
+      blocks.push({
+        uid: b.uid,
+        start: b.start < from ? from : b.start,
+        end: b.end > to ? to : b.end,
+      });
+    }
+  }
+  return blocks;
+}
+
+/** Create or overwrite the event. Returns the server's ETag, when it sends one. */
+export async function putEvent(
+  cal: CalDavCalendar,
+  ev: ShowingEvent,
+  opts: { fetch?: CalDavFetch } = {},
+): Promise<string | null> {
+  const doFetch = opts.fetch ?? fetch;
+  const res = await doFetch(eventUrl(cal, ev.uid), {
+    method: "PUT",
+    headers: { Authorization: authHeader(cal), "Content-Type": "text/calendar; charset=utf-8" },
+    body: buildEventIcs(ev),
+  });
+  if (!res.ok) throw new CalDavError(`CalDAV PUT failed (${res.status})`, res.status);
+  return res.headers.get("ETag");
+}
+
+/** Remove the event. Already gone counts as done. */
+export async function deleteEvent(
+  cal: CalDavCalendar,
+  uid: string,
+  opts: { fetch?: CalDavFetch } = {},
+): Promise<void> {
+  const doFetch = opts.fetch ?? fetch;
+  const res = await doFetch(eventUrl(cal, uid), {
+    method: "DELETE",
+    headers: { Authorization: authHeader(cal) },
+  });
+  if (!res.ok && res.status !== 404 && res.status !== 410) {
+    throw new CalDavError(`CalDAV DELETE failed (${res.status})`, res.status);
+  }
+}
+
+/** Does [start, end) overlap any block? */
+export function overlapsBusy(start: Date, end: Date, blocks: { start: Date; end: Date }[]): boolean {
+  return blocks.some((b) => b.start < end && b.end > start);
+}
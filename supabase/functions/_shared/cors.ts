@@ -0,0 +1,30 @@
+// CORS for every edge function. The app calls them with supabase-js, which
+// sends these four headers on every request; functions that take a secret or a
+// webhook signature in a custom header add it through `extraHeaders`.
+
+export const CORS_ALLOW_HEADERS = "authorization, x-client-info, apikey, content-type";
+
+export function buildCorsHeaders(
+  opts: { methods?: string; extraHeaders?: string[] } = {},
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": [CORS_ALLOW_HEADERS, ...(opts.extraHeaders || [])].join(", "),
+  };
+  if (opts.methods) headers["Access-Control-Allow-Methods"] = opts.methods;
+  return headers;
+}
+
+/** The common case: a POST endpoint called from the app. */
+export const corsHeaders = buildCorsHeaders({ methods: "POST, OPTIONS" });
+
+export function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = corsHeaders,
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
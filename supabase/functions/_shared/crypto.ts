@@ -0,0 +1,12 @@
+// Constant-time string compare for secrets, signatures and tokens. Runs over
+// the longer input and folds the length difference into the result, so neither
+// a mismatch position nor a length mismatch returns early.
+export function timingSafeEqual(a: string, b: string): boolean {
+  const enc = new TextEncoder();
+  const aBytes = enc.encode(a);
+  const bBytes = enc.encode(b);
+  const len = Math.max(aBytes.length, bBytes.length);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < len; i++) diff |= (aBytes[i] ?? 0) ^ (bBytes[i] ?? 0);
+  return diff === 0;
+}
@@ -0,0 +1,671 @@
+// GENERATED from src/lib/emailTemplateDefaults.ts by scripts/generate-edge-shared.mjs — do not edit.
+// Change the source and run `npm run gen:edge-shared`.
+
+// ── Email Template Config Types & Defaults ─────────────────────────────────
+// Used by the Email Templates editor (Nurturing Leads) and, through the
+// generated copy in supabase/functions/_shared/generated/, by the
+// agent-task-dispatcher edge function. Keep it dependency-free.
+
+export type EmailTemplateType =
+  | "welcome"
+  | "schedule_showing"
+  | "showing_confirmation"
+  | "no_show"
+  | "post_showing"
+  | "cancelled_showing"
+  | "rescheduled_showing";
+
+export interface EmailButton {
+  text: string;
+  url: string;
+  style: "primary" | "secondary";
+}
+
+export interface EmailTemplateConfig {
+  subject: string;
+  headerTitle: string;
+  headerSubtitle?: string;
+  bodyParagraphs: string[];
+  buttons: EmailButton[];
+  showPropertyCard: boolean;
+  showSteps: boolean;
+  stepTexts?: string[];
+  showSection8Badge: boolean;
+  footerText: string;
+}
+
+export type EmailTemplateConfigs = Partial<Record<EmailTemplateType, EmailTemplateConfig>>;
+
+/** Languages a lead-facing email can go out in (leads.preferred_language). */
+export type EmailLanguage = "en" | "es";
+
+export const EMAIL_LANGUAGES: EmailLanguage[] = ["en", "es"];
+
+export const EMAIL_LANGUAGE_LABELS: Record<EmailLanguage, string> = {
+  en: "English",
+  es: "Español",
+};
+
+/**
+ * organization_settings.email_templates. English templates stay at the top
+ * level, where every saved map already has them; Spanish variants live under
+ * `es`, keyed the same way.
+ */
+export type EmailTemplatesMap = EmailTemplateConfigs & { es?: EmailTemplateConfigs };
+
+// ── Metadata for the editor UI ─────────────────────────────────────────────
+
+export const TEMPLATE_TYPES: EmailTemplateType[] = [
+  "welcome",
+  "schedule_showing",
+  "showing_confirmation",
+  "no_show",
+  "post_showing",
+  "cancelled_showing",
+  "rescheduled_showing",
+];
+
+export const TEMPLATE_META: Record<
+  EmailTemplateType,
+  { label: string; description: string }
+> = {
+  welcome: {
+    label: "Welcome",
+    description: "Sent to new leads when they first enter the system",
+  },
+  schedule_showing: {
+    label: "Schedule Showing",
+    description: "Marketing push to get leads to book a tour today",
+  },
+  showing_confirmation: {
+    label: "Showing Reminder",
+    description: "Reminder before a scheduled showing",
+  },
+  no_show: {
+    label: "No-Show Follow-up",
+    description: "Sent after a lead misses their showing",
+  },
+  post_showing: {
+    label: "Post-Showing",
+    description: "Follow-up after a completed showing",
+  },
+  cancelled_showing: {
+    label: "Cancelled Showing",
+    description: "Sent to leads when their showing is cancelled",
+  },
+  rescheduled_showing: {
+    label: "Rescheduled Showing",
+    description: "Sent to leads when their showing is rescheduled",
+  },
+};
+
+export const TEMPLATE_VARIABLES: Record<EmailTemplateType, string[]> = {
+  welcome: [
+    "{firstName}",
+    "{fullName}",
+    "{propertyAddress}",
+    "{propertyRent}",
+    "{propertyBeds}",
+    "{propertyBaths}",
+    "{orgName}",
+    "{senderDomain}",
+  ],
+  schedule_showing: [
+    "{firstName}",
+    "{fullName}",
+    "{propertyAddress}",
+    "{propertyRent}",
+    "{propertyBeds}",
+    "{propertyBaths}",
+    "{orgName}",
+    "{senderDomain}",
+  ],
+  showing_confirmation: [
+    "{firstName}",
+    "{fullName}",
+    "{propertyAddress}",
+    "{showingDate}",
+    "{orgName}",
+  ],
+  no_show: [
+    "{firstName}",
+    "{fullName}",
+    "{propertyAddress}",
+    "{orgName}",
+  ],
+  post_showing: [
+    "{firstName}",
+    "{fullName}",
+    "{propertyAddress}",
+    "{orgName}",
+    "{senderDomain}",
+    "{surveyUrl}",
+  ],
+  cancelled_showing: [
+    "{firstName}",
+    "{fullName}",
+    "{propertyAddress}",
+    "{orgName}",
+    "{senderDomain}",
+  ],
+  rescheduled_showing: [
+    "{firstName}",
+    "{fullName}",
+    "{propertyAddress}",
+    "{showingDate}",
+    "{orgName}",
+    "{senderDomain}",
+  ],
+};
+
+// ── Default Configs (mirror the current hardcoded builders) ────────────────
+
+export const DEFAULT_CONFIGS: Record<EmailTemplateType, EmailTemplateConfig> = {
+  welcome: {
+    subject: "Welcome to {orgName}!",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Quality Rental Homes in Cleveland",
+    bodyParagraphs: [
+      "Welcome, {firstName}!",
+      "Thank you for your interest in our rental properties. We're excited to help you find your next home in Cleveland.",
+    ],
+    buttons: [
+      { text: "Book a Showing", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+      { text: "Apply Now", url: "https://{senderDomain}/p/apply", style: "secondary" },
+    ],
+    showPropertyCard: true,
+    showSteps: true,
+    stepTexts: [
+      "We'll match you with available properties",
+      "Schedule a showing at your convenience",
+      "Apply online and move in!",
+    ],
+    showSection8Badge: true,
+    footerText: "Questions? Simply reply to this email — we're here to help.",
+  },
+  schedule_showing: {
+    subject: "Your Tour Awaits — Schedule Today!",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Book Your Free Tour",
+    bodyParagraphs: [
+      "Hey {firstName}!",
+      "Great homes don't last long — and we've got the perfect spot waiting for you.",
+      "Book a free, no-pressure tour and see it for yourself. Times are filling up fast!",
+    ],
+    buttons: [
+      { text: "Schedule My Tour", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+    ],
+    showPropertyCard: true,
+    showSteps: false,
+    showSection8Badge: true,
+    footerText: "Questions? Simply reply to this email or call us — we're here to help!",
+  },
+  showing_confirmation: {
+    subject: "Showing Reminder — {propertyAddress}",
+    headerTitle: "{orgName}",
+    bodyParagraphs: [
+      "Hi {firstName},",
+      "This is a friendly reminder about your upcoming showing at {propertyAddress} on {showingDate}.",
+      "Please reply YES to confirm or call us if you need to reschedule.",
+    ],
+    buttons: [],
+    showPropertyCard: true,
+    showSteps: false,
+    showSection8Badge: false,
+    footerText: "Reply to this email or call us to reschedule.",
+  },
+  no_show: {
+    subject: "We Missed You — {propertyAddress}",
+    headerTitle: "{orgName}",
+    bodyParagraphs: [
+      "Hi {firstName},",
+      "We noticed you weren't able to make it to the showing at {propertyAddress}. No worries — life happens!",
+      "We'd love to reschedule at a time that works better for you.",
+    ],
+    buttons: [],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: false,
+    footerText: "Reply to reschedule or call us anytime.",
+  },
+  post_showing: {
+    subject: "Next Steps — {propertyAddress}",
+    headerTitle: "{orgName}",
+    bodyParagraphs: [
+      "Hi {firstName},",
+      "Thanks for visiting {propertyAddress} today! We hope you enjoyed the tour.",
+      "Ready to make it your new home? Start your application online:",
+    ],
+    buttons: [
+      { text: "Start Application", url: "https://{senderDomain}/p/apply", style: "primary" },
+      { text: "Rate Your Tour (1 min)", url: "{surveyUrl}", style: "secondary" },
+    ],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: false,
+    footerText: "Have questions? Just reply to this email.",
+  },
+  cancelled_showing: {
+    subject: "Your Showing Has Been Cancelled — {propertyAddress}",
+    headerTitle: "{orgName}",
+    headerSubtitle: "We're sorry for the inconvenience",
+    bodyParagraphs: [
+      "Hi {firstName},",
+      "Your showing at {propertyAddress} has been cancelled. We apologize for the inconvenience.",
+      "We have more great properties available — book another tour and we'll find the right home for you!",
+    ],
+    buttons: [
+      { text: "Schedule Another Showing", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+    ],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: true,
+    footerText: "Questions? Reply to this email or call us — we're here to help!",
+  },
+  rescheduled_showing: {
+    subject: "Your Showing Has Been Rescheduled — {propertyAddress}",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Pick a new date and time",
+    bodyParagraphs: [
+      "Hi {firstName},",
+      "Your showing at {propertyAddress} on {showingDate} has been rescheduled.",
+      "Please pick a new date and time that works for you:",
+    ],
+    buttons: [
+      { text: "Reschedule Showing", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+    ],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: true,
+    footerText: "Questions? Reply to this email or call us — we're here to help!",
+  },
+};
+
+// ── Spanish defaults ───────────────────────────────────────────────────────
+// Same layout, buttons and variables as DEFAULT_CONFIGS; only the copy differs.
+
+export const DEFAULT_CONFIGS_ES: Record<EmailTemplateType, EmailTemplateConfig> = {
+  welcome: {
+    subject: "¡Bienvenido a {orgName}!",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Casas de alquiler de calidad en Cleveland",
+    bodyParagraphs: [
+      "¡Bienvenido, {firstName}!",
+      "Gracias por su interés en nuestras propiedades de alquiler. Nos da mucho gusto ayudarle a encontrar su próximo hogar en Cleveland.",
+    ],
+    buttons: [
+      { text: "Agendar una visita", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+      { text: "Aplicar ahora", url: "https://{senderDomain}/p/apply", style: "secondary" },
+    ],
+    showPropertyCard: true,
+    showSteps: true,
+    stepTexts: [
+      "Le mostraremos las propiedades disponibles que mejor le queden",
+      "Agende una visita cuando le convenga",
+      "¡Aplique en línea y múdese!",
+    ],
+    showSection8Badge: true,
+    footerText: "¿Preguntas? Simplemente responda a este correo — estamos para ayudarle.",
+  },
+  schedule_showing: {
+    subject: "Su visita le espera — ¡agéndela hoy!",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Agende su visita gratis",
+    bodyParagraphs: [
+      "¡Hola, {firstName}!",
+      "Las buenas casas no duran mucho — y tenemos el lugar perfecto esperándole.",
+      "Agende una visita gratis y sin compromiso para verlo en persona. ¡Los horarios se llenan rápido!",
+    ],
+    buttons: [
+      { text: "Agendar mi visita", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+    ],
+    showPropertyCard: true,
+    showSteps: false,
+    showSection8Badge: true,
+    footerText: "¿Preguntas? Responda a este correo o llámenos — estamos para ayudarle.",
+  },
+  showing_confirmation: {
+    subject: "Recordatorio de visita — {propertyAddress}",
+    headerTitle: "{orgName}",
+    bodyParagraphs: [
+      "Hola, {firstName}:",
+      "Le recordamos su próxima visita a {propertyAddress} el {showingDate}.",
+      "Por favor responda SÍ para confirmar, o llámenos si necesita cambiar la hora.",
+    ],
+    buttons: [],
+    showPropertyCard: true,
+    showSteps: false,
+    showSection8Badge: false,
+    footerText: "Responda a este correo o llámenos para cambiar la hora.",
+  },
+  no_show: {
+    subject: "Le extrañamos — {propertyAddress}",
+    headerTitle: "{orgName}",
+    bodyParagraphs: [
+      "Hola, {firstName}:",
+      "Vimos que no pudo llegar a la visita en {propertyAddress}. No se preocupe — ¡son cosas que pasan!",
+      "Con gusto la reprogramamos para un horario que le quede mejor.",
+    ],
+    buttons: [],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: false,
+    footerText: "Responda para reprogramar o llámenos cuando quiera.",
+  },
+  post_showing: {
+    subject: "Próximos pasos — {propertyAddress}",
+    headerTitle: "{orgName}",
+    bodyParagraphs: [
+      "Hola, {firstName}:",
+      "¡Gracias por visitar {propertyAddress} hoy! Esperamos que le haya gustado.",
+      "¿Listo para que sea su nuevo hogar? Empiece su solicitud en línea:",
+    ],
+    buttons: [
+      { text: "Empezar solicitud", url: "https://{senderDomain}/p/apply", style: "primary" },
+      { text: "Califique su visita (1 min)", url: "{surveyUrl}", style: "secondary" },
+    ],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: false,
+    footerText: "¿Tiene preguntas? Solo responda a este correo.",
+  },
+  cancelled_showing: {
+    subject: "Su visita fue cancelada — {propertyAddress}",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Disculpe las molestias",
+    bodyParagraphs: [
+      "Hola, {firstName}:",
+      "Su visita a {propertyAddress} fue cancelada. Le pedimos disculpas por las molestias.",
+      "Tenemos más propiedades disponibles — agende otra visita y le ayudamos a encontrar el hogar indicado.",
+    ],
+    buttons: [
+      { text: "Agendar otra visita", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+    ],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: true,
+    footerText: "¿Preguntas? Responda a este correo o llámenos — estamos para ayudarle.",
+  },
+  rescheduled_showing: {
+    subject: "Su visita fue reprogramada — {propertyAddress}",
+    headerTitle: "{orgName}",
+    headerSubtitle: "Elija una nueva fecha y hora",
+    bodyParagraphs: [
+      "Hola, {firstName}:",
+      "Su visita a {propertyAddress} del {showingDate} fue reprogramada.",
+      "Por favor elija una nueva fecha y hora que le convenga:",
+    ],
+    buttons: [
+      { text: "Reprogramar visita", url: "https://{senderDomain}/p/book-showing?src=email&cid={{campaign_id}}&t={{prefill_token}}", style: "primary" },
+    ],
+    showPropertyCard: false,
+    showSteps: false,
+    showSection8Badge: true,
+    footerText: "¿Preguntas? Responda a este correo o llámenos — estamos para ayudarle.",
+  },
+};
+
+export const DEFAULT_CONFIGS_BY_LANGUAGE: Record<EmailLanguage, Record<EmailTemplateType, EmailTemplateConfig>> = {
+  en: DEFAULT_CONFIGS,
+  es: DEFAULT_CONFIGS_ES,
+};
+
+// ── Picking the template at send time ──────────────────────────────────────
+
+/** leads.preferred_language → the language to email in. Anything that isn't
+ * Spanish (including null on older leads) gets English. */
+export function emailLanguageFor(preferredLanguage: string | null | undefined): EmailLanguage {
+  return String(preferredLanguage || "").trim().toLowerCase().startsWith("es") ? "es" : "en";
+}
+
+export interface ResolvedEmailTemplate {
+  config: EmailTemplateConfig;
+  /** The language the chosen copy is written in — may be English for a
+   * Spanish-speaking lead (see resolveEmailTemplate). */
+  language: EmailLanguage;
+  /** True when the org saved this copy; false for the stock defaults. */
+  custom: boolean;
+}
+
+/**
+ * The copy to send for `type` to a lead who reads `language`:
+ *
+ * 1. the org's saved variant in that language;
+ * 2. the org's saved English template — an org that rewrote its English
+ *    email and has not written the Spanish one yet keeps its own wording
+ *    rather than our stock Spanish;
+ * 3. the stock default in that language.
+ */
+export function resolveEmailTemplate(
+  saved: EmailTemplatesMap | null | undefined,
+  type: EmailTemplateType,
+  language: EmailLanguage,
+): ResolvedEmailTemplate {
+  const variant = language === "es" ? saved?.es?.[type] : undefined;
+  if (variant) return { config: variant, language, custom: true };
+  const english = saved?.[type];
+  if (english) return { config: english, language: "en", custom: true };
+  return { config: DEFAULT_CONFIGS_BY_LANGUAGE[language][type], language, custom: false };
+}
+
+/** A showing time the way a Spanish email reads it, on the property's clock:
+ * "sábado, 15 de marzo, 2:00 p.m.". English callers keep their own formats. */
+export function formatShowingDateEs(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleString("es-US", {
+    timeZone, weekday: "long", month: "long", day: "numeric", hour: "numeric", minute: "2-digit",
+  });
+}
+
+// ── Sample variables for live preview ──────────────────────────────────────
+
+export const SAMPLE_VARIABLES: Record<string, string> = {
+  "{firstName}": "Sarah",
+  "{fullName}": "Sarah Johnson",
+  "{propertyAddress}": "1234 Cedar Ave, Cleveland, OH 44103",
+  "{propertyRent}": "$1,200",
+  "{propertyBeds}": "3",
+  "{propertyBaths}": "2",
+  "{showingDate}": "Saturday, March 15 at 2:00 PM",
+  "{orgName}": "Rent Finder Cleveland",
+  "{senderDomain}": "rentfindercleveland.com",
+  "{surveyUrl}": "https://rentfindercleveland.com/showing/survey",
+};
+
+// ── HTML Renderer ──────────────────────────────────────────────────────────
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function interpolate(text: string, vars: Record<string, string>): string {
+  return Object.entries(vars).reduce(
+    (result, [key, value]) => result.split(key).join(escapeHtml(value)),
+    text
+  );
+}
+
+// ── CAN-SPAM marketing footer ──────────────────────────────────────────────
+// Marketing (campaign / newsletter) emails MUST carry a working unsubscribe
+// mechanism and the sender's physical postal address. Transactional emails
+// (showing confirmations, application invites, etc.) are exempt and pass
+// `marketing: false` (the default), so their output is unchanged.
+
+/** Placeholder left in marketing HTML for the sending edge function to fill
+ * with a per-recipient, HMAC-signed unsubscribe URL. */
+export const UNSUBSCRIBE_URL_PLACEHOLDER = "{{unsubscribe_url}}";
+
+/** Fallback physical postal address (CAN-SPAM). Callers should override with
+ * the org's real address (organizations.address/city/state/zip). */
+export const DEFAULT_MARKETING_POSTAL_ADDRESS = "Rent Finder Cleveland, Cleveland, OH";
+
+/** Fixed text the renderer adds around a template's own copy. */
+export const EMAIL_CHROME: Record<
+  EmailLanguage,
+  {
+    bed: string;
+    bath: string;
+    perMonth: string;
+    section8Badge: string;
+    marketingReason: string;
+    unsubscribe: string;
+    unsubscribeSuffix: string;
+  }
+> = {
+  en: {
+    bed: "bed",
+    bath: "bath",
+    perMonth: "/mo",
+    section8Badge: "Section 8 Vouchers Accepted",
+    marketingReason: "You are receiving this email because you inquired about a rental home with",
+    unsubscribe: "Unsubscribe",
+    unsubscribeSuffix: "from marketing emails.",
+  },
+  es: {
+    bed: "hab.",
+    bath: "baños",
+    perMonth: "/mes",
+    section8Badge: "Aceptamos vales de Sección 8",
+    marketingReason: "Recibe este correo porque preguntó por una casa de alquiler con",
+    unsubscribe: "Cancele su suscripción",
+    unsubscribeSuffix: "a los correos promocionales.",
+  },
+};
+
+export interface RenderEmailOptions {
+  /** When true, append the CAN-SPAM marketing footer (postal address +
+   * unsubscribe link). Leave false/undefined for transactional emails. */
+  marketing?: boolean;
+  /** Sender's physical postal address shown in the marketing footer. */
+  postalAddress?: string;
+  /** Per-recipient unsubscribe URL. When omitted, the
+   * {{unsubscribe_url}} placeholder is left intact for the sending edge
+   * function to substitute (keeps the HMAC secret server-side only). */
+  unsubscribeUrl?: string;
+  /** Language of the badge and marketing footer. Defaults to English. */
+  language?: EmailLanguage;
+}
+
+export function renderEmailHtml(
+  config: EmailTemplateConfig,
+  variables: Record<string, string>,
+  propertyInfoHtml?: string,
+  options: RenderEmailOptions = {}
+): string {
+  const v = (text: string) => interpolate(text, variables);
+  const chrome = EMAIL_CHROME[options.language || "en"];
+  const PRIMARY = "#4F46E5";
+  const GOLD = "#ffb22c";
+
+  const headerHtml = `
+    <tr>
+      <td style="background:linear-gradient(135deg,${PRIMARY} 0%,#6366F1 100%);padding:32px 30px;text-align:center;">
+        <h1 style="margin:0;font-family:Montserrat,Arial,sans-serif;font-size:26px;font-weight:700;color:#ffffff;">
+          ${v(config.headerTitle)}
+        </h1>
+        ${config.headerSubtitle ? `<p style="margin:8px 0 0;font-family:Montserrat,Arial,sans-serif;font-size:14px;color:${GOLD};font-weight:500;">${v(config.headerSubtitle)}</p>` : ""}
+        <div style="width:60px;height:3px;background:${GOLD};margin:16px auto 0;border-radius:2px;"></div>
+      </td>
+    </tr>`;
+
+  const bodyHtml = config.bodyParagraphs
+    .map(
+      (p) =>
+        `<p style="margin:0 0 14px;font-family:Montserrat,Arial,sans-serif;font-size:15px;line-height:1.6;color:#333333;">${v(p)}</p>`
+    )
+    .join("\n");
+
+  // Custom property info HTML is always shown when provided (e.g. available properties list)
+  const extraContentHtml = propertyInfoHtml || "";
+
+  const propertyCardHtml = config.showPropertyCard
+    ? `<div style="background:#EEF2FF;border-left:4px solid ${PRIMARY};border-radius:8px;padding:16px 20px;margin:20px 0;">
+         <p style="margin:0;font-family:Montserrat,Arial,sans-serif;font-size:14px;color:#555;">
+           <strong>${v("{propertyAddress}")}</strong><br/>
+           ${variables["{propertyBeds}"] ? `${v("{propertyBeds}")} ${chrome.bed} / ${v("{propertyBaths}")} ${chrome.bath}` : ""}
+           ${variables["{propertyRent}"] ? ` &middot; ${v("{propertyRent}")}${chrome.perMonth}` : ""}
+         </p>
+       </div>`
+    : "";
+
+  const stepsHtml = config.showSteps && config.stepTexts?.length
+    ? `<table width="100%" cellpadding="0" cellspacing="0" style="margin:24px 0;">
+        ${config.stepTexts.map((step, i) => `
+          <tr>
+            <td width="36" valign="top" style="padding-bottom:12px;">
+              <div style="width:28px;height:28px;border-radius:50%;background:${PRIMARY};color:#fff;font-family:Montserrat,Arial,sans-serif;font-size:14px;font-weight:700;text-align:center;line-height:28px;">${i + 1}</div>
+            </td>
+            <td style="padding:4px 0 12px 10px;font-family:Montserrat,Arial,sans-serif;font-size:14px;color:#444;line-height:1.5;">${v(step)}</td>
+          </tr>`).join("")}
+       </table>`
+    : "";
+
+  const buttonsHtml = config.buttons.length
+    ? `<div style="text-align:center;margin:24px 0;">
+        ${config.buttons.map((btn) => {
+          const bg = btn.style === "primary" ? PRIMARY : GOLD;
+          const color = btn.style === "primary" ? "#ffffff" : "#1a1a1a";
+          return `<a href="${v(btn.url)}" style="display:inline-block;background:${bg};color:${color};font-family:Montserrat,Arial,sans-serif;font-size:15px;font-weight:600;text-decoration:none;padding:12px 28px;border-radius:8px;margin:6px 8px;">${v(btn.text)}</a>`;
+        }).join("\n")}
+       </div>`
+    : "";
+
+  const section8Html = config.showSection8Badge
+    ? `<div style="text-align:center;margin:20px 0;">
+         <span style="display:inline-block;background:#e8f5e9;color:#2e7d32;font-family:Montserrat,Arial,sans-serif;font-size:13px;font-weight:600;padding:8px 18px;border-radius:20px;border:1px solid #c8e6c9;">
+           ${chrome.section8Badge}
+         </span>
+       </div>`
+    : "";
+
+  // Marketing footer (CAN-SPAM): postal address + unsubscribe link. Only
+  // rendered for marketing emails; transactional templates omit it entirely.
+  const unsubscribeUrl = options.unsubscribeUrl || UNSUBSCRIBE_URL_PLACEHOLDER;
+  const postalAddress = (options.postalAddress || DEFAULT_MARKETING_POSTAL_ADDRESS).trim();
+  const marketingFooterHtml = options.marketing
+    ? `
+        <p style="margin:14px 0 0;font-family:Montserrat,Arial,sans-serif;font-size:12px;line-height:1.5;color:#9ca3af;">
+          ${chrome.marketingReason} ${v(config.headerTitle)}.
+        </p>
+        <p style="margin:6px 0 0;font-family:Montserrat,Arial,sans-serif;font-size:12px;line-height:1.5;color:#9ca3af;">
+          ${escapeHtml(postalAddress)}
+        </p>
+        <p style="margin:6px 0 0;font-family:Montserrat,Arial,sans-serif;font-size:12px;line-height:1.5;color:#9ca3af;">
+          <a href="${unsubscribeUrl}" style="color:#6b7280;text-decoration:underline;">${chrome.unsubscribe}</a> ${chrome.unsubscribeSuffix}
+        </p>`
+    : "";
+
+  const footerHtml = `
+    <tr>
+      <td style="padding:20px 30px;text-align:center;background:#f9fafb;border-top:1px solid #e5e7eb;">
+        <p style="margin:0;font-family:Montserrat,Arial,sans-serif;font-size:13px;color:#888;">${v(config.footerText)}</p>
+        ${marketingFooterHtml}
+      </td>
+    </tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"></head>
+<body style="margin:0;padding:0;background:#f4f1f1;font-family:Montserrat,Arial,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background:#f4f1f1;padding:20px 0;">
+    <tr><td align="center">
+      <table width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:12px;overflow:hidden;box-shadow:0 2px 12px rgba(0,0,0,0.08);">
+        ${headerHtml}
+        <tr><td style="padding:30px;">
+          ${bodyHtml}
+          ${propertyCardHtml}
+          ${extraContentHtml}
+          ${stepsHtml}
+          ${buttonsHtml}
+          ${section8Html}
+        </td></tr>
+        ${footerHtml}
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
@@ -0,0 +1,119 @@
+// GENERATED from src/lib/listingAlerts.ts by scripts/generate-edge-shared.mjs — do not edit.
+// Change the source and run `npm run gen:edge-shared`.
+
+// Saved searches ("Notify me" on the renter home page). A renter who finds
+// nothing today leaves the filter set they were looking at; when a unit that
+// fits becomes available, send-listing-alerts emails them a digest.
+//
+// Dependency-free on purpose: the edge function runs this same matcher from
+// supabase/functions/_shared/generated (npm run gen:edge-shared).
+
+export interface ListingAlertCriteria {
+  /** City group — "Cleveland" also covers East Cleveland (see CITY_GROUPS). */
+  city?: string | null;
+  /** Neighborhood label, as shown in the Area dropdown. */
+  area?: string | null;
+  /** Exact bedrooms; 0 is a studio and 5 means 5+. */
+  beds?: number | null;
+  /** Bathrooms, forgiving on half-baths; 5 means 5+. */
+  baths?: number | null;
+  zip?: string | null;
+  price_min?: number | null;
+  /** Null means no cap (the slider's right thumb at the end). */
+  price_max?: number | null;
+  home_type?: "single" | "multi" | null;
+  /** Only homes that take Housing Choice Vouchers. */
+  voucher?: boolean | null;
+}
+
+/** The columns of one `properties` row the matcher needs. */
+export interface ListingAlertUnit {
+  city: string | null;
+  zip_code: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  rent_price: number | null;
+  property_type: string | null;
+  section_8_accepted: boolean | null;
+}
+
+// East Cleveland is its own municipality, but to someone looking for a home it
+// is the Cleveland market. Grouping applies to the search only — the data and
+// the cards keep the real city.
+export const CITY_GROUPS: Record<string, string[]> = {
+  Cleveland: ["Cleveland", "East Cleveland"],
+};
+
+export function cityGroupOf(city: string): string {
+  return Object.keys(CITY_GROUPS).find((g) => CITY_GROUPS[g].includes(city)) ?? city;
+}
+
+export const ZIP_NEIGHBORHOOD: Record<string, string> = {
+  "44105": "Slavic Village", "44110": "Collinwood", "44108": "Glenville",
+  "44104": "Central / Fairfax", "44103": "Hough", "44120": "Buckeye-Shaker",
+  "44102": "Detroit-Shoreway", "44109": "Old Brooklyn", "44112": "East Cleveland",
+  "44113": "Ohio City / Tremont", "44128": "Lee-Harvard", "44106": "University Circle",
+  "44127": "Kinsman", "44115": "Central",
+};
+
+/** The Area a home is listed under: its neighborhood, or its city outside the map. */
+export function neighborhoodOf(zip: string | null, city: string | null): string {
+  return ZIP_NEIGHBORHOOD[String(zip)] || city || "";
+}
+
+/** Duplex/triplex/fourplex/apartment/multi-unit. */
+export function isMultiFamilyType(t?: string | null): boolean {
+  if (!t) return false;
+  const s = t.toLowerCase();
+  return s.includes("plex") || s.includes("multi") || s.includes("apart") || s.includes("unit");
+}
+
+/** Whether a unit fits the saved filters, with the renter home page's semantics. */
+export function listingAlertMatches(criteria: ListingAlertCriteria, unit: ListingAlertUnit): boolean {
+  const c = criteria;
+  if (c.city && cityGroupOf(unit.city || "") !== c.city) return false;
+  if (c.area && neighborhoodOf(unit.zip_code, unit.city) !== c.area) return false;
+  if (c.zip && unit.zip_code !== c.zip) return false;
+
+  if (c.beds != null) {
+    if (unit.bedrooms == null) return false;
+    if (c.beds >= 5 ? unit.bedrooms < 5 : unit.bedrooms !== c.beds) return false;
+  }
+  if (c.baths != null) {
+    if (unit.bathrooms == null) return false;
+    // A 1.5-ba home matches both "1" and "2".
+    const fits = c.baths >= 5
+      ? unit.bathrooms >= 5
+      : Math.floor(unit.bathrooms) <= c.baths && c.baths <= Math.ceil(unit.bathrooms);
+    if (!fits) return false;
+  }
+
+  if (c.price_min != null || c.price_max != null) {
+    if (!unit.rent_price) return false; // "Contact for price"
+    if (c.price_min != null && unit.rent_price < c.price_min) return false;
+    if (c.price_max != null && unit.rent_price > c.price_max) return false;
+  }
+
+  if (c.home_type && isMultiFamilyType(unit.property_type) !== (c.home_type === "multi")) return false;
+  if (c.voucher && !unit.section_8_accepted) return false;
+  return true;
+}
+
+const money = (n: number) => `$${n.toLocaleString("en-US")}`;
+
+/** "3 bd · Cleveland · $900–$1,400 · Section 8" — the digest header and the dialog summary. */
+export function describeListingAlert(criteria: ListingAlertCriteria): string {
+  const c = criteria;
+  const parts: string[] = [];
+  if (c.beds != null) parts.push(c.beds === 0 ? "Studio" : c.beds >= 5 ? "5+ bd" : `${c.beds} bd`);
+  if (c.baths != null) parts.push(c.baths >= 5 ? "5+ ba" : `${c.baths} ba`);
+  if (c.home_type) parts.push(c.home_type === "multi" ? "Multi-family" : "Single-family");
+  if (c.area) parts.push(c.area);
+  else if (c.city) parts.push(c.city);
+  if (c.zip) parts.push(c.zip);
+  if (c.price_min != null && c.price_max != null) parts.push(`${money(c.price_min)}–${money(c.price_max)}`);
+  else if (c.price_max != null) parts.push(`up to ${money(c.price_max)}`);
+  else if (c.price_min != null) parts.push(`${money(c.price_min)}+`);
+  if (c.voucher) parts.push("Section 8");
+  return parts.length ? parts.join(" · ") : "Any home";
+}
@@ -0,0 +1,55 @@
+// GENERATED from src/lib/showingReports.ts by scripts/generate-edge-shared.mjs — do not edit.
+// Change the source and run `npm run gen:edge-shared`.
+
+/**
+ * Marker written to `showings.agent_report` when an agent resolves a tour with
+ * the one-tap outcome buttons instead of typing a write-up.
+ *
+ * This text is NOT internal. It flows straight through
+ * leasing-tracker-lookup → the public Leasing Tracker, where the property owner
+ * reads it verbatim under "Showings y notas del agente". So it has to read like
+ * a status the owner cares about, not like a note about our own tooling — the
+ * old "(reporte rápido)" leaked the internal mechanism into a client-facing
+ * page and said nothing about what happens next.
+ *
+ * Only the PRESENCE of a marker is load-bearing: the "Missing reports" chip
+ * keys off `agent_report IS NULL`, so the wording is free to change.
+ *
+ * The edge functions that write the same marker (telegram-webhook,
+ * showing-attendance) import a generated copy from
+ * `supabase/functions/_shared/generated/` — Deno cannot import from `src/`.
+ * After changing this file run `npm run gen:edge-shared`.
+ */
+export const quickReportText = (attended: boolean): string =>
+  attended
+    ? "Asistió ✅"
+    : "No asistió 👻 — en seguimiento para confirmar la visita";
+
+/** What the renter answered on the self-guided check-out form. */
+export interface SelfGuidedCheckout {
+  toured: boolean;
+  interest: "high" | "medium" | "low" | "not_interested" | null;
+  lockedUp: boolean;
+  notes: string;
+}
+
+const INTEREST_TEXT: Record<NonNullable<SelfGuidedCheckout["interest"]>, string> = {
+  high: "muy interesado",
+  medium: "algo interesado",
+  low: "poco interesado",
+  not_interested: "no le interesa",
+};
+
+/**
+ * `showings.agent_report` for a self-guided tour, written by the
+ * self-guided-checkout function from the renter's own check-out form. Same
+ * audience as quickReportText (the owner reads it), so it says who reported
+ * it — there was no agent on site.
+ */
+export const selfGuidedReportText = (c: SelfGuidedCheckout): string => {
+  const parts = [c.toured ? "Visita sin agente ✅" : "Visita sin agente — no llegó a entrar 👻"];
+  if (c.toured && c.interest) parts.push(INTEREST_TEXT[c.interest]);
+  parts.push(c.lockedUp ? "dejó la casa cerrada" : "⚠️ NO confirmó que cerró la casa");
+  const notes = c.notes.trim();
+  return `${parts.join(" · ")} (reportado por el prospecto)${notes ? `: ${notes}` : ""}`;
+};
@@ -0,0 +1,10 @@
+// HTML escaping for anything user-supplied that ends up in an email body or a
+// Telegram message (parse_mode HTML). Telegram accepts &quot;, so one escaper
+// serves both — including attribute values.
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
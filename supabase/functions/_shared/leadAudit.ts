@@ -0,0 +1,22 @@
+// Who changed a lead, as far as lead_field_changes is concerned.
+//
+// track_lead_field_changes() logs every changed lead column on its own; what
+// it can't see from a service-role write is which function made it. It reads
+// these headers off the PostgREST request, so passing them to a service-role
+// createClient labels every write the client makes — including lead updates
+// that other triggers make on its behalf. Without them the change is logged as
+// "system". They are ignored on a user's client: that write is logged as "ui".
+
+export interface LeadChangeSource {
+  /** Stable writer id shown in the lead's field history, e.g. "hemlane_parser". */
+  source: string;
+  /** Agent key when an agent made the change (same keys as agent_tasks.agent_type). */
+  agent?: string;
+}
+
+/** createClient options that label the client's lead writes. */
+export function leadAuditOptions({ source, agent }: LeadChangeSource) {
+  const headers: Record<string, string> = { "x-change-source": source };
+  if (agent) headers["x-change-agent"] = agent;
+  return { global: { headers } };
+}
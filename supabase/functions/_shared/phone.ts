@@ -0,0 +1,28 @@
+// Phone normalization. Two rules on purpose — they answer different questions.
+
+/**
+ * Strict US/NANP: 10 digits, or 11 starting with 1. Anything else is null, and
+ * public forms keep the raw input instead of inventing a number. This is the
+ * shape `leads.phone` is matched on for find-or-create.
+ */
+export function toE164(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const d = raw.replace(/\D/g, "");
+  if (d.length === 10) return `+1${d}`;
+  if (d.length === 11 && d.startsWith("1")) return `+${d}`;
+  return null;
+}
+
+/**
+ * Permissive: US numbers as in toE164, other 10–15 digit strings kept as
+ * international. Null below 10 or above 15 digits, so a parser never creates a
+ * ghost lead out of a stray number.
+ */
+export function formatPhoneE164(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const strict = toE164(raw);
+  if (strict) return strict;
+  const d = raw.replace(/\D/g, "");
+  if (d.length < 10 || d.length > 15) return null;
+  return `+${d}`;
+}
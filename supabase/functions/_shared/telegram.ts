@@ -0,0 +1,75 @@
+// Staff alerts about showings. Bookings, reschedules, cancels and check-outs
+// all go to the LeasingAgent (showings/scheduling) bot — the route pair in
+// organization_credentials — and fall back to the general bot only when that
+// pair is incomplete, so token and chat never come from different bots.
+
+/** Redact any api.telegram.org bot token from a value before logging. */
+export function redactToken(v: unknown): string {
+  return String(v ?? "").replace(/bot\d+:[\w-]+/g, "bot<redacted>");
+}
+
+/** The slice of a supabase-js client the lookup below touches. */
+export interface TelegramCredsClient {
+  from(table: string): {
+    select(columns: string): {
+      eq(column: string, value: string): {
+        single(): PromiseLike<{ data: Record<string, string | null> | null }>;
+        in(column: string, values: string[]): PromiseLike<{ data: { key: string; value: unknown }[] | null }>;
+      };
+    };
+  };
+}
+
+// organization_settings values are jsonb, so a token saved there may arrive
+// JSON-quoted.
+function unwrapSetting(v: unknown): string | undefined {
+  if (v == null) return undefined;
+  try {
+    const p = JSON.parse(String(v));
+    return typeof p === "string" ? p : String(v);
+  } catch {
+    return String(v);
+  }
+}
+
+/** Bot token and chat for an org's showing alerts, or null when none is set up. */
+export async function showingsBotFor(
+  client: TelegramCredsClient,
+  orgId: string,
+): Promise<{ botToken: string; chatId: string } | null> {
+  const [{ data: creds }, { data: legacy }] = await Promise.all([
+    client
+      .from("organization_credentials")
+      .select("telegram_bot_token, telegram_chat_id, telegram_route_bot_token, telegram_route_chat_id")
+      .eq("organization_id", orgId)
+      .single(),
+    // Legacy fallback only — route creds moved into organization_credentials.
+    client
+      .from("organization_settings")
+      .select("key, value")
+      .eq("organization_id", orgId)
+      .in("key", ["telegram_route_bot_token", "telegram_route_chat_id"]),
+  ]);
+  const lm = new Map((legacy || []).map((s) => [s.key, unwrapSetting(s.value)]));
+  const routeToken = creds?.telegram_route_bot_token || lm.get("telegram_route_bot_token");
+  const routeChat = creds?.telegram_route_chat_id || lm.get("telegram_route_chat_id");
+  const useRoute = !!routeToken && !!routeChat;
+  const botToken = useRoute ? routeToken : creds?.telegram_bot_token;
+  const chatId = useRoute ? routeChat : creds?.telegram_chat_id;
+  return botToken && chatId ? { botToken, chatId } : null;
+}
+
+/** Best-effort HTML message to the showings bot; failures are logged, not thrown. */
+export async function notifyShowingsBot(client: TelegramCredsClient, orgId: string, msg: string): Promise<void> {
+  try {
+    const bot = await showingsBotFor(client, orgId);
+    if (!bot) return;
+    await fetch(`https://api.telegram.org/bot${bot.botToken}/sendMessage`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ chat_id: bot.chatId, text: msg, parse_mode: "HTML", disable_web_page_preview: true }),
+    });
+  } catch (tgErr) {
+    console.warn("Telegram notification failed:", redactToken((tgErr as Error)?.message));
+  }
+}
@@ -0,0 +1,71 @@
+// Signed links in lead-facing emails. One HMAC-SHA256 secret (LEAD_TOKEN_SECRET,
+// falling back to UNSUBSCRIBE_SECRET), two shapes:
+//
+//   <showingId>.<action>.<exp>.<sig>   a link about one showing: "manage"
+//                                      (manage-showing), "checkout"
+//                                      (self-guided-checkout), "survey"
+//                                      (showing-survey)
+//   <leadId>.<exp>.<sig>               a form-prefill link (resolve-lead-token)
+//
+// `exp` is unix seconds. The signer and the verifier of a link live in
+// different functions, so both halves are here and cannot drift.
+
+import { timingSafeEqual } from "./crypto.ts";
+
+export type ShowingTokenAction = "manage" | "checkout" | "survey";
+
+/** The signing secret; empty when none is configured (no links go out). */
+export function leadTokenSecret(): string {
+  return Deno.env.get("LEAD_TOKEN_SECRET") || Deno.env.get("UNSUBSCRIBE_SECRET") || "";
+}
+
+/** base64url without padding — the signature alphabet of every link above. */
+export function b64url(bytes: Uint8Array): string {
+  let s = "";
+  for (const b of bytes) s += String.fromCharCode(b);
+  return btoa(s).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function hmac(secret: string, msg: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw", new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" }, false, ["sign"],
+  );
+  return b64url(new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(msg))));
+}
+
+export async function signShowingToken(
+  showingId: string,
+  action: ShowingTokenAction,
+  exp: number,
+  secret = leadTokenSecret(),
+): Promise<string> {
+  const msg = `${showingId}.${action}.${exp}`;
+  return `${msg}.${await hmac(secret, msg)}`;
+}
+
+/**
+ * The showing a link is for, or null if it is malformed, for another action,
+ * forged or expired. The signature is checked BEFORE any DB work — a forged
+ * token costs one HMAC.
+ */
+export async function verifyShowingToken(
+  token: string,
+  action: ShowingTokenAction,
+  secret = leadTokenSecret(),
+): Promise<{ showingId: string } | null> {
+  if (!secret) return null;
+  const parts = token.split(".");
+  if (parts.length !== 4) return null;
+  const [showingId, tokenAction, expStr, sig] = parts;
+  if (tokenAction !== action) return null;
+  if (!timingSafeEqual(sig, await hmac(secret, `${showingId}.${tokenAction}.${expStr}`))) return null;
+
+  const exp = Number(expStr);
+  if (!Number.isFinite(exp) || exp * 1000 < Date.now()) return null;
+  return { showingId };
+}
+
+export async function signLeadToken(leadId: string, exp: number, secret = leadTokenSecret()): Promise<string> {
+  return `${leadId}.${exp}.${await hmac(secret, `${leadId}.${exp}`)}`;
+}
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
 
 // ────────────────────────────────────────────────────────────────────────────
 // agent-daily-report
@@ -16,12 +19,6 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 // double-fire harmless. Manual runs pass force:true to skip the gate.
 // ────────────────────────────────────────────────────────────────────────────
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
 const TZ = "America/New_York";
 
 const SOURCE_LABELS: Record<string, string> = {
@@ -36,9 +33,6 @@ const SOURCE_LABELS: Record<string, string> = {
   csv_import: "CSV import",
 };
 
-function escapeHtml(s: unknown): string {
-  return String(s ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-}
 // Redact any api.telegram.org bot token before logging a raw error/URL.
 function redactToken(v: unknown): string {
   return String(v ?? "").replace(/bot\d+:[\w-]+/g, "bot<redacted>");
@@ -351,9 +345,7 @@ serve(async (req: Request) => {
   // Internal-only: cron + telegram-webhook call with the service key. Accept it
   // from Authorization OR apikey (functions.invoke puts it in apikey — see the
   // send-notification-email 401 outage).
-  const bearer = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
-  const apikey = req.headers.get("apikey") || "";
-  if (bearer !== serviceRoleKey && apikey !== serviceRoleKey) {
+  if (!isServiceRoleRequest(req)) {
     return json({ error: "unauthorized" }, 401);
   }
 
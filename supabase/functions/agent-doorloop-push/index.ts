@@ -1,11 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { ADMIN_ROLES, authorizeCaller } from "../_shared/auth.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-};
+const corsHeaders = buildCorsHeaders();
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -17,28 +16,10 @@ serve(async (req) => {
   }
 
   // ── Require service-role or admin authenticated caller ─────────
-  {
-    const _srk = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const _ak = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const _tok = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "").trim();
-    if (_tok !== _srk) {
-      if (!_tok || _tok === _ak) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-      const _sb = createClient(Deno.env.get("SUPABASE_URL")!, _srk);
-      const { data: _auth } = await _sb.auth.getUser(_tok);
-      if (!_auth?.user) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-      const { data: _u } = await _sb.from("users").select("role, is_active").eq("auth_user_id", _auth.user.id).maybeSingle();
-      if (!_u || _u.is_active === false || !["super_admin","admin"].includes(_u.role || "")) {
-        return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-    }
-  }
-
+  const auth = await authorizeCaller(req, createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!), { roles: ADMIN_ROLES, corsHeaders });
+  if (auth.response) return auth.response;
 
-  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, leadAuditOptions({ source: "doorloop_push" }));
 
   // Parse the body ONCE into outer-scope vars. The request body is a one-shot
   // stream — the error handler below cannot re-read it (that always throws
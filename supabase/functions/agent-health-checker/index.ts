@@ -1,12 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { ADMIN_ROLES, authorizeCaller } from "../_shared/auth.ts";
 
 // External API services to check
 const API_SERVICES = [
@@ -41,26 +36,8 @@ serve(async (req: Request) => {
   }
 
   // ── Require service-role or admin authenticated caller ─────────
-  {
-    const _srk = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const _ak = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const _tok = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "").trim();
-    if (_tok !== _srk) {
-      if (!_tok || _tok === _ak) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-      const _sb = createClient(Deno.env.get("SUPABASE_URL")!, _srk);
-      const { data: _auth } = await _sb.auth.getUser(_tok);
-      if (!_auth?.user) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-      const { data: _u } = await _sb.from("users").select("role, is_active").eq("auth_user_id", _auth.user.id).maybeSingle();
-      if (!_u || _u.is_active === false || !["super_admin","admin"].includes(_u.role || "")) {
-        return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-    }
-  }
-
+  const auth = await authorizeCaller(req, createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!), { roles: ADMIN_ROLES, corsHeaders });
+  if (auth.response) return auth.response;
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
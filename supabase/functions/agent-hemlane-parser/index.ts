@@ -1,12 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { formatPhoneE164 } from "../_shared/phone.ts";
+import { parseTicketNumber } from "../_shared/generated/ticketThreads.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, svix-id, svix-timestamp, svix-signature",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+const corsHeaders = buildCorsHeaders({ methods: "POST, OPTIONS", extraHeaders: ["svix-id", "svix-timestamp", "svix-signature"] });
 
 // ── Svix webhook signature verification ───────────────────────────────
 async function verifyWebhookSignature(
@@ -293,16 +292,6 @@ async function parseHemlaneDigestLLM(
   return { leads, rawTotal: raw.length, noContact };
 }
 
-// ── Format phone to E.164 ─────────────────────────────────────────────
-function formatPhoneE164(raw: string): string | null {
-  const digits = raw.replace(/\D/g, "");
-  if (digits.length === 10) return `+1${digits}`;
-  if (digits.length === 11 && digits.startsWith("1")) return `+${digits}`;
-  // Invalid phone (too short, too long, or no digits) — don't create ghost records
-  if (digits.length < 10 || digits.length > 15) return null;
-  return `+${digits}`;
-}
-
 // Normalize address for matching: abbreviate directions + street types
 function normalizeAddress(addr: string): string {
   return addr.trim()
@@ -936,6 +925,10 @@ async function upsertLead(
     if (tagErr) console.error(`Esther: property tag failed for new lead ${leadId}: ${tagErr.message}`);
   }
 
+  // Owner for the new lead — after the tag so property/city rules can match.
+  const { error: assignErr } = await supabase.rpc("assign_leads", { p_lead_ids: [leadId] });
+  if (assignErr) console.error(`Esther: lead assignment failed for ${leadId}: ${assignErr.message}`);
+
   const listingPlatform = lead.listingSource || "Hemlane";
   const evidenceText = `Inbound listing inquiry via ${listingPlatform}${lead.property ? ` for ${lead.property}` : ""} — reply-only, not marketing consent. Received ${now}. Email ID: ${emailId}`;
 
@@ -1205,6 +1198,9 @@ async function createShellLead(
     if (shellTagErr) console.error(`Esther: property tag failed for shell ${shell.id}: ${shellTagErr.message}`);
   }
 
+  const { error: shellAssignErr } = await supabase.rpc("assign_leads", { p_lead_ids: [shell.id] });
+  if (shellAssignErr) console.error(`Esther: lead assignment failed for shell ${shell.id}: ${shellAssignErr.message}`);
+
   const noteParts = [
     lead.message || null,
     rawPhone ? `Unparseable phone found in email: ${rawPhone}` : null,
@@ -1241,7 +1237,7 @@ serve(async (req: Request) => {
   const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
   const resendApiKey = Deno.env.get("RESEND_API_KEY")!;
   const webhookSecret = Deno.env.get("RESEND_WEBHOOK_SECRET");
-  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "hemlane_parser", agent: "hemlane_parser" }));
   let organizationId: string | undefined;
   let processedEmailId: string | null = null; // set once the inbound_emails row exists (for catch-block failure marking)
   const estherStartTime = Date.now();
@@ -1508,6 +1504,20 @@ serve(async (req: Request) => {
       );
     }
 
+    // ── Tenant ticket replies: not leads ─────────────────────────────
+    // "[Ticket #n]" only ever comes from our own ticket emails. Parsing the
+    // tenant's answer as a lead would mint a junk prospect; it is parked as
+    // outcome ticket_reply and reconcile-inbound-emails threads it onto the
+    // ticket.
+    if (parseTicketNumber(subject) !== null) {
+      console.log(`Esther: ticket reply — "${subject}"`);
+      await markInbound("skipped", "ticket_reply");
+      return new Response(
+        JSON.stringify({ message: "Ticket reply — left for the ticket matcher", subject }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // NOTE: the old leads.hemlane_email_id idempotency check is gone — it made
     // digest retries skip every unprocessed lead (F13). inbound_emails.status
     // above is the real idempotency now.
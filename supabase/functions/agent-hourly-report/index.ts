@@ -1,12 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
 
 const SOURCE_LABELS: Record<string, string> = {
   inbound_call: "inbound call",
@@ -89,13 +85,6 @@ function sumField(rows: any[], field: string): number {
   return rows.reduce((sum: number, r: any) => sum + (parseFloat(r[field]) || 0), 0);
 }
 
-// Escape lead/DB-supplied strings before interpolating into a parse_mode:HTML
-// message — a stray '<' (error-log stack traces, lead-supplied `source` values,
-// property addresses) otherwise makes Telegram reject the ENTIRE report.
-function escapeHtml(s: unknown): string {
-  return String(s ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-}
-
 // ── Main ─────────────────────────────────────────────────────────────
 
 serve(async (req: Request) => {
@@ -112,15 +101,11 @@ serve(async (req: Request) => {
   // puts it in apikey — see the send-notification-email 401 outage). Without this
   // gate the fn is deployed verify_jwt:false and any anonymous caller could flood
   // the owner's Telegram chat and read org metrics back in the response body.
-  {
-    const bearer = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
-    const apikey = req.headers.get("apikey") || "";
-    if (bearer !== serviceRoleKey && apikey !== serviceRoleKey) {
-      return new Response(
-        JSON.stringify({ error: "unauthorized" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  if (!isServiceRoleRequest(req)) {
+    return new Response(
+      JSON.stringify({ error: "unauthorized" }),
+      { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
   }
 
   let organizationId = "";
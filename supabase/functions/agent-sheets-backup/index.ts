@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
 
 // agent-sheets-backup — mirrors leads into a Google Sheet via an Apps Script
 // Web App webhook (no GCP / service account). Two modes:
@@ -10,10 +11,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 //
 // Config (organization_settings): google_sheets_webhook_url + google_sheets_webhook_secret.
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+const corsHeaders = buildCorsHeaders();
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -1,12 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { ADMIN_ROLES, authorizeCaller } from "../_shared/auth.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import {
+  EMAIL_CHROME,
+  emailLanguageFor,
+  resolveEmailTemplate,
+  type EmailLanguage,
+  type ResolvedEmailTemplate,
+} from "../_shared/generated/emailTemplateDefaults.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
+import { leadTokenSecret, signShowingToken } from "../_shared/token.ts";
 
 // Processing limits (2026-07-20: 20/500ms → 40/300ms, owner asked to accelerate
 // the legacy welcome_sequence drain; email queue at 14.4k/day absorbs it)
@@ -160,12 +165,84 @@ function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
   ]);
 }
 
-const escapeHtml = (str: string) =>
-  str
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;");
+// ── Dry-run client ───────────────────────────────────────────────────────────
+// A flow dry run has to show what the engine WOULD do, so it runs the engine
+// itself rather than a re-implementation that could drift from it. This client
+// hands every read to the real database and swallows every write and send,
+// recording them instead: nothing reaches flow_runs, agent_tasks, leads or a
+// mailbox.
+
+interface DryRunSink {
+  sends: Record<string, unknown>[];
+  writes: { table: string; op: string; payload: unknown }[];
+}
+
+const DRY_RUN_SINK = Symbol("dryRunSink");
+const WRITE_OPS = new Set(["insert", "update", "upsert", "delete"]);
+
+/** A query that accepts any chained filter and resolves like an empty write. */
+function inertQuery(): unknown {
+  const result = { data: null, error: null };
+  const query: unknown = new Proxy(() => {}, {
+    get: (_t, prop) =>
+      prop === "then"
+        ? (resolve: (v: typeof result) => unknown) => resolve(result)
+        : () => query,
+  });
+  return query;
+}
+
+function dryRunClient(real: SupabaseClient, sink: DryRunSink): SupabaseClient {
+  return {
+    [DRY_RUN_SINK]: sink,
+    from: (table: string) => {
+      const builder = real.from(table);
+      return new Proxy(builder, {
+        get: (target, prop) => {
+          if (typeof prop === "string" && WRITE_OPS.has(prop)) {
+            return (payload?: unknown) => {
+              sink.writes.push({ table, op: prop, payload });
+              return inertQuery();
+            };
+          }
+          const value = target[prop];
+          return typeof value === "function" ? value.bind(target) : value;
+        },
+      });
+    },
+    // The only RPC a flow step calls is nurture_health_check, a read.
+    rpc: (...args: unknown[]) => real.rpc(...args),
+    functions: {
+      invoke: async (name: string, opts?: { body?: Record<string, unknown> }) => {
+        if (name === "send-notification-email") sink.sends.push(opts?.body || {});
+        else sink.writes.push({ table: `functions/${name}`, op: "invoke", payload: opts?.body });
+        return { data: null, error: null };
+      },
+    },
+  };
+}
+
+// Raw fetch, not functions.invoke: invoke sends the service key in `apikey`
+// rather than Bearer, which is what broke confirmations for 7 days. Under a
+// dry-run client the email is recorded and reported as accepted instead.
+async function postNotificationEmail(
+  supabase: SupabaseClient,
+  body: Record<string, unknown>,
+): Promise<Response> {
+  const sink = supabase?.[DRY_RUN_SINK] as DryRunSink | undefined;
+  if (sink) {
+    sink.sends.push(body);
+    return new Response("{}", { status: 200 });
+  }
+  return fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/send-notification-email`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify(body),
+  });
+}
 
 // Self-healing property address resolver. Agent tasks queued by OLDER code
 // paths sometimes have empty `context.property_address`, which made the
@@ -229,6 +306,32 @@ async function resolvePropertyAddress(
   return fallback;
 }
 
+// ── Post-tour survey link ───────────────────────────────────────────────────
+// <showingId>.survey.<exp>.<sig>, verified by showing-survey — the same HMAC
+// family as the reschedule and check-out links in the booking email. No
+// secret configured → no link; the email reads as it always did.
+const TOKEN_SECRET = leadTokenSecret();
+const SURVEY_LINK_DAYS = 30;
+
+async function surveyUrlFor(showingId: string | undefined, senderDomain: string): Promise<string | null> {
+  if (!TOKEN_SECRET || !showingId) return null;
+  const exp = Math.floor(Date.now() / 1000) + SURVEY_LINK_DAYS * 86400;
+  const token = await signShowingToken(showingId, "survey", exp, TOKEN_SECRET);
+  return `https://${senderDomain}/showing/survey?t=${encodeURIComponent(token)}`;
+}
+
+// ── Language ─────────────────────────────────────────────────────────────────
+// Lead-facing emails go out in leads.preferred_language. The template itself
+// is picked by resolveEmailTemplate (English fallback included); stock English
+// keeps the hand-built layouts further down, anything else renders from its
+// config.
+
+function usesStockEnglish(template: ResolvedEmailTemplate): boolean {
+  return !template.custom && template.language === "en";
+}
+
+const DATE_LOCALES: Record<EmailLanguage, string> = { en: "en-US", es: "es-US" };
+
 // ── Handlers ─────────────────────────────────────────────────────────────────
 
 async function handleShowingConfirmation(
@@ -238,14 +341,31 @@ async function handleShowingConfirmation(
   settings: OrgSettings
 ): Promise<string> {
   const ctx = task.context || {};
+
+  // The extra touch for a high no-show risk (book-public-showing) is only
+  // worth sending while the renter still hasn't confirmed.
+  if (ctx.trigger === "no_show_risk" && ctx.showing_id) {
+    const { data: sh } = await supabase
+      .from("showings")
+      .select("status, confirmed_at")
+      .eq("id", ctx.showing_id)
+      .maybeSingle();
+    if (!sh || sh.status !== "scheduled" || sh.confirmed_at) {
+      return "Showing confirmed or no longer scheduled — extra confirmation not needed";
+    }
+  }
+
   const propertyAddress = await resolvePropertyAddress(supabase, ctx, "your scheduled property");
   const scheduledAt = ctx.scheduled_at || "";
+  const template = resolveEmailTemplate(
+    settings.email_templates, "showing_confirmation", emailLanguageFor(lead.preferred_language),
+  );
 
   // Format date for message (Cleveland timezone)
   let dateStr = scheduledAt;
   try {
     const d = new Date(scheduledAt);
-    dateStr = d.toLocaleDateString("en-US", {
+    dateStr = d.toLocaleDateString(DATE_LOCALES[template.language], {
       timeZone: "America/New_York",
       weekday: "long",
       month: "long",
@@ -260,11 +380,10 @@ async function handleShowingConfirmation(
   // Voice and SMS were removed from the product — confirmations are email-only.
   if (lead.email) {
     const firstName = lead.full_name?.split(" ")[0] || "there";
-    const customConfig = settings.email_templates?.showing_confirmation as EmailTemplateConfig | undefined;
     let html: string;
     let subject: string;
 
-    if (customConfig) {
+    if (!usesStockEnglish(template)) {
       const vars: Record<string, string> = {
         "{firstName}": firstName,
         "{fullName}": lead.full_name || firstName,
@@ -273,8 +392,8 @@ async function handleShowingConfirmation(
         "{orgName}": settings.org_name,
         "{senderDomain}": settings.sender_domain,
       };
-      html = buildEmailFromConfig(customConfig, vars);
-      subject = interpolateVars(customConfig.subject || `Showing Reminder — ${propertyAddress}`, vars);
+      html = buildEmailFromConfig(template.config, vars, undefined, template.language);
+      subject = interpolateVars(template.config.subject || `Showing Reminder — ${propertyAddress}`, vars);
     } else {
       html = buildShowingConfirmationEmail(lead.full_name || "there", propertyAddress, dateStr);
       subject = `Showing Reminder — ${propertyAddress}`;
@@ -404,6 +523,10 @@ async function handleWelcomeSequence(
   if (lead.email || ctx.email) {
     const email = lead.email || ctx.email;
 
+    const template = resolveEmailTemplate(
+      settings.email_templates, "welcome", emailLanguageFor(lead.preferred_language),
+    );
+
     // City-only interest context (comms policy: never name a specific property).
     // Cities derive from the lead's property-interest tags (lead_property_interests).
     let propertyInfo = "";
@@ -423,21 +546,22 @@ async function handleWelcomeSequence(
         ),
       ];
       if (cities.length) {
-        const cityPhrase = `homes in ${cities.slice(0, 3).join(", ")}`;
+        const cityList = escapeHtml(cities.slice(0, 3).join(", "));
+        const [thanks, browse] = template.language === "es"
+          ? [`¡Gracias por su interés en casas en ${cityList}!`, "Vea todas las propiedades disponibles"]
+          : [`Thanks for your interest in homes in ${cityList}!`, "Browse all current listings"];
         propertyInfo = `
           <div style="background-color:#EEF2FF;padding:16px;border-radius:8px;margin:16px 0;border-left:4px solid #4F46E5;">
-            <p style="margin:0 0 4px;font-weight:600;color:#4F46E5;">Thanks for your interest in ${escapeHtml(cityPhrase)}!</p>
-            <p style="margin:0;color:#666;"><a href="https://${settings.sender_domain}" style="color:#4F46E5;">Browse all current listings</a></p>
+            <p style="margin:0 0 4px;font-weight:600;color:#4F46E5;">${thanks}</p>
+            <p style="margin:0;color:#666;"><a href="https://${settings.sender_domain}" style="color:#4F46E5;">${browse}</a></p>
           </div>`;
       }
     }
 
-    // Check for custom template
-    const customConfig = settings.email_templates?.welcome as EmailTemplateConfig | undefined;
     let html: string;
     let subject: string;
 
-    if (customConfig) {
+    if (!usesStockEnglish(template)) {
       const vars: Record<string, string> = {
         "{firstName}": firstName,
         "{fullName}": lead.full_name || firstName,
@@ -451,8 +575,8 @@ async function handleWelcomeSequence(
         "{orgName}": settings.org_name,
         "{senderDomain}": settings.sender_domain,
       };
-      html = buildEmailFromConfig(customConfig, vars, propertyInfo || undefined);
-      subject = interpolateVars(customConfig.subject || `Welcome to ${settings.org_name}!`, vars);
+      html = buildEmailFromConfig(template.config, vars, propertyInfo || undefined, template.language);
+      subject = interpolateVars(template.config.subject || `Welcome to ${settings.org_name}!`, vars);
     } else {
       html = buildWelcomeEmail(firstName, propertyInfo, settings.sender_domain, settings.org_name);
       subject = `Welcome to ${settings.org_name}!`;
@@ -496,13 +620,16 @@ const NURTURE_MAX_STEPS = 7;
 
 // Each step earns its place — a different angle, not the same nag 7 times.
 // No property is ever named (city-only comms policy, and a specific unit is
-// usually gone by the time step 5 lands).
-const NURTURE_STEPS: {
+// usually gone by the time step 5 lands). The Spanish steps say the same
+// thing, step for step.
+interface NurtureStep {
   subject: (city: string) => string;
   heading: string;
   body: (first: string, city: string) => string;
   cta: string;
-}[] = [
+}
+
+const NURTURE_STEPS_EN: NurtureStep[] = [
   {
     subject: (c) => `Ready to see a home${c ? ` in ${c}` : ""}?`,
     heading: "Let's get you inside a home",
@@ -547,13 +674,67 @@ const NURTURE_STEPS: {
   },
 ];
 
+const NURTURE_STEPS_ES: NurtureStep[] = [
+  {
+    subject: (c) => `¿Listo para ver una casa${c ? ` en ${c}` : ""}?`,
+    heading: "Vamos a que conozca una casa",
+    body: (f, c) => `Hola, ${f}: gracias por escribirnos sobre nuestras casas de alquiler${c ? ` en ${c}` : ""}. La forma más rápida de avanzar es verla en persona — usted mismo elige el día y la hora, toma menos de un minuto.`,
+    cta: "Elegir horario de visita",
+  },
+  {
+    subject: () => `Las visitas se están llenando esta semana`,
+    heading: "¿Sigue buscando?",
+    body: (f, c) => `Hola, ${f}: nuestros horarios de visita${c ? ` en ${c}` : ""} suelen llenarse con unos días de anticipación. Si todavía está buscando, apartar un horario ahora le mantiene las opciones abiertas — y no le cuesta nada.`,
+    cta: "Ver horarios disponibles",
+  },
+  {
+    subject: () => `Lo que conviene saber antes de su visita`,
+    heading: "Qué esperar",
+    body: (f) => `Hola, ${f}: para que no haya sorpresas — las visitas duran unos 15 minutos, no necesita traer nada y no hay ningún compromiso. Si le gusta la casa, ahí mismo le explicamos cómo aplicar.`,
+    cta: "Agendar una visita",
+  },
+  {
+    subject: () => `Hay casas nuevas disponibles`,
+    heading: "Propiedades nuevas",
+    body: (f, c) => `Hola, ${f}: lo que tenemos disponible${c ? ` cerca de ${c}` : ""} cambia cada semana. Si antes no encontró nada, vale la pena volver a ver — y puede agendar una visita directamente desde el anuncio.`,
+    cta: "Ver lo disponible",
+  },
+  {
+    subject: () => `¿Aceptan Sección 8? (y otras preguntas frecuentes)`,
+    heading: "Las preguntas más comunes",
+    body: (f) => `Hola, ${f}: por si es lo que le detiene — sí, muchas de nuestras casas aceptan vales de Sección 8. Para aplicar necesita una identificación válida, sus últimos 3 talones de pago y un cargo de evaluación de $59.90 (que se paga directamente a TransUnion). Nada más.`,
+    cta: "Encontrar una casa y visitarla",
+  },
+  {
+    subject: () => `¿Sigue interesado en alquilar con nosotros?`,
+    heading: "Solo para saber",
+    body: (f) => `Hola, ${f}: no queremos llenarle el correo si no es buen momento. Si sigue buscando, una visita es todo lo que hace falta para avanzar. Si no, no hay problema — puede cancelar su suscripción abajo y dejaremos de escribirle.`,
+    cta: "Agendar mi visita",
+  },
+  {
+    subject: () => `Nuestro último mensaje`,
+    heading: "Le dejamos tranquilo",
+    body: (f) => `Hola, ${f}: este es el último correo que le enviaremos sobre su búsqueda. Si algún día quiere volver a buscar, nuestras propiedades siguen a su disposición — no necesita registrarse de nuevo. Gracias por tomarnos en cuenta.`,
+    cta: "Ver nuestras casas",
+  },
+];
+
+const NURTURE_STEPS: Record<EmailLanguage, NurtureStep[]> = { en: NURTURE_STEPS_EN, es: NURTURE_STEPS_ES };
+
+const NURTURE_CHROME: Record<EmailLanguage, { tagline: string; unsubscribe: string }> = {
+  en: { tagline: "Quality Rental Homes in Cleveland", unsubscribe: "Unsubscribe from these emails" },
+  es: { tagline: "Casas de alquiler de calidad en Cleveland", unsubscribe: "Cancelar la suscripción a estos correos" },
+};
+
 function buildNurtureEmail(
   step: number, firstName: string, city: string, senderDomain: string, orgName: string,
+  language: EmailLanguage = "en",
 ): string {
-  const s = NURTURE_STEPS[step - 1];
+  const s = NURTURE_STEPS[language][step - 1];
+  const chrome = NURTURE_CHROME[language];
   const site = `https://${senderDomain}`;
   return `<!DOCTYPE html>
-<html lang="en">
+<html lang="${language}">
 <head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0">
 <title>${escapeHtml(s.heading)}</title></head>
 <body style="margin:0;padding:0;background-color:#f3eef8;font-family:'Montserrat','Segoe UI',Roboto,Helvetica,Arial,sans-serif;-webkit-font-smoothing:antialiased;">
@@ -563,7 +744,7 @@ function buildNurtureEmail(
 
   <tr><td style="background:linear-gradient(135deg,#4F46E5 0%,#6366F1 100%);padding:32px 32px 24px;border-radius:16px 16px 0 0;text-align:center;">
     <h1 style="margin:0 0 4px;color:#ffb22c;font-size:24px;font-weight:700;letter-spacing:-0.5px;">${escapeHtml(orgName)}</h1>
-    <p style="margin:0;color:rgba(255,255,255,0.7);font-size:13px;">Quality Rental Homes in Cleveland</p>
+    <p style="margin:0;color:rgba(255,255,255,0.7);font-size:13px;">${chrome.tagline}</p>
   </td></tr>
 
   <tr><td style="background-color:#ffffff;padding:32px;border-left:1px solid #e5e5e5;border-right:1px solid #e5e5e5;">
@@ -579,7 +760,7 @@ function buildNurtureEmail(
   <tr><td style="background-color:#ffffff;padding:0 32px 28px;border-left:1px solid #e5e5e5;border-right:1px solid #e5e5e5;border-radius:0 0 16px 16px;border-bottom:1px solid #e5e5e5;text-align:center;">
     <p style="margin:16px 0 0;color:#999;font-size:12px;line-height:1.5;">
       ${escapeHtml(orgName)} · Cleveland, OH<br>
-      <a href="{{unsubscribe_url}}" style="color:#999;text-decoration:underline;">Unsubscribe from these emails</a>
+      <a href="{{unsubscribe_url}}" style="color:#999;text-decoration:underline;">${chrome.unsubscribe}</a>
     </p>
   </td></tr>
 
@@ -661,28 +842,20 @@ async function handleShowingNurture(
       .map((r) => r.properties?.city).find((c): c is string => !!c) || "";
   }
 
-  const tmpl = NURTURE_STEPS[step - 1];
-  const html = buildNurtureEmail(step, firstName, city, settings.sender_domain, settings.org_name);
+  const language = emailLanguageFor(lead.preferred_language);
+  const tmpl = NURTURE_STEPS[language][step - 1];
+  const html = buildNurtureEmail(step, firstName, city, settings.sender_domain, settings.org_name, language);
 
-  // Raw fetch, not functions.invoke: invoke sends the service key in `apikey`
-  // rather than Bearer, which is what broke confirmations for 7 days.
-  const resp = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/send-notification-email`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
-    },
-    body: JSON.stringify({
-      to: lead.email,
-      subject: tmpl.subject(city),
-      html,
-      notification_type: "showing_nurture",
-      organization_id: task.organization_id,
-      related_entity_id: leadId,
-      related_entity_type: "lead",
-      from_name: settings.org_name,
-      queue: true,
-    }),
+  const resp = await postNotificationEmail(supabase, {
+    to: lead.email,
+    subject: tmpl.subject(city),
+    html,
+    notification_type: "showing_nurture",
+    organization_id: task.organization_id,
+    related_entity_id: leadId,
+    related_entity_type: "lead",
+    from_name: settings.org_name,
+    queue: true,
   });
   if (!resp.ok) {
     const body = await resp.text().catch(() => "");
@@ -743,11 +916,13 @@ async function handleNoShowFollowup(
 
   // SMS removed — no-show follow-ups are email-only.
   if (lead.email) {
-    const customConfig = settings.email_templates?.no_show as EmailTemplateConfig | undefined;
+    const template = resolveEmailTemplate(
+      settings.email_templates, "no_show", emailLanguageFor(lead.preferred_language),
+    );
     let html: string;
     let subject: string;
 
-    if (customConfig) {
+    if (!usesStockEnglish(template)) {
       const vars: Record<string, string> = {
         "{firstName}": firstName,
         "{fullName}": lead.full_name || firstName,
@@ -755,8 +930,8 @@ async function handleNoShowFollowup(
         "{orgName}": settings.org_name,
         "{senderDomain}": settings.sender_domain,
       };
-      html = buildEmailFromConfig(customConfig, vars);
-      subject = interpolateVars(customConfig.subject || `We Missed You — ${propertyAddress}`, vars);
+      html = buildEmailFromConfig(template.config, vars, undefined, template.language);
+      subject = interpolateVars(template.config.subject || `We Missed You — ${propertyAddress}`, vars);
     } else {
       html = buildNoShowEmail(firstName, propertyAddress);
       subject = `Missed Showing — ${propertyAddress}`;
@@ -794,22 +969,37 @@ async function handlePostShowing(
   const propertyAddress = await resolvePropertyAddress(supabase, ctx, "the property");
 
   if (lead.email) {
-    const customConfig = settings.email_templates?.post_showing as EmailTemplateConfig | undefined;
+    const template = resolveEmailTemplate(
+      settings.email_templates, "post_showing", emailLanguageFor(lead.preferred_language),
+    );
+    const surveyUrl = await surveyUrlFor(ctx.showing_id as string | undefined, settings.sender_domain);
     let html: string;
     let subject: string;
 
-    if (customConfig) {
+    if (!usesStockEnglish(template)) {
+      const config = template.config;
       const vars: Record<string, string> = {
         "{firstName}": firstName,
         "{fullName}": lead.full_name || firstName,
         "{propertyAddress}": propertyAddress,
         "{orgName}": settings.org_name,
         "{senderDomain}": settings.sender_domain,
+        "{surveyUrl}": surveyUrl || "",
       };
-      html = buildEmailFromConfig(customConfig, vars);
-      subject = interpolateVars(customConfig.subject || `Next Steps — ${propertyAddress}`, vars);
+      // Templates saved before the survey existed don't mention {surveyUrl}:
+      // they get the button appended. Without a link, any button that points
+      // at it is dropped rather than sent empty.
+      const mentionsSurvey = JSON.stringify(config).includes("{surveyUrl}");
+      const surveyButtonText = template.language === "es" ? "Califique su visita (1 min)" : "Rate Your Tour (1 min)";
+      const buttons = surveyUrl
+        ? mentionsSurvey
+          ? config.buttons
+          : [...config.buttons, { text: surveyButtonText, url: "{surveyUrl}", style: "secondary" as const }]
+        : config.buttons.filter((b) => !b.url.includes("{surveyUrl}"));
+      html = buildEmailFromConfig({ ...config, buttons }, vars, undefined, template.language);
+      subject = interpolateVars(config.subject || `Next Steps — ${propertyAddress}`, vars);
     } else {
-      html = buildPostShowingEmail(firstName, propertyAddress);
+      html = buildPostShowingEmail(firstName, propertyAddress, surveyUrl);
       subject = `Next Steps — ${propertyAddress}`;
     }
 
@@ -846,7 +1036,8 @@ function interpolateVars(text: string, vars: Record<string, string>): string {
 function buildEmailFromConfig(
   config: EmailTemplateConfig,
   vars: Record<string, string>,
-  propertyInfoHtml?: string
+  propertyInfoHtml?: string,
+  language: EmailLanguage = "en",
 ): string {
   const v = (text: string) => interpolateVars(text, vars);
   const PRIMARY = "#4F46E5";
@@ -898,11 +1089,11 @@ function buildEmailFromConfig(
 
   const section8Html = config.showSection8Badge
     ? `<div style="text-align:center;margin:20px 0;">
-         <span style="display:inline-block;background:#e8f5e9;color:#2e7d32;font-family:Montserrat,Arial,sans-serif;font-size:13px;font-weight:600;padding:8px 18px;border-radius:20px;border:1px solid #c8e6c9;">Section 8 Vouchers Accepted</span>
+         <span style="display:inline-block;background:#e8f5e9;color:#2e7d32;font-family:Montserrat,Arial,sans-serif;font-size:13px;font-weight:600;padding:8px 18px;border-radius:20px;border:1px solid #c8e6c9;">${EMAIL_CHROME[language].section8Badge}</span>
        </div>`
     : "";
 
-  return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"></head>
+  return `<!DOCTYPE html><html lang="${language}"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1.0"></head>
 <body style="margin:0;padding:0;background:#f4f1f1;font-family:Montserrat,Arial,sans-serif;">
   <table width="100%" cellpadding="0" cellspacing="0" style="background:#f4f1f1;padding:20px 0;">
     <tr><td align="center">
@@ -1055,7 +1246,7 @@ function buildNoShowEmail(firstName: string, address: string): string {
   </div>`;
 }
 
-function buildPostShowingEmail(firstName: string, address: string): string {
+function buildPostShowingEmail(firstName: string, address: string, surveyUrl: string | null): string {
   return `<div style="font-family:'Montserrat',sans-serif;max-width:600px;margin:0 auto;padding:24px;">
     <div style="background-color:#4F46E5;padding:20px 24px;border-radius:12px 12px 0 0;">
       <h1 style="margin:0;color:#ffb22c;font-size:20px;">Rent Finder Cleveland</h1>
@@ -1068,6 +1259,10 @@ function buildPostShowingEmail(firstName: string, address: string): string {
       <div style="text-align:center;margin:24px 0;">
         <a href="https://rentfindercleveland.com" style="background-color:#ffb22c;color:#4F46E5;padding:12px 24px;border-radius:8px;text-decoration:none;font-weight:600;display:inline-block;">Start Application</a>
       </div>
+      ${surveyUrl ? `<p><strong>How was the tour?</strong> Five quick questions help us — and the owner — get this home right:</p>
+      <div style="text-align:center;margin:24px 0;">
+        <a href="${escapeHtml(surveyUrl)}" style="background-color:#4F46E5;color:#ffffff;padding:12px 24px;border-radius:8px;text-decoration:none;font-weight:600;display:inline-block;">Rate Your Tour (1 min)</a>
+      </div>` : ""}
       <p>If you have any questions or would like to schedule another showing, just reply to this email.</p>
       <p style="color:#666;font-size:14px;">— Rent Finder Cleveland</p>
     </div>
@@ -1112,6 +1307,7 @@ async function claimForFlow(
 
   const { data: step } = await supabase.from("flow_steps")
     .select("position").eq("flow_id", flow.id).eq("is_enabled", true)
+    .is("parent_step_id", null)
     .order("position", { ascending: true }).limit(1).maybeSingle();
   if (!step) return null;
 
@@ -1136,6 +1332,100 @@ async function claimForFlow(
 }
 
 // ── Flow engine ───────────────────────────────────────────────────────────
+
+// How often a lead parked on a wait step is re-checked. The events it waits for
+// have no push into the dispatcher, so the wait is a short poll that ends at the
+// first sighting or at the step's timeout, whichever comes first.
+const FLOW_WAIT_POLL_MINUTES = 30;
+
+/**
+ * Narrow a flow_steps query to one LINE of the flow. The main line is
+ * parent_step_id IS NULL; a branch is the (wait step, matched|timed_out) pair.
+ * Positions are only unique inside a line, so every step lookup goes through
+ * this.
+ */
+function onFlowLine(query: ReturnType<SupabaseClient["from"]>, parentStepId: string | null, branch: string | null) {
+  return parentStepId
+    ? query.eq("parent_step_id", parentStepId).eq("branch", branch)
+    : query.is("parent_step_id", null);
+}
+
+/**
+ * Has the lead done the thing a wait step is waiting for, since the run began?
+ * Measured from the run start rather than from the wait itself: "opened the
+ * email" almost always refers to a send that happened just BEFORE the wait.
+ */
+async function flowWaitEventHappened(
+  supabase: SupabaseClient,
+  event: string,
+  leadId: string,
+  since: string,
+): Promise<boolean> {
+  let query;
+  switch (event) {
+    case "email_opened":
+      query = supabase.from("email_events").select("id")
+        .eq("lead_id", leadId).in("status_key", ["opened", "clicked"]).gte("created_at", since);
+      break;
+    case "showing_booked":
+      query = supabase.from("showings").select("id")
+        .eq("lead_id", leadId).in("status", ["scheduled", "confirmed", "completed"]).gte("created_at", since);
+      break;
+    case "reply_received":
+      query = supabase.from("inbound_emails").select("email_id")
+        .eq("lead_id", leadId).gte("received_at", since);
+      break;
+    default:
+      return false;
+  }
+  const { data } = await query.limit(1).maybeSingle();
+  return !!data;
+}
+
+async function scheduleFlowTask(
+  supabase: SupabaseClient,
+  task: AgentTask,
+  context: Record<string, unknown>,
+  delayMinutes: number,
+) {
+  await supabase.from("agent_tasks").insert({
+    organization_id: task.organization_id,
+    lead_id: task.lead_id,
+    agent_type: "flow_step",
+    action_type: "email",
+    scheduled_for: new Date(Date.now() + (delayMinutes || 0) * 60_000).toISOString(),
+    attempt_number: 1,
+    max_attempts: 3,
+    status: "pending",
+    context,
+  });
+}
+
+// A/B: email_config is variant "A"; each entry of email_variants overrides its
+// subject and/or body. Once a winner is set (by hand or by promote_ab_winners)
+// everyone gets it. Until then the pick is uniform per send — a lead in two
+// runs of the same flow may see both, which is noise, not bias. Returns null
+// for a step that is not under test so its sends stay untagged.
+function pickStepVariant(
+  step: Record<string, unknown>,
+): { key: string; overrides: Partial<EmailTemplateConfig> } | null {
+  const raw = Array.isArray(step.email_variants) ? step.email_variants as Record<string, unknown>[] : [];
+  if (raw.length === 0) return null;
+  const options = [
+    { key: "A", overrides: {} as Partial<EmailTemplateConfig> },
+    ...raw.filter((v) => v && typeof v.key === "string" && v.key !== "A").map((v) => {
+      const overrides: Partial<EmailTemplateConfig> = {};
+      if (typeof v.subject === "string" && v.subject.trim()) overrides.subject = v.subject;
+      if (Array.isArray(v.bodyParagraphs) && v.bodyParagraphs.length > 0) {
+        overrides.bodyParagraphs = v.bodyParagraphs as string[];
+      }
+      return { key: String(v.key), overrides };
+    }),
+  ];
+  const winner = step.winner_variant ? String(step.winner_variant) : null;
+  return options.find((o) => o.key === winner) ?? options[Math.floor(Math.random() * options.length)];
+}
+
 // Executes ONE step of a flow defined in the `flows` / `flow_steps` tables and
 // schedules the next. The flows table only owns the SCHEDULE; the copy for an
 // imported, unedited step is produced by delegating to the very handler that
@@ -1143,6 +1433,9 @@ async function claimForFlow(
 // byte-identical email it already sends, or the switch is not reversible in any
 // meaningful sense. Editing a step materialises `email_config`, and from then
 // on this function renders it directly.
+//
+// A `wait_event` step sends nothing: it re-queues itself until the event shows
+// up or its timeout passes, then moves the run onto the matching branch line.
 async function handleFlowStep(
   supabase: SupabaseClient,
   task: AgentTask,
@@ -1153,6 +1446,8 @@ async function handleFlowStep(
   const flowId = String(ctx.flow_id || "");
   const runId = String(ctx.run_id || "");
   const position = Number(ctx.position) || 1;
+  const parentStepId = ctx.parent_step_id ? String(ctx.parent_step_id) : null;
+  const branch = ctx.branch ? String(ctx.branch) : null;
   if (!flowId || !runId) throw new Error("flow_step task without flow_id/run_id");
 
   const finish = async (status: string, outcome: string | null, why: string) => {
@@ -1164,12 +1459,16 @@ async function handleFlowStep(
 
   const [{ data: flow }, { data: step }] = await Promise.all([
     supabase.from("flows").select("id, name, is_active").eq("id", flowId).maybeSingle(),
-    supabase.from("flow_steps").select("*").eq("flow_id", flowId).eq("position", position).maybeSingle(),
+    onFlowLine(
+      supabase.from("flow_steps").select("*").eq("flow_id", flowId).eq("position", position),
+      parentStepId, branch,
+    ).maybeSingle(),
   ]);
 
   // Deactivating a flow has to stop chains already in flight, not just prevent
-  // new ones — otherwise turning it off would still mail people for days.
-  if (!flow || !flow.is_active) return finish("stopped", "stopped", "flow is not active");
+  // new ones — otherwise turning it off would still mail people for days. A dry
+  // run is the exception: its whole point is to look before activating.
+  if (!flow || (!flow.is_active && !ctx.dry_run)) return finish("stopped", "stopped", "flow is not active");
   if (!step) return finish("done", "exhausted", "no step at this position");
   if (!step.is_enabled) return finish("stopped", "stopped", "step disabled");
 
@@ -1197,6 +1496,49 @@ async function handleFlowStep(
     if (reply) return finish("done", "replied", "lead replied by email");
   }
 
+  // ── Wait for an event, then fork ───────────────────────────────────────
+  if (step.step_type === "wait_event") {
+    const nowMs = Date.now();
+    const waitingSince = String(ctx.waiting_since || new Date(nowMs).toISOString());
+    const { data: runRow } = await supabase.from("flow_runs")
+      .select("started_at").eq("id", runId).maybeSingle();
+    // A dry run cannot sit through the window, so it is told which way to go.
+    const assumed = ctx.dry_run_assume ? String(ctx.dry_run_assume) : null;
+    const happened = assumed
+      ? assumed === "matched"
+      : await flowWaitEventHappened(
+        supabase, String(step.wait_event || ""), leadId, String(runRow?.started_at || waitingSince),
+      );
+    const deadline = Date.parse(waitingSince) + (Number(step.wait_timeout_minutes) || 0) * 60_000;
+
+    if (!happened && !assumed && nowMs < deadline) {
+      const recheck = Math.max(1, Math.min(FLOW_WAIT_POLL_MINUTES, Math.ceil((deadline - nowMs) / 60_000)));
+      await scheduleFlowTask(supabase, task, { ...ctx, waiting_since: waitingSince }, recheck);
+      return `Flow "${flow.name}" step ${position} waiting for ${step.wait_event} — re-check in ${recheck} min`;
+    }
+
+    const path = happened ? "matched" : "timed_out";
+    const { data: first } = await supabase.from("flow_steps")
+      .select("position, delay_minutes")
+      .eq("flow_id", flowId).eq("parent_step_id", step.id).eq("branch", path)
+      .order("position", { ascending: true }).limit(1).maybeSingle();
+    if (!first) return finish("done", "exhausted", `${path} branch has no steps`);
+
+    await supabase.from("flow_runs").update({
+      current_position: first.position,
+      current_parent_step_id: step.id,
+      current_branch: path,
+      last_step_at: new Date(nowMs).toISOString(),
+    }).eq("id", runId);
+
+    const branchCtx: Record<string, unknown> = {
+      ...ctx, position: first.position, parent_step_id: step.id, branch: path,
+    };
+    delete branchCtx.waiting_since;
+    await scheduleFlowTask(supabase, task, branchCtx, first.delay_minutes);
+    return `Flow "${flow.name}" step ${position}: ${step.wait_event} ${happened ? "happened" : "timed out"} — ${path} branch step ${first.position} scheduled`;
+  }
+
   // ── Send ─────────────────────────────────────────────────────────────────
   const cfg = (step.email_config || {}) as EmailTemplateConfig & Record<string, unknown>;
   const materialised = Object.keys(cfg).length > 0;
@@ -1210,32 +1552,28 @@ async function handleFlowStep(
       "{orgName}": settings.org_name,
       "{senderDomain}": settings.sender_domain,
     };
-    const html = buildEmailFromConfig(cfg, vars);
-    const subject = interpolateVars(String(cfg.subject || settings.org_name), vars);
-    const resp = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/send-notification-email`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
-      },
-      body: JSON.stringify({
-        to: lead.email,
-        subject,
-        html,
-        notification_type: step.notification_key || "flow_custom",
-        organization_id: task.organization_id,
-        related_entity_id: leadId,
-        related_entity_type: "lead",
-        from_name: settings.org_name,
-        queue: true,
-      }),
+    const variant = pickStepVariant(step);
+    const variantCfg = variant ? { ...cfg, ...variant.overrides } : cfg;
+    const html = buildEmailFromConfig(variantCfg, vars);
+    const subject = interpolateVars(String(variantCfg.subject || settings.org_name), vars);
+    const resp = await postNotificationEmail(supabase, {
+      to: lead.email,
+      subject,
+      html,
+      notification_type: step.notification_key || "flow_custom",
+      organization_id: task.organization_id,
+      related_entity_id: leadId,
+      related_entity_type: "lead",
+      from_name: settings.org_name,
+      queue: true,
+      ...(variant ? { ab_test: step.id, variant: variant.key } : {}),
     });
     if (!resp.ok) {
       const body = await resp.text().catch(() => "");
       if (resp.status === 403) return finish("stopped", "stopped", "consent gate declined");
       throw new Error(`Flow step ${position} failed (${resp.status}): ${body.slice(0, 160)}`);
     }
-    outcomeMsg = `Flow "${flow.name}" step ${position} sent`;
+    outcomeMsg = `Flow "${flow.name}" step ${position} sent${variant ? ` (variant ${variant.key})` : ""}`;
   } else {
     // Imported and unedited → run the legacy handler verbatim.
     const legacy: Record<string, (t: AgentTask) => Promise<string>> = {
@@ -1260,10 +1598,12 @@ async function handleFlowStep(
   }
 
   // ── Advance ──────────────────────────────────────────────────────────────
-  const { data: next } = await supabase.from("flow_steps")
-    .select("position, delay_minutes, delay_anchor")
-    .eq("flow_id", flowId).gt("position", position)
-    .order("position", { ascending: true }).limit(1).maybeSingle();
+  const { data: next } = await onFlowLine(
+    supabase.from("flow_steps")
+      .select("position, delay_minutes, delay_anchor")
+      .eq("flow_id", flowId).gt("position", position),
+    parentStepId, branch,
+  ).order("position", { ascending: true }).limit(1).maybeSingle();
 
   const nowIso = new Date().toISOString();
   if (!next) {
@@ -1277,17 +1617,7 @@ async function handleFlowStep(
     current_position: next.position, last_step_at: nowIso,
   }).eq("id", runId);
 
-  await supabase.from("agent_tasks").insert({
-    organization_id: task.organization_id,
-    lead_id: leadId,
-    agent_type: "flow_step",
-    action_type: "email",
-    scheduled_for: new Date(Date.now() + (next.delay_minutes || 0) * 60_000).toISOString(),
-    attempt_number: 1,
-    max_attempts: 3,
-    status: "pending",
-    context: { ...ctx, position: next.position },
-  });
+  await scheduleFlowTask(supabase, task, { ...ctx, position: next.position }, next.delay_minutes);
 
   return `${outcomeMsg} — next step ${next.position} scheduled`;
 }
@@ -1313,8 +1643,140 @@ async function handleSheetsBackup(task: AgentTask): Promise<string> {
   return out?.skipped ? `Sheets sync skipped (${out.reason})` : `Lead synced to Google Sheet`;
 }
 
+// ── Flow dry run ──────────────────────────────────────────────────────────────
+// Walks a flow for one real lead through the dryRunClient: the same
+// handleFlowStep, the same exit checks against the lead as it is NOW, the same
+// rendered HTML — with every write and send recorded instead of executed.
+// Times are projected from the step delays; a wait step is resolved by the
+// caller's assumption because nobody can know today whether the lead will open.
+
+const DRY_RUN_MAX_STEPS = 40;
+
+interface SimulatedStep {
+  position: number;
+  parent_step_id: string | null;
+  branch: string | null;
+  label: string | null;
+  step_type: string;
+  at: string;
+  outcome: "sent" | "stopped" | "waiting" | "error";
+  result: string;
+  exit_conditions: string[];
+  email: { to: unknown; subject: unknown; html: unknown; variant: unknown } | null;
+}
+
+async function simulateFlow(
+  supabase: SupabaseClient,
+  flow: { id: string; organization_id: string; trigger_type: string },
+  leadId: string,
+  settings: OrgSettings,
+  assumeWait: "matched" | "timed_out",
+): Promise<SimulatedStep[]> {
+  const { data: lead } = await supabase.from("leads")
+    .select(LEAD_DISPATCH_COLUMNS).eq("id", leadId).maybeSingle();
+  if (!lead) throw new Error(`Lead not found: ${leadId}`);
+
+  const { data: stepRows } = await supabase.from("flow_steps").select("*").eq("flow_id", flow.id);
+  const steps = (stepRows || []) as Record<string, unknown>[];
+  const first = steps
+    .filter((r) => !r.parent_step_id && r.is_enabled)
+    .sort((a, b) => Number(a.position) - Number(b.position))[0];
+  if (!first) return [];
+
+  const nowIso = new Date().toISOString();
+  let ctx: Record<string, unknown> = {
+    flow_id: flow.id,
+    run_id: "dry-run",
+    position: first.position,
+    started_at: nowIso,
+    dry_run: true,
+    dry_run_assume: assumeWait,
+  };
+
+  // Showing triggers carry the showing in their context; use the lead's most
+  // recent one so addresses and "24 h before" resolve to a real date.
+  let eventAt: number | null = null;
+  if (flow.trigger_type.startsWith("showing_")) {
+    const { data: sh } = await supabase.from("showings")
+      .select("id, property_id, scheduled_at").eq("lead_id", leadId)
+      .order("scheduled_at", { ascending: false }).limit(1).maybeSingle();
+    if (sh) {
+      ctx = { ...ctx, showing_id: sh.id, property_id: sh.property_id, scheduled_at: sh.scheduled_at };
+      eventAt = Date.parse(sh.scheduled_at);
+    }
+  }
+
+  const firstDelayMs = (Number(first.delay_minutes) || 0) * 60_000;
+  let at = first.delay_anchor === "before_event" && eventAt !== null
+    ? eventAt - firstDelayMs
+    : Date.now() + firstDelayMs;
+
+  const timeline: SimulatedStep[] = [];
+  for (let i = 0; i < DRY_RUN_MAX_STEPS; i++) {
+    const step = steps.find((r) =>
+      Number(r.position) === Number(ctx.position)
+      && (r.parent_step_id ?? null) === (ctx.parent_step_id ?? null)
+      && (r.branch ?? null) === (ctx.branch ?? null));
+
+    const sink: DryRunSink = { sends: [], writes: [] };
+    const callStart = Date.now();
+    let result: string;
+    let failed = false;
+    try {
+      result = await handleFlowStep(
+        dryRunClient(supabase, sink),
+        {
+          id: "dry-run",
+          organization_id: flow.organization_id,
+          lead_id: leadId,
+          agent_type: "flow_step",
+          created_at: nowIso,
+          context: ctx,
+        },
+        lead,
+        settings,
+      );
+    } catch (err) {
+      result = err instanceof Error ? err.message : String(err);
+      failed = true;
+    }
+
+    const send = sink.sends[0];
+    const ended = sink.writes.some((w) =>
+      w.table === "flow_runs" && !!(w.payload as Record<string, unknown> | null)?.ended_at);
+    const next = sink.writes.find((w) =>
+      w.table === "agent_tasks" && w.op === "insert"
+      && (w.payload as Record<string, unknown>)?.agent_type === "flow_step");
+
+    timeline.push({
+      position: Number(ctx.position),
+      parent_step_id: (ctx.parent_step_id as string | undefined) ?? null,
+      branch: (ctx.branch as string | undefined) ?? null,
+      label: (step?.label as string | null | undefined) ?? null,
+      step_type: String(step?.step_type || "email"),
+      at: new Date(at).toISOString(),
+      outcome: failed ? "error" : send ? "sent" : ended ? "stopped" : "waiting",
+      result,
+      exit_conditions: Array.isArray(step?.exit_conditions) ? step!.exit_conditions as string[] : [],
+      email: send ? { to: send.to, subject: send.subject, html: send.html, variant: send.variant ?? null } : null,
+    });
+    if (failed || !next) break;
+
+    const payload = next.payload as { scheduled_for: string; context: Record<string, unknown> };
+    at += Math.round((Date.parse(payload.scheduled_for) - callStart) / 60_000) * 60_000;
+    if (step?.step_type === "wait_event" && assumeWait === "timed_out") {
+      at += (Number(step.wait_timeout_minutes) || 0) * 60_000;
+    }
+    ctx = payload.context;
+  }
+  return timeline;
+}
+
 // ── Router ────────────────────────────────────────────────────────────────────
 
+const LEAD_DISPATCH_COLUMNS =
+  "id, full_name, phone, email, preferred_language, sms_consent, call_consent, status, unsubscribed_at, nurture_started_at";
+
 async function dispatchTask(
   supabase: SupabaseClient,
   task: AgentTask,
@@ -1323,9 +1785,7 @@ async function dispatchTask(
   // Fetch lead info
   const { data: lead, error: leadErr } = await supabase
     .from("leads")
-    .select(
-      "id, full_name, phone, email, sms_consent, call_consent, status, unsubscribed_at, nurture_started_at"
-    )
+    .select(LEAD_DISPATCH_COLUMNS)
     .eq("id", task.lead_id)
     .single();
 
@@ -1373,6 +1833,42 @@ async function dispatchTask(
   }
 }
 
+async function loadOrgSettings(
+  supabase: SupabaseClient,
+  orgId: string,
+  orgName: string | null,
+): Promise<OrgSettings> {
+  const { data: settingsRows } = await supabase
+    .from("organization_settings")
+    .select("key, value")
+    .eq("organization_id", orgId)
+    .in("key", ["sender_domain", "email_templates"]);
+
+  // deno-lint-ignore no-explicit-any
+  const settingsMap: Record<string, any> = {};
+  for (const s of settingsRows || []) {
+    settingsMap[s.key] = s.value;
+  }
+
+  // Parse email_templates: value is JSONB, may be an object or stringified JSON
+  let emailTemplates: EmailTemplatesMap | null = null;
+  if (settingsMap["email_templates"]) {
+    const raw = settingsMap["email_templates"];
+    emailTemplates = typeof raw === "string" ? JSON.parse(raw) : raw;
+    // Only keep if it has at least one key
+    if (emailTemplates && Object.keys(emailTemplates).length === 0) {
+      emailTemplates = null;
+    }
+  }
+
+  return {
+    sender_domain:
+      String(settingsMap["sender_domain"] || "rentfindercleveland.com"),
+    org_name: orgName || "Rent Finder Cleveland",
+    email_templates: emailTemplates,
+  };
+}
+
 // ── Main ──────────────────────────────────────────────────────────────────────
 
 serve(async (req: Request) => {
@@ -1381,26 +1877,10 @@ serve(async (req: Request) => {
   }
 
   // ── Require service-role or admin authenticated caller ─────────
-  {
-    const _srk = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const _ak = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const _tok = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "").trim();
-    if (_tok !== _srk) {
-      if (!_tok || _tok === _ak) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-      const _sb = createClient(Deno.env.get("SUPABASE_URL")!, _srk);
-      const { data: _auth } = await _sb.auth.getUser(_tok);
-      if (!_auth?.user) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-      const { data: _u } = await _sb.from("users").select("role, is_active").eq("auth_user_id", _auth.user.id).maybeSingle();
-      if (!_u || _u.is_active === false || !["super_admin","admin"].includes(_u.role || "")) {
-        return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-    }
-  }
-
+  // null = service role; otherwise the admin's org, which scopes a dry run.
+  const auth = await authorizeCaller(req, createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!), { roles: ADMIN_ROLES, corsHeaders });
+  if (auth.response) return auth.response;
+  const callerOrgId = auth.caller.kind === "user" ? auth.caller.organizationId : null;
 
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
@@ -1417,9 +1897,38 @@ serve(async (req: Request) => {
       );
     }
 
-    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "task_dispatcher", agent: "task_dispatcher" }));
     const startTime = Date.now();
 
+    // ── Dry run: simulate one flow for one lead, send and write nothing ──
+    const reqBody = await req.json().catch(() => ({}));
+    if (reqBody?.dry_run) {
+      const { flow_id, lead_id, assume_wait } = reqBody.dry_run as {
+        flow_id?: string; lead_id?: string; assume_wait?: string;
+      };
+      const json = (payload: unknown, status = 200) => new Response(JSON.stringify(payload), {
+        status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+      if (!flow_id || !lead_id) return json({ error: "dry_run needs flow_id and lead_id" }, 400);
+
+      const { data: flow } = await supabase.from("flows")
+        .select("id, organization_id, trigger_type").eq("id", flow_id).maybeSingle();
+      const { data: leadOrg } = await supabase.from("leads")
+        .select("organization_id").eq("id", lead_id).maybeSingle();
+      if (!flow || !leadOrg || leadOrg.organization_id !== flow.organization_id
+          || (callerOrgId && callerOrgId !== flow.organization_id)) {
+        return json({ error: "Flow or lead not found" }, 404);
+      }
+      const { data: org } = await supabase.from("organizations")
+        .select("name").eq("id", flow.organization_id).maybeSingle();
+      const settings = await loadOrgSettings(supabase, flow.organization_id, org?.name ?? null);
+      const steps = await simulateFlow(
+        supabase, flow, lead_id, settings,
+        assume_wait === "matched" ? "matched" : "timed_out",
+      );
+      return json({ success: true, dry_run: true, steps });
+    }
+
     // Get all organizations
     const { data: orgs } = await supabase
       .from("organizations")
@@ -1446,37 +1955,7 @@ serve(async (req: Request) => {
     }[] = [];
 
     for (const org of orgs) {
-      // Get settings
-      const { data: settingsRows } = await supabase
-        .from("organization_settings")
-        .select("key, value")
-        .eq("organization_id", org.id)
-        .in("key", ["sender_domain", "email_templates"]);
-
-      // deno-lint-ignore no-explicit-any
-      const settingsMap: Record<string, any> = {};
-      for (const s of settingsRows || []) {
-        settingsMap[s.key] = s.value;
-      }
-
-
-      // Parse email_templates: value is JSONB, may be an object or stringified JSON
-      let emailTemplates: EmailTemplatesMap | null = null;
-      if (settingsMap["email_templates"]) {
-        const raw = settingsMap["email_templates"];
-        emailTemplates = typeof raw === "string" ? JSON.parse(raw) : raw;
-        // Only keep if it has at least one key
-        if (emailTemplates && Object.keys(emailTemplates).length === 0) {
-          emailTemplates = null;
-        }
-      }
-
-      const orgSettings: OrgSettings = {
-        sender_domain:
-          String(settingsMap["sender_domain"] || "rentfindercleveland.com"),
-        org_name: org.name || "Rent Finder Cleveland",
-        email_templates: emailTemplates,
-      };
+      const orgSettings = await loadOrgSettings(supabase, org.id, org.name);
 
       // Atomically claim pending tasks
       const { data: tasks, error: claimErr } = await supabase.rpc(
@@ -1,12 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { authorizeCaller } from "../_shared/auth.ts";
 
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
@@ -33,11 +28,15 @@ serve(async (req: Request) => {
     // (telegram-webhook "Pregunta libre") with the service-role key — accepted
     // from Authorization OR apikey (functions.invoke puts it in apikey; see the
     // send-notification-email 401 outage). Check BOTH headers before rejecting.
-    const token = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
-    const apikeyHeader = req.headers.get("apikey") || "";
+    const auth = await authorizeCaller(req, supabase, {
+      requireOrganization: true,
+      serviceRoleInApikey: true,
+      corsHeaders,
+    });
+    if (auth.response) return auth.response;
 
     let orgId: string;
-    if (token === serviceRoleKey || apikeyHeader === serviceRoleKey) {
+    if (auth.caller.kind === "service") {
       // Privileged internal caller — must name the org explicitly.
       orgId = typeof body.organization_id === "string" ? body.organization_id : "";
       if (!orgId) {
@@ -47,36 +46,7 @@ serve(async (req: Request) => {
         );
       }
     } else {
-      if (!token) {
-        return new Response(
-          JSON.stringify({ error: "Missing authorization header" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
-      if (authError || !user) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      // Get user record with organization_id
-      const { data: userRecord } = await supabase
-        .from("users")
-        .select("organization_id")
-        .eq("auth_user_id", user.id)
-        .eq("is_active", true)
-        .single();
-
-      if (!userRecord?.organization_id) {
-        return new Response(
-          JSON.stringify({ error: "User organization not found" }),
-          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      orgId = userRecord.organization_id;
+      orgId = auth.caller.organizationId!;
     }
 
     // ── Get OpenAI key ──────────────────────────────────────────────
@@ -1,30 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-// ── City → Timezone mapping ──────────────────────────────────────────
-const CITY_TZ: Record<string, string> = {
-  "Cleveland": "America/New_York", "Akron": "America/New_York",
-  "Elyria": "America/New_York", "Lorain": "America/New_York",
-  "Canton": "America/New_York", "Toledo": "America/New_York",
-  "Columbus": "America/New_York", "Parma": "America/New_York",
-  "Milwaukee": "America/Chicago", "Madison": "America/Chicago",
-  "Green Bay": "America/Chicago", "Kenosha": "America/Chicago",
-  "Saint Louis": "America/Chicago", "St. Louis": "America/Chicago",
-  "Kansas City": "America/Chicago", "Chicago": "America/Chicago",
-  "Springfield": "America/Chicago", "Racine": "America/Chicago",
-  "Detroit": "America/Detroit", "Pittsburgh": "America/New_York",
-};
-function getTimezoneForCity(city: string | null): string {
-  if (!city) return "America/New_York";
-  return CITY_TZ[city] || "America/New_York";
-}
+import { corsHeaders } from "../_shared/cors.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { timingSafeEqual } from "../_shared/crypto.ts";
+import { issueShowingAccessCode, type AccessCodeClient } from "../_shared/accessCodes.ts";
+import { noShowRisk } from "../_shared/generated/noShowRisk.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
+import { getTimezoneForCity } from "../_shared/generated/cityTimezone.ts";
+import { leadTokenSecret, signShowingToken } from "../_shared/token.ts";
+import { redactToken, showingsBotFor } from "../_shared/telegram.ts";
 
 // ── Email template ────────────────────────────────────────────────────
 function showingConfirmationEmail(data: {
@@ -35,6 +19,16 @@ function showingConfirmationEmail(data: {
   duration: number;
   googleCalUrl: string;
   icsDataUri: string;
+  manageUrl: string | null;
+  /** Open house: other renters tour at the same time. */
+  openHouse: boolean;
+  /** Self-guided tour: the door code and how to get in (code null = issuing failed). */
+  selfGuided: {
+    code: string | null;
+    windowText: string;
+    instructions: string | null;
+    checkoutUrl: string | null;
+  } | null;
   brandName: string;
   primaryColor: string;
   accentColor: string;
@@ -74,6 +68,10 @@ function showingConfirmationEmail(data: {
           </tr>
         </table>
       </div>
+      ${data.openHouse
+        ? `<p style="margin:16px 0;color:#1a1a1a;font-size:14px;line-height:1.5;">This is an <strong>open house</strong> — other renters will be touring the home at the same time.</p>`
+        : ""}
+      ${data.selfGuided ? selfGuidedBlock(data.selfGuided, primary) : ""}
       <div style="text-align:center;margin:20px 0;">
         <a href="${data.googleCalUrl}" target="_blank" style="display:inline-block;background-color:${primary};color:#ffffff;text-decoration:none;padding:10px 24px;border-radius:6px;font-size:14px;font-weight:600;margin:0 6px 8px;">
           Add to Google Calendar
@@ -83,8 +81,10 @@ function showingConfirmationEmail(data: {
         </a>
       </div>
       <p style="margin:16px 0 0;color:#666;font-size:13px;line-height:1.5;">
-        You'll receive a confirmation call approximately 24 hours before your showing.
-        If you need to reschedule or cancel, please call us directly.
+        ${data.selfGuided ? "" : "You'll receive a confirmation call approximately 24 hours before your showing."}
+        ${data.manageUrl
+          ? `Can't make it? <a href="${data.manageUrl}" target="_blank" style="color:${primary};font-weight:600;">Reschedule or cancel your showing</a> — it frees the time for someone else.`
+          : "If you need to reschedule or cancel, please call us directly."}
       </p>
       <hr style="margin:20px 0;border:none;border-top:1px solid #eee;" />
       <p style="margin:0;color:#999;font-size:11px;text-align:center;">
@@ -96,6 +96,37 @@ function showingConfirmationEmail(data: {
 </html>`;
 }
 
+// Self-guided tours: the code, when it works, how to get in, and the check-out
+// form the renter must fill in on the way out (it is the showing's report).
+function selfGuidedBlock(sg: {
+  code: string | null;
+  windowText: string;
+  instructions: string | null;
+  checkoutUrl: string | null;
+}, primary: string) {
+  const codeHtml = sg.code
+    ? `<p style="margin:0 0 8px;color:#1a1a1a;font-size:14px;">Your door code: <strong style="font-size:22px;letter-spacing:4px;">${escapeHtml(sg.code)}</strong></p>
+        <p style="margin:0 0 8px;color:#666;font-size:13px;">It only works ${escapeHtml(sg.windowText)}.</p>`
+    : `<p style="margin:0 0 8px;color:#1a1a1a;font-size:14px;">We'll send your door code shortly. If it hasn't arrived before your tour, please contact us.</p>`;
+  const instructions = sg.instructions
+    ? `<p style="margin:8px 0;color:#1a1a1a;font-size:14px;line-height:1.5;white-space:pre-line;">${escapeHtml(sg.instructions)}</p>`
+    : "";
+  const checkout = sg.checkoutUrl
+    ? `<p style="margin:12px 0 0;color:#1a1a1a;font-size:14px;line-height:1.5;">
+          <strong>Before you leave:</strong> lock up and
+          <a href="${sg.checkoutUrl}" target="_blank" style="color:${primary};font-weight:600;">check out here</a>.
+          It takes a minute and tells us the home is secure.
+        </p>`
+    : "";
+  return `
+      <div style="background-color:#fff8e6;border-left:4px solid #ffb22c;padding:16px 20px;border-radius:4px;margin:16px 0;">
+        <p style="margin:0 0 8px;color:#1a1a1a;font-size:15px;font-weight:600;">This is a self-guided tour — no agent will meet you.</p>
+        ${codeHtml}
+        ${instructions}
+        ${checkout}
+      </div>`;
+}
+
 // ── Helper: format time ───────────────────────────────────────────────
 function formatTimeHuman(t: string): string {
   const [hStr, mStr] = t.split(":");
@@ -116,24 +147,18 @@ function formatDateHuman(d: string, tz = "America/New_York"): string {
   });
 }
 
-// Escape user/DB text before placing it in a parse_mode=HTML Telegram message.
-function escapeHtml(s: unknown): string {
-  return String(s ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-}
-// Redact any api.telegram.org bot token from a value before logging.
-function redactToken(v: unknown): string {
-  return String(v ?? "").replace(/bot\d+:[\w-]+/g, "bot<redacted>");
-}
-// Constant-time string compare (auth header check).
-function timingSafeEqual(a: string, b: string): boolean {
-  const enc = new TextEncoder();
-  const aB = enc.encode(a), bB = enc.encode(b);
-  const len = Math.max(aB.length, bB.length);
-  let diff = aB.length ^ bB.length;
-  for (let i = 0; i < len; i++) diff |= (aB[i] ?? 0) ^ (bB[i] ?? 0);
-  return diff === 0;
-}
 const BOOKING_SOURCES = new Set(["public_link", "telegram_bot", "admin", "campaign"]);
+// The extra confirmation for a high no-show risk goes out this long before
+// the tour — late enough to catch a change of plans, early enough to rebook.
+const RISK_TOUCH_HOURS = 3;
+
+// ── Signed links in the confirmation email ───────────────────────────
+// Same secret family and shape as the calendar attendance links:
+// <showingId>.<action>.<exp>.<sig>. "manage" (reschedule/cancel, verified by
+// manage-showing) lives 30 days past the tour because it follows the tour
+// when moved; manage-showing refuses anything already past. "checkout"
+// (self-guided-checkout) follows the same chain and gets the same life.
+const TOKEN_SECRET = leadTokenSecret();
 
 // ── Calendar helpers ─────────────────────────────────────────────────
 function buildGoogleCalUrl(data: {
@@ -206,7 +231,7 @@ serve(async (req: Request) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "book_public_showing" }));
 
     const body = await req.json();
     const {
@@ -229,6 +254,8 @@ serve(async (req: Request) => {
       // booking_source: overrides the default "public_link" marker.
       lead_id: bodyLeadId,
       booking_source: bodyBookingSource,
+      // Full open house: put this renter on its waitlist instead.
+      join_waitlist: joinWaitlist,
     } = body;
     // Desired move-in (required by the public form since 2026-08-01). Accepted
     // only as a plain YYYY-MM-DD — anything else is dropped rather than handed
@@ -268,7 +295,7 @@ serve(async (req: Request) => {
     // ── Verify slot is still available ────────────────────────────────
     const { data: slot, error: slotErr } = await supabase
       .from("showing_available_slots")
-      .select("id, is_booked, is_enabled, duration_minutes")
+      .select("id, is_booked, is_enabled, duration_minutes, capacity, overbook_showing_id")
       .eq("organization_id", organization_id)
       .eq("property_id", property_id)
       .eq("slot_date", slot_date)
@@ -285,12 +312,51 @@ serve(async (req: Request) => {
       );
     }
 
+    // ── Full open house → waitlist ─────────────────────────────────────
+    // A full open house is is_booked like any taken slot, so the lookup
+    // above misses it. Seats are counted rather than trusting is_booked: a
+    // market-blocked open house (another home booked at that hour) is not
+    // "full", it is simply unavailable.
+    let waitlistSlot: { id: string } | null = null;
     if (!slot) {
-      return new Response(
-        JSON.stringify({ error: "This time slot is no longer available. Please select another." }),
-        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      const { data: openHouse } = await supabase
+        .from("showing_available_slots")
+        .select("id, capacity")
+        .eq("organization_id", organization_id)
+        .eq("property_id", property_id)
+        .eq("slot_date", slot_date)
+        .eq("slot_time", slot_time)
+        .eq("is_enabled", true)
+        .gt("capacity", 1)
+        .maybeSingle();
+      let openHouseFull = false;
+      if (openHouse) {
+        const { count: seatsTaken } = await supabase
+          .from("showings")
+          .select("id", { count: "exact", head: true })
+          .eq("open_house_slot_id", openHouse.id)
+          .in("status", ["scheduled", "confirmed"]);
+        openHouseFull = (seatsTaken || 0) >= openHouse.capacity;
+      }
+      if (openHouse && openHouseFull && joinWaitlist === true) {
+        waitlistSlot = { id: openHouse.id };
+      } else if (openHouse && openHouseFull) {
+        return new Response(
+          JSON.stringify({
+            error: "This open house is full. Join the waitlist and we'll book you in if a spot opens up.",
+            code: "open_house_full",
+          }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      } else {
+        return new Response(
+          JSON.stringify({ error: "This time slot is no longer available. Please select another." }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
     }
+    // Open house: several renters share the slot (and its one agent).
+    const openHouse = (slot?.capacity ?? 1) > 1;
 
     // ── Market scope: exclusivity is per MARKET, not per organization ─
     // There is a different person showing in each city, so a Milwaukee
@@ -299,10 +365,13 @@ serve(async (req: Request) => {
     // block below is confined to these property ids.
     const { data: bookedProp } = await supabase
       .from("properties")
-      .select("market")
+      .select("market, self_guided, overbook_high_risk")
       .eq("id", property_id)
       .single();
     const bookedMarket: string | null = bookedProp?.market ?? null;
+    // Self-guided homes are toured without an agent: the booking takes only
+    // its own slot, never an agent or the rest of the market at that time.
+    const selfGuided = bookedProp?.self_guided === true;
     let marketPropertyIds: string[] = [property_id];
     if (bookedMarket) {
       const { data: marketProps } = await supabase
@@ -313,11 +382,24 @@ serve(async (req: Request) => {
       if (marketProps?.length) marketPropertyIds = marketProps.map((p: { id: string }) => p.id);
     }
 
+    // ── Multi-agent orgs: capacity is people, not markets ──────────────
+    // With showing_agents set up, a booking is assigned to a free agent below
+    // and only fills the market once nobody is left (next_showing_agent).
+    // Without them, the single-agent-per-market rules apply unchanged.
+    const { data: usesAgentsData } = await supabase.rpc("org_uses_showing_agents", {
+      p_org: organization_id,
+    });
+    const usesAgents = usesAgentsData === true;
+
     // ── Backstop: one showing blocks that agent hour across THIS MARKET ─
     // Even if a fresh open slot row exists at this time, refuse if a live
     // showing already occupies the same date+time in the same market
     // (defends against a re-opened booked hour — review CRITICAL).
-    {
+    // An open house's later attendees find the market already blocked by its
+    // first one — that is them, not a conflict. The trigger still refuses a
+    // different home at this hour. Likewise a slot held open next to a
+    // high-risk booking: the market is blocked by that tour, at this home.
+    if (!usesAgents && !selfGuided && !openHouse && !waitlistSlot && !slot?.overbook_showing_id) {
       const bookedSibling = await supabase
         .from("showing_available_slots")
         .select("id", { count: "exact", head: true })
@@ -338,7 +420,7 @@ serve(async (req: Request) => {
     const [{ data: property }, { data: org }] = await Promise.all([
       supabase
         .from("properties")
-        .select("address, city, state, zip_code, rent_price, status")
+        .select("address, city, state, zip_code, rent_price, status, self_guided_instructions, lockbox_id")
         .eq("id", property_id)
         .single(),
       supabase
@@ -485,6 +567,12 @@ serve(async (req: Request) => {
       if (tagError) console.error("Property tag error:", tagError);
     }
 
+    // ── Owner for a new lead (assignment rules; needs the tag above) ───
+    if (leadIsNew) {
+      const { error: assignError } = await supabase.rpc("assign_leads", { p_lead_ids: [leadId] });
+      if (assignError) console.error("Lead assignment error:", assignError);
+    }
+
     // ── Log consent (TCPA — non-negotiable) ──────────────────────────
     // Only real consent_log columns: source_url/consent_language/consent_version
     // do NOT exist on the table and previously 400'd the whole insert (consent
@@ -508,6 +596,38 @@ serve(async (req: Request) => {
       if (consentErr) console.error("consent_log insert failed:", consentErr.message);
     }
 
+    // ── Waitlist: record the place in line and stop here ────────────────
+    // refill_open_house books them into the first freed seat (first come,
+    // first served) and open-house-promoted emails them.
+    if (waitlistSlot) {
+      const { error: waitErr } = await supabase
+        .from("open_house_waitlist")
+        .upsert(
+          { organization_id, slot_id: waitlistSlot.id, lead_id: leadId },
+          { onConflict: "slot_id,lead_id", ignoreDuplicates: true },
+        );
+      if (waitErr) {
+        console.error("Waitlist insert failed:", waitErr.message);
+        return new Response(
+          JSON.stringify({ error: "We couldn't add you to the waitlist. Please try again." }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      const { data: queue } = await supabase
+        .from("open_house_waitlist")
+        .select("lead_id")
+        .eq("slot_id", waitlistSlot.id)
+        .eq("status", "waiting")
+        .order("created_at", { ascending: true });
+      const position = (queue || []).findIndex((w: { lead_id: string }) => w.lead_id === leadId) + 1;
+      return new Response(
+        JSON.stringify({ success: true, waitlisted: true, position: position || null, lead_id: leadId }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    // Past the waitlist branch a real slot row is always in hand.
+    const bookSlot = slot!;
+
     // ── Build scheduled_at datetime ───────────────────────────────────
     // slot_time is "HH:MM:SS", slot_date is "YYYY-MM-DD"
     // Compute UTC offset using difference method (works in any runtime tz)
@@ -520,22 +640,86 @@ serve(async (req: Request) => {
     const offsetAbs = String(Math.abs(offsetHours)).padStart(2, "0");
     const tzOffset = `${offsetSign}${offsetAbs}:00`;
     const scheduledAt = `${slot_date}T${slot_time}${tzOffset}`;
-    const durationMinutes = slot.duration_minutes || 30;
+    const durationMinutes = bookSlot.duration_minutes || 30;
 
-    // ── Create showing ────────────────────────────────────────────────
-    const { data: showing, error: showingErr } = await supabase
+    // ── No-show risk (src/lib/noShowRisk.ts) ───────────────────────────
+    // Scored as booked: just now, not confirmed yet. A high score gets an
+    // extra confirmation touch below and, at a home that allows it, leaves
+    // this slot open for one more renter (one hold per slot).
+    const { count: priorNoShows } = await supabase
       .from("showings")
-      .insert({
-        organization_id,
-        lead_id: leadId,
-        property_id,
-        scheduled_at: scheduledAt,
-        duration_minutes: durationMinutes,
-        status: "scheduled",
-        booking_source: effBookingSource || "public_link",
-      })
-      .select("id")
-      .single();
+      .select("id", { count: "exact", head: true })
+      .eq("lead_id", leadId)
+      .eq("status", "no_show");
+    const risk = noShowRisk({
+      bookedAt: new Date(),
+      scheduledAt,
+      confirmed: false,
+      confirmationAttempts: 0,
+      priorNoShows: priorNoShows || 0,
+      bookingSource: effBookingSource || "public_link",
+    });
+    const holdForSecond =
+      risk.level === "high" &&
+      bookedProp?.overbook_high_risk === true &&
+      !openHouse &&
+      !bookSlot.overbook_showing_id;
+
+    // The free agent at `time` on this date in this market (agent orgs only).
+    const freeAgentAt = async (time: string, groupPropertyId: string | null): Promise<string | null> => {
+      const { data, error } = await supabase.rpc("next_showing_agent", {
+        p_org: organization_id,
+        p_market: bookedMarket,
+        p_slot_date: slot_date,
+        p_slot_time: time,
+        p_scheduled_at: `${slot_date}T${time}${tzOffset}`,
+        p_duration_minutes: durationMinutes,
+        p_group_property: groupPropertyId,
+      });
+      if (error) console.error("next_showing_agent failed:", error);
+      return (data as string | null) ?? null;
+    };
+
+    let assignedAgentId: string | null = null;
+    if (usesAgents && !selfGuided) {
+      assignedAgentId = await freeAgentAt(slot_time, property_id);
+      if (!assignedAgentId) {
+        return new Response(
+          JSON.stringify({ error: "This time was just booked. Please select another." }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // ── Create showing ────────────────────────────────────────────────
+    const insertShowing = () =>
+      supabase
+        .from("showings")
+        .insert({
+          organization_id,
+          lead_id: leadId,
+          property_id,
+          scheduled_at: scheduledAt,
+          duration_minutes: durationMinutes,
+          status: "scheduled",
+          booking_source: effBookingSource || "public_link",
+          leasing_agent_id: assignedAgentId,
+          self_guided: selfGuided,
+        })
+        .select("id")
+        .single();
+    let { data: showing, error: showingErr } = await insertShowing();
+
+    // Two renters booking different homes at once can be handed the same
+    // agent; the trigger refuses the second. Re-pick once — the first
+    // booking now makes that agent busy — before calling the time taken.
+    if (
+      usesAgents &&
+      String(showingErr?.message || "").includes("showing_slot_conflict")
+    ) {
+      assignedAgentId = await freeAgentAt(slot_time, property_id);
+      if (assignedAgentId) ({ data: showing, error: showingErr } = await insertShowing());
+    }
 
     if (showingErr || !showing) {
       console.error("Showing creation error:", showingErr);
@@ -581,20 +765,44 @@ serve(async (req: Request) => {
     }
 
     // ── Mark slot as booked (with race condition protection) ──────────
-    const { data: bookedSlot, error: bookErr } = await supabase
-      .from("showing_available_slots")
-      .update({
-        is_booked: true,
-        booked_showing_id: showing.id,
-        booked_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", slot.id)
-      .eq("is_booked", false)  // Only update if still available (atomic check)
-      .select("id")
-      .single();
+    // An open house takes a seat instead; the slot only reads as booked once
+    // the last seat goes (claim_open_house_seat, under a row lock).
+    let claimed = false;
+    if (openHouse) {
+      const { data: seat, error: seatErr } = await supabase.rpc("claim_open_house_seat", {
+        p_slot: bookSlot.id,
+        p_showing: showing.id,
+      });
+      if (seatErr) console.error("claim_open_house_seat failed:", seatErr.message);
+      claimed = seat === true;
+    } else if (holdForSecond) {
+      // Held, not booked: the slot stays open for the next renter.
+      const { data: heldSlot, error: holdErr } = await supabase
+        .from("showing_available_slots")
+        .update({ overbook_showing_id: showing.id, updated_at: new Date().toISOString() })
+        .eq("id", bookSlot.id)
+        .eq("is_booked", false)
+        .is("overbook_showing_id", null)
+        .select("id")
+        .single();
+      claimed = !holdErr && !!heldSlot;
+    } else {
+      const { data: bookedSlot, error: bookErr } = await supabase
+        .from("showing_available_slots")
+        .update({
+          is_booked: true,
+          booked_showing_id: showing.id,
+          booked_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", bookSlot.id)
+        .eq("is_booked", false)  // Only update if still available (atomic check)
+        .select("id")
+        .single();
+      claimed = !bookErr && !!bookedSlot;
+    }
 
-    if (bookErr || !bookedSlot) {
+    if (!claimed) {
       // Slot was taken by another request — delete the showing we just created.
       // The visitor note is inserted only AFTER a successful claim, so there is
       // no related_showing_id referencing this showing to block the delete here.
@@ -625,10 +833,20 @@ serve(async (req: Request) => {
       });
     }
 
+    // Round-robin moves on only once the booking actually holds.
+    if (assignedAgentId) {
+      await supabase
+        .from("showing_agents")
+        .update({ last_assigned_at: new Date().toISOString() })
+        .eq("organization_id", organization_id)
+        .eq("user_id", assignedAgentId);
+    }
+
     // ── Block the rest of THIS MARKET at this time slot ────────────────
     // One agent per market — when a time is booked, block it across every
     // property that agent covers, and only those. Other markets have their
-    // own person and stay bookable at the same hour.
+    // own person and stay bookable at the same hour. In a multi-agent org
+    // the market is only full once no agent is left free at that time.
     const bookingUpdate = {
       is_booked: true,
       booked_showing_id: showing.id,
@@ -636,14 +854,19 @@ serve(async (req: Request) => {
       updated_at: new Date().toISOString(),
     };
 
-    await supabase
-      .from("showing_available_slots")
-      .update(bookingUpdate)
-      .eq("organization_id", organization_id)
-      .eq("slot_date", slot_date)
-      .eq("slot_time", slot_time)
-      .in("property_id", marketPropertyIds)
-      .eq("is_booked", false);
+    const marketFullAt = async (time: string) => !usesAgents || !(await freeAgentAt(time, null));
+
+    if (!selfGuided && await marketFullAt(slot_time)) {
+      await supabase
+        .from("showing_available_slots")
+        .update(bookingUpdate)
+        .eq("organization_id", organization_id)
+        .eq("slot_date", slot_date)
+        .eq("slot_time", slot_time)
+        .in("property_id", marketPropertyIds)
+        .neq("id", bookSlot.id)  // an open house keeps its own remaining seats
+        .eq("is_booked", false);
+    }
 
     // Read buffer setting from org settings (default 0 = no buffer)
     const { data: bufferSetting } = await supabase
@@ -655,7 +878,7 @@ serve(async (req: Request) => {
 
     const bufferMinutes = bufferSetting?.value != null ? Number(bufferSetting.value) : 0;
 
-    if (bufferMinutes > 0) {
+    if (bufferMinutes > 0 && !selfGuided) {
       const [hStr, mStr] = slot_time.split(":");
       const h = parseInt(hStr, 10);
       const m = parseInt(mStr, 10);
@@ -668,6 +891,7 @@ serve(async (req: Request) => {
         const bM = totalMin % 60;
         if (bH >= 24) break;
         const bufferTime = `${String(bH).padStart(2, "0")}:${String(bM).padStart(2, "0")}:00`;
+        if (!(await marketFullAt(bufferTime))) continue;
         await supabase
           .from("showing_available_slots")
           .update(bookingUpdate)
@@ -685,6 +909,7 @@ serve(async (req: Request) => {
         const beforeH = Math.floor(beforeTotal / 60);
         const beforeM = beforeTotal % 60;
         const bufferBefore = `${String(beforeH).padStart(2, "0")}:${String(beforeM).padStart(2, "0")}:00`;
+        if (!(await marketFullAt(bufferBefore))) continue;
         await supabase
           .from("showing_available_slots")
           .update(bookingUpdate)
@@ -705,6 +930,25 @@ serve(async (req: Request) => {
       })
       .eq("id", leadId);
 
+    // ── Self-guided: issue the time-boxed door code ────────────────────
+    let accessCode: { code: string; validFrom: Date; validUntil: Date } | null = null;
+    if (selfGuided) {
+      try {
+        accessCode = await issueShowingAccessCode(supabase as unknown as AccessCodeClient, {
+          organizationId: organization_id,
+          showingId: showing.id,
+          propertyId: property_id,
+          lockId: property.lockbox_id ?? null,
+          scheduledAt,
+          durationMinutes,
+        });
+      } catch (codeErr) {
+        // The booking stands; the email says the code is coming and staff
+        // are told below to send it by hand.
+        console.error("Access code issue failed:", (codeErr as Error)?.message);
+      }
+    }
+
     // ── Schedule Samuel confirmation task (24h before showing) ────────
     // Skip if the showing is < 24h away — confirmation email would already be
     // overdue and would fire immediately, surprising the user who just booked.
@@ -729,6 +973,31 @@ serve(async (req: Request) => {
       });
     }
 
+    // ── High no-show risk: one more touch, a few hours before ───────────
+    // On top of the 24h confirmation, never instead of it (the scheduler
+    // ignores this one when looking for a pending confirmation).
+    const riskTouchTime = new Date(showingDate.getTime() - RISK_TOUCH_HOURS * 60 * 60 * 1000);
+    if (risk.level === "high" && riskTouchTime.getTime() > Date.now()) {
+      await supabase.from("agent_tasks").insert({
+        organization_id,
+        lead_id: leadId,
+        agent_type: "showing_confirmation",
+        action_type: "email",
+        scheduled_for: riskTouchTime.toISOString(),
+        max_attempts: 1,
+        status: "pending",
+        context: {
+          showing_id: showing.id,
+          property_id,
+          property_address: propertyAddress,
+          scheduled_at: scheduledAt,
+          source: "website",
+          trigger: "no_show_risk",
+          risk_score: risk.score,
+        },
+      });
+    }
+
     // ── Send confirmation email (if lead has email) ───────────────────
     // Track the outcome so callers (e.g. the Telegram bot) can report back
     // whether the tenant actually got a confirmation.
@@ -746,6 +1015,27 @@ serve(async (req: Request) => {
           timezone: propTz,
         };
 
+        // No secret configured → no links; the email falls back to "call us".
+        let manageUrl: string | null = null;
+        let checkoutUrl: string | null = null;
+        if (TOKEN_SECRET) {
+          const { data: domainSetting } = await supabase
+            .from("organization_settings")
+            .select("value").eq("organization_id", organization_id).eq("key", "sender_domain").maybeSingle();
+          const appDomain = String(
+            domainSetting?.value ?? "rentfindercleveland.com",
+          ).replace(/^"|"$/g, "").replace(/^https?:\/\//, "").trim() || "rentfindercleveland.com";
+          const manageExp = Math.floor(new Date(scheduledAt).getTime() / 1000) + 30 * 86400;
+          const manageToken = await signShowingToken(showing.id, "manage", manageExp);
+          manageUrl = `https://${appDomain}/showing/manage?t=${encodeURIComponent(manageToken)}`;
+          if (selfGuided) {
+            const checkoutToken = await signShowingToken(showing.id, "checkout", manageExp);
+            checkoutUrl = `https://${appDomain}/showing/checkout?t=${encodeURIComponent(checkoutToken)}`;
+          }
+        }
+        const windowTime = (d: Date) =>
+          d.toLocaleTimeString("en-US", { timeZone: propTz, hour: "numeric", minute: "2-digit" });
+
         const emailResp = await fetch(`${supabaseUrl}/functions/v1/send-notification-email`, {
           method: "POST",
           headers: {
@@ -768,6 +1058,18 @@ serve(async (req: Request) => {
               duration: durationMinutes,
               googleCalUrl: buildGoogleCalUrl(calData),
               icsDataUri: buildIcsDataUri(calData),
+              manageUrl,
+              openHouse,
+              selfGuided: selfGuided
+                ? {
+                  code: accessCode?.code ?? null,
+                  windowText: accessCode
+                    ? `from ${windowTime(accessCode.validFrom)} to ${windowTime(accessCode.validUntil)} on ${formatDateHuman(slot_date, propTz)}`
+                    : "",
+                  instructions: property.self_guided_instructions ?? null,
+                  checkoutUrl,
+                }
+                : null,
               brandName,
               primaryColor,
               accentColor,
@@ -932,39 +1234,14 @@ serve(async (req: Request) => {
 
     // ── Telegram notification ─────────────────────────────────────────
     try {
-      const [{ data: creds }, { data: leasingSettings }] = await Promise.all([
-        supabase
-          .from("organization_credentials")
-          .select("telegram_bot_token, telegram_chat_id, telegram_route_bot_token, telegram_route_chat_id")
-          .eq("organization_id", organization_id)
-          .single(),
-        // Legacy fallback only — route creds moved into organization_credentials.
-        supabase
-          .from("organization_settings")
-          .select("key, value")
-          .eq("organization_id", organization_id)
-          .in("key", ["telegram_route_bot_token", "telegram_route_chat_id"]),
-      ]);
-
-      const unwrapVal = (v: any) => {
-        if (v == null) return undefined;
-        try { const p = JSON.parse(String(v)); return typeof p === "string" ? p : String(v); }
-        catch { return String(v); }
-      };
-      const lm = new Map((leasingSettings || []).map((s: any) => [s.key, unwrapVal(s.value)]));
       // "New Showing Booked!" alerts go to LeasingAgent (the showings/scheduling
-      // bot). Pair token+chat atomically; fall back to the general (RFC) bot
-      // only if the route pair is missing.
-      const lTok = creds?.telegram_route_bot_token || lm.get("telegram_route_bot_token");
-      const lChat = creds?.telegram_route_chat_id || lm.get("telegram_route_chat_id");
-      const useLeasing = !!lTok && !!lChat;
-      const botToken = useLeasing ? lTok : creds?.telegram_bot_token;
-      const chatId = useLeasing ? lChat : creds?.telegram_chat_id;
+      // bot), falling back to the general (RFC) bot.
+      const bot = await showingsBotFor(supabase, organization_id);
 
       // Skip the alert for bookings made THROUGH the bot — the user already got
       // an inline "✅ Showing agendado" confirmation in that same LeasingAgent
       // thread, so a second "New Showing Booked!" would just be a duplicate.
-      if (botToken && chatId && effBookingSource !== "telegram_bot") {
+      if (bot && effBookingSource !== "telegram_bot") {
         const tz = getTimezoneForCity(property?.city || null);
         const dateHuman = formatDateHuman(slot_date, tz);
         const timeHuman = formatTimeHuman(slot_time);
@@ -995,16 +1272,25 @@ serve(async (req: Request) => {
             ? "Payment not specified"
             : has_voucher ? "Housing voucher" : "Self-pay"}`,
           ...(visitorNote ? [``, `📝 <i>${escapeHtml(visitorNote)}</i>`] : []),
+          ...(openHouse ? [`👥 Open house (up to ${bookSlot.capacity} renters)`] : []),
+          ...(risk.level === "high"
+            ? [`⚠️ High no-show risk (${risk.score})${holdForSecond ? " — slot left open for a second renter" : ""}`]
+            : []),
+          ...(selfGuided
+            ? [accessCode
+              ? `🔑 Self-guided — door code sent to the renter`
+              : `⚠️ Self-guided — the door code could NOT be issued. Send it by hand.`]
+            : []),
           `🔗 Source: ${escapeHtml(effBookingSource === "telegram_bot" ? "Telegram bot" : "Public booking page")}`,
           ``,
           `🗺 <a href="https://www.google.com/maps/search/?api=1&query=${mapsQuery}">Open in Google Maps</a>`,
         ].join("\n");
 
-        await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+        await fetch(`https://api.telegram.org/bot${bot.botToken}/sendMessage`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            chat_id: chatId,
+            chat_id: bot.chatId,
             text: msg,
             parse_mode: "HTML",
             disable_web_page_preview: true,
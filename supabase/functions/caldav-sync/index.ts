@@ -0,0 +1,319 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { ADMIN_ROLES, authorizeCaller } from "../_shared/auth.ts";
+import { getTimezoneForCity } from "../_shared/generated/cityTimezone.ts";
+import {
+  CalDavError, deleteEvent, fetchBusyBlocks, overlapsBusy, putEvent, showingEventUid, zonedToUtc,
+  type CalDavCalendar,
+} from "../_shared/caldav.ts";
+
+// caldav-sync — two-way sync between showings and each agent's own calendar
+// (agent_calendars). Per calendar:
+//
+//   1. their busy time for the next SYNC_DAYS → agent_busy_blocks (times
+//      only, never what the appointment is);
+//   2. their upcoming showings → events in that calendar; a moved tour is
+//      rewritten, a cancelled or reassigned one deleted.
+//
+// Then, per org, open slots that overlap busy time are closed
+// (closed_by_calendar) and slots it closed whose busy time is gone reopen.
+// With showing agents a slot only closes when nobody else is free for it.
+//
+// Cron-invoked every 10 minutes with the service-role key; admins can run
+// it by hand ({ calendar_id } to sync just one, e.g. right after connecting).
+
+const corsHeaders = buildCorsHeaders();
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const SYNC_DAYS = 30;
+// Event writes per calendar per run; the rest go out on the next run.
+const MAX_WRITES_PER_CALENDAR = 60;
+const ACTIVE = ["scheduled", "confirmed"];
+
+interface CalendarRow {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  caldav_url: string;
+  username: string;
+  password: string;
+  markets: string[];
+}
+
+interface ShowingRow {
+  id: string;
+  scheduled_at: string;
+  duration_minutes: number | null;
+  status: string;
+  leasing_agent_id: string | null;
+  leads: { full_name: string | null; phone: string | null } | null;
+  properties: { address: string; unit_number: string | null; city: string | null; market: string | null } | null;
+}
+
+const SHOWING_SELECT =
+  "id, scheduled_at, duration_minutes, status, leasing_agent_id, leads(full_name, phone), properties(address, unit_number, city, market)";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const auth = await authorizeCaller(req, supabase, { roles: ADMIN_ROLES, corsHeaders });
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await req.json().catch(() => ({})) as { calendar_id?: string };
+    let q = supabase
+      .from("agent_calendars")
+      .select("id, organization_id, user_id, caldav_url, username, password, markets")
+      .eq("is_active", true);
+    if (auth.caller.kind === "user") q = q.eq("organization_id", auth.caller.organizationId ?? "");
+    if (body.calendar_id) q = q.eq("id", body.calendar_id);
+    const { data: calendars, error: calErr } = await q;
+    if (calErr) throw calErr;
+    if (!calendars?.length) return json({ success: true, calendars: 0 });
+
+    const now = new Date();
+    const until = new Date(now.getTime() + SYNC_DAYS * 24 * 60 * 60 * 1000);
+    const agentOrgs = new Map<string, boolean>();
+    const results: { calendar_id: string; busy: number; written: number; removed: number; error?: string }[] = [];
+
+    for (const row of calendars as CalendarRow[]) {
+      if (!agentOrgs.has(row.organization_id)) {
+        const { data } = await supabase.rpc("org_uses_showing_agents", { p_org: row.organization_id });
+        agentOrgs.set(row.organization_id, data === true);
+      }
+      const cal: CalDavCalendar = { url: row.caldav_url, username: row.username, password: row.password };
+      try {
+        // ── 1. Busy time in ──────────────────────────────────────────────
+        const blocks = await fetchBusyBlocks(cal, now, until);
+        const { error: delErr } = await supabase.from("agent_busy_blocks").delete().eq("calendar_id", row.id);
+        if (delErr) throw delErr;
+        if (blocks.length) {
+          const { error: insErr } = await supabase.from("agent_busy_blocks").insert(
+            blocks.map((b) => ({
+              organization_id: row.organization_id,
+              calendar_id: row.id,
+              user_id: row.user_id,
+              starts_at: b.start.toISOString(),
+              ends_at: b.end.toISOString(),
+            })),
+          );
+          if (insErr) throw insErr;
+        }
+
+        // ── 2. Showings out ──────────────────────────────────────────────
+        const { written, removed } = await writeShowings(supabase, row, cal, agentOrgs.get(row.organization_id)!, now, until);
+
+        await supabase
+          .from("agent_calendars")
+          .update({ last_synced_at: new Date().toISOString(), last_error: null })
+          .eq("id", row.id);
+        results.push({ calendar_id: row.id, busy: blocks.length, written, removed });
+      } catch (err) {
+        // One agent's wrong password must not stop everyone else's sync.
+        const message = err instanceof CalDavError && (err.status === 401 || err.status === 403)
+          ? "The calendar refused the username or password."
+          : (err as Error).message;
+        console.error(`caldav-sync: calendar ${row.id} failed:`, message);
+        await supabase.from("agent_calendars").update({ last_error: message.slice(0, 500) }).eq("id", row.id);
+        results.push({ calendar_id: row.id, busy: 0, written: 0, removed: 0, error: message });
+      }
+    }
+
+    // ── 3. Slots ─────────────────────────────────────────────────────────
+    let closed = 0;
+    let reopened = 0;
+    for (const [orgId, usesAgents] of agentOrgs) {
+      const r = await syncSlots(supabase, orgId, usesAgents, now, until);
+      closed += r.closed;
+      reopened += r.reopened;
+    }
+
+    console.log(`caldav-sync: ${calendars.length} calendars, ${closed} slots closed, ${reopened} reopened`);
+    return json({ success: true, calendars: results, closed, reopened });
+  } catch (err) {
+    const error = err as Error;
+    console.error("caldav-sync error:", error);
+    return json({ success: false, error: error.message }, 500);
+  }
+});
+
+async function writeShowings(
+  supabase: SupabaseClient, cal: CalendarRow, dav: CalDavCalendar, usesAgents: boolean, now: Date, until: Date,
+): Promise<{ written: number; removed: number }> {
+  // What this calendar should hold: the agent's own tours (showing agents),
+  // or every tour in the calendar's markets (one person per market).
+  let q = supabase
+    .from("showings")
+    .select(SHOWING_SELECT)
+    .eq("organization_id", cal.organization_id)
+    .in("status", ACTIVE)
+    .gte("scheduled_at", now.toISOString())
+    .lt("scheduled_at", until.toISOString())
+    .or("is_demo.is.null,is_demo.eq.false");
+  if (usesAgents) q = q.eq("leasing_agent_id", cal.user_id);
+  const { data: wanted, error } = await q;
+  if (error) throw error;
+  const inScope = ((wanted || []) as ShowingRow[]).filter((s) =>
+    usesAgents || cal.markets.length === 0 || cal.markets.includes(s.properties?.market ?? "")
+  );
+
+  const { data: existing } = await supabase
+    .from("showing_calendar_events")
+    .select("showing_id, event_uid, scheduled_at, duration_minutes")
+    .eq("calendar_id", cal.id);
+  const written = new Map<string, { event_uid: string; scheduled_at: string; duration_minutes: number }>(
+    (existing || []).map((e: { showing_id: string; event_uid: string; scheduled_at: string; duration_minutes: number }) =>
+      [e.showing_id, e]),
+  );
+
+  const inScopeIds = new Set(inScope.map((s) => s.id));
+  let writes = 0;
+  let put = 0;
+  for (const s of inScope) {
+    if (writes >= MAX_WRITES_PER_CALENDAR) break;
+    const duration = s.duration_minutes || 30;
+    const prev = written.get(s.id);
+    if (prev && new Date(prev.scheduled_at).getTime() === new Date(s.scheduled_at).getTime()
+      && prev.duration_minutes === duration) continue;
+
+    const uid = showingEventUid(s.id);
+    const start = new Date(s.scheduled_at);
+    const addr = s.properties
+      ? `${s.properties.address}${s.properties.unit_number ? ` #${s.properties.unit_number}` : ""}`
+      : "";
+    const leadName = s.leads?.full_name?.trim() || "Lead";
+    const etag = await putEvent(dav, {
+      uid,
+      start,
+      end: new Date(start.getTime() + duration * 60_000),
+      summary: `Showing — ${leadName} — ${addr || "Showing"}`,
+      location: [addr, s.properties?.city].filter(Boolean).join(", "),
+      description: [`Aplicante: ${leadName}`, s.leads?.phone ? `Tel: ${s.leads.phone}` : null]
+        .filter(Boolean).join("\n"),
+    });
+    await supabase.from("showing_calendar_events").upsert({
+      showing_id: s.id,
+      calendar_id: cal.id,
+      event_uid: uid,
+      scheduled_at: s.scheduled_at,
+      duration_minutes: duration,
+      etag,
+      synced_at: new Date().toISOString(),
+    }, { onConflict: "showing_id,calendar_id" });
+    writes++;
+    put++;
+  }
+
+  // Left over: events for tours that were cancelled, moved out of the
+  // window, or handed to someone else. Tours already past keep theirs.
+  let removed = 0;
+  const stale = [...written.entries()]
+    .filter(([showingId, e]) => !inScopeIds.has(showingId) && new Date(e.scheduled_at) >= now);
+  for (const [showingId, e] of stale) {
+    if (writes >= MAX_WRITES_PER_CALENDAR) break;
+    await deleteEvent(dav, e.event_uid);
+    await supabase.from("showing_calendar_events").delete().eq("showing_id", showingId).eq("calendar_id", cal.id);
+    writes++;
+    removed++;
+  }
+  return { written: put, removed };
+}
+
+interface SlotRow {
+  id: string;
+  property_id: string;
+  slot_date: string;
+  slot_time: string;
+  duration_minutes: number;
+  is_enabled: boolean;
+  is_booked: boolean;
+  closed_by_calendar: boolean;
+  properties: { market: string | null; city: string | null } | null;
+}
+
+async function syncSlots(
+  supabase: SupabaseClient, orgId: string, usesAgents: boolean, now: Date, until: Date,
+): Promise<{ closed: number; reopened: number }> {
+  const today = now.toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+  const lastDay = until.toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+
+  const [{ data: slots }, { data: blocks }] = await Promise.all([
+    supabase
+      .from("showing_available_slots")
+      .select("id, property_id, slot_date, slot_time, duration_minutes, is_enabled, is_booked, closed_by_calendar, properties(market, city)")
+      .eq("organization_id", orgId)
+      .gte("slot_date", today)
+      .lte("slot_date", lastDay)
+      .eq("is_booked", false)
+      .or("is_enabled.eq.true,closed_by_calendar.eq.true")
+      .limit(5000),
+    supabase
+      .from("agent_busy_blocks")
+      .select("starts_at, ends_at, agent_calendars!inner(markets, is_active)")
+      .eq("organization_id", orgId)
+      .eq("agent_calendars.is_active", true),
+  ]);
+
+  const busy = ((blocks || []) as { starts_at: string; ends_at: string; agent_calendars: { markets: string[] } }[])
+    .map((b) => ({ start: new Date(b.starts_at), end: new Date(b.ends_at), markets: b.agent_calendars?.markets ?? [] }));
+
+  const close: string[] = [];
+  const reopen: string[] = [];
+  for (const s of (slots || []) as SlotRow[]) {
+    const start = zonedToUtc(s.slot_date, s.slot_time, getTimezoneForCity(s.properties?.city));
+    if (start < now) continue;
+    const end = new Date(start.getTime() + (s.duration_minutes || 30) * 60_000);
+    const market = s.properties?.market ?? "";
+
+    let isBusy: boolean;
+    if (usesAgents) {
+      // Someone being busy only matters when nobody else can take it.
+      isBusy = overlapsBusy(start, end, busy) && !(await freeAgent(supabase, orgId, market, s, start));
+    } else {
+      isBusy = overlapsBusy(start, end, busy.filter((b) => b.markets.length === 0 || b.markets.includes(market)));
+    }
+
+    if (isBusy && s.is_enabled) close.push(s.id);
+    else if (!isBusy && s.closed_by_calendar) reopen.push(s.id);
+  }
+
+  const stamp = new Date().toISOString();
+  if (close.length) {
+    await supabase
+      .from("showing_available_slots")
+      .update({ is_enabled: false, closed_by_calendar: true, updated_at: stamp })
+      .in("id", close)
+      .eq("is_booked", false);
+  }
+  if (reopen.length) {
+    await supabase
+      .from("showing_available_slots")
+      .update({ is_enabled: true, closed_by_calendar: false, updated_at: stamp })
+      .in("id", reopen)
+      .eq("closed_by_calendar", true);
+  }
+  return { closed: close.length, reopened: reopen.length };
+}
+
+async function freeAgent(supabase: SupabaseClient, orgId: string, market: string, s: SlotRow, start: Date): Promise<boolean> {
+  const { data } = await supabase.rpc("next_showing_agent", {
+    p_org: orgId,
+    p_market: market || null,
+    p_slot_date: s.slot_date,
+    p_slot_time: s.slot_time,
+    p_scheduled_at: start.toISOString(),
+    p_duration_minutes: s.duration_minutes || 30,
+    p_group_property: null,
+  });
+  return !!data;
+}
+
+function json(payload: unknown, status = 200) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
@@ -1,9 +1,10 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildCorsHeaders } from '../_shared/cors.ts'
+import { toE164 } from '../_shared/phone.ts'
+import { leadAuditOptions } from '../_shared/leadAudit.ts'
+import { bearerToken, isServiceRoleToken } from '../_shared/auth.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+const corsHeaders = buildCorsHeaders();
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -22,15 +23,6 @@ interface LeadCaptureRequest {
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
-/** Normalize a US phone to E.164 (+1XXXXXXXXXX). Returns null if not 10/11 digits. */
-function toE164(raw: unknown): string | null {
-  if (typeof raw !== 'string') return null
-  const d = raw.replace(/\D/g, '')
-  if (d.length === 10) return `+1${d}`
-  if (d.length === 11 && d.startsWith('1')) return `+${d}`
-  return null
-}
-
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -38,7 +30,7 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, leadAuditOptions({ source: 'capture_lead' }))
 
     // ── Auth gate (service-role only) ───────────────────────────────────────
     // This endpoint hard-asserts TCPA consent for whatever phone is posted and
@@ -47,9 +39,7 @@ Deno.serve(async (req) => {
     // surface: an anonymous request could fabricate consent evidence for any
     // victim number and mass-create consent-stamped spam leads. Require the
     // service-role key so only internal automation can invoke it.
-    const anonKey = Deno.env.get('SUPABASE_ANON_KEY') || ''
-    const callerToken = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '').trim()
-    if (!callerToken || callerToken === anonKey || callerToken !== supabaseServiceKey) {
+    if (!isServiceRoleToken(bearerToken(req), supabaseServiceKey)) {
       return new Response(
         JSON.stringify({ error: 'Unauthorized' }),
         { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -1,9 +1,8 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buildCorsHeaders } from '../_shared/cors.ts'
+import { ADMIN_ROLES, authorizeCaller } from '../_shared/auth.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+const corsHeaders = buildCorsHeaders()
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -15,26 +14,8 @@ Deno.serve(async (req) => {
   }
 
   // ── Require service-role or admin authenticated caller ─────────
-  {
-    const _srk = supabaseServiceKey;
-    const _ak = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const _tok = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "").trim();
-    if (_tok !== _srk) {
-      if (!_tok || _tok === _ak) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-      const _sb = createClient(supabaseUrl, _srk);
-      const { data: _auth } = await _sb.auth.getUser(_tok);
-      if (!_auth?.user) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-      const { data: _u } = await _sb.from("users").select("role, is_active").eq("auth_user_id", _auth.user.id).maybeSingle();
-      if (!_u || _u.is_active === false || !["super_admin","admin"].includes(_u.role || "")) {
-        return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-    }
-  }
-
+  const auth = await authorizeCaller(req, createClient(supabaseUrl, supabaseServiceKey), { roles: ADMIN_ROLES, corsHeaders })
+  if (auth.response) return auth.response
 
   try {
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
@@ -1,12 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
 
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
@@ -39,7 +34,7 @@ serve(async (req: Request) => {
     }
 
     // Service role client (for admin operations)
-    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "delete_user" }));
 
     // ── 2. Get caller's user record and verify admin/super_admin ────
     const { data: callerRecord, error: callerErr } = await supabase
@@ -1,12 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { authorizeCaller } from "../_shared/auth.ts";
 
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
@@ -34,37 +29,9 @@ serve(async (req: Request) => {
     // Runs with the service role and calls paid OpenAI + books cost — reject anon callers.
     // Accept an internal service-role call OR a logged-in user; reject anon/invalid tokens.
     // For user callers, FORCE the org from THEIR record (ignore any body-supplied value).
-    const authHeader = req.headers.get("Authorization") || "";
-    const callerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
-    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const isServiceRole = callerToken.length > 0 && callerToken === serviceRoleKey;
-    if (!isServiceRole) {
-      if (!callerToken || callerToken === anonKey) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: authData, error: authErr } = await supabase.auth.getUser(callerToken);
-      if (authErr || !authData?.user) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: callerRec } = await supabase
-        .from("users")
-        .select("organization_id, is_active")
-        .eq("auth_user_id", authData.user.id)
-        .single();
-      if (!callerRec || callerRec.is_active === false || !callerRec.organization_id) {
-        return new Response(
-          JSON.stringify({ error: "Forbidden" }),
-          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      organization_id = callerRec.organization_id;
-    }
+    const auth = await authorizeCaller(req, supabase, { requireOrganization: true, serviceRoleKey, corsHeaders });
+    if (auth.response) return auth.response;
+    if (auth.caller.kind === "user") organization_id = auth.caller.organizationId!;
 
     if (!organization_id) {
       return new Response(
@@ -1,10 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { authorizeCaller } from "../_shared/auth.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+const corsHeaders = buildCorsHeaders();
 
 interface PropertyMetrics {
   address: string;
@@ -239,39 +238,10 @@ serve(async (req) => {
     // ── Authenticate caller ───────────────────────────────────────
     // Reject anon (this emails an investor). Accept service-role or a logged-in user,
     // whose org is forced from their record (never trusted from the body).
-    const authHeader = req.headers.get("Authorization") || "";
-    const callerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
-    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const isServiceRole = callerToken.length > 0 && callerToken === serviceRoleKey;
-
-    if (!isServiceRole) {
-      if (!callerToken || callerToken === anonKey) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: authData, error: authErr } = await supabase.auth.getUser(callerToken);
-      if (authErr || !authData?.user) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: callerRec } = await supabase
-        .from("users")
-        .select("organization_id, is_active")
-        .eq("auth_user_id", authData.user.id)
-        .single();
-      if (!callerRec || callerRec.is_active === false || !callerRec.organization_id) {
-        return new Response(
-          JSON.stringify({ error: "Forbidden" }),
-          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      organization_id = callerRec.organization_id;
-    }
+    const auth = await authorizeCaller(req, supabase, { requireOrganization: true, serviceRoleKey, corsHeaders });
+    if (auth.response) return auth.response;
+    if (auth.caller.kind === "user") organization_id = auth.caller.organizationId!;
 
     // 1. Get investor info (scoped to caller's org)
     const { data: investor, error: investorError } = await supabase
@@ -317,7 +287,6 @@ serve(async (req) => {
       .eq("investor_id", investor_id)
       .eq("organization_id", organization_id);
 
-
     const propertyIds = access?.map((a) => a.property_id) || [];
 
     if (propertyIds.length === 0) {
@@ -1,12 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { authorizeCaller } from "../_shared/auth.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
 
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
@@ -15,7 +11,7 @@ serve(async (req: Request) => {
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "generate_lead_brief" }));
 
   let lead_id = "";
   try {
@@ -32,39 +28,9 @@ serve(async (req: Request) => {
 
     // ── Authenticate caller ───────────────────────────────────────
     // This runs with the service role and calls paid AI — reject anonymous callers.
-    const authHeader = req.headers.get("Authorization") || "";
-    const callerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
-    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const isServiceRole = callerToken.length > 0 && callerToken === serviceRoleKey;
-
-    let callerOrgId: string | null = null;
-    if (!isServiceRole) {
-      if (!callerToken || callerToken === anonKey) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: authData, error: authErr } = await supabase.auth.getUser(callerToken);
-      if (authErr || !authData?.user) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: callerRec } = await supabase
-        .from("users")
-        .select("organization_id, is_active")
-        .eq("auth_user_id", authData.user.id)
-        .single();
-      if (!callerRec || callerRec.is_active === false || !callerRec.organization_id) {
-        return new Response(
-          JSON.stringify({ error: "Forbidden" }),
-          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      callerOrgId = callerRec.organization_id;
-    }
+    const auth = await authorizeCaller(req, supabase, { requireOrganization: true, serviceRoleKey, corsHeaders });
+    if (auth.response) return auth.response;
+    const callerOrgId = auth.caller.kind === "user" ? auth.caller.organizationId : null;
 
     // ── Gather all lead data (scoped by caller org for non-service-role) ──
     let leadQuery = supabase.from("leads").select("*").eq("id", lead_id);
@@ -78,7 +44,6 @@ serve(async (req: Request) => {
       );
     }
 
-
     // Get recent calls
     const { data: calls } = await supabase
       .from("calls")
@@ -1,11 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, x-import-secret",
-};
+const corsHeaders = buildCorsHeaders({ extraHeaders: ["x-import-secret"] });
 
 // Allowlisted public listing-photo hosts (SSRF guard). Hemlane S3 + AppFolio CDN
 // (showmetherent syndicates AppFolio) + Zillow static photos.
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
 
 // Recurring re-sync of the org's live Hemlane inventory (price / availability /
 // HCV / attributes) into `properties`, via Hemlane's public ownerListings GraphQL
@@ -30,11 +31,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 // matching is only a best-effort fallback to LINK a new listing, and ambiguous
 // keys are excluded from the fallback rather than guessed.
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, x-sync-secret",
-};
+const corsHeaders = buildCorsHeaders({ extraHeaders: ["x-sync-secret"] });
 
 const HEMLANE_GQL = "https://api.hemlane.com/graphql";
 const HEMLANE_HEADERS = {
@@ -0,0 +1,176 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { toE164 } from "../_shared/phone.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
+
+// join-showing-waitlist — public "Tell me when a time opens" on the booking
+// page of a home with no open slots. Puts the visitor on that home's
+// showing_waitlist; send-showing-waitlist writes to them when a slot opens.
+// The email they get is the answer to what they asked for (one home, one
+// message per opening), so no marketing consent is taken or required.
+// Org is taken from the property — never trusted from the client.
+
+const corsHeaders = buildCorsHeaders();
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+interface WaitlistBody {
+  property_id: string;
+  email: string;
+  full_name?: string;
+  phone?: string;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceKey, leadAuditOptions({ source: "join_showing_waitlist" }));
+    const body = (await req.json()) as WaitlistBody;
+
+    const email = (body.email || "").trim().toLowerCase();
+    const fullName = (body.full_name || "").trim().slice(0, 120);
+    const phone = toE164(body.phone);
+    if (!UUID_RE.test(body.property_id || "")) return json({ error: "Unknown home." }, 400);
+    if (!email || !EMAIL_RE.test(email)) {
+      return json({ error: "Please enter a valid email address." }, 400);
+    }
+
+    const { data: property } = await supabase
+      .from("properties")
+      .select("id, organization_id, address, unit_number, status")
+      .eq("id", body.property_id)
+      .maybeSingle();
+    if (!property || property.status !== "available") {
+      return json({ error: "This home is no longer available." }, 410);
+    }
+    const orgId = property.organization_id;
+    const label = property.unit_number ? `${property.address} #${property.unit_number}` : property.address;
+    const now = new Date().toISOString();
+    const detail = `Showing waitlist: ${label}`;
+
+    // Find-or-create by email within the org. The noah dedup trigger can
+    // cancel the insert (BEFORE INSERT → RETURN NULL), so re-resolve on failure.
+    const findExisting = async () => {
+      const { data } = await supabase
+        .from("leads")
+        .select("id, full_name, phone, source_detail")
+        .eq("organization_id", orgId)
+        .eq("email", email)
+        .order("created_at", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      return data;
+    };
+
+    let leadId: string;
+    let isNewLead = false;
+    const existing = await findExisting();
+
+    if (existing) {
+      leadId = existing.id;
+      const update: Record<string, unknown> = {
+        updated_at: now,
+        last_contact_at: now,
+        last_contact_channel: "web_form",
+        source_detail: existing.source_detail
+          ? `${existing.source_detail} | Also: ${detail}`.slice(0, 2000)
+          : detail,
+      };
+      if (!existing.full_name && fullName) update.full_name = fullName;
+      if (!existing.phone && phone) update.phone = phone;
+      const { error: updateError } = await supabase.from("leads").update(update).eq("id", leadId);
+      if (updateError) console.error("join-showing-waitlist enrichment error:", updateError);
+    } else {
+      const { data: lead, error: leadError } = await supabase
+        .from("leads")
+        .insert({
+          organization_id: orgId,
+          full_name: fullName || null,
+          email,
+          phone,
+          source: "website",
+          source_detail: detail,
+          status: "new",
+        })
+        .select("id")
+        .single();
+
+      if (leadError || !lead) {
+        const raced = await findExisting();
+        if (!raced) {
+          console.error("join-showing-waitlist lead error:", leadError);
+          return json({ error: "Failed to add you to the waitlist." }, 500);
+        }
+        leadId = raced.id;
+      } else {
+        leadId = lead.id;
+        isNewLead = true;
+      }
+    }
+
+    // Still waiting → keep the place in line. Notified / left / booked before
+    // → back of the line, as a fresh entry.
+    const { data: entry } = await supabase
+      .from("showing_waitlist")
+      .select("id, status")
+      .eq("property_id", property.id)
+      .eq("lead_id", leadId)
+      .maybeSingle();
+    if (!entry) {
+      const { error } = await supabase.from("showing_waitlist").insert({
+        organization_id: orgId, property_id: property.id, lead_id: leadId, email,
+      });
+      if (error) {
+        console.error("join-showing-waitlist insert error:", error);
+        return json({ error: "Failed to add you to the waitlist." }, 500);
+      }
+    } else if (entry.status !== "waiting") {
+      const { error } = await supabase
+        .from("showing_waitlist")
+        .update({ status: "waiting", email, created_at: now, notified_at: null })
+        .eq("id", entry.id);
+      if (error) {
+        console.error("join-showing-waitlist rejoin error:", error);
+        return json({ error: "Failed to add you to the waitlist." }, 500);
+      }
+    }
+
+    const { data: queue } = await supabase
+      .from("showing_waitlist")
+      .select("lead_id")
+      .eq("property_id", property.id)
+      .eq("status", "waiting")
+      .order("created_at", { ascending: true });
+    const position = (queue || []).findIndex((w) => w.lead_id === leadId) + 1;
+
+    if (isNewLead) {
+      try {
+        await fetch(`${supabaseUrl}/functions/v1/telegram-notify`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${serviceKey}` },
+          body: JSON.stringify({
+            channel: "report", event: "new_lead",
+            payload: { name: fullName || email, source: "website (showing waitlist)", interest: label },
+          }),
+        });
+      } catch (_) { /* ignore */ }
+    }
+
+    return json({ ok: true, position: position || null }, 200);
+  } catch (e) {
+    console.error("join-showing-waitlist error:", e);
+    return json({ error: "Unexpected error." }, 500);
+  }
+});
+
+function json(payload: unknown, status: number) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
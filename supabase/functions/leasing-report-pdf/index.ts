@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { buildPdf, san } from "./pdf.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { timingSafeEqual } from "../_shared/crypto.ts";
 
 // leasing-report-pdf — generates a de-identified owner-facing leasing PDF for a
 // building and delivers it to a Telegram chat via sendDocument. Internal-only:
@@ -9,24 +11,9 @@ import { buildPdf, san } from "./pdf.ts";
 // The PDF renderer lives in ./pdf.ts (Montserrat + charts; render locally via
 // scratchpad/pdf-render.ts).
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
-function timingSafeEqual(a: string, b: string): boolean {
-  const enc = new TextEncoder();
-  const aB = enc.encode(a), bB = enc.encode(b);
-  const len = Math.max(aB.length, bB.length);
-  let diff = aB.length ^ bB.length;
-  for (let i = 0; i < len; i++) diff |= (aB[i] ?? 0) ^ (bB[i] ?? 0);
-  return diff === 0;
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
   const json = (o: unknown, status = 200) =>
@@ -1,12 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { neighborhoodOf } from "../_shared/generated/listingAlerts.ts";
+import { summarizeSurveys, type ShowingSurveyRow } from "../_shared/generated/showingSurveys.ts";
 
 const ORG_SLUG = "rent-finder-cleveland";
 const ORG_TZ = "America/New_York";
@@ -290,13 +286,6 @@ serve(async (req) => {
     // with a representative available unit id for the "schedule a showing"
     // link. Cleveland-first in presentation, but not Cleveland-only in data.
     if (payload.mode === "listings") {
-      const ZIP_NEIGHBORHOOD: Record<string, string> = {
-        "44105": "Slavic Village", "44110": "Collinwood", "44108": "Glenville",
-        "44104": "Central / Fairfax", "44103": "Hough", "44120": "Buckeye-Shaker",
-        "44102": "Detroit-Shoreway", "44109": "Old Brooklyn", "44112": "East Cleveland",
-        "44113": "Ohio City / Tremont", "44128": "Lee-Harvard", "44106": "University Circle",
-        "44127": "Kinsman", "44115": "Central",
-      };
       // Status is the only gate. This used to also require state === "OH",
       // which silently dropped the Milwaukee (WI) homes from the public home
       // page — they were listed and active but could never be rendered, and
@@ -327,7 +316,7 @@ serve(async (req) => {
             city: first.city,
             state: first.state,
             zip_code: first.zip_code,
-            neighborhood: ZIP_NEIGHBORHOOD[String(first.zip_code)] || first.city,
+            neighborhood: neighborhoodOf(first.zip_code, first.city),
             units: units.length,
             status: aggregateStatus(units.map((u) => u.status)),
             section_8_accepted: units.some((u) => u.section_8_accepted),
@@ -559,6 +548,31 @@ serve(async (req) => {
       }))
       .sort((a, b) => (b.date || "").localeCompare(a.date || ""));
 
+    // Renters' own answers from the post-tour survey. Ratings are anonymous
+    // by nature; the free text is the one place a renter can type a name,
+    // phone or email, so it is redacted — respondents' names included.
+    const { data: surveyRows } = await supabase
+      .from("showing_surveys")
+      .select("lead_id, condition_rating, price_perception, neighborhood_fit, apply_likelihood, comments, submitted_at")
+      .eq("organization_id", orgId)
+      .in("property_id", unitIds)
+      .order("submitted_at", { ascending: false })
+      .limit(1000);
+    let tourFeedback: ReturnType<typeof summarizeSurveys> | null = null;
+    if (surveyRows?.length) {
+      const surveyLeadIds = [...new Set(
+        surveyRows.filter((r) => r.comments && r.lead_id).map((r) => r.lead_id as string),
+      )];
+      const { data: surveyLeads } = surveyLeadIds.length
+        ? await supabase.from("leads").select("full_name").eq("organization_id", orgId).in("id", surveyLeadIds)
+        : { data: [] };
+      tourFeedback = summarizeSurveys(surveyRows as ShowingSurveyRow[], {
+        maxComments: 10,
+        redact: true,
+        names: (surveyLeads || []).map((l) => String(l.full_name || "")),
+      });
+    }
+
     // ── Leasing effort (owner-facing) ───────────────────────────────────────
     // The tracker used to show only OUTCOMES, so every call, follow-up, SMS and
     // email was invisible and a worked property looked idle. `leasing_activity`
@@ -766,6 +780,7 @@ serve(async (req) => {
       showings_by_status: showingsByStatus,
       showings_timeline: timeline,
       agent_comments: agentComments,
+      tour_feedback: tourFeedback,
       leasing_activity: leasingActivity,
       open_slots: {
         upcoming_count: openUpcoming,
@@ -3,12 +3,7 @@
 // an admin/super_admin in their own organization, and returns non-secret
 // metadata (which keys are configured + masked last-4) or performs writes.
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
 
 const SECRET_FIELDS = new Set([
   "twilio_account_sid",
@@ -0,0 +1,509 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { buildScheduledAt, getTimezoneForCity } from "../_shared/generated/cityTimezone.ts";
+import { verifyShowingToken } from "../_shared/token.ts";
+import { notifyShowingsBot } from "../_shared/telegram.ts";
+import {
+  issueShowingAccessCode, revokeShowingAccessCodes, type AccessCodeClient,
+} from "../_shared/accessCodes.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
+
+// Reschedule / cancel a booked tour from the link in the confirmation email,
+// without calling the office.
+//
+// The link is minted by book-public-showing: <showingId>.manage.<exp>.<sig>,
+// the same HMAC family as the calendar attendance links. It keeps working
+// after a move — a rescheduled showing points at its replacement through
+// rescheduled_to_id, and the token follows that chain to the live tour.
+//
+// GET describes the tour and lists the property's remaining open slots. Only
+// POST changes anything: mail scanners and link previewers prefetch URLs.
+// Returns JSON — the page lives on the app domain (see showing-attendance for
+// why Supabase will not serve text/html from here).
+//
+// Deploy with --no-verify-jwt (opened from an email, no Supabase session).
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = buildCorsHeaders({ methods: "GET, POST, OPTIONS" });
+
+// How far ahead the page offers new times, and how many.
+const SLOT_WINDOW_DAYS = 14;
+const MAX_SLOTS = 80;
+const ACTIVE_STATUSES = ["scheduled", "confirmed"];
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Today's date and the first bookable minute in `tz`, honouring the org's
+// same-day lead time exactly like the public booking page does.
+function cutoffIn(tz: string, leadTimeMinutes: number): { date: string; minute: number } {
+  const nowInTz = new Date(new Date().toLocaleString("en-US", { timeZone: tz }));
+  const y = nowInTz.getFullYear();
+  const mo = String(nowInTz.getMonth() + 1).padStart(2, "0");
+  const d = String(nowInTz.getDate()).padStart(2, "0");
+  return {
+    date: `${y}-${mo}-${d}`,
+    minute: nowInTz.getHours() * 60 + nowInTz.getMinutes() + leadTimeMinutes,
+  };
+}
+
+function isBookable(slotDate: string, slotTime: string, cutoff: { date: string; minute: number }): boolean {
+  if (slotDate > cutoff.date) return true;
+  if (slotDate < cutoff.date) return false;
+  const [h, m] = slotTime.split(":").map(Number);
+  return h * 60 + m >= cutoff.minute;
+}
+
+function formatWhen(iso: string, tz: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: tz, weekday: "long", month: "long", day: "numeric",
+    hour: "numeric", minute: "2-digit",
+  });
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+interface ShowingRow {
+  id: string;
+  organization_id: string;
+  lead_id: string;
+  property_id: string;
+  scheduled_at: string;
+  duration_minutes: number | null;
+  status: string;
+  rescheduled_to_id: string | null;
+  self_guided: boolean;
+  leads: { full_name: string | null; phone: string | null } | null;
+  properties: {
+    address: string | null; city: string | null; state: string | null;
+    zip_code: string | null; market: string | null; status: string | null;
+    self_guided_instructions: string | null; lockbox_id: string | null;
+  } | null;
+}
+
+const SHOWING_SELECT = `id, organization_id, lead_id, property_id, scheduled_at, duration_minutes,
+  status, rescheduled_to_id, self_guided,
+  leads(full_name, phone),
+  properties(address, city, state, zip_code, market, status, self_guided_instructions, lockbox_id)`;
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const url = new URL(req.url);
+  let token = url.searchParams.get("t") || "";
+  let body: Record<string, unknown> | null = null;
+  if (req.method === "POST") {
+    body = await req.json().catch(() => null);
+    if (body?.t) token = String(body.t);
+  } else if (req.method !== "GET") {
+    return json({ error: "method_not_allowed" }, 405);
+  }
+
+  const parsed = await verifyShowingToken(token, "manage");
+  if (!parsed) return json({ error: "invalid_or_expired" }, 400);
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "manage_showing" }));
+
+  // ── Resolve the live tour: follow rescheduled_to_id from the original ──
+  let showing: ShowingRow | null = null;
+  let nextId: string | null = parsed.showingId;
+  for (let hop = 0; nextId && hop < 10; hop++) {
+    const { data } = await supabase.from("showings").select(SHOWING_SELECT).eq("id", nextId).maybeSingle();
+    if (!data) break;
+    showing = data as unknown as ShowingRow;
+    nextId = showing.status === "rescheduled" ? showing.rescheduled_to_id : null;
+  }
+  if (!showing) return json({ error: "not_found" }, 404);
+
+  const orgId: string = showing.organization_id;
+  const lead = showing.leads || { full_name: null, phone: null };
+  const prop = showing.properties || {
+    address: null, city: null, state: null, zip_code: null, market: null, status: null,
+    self_guided_instructions: null, lockbox_id: null,
+  };
+  const tz = getTimezoneForCity(prop.city || null);
+  const address = [prop.address, prop.city].filter(Boolean).join(", ");
+  const fullAddress = `${prop.address || ""}, ${prop.city || ""}, ${prop.state || ""} ${prop.zip_code || ""}`.trim();
+  const firstName = String(lead.full_name || "").trim().split(/\s+/)[0] || "";
+
+  const showingInfo = {
+    first_name: firstName,
+    address,
+    when: formatWhen(showing.scheduled_at, tz),
+    duration_minutes: showing.duration_minutes || 30,
+  };
+
+  if (!ACTIVE_STATUSES.includes(showing.status)) {
+    return json({ ...showingInfo, state: showing.status === "cancelled" ? "cancelled" : "closed" });
+  }
+  if (new Date(showing.scheduled_at).getTime() <= Date.now()) {
+    return json({ ...showingInfo, state: "closed" });
+  }
+
+  const { data: leadTimeSetting } = await supabase
+    .from("organization_settings")
+    .select("value")
+    .eq("organization_id", orgId)
+    .eq("key", "showing_lead_time_minutes")
+    .maybeSingle();
+  const leadTimeMinutes = leadTimeSetting?.value != null ? Number(leadTimeSetting.value) || 60 : 60;
+  const cutoff = cutoffIn(tz, leadTimeMinutes);
+  const propertyBookable = prop.status === "available";
+
+  // ── GET: describe + offer the remaining open times at this home ────────
+  if (req.method === "GET") {
+    let slots: { id: string; date: string; time: string }[] = [];
+    if (propertyBookable && showing.property_id) {
+      const { data: open } = await supabase
+        .from("showing_available_slots")
+        .select("id, slot_date, slot_time")
+        .eq("organization_id", orgId)
+        .eq("property_id", showing.property_id)
+        .eq("is_enabled", true)
+        .eq("is_booked", false)
+        .gte("slot_date", cutoff.date)
+        .lte("slot_date", addDays(cutoff.date, SLOT_WINDOW_DAYS))
+        .order("slot_date")
+        .order("slot_time")
+        .limit(MAX_SLOTS * 2);
+      slots = (open || [])
+        .filter((s) => isBookable(s.slot_date, s.slot_time, cutoff))
+        .slice(0, MAX_SLOTS)
+        .map((s) => ({ id: s.id, date: s.slot_date, time: s.slot_time }));
+    }
+    return json({ ...showingInfo, state: "manage", can_reschedule: propertyBookable, slots });
+  }
+
+  const action = body?.action;
+  const nowIso = new Date().toISOString();
+  const leadName = String(lead.full_name || "Lead").trim();
+
+  // Pending follow-ups were anchored to this tour's time — they must not fire.
+  const cancelPendingTasks = async (showingId: string) => {
+    const { error } = await supabase
+      .from("agent_tasks")
+      .update({ status: "cancelled" })
+      .eq("organization_id", orgId)
+      .eq("status", "pending")
+      .eq("context->>showing_id", showingId);
+    if (error) console.error("Cancel pending showing tasks failed:", error.message);
+  };
+
+  // Unbook the tour's slot rows (redundant with the status-sync trigger,
+  // kept as belt-and-braces — but at least LOG a failure).
+  const releaseSlots = async (showingId: string) => {
+    const { error } = await supabase
+      .from("showing_available_slots")
+      .update({ is_booked: false, booked_showing_id: null, booked_at: null, updated_at: nowIso })
+      .eq("organization_id", orgId)
+      .eq("booked_showing_id", showingId);
+    if (error) console.error("Slot release failed (trigger should cover it):", error.message);
+  };
+
+  // ── POST cancel ─────────────────────────────────────────────────────────
+  if (action === "cancel") {
+    const { data: cancelled, error } = await supabase
+      .from("showings")
+      .update({ status: "cancelled", cancellation_reason: "Cancelled by lead (self-service link)", cancelled_at: nowIso })
+      .eq("id", showing.id)
+      .in("status", ACTIVE_STATUSES)
+      .select("id");
+    if (error) {
+      console.error("manage-showing cancel failed:", error.message);
+      return json({ error: "save_failed" }, 500);
+    }
+    if (!cancelled?.length) return json({ ...showingInfo, state: "closed" });
+
+    await releaseSlots(showing.id);
+    await cancelPendingTasks(showing.id);
+    if (showing.self_guided) await revokeShowingAccessCodes(supabase as unknown as AccessCodeClient, showing.id);
+
+    await supabase.from("system_logs").insert({
+      organization_id: orgId,
+      level: "info",
+      category: "general",
+      event_type: "showing_cancelled_by_lead",
+      message: `Showing cancelled by lead via email link: ${leadName} at ${address} (${showingInfo.when})`,
+      details: { showing_id: showing.id, lead_id: showing.lead_id, property_id: showing.property_id },
+      related_lead_id: showing.lead_id,
+      related_showing_id: showing.id,
+    });
+
+    await notifyShowingsBot(supabase, orgId, [
+      `❌ <b>Showing Cancelled by Lead</b>`,
+      ``,
+      `📍 <b>${escapeHtml(fullAddress)}</b>`,
+      `📅 ${escapeHtml(showingInfo.when)}`,
+      ``,
+      `👤 <b>${escapeHtml(leadName)}</b>`,
+      `📞 ${escapeHtml(lead.phone || "—")}`,
+      `🔗 Source: Reschedule/cancel link in the confirmation email`,
+    ].join("\n"));
+
+    return json({ ...showingInfo, state: "cancelled" });
+  }
+
+  if (action !== "reschedule") return json({ error: "bad_request" }, 400);
+
+  // ── POST reschedule ─────────────────────────────────────────────────────
+  if (!propertyBookable) return json({ error: "property_unavailable" }, 410);
+  const slotId = typeof body?.slot_id === "string" ? body.slot_id : "";
+  const { data: slot } = await supabase
+    .from("showing_available_slots")
+    .select("id, slot_date, slot_time, duration_minutes, capacity")
+    .eq("id", slotId)
+    .eq("organization_id", orgId)
+    .eq("property_id", showing.property_id)
+    .eq("is_enabled", true)
+    .eq("is_booked", false)
+    .maybeSingle();
+  if (!slot || !isBookable(slot.slot_date, slot.slot_time, cutoff)) {
+    return json({ error: "slot_taken" }, 409);
+  }
+
+  // Market scope and agent capacity — the same rules book-public-showing
+  // applies to a first booking (see there for the reasoning). A self-guided
+  // tour takes no agent, so it skips all of it.
+  const selfGuided = showing.self_guided;
+  // Moving into an open house takes a seat; its other renters are not a conflict.
+  const openHouse = (slot.capacity ?? 1) > 1;
+  let marketPropertyIds: string[] = [showing.property_id];
+  if (prop.market) {
+    const { data: marketProps } = await supabase
+      .from("properties")
+      .select("id")
+      .eq("organization_id", orgId)
+      .eq("market", prop.market);
+    if (marketProps?.length) marketPropertyIds = marketProps.map((p: { id: string }) => p.id);
+  }
+  const { data: usesAgentsData } = await supabase.rpc("org_uses_showing_agents", { p_org: orgId });
+  const usesAgents = usesAgentsData === true;
+  const durationMinutes = slot.duration_minutes || showing.duration_minutes || 30;
+  const scheduledAt = buildScheduledAt(slot.slot_date, slot.slot_time, tz);
+
+  const freeAgentAt = async (time: string, groupPropertyId: string | null): Promise<string | null> => {
+    const { data, error } = await supabase.rpc("next_showing_agent", {
+      p_org: orgId,
+      p_market: prop.market ?? null,
+      p_slot_date: slot.slot_date,
+      p_slot_time: time,
+      p_scheduled_at: buildScheduledAt(slot.slot_date, time, tz),
+      p_duration_minutes: durationMinutes,
+      p_group_property: groupPropertyId,
+    });
+    if (error) console.error("next_showing_agent failed:", error.message);
+    return (data as string | null) ?? null;
+  };
+
+  if (!usesAgents && !selfGuided && !openHouse) {
+    const bookedSibling = await supabase
+      .from("showing_available_slots")
+      .select("id", { count: "exact", head: true })
+      .eq("organization_id", orgId)
+      .eq("slot_date", slot.slot_date)
+      .eq("slot_time", slot.slot_time)
+      .in("property_id", marketPropertyIds)
+      .eq("is_booked", true);
+    if ((bookedSibling.count || 0) > 0) return json({ error: "slot_taken" }, 409);
+  }
+  let assignedAgentId: string | null = null;
+  if (usesAgents && !selfGuided) {
+    assignedAgentId = await freeAgentAt(slot.slot_time, showing.property_id);
+    if (!assignedAgentId) return json({ error: "slot_taken" }, 409);
+  }
+
+  // The replacement is still self-service, so it stays 'public_link' and the
+  // daily cap applies — moving a tour is not a way around it.
+  const { data: moved, error: insertErr } = await supabase
+    .from("showings")
+    .insert({
+      organization_id: orgId,
+      lead_id: showing.lead_id,
+      property_id: showing.property_id,
+      scheduled_at: scheduledAt,
+      duration_minutes: durationMinutes,
+      status: "scheduled",
+      booking_source: "public_link",
+      leasing_agent_id: assignedAgentId,
+      self_guided: selfGuided,
+    })
+    .select("id")
+    .single();
+  if (insertErr || !moved) {
+    const dbMsg = String(insertErr?.message || "");
+    if (dbMsg.includes("showing_daily_cap")) return json({ error: "daily_cap" }, 409);
+    if (dbMsg.includes("showing_lead_conflict")) return json({ error: "lead_conflict" }, 409);
+    if (insertErr?.code === "23505") return json({ error: "slot_taken" }, 409);
+    console.error("manage-showing insert failed:", dbMsg);
+    return json({ error: "save_failed" }, 500);
+  }
+
+  // Claim the slot (or an open-house seat) atomically; lost the race → undo the insert.
+  const bookingUpdate = { is_booked: true, booked_showing_id: moved.id, booked_at: nowIso, updated_at: nowIso };
+  let claimed = false;
+  if (openHouse) {
+    const { data: seat } = await supabase.rpc("claim_open_house_seat", { p_slot: slot.id, p_showing: moved.id });
+    claimed = seat === true;
+  } else {
+    const { data: row } = await supabase
+      .from("showing_available_slots")
+      .update(bookingUpdate)
+      .eq("id", slot.id)
+      .eq("is_booked", false)
+      .select("id")
+      .maybeSingle();
+    claimed = !!row;
+  }
+  if (!claimed) {
+    const { error: rollbackErr } = await supabase.from("showings").delete().eq("id", moved.id);
+    if (rollbackErr) console.error("Failed to roll back showing after lost slot race:", rollbackErr.message);
+    return json({ error: "slot_taken" }, 409);
+  }
+
+  // Retire the old tour and point it at the new one. The status change frees
+  // its slot rows through the sync trigger; releaseSlots is the backstop.
+  const { error: retireErr } = await supabase
+    .from("showings")
+    .update({
+      status: "rescheduled",
+      rescheduled_to_id: moved.id,
+      cancellation_reason: "Rescheduled by lead (self-service link)",
+      cancelled_at: nowIso,
+    })
+    .eq("id", showing.id);
+  if (retireErr) console.error("manage-showing retire failed:", retireErr.message);
+  await releaseSlots(showing.id);
+  await cancelPendingTasks(showing.id);
+
+  // The old door code dies with the old time; the new one is shown on the
+  // page right away (no email goes out for a move).
+  let access: { code: string | null; valid_from: string | null; valid_until: string | null; instructions: string | null } | null = null;
+  if (selfGuided) {
+    const codeClient = supabase as unknown as AccessCodeClient;
+    await revokeShowingAccessCodes(codeClient, showing.id);
+    access = { code: null, valid_from: null, valid_until: null, instructions: prop.self_guided_instructions };
+    try {
+      const issued = await issueShowingAccessCode(codeClient, {
+        organizationId: orgId,
+        showingId: moved.id,
+        propertyId: showing.property_id,
+        lockId: prop.lockbox_id,
+        scheduledAt,
+        durationMinutes,
+      });
+      const clock = (d: Date) => d.toLocaleTimeString("en-US", { timeZone: tz, hour: "numeric", minute: "2-digit" });
+      access = { ...access, code: issued.code, valid_from: clock(issued.validFrom), valid_until: clock(issued.validUntil) };
+    } catch (codeErr) {
+      console.error("Access code issue failed:", (codeErr as Error)?.message);
+    }
+  }
+
+  if (assignedAgentId) {
+    await supabase
+      .from("showing_agents")
+      .update({ last_assigned_at: nowIso })
+      .eq("organization_id", orgId)
+      .eq("user_id", assignedAgentId);
+  }
+
+  // Block the rest of the market at the new time (and its buffer) once it is
+  // full, exactly as a first booking would.
+  const marketFullAt = async (time: string) => !usesAgents || !(await freeAgentAt(time, null));
+  const blockMarketAt = async (time: string) => {
+    if (!(await marketFullAt(time))) return;
+    await supabase
+      .from("showing_available_slots")
+      .update(bookingUpdate)
+      .eq("organization_id", orgId)
+      .eq("slot_date", slot.slot_date)
+      .eq("slot_time", time)
+      .in("property_id", marketPropertyIds)
+      .neq("id", slot.id)
+      .eq("is_booked", false);
+  };
+  if (!selfGuided) await blockMarketAt(slot.slot_time);
+
+  const { data: bufferSetting } = await supabase
+    .from("organization_settings")
+    .select("value")
+    .eq("organization_id", orgId)
+    .eq("key", "buffer_minutes")
+    .maybeSingle();
+  const bufferMinutes = bufferSetting?.value != null ? Number(bufferSetting.value) : 0;
+  if (bufferMinutes > 0 && !selfGuided) {
+    const [h, m] = slot.slot_time.split(":").map(Number);
+    for (let i = 1; i <= Math.ceil(bufferMinutes / 30); i++) {
+      for (const total of [h * 60 + m + i * 30, h * 60 + m - i * 30]) {
+        if (total < 0 || total >= 24 * 60) continue;
+        await blockMarketAt(`${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}:00`);
+      }
+    }
+  }
+
+  // Re-arm the day-before confirmation for the new time (skipped when the
+  // tour is under 24h away, same as a first booking).
+  const confirmationTime = new Date(new Date(scheduledAt).getTime() - 24 * 60 * 60 * 1000);
+  if (confirmationTime.getTime() > Date.now()) {
+    await supabase.from("agent_tasks").insert({
+      organization_id: orgId,
+      lead_id: showing.lead_id,
+      agent_type: "showing_confirmation",
+      action_type: "email",
+      scheduled_for: confirmationTime.toISOString(),
+      max_attempts: 2,
+      status: "pending",
+      context: {
+        showing_id: moved.id,
+        property_id: showing.property_id,
+        property_address: fullAddress,
+        scheduled_at: scheduledAt,
+        source: "website",
+      },
+    });
+  }
+
+  const newWhen = formatWhen(scheduledAt, tz);
+  await supabase.from("system_logs").insert({
+    organization_id: orgId,
+    level: "info",
+    category: "general",
+    event_type: "showing_rescheduled_by_lead",
+    message: `Showing rescheduled by lead via email link: ${leadName} at ${address}, ${showingInfo.when} → ${newWhen}`,
+    details: {
+      showing_id: moved.id,
+      previous_showing_id: showing.id,
+      lead_id: showing.lead_id,
+      property_id: showing.property_id,
+      slot_date: slot.slot_date,
+      slot_time: slot.slot_time,
+    },
+    related_lead_id: showing.lead_id,
+    related_showing_id: moved.id,
+  });
+
+  await notifyShowingsBot(supabase, orgId, [
+    `🔁 <b>Showing Rescheduled by Lead</b>`,
+    ``,
+    `📍 <b>${escapeHtml(fullAddress)}</b>`,
+    `📅 <s>${escapeHtml(showingInfo.when)}</s>`,
+    `📅 <b>${escapeHtml(newWhen)}</b>`,
+    ``,
+    `👤 <b>${escapeHtml(leadName)}</b>`,
+    `📞 ${escapeHtml(lead.phone || "—")}`,
+    `🔗 Source: Reschedule/cancel link in the confirmation email`,
+    ...(access ? [access.code ? `🔑 Self-guided — new door code shown to the renter` : `⚠️ Self-guided — the new door code could NOT be issued. Send it by hand.`] : []),
+  ].join("\n"));
+
+  return json({ ...showingInfo, when: newWhen, previous_when: showingInfo.when, state: "rescheduled", access });
+});
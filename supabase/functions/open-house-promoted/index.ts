@@ -0,0 +1,207 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { getTimezoneForCity } from "../_shared/generated/cityTimezone.ts";
+import { leadTokenSecret, signShowingToken } from "../_shared/token.ts";
+import { notifyShowingsBot } from "../_shared/telegram.ts";
+
+// Tells a waitlisted renter they got an open-house seat.
+//
+// The promotion itself happens in the database (refill_open_house, fired by
+// sync_slot_booking_status when an attendee cancels / no-shows / moves), so
+// every cancel path promotes — manage-showing, the admin panel, Telegram.
+// The trigger then calls this function with {waitlist_id} over pg_net.
+//
+// Idempotent: notified_at is claimed atomically before anything is sent, so
+// a retried or replayed call never mails the renter twice, and a call for an
+// entry that was not promoted does nothing.
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const TOKEN_SECRET = leadTokenSecret();
+
+const corsHeaders = buildCorsHeaders({ methods: "POST, OPTIONS" });
+
+function promotedEmail(data: {
+  firstName: string;
+  address: string;
+  when: string;
+  manageUrl: string | null;
+  brandName: string;
+  primaryColor: string;
+  accentColor: string;
+}) {
+  const primary = data.primaryColor || "#4F46E5";
+  const accent = data.accentColor || "#ffb22c";
+  return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="margin:0;padding:0;background-color:#f3f4f6;font-family:'Helvetica Neue',Arial,sans-serif;">
+  <div style="max-width:600px;margin:0 auto;padding:24px;">
+    <div style="background-color:${primary};padding:20px 24px;border-radius:12px 12px 0 0;">
+      <h1 style="margin:0;color:${accent};font-size:20px;">A Spot Opened Up</h1>
+    </div>
+    <div style="background-color:#ffffff;padding:24px;border-radius:0 0 12px 12px;border:1px solid #e5e5e5;border-top:none;">
+      <p style="margin:0 0 16px;color:#333;font-size:15px;">Hi ${escapeHtml(data.firstName || "there")},</p>
+      <p style="margin:0 0 16px;color:#333;font-size:15px;">
+        Someone gave up their spot at the open house you were waiting for, so <strong>you're booked</strong>:
+      </p>
+      <div style="background:#f9fafb;border-radius:8px;padding:16px;margin:0 0 16px;">
+        <p style="margin:0 0 4px;color:#111;font-size:15px;font-weight:600;">${escapeHtml(data.address)}</p>
+        <p style="margin:0;color:#555;font-size:14px;">${escapeHtml(data.when)}</p>
+      </div>
+      <p style="margin:0 0 16px;color:#555;font-size:14px;">
+        Other renters will tour the home at the same time.
+        ${data.manageUrl
+          ? `Can't make it? <a href="${data.manageUrl}" target="_blank" style="color:${primary};font-weight:600;">Reschedule or cancel</a> — it passes the spot to the next person in line.`
+          : "Can't make it? Reply to this email and we'll pass the spot to the next person in line."}
+      </p>
+      <p style="margin:0;color:#999;font-size:12px;">${escapeHtml(data.brandName)}</p>
+    </div>
+  </div>
+</body>
+</html>`;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  let waitlistId = "";
+  try {
+    waitlistId = String((await req.json())?.waitlist_id || "");
+  } catch {
+    return json({ error: "bad_request" }, 400);
+  }
+  if (!waitlistId) return json({ error: "bad_request" }, 400);
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const { data: entry } = await supabase
+    .from("open_house_waitlist")
+    .update({ notified_at: new Date().toISOString() })
+    .eq("id", waitlistId)
+    .eq("status", "promoted")
+    .is("notified_at", null)
+    .select("id, organization_id, lead_id, showing_id")
+    .maybeSingle();
+  if (!entry?.showing_id) return json({ skipped: true });
+
+  const [{ data: showing }, { data: lead }] = await Promise.all([
+    supabase
+      .from("showings")
+      .select("id, property_id, scheduled_at, status, properties(address, unit_number, city, state, zip_code)")
+      .eq("id", entry.showing_id)
+      .maybeSingle(),
+    supabase.from("leads").select("full_name, first_name, email").eq("id", entry.lead_id).maybeSingle(),
+  ]);
+  if (!showing || !["scheduled", "confirmed"].includes(showing.status)) return json({ skipped: true });
+
+  const property = showing.properties as unknown as {
+    address: string; unit_number: string | null; city: string | null; state: string | null; zip_code: string | null;
+  } | null;
+  const tz = getTimezoneForCity(property?.city || null);
+  const address = property
+    ? `${property.address}${property.unit_number ? ` #${property.unit_number}` : ""}, ${property.city}, ${property.state} ${property.zip_code}`
+    : "the property";
+  const when = new Date(showing.scheduled_at).toLocaleString("en-US", {
+    timeZone: tz, weekday: "long", month: "long", day: "numeric", hour: "numeric", minute: "2-digit",
+  });
+
+  // ── Confirmation task (24h before), as for a direct booking ─────────
+  const confirmationTime = new Date(new Date(showing.scheduled_at).getTime() - 24 * 60 * 60 * 1000);
+  if (confirmationTime.getTime() > Date.now()) {
+    await supabase.from("agent_tasks").insert({
+      organization_id: entry.organization_id,
+      lead_id: entry.lead_id,
+      agent_type: "showing_confirmation",
+      action_type: "email",
+      scheduled_for: confirmationTime.toISOString(),
+      max_attempts: 2,
+      status: "pending",
+      context: {
+        showing_id: showing.id,
+        property_id: showing.property_id,
+        property_address: address,
+        scheduled_at: showing.scheduled_at,
+        source: "open_house_waitlist",
+      },
+    });
+  }
+
+  let emailStatus: "sent" | "no_email" | "failed" = lead?.email ? "failed" : "no_email";
+  if (lead?.email) {
+    try {
+      const [{ data: org }, { data: domainSetting }] = await Promise.all([
+        supabase.from("organizations").select("name, primary_color, accent_color").eq("id", entry.organization_id).maybeSingle(),
+        supabase.from("organization_settings")
+          .select("value").eq("organization_id", entry.organization_id).eq("key", "sender_domain").maybeSingle(),
+      ]);
+      // The same "manage" link book-public-showing puts in the confirmation email.
+      let manageUrl: string | null = null;
+      if (TOKEN_SECRET) {
+        const appDomain = String(
+          domainSetting?.value ?? "rentfindercleveland.com",
+        ).replace(/^"|"$/g, "").replace(/^https?:\/\//, "").trim() || "rentfindercleveland.com";
+        const exp = Math.floor(new Date(showing.scheduled_at).getTime() / 1000) + 30 * 86400;
+        manageUrl = `https://${appDomain}/showing/manage?t=${encodeURIComponent(await signShowingToken(showing.id, "manage", exp))}`;
+      }
+      const resp = await fetch(`${supabaseUrl}/functions/v1/send-notification-email`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          // Service role in both slots — see book-public-showing.
+          Authorization: `Bearer ${serviceRoleKey}`,
+          apikey: serviceRoleKey,
+        },
+        body: JSON.stringify({
+          to: lead.email,
+          subject: `You're in — open house at ${property?.address || "the property"}`,
+          html: promotedEmail({
+            firstName: lead.first_name || (lead.full_name || "").split(" ")[0] || "",
+            address,
+            when,
+            manageUrl,
+            brandName: org?.name || "Property Tours",
+            primaryColor: org?.primary_color || "#4F46E5",
+            accentColor: org?.accent_color || "#ffb22c",
+          }),
+          notification_type: "showing_confirmation",
+          organization_id: entry.organization_id,
+          related_entity_id: showing.id,
+          related_entity_type: "showing",
+          queue: false,
+        }),
+      });
+      if (resp.ok) emailStatus = "sent";
+      else console.error(`Promotion email failed (${resp.status}): ${(await resp.text().catch(() => "")).slice(0, 200)}`);
+    } catch (err) {
+      console.error("Promotion email failed:", (err as Error)?.message);
+    }
+  }
+
+  await supabase.from("system_logs").insert({
+    organization_id: entry.organization_id,
+    level: emailStatus === "failed" ? "warning" : "info",
+    category: "general",
+    event_type: "open_house_waitlist_promoted",
+    message: `Open house waitlist: ${lead?.full_name || "Lead"} promoted at ${address} (email ${emailStatus})`,
+    details: { waitlist_id: entry.id, showing_id: showing.id, property_id: showing.property_id, email: emailStatus },
+    related_lead_id: entry.lead_id,
+    related_showing_id: showing.id,
+  });
+
+  await notifyShowingsBot(supabase, entry.organization_id, [
+    `👥 <b>Open House — Waitlist Promoted</b>`,
+    ``,
+    `👤 ${escapeHtml(lead?.full_name || "Lead")}`,
+    `📍 <b>${escapeHtml(address)}</b>`,
+    `📅 ${escapeHtml(when)}`,
+    emailStatus === "sent" ? `✉️ Email sent` : emailStatus === "no_email" ? `⚠️ No email — call them` : `⚠️ Email failed — call them`,
+  ].join("\n"));
+
+  return json({ success: true, email: emailStatus });
+});
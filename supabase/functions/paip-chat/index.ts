@@ -1,10 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { authorizeCaller } from "../_shared/auth.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+const corsHeaders = buildCorsHeaders();
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -41,35 +40,9 @@ serve(async (req) => {
     // ── Authenticate caller ───────────────────────────────────────
     // pAIp is an in-app assistant: require a logged-in user (or internal service role).
     // Org is forced from the caller's record so it can't be spoofed via the body.
-    const authHeader = req.headers.get("Authorization") || "";
-    const callerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
-    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const isServiceRole = callerToken.length > 0 && callerToken === supabaseServiceKey;
-
-    if (!isServiceRole) {
-      if (!callerToken || callerToken === anonKey) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), {
-          status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const { data: authData, error: authErr } = await supabase.auth.getUser(callerToken);
-      if (authErr || !authData?.user) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), {
-          status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const { data: callerRec } = await supabase
-        .from("users")
-        .select("organization_id, is_active")
-        .eq("auth_user_id", authData.user.id)
-        .single();
-      if (!callerRec || callerRec.is_active === false || !callerRec.organization_id) {
-        return new Response(JSON.stringify({ error: "Forbidden" }), {
-          status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      organizationId = callerRec.organization_id;
-    }
+    const auth = await authorizeCaller(req, supabase, { requireOrganization: true, corsHeaders });
+    if (auth.response) return auth.response;
+    if (auth.caller.kind === "user") organizationId = auth.caller.organizationId!;
 
     // Fetch relevant stats to provide context
     let contextInfo = "";
@@ -1,12 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { authorizeCaller } from "../_shared/auth.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
 
 // ── Rule-based conversion prediction ────────────────────────────────
 function predictConversion(lead: Record<string, unknown>, stats: {
@@ -114,50 +110,21 @@ serve(async (req: Request) => {
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "predict_conversion" }));
 
   let organization_id = "", lead_id = "";
   try {
-    // ── Authenticate caller ────────────────────────────────────────
-    // Accept internal service-role calls OR an authenticated user.
-    // Reject anon/invalid tokens. For user callers, force organization_id
-    // from THEIR users row — never trust the body value.
-    const authHeader = req.headers.get("Authorization") || "";
-    const callerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
-    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const isServiceRole = callerToken.length > 0 && callerToken === serviceRoleKey;
-
     const parsed = await req.json();
     lead_id = parsed.lead_id;
     organization_id = parsed.organization_id;
 
-    if (!isServiceRole) {
-      if (!callerToken || callerToken === anonKey) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: authData, error: authErr } = await supabase.auth.getUser(callerToken);
-      if (authErr || !authData?.user) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: callerRec } = await supabase
-        .from("users")
-        .select("organization_id, is_active")
-        .eq("auth_user_id", authData.user.id)
-        .maybeSingle();
-      if (!callerRec || callerRec.is_active === false || !callerRec.organization_id) {
-        return new Response(
-          JSON.stringify({ error: "Forbidden" }),
-          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      organization_id = callerRec.organization_id;
-    }
+    // ── Authenticate caller ────────────────────────────────────────
+    // Accept internal service-role calls OR an authenticated user.
+    // Reject anon/invalid tokens. For user callers, force organization_id
+    // from THEIR users row — never trust the body value.
+    const auth = await authorizeCaller(req, supabase, { requireOrganization: true, serviceRoleKey, corsHeaders });
+    if (auth.response) return auth.response;
+    if (auth.caller.kind === "user") organization_id = auth.caller.organizationId!;
 
     if (!organization_id || !lead_id) {
       return new Response(
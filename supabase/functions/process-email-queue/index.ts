@@ -1,12 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { bearerToken, isServiceRoleToken } from "../_shared/auth.ts";
+import { timingSafeEqual } from "../_shared/crypto.ts";
 
 // Rate limit: max emails per org per batch to stay within Resend limits.
 // The cron runs every minute, so the hourly rate is BATCH_SIZE × 60.
@@ -34,6 +30,7 @@ const MARKETING_NOTIFICATION_TYPES = new Set([
   // Elijah's showing nurture — needs the unsubscribe link injected at drain
   // time, same as any campaign send.
   "showing_nurture",
+  "listing_alert",
 ]);
 
 // ── CAN-SPAM unsubscribe (per-recipient, HMAC-signed) ──────────────────────
@@ -110,9 +107,7 @@ serve(async (req: Request) => {
     const gateSecret = Deno.env.get("PROCESS_QUEUE_SECRET") || "";
     if (gateSecret) {
       const provided = req.headers.get("x-queue-secret") || "";
-      const bearer = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "").trim();
-      const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
-      if (provided !== gateSecret && !(serviceKey && bearer === serviceKey)) {
+      if (!timingSafeEqual(provided, gateSecret) && !isServiceRoleToken(bearerToken(req))) {
         return new Response(
           JSON.stringify({ error: "Unauthorized" }),
           { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -611,7 +606,10 @@ serve(async (req: Request) => {
         .eq("status", "in_progress");
 
       for (const camp of activeCampaigns || []) {
-        const [{ count: queuedLeft }, { count: processingLeft }, { count: sentCount }, { count: failedCount }] =
+        const [
+          { count: queuedLeft }, { count: processingLeft }, { count: heldLeft },
+          { count: sentCount }, { count: failedCount },
+        ] =
           await Promise.all([
             supabase
               .from("email_events")
@@ -623,6 +621,12 @@ serve(async (req: Request) => {
               .select("id", { count: "exact", head: true })
               .eq("organization_id", org.id)
               .contains("details", { campaign_id: camp.id, status: "processing" }),
+            // A/B holdout waiting for its winner (promote_ab_winners) — not done yet.
+            supabase
+              .from("email_events")
+              .select("id", { count: "exact", head: true })
+              .eq("organization_id", org.id)
+              .contains("details", { campaign_id: camp.id, status: "held" }),
             supabase
               .from("email_events")
               .select("id", { count: "exact", head: true })
@@ -635,7 +639,7 @@ serve(async (req: Request) => {
               .contains("details", { campaign_id: camp.id, status: "failed" }),
           ]);
 
-        const pending = (queuedLeft || 0) + (processingLeft || 0);
+        const pending = (queuedLeft || 0) + (processingLeft || 0) + (heldLeft || 0);
 
         // Keep emails_queued in sync with reality (was previously stuck at launch value)
         await supabase
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { parseTicketNumber, replyText } from "../_shared/generated/ticketThreads.ts";
 
 // reconcile-inbound-emails — audit F21: the svix webhook was the ONLY inbound
 // channel; any delivery gap beyond its retry budget silently lost ~33 lead
@@ -12,15 +14,15 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 //  2. BACKFILL: list recently received emails from the Resend Receiving API
 //     and re-drive any email_id missing from inbound_emails entirely
 //     (webhook delivery never arrived).
+//  3. TICKETS: thread tenant replies onto their ticket. The parser parks any
+//     "[Ticket #n]" email as outcome ticket_reply; this pass turns each into
+//     an inbound ticket_messages row (unique on email_id, so a replay is a
+//     no-op) and marks it ticket_reply_matched / ticket_reply_unmatched.
 //
 // Secret-gated (x-reconcile-secret == INBOUND_RECONCILE_SECRET), cron-invoked
 // hourly. Deployed --no-verify-jwt.
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-reconcile-secret",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+const corsHeaders = buildCorsHeaders({ methods: "POST, OPTIONS", extraHeaders: ["x-reconcile-secret"] });
 
 const MAX_REPLAY_PER_RUN = 25; // keep runtime bounded; hourly cron drains backlogs
 // The parser bumps attempts on its own retry path and the claim below bumps it
@@ -85,6 +87,8 @@ serve(async (req: Request) => {
     backfill_failed: 0,
     exhausted: 0,
     listing_unavailable: false,
+    tickets_matched: 0,
+    tickets_unmatched: 0,
   };
 
   try {
@@ -245,9 +249,53 @@ serve(async (req: Request) => {
       summary.listing_unavailable = true;
     }
 
+    // ── PASS 3: thread ticket replies ─────────────────────────────────
+    // Runs after the replays so a reply recovered above is matched this run.
+    const { data: ticketReplies, error: trErr } = await supabase
+      .from("inbound_emails")
+      .select("email_id, organization_id, from_email, subject, raw_text, raw_html, received_at")
+      .eq("outcome", "ticket_reply")
+      .order("received_at", { ascending: true })
+      .limit(MAX_REPLAY_PER_RUN * 2);
+    if (trErr) console.warn(`ticket reply query failed: ${trErr.message}`);
+
+    for (const row of ticketReplies || []) {
+      if (dryRun) continue;
+      const number = parseTicketNumber(row.subject);
+      // Scoped to the org the email arrived for — a guessed number from
+      // another org's tenant must not land on someone else's ticket.
+      const { data: ticket } = number === null ? { data: null } : await supabase
+        .from("tickets")
+        .select("id")
+        .eq("organization_id", row.organization_id)
+        .eq("number", number)
+        .maybeSingle();
+      const body = replyText(row.raw_text, row.raw_html);
+      let outcome = "ticket_reply_unmatched";
+      if (ticket && body) {
+        const { error: insErr } = await supabase.from("ticket_messages").upsert({
+          ticket_id: ticket.id,
+          direction: "inbound",
+          author_email: row.from_email,
+          email_id: row.email_id,
+          message: body.substring(0, 20_000),
+          created_at: row.received_at,
+        }, { onConflict: "email_id", ignoreDuplicates: true });
+        if (insErr) {
+          console.error(`Ticket reply ${row.email_id} insert failed: ${insErr.message}`);
+          continue; // stays ticket_reply → retried next run
+        }
+        outcome = "ticket_reply_matched";
+      }
+      await supabase.from("inbound_emails").update({ outcome }).eq("email_id", row.email_id);
+      if (outcome === "ticket_reply_matched") summary.tickets_matched++;
+      else summary.tickets_unmatched++;
+    }
+
     // Audit trail — only log runs that actually replayed/backfilled something
     // (exhausted count rides along in details but must not spam hourly logs)
-    const didWork = summary.replayed + summary.replay_failed + summary.backfilled + summary.backfill_failed > 0;
+    const didWork = summary.replayed + summary.replay_failed + summary.backfilled + summary.backfill_failed +
+      summary.tickets_matched + summary.tickets_unmatched > 0;
     if (didWork && !dryRun) {
       try {
         const { data: org } = await supabase
@@ -258,7 +306,7 @@ serve(async (req: Request) => {
             level: summary.replay_failed + summary.backfill_failed > 0 ? "warning" : "info",
             category: "general",
             event_type: "inbound_reconcile_run",
-            message: `Inbound reconcile: ${summary.replayed} replayed, ${summary.backfilled} backfilled, ${summary.replay_failed + summary.backfill_failed} failed, ${summary.exhausted} exhausted (>=${MAX_ATTEMPTS} attempts)`,
+            message: `Inbound reconcile: ${summary.replayed} replayed, ${summary.backfilled} backfilled, ${summary.replay_failed + summary.backfill_failed} failed, ${summary.exhausted} exhausted (>=${MAX_ATTEMPTS} attempts), ${summary.tickets_matched} ticket replies threaded`,
             details: summary,
           });
         }
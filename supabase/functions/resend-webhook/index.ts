@@ -25,13 +25,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { Webhook } from "https://esm.sh/svix@1.45.1";
+import { buildCorsHeaders } from "../_shared/cors.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, svix-id, svix-timestamp, svix-signature",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+const corsHeaders = buildCorsHeaders({ methods: "POST, OPTIONS", extraHeaders: ["svix-id", "svix-timestamp", "svix-signature"] });
 
 // Resend event type → email_events.details.status value
 const STATUS_MAP: Record<string, string> = {
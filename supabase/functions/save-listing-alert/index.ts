@@ -0,0 +1,230 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import {
+  describeListingAlert,
+  type ListingAlertCriteria,
+} from "../_shared/generated/listingAlerts.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
+
+// save-listing-alert — public "Notify me" on the renter home page. Saves the
+// visitor's current filter set against their email so send-listing-alerts can
+// write when a matching home becomes available. The email is marketing, so
+// the consent checkbox is required and logged in consent_log; a visitor who
+// had unsubscribed is opted back in by this fresh, explicit consent.
+// Org is resolved server-side by slug — never trusted from the client.
+
+const corsHeaders = buildCorsHeaders();
+
+const ORG_SLUG = "rent-finder-cleveland";
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// A visitor refining their search shouldn't pile up dozens of digests.
+const MAX_ACTIVE_PER_LEAD = 5;
+
+interface AlertBody {
+  email: string;
+  full_name?: string;
+  criteria?: Record<string, unknown>;
+  consent?: boolean;
+  consentText?: string;
+  userAgent?: string;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Keeps only the known filters, with the types the matcher expects. */
+function cleanCriteria(raw: Record<string, unknown> | undefined): ListingAlertCriteria {
+  const r = raw || {};
+  const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim().slice(0, 80) : null);
+  const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : null);
+  const criteria: ListingAlertCriteria = {
+    city: text(r.city),
+    area: text(r.area),
+    beds: num(r.beds),
+    baths: num(r.baths),
+    zip: text(r.zip),
+    price_min: num(r.price_min),
+    price_max: num(r.price_max),
+    home_type: r.home_type === "single" || r.home_type === "multi" ? r.home_type : null,
+    voucher: r.voucher === true ? true : null,
+  };
+  return Object.fromEntries(
+    Object.entries(criteria).filter(([, v]) => v != null),
+  ) as ListingAlertCriteria;
+}
+
+function sameCriteria(a: ListingAlertCriteria, b: ListingAlertCriteria): boolean {
+  const keys = new Set([...Object.keys(a || {}), ...Object.keys(b)]) as Set<keyof ListingAlertCriteria>;
+  return [...keys].every((k) => (a?.[k] ?? null) === (b[k] ?? null));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceKey, leadAuditOptions({ source: "save_listing_alert" }));
+    const body = (await req.json()) as AlertBody;
+
+    const email = (body.email || "").trim().toLowerCase();
+    const fullName = (body.full_name || "").trim();
+    if (!email || !EMAIL_RE.test(email)) {
+      return json({ error: "Please enter a valid email address." }, 400);
+    }
+    if (!body.consent) {
+      return json({ error: "Please agree to receive listing emails." }, 400);
+    }
+
+    let orgId: string | null = null;
+    const { data: bySlug } = await supabase
+      .from("organizations").select("id").eq("slug", ORG_SLUG).maybeSingle();
+    orgId = bySlug?.id ?? null;
+    if (!orgId) {
+      const { data: any1 } = await supabase
+        .from("organizations").select("id").order("created_at", { ascending: true }).limit(1).maybeSingle();
+      orgId = any1?.id ?? null;
+    }
+    if (!orgId) return json({ error: "Organization not found." }, 500);
+
+    const criteria = cleanCriteria(body.criteria);
+    const summary = describeListingAlert(criteria);
+    const clientIP = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim()
+      || req.headers.get("x-real-ip") || req.headers.get("cf-connecting-ip") || "unknown";
+    const userAgent = body.userAgent || req.headers.get("user-agent") || "unknown";
+    const now = new Date().toISOString();
+    const detail = `Listing alert: ${summary}`;
+    const consentFields = {
+      email_marketing_consent: true,
+      email_marketing_consent_at: now,
+      unsubscribed_at: null,
+    };
+
+    // Find-or-create by email within the org. The noah dedup trigger can
+    // cancel the insert (BEFORE INSERT → RETURN NULL), so re-resolve on failure.
+    const findExisting = async () => {
+      const { data } = await supabase
+        .from("leads")
+        .select("id, full_name, source_detail")
+        .eq("organization_id", orgId)
+        .eq("email", email)
+        .order("created_at", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      return data;
+    };
+
+    let leadId: string;
+    let isNewLead = false;
+    const existing = await findExisting();
+
+    if (existing) {
+      leadId = existing.id;
+      const update: Record<string, unknown> = {
+        ...consentFields,
+        updated_at: now,
+        last_contact_at: now,
+        last_contact_channel: "web_form",
+        source_detail: existing.source_detail
+          ? `${existing.source_detail} | Also: ${detail}`.slice(0, 2000)
+          : detail,
+      };
+      if (!existing.full_name && fullName) update.full_name = fullName;
+      const { error: updateError } = await supabase.from("leads").update(update).eq("id", leadId);
+      if (updateError) console.error("save-listing-alert enrichment error:", updateError);
+    } else {
+      const { data: lead, error: leadError } = await supabase
+        .from("leads")
+        .insert({
+          organization_id: orgId,
+          full_name: fullName || null,
+          email,
+          source: "website",
+          source_detail: detail,
+          status: "new",
+          ...consentFields,
+        })
+        .select("id")
+        .single();
+
+      if (leadError || !lead) {
+        const raced = await findExisting();
+        if (!raced) {
+          console.error("save-listing-alert lead error:", leadError);
+          return json({ error: "Failed to save your alert." }, 500);
+        }
+        leadId = raced.id;
+        await supabase.from("leads").update(consentFields).eq("id", leadId);
+      } else {
+        leadId = lead.id;
+        isNewLead = true;
+      }
+    }
+
+    // CAN-SPAM evidence for the opt-in.
+    const { error: consentError } = await supabase.from("consent_log").insert({
+      organization_id: orgId,
+      lead_id: leadId,
+      consent_type: "email_marketing",
+      granted: true,
+      method: "web_form",
+      evidence_text: body.consentText || `Opted in to new-listing emails (${summary}).`,
+      ip_address: clientIP,
+      user_agent: userAgent,
+    });
+    if (consentError) console.error("save-listing-alert consent_log error:", consentError);
+
+    // The same filter set twice is one alert; past the cap, the oldest goes.
+    const { data: current } = await supabase
+      .from("saved_searches")
+      .select("id, criteria")
+      .eq("lead_id", leadId)
+      .eq("active", true)
+      .order("created_at", { ascending: true });
+    const active = current || [];
+    const duplicate = active.find((s) => sameCriteria(s.criteria as ListingAlertCriteria, criteria));
+    if (duplicate) return json({ ok: true, savedSearchId: duplicate.id }, 200);
+
+    const overflow = active.slice(0, Math.max(0, active.length - MAX_ACTIVE_PER_LEAD + 1));
+    if (overflow.length > 0) {
+      await supabase
+        .from("saved_searches")
+        .update({ active: false })
+        .in("id", overflow.map((s) => s.id));
+    }
+
+    const { data: saved, error: saveError } = await supabase
+      .from("saved_searches")
+      .insert({ organization_id: orgId, lead_id: leadId, email, criteria })
+      .select("id")
+      .single();
+    if (saveError || !saved) {
+      console.error("save-listing-alert insert error:", saveError);
+      return json({ error: "Failed to save your alert." }, 500);
+    }
+
+    if (isNewLead) {
+      try {
+        await fetch(`${supabaseUrl}/functions/v1/telegram-notify`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${serviceKey}` },
+          body: JSON.stringify({
+            channel: "report", event: "new_lead",
+            payload: { name: fullName || email, source: "website (listing alert)", interest: summary },
+          }),
+        });
+      } catch (_) { /* ignore */ }
+    }
+
+    return json({ ok: true, savedSearchId: saved.id }, 200);
+  } catch (e) {
+    console.error("save-listing-alert error:", e);
+    return json({ error: "Unexpected error." }, 500);
+  }
+});
+
+function json(payload: unknown, status: number) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
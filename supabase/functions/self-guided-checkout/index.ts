@@ -0,0 +1,186 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { revokeShowingAccessCodes, type AccessCodeClient } from "../_shared/accessCodes.ts";
+import { selfGuidedReportText, type SelfGuidedCheckout } from "../_shared/generated/showingReports.ts";
+import { getTimezoneForCity } from "../_shared/generated/cityTimezone.ts";
+import { verifyShowingToken } from "../_shared/token.ts";
+import { notifyShowingsBot } from "../_shared/telegram.ts";
+
+// The check-out form a renter fills in on the way out of a self-guided tour.
+// With no agent on site it IS the showing report: it writes
+// showings.agent_report (the owner reads it in the Leasing Tracker), closes
+// the showing, and kills the door code.
+//
+// The link is minted by book-public-showing: <showingId>.checkout.<exp>.<sig>,
+// the same HMAC family as the reschedule/cancel link, and like that one it
+// follows rescheduled_to_id to the live tour.
+//
+// GET describes the tour; only POST records anything (mail scanners prefetch
+// URLs). Returns JSON — the page lives on the app domain (see
+// showing-attendance for why Supabase will not serve text/html from here).
+//
+// Deploy with --no-verify-jwt (opened from an email, no Supabase session).
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = buildCorsHeaders({ methods: "GET, POST, OPTIONS" });
+
+// Check-out opens shortly before the slot (renters arrive early) and the
+// report can still be filed late; a showing already closed is not reopened.
+const OPENS_BEFORE_MINUTES = 15;
+const OPEN_STATUSES = ["scheduled", "confirmed"];
+const INTEREST_LEVELS = ["high", "medium", "low", "not_interested"] as const;
+const MAX_NOTES = 1000;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function formatWhen(iso: string, tz: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: tz, weekday: "long", month: "long", day: "numeric",
+    hour: "numeric", minute: "2-digit",
+  });
+}
+
+interface ShowingRow {
+  id: string;
+  organization_id: string;
+  lead_id: string;
+  property_id: string;
+  scheduled_at: string;
+  status: string;
+  rescheduled_to_id: string | null;
+  self_guided: boolean;
+  agent_report: string | null;
+  leads: { full_name: string | null; phone: string | null } | null;
+  properties: { address: string | null; city: string | null; state: string | null; zip_code: string | null } | null;
+}
+
+const SHOWING_SELECT = `id, organization_id, lead_id, property_id, scheduled_at, status,
+  rescheduled_to_id, self_guided, agent_report,
+  leads(full_name, phone), properties(address, city, state, zip_code)`;
+
+/** The POST body → a checked form, or null when it is not one. */
+function parseForm(body: Record<string, unknown> | null): SelfGuidedCheckout | null {
+  if (!body || typeof body.toured !== "boolean" || typeof body.locked_up !== "boolean") return null;
+  const interest = body.interest ?? null;
+  if (interest !== null && !INTEREST_LEVELS.includes(interest as typeof INTEREST_LEVELS[number])) return null;
+  return {
+    toured: body.toured,
+    interest: body.toured ? (interest as SelfGuidedCheckout["interest"]) : null,
+    lockedUp: body.locked_up,
+    notes: typeof body.notes === "string" ? body.notes.slice(0, MAX_NOTES) : "",
+  };
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const url = new URL(req.url);
+  let token = url.searchParams.get("t") || "";
+  let body: Record<string, unknown> | null = null;
+  if (req.method === "POST") {
+    body = await req.json().catch(() => null);
+    if (body?.t) token = String(body.t);
+  } else if (req.method !== "GET") {
+    return json({ error: "method_not_allowed" }, 405);
+  }
+
+  const parsed = await verifyShowingToken(token, "checkout");
+  if (!parsed) return json({ error: "invalid_or_expired" }, 400);
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  // ── Resolve the live tour: follow rescheduled_to_id from the original ──
+  let showing: ShowingRow | null = null;
+  let nextId: string | null = parsed.showingId;
+  for (let hop = 0; nextId && hop < 10; hop++) {
+    const { data } = await supabase.from("showings").select(SHOWING_SELECT).eq("id", nextId).maybeSingle();
+    if (!data) break;
+    showing = data as unknown as ShowingRow;
+    nextId = showing.status === "rescheduled" ? showing.rescheduled_to_id : null;
+  }
+  if (!showing || !showing.self_guided) return json({ error: "not_found" }, 404);
+
+  const lead = showing.leads || { full_name: null, phone: null };
+  const prop = showing.properties || { address: null, city: null, state: null, zip_code: null };
+  const tz = getTimezoneForCity(prop.city);
+  const fullAddress = `${prop.address || ""}, ${prop.city || ""}, ${prop.state || ""} ${prop.zip_code || ""}`.trim();
+  const showingInfo = {
+    first_name: String(lead.full_name || "").trim().split(/\s+/)[0] || "",
+    address: [prop.address, prop.city].filter(Boolean).join(", "),
+    when: formatWhen(showing.scheduled_at, tz),
+  };
+
+  if (showing.agent_report) return json({ ...showingInfo, state: "already_checked_out" });
+  if (!OPEN_STATUSES.includes(showing.status)) {
+    return json({ ...showingInfo, state: showing.status === "cancelled" ? "cancelled" : "closed" });
+  }
+  if (Date.now() < new Date(showing.scheduled_at).getTime() - OPENS_BEFORE_MINUTES * 60_000) {
+    return json({ ...showingInfo, state: "too_early" });
+  }
+
+  if (req.method === "GET") return json({ ...showingInfo, state: "checkout" });
+
+  const form = parseForm(body);
+  if (!form) return json({ error: "bad_request" }, 400);
+
+  const nowIso = new Date().toISOString();
+  const report = selfGuidedReportText(form);
+  const update: Record<string, unknown> = form.toured
+    ? { status: "completed", completed_at: nowIso, followed_up_at: nowIso, prospect_interest_level: form.interest }
+    : { status: "no_show", followed_up_at: nowIso };
+  update.agent_report = report;
+
+  // Only the first check-out counts — a second submit must not rewrite it.
+  const { data: saved, error } = await supabase
+    .from("showings")
+    .update(update)
+    .eq("id", showing.id)
+    .is("agent_report", null)
+    .select("id");
+  if (error) {
+    console.error("self-guided-checkout update failed:", error.message);
+    return json({ error: "save_failed" }, 500);
+  }
+  if (!saved?.length) return json({ ...showingInfo, state: "already_checked_out" });
+
+  await revokeShowingAccessCodes(supabase as unknown as AccessCodeClient, showing.id, { checked_out_at: nowIso });
+
+  await supabase.from("system_logs").insert({
+    organization_id: showing.organization_id,
+    level: form.lockedUp ? "info" : "warning",
+    category: "general",
+    event_type: "self_guided_checkout",
+    message: `Self-guided check-out: ${lead.full_name || "Lead"} at ${showingInfo.address} — ${report}`,
+    details: {
+      showing_id: showing.id,
+      lead_id: showing.lead_id,
+      property_id: showing.property_id,
+      toured: form.toured,
+      interest: form.interest,
+      locked_up: form.lockedUp,
+    },
+    related_lead_id: showing.lead_id,
+    related_showing_id: showing.id,
+  });
+
+  await notifyShowingsBot(supabase, showing.organization_id, [
+    form.lockedUp ? `🔑 <b>Self-Guided Check-Out</b>` : `🚨 <b>Self-Guided Check-Out — NOT LOCKED UP</b>`,
+    ``,
+    `📍 <b>${escapeHtml(fullAddress)}</b>`,
+    `📅 ${escapeHtml(showingInfo.when)}`,
+    ``,
+    `👤 <b>${escapeHtml(String(lead.full_name || "Lead"))}</b>`,
+    `📞 ${escapeHtml(lead.phone || "—")}`,
+    `📝 ${escapeHtml(report)}`,
+  ].join("\n"));
+
+  return json({ ...showingInfo, state: "checked_out", locked_up: form.lockedUp });
+});
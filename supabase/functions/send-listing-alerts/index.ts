@@ -0,0 +1,221 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { ADMIN_ROLES, authorizeCaller } from "../_shared/auth.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import {
+  describeListingAlert,
+  listingAlertMatches,
+  type ListingAlertCriteria,
+} from "../_shared/generated/listingAlerts.ts";
+
+// send-listing-alerts — drains listing_alert_events (written by the
+// properties trigger whenever a unit becomes available) and queues one digest
+// per matching saved search through send-notification-email → the
+// process-email-queue pipeline. "listing_alert" is a marketing type there, so
+// the unsubscribe link and the consent suppression apply at drain time.
+// Cron-invoked every 30 minutes with the service-role key; admins can run it
+// by hand.
+
+const corsHeaders = buildCorsHeaders();
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const MAX_EVENTS_PER_RUN = 200;
+// A renter opted in to hear about new homes, not to get an email per sync.
+const MIN_HOURS_BETWEEN_DIGESTS = 20;
+const MAX_HOMES_PER_DIGEST = 6;
+
+interface AlertProperty {
+  id: string;
+  organization_id: string;
+  address: string;
+  unit_number: string | null;
+  city: string;
+  zip_code: string;
+  bedrooms: number;
+  bathrooms: number;
+  rent_price: number;
+  property_type: string | null;
+  section_8_accepted: boolean | null;
+  status: string;
+  photos: unknown;
+}
+
+function firstPhoto(photos: unknown): string | null {
+  if (!Array.isArray(photos) || photos.length === 0) return null;
+  const p = photos[0] as unknown;
+  if (typeof p === "string") return p;
+  if (p && typeof p === "object" && typeof (p as { url?: unknown }).url === "string") {
+    return (p as { url: string }).url;
+  }
+  return null;
+}
+
+function homeCard(p: AlertProperty, siteUrl: string): string {
+  const label = p.unit_number ? `${p.address} #${p.unit_number}` : p.address;
+  const photo = firstPhoto(p.photos);
+  const facts = [
+    p.bedrooms === 0 ? "Studio" : `${p.bedrooms} bd`,
+    `${p.bathrooms} ba`,
+    p.rent_price ? `$${Number(p.rent_price).toLocaleString("en-US")}/mo` : "Contact for price",
+  ].join(" · ");
+  return `
+    <tr><td style="padding:0 0 16px;">
+      <a href="${siteUrl}/p/property/${p.id}" style="text-decoration:none;color:inherit;">
+        ${photo ? `<img src="${escapeHtml(photo)}" alt="" width="100%" style="display:block;border-radius:10px;max-height:220px;object-fit:cover;" />` : ""}
+        <p style="margin:8px 0 2px;font-weight:700;color:#4F46E5;font-size:16px;">${escapeHtml(label)}</p>
+        <p style="margin:0;color:#444;font-size:14px;">${escapeHtml(p.city)} · ${escapeHtml(facts)}${p.section_8_accepted ? " · Section 8 welcome" : ""}</p>
+      </a>
+    </td></tr>`;
+}
+
+function digestHtml(summary: string, homes: AlertProperty[], siteUrl: string): string {
+  return `
+<table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="max-width:600px;margin:0 auto;font-family:Arial,sans-serif;">
+  <tr><td style="padding:24px 32px;background-color:#4F46E5;border-radius:12px 12px 0 0;">
+    <p style="margin:0;color:#ffb22c;font-weight:700;font-size:14px;">Rent Finder Cleveland</p>
+    <h2 style="margin:6px 0 0;color:#ffffff;font-size:22px;">New ${homes.length === 1 ? "home" : "homes"} for your search</h2>
+  </td></tr>
+  <tr><td style="background-color:#ffffff;padding:24px 32px;border:1px solid #e5e5e5;border-top:none;">
+    <p style="color:#444;font-size:15px;line-height:1.6;margin:0 0 20px;">
+      You asked us to let you know when something fits <strong>${escapeHtml(summary)}</strong>. This just became available:
+    </p>
+    <table role="presentation" cellpadding="0" cellspacing="0" width="100%">${homes.map((h) => homeCard(h, siteUrl)).join("")}</table>
+    <p style="text-align:center;margin:24px 0 8px;">
+      <a href="${siteUrl}/p/book-showing" style="display:inline-block;background-color:#ffb22c;color:#4F46E5;padding:14px 36px;border-radius:8px;text-decoration:none;font-weight:700;font-size:15px;">Book a Showing</a>
+    </p>
+  </td></tr>
+  <tr><td style="padding:16px 32px;text-align:center;color:#999;font-size:12px;">
+    You're getting this because you saved a search on ${escapeHtml(siteUrl.replace(/^https:\/\//, ""))}.<br />
+    <a href="{{unsubscribe_url}}" style="color:#999;text-decoration:underline;">Unsubscribe from these emails</a>
+  </td></tr>
+</table>`;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const auth = await authorizeCaller(req, supabase, { roles: ADMIN_ROLES, corsHeaders });
+  if (auth.response) return auth.response;
+
+  try {
+    const { data: events, error: eventsErr } = await supabase
+      .from("listing_alert_events")
+      .select("id, organization_id, property_id")
+      .is("processed_at", null)
+      .order("created_at")
+      .limit(MAX_EVENTS_PER_RUN);
+    if (eventsErr) throw eventsErr;
+    if (!events || events.length === 0) {
+      return json({ success: true, events: 0, digests: 0 });
+    }
+
+    // A unit that was rented again before the cron ran drops out here; its
+    // event is still marked processed.
+    const { data: props, error: propsErr } = await supabase
+      .from("properties")
+      .select(
+        "id, organization_id, address, unit_number, city, zip_code, bedrooms, bathrooms, rent_price, property_type, section_8_accepted, status, photos",
+      )
+      .in("id", [...new Set(events.map((e) => e.property_id))])
+      .eq("status", "available");
+    if (propsErr) throw propsErr;
+    const homes = (props || []) as AlertProperty[];
+
+    let digests = 0;
+    let skipped = 0;
+    const orgIds = [...new Set(homes.map((h) => h.organization_id))];
+    const cutoff = Date.now() - MIN_HOURS_BETWEEN_DIGESTS * 3_600_000;
+
+    for (const orgId of orgIds) {
+      const orgHomes = homes.filter((h) => h.organization_id === orgId);
+
+      const { data: domainSetting } = await supabase
+        .from("organization_settings")
+        .select("value")
+        .eq("organization_id", orgId)
+        .eq("key", "sender_domain")
+        .maybeSingle();
+      const domain = String(domainSetting?.value || "rentfindercleveland.com")
+        .replace(/^"|"$/g, "").replace(/^https?:\/\//, "").trim();
+      const siteUrl = `https://${domain}`;
+
+      const { data: searches, error: searchErr } = await supabase
+        .from("saved_searches")
+        .select("id, lead_id, email, criteria, last_notified_at, leads(unsubscribed_at, email_marketing_consent)")
+        .eq("organization_id", orgId)
+        .eq("active", true);
+      if (searchErr) throw searchErr;
+
+      for (const s of searches || []) {
+        const lead = s.leads as unknown as { unsubscribed_at: string | null; email_marketing_consent: boolean | null } | null;
+        if (!lead || lead.unsubscribed_at || lead.email_marketing_consent === false) {
+          skipped++;
+          continue;
+        }
+        // Inside the quiet window the event is still consumed: the renter
+        // hears about the NEXT unit, not a backlog of this one.
+        if (s.last_notified_at && new Date(s.last_notified_at).getTime() > cutoff) {
+          skipped++;
+          continue;
+        }
+        const criteria = (s.criteria || {}) as ListingAlertCriteria;
+        const matches = orgHomes.filter((h) => listingAlertMatches(criteria, h));
+        if (matches.length === 0) continue;
+
+        const shown = matches.slice(0, MAX_HOMES_PER_DIGEST);
+        const summary = describeListingAlert(criteria);
+        const subject = shown.length === 1
+          ? `New home available: ${shown[0].address}`
+          : `${shown.length} new homes match your search`;
+
+        const res = await fetch(`${supabaseUrl}/functions/v1/send-notification-email`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${serviceRoleKey}` },
+          body: JSON.stringify({
+            to: s.email,
+            subject,
+            html: digestHtml(summary, shown, siteUrl),
+            notification_type: "listing_alert",
+            organization_id: orgId,
+            related_entity_id: s.lead_id,
+            related_entity_type: "lead",
+            queue: true,
+          }),
+        });
+        if (!res.ok) {
+          console.error(`send-listing-alerts: queue failed for search ${s.id}:`, res.status, await res.text());
+          skipped++;
+          continue;
+        }
+        await supabase
+          .from("saved_searches")
+          .update({ last_notified_at: new Date().toISOString() })
+          .eq("id", s.id);
+        digests++;
+      }
+    }
+
+    const { error: markErr } = await supabase
+      .from("listing_alert_events")
+      .update({ processed_at: new Date().toISOString() })
+      .in("id", events.map((e) => e.id));
+    if (markErr) throw markErr;
+
+    console.log(`send-listing-alerts: ${events.length} events, ${homes.length} available, ${digests} digests queued, ${skipped} skipped`);
+    return json({ success: true, events: events.length, available: homes.length, digests, skipped });
+  } catch (err) {
+    const error = err as Error;
+    console.error("send-listing-alerts error:", error);
+    return json({ success: false, error: error.message }, 500);
+  }
+});
+
+function json(payload: unknown, status = 200) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
@@ -1,12 +1,96 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { authorizeCaller } from "../_shared/auth.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { ticketEmailSubject } from "../_shared/generated/ticketThreads.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
+
+// ── Tenant ticket replies ──────────────────────────────────────────
+// { ticket_id, body } instead of { lead_id, channel }: the reply is emailed to
+// the ticket's requester with "[Ticket #n]" in the subject (so their answer can
+// be threaded back by reconcile-inbound-emails) and stored as an outbound
+// ticket_messages row. Service mail to an existing tenant, so the lead
+// compliance gate doesn't apply.
+async function sendTicketReply(
+  req: Request,
+  supabase: ReturnType<typeof createClient>,
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  parsed: { ticket_id: string; body?: string; organization_id?: string },
+): Promise<Response> {
+  const json = (payload: unknown, status: number) =>
+    new Response(JSON.stringify(payload), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const auth = await authorizeCaller(req, supabase, {
+    roles: ["super_admin", "admin", "editor"],
+    requireOrganization: true,
+    serviceRoleKey,
+  });
+  if (auth.response) return auth.response;
+  const organizationId = auth.caller.kind === "user" ? auth.caller.organizationId! : parsed.organization_id;
+  const messageBody = String(parsed.body || "").trim();
+  if (!organizationId || !messageBody) {
+    return json({ success: false, error: "Missing required fields: ticket_id, body, organization_id" }, 400);
+  }
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+  const { data: ticket } = await supabase
+    .from("tickets")
+    .select("id, number, subject, requester_email, requester_name")
+    .eq("id", parsed.ticket_id)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+  if (!ticket) return json({ success: false, error: "Ticket not found" }, 404);
+  if (!ticket.requester_email) return json({ success: false, error: "Ticket has no requester email" }, 400);
+
+  const subject = ticketEmailSubject(ticket.number, ticket.subject);
+  const emailResp = await fetch(`${supabaseUrl}/functions/v1/send-notification-email`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${serviceRoleKey}`,
+    },
+    body: JSON.stringify({
+      to: ticket.requester_email,
+      subject,
+      html: `<div style="font-family:sans-serif;max-width:600px;margin:0 auto;padding:24px;">
+          <p>Hi <strong>${escapeHtml(ticket.requester_name || "there")}</strong>,</p>
+          <p>${escapeHtml(messageBody).replace(/\n/g, "<br>")}</p>
+          <br>
+          <p style="color:#666;font-size:14px;">— Rent Finder Cleveland<br>
+          Reply to this email to add to ticket #${ticket.number}.</p>
+        </div>`,
+      notification_type: "ticket_reply",
+      organization_id: organizationId,
+      related_entity_id: ticket.id,
+      related_entity_type: "ticket",
+      queue: true,
+    }),
+  });
+  const emailData = await emailResp.json().catch(() => ({}));
+  if (!emailResp.ok) {
+    return json({ success: false, error: emailData?.error || `Email send failed (HTTP ${emailResp.status})` }, 502);
+  }
+
+  // The insert trigger stamps first_response_at and moves open → pending.
+  const { data: message, error: msgErr } = await supabase
+    .from("ticket_messages")
+    .insert({
+      ticket_id: ticket.id,
+      direction: "outbound",
+      sender_id: auth.caller.kind === "user" ? auth.caller.userId : null,
+      author_email: ticket.requester_email,
+      message: messageBody,
+    })
+    .select("id")
+    .single();
+  if (msgErr) console.error("ticket_messages insert failed:", msgErr);
+
+  return json({ success: true, message_id: message?.id ?? null, queued: emailData?.queued === true }, 200);
+}
 
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
@@ -15,11 +99,7 @@ serve(async (req: Request) => {
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-  const supabase = createClient(supabaseUrl, serviceRoleKey);
-
-  // HTML escape helper to prevent XSS in emails
-  const escapeHtml = (str: string) =>
-    str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "send_message" }));
 
   let lead_id = "", channel = "", organization_id = "";
   try {
@@ -29,6 +109,10 @@ serve(async (req: Request) => {
     organization_id = parsed.organization_id;
     const messageBody = parsed.body;
 
+    if (parsed.ticket_id) {
+      return await sendTicketReply(req, supabase, supabaseUrl, serviceRoleKey, parsed);
+    }
+
     if (!lead_id || !channel || !messageBody || !organization_id) {
       return new Response(
         JSON.stringify({
@@ -47,39 +131,11 @@ serve(async (req: Request) => {
     // logged-in user. Anonymous/unauthenticated callers are rejected, and for user
     // callers the organization_id is derived from THEIR record (never trusted from body)
     // to prevent cross-tenant message sending.
-    const authHeader = req.headers.get("Authorization") || "";
-    const callerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
-    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const isServiceRole = callerToken.length > 0 && callerToken === serviceRoleKey;
-
-    if (!isServiceRole) {
-      if (!callerToken || callerToken === anonKey) {
-        return new Response(
-          JSON.stringify({ success: false, error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: authData, error: authErr } = await supabase.auth.getUser(callerToken);
-      if (authErr || !authData?.user) {
-        return new Response(
-          JSON.stringify({ success: false, error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: callerRec } = await supabase
-        .from("users")
-        .select("organization_id, is_active")
-        .eq("auth_user_id", authData.user.id)
-        .single();
-      if (!callerRec || callerRec.is_active === false || !callerRec.organization_id) {
-        return new Response(
-          JSON.stringify({ success: false, error: "Forbidden" }),
-          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      // Force the caller's own org — ignore any body-supplied organization_id.
-      organization_id = callerRec.organization_id;
-    }
+    const auth = await authorizeCaller(req, supabase, { requireOrganization: true, serviceRoleKey });
+    if (auth.response) return auth.response;
+    const isServiceRole = auth.caller.kind === "service";
+    // Force the caller's own org — ignore any body-supplied organization_id.
+    if (auth.caller.kind === "user") organization_id = auth.caller.organizationId!;
     // A validated user JWT = a HUMAN sender; the service-role key = automation
     // (other edge functions / agent tasks). Used below for the human-takeover
     // exemption in the compliance gate.
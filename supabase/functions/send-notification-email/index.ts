@@ -1,12 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { authorizeCaller, bearerToken } from "../_shared/auth.ts";
 
 // Resend pricing fallback when org has no `email_unit_cost` setting
 const DEFAULT_EMAIL_UNIT_COST = 0.001;
@@ -26,6 +21,8 @@ const MARKETING_NOTIFICATION_TYPES = new Set([
   // CAN-SPAM (most recipients inquired 90+ days ago), so it MUST carry the
   // consent gate, the {{unsubscribe_url}} substitution and List-Unsubscribe.
   "showing_nurture",
+  // Saved-search digests (send-listing-alerts) — opted in, but still marketing.
+  "listing_alert",
 ]);
 
 // Decode a JWT's `role` claim WITHOUT verifying the signature. Diagnostics
@@ -100,6 +97,8 @@ serve(async (req: Request) => {
       from_name,
       queue,  // If true, queue email instead of sending immediately
       campaign_id,
+      ab_test,  // A/B: flow_step id or campaign id the send belongs to
+      variant,
     } = parsed;
 
     if (!to || !subject || !html) {
@@ -116,10 +115,6 @@ serve(async (req: Request) => {
     // This function sends HTML mail from the org's verified domain; it must not be callable
     // anonymously. Accept internal service-role calls (edge fns / queue processor / cron) OR a
     // logged-in user; reject anon/invalid tokens.
-    const authHeader = req.headers.get("Authorization") || "";
-    const callerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
-    const apiKeyHeader = (req.headers.get("apikey") || "").trim();
-    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
     // Internal service-role callers (edge fns / queue processor / cron) present
     // the service-role key. `supabase.functions.invoke()` carries that key in
     // the `apikey` header (its Bearer Authorization is the anon/session token),
@@ -127,34 +122,16 @@ serve(async (req: Request) => {
     // both call styles authenticate. Public callers only ever have the anon key
     // in both headers, so this remains a real gate (regression: the invoke path
     // silently 401'd every transactional immediate send from 2026-07-10).
-    const isServiceRole =
-      (callerToken.length > 0 && callerToken === serviceRoleKey) ||
-      (apiKeyHeader.length > 0 && apiKeyHeader === serviceRoleKey);
-    if (!isServiceRole) {
-      if (!callerToken || callerToken === anonKey) {
-        // Key-safe diagnostics only — never log the token/key itself.
-        console.warn(
-          "send-notification-email: rejected caller (no service role) " +
-          `authRole=${jwtRole(callerToken)} bearerLen=${callerToken.length} ` +
-          `apikeyLen=${apiKeyHeader.length} srkLen=${serviceRoleKey.length}`,
-        );
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const { data: authData, error: authErr } = await supabase.auth.getUser(callerToken);
-      if (authErr || !authData?.user) {
-        console.warn(
-          "send-notification-email: rejected caller (getUser failed) " +
-          `authRole=${jwtRole(callerToken)} bearerLen=${callerToken.length} ` +
-          `apikeyLen=${apiKeyHeader.length} srkLen=${serviceRoleKey.length}`,
-        );
-        return new Response(
-          JSON.stringify({ error: "Unauthorized" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
+    const auth = await authorizeCaller(req, supabase, { serviceRoleInApikey: true, corsHeaders });
+    if (auth.response) {
+      // Key-safe diagnostics only — never log the token/key itself.
+      const callerToken = bearerToken(req);
+      console.warn(
+        `send-notification-email: rejected caller (${auth.response.status}) ` +
+        `authRole=${jwtRole(callerToken)} bearerLen=${callerToken.length} ` +
+        `apikeyLen=${(req.headers.get("apikey") || "").trim().length} srkLen=${serviceRoleKey.length}`,
+      );
+      return auth.response;
     }
 
     // ── Marketing consent gate ──
@@ -217,6 +194,7 @@ serve(async (req: Request) => {
           queued_at: new Date().toISOString(),
         };
       if (campaign_id) detailsObj.campaign_id = campaign_id;
+      if (ab_test && variant) Object.assign(detailsObj, { ab_test, variant });
       // Direct attribution column (audit F18) — details JSON stays for compat.
       // If the lead was deleted (FK 23503), retry WITHOUT lead_id: attribution
       // is nice-to-have, queuing the email is mandatory.
@@ -344,6 +322,7 @@ serve(async (req: Request) => {
           related_entity_type: related_entity_type || null,
         };
       if (campaign_id) sentDetails.campaign_id = campaign_id;
+      if (ab_test && variant) Object.assign(sentDetails, { ab_test, variant });
       const sentRow = {
         organization_id,
         event_type: "sent",
@@ -0,0 +1,201 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { ADMIN_ROLES, authorizeCaller } from "../_shared/auth.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { leadTokenSecret, signLeadToken } from "../_shared/token.ts";
+
+// send-showing-waitlist — drains showing_waitlist_events (written by the
+// showing_available_slots trigger whenever a slot opens at a home someone is
+// waiting for) and writes to the front of that home's waitlist: one email
+// per renter with a booking link prefilled for them (resolve-lead-token).
+//
+// First come, first served: per home, as many waiting renters as there are
+// open slots, oldest first. Each is claimed (waiting → notified) before the
+// email goes out, so two overlapping runs never write to the same renter.
+// A renter who doesn't book can join again — at the back.
+//
+// Transactional, not marketing: the renter asked to hear about this home.
+// Cron-invoked every 10 minutes with the service-role key; admins can run it
+// by hand.
+
+const corsHeaders = buildCorsHeaders();
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const TOKEN_SECRET = leadTokenSecret();
+
+const MAX_EVENTS_PER_RUN = 100;
+// However many slots a bulk open adds, one run writes to at most this many
+// renters per home; the rest hear on the next opening.
+const MAX_NOTIFIED_PER_HOME = 20;
+// Same life as the campaign prefill links (process-email-queue).
+const PREFILL_TTL_DAYS = 14;
+
+// <leadId>.<exp>.<sig> — the shape resolve-lead-token verifies.
+async function prefillToken(leadId: string): Promise<string> {
+  if (!TOKEN_SECRET) return "";
+  const exp = Math.floor(Date.now() / 1000) + PREFILL_TTL_DAYS * 86400;
+  return signLeadToken(leadId, exp, TOKEN_SECRET);
+}
+
+function waitlistHtml(firstName: string, home: string, slots: number, bookUrl: string): string {
+  return `
+<table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="max-width:600px;margin:0 auto;font-family:Arial,sans-serif;">
+  <tr><td style="padding:24px 32px;background-color:#4F46E5;border-radius:12px 12px 0 0;">
+    <p style="margin:0;color:#ffb22c;font-weight:700;font-size:14px;">Rent Finder Cleveland</p>
+    <h2 style="margin:6px 0 0;color:#ffffff;font-size:22px;">A showing time just opened</h2>
+  </td></tr>
+  <tr><td style="background-color:#ffffff;padding:24px 32px;border:1px solid #e5e5e5;border-top:none;">
+    <p style="color:#444;font-size:15px;line-height:1.6;margin:0 0 12px;">Hi ${escapeHtml(firstName || "there")},</p>
+    <p style="color:#444;font-size:15px;line-height:1.6;margin:0 0 20px;">
+      You asked us to tell you when you could tour <strong>${escapeHtml(home)}</strong>.
+      ${slots === 1 ? "A time is" : `${slots} times are`} open now — first come, first served, so book while it's there.
+    </p>
+    <p style="text-align:center;margin:24px 0 8px;">
+      <a href="${bookUrl}" style="display:inline-block;background-color:#ffb22c;color:#4F46E5;padding:14px 36px;border-radius:8px;text-decoration:none;font-weight:700;font-size:15px;">Pick a Time</a>
+    </p>
+    <p style="color:#999;font-size:13px;line-height:1.5;margin:16px 0 0;text-align:center;">
+      Your details are already filled in. If the time is gone when you get there, you can join the waitlist again.
+    </p>
+  </td></tr>
+</table>`;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const auth = await authorizeCaller(req, supabase, { roles: ADMIN_ROLES, corsHeaders });
+  if (auth.response) return auth.response;
+
+  try {
+    const { data: events, error: eventsErr } = await supabase
+      .from("showing_waitlist_events")
+      .select("id, organization_id, property_id")
+      .is("processed_at", null)
+      .order("created_at")
+      .limit(MAX_EVENTS_PER_RUN);
+    if (eventsErr) throw eventsErr;
+    if (!events || events.length === 0) {
+      return json({ success: true, events: 0, notified: 0 });
+    }
+
+    // "Today" in Cleveland, same as the slot grid.
+    const today = new Date().toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+    const domains = new Map<string, string>();
+    let notified = 0;
+    let failed = 0;
+
+    for (const propertyId of [...new Set(events.map((e) => e.property_id))]) {
+      const { data: home } = await supabase
+        .from("properties")
+        .select("id, organization_id, address, unit_number, status")
+        .eq("id", propertyId)
+        .maybeSingle();
+      // Rented, or off the market, since the slot opened: nobody to invite.
+      if (!home || home.status !== "available") continue;
+
+      // Taken again before the cron ran → nobody hears, nobody loses their place.
+      const { count: openSlots } = await supabase
+        .from("showing_available_slots")
+        .select("id", { count: "exact", head: true })
+        .eq("property_id", home.id)
+        .eq("is_enabled", true)
+        .eq("is_booked", false)
+        .gte("slot_date", today);
+      const seats = Math.min(openSlots || 0, MAX_NOTIFIED_PER_HOME);
+      if (seats === 0) continue;
+
+      const { data: front } = await supabase
+        .from("showing_waitlist")
+        .select("id")
+        .eq("property_id", home.id)
+        .eq("status", "waiting")
+        .order("created_at", { ascending: true })
+        .limit(seats);
+      if (!front?.length) continue;
+      const { data: claimed, error: claimErr } = await supabase
+        .from("showing_waitlist")
+        .update({ status: "notified", notified_at: new Date().toISOString() })
+        .in("id", front.map((w) => w.id))
+        .eq("status", "waiting")
+        .select("id, lead_id, email, leads(first_name, full_name)");
+      if (claimErr) throw claimErr;
+
+      if (!domains.has(home.organization_id)) {
+        const { data: domainSetting } = await supabase
+          .from("organization_settings")
+          .select("value")
+          .eq("organization_id", home.organization_id)
+          .eq("key", "sender_domain")
+          .maybeSingle();
+        domains.set(
+          home.organization_id,
+          String(domainSetting?.value || "rentfindercleveland.com")
+            .replace(/^"|"$/g, "").replace(/^https?:\/\//, "").trim() || "rentfindercleveland.com",
+        );
+      }
+      const label = home.unit_number ? `${home.address} #${home.unit_number}` : home.address;
+
+      for (const w of claimed || []) {
+        const lead = w.leads as unknown as { first_name: string | null; full_name: string | null } | null;
+        const token = await prefillToken(w.lead_id);
+        const bookUrl = `https://${domains.get(home.organization_id)}/p/schedule-showing/${home.id}?src=waitlist${
+          token ? `&t=${encodeURIComponent(token)}` : ""
+        }`;
+        const res = await fetch(`${supabaseUrl}/functions/v1/send-notification-email`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            // Service role in both slots — see book-public-showing.
+            Authorization: `Bearer ${serviceRoleKey}`,
+            apikey: serviceRoleKey,
+          },
+          body: JSON.stringify({
+            to: w.email,
+            subject: `A showing time opened at ${home.address}`,
+            html: waitlistHtml(
+              lead?.first_name || (lead?.full_name || "").split(" ")[0] || "",
+              label,
+              openSlots || 0,
+              bookUrl,
+            ),
+            notification_type: "showing_waitlist",
+            organization_id: home.organization_id,
+            related_entity_id: w.lead_id,
+            related_entity_type: "lead",
+            queue: false,
+          }),
+        });
+        if (!res.ok) {
+          // Put them back at the same place in line for the next opening.
+          console.error(`send-showing-waitlist: email failed for ${w.id}:`, res.status, await res.text());
+          await supabase.from("showing_waitlist").update({ status: "waiting", notified_at: null }).eq("id", w.id);
+          failed++;
+          continue;
+        }
+        notified++;
+      }
+    }
+
+    const { error: markErr } = await supabase
+      .from("showing_waitlist_events")
+      .update({ processed_at: new Date().toISOString() })
+      .in("id", events.map((e) => e.id));
+    if (markErr) throw markErr;
+
+    console.log(`send-showing-waitlist: ${events.length} events, ${notified} notified, ${failed} failed`);
+    return json({ success: true, events: events.length, notified, failed });
+  } catch (err) {
+    const error = err as Error;
+    console.error("send-showing-waitlist error:", error);
+    return json({ success: false, error: error.message }, 500);
+  }
+});
+
+function json(payload: unknown, status = 200) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
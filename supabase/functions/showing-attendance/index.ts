@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { timingSafeEqual } from "../_shared/crypto.ts";
+import { quickReportText } from "../_shared/generated/showingReports.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
 
 // Mark a showing as attended / no-show straight from the Leasing Agent calendar
 // feed, without logging into the panel.
@@ -25,20 +29,7 @@ const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 const TOKEN_SECRET = Deno.env.get("LEAD_TOKEN_SECRET") || Deno.env.get("UNSUBSCRIBE_SECRET") || "";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-};
-
-function timingSafeEqual(a: string, b: string): boolean {
-  const enc = new TextEncoder();
-  const ab = enc.encode(a), bb = enc.encode(b);
-  if (ab.length !== bb.length) return false;
-  let diff = 0;
-  for (let i = 0; i < ab.length; i++) diff |= ab[i] ^ bb[i];
-  return diff === 0;
-}
+const corsHeaders = buildCorsHeaders({ methods: "GET, POST, OPTIONS" });
 
 function b64url(bytes: Uint8Array): string {
   let s = "";
@@ -72,15 +63,6 @@ async function verify(token: string): Promise<{ showingId: string; action: strin
   return { showingId, action };
 }
 
-// Duplicated from src/lib/showingReports.ts — Deno cannot import from src/.
-// ⚠️ Also duplicated in telegram-webhook. This text is NOT internal: it flows to
-// the public Leasing Tracker where the property owner reads it verbatim. Change
-// one, change all three.
-const quickReportText = (attended: boolean): string =>
-  attended
-    ? "Asistió ✅"
-    : "No asistió 👻 — en seguimiento para confirmar la visita";
-
 function json(body: unknown, status = 200): Response {
   return new Response(JSON.stringify(body), {
     status, headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -102,7 +84,7 @@ serve(async (req: Request) => {
   const parsed = await verify(token);
   if (!parsed) return json({ error: "invalid_or_expired" }, 400);
 
-  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "showing_attendance" }));
   const { data: showing } = await supabase
     .from("showings")
     .select(`id, scheduled_at, status, agent_report, organization_id,
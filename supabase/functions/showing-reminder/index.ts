@@ -1,10 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { ADMIN_ROLES, authorizeCaller } from "../_shared/auth.ts";
+import { escapeHtml } from "../_shared/html.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+const corsHeaders = buildCorsHeaders();
 
 // ── Helpers ─────────────────────────────────────────────────────────
 
@@ -56,15 +56,6 @@ function formatDateShort(dateStr: string): string {
   });
 }
 
-// Escape lead-supplied strings (full_name, address, email…) before building a
-// parse_mode:HTML message. Without this a lead whose name/address contains '<'
-// (e.g. "<3", pasted markup, a malicious form submission) makes Telegram reject
-// the whole sendMessage → the 30-min reminder silently never fires and the cron
-// retries until the window passes (no-show risk + HTML-injection into the chat).
-function escapeHtml(v: unknown): string {
-  return String(v ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-}
-
 // N Cleveland days ahead at 09:00, as UTC ISO. DST-safe: 9 AM is well past the
 // 2 AM switch, so the noon-sampled offset of that date is always correct.
 function plusDays9amET(days: number): string {
@@ -159,12 +150,11 @@ async function dispatchLeadReminders(
         .order("scheduled_at", { ascending: false }).limit(1).maybeSingle();
       const days = sh ? Math.max(1, Math.round((Date.now() - new Date(sh.scheduled_at).getTime()) / 86400000)) : Number(r.attempt) || 1;
       const nm = (x: any) => x?.full_name || [x?.first_name, x?.last_name].filter(Boolean).join(" ") || "Lead";
-      const esc = (v: unknown) => String(v ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
       const attempt = Number(r.attempt) || 1;
       const lines = [
-        `🚀 <b>Cierre ${attempt}/3</b> — ${esc(nm(l))}`,
-        `Toureó${sh?.properties?.address ? ` ${esc(sh.properties.address)}` : ""} hace ${days} día${days === 1 ? "" : "s"} y todavía no aplica.`,
-        `📞 ${esc(phone)}`,
+        `🚀 <b>Cierre ${attempt}/3</b> — ${escapeHtml(nm(l))}`,
+        `Toureó${sh?.properties?.address ? ` ${escapeHtml(sh.properties.address)}` : ""} hace ${days} día${days === 1 ? "" : "s"} y todavía no aplica.`,
+        `📞 ${escapeHtml(phone)}`,
       ];
       if (attempt >= 3) lines.push(``, `Último push — si no responde, decidí abajo 👇`);
       // El correo salió del bot de Showings (2026-08-08): en campo solo se usa
@@ -260,7 +250,6 @@ async function dispatchLeadReminders(
         if (!creds?.telegram_showings_bot_token || !creds?.telegram_showings_chat_id) continue;
 
         const nm = (l: any) => l?.full_name || [l?.first_name, l?.last_name].filter(Boolean).join(" ") || "Lead";
-        const esc = (v: unknown) => String(v ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
         // Mismo predicado que el bot: pendiente = agendado/confirmado Y sin
         // followed_up_at. Antes acá "sin resolver" era otra cosa, así que las
         // dos pantallas del mismo chat daban cuentas distintas.
@@ -277,9 +266,9 @@ async function dispatchLeadReminders(
         for (const mk of marketNames) {
           const mrows = byMarket.get(mk)!;
           const tz = tzFor(mk);
-          lines.push(``, `📍 <b>${esc(mk)}</b> · ${mrows.length}${marketNames.length > 1 ? " <i>(hora local)</i>" : ""}`);
+          lines.push(``, `📍 <b>${escapeHtml(mk)}</b> · ${mrows.length}${marketNames.length > 1 ? " <i>(hora local)</i>" : ""}`);
           for (const r of mrows) {
-            lines.push(`${glyph(r)} <b>${fmtTimeTz(r.scheduled_at, tz)}</b> — ${esc(nm(r.leads))} · ${esc(r.properties?.address ?? "")}`);
+            lines.push(`${glyph(r)} <b>${fmtTimeTz(r.scheduled_at, tz)}</b> — ${escapeHtml(nm(r.leads))} · ${escapeHtml(r.properties?.address ?? "")}`);
           }
         }
         if (open.length) lines.push(``, `👇 Resuelve los pendientes — un tap:`);
@@ -325,26 +314,8 @@ serve(async (req: Request) => {
   }
 
   // ── Require service-role or admin authenticated caller ─────────
-  {
-    const _srk = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const _ak = Deno.env.get("SUPABASE_ANON_KEY") || "";
-    const _tok = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "").trim();
-    if (_tok !== _srk) {
-      if (!_tok || _tok === _ak) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-      const _sb = createClient(Deno.env.get("SUPABASE_URL")!, _srk);
-      const { data: _auth } = await _sb.auth.getUser(_tok);
-      if (!_auth?.user) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-      const { data: _u } = await _sb.from("users").select("role, is_active").eq("auth_user_id", _auth.user.id).maybeSingle();
-      if (!_u || _u.is_active === false || !["super_admin","admin"].includes(_u.role || "")) {
-        return new Response(JSON.stringify({ error: "Forbidden" }), { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } });
-      }
-    }
-  }
-
+  const auth = await authorizeCaller(req, createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!), { roles: ADMIN_ROLES, corsHeaders });
+  if (auth.response) return auth.response;
 
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
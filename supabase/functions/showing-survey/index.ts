@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { parseSurveyAnswers } from "../_shared/generated/showingSurveys.ts";
+import { getTimezoneForCity } from "../_shared/generated/cityTimezone.ts";
+import { verifyShowingToken } from "../_shared/token.ts";
+
+// The short survey a renter answers after a completed tour: condition, price,
+// neighborhood fit, how likely they are to apply, and free text. One answer
+// per showing, kept in showing_surveys; staff read it per property and the
+// owner gets a summary (contact details stripped) in the Leasing Tracker.
+//
+// The link is minted by agent-task-dispatcher's post-showing email:
+// <showingId>.survey.<exp>.<sig>, the same HMAC family as the reschedule and
+// check-out links.
+//
+// GET describes the tour; only POST records anything (mail scanners prefetch
+// URLs). Returns JSON — the page lives on the app domain (see
+// showing-attendance for why Supabase will not serve text/html from here).
+//
+// Deploy with --no-verify-jwt (opened from an email, no Supabase session).
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = buildCorsHeaders({ methods: "GET, POST, OPTIONS" });
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status, headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function formatWhen(iso: string, tz: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: tz, weekday: "long", month: "long", day: "numeric",
+    hour: "numeric", minute: "2-digit",
+  });
+}
+
+interface ShowingRow {
+  id: string;
+  organization_id: string;
+  lead_id: string | null;
+  property_id: string;
+  scheduled_at: string;
+  status: string;
+  leads: { full_name: string | null } | null;
+  properties: { address: string | null; city: string | null } | null;
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const url = new URL(req.url);
+  let token = url.searchParams.get("t") || "";
+  let body: Record<string, unknown> | null = null;
+  if (req.method === "POST") {
+    body = await req.json().catch(() => null);
+    if (body?.t) token = String(body.t);
+  } else if (req.method !== "GET") {
+    return json({ error: "method_not_allowed" }, 405);
+  }
+
+  const parsed = await verifyShowingToken(token, "survey");
+  if (!parsed) return json({ error: "invalid_or_expired" }, 400);
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const { data } = await supabase
+    .from("showings")
+    .select("id, organization_id, lead_id, property_id, scheduled_at, status, leads(full_name), properties(address, city)")
+    .eq("id", parsed.showingId)
+    .maybeSingle();
+  const showing = data as unknown as ShowingRow | null;
+  if (!showing) return json({ error: "not_found" }, 404);
+
+  const prop = showing.properties || { address: null, city: null };
+  const showingInfo = {
+    first_name: String(showing.leads?.full_name || "").trim().split(/\s+/)[0] || "",
+    address: [prop.address, prop.city].filter(Boolean).join(", "),
+    when: formatWhen(showing.scheduled_at, getTimezoneForCity(prop.city)),
+  };
+
+  // Only a tour that happened has anything to rate.
+  if (showing.status !== "completed") return json({ ...showingInfo, state: "closed" });
+
+  const { data: existing } = await supabase
+    .from("showing_surveys").select("id").eq("showing_id", showing.id).maybeSingle();
+  if (existing) return json({ ...showingInfo, state: "already_answered" });
+
+  if (req.method === "GET") return json({ ...showingInfo, state: "survey" });
+
+  const answers = parseSurveyAnswers(body);
+  if (!answers) return json({ error: "bad_request" }, 400);
+
+  // Only the first answer counts — a second submit must not rewrite it.
+  const { data: saved, error } = await supabase
+    .from("showing_surveys")
+    .upsert({
+      organization_id: showing.organization_id,
+      showing_id: showing.id,
+      property_id: showing.property_id,
+      lead_id: showing.lead_id,
+      condition_rating: answers.conditionRating,
+      price_perception: answers.pricePerception,
+      neighborhood_fit: answers.neighborhoodFit,
+      apply_likelihood: answers.applyLikelihood,
+      comments: answers.comments || null,
+    }, { onConflict: "showing_id", ignoreDuplicates: true })
+    .select("id");
+  if (error) {
+    console.error("showing-survey insert failed:", error.message);
+    return json({ error: "save_failed" }, 500);
+  }
+  if (!saved?.length) return json({ ...showingInfo, state: "already_answered" });
+
+  return json({ ...showingInfo, state: "answered" });
+});
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { timingSafeEqual } from "../_shared/crypto.ts";
+import { openHouseRosters, rosterText, type OpenHouseInfo } from "../_shared/generated/openHouse.ts";
 
 // "Leasing Agent" — iCalendar (.ics) feed of every showing, for Google Calendar
 // "Add from URL" and Apple Calendar "New Subscription" (read-only, auto-updating).
@@ -15,11 +18,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 // without the flag can't silently 401 every subscriber (calendar clients fail
 // their refresh without surfacing an error).
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "GET, HEAD, OPTIONS",
-};
+const corsHeaders = buildCorsHeaders({ methods: "GET, HEAD, OPTIONS" });
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 const ORG_SLUG = "rent-finder-cleveland";
@@ -28,17 +27,6 @@ const TOKEN_SECRET = Deno.env.get("LEAD_TOKEN_SECRET") || Deno.env.get("UNSUBSCR
 // Attendance links stay valid well past the showing — the owner marks late.
 const ATTENDANCE_TTL_DAYS = 120;
 
-// Constant-time compare (from unsubscribe/index.ts) — don't leak token validity via timing.
-function timingSafeEqual(a: string, b: string): boolean {
-  const enc = new TextEncoder();
-  const ab = enc.encode(a);
-  const bb = enc.encode(b);
-  if (ab.length !== bb.length) return false;
-  let diff = 0;
-  for (let i = 0; i < ab.length; i++) diff |= ab[i] ^ bb[i];
-  return diff === 0;
-}
-
 // ── Signed attendance links ──
 // Same HMAC shape as resolve-lead-token: <showingId>.<action>.<exp>.<sig>.
 // Stateless, carries an expiry, and the signature is checked before any DB hit.
@@ -128,6 +116,7 @@ const SOURCE_LABEL: Record<string, string> = {
   telegram_bot: "Bot de Telegram",
   admin: "Cargado desde el panel",
   campaign: "Campaña de correo",
+  open_house_waitlist: "Lista de espera del open house",
 };
 const STATUS_LABEL: Record<string, string> = {
   scheduled: "Agendado",
@@ -174,7 +163,7 @@ serve(async (req: Request) => {
     .from("showings")
     .select(`
       id, scheduled_at, status, duration_minutes, booking_source, booked_by_name,
-      agent_report, cancellation_reason, lead_id,
+      agent_report, cancellation_reason, lead_id, open_house_slot_id,
       properties(address, unit_number, city, state, zip_code, rent_price, bedrooms, bathrooms),
       leads(full_name, phone, email, has_voucher, voucher_amount, housing_authority, move_in_date)
     `)
@@ -203,6 +192,29 @@ serve(async (req: Request) => {
     }
   }
 
+  // Open houses: every attendee's event lists who else is coming.
+  const openHouseIds = [...new Set(rows.map((s) => s.open_house_slot_id).filter(Boolean))] as string[];
+  const openHouseInfo = new Map<string, OpenHouseInfo>();
+  if (openHouseIds.length) {
+    const [{ data: slots }, { data: waiting }] = await Promise.all([
+      supabase.from("showing_available_slots").select("id, capacity").in("id", openHouseIds),
+      supabase.from("open_house_waitlist").select("slot_id").in("slot_id", openHouseIds).eq("status", "waiting"),
+    ]);
+    for (const sl of (slots || []) as { id: string; capacity: number }[]) {
+      openHouseInfo.set(sl.id, {
+        capacity: sl.capacity,
+        waiting: ((waiting || []) as { slot_id: string }[]).filter((w) => w.slot_id === sl.id).length,
+      });
+    }
+  }
+  const rosters = openHouseRosters(
+    rows,
+    (s) => s.open_house_slot_id,
+    (s) => String(s.leads?.full_name || "Lead"),
+    (s) => s.status,
+    openHouseInfo,
+  );
+
   // Attendance links point at the APP, not at the functions domain: Supabase
   // coerces text/html there to text/plain (anti-phishing), so a confirmation
   // page served from the function would render as raw source. The app page
@@ -274,6 +286,8 @@ serve(async (req: Request) => {
     if (specs) desc.push(`🏠 ${specs}`);
     if (prop.city) desc.push(`📍 ${addr}`);
     if (prop.unit_number) desc.push(`🚪 Unidad ${prop.unit_number}`);
+    const roster = s.open_house_slot_id ? rosters.get(s.open_house_slot_id) : undefined;
+    if (roster) desc.push(`👥 ${rosterText(roster)}`);
     desc.push("");
     if (moveIn) desc.push(`📆 Se muda: ${moveIn}`);
     desc.push(paymentLabel(lead.has_voucher, lead.voucher_amount));
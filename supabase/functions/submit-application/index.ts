@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { toE164 } from "../_shared/phone.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
+import { escapeHtml } from "../_shared/html.ts";
 
 // ────────────────────────────────────────────────────────────────────────────
 // submit-application
@@ -18,13 +22,6 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 // team collects it later. This function never sees card/bank data.
 // ────────────────────────────────────────────────────────────────────────────
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
 // Single-tenant org resolution (never hardcode the UUID — resolve by slug, with
 // a fallback to the oldest org). Mirrors leasing-tracker-lookup.
 const ORG_SLUG = "rent-finder-cleveland";
@@ -36,15 +33,6 @@ function json(body: unknown, status = 200) {
   });
 }
 
-/** Normalize a US phone to E.164 (+1XXXXXXXXXX). Returns null if not 10/11 digits. */
-function toE164(raw: unknown): string | null {
-  if (typeof raw !== "string") return null;
-  const d = raw.replace(/\D/g, "");
-  if (d.length === 10) return `+1${d}`;
-  if (d.length === 11 && d.startsWith("1")) return `+${d}`;
-  return null;
-}
-
 function splitName(full: string): { first: string; last: string } {
   const parts = full.trim().split(/\s+/);
   const first = parts[0] || "";
@@ -135,6 +123,7 @@ serve(async (req: Request) => {
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, serviceRoleKey, {
       auth: { persistSession: false },
+      ...leadAuditOptions({ source: "submit_application" }),
     });
 
     const body = await req.json().catch(() => ({}));
@@ -472,29 +461,27 @@ serve(async (req: Request) => {
           }
           // Big call-to-action card with ALL the form info. Phone stays plain
           // E.164 so Telegram mobile auto-detects a tappable call link.
-          const esc = (s: unknown) =>
-            String(s ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
           const merged: Record<string, any> = { ...lead, ...update };
           const msg = [
             `🧾🚨 <b>NUEVA APLICACIÓN ONLINE</b>`,
             ``,
             `📞 <b>LLAMAR AHORA:</b> ${e164 || "—"}`,
-            `👤 <b>${esc(merged.full_name || "—")}</b>`,
-            `✉️ ${esc(merged.email || "—")}`,
-            propAddr ? `📍 ${esc(propAddr)}` : `📍 Sin propiedad específica`,
+            `👤 <b>${escapeHtml(merged.full_name || "—")}</b>`,
+            `✉️ ${escapeHtml(merged.email || "—")}`,
+            propAddr ? `📍 ${escapeHtml(propAddr)}` : `📍 Sin propiedad específica`,
             ``,
             merged.has_voucher === true
-              ? `🎟️ Voucher Section 8${merged.housing_authority ? ` · ${esc(merged.housing_authority)}` : ""}`
+              ? `🎟️ Voucher Section 8${merged.housing_authority ? ` · ${escapeHtml(merged.housing_authority)}` : ""}`
               : merged.has_voucher === false ? `💵 Self-pay (sin voucher)` : null,
-            merged.move_in_date ? `📅 Move-in: ${esc(merged.move_in_date)}` : null,
+            merged.move_in_date ? `📅 Move-in: ${escapeHtml(merged.move_in_date)}` : null,
             (merged.budget_min || merged.budget_max)
               ? `💰 Budget: $${merged.budget_min ?? "?"}–$${merged.budget_max ?? "?"}` : null,
-            nextPrefs.household_size != null ? `👥 En el hogar: ${esc(nextPrefs.household_size)}` : null,
+            nextPrefs.household_size != null ? `👥 En el hogar: ${escapeHtml(nextPrefs.household_size)}` : null,
             Array.isArray(nextPrefs.property_types) && nextPrefs.property_types.length
-              ? `🏘️ Busca: ${esc(nextPrefs.property_types.join(", "))}` : null,
-            nextPrefs.pets ? `🐾 Mascotas: ${esc(nextPrefs.pets)}` : null,
-            nextPrefs.income_source ? `💼 Ingreso: ${esc(nextPrefs.income_source)}` : null,
-            nextPrefs.move_urgency ? `⏱️ Urgencia: ${esc(nextPrefs.move_urgency)}` : null,
+              ? `🏘️ Busca: ${escapeHtml(nextPrefs.property_types.join(", "))}` : null,
+            nextPrefs.pets ? `🐾 Mascotas: ${escapeHtml(nextPrefs.pets)}` : null,
+            nextPrefs.income_source ? `💼 Ingreso: ${escapeHtml(nextPrefs.income_source)}` : null,
+            nextPrefs.move_urgency ? `⏱️ Urgencia: ${escapeHtml(nextPrefs.move_urgency)}` : null,
             consent?.sms_consent ? `📱 Consintió SMS/llamadas ✅` : `📱 Sin consentimiento SMS`,
             ``,
             `⚠️ No es formal hasta pagar el fee de $59.90 (TransUnion) · Necesita ID + 3 paystubs (3× renta).`,
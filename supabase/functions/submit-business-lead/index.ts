@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { escapeHtml } from "../_shared/html.ts";
 
 // ────────────────────────────────────────────────────────────────────────────
 // submit-business-lead
@@ -11,12 +13,6 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 // authed "Business" sidebar page. No renter-pipeline side effects.
 // ────────────────────────────────────────────────────────────────────────────
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
 const ORG_SLUG = "rent-finder-cleveland";
 const VALID_TYPES = ["housing_partner", "corporate_leasing", "landlord_owner"];
 
@@ -130,16 +126,14 @@ serve(async (req: Request) => {
         const label = TYPE_LABELS[leadType] ?? leadType;
         // Big call-to-action card with the full form. Phone stays plain E.164-ish
         // so Telegram mobile auto-detects a tappable call link.
-        const esc = (s: unknown) =>
-          String(s ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
         const msg = [
           `🤝🚨 <b>NUEVO BUSINESS LEAD — ${label}</b>`,
           ``,
-          phone ? `📞 <b>LLAMAR AHORA:</b> ${esc(phone)}` : null,
-          `👤 <b>${esc(fullName)}</b>${body.organization_name ? ` — ${esc(clampStr(body.organization_name, 160))}` : ""}`,
-          `✉️ ${esc(email || "—")}`,
-          body.message ? `📝 «${esc(clampStr(body.message, 900))}»` : null,
-          `🔗 Origen: ${esc(clampStr(body.source_detail, 120) || clampStr(body.source, 40) || "footer")}`,
+          phone ? `📞 <b>LLAMAR AHORA:</b> ${escapeHtml(phone)}` : null,
+          `👤 <b>${escapeHtml(fullName)}</b>${body.organization_name ? ` — ${escapeHtml(clampStr(body.organization_name, 160))}` : ""}`,
+          `✉️ ${escapeHtml(email || "—")}`,
+          body.message ? `📝 «${escapeHtml(clampStr(body.message, 900))}»` : null,
+          `🔗 Origen: ${escapeHtml(clampStr(body.source_detail, 120) || clampStr(body.source, 40) || "footer")}`,
           ``,
           `➡️ En la pestaña Business.`,
         ].filter((l) => l !== null).join("\n");
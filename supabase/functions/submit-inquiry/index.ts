@@ -1,4 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { toE164 } from "../_shared/phone.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
 
 // submit-inquiry — public "Ask a question about this home" lead capture.
 // Creates a website lead tied to the property, storing the question in
@@ -7,10 +10,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 // consent (the team simply replies to a user-initiated question).
 // Org is resolved server-side by slug — never trusted from the client.
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+const corsHeaders = buildCorsHeaders();
 
 const ORG_SLUG = "rent-finder-cleveland";
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
@@ -31,25 +31,11 @@ interface InquiryBody {
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
-/**
- * Normalize a US phone to E.164 (+1XXXXXXXXXX). Returns null if not 10/11 digits.
- * The leads.phone column is stored E.164 (the noah dedup trigger canonicalizes
- * NEW.phone on INSERT), so we MUST match against the normalized value — matching
- * the raw user-typed string ("(216) 555-0100") never hits an existing lead.
- */
-function toE164(raw: unknown): string | null {
-  if (typeof raw !== "string") return null;
-  const d = raw.replace(/\D/g, "");
-  if (d.length === 10) return `+1${d}`;
-  if (d.length === 11 && d.startsWith("1")) return `+${d}`;
-  return null;
-}
-
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
 
   try {
-    const supabase = createClient(supabaseUrl, serviceKey);
+    const supabase = createClient(supabaseUrl, serviceKey, leadAuditOptions({ source: "submit_inquiry" }));
     const body = (await req.json()) as InquiryBody;
 
     const message = (body.message || "").trim();
@@ -205,6 +191,12 @@ Deno.serve(async (req) => {
       if (tagError) console.error("Property tag error:", tagError);
     }
 
+    // Give a new lead its owner — after tagging, so property rules see the tag.
+    if (isNewLead) {
+      const { error: assignError } = await supabase.rpc("assign_leads", { p_lead_ids: [leadId] });
+      if (assignError) console.error("Lead assignment error:", assignError);
+    }
+
     // Best-effort real-time new-lead alert (RFC Report bot) — never blocks
     if (isNewLead) {
       try {
@@ -1,12 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
+import { isServiceRoleToken, bearerToken } from "../_shared/auth.ts";
 
 // Normalize a phone to its last-10 US digits for comparison.
 function normPhone10(p: string | null | undefined): string {
@@ -87,14 +83,12 @@ serve(async (req: Request) => {
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
-    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "sync_leads_to_doorloop" }));
 
     // ── Authenticate caller (service-role only) ────────────────────
     // This is a cron/background bulk sync. Only the scheduler / internal edge calls
     // (which carry the service-role key) may invoke it. Reject user/anon callers.
-    const authHeader = req.headers.get("Authorization") || "";
-    const callerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
-    if (callerToken !== serviceRoleKey) {
+    if (!isServiceRoleToken(bearerToken(req), serviceRoleKey)) {
       return new Response(
         JSON.stringify({ error: "Unauthorized" }),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
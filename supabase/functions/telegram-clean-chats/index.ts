@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
 
 // telegram-clean-chats — nightly self-clean of every bot's chat at 1am ET.
 // Telegram's Bot API only lets a bot delete messages < 48h old (and there is no
@@ -10,11 +12,6 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 // mark so each run only touches the new messages (which stay inside the 48h
 // window). Best-effort: >48h / already-deleted ids just fail and are skipped.
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 const ORG_SLUG = "rent-finder-cleveland";
@@ -35,9 +32,7 @@ serve(async (req) => {
   if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
 
   // Internal-only (cron / service-role). Accept the key from Authorization OR apikey.
-  const bearer = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
-  const apikey = req.headers.get("apikey") || "";
-  if (bearer !== serviceKey && apikey !== serviceKey) return json({ ok: false, error: "unauthorized" }, 401);
+  if (!isServiceRoleRequest(req)) return json({ ok: false, error: "unauthorized" }, 401);
 
   const supabase = createClient(supabaseUrl, serviceKey);
   const body = (await req.json().catch(() => ({}))) as any;
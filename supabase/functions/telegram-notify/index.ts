@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
 
 // telegram-notify — the single service-role choke point for Telegram alerts.
 // Callable edge-to-edge and from cron (no user JWT). Routes to one of the two
@@ -9,23 +12,10 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 //   channel "report"   → general bot   (telegram_bot_token / telegram_chat_id)
 //   channel "showings" → showings bot  (telegram_showings_* → route settings → general)
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
 const ORG_SLUG = "rent-finder-cleveland";
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
-function escapeHtml(s: unknown): string {
-  return String(s ?? "")
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
-}
-
 interface NotifyBody {
   organization_id?: string;
   channel?: "report" | "showings";
@@ -158,9 +148,7 @@ serve(async (req) => {
   // INTERNAL-ONLY sender (deployed --no-verify-jwt): without this gate, anyone
   // could push forged interactive lead cards into the owner's chat. Accept the
   // service key from Authorization OR apikey (functions.invoke uses apikey).
-  const bearer = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
-  const apikeyHdr = req.headers.get("apikey") || "";
-  if (bearer !== serviceKey && apikeyHdr !== serviceKey) {
+  if (!isServiceRoleRequest(req)) {
     return new Response(JSON.stringify({ ok: false, error: "unauthorized" }), {
       status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
@@ -1,11 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { escapeHtml } from "../_shared/html.ts";
+import { timingSafeEqual } from "../_shared/crypto.ts";
+import { quickReportText } from "../_shared/generated/showingReports.ts";
+import { planRoutes } from "../_shared/generated/routePlanner.ts";
+import { openHouseRosters, rosterHeadline, rosterText, type OpenHouseInfo } from "../_shared/generated/openHouse.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
 
 const NY = "America/New_York";
 const CT = "America/Chicago";
@@ -35,21 +36,6 @@ const SESSION_TTL_MIN = 30; // an in-flight flow older than this is treated as g
 const REPORT_TRIGGERS = new Set([
   "report", "reporte", "r", "/report", "/reporte", "/r", "informe", "/informe", "status", "/status",
 ]);
-/**
- * Outcome marker written to `showings.agent_report` when a tour is resolved with
- * the one-tap buttons instead of a typed write-up.
- *
- * ⚠️ MUST stay byte-identical to `quickReportText` in `src/lib/showingReports.ts`.
- * Deno cannot import from `src/`, so this is a deliberate duplicate rather than a
- * pretend-shared module. The text is owner-facing: it flows through
- * leasing-tracker-lookup into the public Leasing Tracker verbatim. If you change
- * one, change the other.
- */
-const quickReportText = (attended: boolean): string =>
-  attended
-    ? "Asistió ✅"
-    : "No asistió 👻 — en seguimiento para confirmar la visita";
-
 const HELP_TRIGGERS = new Set(["help", "/help", "ayuda", "/ayuda"]);
 // Open the action menu.
 const MENU_TRIGGERS = new Set([
@@ -111,7 +97,7 @@ serve(async (req: Request) => {
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "telegram_webhook" }));
 
   try {
     const update = await req.json();
@@ -346,12 +332,16 @@ async function handleCallback(ctx: Ctx, cbq: any) {
   // session-backed picker is gone (its targets lived in the session, so the
   // buttons died as soon as the list expired).
   // `sgc` = el selector de ciudad; `sgd:<pág>:<mercado>` = la agenda de esa
-  // ciudad; `sgr:<mercado>` = sus showings ya resueltos. El mercado va AL FINAL
-  // para que un nombre con dos puntos no rompa el parseo.
+  // ciudad; `sgr:<mercado>` = sus showings ya resueltos; `sgt:<mercado>` = la
+  // ruta del día. El mercado va AL FINAL para que un nombre con dos puntos no
+  // rompa el parseo.
   const AG_CB =
     data.startsWith("sag:") || data.startsWith("sac:") ||
-    data.startsWith("sgd:") || data.startsWith("sgr:") ||
+    data.startsWith("sgd:") || data.startsWith("sgr:") || data.startsWith("sgt:") ||
     ["m:ag", "m:agf", "sgc"].includes(data);
+  // Órdenes de mantenimiento: `wo:ls` lista, `wo:new` abre una, `wo:p:<prop>`
+  // elige la propiedad, `wo:c:/wo:u:/wo:f:<orden>` = cerrar / urgente / foto.
+  const WO_CB = data.startsWith("wo:");
   // SMS del día del showing, colgado de la tarjeta de los 30 min (keyed por
   // showing). El correo se retiró de este bot: `sse:/ssp:/ssx:` siguen
   // ADMITIDOS a propósito porque showing-reminder se despliega por separado y
@@ -371,7 +361,7 @@ async function handleCallback(ctx: Ctx, cbq: any) {
     // Showings = field assistant: post-tour, recap, showing report, agenda/ruta.
     // `ssm:/ssb:/sse:/ssp:/ssx:` = the showing-day SMS + email pickers hanging off
     // the 30-min reminder card. Showings-only, like `rmd:`.
-    : ctx.bot === "showings" ? (data.startsWith("psw:") || data.startsWith("psa:") || data === "m:ps" || data.startsWith("sd:") || data.startsWith("cz:") || data.startsWith("rmd:") || SHW_MSG_CB || SHW_RETIRED_EMAIL_CB || SR_CB || AG_CB)
+    : ctx.bot === "showings" ? (data.startsWith("psw:") || data.startsWith("psa:") || data === "m:ps" || data.startsWith("sd:") || data.startsWith("cz:") || data.startsWith("rmd:") || SHW_MSG_CB || SHW_RETIRED_EMAIL_CB || SR_CB || AG_CB || WO_CB)
     : false;
   if (!cbAllowed) {
     await answer(); await redirectToLeasing(ctx, messageId); return;
@@ -402,6 +392,7 @@ async function handleCallback(ctx: Ctx, cbq: any) {
     if (data === "sd:menu")  { await answer(); await purgeContactCard(ctx); await send(ctx, SHW_GREETING, shwMenuKeyboard()); return; }
     if (data === "m:ps") { await answer(); await purgeContactCard(ctx); await startRecentShowings(ctx, messageId); return; }
     if (data.startsWith("psw:")) { await answer(); await postShowingCard(ctx, messageId, data.slice(4)); return; }
+    if (data.startsWith("wo:")) { await handleWorkOrderCb(ctx, cbq, data); return; }
     if (data.startsWith("psa:")) { await handleAttendance(ctx, cbq, data); return; }
     if (data.startsWith("rmd:")) { await handleReminderAction(ctx, cbq, data); return; }
     if (data.startsWith("ssm:")) { await showingSmsPicker(ctx, cbq, data); return; }
@@ -436,6 +427,10 @@ async function handleCallback(ctx: Ctx, cbq: any) {
       await answer(); await purgeContactCard(ctx);
       await renderMarketResolved(ctx, messageId, data.slice(4)); return;
     }
+    if (data.startsWith("sgt:")) {
+      await answer("Calculando la ruta…"); await purgeContactCard(ctx);
+      await renderMarketRoute(ctx, messageId, data.slice(4)); return;
+    }
     if (data === "m:sch") { await answer(); await startSchedule(ctx, messageId); return; }
     if (data === "m:new") { await answer(); await startCreateLead(ctx, messageId, true); return; }
     if (data === "m:ag")  { await answer("Cargando agenda…"); await purgeContactCard(ctx); await showAgenda(ctx, messageId); return; }
@@ -2697,7 +2692,7 @@ async function startRecentShowings(ctx: Ctx, messageId?: number) {
     .not("status", "in", "(cancelled,rescheduled)")
     .is("followed_up_at", null)
     .order("scheduled_at", { ascending: false }).limit(40);
-  const rows = ((data || []) as any[])
+  const rows = ((data || []) as Omit<WorkOrderRow, "status" | "resolution_notes">[])
     // Mismo predicado que la agenda: sin esto un showing podía estar fuera de
     // 🏁 recientes y a la vez contarse "sin resolver" en el resumen de las 8pm.
     .filter((s) => s.leads?.id && isPendingShowing(s))
@@ -2735,6 +2730,7 @@ function shwMenuKeyboard() {
     [{ text: "🏁 Showings recientes", callback_data: "m:ps" }],
     [{ text: "📝 Reporte de showing", callback_data: "m:sr" }],
     [{ text: "📊 ¿Qué pasó hoy?", callback_data: "sd:recap" }],
+    [{ text: "🔧 Mantenimiento", callback_data: "wo:ls" }],
   ];
 }
 
@@ -2775,9 +2771,14 @@ async function ensureShowingsHomeKeyboard(ctx: Ctx) {
 async function handleShowingsText(ctx: Ctx, rawText: string) {
   const raw = String(rawText).trim();
   const t = raw.toLowerCase();
-  // /start is the only command. /agenda, /recientes and /showing were retired
-  // into the root menu, so ANY slash — including the retired ones still sitting
-  // in someone's Telegram history — lands on the same single menu.
+  // /start is the only menu command. /agenda, /recientes and /showing were
+  // retired into the root menu, so any other slash — including the retired ones
+  // still sitting in someone's Telegram history — lands on the same single menu.
+  // The exception is maintenance: /orden, /ordenes and /cerrar <n> [nota] are
+  // typed from a unit with a leak in front of you, not browsed to.
+  if (t === "/orden") { await startWorkOrder(ctx, undefined); return; }
+  if (t === "/ordenes") { await showWorkOrders(ctx, undefined); return; }
+  if (t === "/cerrar" || t.startsWith("/cerrar ")) { await closeWorkOrderCommand(ctx, raw.slice(7).trim()); return; }
   if (t.startsWith("/")) {
     await ensureShowingsHomeKeyboard(ctx);
     await send(ctx, SHW_GREETING, shwMenuKeyboard());
@@ -2789,6 +2790,9 @@ async function handleShowingsText(ctx: Ctx, rawText: string) {
     if (session) {
       if (session.step === "sr_text") { await handleShowingReportText(ctx, session, raw); return; }
       if (session.step === "sr_photo") { await send(ctx, "📷 Envía una <b>foto</b>, o toca <b>Volver</b>."); return; }
+      if (session.step === "wo_property") { await handleWorkOrderProperty(ctx, raw); return; }
+      if (session.step === "wo_text") { await createWorkOrderFromText(ctx, session, raw); return; }
+      if (session.step === "wo_photo") { await send(ctx, "📷 Envía la <b>foto</b> de la orden, o toca <b>Listo</b>."); return; }
       if (["sr_pick", "sr_attend", "sr_review"].includes(session.step)) {
         await send(ctx, "👆 Usa los botones de arriba, o manda <b>menu</b> para reiniciar.");
         return;
@@ -3258,7 +3262,6 @@ async function handleShowingSms(ctx: Ctx, cbq: any, data: string) {
      shwBackRow(showingId)]);
 }
 
-
 // ═══════════════════════════════════════════════════════════════════════════════
 // Session helpers
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -4128,8 +4131,9 @@ function resolvedGlyph(s: any): string {
 // `showings` NO tiene columna de ciudad ni de mercado (verificado: 25 columnas),
 // así que el agrupamiento pasa obligatoriamente por el join con properties.
 const AGENDA_SELECT = `id, scheduled_at, status, lead_id, followed_up_at, cancelled_at, cancellation_reason,
+      duration_minutes, leasing_agent_id, self_guided, open_house_slot_id,
       leads:lead_id ( id, full_name, first_name, last_name, phone, has_voucher, voucher_amount ),
-      properties:property_id ( address, unit_number, city, market, rent_price, bedrooms, bathrooms )`;
+      properties:property_id ( address, unit_number, city, state, zip_code, market, rent_price, bedrooms, bathrooms, latitude, longitude )`;
 
 // Todos los showings de HOY, agrupados por mercado. "Hoy" no es lo mismo en
 // Cleveland que en Milwaukee, así que se trae una ventana ancha y cada fila se
@@ -4182,6 +4186,28 @@ function resolveMarket(byMarket: Map<string, any[]>, raw: string): string | null
 
 const AGENDA_PAGE = 8;
 
+// Asistentes de cada open house entre estas filas, con cupo y lista de espera.
+async function fetchOpenHouseRosters(
+  ctx: Ctx,
+  rows: { open_house_slot_id?: string | null; status: string; leads?: Record<string, unknown> | null }[],
+) {
+  const slotIds = [...new Set(rows.map((s) => s.open_house_slot_id).filter((id): id is string => !!id))];
+  const info = new Map<string, OpenHouseInfo>();
+  if (slotIds.length) {
+    const [{ data: slots }, { data: waiting }] = await Promise.all([
+      ctx.supabase.from("showing_available_slots").select("id, capacity").in("id", slotIds),
+      ctx.supabase.from("open_house_waitlist").select("slot_id").in("slot_id", slotIds).eq("status", "waiting"),
+    ]);
+    for (const sl of (slots || []) as { id: string; capacity: number }[]) {
+      info.set(sl.id, {
+        capacity: sl.capacity,
+        waiting: ((waiting || []) as { slot_id: string }[]).filter((w) => w.slot_id === sl.id).length,
+      });
+    }
+  }
+  return openHouseRosters(rows, (s) => s.open_house_slot_id, (s) => leadName(s.leads || {}), (s) => s.status, info);
+}
+
 // 📅 Agenda — el menú del bot de Showings. Con una sola ciudad entra directo;
 // con dos o más pregunta cuál, porque mezclarlas era lo que escondía showings.
 async function showAgenda(ctx: Ctx, messageId?: number) {
@@ -4262,6 +4288,8 @@ async function renderMarketAgenda(
   const p = page < 0 ? Math.min(auto, pages - 1) : Math.min(Math.max(0, page), pages - 1);
   const slice = rows.slice(p * AGENDA_PAGE, (p + 1) * AGENDA_PAGE);
   const nowMs = Date.now();
+  const rosters = await fetchOpenHouseRosters(ctx, rows);
+  const rosterShown = new Set<string>();
 
   const lines: string[] = [
     `🗺️ <b>${escapeHtml(market!)} — ${escapeHtml(dayLabelTz(todayInTz(tz), tz))}</b>`,
@@ -4288,6 +4316,12 @@ async function renderMarketAgenda(
     if (l.phone) who.push(`📞 ${escapeHtml(String(l.phone))}`);
     if (l.has_voucher) who.push(`🎟️${l.voucher_amount ? ` $${Number(l.voucher_amount).toLocaleString()}` : " Voucher"}`);
     lines.push(`   ${who.join(" · ")}`);
+    // Open house: la lista completa en el primer asistente, el resumen en los demás.
+    const roster = s.open_house_slot_id ? rosters.get(s.open_house_slot_id) : undefined;
+    if (roster) {
+      lines.push(`   👥 ${escapeHtml(rosterShown.has(s.open_house_slot_id) ? rosterHeadline(roster) : rosterText(roster))}`);
+      rosterShown.add(s.open_house_slot_id);
+    }
     if (!pend) lines.push(`   <i>${escapeHtml(resolvedLabel(s))}</i>`);
     lines.push("");
   });
@@ -4311,6 +4345,9 @@ async function renderMarketAgenda(
   if (resolved.length) {
     kb.push([{ text: `✔️ Ya resueltos (${resolved.length})`, callback_data: marketCb("sgr:", market!) }]);
   }
+  if (rows.filter((s) => s.status !== "rescheduled").length > 1) {
+    kb.push([{ text: "🚗 Ruta del día", callback_data: marketCb("sgt:", market!) }]);
+  }
   if (multi) kb.push([{ text: "🗺️ Otra ciudad", callback_data: "sgc" }]);
   kb.push([{ text: "📆 Agenda completa", callback_data: "m:agf" }]);
   kb.push([{ text: "🏠 Menú", callback_data: "sd:menu" }]);
@@ -4353,6 +4390,101 @@ async function renderMarketResolved(ctx: Ctx, messageId: number | undefined, mar
   await editOrSend(ctx, messageId, lines.join("\n"), kb);
 }
 
+// 🚗 La ruta del día de UNA ciudad: en qué orden van las casas, cuánto se
+// maneja entre una y otra y qué visitas seguidas no dan los tiempos. Los
+// minutos salen del modelo local de lib/routePlanner (distancia, sin tráfico
+// ni API de mapas). Con varios agentes en la ciudad, una ruta por agente.
+async function renderMarketRoute(ctx: Ctx, messageId: number | undefined, marketRaw: string) {
+  const byMarket = await fetchTodayByMarket(ctx);
+  const market = resolveMarket(byMarket, marketRaw);
+  if (!market && byMarket.size) { await renderMarketPicker(ctx, messageId, byMarket); return; }
+  const back = marketCb("sgd:a:", market ?? marketRaw);
+  // Las visitas sin agente (código de acceso) no son paradas de nadie, y un
+  // open house es UNA parada por muchos inquilinos que vengan.
+  const seenOpenHouse = new Set<string>();
+  const rows = (market ? byMarket.get(market) ?? [] : [])
+    .filter((s) => s.status !== "rescheduled" && !s.self_guided)
+    .filter((s) => {
+      if (!s.open_house_slot_id) return true;
+      if (seenOpenHouse.has(s.open_house_slot_id)) return false;
+      seenOpenHouse.add(s.open_house_slot_id);
+      return true;
+    });
+  if (rows.length < 2) {
+    await editOrSend(ctx, messageId, "🚗 Con menos de dos visitas hoy no hay ruta que armar.",
+      [[{ text: "◀️ Volver a la agenda", callback_data: back }]]);
+    return;
+  }
+  const tz = tzFor(market!);
+  const byId = new Map(rows.map((s) => [s.id, s]));
+  const plans = planRoutes(
+    rows.map((s) => ({
+      id: s.id, start: s.scheduled_at, durationMinutes: s.duration_minutes || 30,
+      lat: s.properties?.latitude ?? null, lng: s.properties?.longitude ?? null,
+      agent: s.leasing_agent_id || "",
+    })),
+    (s) => s.agent,
+  );
+  const agentIds = [...plans.keys()].filter(Boolean);
+  const names = new Map<string, string>();
+  if (agentIds.length) {
+    const { data: users } = await ctx.supabase.from("users").select("id, full_name").in("id", agentIds);
+    for (const u of (users || []) as { id: string; full_name: string | null }[]) names.set(u.id, u.full_name || "Agente");
+  }
+
+  const stopAddr = (id: string) => String(byId.get(id)?.properties?.address ?? "—");
+  const lines: string[] = [`🚗 <b>Ruta — ${escapeHtml(market!)} · ${escapeHtml(dayLabelTz(todayInTz(tz), tz))}</b>`];
+  const kb: { text: string; url?: string; callback_data?: string }[][] = [];
+  for (const [agent, plan] of plans) {
+    lines.push(``);
+    if (plans.size > 1) lines.push(`👤 <b>${escapeHtml(agent ? names.get(agent) ?? "Agente" : "Sin agente asignado")}</b>`);
+    lines.push(`${plan.stops.length} parada${plan.stops.length === 1 ? "" : "s"} · ~${plan.driveMinutes} min de manejo`);
+    if (plan.impossible || plan.tight) {
+      lines.push([
+        plan.impossible ? `⚠️ ${plan.impossible} traslado${plan.impossible === 1 ? "" : "s"} imposible${plan.impossible === 1 ? "" : "s"}` : "",
+        plan.tight ? `⏱️ ${plan.tight} justo${plan.tight === 1 ? "" : "s"}` : "",
+      ].filter(Boolean).join(" · "));
+    }
+    lines.push(``);
+    plan.stops.forEach((st, i) => {
+      const leg = i > 0 ? plan.legs[i - 1] : null;
+      if (leg) {
+        if (leg.status === "unknown") lines.push(`   <i>🚗 sin coordenadas para estimar</i>`);
+        else if (leg.driveMinutes === 0) lines.push(`   <i>🏠 misma casa</i>`);
+        else if (leg.status === "impossible") {
+          lines.push(`   ⚠️ <b>No llega:</b> ~${leg.driveMinutes} min de manejo y ${Math.max(0, leg.gapMinutes)} min entre visitas`);
+        } else {
+          lines.push(`   ${leg.status === "tight" ? "⏱️" : "🚗"} ~${leg.driveMinutes} min · ${leg.slackMinutes} min de margen`);
+        }
+      }
+      const s = byId.get(st.id);
+      lines.push(`${i + 1}. <b>${escapeHtml(fmtTimeTz(st.start, tz))}</b> — ${escapeHtml(stopAddr(st.id))} · ${escapeHtml(leadName(s?.leads || {}))}`);
+    });
+    if (plan.suggestedOrder && plan.suggestedDriveMinutes != null) {
+      const pos = new Map(plan.stops.map((st, i) => [st.id, i + 1]));
+      lines.push(``,
+        `🧭 Por cercanía ahorrarías ~${plan.driveMinutes - plan.suggestedDriveMinutes} min: ` +
+        plan.suggestedOrder.map((id) => pos.get(id)).join(" → "));
+    }
+    // Google Maps arma el recorrido en el teléfono; tope de 9 paradas intermedias.
+    const addrs = plan.stops.map((st) => {
+      const pr = byId.get(st.id)?.properties || {};
+      return [pr.address, pr.city, pr.state, pr.zip_code].filter(Boolean).join(", ");
+    }).filter(Boolean);
+    if (addrs.length > 1) {
+      const params = new URLSearchParams({
+        api: "1", origin: addrs[0], destination: addrs[addrs.length - 1], travelmode: "driving",
+      });
+      if (addrs.length > 2) params.set("waypoints", addrs.slice(1, -1).slice(0, 9).join("|"));
+      const who = plans.size > 1 ? ` · ${agent ? names.get(agent) ?? "Agente" : "sin agente"}` : "";
+      kb.push([{ text: `🗺️ Abrir en Google Maps${who}`.slice(0, 62), url: `https://www.google.com/maps/dir/?${params}` }]);
+    }
+  }
+  lines.push(``, `<i>Tiempos estimados por distancia, sin tráfico.</i>`);
+  kb.push([{ text: "◀️ Volver a la agenda", callback_data: back }]);
+  await editOrSend(ctx, messageId, lines.join("\n"), kb);
+}
+
 // Un botón por parada. El texto es informativo; el botón es la acción.
 function agendaSlotButton(s: any, l: any, p: any, tz: string): { text: string; callback_data: string } {
   const time = fmtTimeTz(s.scheduled_at, tz);
@@ -4584,6 +4716,7 @@ async function handlePhoto(ctx: Ctx, message: any) {
   if ((!session || session.step !== "sr_photo" || !session?.data?.sr_id) && ctx.bot === "funnel") {
     await captureFromImage(ctx, message); return;
   }
+  if (session?.step === "wo_photo" && session.data?.wo_id) { await attachWorkOrderPhoto(ctx, session, message); return; }
   if (session?.step !== "sr_photo" || !session?.data?.sr_id) return; // only during the report flow
   const photos = message.photo || [];
   const largest = photos[photos.length - 1];
@@ -4653,6 +4786,226 @@ async function saveShowingReport(ctx: Ctx, messageId: number | undefined) {
     [[{ text: "📝 Otro reporte", callback_data: "m:sr" }, { text: "🏠 Menú", callback_data: "m:menu" }]]);
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// 🔧 Órdenes de mantenimiento — abrir y cerrar desde la unidad.
+// ═══════════════════════════════════════════════════════════════════════════════
+// Mismas filas que /maintenance en la web. El bot escribe con service role, así
+// que cada lectura se acota a las propiedades de la organización a mano.
+// Sin usuario del CRM detrás: created_by queda vacío y source = 'telegram'.
+const WO_PRIORITY_ICON: Record<string, string> = { urgent: "🚨", high: "🔴", medium: "🟡", low: "⚪" };
+const WO_PRIORITY_RANK: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+const WO_OPEN = ["open", "in_progress", "on_hold"];
+
+interface WoProperty { id?: string; address: string; unit_number: string | null; }
+interface WorkOrderRow {
+  id: string;
+  number: number;
+  title: string;
+  status: string;
+  priority: string;
+  resolution_notes: string | null;
+  properties: WoProperty | null;
+}
+interface WoButton { text: string; callback_data: string; }
+interface TgCallbackQuery { id: string; message?: { message_id: number }; }
+interface TgPhotoMessage { photo?: { file_id: string }[]; }
+
+async function loadWorkOrder(ctx: Ctx, by: { id?: string; number?: number }) {
+  let q = ctx.supabase.from("work_orders")
+    .select("id, number, title, status, priority, resolution_notes, properties!inner(address, unit_number, organization_id)")
+    .eq("properties.organization_id", ctx.organizationId);
+  q = by.id ? q.eq("id", by.id) : q.eq("number", by.number ?? -1);
+  const { data } = await q.maybeSingle();
+  return data as WorkOrderRow | null;
+}
+function woAddr(p: WoProperty | null): string {
+  return p ? `${p.address}${p.unit_number ? ` #${p.unit_number}` : ""}` : "—";
+}
+
+async function showWorkOrders(ctx: Ctx, messageId: number | undefined) {
+  await clearSession(ctx);
+  const { data, error } = await ctx.supabase.from("work_orders")
+    .select("id, number, title, priority, created_at, properties!inner(address, unit_number, organization_id)")
+    .eq("properties.organization_id", ctx.organizationId)
+    .in("status", WO_OPEN)
+    .order("created_at", { ascending: true })
+    .limit(50);
+  if (error) { await editOrSend(ctx, messageId, `❌ No pude leer las órdenes.\n<i>${escapeHtml(error.message)}</i>`, [[{ text: "🏠 Menú", callback_data: "m:menu" }]]); return; }
+  const rows = ((data || []) as any[])
+    .sort((a, b) => (WO_PRIORITY_RANK[a.priority] ?? 9) - (WO_PRIORITY_RANK[b.priority] ?? 9))
+    .slice(0, 10);
+  const kb: WoButton[][] = rows.map((w) => [{ text: `✅ Cerrar #${w.number}`, callback_data: `wo:c:${w.id}` }]);
+  kb.push([{ text: "➕ Nueva orden", callback_data: "wo:new" }, { text: "🏠 Menú", callback_data: "m:menu" }]);
+  if (rows.length === 0) {
+    await editOrSend(ctx, messageId, "🔧 <b>Mantenimiento</b>\nNo hay órdenes abiertas. 🎉", kb);
+    return;
+  }
+  const lines = rows.map((w) =>
+    `${WO_PRIORITY_ICON[w.priority] || "🟡"} <b>#${w.number}</b> ${escapeHtml(w.title)}\n   🏠 ${escapeHtml(woAddr(w.properties))}`);
+  const more = (data || []).length > rows.length ? `\n\n<i>…y ${(data || []).length - rows.length} más en la web.</i>` : "";
+  await editOrSend(ctx, messageId,
+    `🔧 <b>Órdenes abiertas</b> (${(data || []).length})\n\n${lines.join("\n")}${more}\n\n<i>También: /cerrar &lt;número&gt; [nota]</i>`, kb);
+}
+
+async function startWorkOrder(ctx: Ctx, messageId: number | undefined) {
+  await setSession(ctx, "wo_property", {});
+  await editOrSend(ctx, messageId, "🔧 <b>Nueva orden</b>\n🏠 Escribe parte de la <b>dirección</b>:",
+    [[{ text: "❌ Cancelar", callback_data: "m:x" }]]);
+}
+
+async function handleWorkOrderProperty(ctx: Ctx, raw: string) {
+  const q = raw.replace(/[%,()]/g, " ").trim();
+  if (q.length < 2) { await send(ctx, "🏠 Escribe al menos 2 letras de la dirección."); return; }
+  const { data } = await ctx.supabase.from("properties")
+    .select("id, address, unit_number")
+    .eq("organization_id", ctx.organizationId)
+    .ilike("address", `%${q}%`)
+    .order("address")
+    .limit(8);
+  const props = (data || []) as WoProperty[];
+  if (props.length === 0) {
+    await send(ctx, `🔎 No encontré propiedades para «${escapeHtml(raw)}». Prueba otra búsqueda.`,
+      [[{ text: "❌ Cancelar", callback_data: "m:x" }]]);
+    return;
+  }
+  await send(ctx, "🏠 ¿Cuál propiedad?", [
+    ...props.map((p) => [{ text: woAddr(p).slice(0, 60), callback_data: `wo:p:${p.id}` }]),
+    [{ text: "❌ Cancelar", callback_data: "m:x" }],
+  ]);
+}
+
+async function chooseWorkOrderProperty(ctx: Ctx, messageId: number | undefined, propertyId: string) {
+  const { data: p } = await ctx.supabase.from("properties")
+    .select("id, address, unit_number")
+    .eq("organization_id", ctx.organizationId).eq("id", propertyId).maybeSingle();
+  if (!p) { await editOrSend(ctx, messageId, "⌛ Esa propiedad ya no está.", [[{ text: "🔧 Empezar de nuevo", callback_data: "wo:new" }]]); return; }
+  await setSession(ctx, "wo_text", { wo_property_id: p.id, wo_addr: woAddr(p) });
+  await editOrSend(ctx, messageId,
+    `🏠 <b>${escapeHtml(woAddr(p))}</b>\n✍️ Describe el problema. La primera línea es el título.\n<i>Empieza con «urgente» si no puede esperar.</i>`,
+    [[{ text: "❌ Cancelar", callback_data: "m:x" }]]);
+}
+
+async function createWorkOrderFromText(ctx: Ctx, session: Session, raw: string) {
+  const d = session.data || {};
+  if (!d.wo_property_id) { await startWorkOrder(ctx, undefined); return; }
+  const urgent = /^urgente\b[:\s-]*/i.test(raw);
+  const text = raw.replace(/^urgente\b[:\s-]*/i, "").trim();
+  if (!text) { await send(ctx, "✍️ Describe el problema."); return; }
+  const [first, ...rest] = text.split("\n");
+  const { data: wo, error } = await ctx.supabase.from("work_orders").insert({
+    property_id: d.wo_property_id,
+    title: first.trim().slice(0, 120),
+    description: rest.join("\n").trim() || text,
+    priority: urgent ? "urgent" : "medium",
+    status: "open",
+    source: "telegram",
+  }).select("id, number").single();
+  // La sesión sigue viva si falla: reenviar el texto es el reintento.
+  if (error || !wo) {
+    await send(ctx, `❌ No pude crear la orden.\n<i>${escapeHtml(error?.message || "")}</i>\n\nReenvía el texto para reintentar.`);
+    return;
+  }
+  await setSession(ctx, "wo_photo", { wo_id: wo.id, wo_number: wo.number });
+  await send(ctx,
+    `✅ <b>Orden #${wo.number}</b> creada${urgent ? " 🚨 urgente" : ""}\n🏠 ${escapeHtml(d.wo_addr)}\n\n📷 Manda fotos ahora si tienes.`,
+    workOrderCardKb(wo.id, urgent));
+}
+
+function workOrderCardKb(id: string, urgent: boolean): WoButton[][] {
+  return [
+    [{ text: "📷 Agregar foto", callback_data: `wo:f:${id}` }, ...(urgent ? [] : [{ text: "🚨 Urgente", callback_data: `wo:u:${id}` }])],
+    [{ text: "✅ Listo", callback_data: "wo:ls" }, { text: "🏠 Menú", callback_data: "m:menu" }],
+  ];
+}
+
+async function closeWorkOrder(ctx: Ctx, wo: WorkOrderRow, note: string): Promise<string | null> {
+  const notes = note
+    ? [wo.resolution_notes, note].filter(Boolean).join("\n")
+    : wo.resolution_notes || "Cerrada desde Telegram.";
+  // completed_at lo pone el trigger work_orders_stamp.
+  const { error } = await ctx.supabase.from("work_orders")
+    .update({ status: "completed", resolution_notes: notes }).eq("id", wo.id);
+  return error ? error.message : null;
+}
+
+async function closeWorkOrderCommand(ctx: Ctx, args: string) {
+  const m = args.match(/^#?(\d+)\s*([\s\S]*)$/);
+  if (!m) { await send(ctx, "✍️ Uso: <b>/cerrar 42</b> o <b>/cerrar 42 cambié el empaque</b>", [[{ text: "🔧 Ver órdenes", callback_data: "wo:ls" }]]); return; }
+  const wo = await loadWorkOrder(ctx, { number: Number(m[1]) });
+  if (!wo) { await send(ctx, `🔎 No encontré la orden #${m[1]}.`, [[{ text: "🔧 Ver órdenes", callback_data: "wo:ls" }]]); return; }
+  if (!WO_OPEN.includes(wo.status)) { await send(ctx, `ℹ️ La orden #${wo.number} ya estaba cerrada.`); return; }
+  const err = await closeWorkOrder(ctx, wo, m[2].trim());
+  if (err) { await send(ctx, `❌ No pude cerrar la orden.\n<i>${escapeHtml(err)}</i>`); return; }
+  await send(ctx, `✅ <b>Orden #${wo.number}</b> cerrada\n🏠 ${escapeHtml(woAddr(wo.properties))}`,
+    [[{ text: "🔧 Ver órdenes", callback_data: "wo:ls" }, { text: "🏠 Menú", callback_data: "m:menu" }]]);
+}
+
+async function handleWorkOrderCb(ctx: Ctx, cbq: TgCallbackQuery, data: string) {
+  const answer = (t?: string) => answerCbq(ctx, cbq.id, t);
+  const messageId = cbq.message?.message_id;
+  if (data === "wo:ls") { await answer(); await purgeContactCard(ctx); await showWorkOrders(ctx, messageId); return; }
+  if (data === "wo:new") { await answer(); await purgeContactCard(ctx); await startWorkOrder(ctx, messageId); return; }
+  if (data.startsWith("wo:p:")) { await answer(); await chooseWorkOrderProperty(ctx, messageId, data.slice(5)); return; }
+  const wo = await loadWorkOrder(ctx, { id: data.slice(5) });
+  if (!wo) { await answer("Esa orden ya no está"); await showWorkOrders(ctx, messageId); return; }
+  if (data.startsWith("wo:c:")) {
+    if (!WO_OPEN.includes(wo.status)) { await answer("Ya estaba cerrada"); await showWorkOrders(ctx, messageId); return; }
+    const err = await closeWorkOrder(ctx, wo, "");
+    if (err) { await answer("No pude cerrarla"); return; }
+    await answer(`Orden #${wo.number} cerrada`);
+    await showWorkOrders(ctx, messageId);
+    return;
+  }
+  if (data.startsWith("wo:u:")) {
+    await ctx.supabase.from("work_orders").update({ priority: "urgent" }).eq("id", wo.id);
+    await answer("Marcada urgente");
+    await editOrSend(ctx, messageId,
+      `🚨 <b>Orden #${wo.number}</b> — urgente\n🏠 ${escapeHtml(woAddr(wo.properties))}\n${escapeHtml(wo.title)}`,
+      workOrderCardKb(wo.id, true));
+    return;
+  }
+  if (data.startsWith("wo:f:")) {
+    await answer();
+    await setSession(ctx, "wo_photo", { wo_id: wo.id, wo_number: wo.number });
+    await send(ctx, `📷 Envía la <b>foto</b> de la orden #${wo.number} (como imagen).`,
+      [[{ text: "✅ Listo", callback_data: "wo:ls" }]]);
+    return;
+  }
+  await answer();
+}
+
+async function attachWorkOrderPhoto(ctx: Ctx, session: Session, message: TgPhotoMessage) {
+  const d = session.data;
+  const photos = message.photo || [];
+  const largest = photos[photos.length - 1];
+  if (!largest?.file_id) { await send(ctx, "No pude leer la foto. Mándala como imagen, no como archivo."); return; }
+  await typing(ctx);
+  try {
+    const gf = await fetch(`https://api.telegram.org/bot${ctx.botToken}/getFile?file_id=${largest.file_id}`);
+    const filePath = (await gf.json())?.result?.file_path;
+    if (!filePath) throw new Error("no file_path");
+    const dl = await fetch(`https://api.telegram.org/file/bot${ctx.botToken}/${filePath}`);
+    const bytes = new Uint8Array(await dl.arrayBuffer());
+    const png = String(filePath).toLowerCase().endsWith(".png");
+    const name = `telegram-${Date.now()}.${png ? "png" : "jpg"}`;
+    // <org>/<orden>/<archivo>, la misma forma que sube la web.
+    const key = `${ctx.organizationId}/${d.wo_id}/${name}`;
+    const { error: upErr } = await ctx.supabase.storage.from("work-order-files")
+      .upload(key, bytes, { contentType: png ? "image/png" : "image/jpeg" });
+    if (upErr) throw upErr;
+    const { error } = await ctx.supabase.from("work_order_files").insert({
+      work_order_id: d.wo_id, file_name: name, file_size: bytes.length, file_url: key,
+    });
+    if (error) throw error;
+    await setSession(ctx, "wo_photo", { ...d });
+    await send(ctx, `📷 Foto agregada a la orden #${d.wo_number} ✓\nManda otra o toca <b>Listo</b>.`,
+      [[{ text: "✅ Listo", callback_data: "wo:ls" }]]);
+  } catch (e) {
+    console.error("attachWorkOrderPhoto", e);
+    await send(ctx, "❌ No pude subir la foto. Intenta de nuevo.");
+  }
+}
+
 // ── Existing agenda/report rendering ─────────────────────────────────────────────
 async function buildShowingsAgenda(supabase: any, organizationId: string, hideEmail?: boolean): Promise<string> {
   const nowIso = new Date().toISOString();
@@ -4836,20 +5189,8 @@ function unwrap(v: unknown): string {
   const s = String(v);
   try { const p = JSON.parse(s); return typeof p === "string" ? p : s; } catch { return s; }
 }
-function escapeHtml(s: unknown): string {
-  return String(s ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-}
 // Redact any api.telegram.org bot token before logging a raw error/URL.
 function redactToken(v: unknown): string {
   return String(v ?? "").replace(/bot\d+:[\w-]+/g, "bot<redacted>");
 }
 
-function timingSafeEqual(a: string, b: string): boolean {
-  const enc = new TextEncoder();
-  const aBytes = enc.encode(a);
-  const bBytes = enc.encode(b);
-  const len = Math.max(aBytes.length, bBytes.length);
-  let diff = aBytes.length ^ bBytes.length;
-  for (let i = 0; i < len; i++) diff |= (aBytes[i] ?? 0) ^ (bBytes[i] ?? 0);
-  return diff === 0;
-}
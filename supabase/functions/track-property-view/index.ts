@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
 
 // ────────────────────────────────────────────────────────────────────────────
 // track-property-view
@@ -13,12 +14,6 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 // org so a client can't inflate another tenant's rows.
 // ────────────────────────────────────────────────────────────────────────────
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
 const ORG_SLUG = "rent-finder-cleveland";
 const VALID_EVENTS = ["impression", "detail_view"];
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
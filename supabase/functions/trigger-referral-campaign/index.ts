@@ -1,10 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
+import { authorizeCaller } from "../_shared/auth.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+const corsHeaders = buildCorsHeaders();
 
 // Generate a unique referral code
 function generateReferralCode(name: string): string {
@@ -22,7 +22,8 @@ serve(async (req) => {
   try {
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      leadAuditOptions({ source: "trigger_referral_campaign" }),
     );
 
     // Read the request body ONCE — a Request stream can only be consumed a single time
@@ -32,42 +33,17 @@ serve(async (req) => {
     if (action === "create_referral") {
       // ── Authenticate caller (staff-only or service-role) ─────────
       // Prevents anonymous minting of paid referral codes for arbitrary leads.
-      const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const anonKey = Deno.env.get("SUPABASE_ANON_KEY") || "";
-      const authHeader = req.headers.get("Authorization") || "";
-      const callerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
-      const isServiceRole = callerToken.length > 0 && callerToken === serviceRoleKey;
+      const auth = await authorizeCaller(req, supabase, {
+        roles: ["super_admin", "admin", "editor", "leasing_agent"],
+        corsHeaders,
+      });
+      if (auth.response) return auth.response;
       // The org the caller is allowed to act within — used to scope the referrer
       // lead lookup so a user of org A can't mint reward-bearing codes against a
       // lead in org B (defense-in-depth for the retained multi-tenant plumbing).
       let callerOrgId: string | null = null;
-      if (!isServiceRole) {
-        if (!callerToken || callerToken === anonKey) {
-          return new Response(
-            JSON.stringify({ error: "Unauthorized" }),
-            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        const { data: authData, error: authErr } = await supabase.auth.getUser(callerToken);
-        if (authErr || !authData?.user) {
-          return new Response(
-            JSON.stringify({ error: "Unauthorized" }),
-            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        const { data: callerRec } = await supabase
-          .from("users")
-          .select("organization_id, role, is_active")
-          .eq("auth_user_id", authData.user.id)
-          .maybeSingle();
-        if (!callerRec || callerRec.is_active === false ||
-            !["super_admin", "admin", "editor", "leasing_agent"].includes(callerRec.role || "")) {
-          return new Response(
-            JSON.stringify({ error: "Forbidden" }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        callerOrgId = callerRec.organization_id || null;
+      if (auth.caller.kind === "user") {
+        callerOrgId = auth.caller.organizationId;
       } else {
         // Service-role callers must name the org they're acting in.
         callerOrgId = (typeof organization_id === "string" && organization_id) ? organization_id : null;
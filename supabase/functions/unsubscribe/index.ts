@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildCorsHeaders } from "../_shared/cors.ts";
+import { timingSafeEqual } from "../_shared/crypto.ts";
+import { leadAuditOptions } from "../_shared/leadAudit.ts";
 
 // Public CAN-SPAM unsubscribe endpoint.
 // Accepts a token of the form `<leadUuid>.<base64url(HMAC-SHA256(leadUuid))>`
@@ -8,12 +11,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 //   - POST → RFC 8058 List-Unsubscribe One-Click from the mail client
 // Deploy with --no-verify-jwt (this must be reachable without auth).
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-};
+const corsHeaders = buildCorsHeaders({ methods: "GET, POST, OPTIONS" });
 
 function base64urlEncode(bytes: Uint8Array): string {
   let bin = "";
@@ -37,17 +35,6 @@ async function signLeadId(leadId: string, secret: string): Promise<string> {
   return base64urlEncode(new Uint8Array(sig));
 }
 
-// Constant-time compare to avoid leaking signature validity via timing.
-function timingSafeEqual(a: string, b: string): boolean {
-  const enc = new TextEncoder();
-  const ab = enc.encode(a);
-  const bb = enc.encode(b);
-  if (ab.length !== bb.length) return false;
-  let diff = 0;
-  for (let i = 0; i < ab.length; i++) diff |= ab[i] ^ bb[i];
-  return diff === 0;
-}
-
 function htmlPage(title: string, message: string, status = 200): Response {
   const body = `<!DOCTYPE html>
 <html lang="en">
@@ -137,7 +124,7 @@ serve(async (req: Request) => {
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const supabase = createClient(supabaseUrl, serviceRoleKey, leadAuditOptions({ source: "unsubscribe" }));
 
   const nowIso = new Date().toISOString();
   const { data: updated, error: updErr } = await supabase
@@ -166,6 +153,15 @@ serve(async (req: Request) => {
     );
   }
 
+  // Saved-search alerts stop too — the drain would suppress them anyway, but
+  // staff shouldn't see them as live.
+  const { error: searchErr } = await supabase
+    .from("saved_searches")
+    .update({ active: false })
+    .eq("lead_id", updated.id)
+    .eq("active", true);
+  if (searchErr) console.warn("saved_searches deactivate failed:", searchErr.message);
+
   // Best-effort CAN-SPAM / TCPA audit trail. Never block the opt-out on this.
   try {
     await supabase.from("consent_log").insert({
@@ -0,0 +1,60 @@
+-- ── Flow branching: wait for what the lead does, then fork ────────────
+-- Until now a flow was a straight line of delayed emails: the only thing a
+-- lead's behaviour could do was STOP it (exit conditions). A nurture sequence
+-- could not send the "you opened it, here's the booking link" email to the
+-- people who opened and a different nudge to the ones who didn't.
+--
+-- A `wait_event` step holds the lead until an event happens or a timeout
+-- passes, and the run then continues down one of two child lines:
+--   branch = 'matched'   → the event happened inside the window
+--   branch = 'timed_out' → the window closed without it
+-- Children point at their wait step through parent_step_id, so a branch can
+-- itself contain another wait. Main-line steps keep parent_step_id NULL, which
+-- is every row that exists today — nothing already seeded changes shape.
+
+ALTER TABLE public.flow_steps
+  ADD COLUMN IF NOT EXISTS step_type text NOT NULL DEFAULT 'email'
+    CHECK (step_type IN ('email', 'wait_event')),
+  -- Only events with a producer the engine can actually read back:
+  -- email_events.status_key, showings, inbound_emails.
+  ADD COLUMN IF NOT EXISTS wait_event text
+    CHECK (wait_event IN ('email_opened', 'showing_booked', 'reply_received')),
+  ADD COLUMN IF NOT EXISTS wait_timeout_minutes integer
+    CHECK (wait_timeout_minutes > 0),
+  ADD COLUMN IF NOT EXISTS parent_step_id uuid
+    REFERENCES public.flow_steps(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS branch text
+    CHECK (branch IN ('matched', 'timed_out'));
+
+ALTER TABLE public.flow_steps
+  DROP CONSTRAINT IF EXISTS flow_steps_wait_shape,
+  ADD CONSTRAINT flow_steps_wait_shape CHECK (
+    step_type <> 'wait_event'
+    OR (wait_event IS NOT NULL AND wait_timeout_minutes IS NOT NULL)
+  ),
+  DROP CONSTRAINT IF EXISTS flow_steps_branch_shape,
+  ADD CONSTRAINT flow_steps_branch_shape CHECK (
+    (parent_step_id IS NULL) = (branch IS NULL)
+  );
+
+-- Position is now unique per LINE, not per flow: both branches of a wait start
+-- at position 1. The two-phase swap in FlowsTab still works — it parks one row
+-- at a negative position inside the same line.
+ALTER TABLE public.flow_steps DROP CONSTRAINT IF EXISTS flow_steps_flow_id_position_key;
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_flow_steps_line_position
+  ON public.flow_steps (
+    flow_id,
+    COALESCE(parent_step_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(branch, ''),
+    position
+  );
+CREATE INDEX IF NOT EXISTS idx_flow_steps_parent
+  ON public.flow_steps (parent_step_id) WHERE parent_step_id IS NOT NULL;
+
+-- Which line the run is on. NULL/NULL is the main line, so runs already in
+-- flight resume exactly where they were.
+ALTER TABLE public.flow_runs
+  ADD COLUMN IF NOT EXISTS current_parent_step_id uuid
+    REFERENCES public.flow_steps(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS current_branch text
+    CHECK (current_branch IN ('matched', 'timed_out'));
@@ -0,0 +1,503 @@
+-- ── A/B variants for flow steps and mass campaigns ─────────────────────
+-- Every automated email and every blast went out as ONE copy, so nobody could
+-- say whether a subject line was good or just the only one we tried.
+--
+-- Shape, on both flow_steps and campaigns:
+--   email_variants  — the alternatives. On a flow step each entry overrides
+--                     subject / bodyParagraphs of email_config (which is
+--                     variant "A"). On a campaign each entry is a complete
+--                     {key, subject, html}, because a blast renders one HTML for
+--                     every recipient anyway (sendSpotlightCampaign).
+--   ab_metric       — what "better" means: opened, clicked or booked.
+--   ab_auto_promote — let promote_ab_winners() pick a winner on its own.
+--   winner_variant  — once set, everybody gets this one. Set by hand or by the
+--                     promoter; never unset by the promoter.
+--
+-- The assignment of each send is recorded in email_events.details as
+-- {ab_test, variant}; ab_test is the flow_step id or the campaign id, because
+-- several steps share one notification_key (the 7 nurture emails, every
+-- "flow_custom" step) and a variant key alone would mix them.
+
+ALTER TABLE public.flow_steps
+  ADD COLUMN IF NOT EXISTS email_variants jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS ab_metric text NOT NULL DEFAULT 'opened'
+    CHECK (ab_metric IN ('opened', 'clicked', 'booked')),
+  ADD COLUMN IF NOT EXISTS ab_auto_promote boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS winner_variant text,
+  ADD COLUMN IF NOT EXISTS ab_decided_at timestamptz;
+
+ALTER TABLE public.campaigns
+  ADD COLUMN IF NOT EXISTS email_variants jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS ab_metric text NOT NULL DEFAULT 'opened'
+    CHECK (ab_metric IN ('opened', 'clicked', 'booked')),
+  ADD COLUMN IF NOT EXISTS ab_auto_promote boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS winner_variant text,
+  ADD COLUMN IF NOT EXISTS ab_decided_at timestamptz;
+
+-- Same trick as campaign_key/notification_key: grouping by the details JSON
+-- would detoast the rendered HTML on every stats load.
+ALTER TABLE public.email_events
+  ADD COLUMN IF NOT EXISTS ab_test_key text
+    GENERATED ALWAYS AS ((details->>'ab_test')) STORED,
+  ADD COLUMN IF NOT EXISTS variant_key text
+    GENERATED ALWAYS AS ((details->>'variant')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_email_events_ab_stats
+  ON public.email_events (organization_id, ab_test_key, variant_key, status_key)
+  WHERE ab_test_key IS NOT NULL;
+
+-- Campaign rows held back for the winner. status 'held' is never claimed by
+-- claim_queued_emails (it only takes 'queued'); promotion flips them.
+CREATE INDEX IF NOT EXISTS idx_email_events_held
+  ON public.email_events (campaign_key)
+  WHERE status_key = 'held';
+
+-- ── Per-variant results ───────────────────────────────────────────────
+-- "booked" is the same 7-day window attribution report_campaign_stats_all
+-- uses: correlation, not proof, and labelled that way in the UI.
+-- Internal: trusts p_org. ab_variant_results() below is the door for the UI;
+-- ab_pick_winner() reads it directly because cron runs with no user at all.
+CREATE OR REPLACE FUNCTION public.ab_variant_counts(p_org uuid, p_test text)
+RETURNS TABLE (
+  variant text,
+  sent bigint,
+  delivered bigint,
+  opened bigint,
+  clicked bigint,
+  booked bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  WITH ev AS (
+    SELECT ee.variant_key, ee.status_key, ee.lead_id, ee.created_at
+    FROM email_events ee
+    WHERE ee.organization_id = p_org
+      AND ee.ab_test_key = p_test
+      AND ee.variant_key IS NOT NULL
+      AND ee.status_key IS DISTINCT FROM 'held'
+  )
+  SELECT
+    ev.variant_key,
+    count(*),
+    count(*) FILTER (WHERE ev.status_key IN ('delivered','opened','clicked')),
+    count(*) FILTER (WHERE ev.status_key IN ('opened','clicked')),
+    count(*) FILTER (WHERE ev.status_key = 'clicked'),
+    count(DISTINCT ev.lead_id) FILTER (WHERE EXISTS (
+      SELECT 1 FROM showings s
+      WHERE s.lead_id = ev.lead_id
+        AND s.organization_id = p_org
+        AND s.created_at >= ev.created_at
+        AND s.created_at < ev.created_at + interval '7 days'
+    ))
+  FROM ev
+  GROUP BY ev.variant_key;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.ab_variant_counts(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ab_variant_counts(uuid, text) TO service_role;
+
+-- Same rows, for members of p_org only, same as choose_campaign_winner.
+CREATE OR REPLACE FUNCTION public.ab_variant_results(p_org uuid, p_test text)
+RETURNS TABLE (
+  variant text,
+  sent bigint,
+  delivered bigint,
+  opened bigint,
+  clicked bigint,
+  booked bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND p_org IS DISTINCT FROM public.get_user_organization_id(auth.uid())
+     AND NOT COALESCE(public.is_super_admin(auth.uid()), false) THEN
+    RAISE EXCEPTION 'Not allowed to read A/B results for this organization';
+  END IF;
+  RETURN QUERY SELECT * FROM public.ab_variant_counts(p_org, p_test);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.ab_variant_results(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.ab_variant_results(uuid, text) TO authenticated, service_role;
+
+-- ── report_flow_step_stats, now per variant ───────────────────────────
+-- Non-A/B sends keep one row per step_key with ab_test/variant NULL, so the
+-- existing Flows numbers are unchanged; an A/B step adds one row per variant.
+DROP FUNCTION IF EXISTS public.report_flow_step_stats(uuid, int);
+CREATE FUNCTION public.report_flow_step_stats(
+  p_org uuid,
+  p_days int DEFAULT 60
+)
+RETURNS TABLE (
+  step_key text,
+  ab_test text,
+  variant text,
+  sent bigint,
+  delivered bigint,
+  opened bigint,
+  clicked bigint,
+  last_sent_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    ee.notification_key,
+    ee.ab_test_key,
+    ee.variant_key,
+    count(*),
+    count(*) FILTER (WHERE ee.status_key IN ('delivered','opened','clicked')),
+    count(*) FILTER (WHERE ee.status_key IN ('opened','clicked')),
+    count(*) FILTER (WHERE ee.status_key = 'clicked'),
+    max(ee.created_at)
+  FROM email_events ee
+  WHERE ee.organization_id = p_org
+    AND ee.notification_key IS NOT NULL
+    AND ee.campaign_key IS NULL          -- campaigns are their own tab
+    AND ee.created_at >= now() - make_interval(days => p_days)
+  GROUP BY ee.notification_key, ee.ab_test_key, ee.variant_key;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.report_flow_step_stats(uuid, int) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_flow_step_stats(uuid, int) TO authenticated, service_role;
+
+-- ── analytics_email_campaigns: each campaign carries its variants ─────
+CREATE OR REPLACE FUNCTION public.analytics_email_campaigns(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket text DEFAULT 'week'
+) RETURNS json
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _org uuid;
+  _bucket text;
+  _result json;
+BEGIN
+  SELECT organization_id INTO _org
+  FROM public.users
+  WHERE auth_user_id = auth.uid() AND is_active = true
+  LIMIT 1;
+  IF _org IS NULL THEN RAISE EXCEPTION 'Unauthorized'; END IF;
+
+  _bucket := CASE WHEN p_bucket IN ('day','week','month') THEN p_bucket ELSE 'week' END;
+
+  WITH ev AS (
+    SELECT COALESCE(details->>'status','unknown') AS st,
+      details->>'campaign_id' AS campaign_id,
+      variant_key,
+      created_at
+    FROM email_events
+    WHERE organization_id = _org
+      AND created_at >= p_from AND created_at < p_to
+      -- Held A/B rows have not been sent; counting them would inflate totals.
+      AND status_key IS DISTINCT FROM 'held'
+  )
+  SELECT json_build_object(
+    'summary', (SELECT json_build_object(
+        'total', COUNT(*),
+        'attempted', COUNT(*) FILTER (WHERE st <> 'queued'),
+        'delivered', COUNT(*) FILTER (WHERE st IN ('delivered','opened','clicked')),
+        'opened', COUNT(*) FILTER (WHERE st IN ('opened','clicked')),
+        'clicked', COUNT(*) FILTER (WHERE st = 'clicked'),
+        'bounced', COUNT(*) FILTER (WHERE st = 'bounced'),
+        'pending', COUNT(*) FILTER (WHERE st IN ('queued','sent')),
+        'suppressed', COUNT(*) FILTER (WHERE st = 'suppressed'),
+        'failed', COUNT(*) FILTER (WHERE st IN ('failed','complained'))
+      ) FROM ev),
+    'series', (SELECT COALESCE(json_agg(row_to_json(t) ORDER BY t.bucket), '[]'::json) FROM (
+        SELECT date_trunc(_bucket, created_at AT TIME ZONE 'America/New_York')::date AS bucket,
+          COUNT(*) AS total,
+          COUNT(*) FILTER (WHERE st IN ('delivered','opened','clicked')) AS delivered,
+          COUNT(*) FILTER (WHERE st IN ('opened','clicked')) AS opened,
+          COUNT(*) FILTER (WHERE st = 'bounced') AS bounced
+        FROM ev GROUP BY 1
+      ) t),
+    'campaigns', (SELECT COALESCE(json_agg(row_to_json(t) ORDER BY t.total DESC), '[]'::json) FROM (
+        SELECT c.id, c.name, c.started_at, c.winner_variant,
+          COUNT(*) AS total,
+          COUNT(*) FILTER (WHERE ev.st IN ('delivered','opened','clicked')) AS delivered,
+          COUNT(*) FILTER (WHERE ev.st IN ('opened','clicked')) AS opened,
+          COUNT(*) FILTER (WHERE ev.st = 'clicked') AS clicked,
+          COUNT(*) FILTER (WHERE ev.st = 'bounced') AS bounced,
+          (SELECT COALESCE(json_agg(row_to_json(v) ORDER BY v.variant), '[]'::json)
+             FROM public.ab_variant_results(_org, c.id::text) v) AS variants
+        FROM ev
+        JOIN campaigns c ON c.id::text = ev.campaign_id
+        WHERE c.organization_id = _org
+        GROUP BY c.id, c.name, c.started_at, c.winner_variant
+      ) t),
+    'inbound', (SELECT json_build_object(
+        'messages', (SELECT COUNT(*) FROM communications
+          WHERE organization_id = _org AND direction = 'inbound' AND is_demo IS NOT TRUE
+            AND sent_at >= p_from AND sent_at < p_to),
+        'outcomes', (SELECT COALESCE(json_object_agg(COALESCE(outcome,'unknown'), cnt), '{}'::json) FROM (
+          SELECT outcome, COUNT(*) AS cnt FROM inbound_emails
+          WHERE organization_id = _org AND received_at >= p_from AND received_at < p_to
+          GROUP BY 1) x)
+      ))
+  ) INTO _result;
+
+  RETURN _result;
+END;
+$$;
+
+-- ── Campaign list: held rows are pending, not lost ────────────────────
+-- Unchanged but for 'held' in pending: otherwise held rows count as sent yet
+-- fall in no bucket, and the progress bar could never reach the total.
+CREATE OR REPLACE FUNCTION public.report_campaign_stats_all(p_org uuid, p_window_days integer DEFAULT 7)
+ RETURNS TABLE(campaign_id uuid, sent bigint, delivered bigint, opened bigint, clicked bigint, bounced bigint, failed bigint, pending bigint, showings_by_link bigint, showings_by_window bigint, bookers_by_window bigint)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  WITH ev AS (
+    -- campaign_key / status_key are generated columns: reading them never
+    -- detoasts the rendered HTML sitting in details (3.4s -> 56ms).
+    SELECT ee.campaign_key, ee.status_key, ee.lead_id, ee.created_at
+    FROM email_events ee
+    WHERE ee.organization_id = p_org
+      AND ee.campaign_key IS NOT NULL
+  ),
+  agg AS (
+    SELECT
+      campaign_key AS k,
+      count(*) AS sent,
+      count(*) FILTER (WHERE status_key IN ('delivered','opened','clicked')) AS delivered,
+      count(*) FILTER (WHERE status_key IN ('opened','clicked')) AS opened,
+      count(*) FILTER (WHERE status_key = 'clicked') AS clicked,
+      count(*) FILTER (WHERE status_key = 'bounced') AS bounced,
+      count(*) FILTER (WHERE status_key IN ('failed','complained','suppressed')) AS failed,
+      count(*) FILTER (WHERE status_key IS NULL OR status_key IN ('queued','processing','held')) AS pending
+    FROM ev GROUP BY campaign_key
+  ),
+  first_send AS (
+    SELECT campaign_key AS k, lead_id, min(created_at) AS sent_at
+    FROM ev WHERE lead_id IS NOT NULL GROUP BY campaign_key, lead_id
+  ),
+  win AS (
+    SELECT fs.k,
+           count(DISTINCT s.id) AS showings,
+           count(DISTINCT s.lead_id) AS bookers
+    FROM first_send fs
+    JOIN showings s
+      ON s.lead_id = fs.lead_id
+     AND s.organization_id = p_org
+     AND s.created_at >= fs.sent_at
+     AND s.created_at < fs.sent_at + make_interval(days => p_window_days)
+    GROUP BY fs.k
+  ),
+  lnk AS (
+    SELECT sl.details->>'campaign_id' AS k, count(*) AS showings
+    FROM system_logs sl
+    WHERE sl.organization_id = p_org
+      AND sl.event_type = 'public_showing_booked'
+      AND sl.details->>'campaign_id' IS NOT NULL
+    GROUP BY 1
+  )
+  SELECT
+    c.id,
+    COALESCE(agg.sent, 0),
+    COALESCE(agg.delivered, 0),
+    COALESCE(agg.opened, 0),
+    COALESCE(agg.clicked, 0),
+    COALESCE(agg.bounced, 0),
+    COALESCE(agg.failed, 0),
+    COALESCE(agg.pending, 0),
+    COALESCE(lnk.showings, 0),
+    COALESCE(win.showings, 0),
+    COALESCE(win.bookers, 0)
+  FROM campaigns c
+  LEFT JOIN agg ON agg.k = c.id::text
+  LEFT JOIN win ON win.k = c.id::text
+  LEFT JOIN lnk ON lnk.k = c.id::text
+  WHERE c.organization_id = p_org;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.report_campaign_stats_all(uuid, int) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_campaign_stats_all(uuid, int) TO authenticated, service_role;
+
+-- ── Automatic winner promotion ────────────────────────────────────────
+-- Two-proportion z-test between the best variant and the runner-up on the
+-- chosen metric, over delivered mail (a bounce never had the chance to open).
+-- Deliberately conservative: at least 100 delivered per variant and z ≥ 1.96
+-- (95%, two-sided). With three or more variants, beating the runner-up means
+-- beating everyone. Internal, like release_campaign_holdout: only
+-- promote_ab_winners() calls it, and src/lib/abTest.ts mirrors the thresholds
+-- for the UI.
+CREATE OR REPLACE FUNCTION public.ab_pick_winner(
+  p_org uuid,
+  p_test text,
+  p_metric text,
+  p_min_delivered int DEFAULT 100,
+  p_z numeric DEFAULT 1.96
+)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  best record;
+  runner record;
+  v_pool numeric;
+  v_se numeric;
+BEGIN
+  WITH r AS (
+    SELECT variant, delivered,
+      CASE p_metric WHEN 'clicked' THEN clicked WHEN 'booked' THEN booked ELSE opened END AS hits
+    FROM public.ab_variant_counts(p_org, p_test)
+  )
+  SELECT variant, delivered, hits, hits::numeric / NULLIF(delivered, 0) AS rate
+  INTO best FROM r ORDER BY hits::numeric / NULLIF(delivered, 0) DESC NULLS LAST LIMIT 1;
+
+  WITH r AS (
+    SELECT variant, delivered,
+      CASE p_metric WHEN 'clicked' THEN clicked WHEN 'booked' THEN booked ELSE opened END AS hits
+    FROM public.ab_variant_counts(p_org, p_test)
+  )
+  SELECT variant, delivered, hits, hits::numeric / NULLIF(delivered, 0) AS rate
+  INTO runner FROM r ORDER BY hits::numeric / NULLIF(delivered, 0) DESC NULLS LAST OFFSET 1 LIMIT 1;
+
+  IF best IS NULL OR runner IS NULL THEN RETURN NULL; END IF;
+  IF best.delivered < p_min_delivered OR runner.delivered < p_min_delivered THEN RETURN NULL; END IF;
+
+  v_pool := (best.hits + runner.hits)::numeric / (best.delivered + runner.delivered);
+  v_se := sqrt(v_pool * (1 - v_pool) * (1.0 / best.delivered + 1.0 / runner.delivered));
+  IF v_se IS NULL OR v_se = 0 THEN RETURN NULL; END IF;
+  IF (best.rate - runner.rate) / v_se < p_z THEN RETURN NULL; END IF;
+  RETURN best.variant;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.ab_pick_winner(uuid, text, text, int, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ab_pick_winner(uuid, text, text, int, numeric) TO service_role;
+
+-- Sends the held-back part of a campaign with one variant's subject and HTML.
+-- Internal: promote_ab_winners() and choose_campaign_winner() are the doors.
+CREATE OR REPLACE FUNCTION public.release_campaign_holdout(p_campaign uuid, p_variant text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_org uuid;
+  v_variant jsonb;
+  v_released int;
+BEGIN
+  SELECT c.organization_id, v INTO v_org, v_variant
+  FROM campaigns c, jsonb_array_elements(c.email_variants) v
+  WHERE c.id = p_campaign AND v->>'key' = p_variant
+  LIMIT 1;
+  IF v_variant IS NULL THEN
+    RAISE EXCEPTION 'Variant % not found on campaign %', p_variant, p_campaign;
+  END IF;
+
+  UPDATE campaigns SET winner_variant = p_variant, ab_decided_at = now() WHERE id = p_campaign;
+  UPDATE email_events
+     SET subject = v_variant->>'subject',
+         details = details || jsonb_build_object(
+           'html', v_variant->>'html',
+           'status', 'queued',
+           -- Not tagged ab_test/variant: the test's numbers stay the test's.
+           'holdout_variant', p_variant,
+           'queued_at', now()
+         )
+   WHERE organization_id = v_org
+     AND campaign_key = p_campaign::text
+     AND status_key = 'held';
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+  RETURN v_released;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.release_campaign_holdout(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_campaign_holdout(uuid, text) TO service_role;
+
+-- The owner can call it before the numbers are conclusive (or when auto-promote
+-- is off). Any member of the campaign's org, same as the campaigns RLS.
+CREATE OR REPLACE FUNCTION public.choose_campaign_winner(p_campaign uuid, p_variant text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM campaigns c
+    WHERE c.id = p_campaign
+      AND c.winner_variant IS NULL
+      AND (c.organization_id = public.get_user_organization_id(auth.uid())
+           OR public.is_super_admin(auth.uid()))
+  ) THEN
+    RAISE EXCEPTION 'Campaign not found or already decided';
+  END IF;
+  RETURN public.release_campaign_holdout(p_campaign, p_variant);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.choose_campaign_winner(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.choose_campaign_winner(uuid, text) TO authenticated, service_role;
+
+-- Runs on a cron. A flow step just records its winner — the dispatcher reads
+-- winner_variant before every send. A campaign also releases its held rows.
+CREATE OR REPLACE FUNCTION public.promote_ab_winners()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  r record;
+  v_winner text;
+  v_promoted int := 0;
+BEGIN
+  FOR r IN
+    SELECT s.id, f.organization_id, s.ab_metric
+    FROM flow_steps s JOIN flows f ON f.id = s.flow_id
+    WHERE s.ab_auto_promote AND s.winner_variant IS NULL
+      AND jsonb_array_length(s.email_variants) > 0
+  LOOP
+    v_winner := public.ab_pick_winner(r.organization_id, r.id::text, r.ab_metric);
+    IF v_winner IS NOT NULL THEN
+      UPDATE flow_steps SET winner_variant = v_winner, ab_decided_at = now() WHERE id = r.id;
+      v_promoted := v_promoted + 1;
+    END IF;
+  END LOOP;
+
+  FOR r IN
+    SELECT c.id, c.organization_id, c.ab_metric
+    FROM campaigns c
+    WHERE c.ab_auto_promote AND c.winner_variant IS NULL
+      AND jsonb_array_length(c.email_variants) > 1
+  LOOP
+    v_winner := public.ab_pick_winner(r.organization_id, r.id::text, r.ab_metric);
+    CONTINUE WHEN v_winner IS NULL;
+    PERFORM public.release_campaign_holdout(r.id, v_winner);
+    v_promoted := v_promoted + 1;
+  END LOOP;
+
+  RETURN v_promoted;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_ab_winners() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.promote_ab_winners() TO service_role;
+
+SELECT cron.schedule(
+  'promote-ab-winners',
+  '*/30 * * * *',
+  $$SELECT public.promote_ab_winners()$$
+);
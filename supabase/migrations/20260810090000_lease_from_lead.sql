@@ -0,0 +1,122 @@
+-- ── Applicant → tenant → lease ─────────────────────────────────────────
+-- tenants / leases / transactions / statements came over from the old
+-- owner portal and nothing in the CRM writes them: the funnel ends at
+-- "aplicó" and somebody flips the property to "rented" by hand, usually late.
+--
+-- create_lease_from_lead() closes the loop in one transaction: the tenant row
+-- (one per lead, reused on renewals), the lease, the property to "rented" and
+-- the lead to "converted". Done as a function because the legacy tables are
+-- gated on is_staff_role() (profiles), which CRM users don't go through.
+
+ALTER TABLE public.tenants
+  ADD COLUMN IF NOT EXISTS lead_id uuid REFERENCES public.leads(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS tenants_lead_id_key
+  ON public.tenants (lead_id) WHERE lead_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS leases_property_status_idx
+  ON public.leases (property_id, status);
+
+-- Read access for the CRM. Writes stay behind the function.
+DROP POLICY IF EXISTS "Org members read tenants" ON public.tenants;
+CREATE POLICY "Org members read tenants" ON public.tenants
+  FOR SELECT TO authenticated
+  USING (public.property_in_user_org(property_id));
+
+DROP POLICY IF EXISTS "Org members read leases" ON public.leases;
+CREATE POLICY "Org members read leases" ON public.leases
+  FOR SELECT TO authenticated
+  USING (public.property_in_user_org(property_id));
+
+CREATE OR REPLACE FUNCTION public.create_lease_from_lead(
+  p_lead_id uuid,
+  p_property_id uuid,
+  p_start_date date,
+  p_end_date date,
+  p_monthly_rent numeric,
+  p_security_deposit numeric,
+  p_unit_number text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_org uuid := public.get_user_organization_id(auth.uid());
+  v_lead leads%ROWTYPE;
+  v_property properties%ROWTYPE;
+  v_unit text;
+  v_full text;
+  v_tenant uuid;
+  v_lease uuid;
+BEGIN
+  IF COALESCE(public.get_user_role(auth.uid())::text, '') NOT IN ('super_admin', 'admin', 'editor') THEN
+    RAISE EXCEPTION 'Not allowed to create leases';
+  END IF;
+
+  SELECT * INTO v_lead FROM leads WHERE id = p_lead_id AND organization_id = v_org;
+  IF v_lead.id IS NULL THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  SELECT * INTO v_property FROM properties WHERE id = p_property_id AND organization_id = v_org;
+  IF v_property.id IS NULL THEN
+    RAISE EXCEPTION 'Property not found';
+  END IF;
+
+  IF p_end_date <= p_start_date THEN
+    RAISE EXCEPTION 'Lease must end after it starts';
+  END IF;
+  IF p_monthly_rent IS NULL OR p_monthly_rent <= 0 THEN
+    RAISE EXCEPTION 'Monthly rent must be positive';
+  END IF;
+
+  v_full := btrim(COALESCE(v_lead.full_name, ''));
+  v_unit := COALESCE(NULLIF(btrim(p_unit_number), ''), v_property.unit_number);
+
+  -- Two active leases on one door is a typo, not a business case.
+  IF EXISTS (
+    SELECT 1 FROM leases l
+    WHERE l.property_id = p_property_id
+      AND l.status = 'active'
+      AND l.unit_number IS NOT DISTINCT FROM v_unit
+      AND daterange(l.start_date, l.end_date, '[]') && daterange(p_start_date, p_end_date, '[]')
+  ) THEN
+    RAISE EXCEPTION 'This unit already has an active lease for those dates';
+  END IF;
+
+  INSERT INTO tenants (lead_id, property_id, unit_number, first_name, last_name,
+                       email, phone, move_in_date, status)
+  VALUES (
+    v_lead.id, p_property_id, v_unit,
+    COALESCE(NULLIF(v_lead.first_name, ''), split_part(v_full, ' ', 1)),
+    COALESCE(NULLIF(v_lead.last_name, ''), regexp_replace(v_full, '^\S+\s*', '')),
+    v_lead.email, v_lead.phone, p_start_date, 'active'
+  )
+  ON CONFLICT (lead_id) WHERE lead_id IS NOT NULL DO UPDATE
+    SET property_id = EXCLUDED.property_id,
+        unit_number = EXCLUDED.unit_number,
+        move_in_date = EXCLUDED.move_in_date,
+        move_out_date = NULL,
+        status = 'active'
+  RETURNING id INTO v_tenant;
+
+  INSERT INTO leases (tenant_id, property_id, unit_number, start_date, end_date,
+                      monthly_rent, security_deposit, balance_due, status)
+  VALUES (v_tenant, p_property_id, v_unit, p_start_date, p_end_date,
+          p_monthly_rent, COALESCE(p_security_deposit, 0), 0, 'active')
+  RETURNING id INTO v_lease;
+
+  UPDATE properties SET status = 'rented', updated_at = now() WHERE id = p_property_id;
+
+  UPDATE leads
+     SET status = 'converted', updated_at = now()
+   WHERE id = p_lead_id AND status IS DISTINCT FROM 'converted';
+
+  RETURN v_lease;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.create_lease_from_lead(uuid, uuid, date, date, numeric, numeric, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_lease_from_lead(uuid, uuid, date, date, numeric, numeric, text) TO authenticated;
@@ -0,0 +1,132 @@
+-- ── Maintenance work orders ────────────────────────────────────────────
+-- work_orders / work_order_files came with the old owner portal and never got
+-- a screen; repairs on the 107 doors are tracked in a spreadsheet. This wires
+-- them to the CRM:
+--
+--   * people are CRM users (public.users), not legacy profiles — assigned_to,
+--     created_by and uploaded_by are repointed. NOT VALID so any portal-era
+--     row keeps loading;
+--   * created_by is optional: orders opened from the Showings Telegram bot
+--     have no logged-in author, so they carry source = 'telegram' instead;
+--   * `number` is the short reference field staff type on a phone ("/cerrar 42");
+--   * access follows the users-role model like every other CRM table (the
+--     is_staff_role() policy only admitted profiles-based portal staff).
+
+ALTER TABLE public.work_orders
+  ADD COLUMN IF NOT EXISTS number bigint GENERATED BY DEFAULT AS IDENTITY,
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'web',
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE UNIQUE INDEX IF NOT EXISTS work_orders_number_key ON public.work_orders (number);
+CREATE INDEX IF NOT EXISTS work_orders_property_status_idx ON public.work_orders (property_id, status);
+
+ALTER TABLE public.work_orders ALTER COLUMN created_by DROP NOT NULL;
+
+ALTER TABLE public.work_orders DROP CONSTRAINT IF EXISTS work_orders_assigned_to_fkey;
+ALTER TABLE public.work_orders DROP CONSTRAINT IF EXISTS work_orders_created_by_fkey;
+ALTER TABLE public.work_orders
+  ADD CONSTRAINT work_orders_assigned_to_fkey
+    FOREIGN KEY (assigned_to) REFERENCES public.users(id) ON DELETE SET NULL NOT VALID,
+  ADD CONSTRAINT work_orders_created_by_fkey
+    FOREIGN KEY (created_by) REFERENCES public.users(id) ON DELETE SET NULL NOT VALID;
+
+ALTER TABLE public.work_order_files DROP CONSTRAINT IF EXISTS work_order_files_uploaded_by_fkey;
+ALTER TABLE public.work_order_files
+  ADD CONSTRAINT work_order_files_uploaded_by_fkey
+    FOREIGN KEY (uploaded_by) REFERENCES public.users(id) ON DELETE SET NULL NOT VALID;
+
+ALTER TABLE public.work_orders DROP CONSTRAINT IF EXISTS work_orders_status_check;
+ALTER TABLE public.work_orders
+  ADD CONSTRAINT work_orders_status_check
+    CHECK (status IN ('open', 'in_progress', 'on_hold', 'completed', 'cancelled')) NOT VALID;
+ALTER TABLE public.work_orders DROP CONSTRAINT IF EXISTS work_orders_priority_check;
+ALTER TABLE public.work_orders
+  ADD CONSTRAINT work_orders_priority_check
+    CHECK (priority IN ('low', 'medium', 'high', 'urgent')) NOT VALID;
+ALTER TABLE public.work_orders DROP CONSTRAINT IF EXISTS work_orders_source_check;
+ALTER TABLE public.work_orders
+  ADD CONSTRAINT work_orders_source_check CHECK (source IN ('web', 'telegram'));
+
+-- completed_at follows status so the web page and the bot can't disagree on it.
+CREATE OR REPLACE FUNCTION public.work_orders_stamp()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.updated_at := now();
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+  ELSIF NEW.status <> 'completed' THEN
+    NEW.completed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS work_orders_stamp ON public.work_orders;
+CREATE TRIGGER work_orders_stamp
+  BEFORE INSERT OR UPDATE ON public.work_orders
+  FOR EACH ROW EXECUTE FUNCTION public.work_orders_stamp();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────
+DROP POLICY IF EXISTS "Staff org-scoped access work_orders" ON public.work_orders;
+
+CREATE POLICY "Org members read work_orders" ON public.work_orders
+  FOR SELECT TO authenticated
+  USING (public.property_in_user_org(property_id));
+
+CREATE POLICY "Editors write work_orders" ON public.work_orders
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    public.property_in_user_org(property_id)
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  );
+
+CREATE POLICY "Editors update work_orders" ON public.work_orders
+  FOR UPDATE TO authenticated
+  USING (
+    public.property_in_user_org(property_id)
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  )
+  WITH CHECK (public.property_in_user_org(property_id));
+
+CREATE POLICY "Admins delete work_orders" ON public.work_orders
+  FOR DELETE TO authenticated
+  USING (
+    public.property_in_user_org(property_id)
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+  );
+
+DROP POLICY IF EXISTS "Admins full access work_order_files" ON public.work_order_files;
+DROP POLICY IF EXISTS "Staff org-scoped access work_order_files" ON public.work_order_files;
+
+CREATE POLICY "Org members read work_order_files" ON public.work_order_files
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.work_orders w
+    WHERE w.id = work_order_id AND public.property_in_user_org(w.property_id)
+  ));
+
+CREATE POLICY "Editors manage work_order_files" ON public.work_order_files
+  FOR ALL TO authenticated
+  USING (
+    public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+    AND EXISTS (
+      SELECT 1 FROM public.work_orders w
+      WHERE w.id = work_order_id AND public.property_in_user_org(w.property_id)
+    )
+  )
+  WITH CHECK (
+    public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+    AND EXISTS (
+      SELECT 1 FROM public.work_orders w
+      WHERE w.id = work_order_id AND public.property_in_user_org(w.property_id)
+    )
+  );
+
+-- Photos live at work-order-files/<org>/<work_order>/<file>; the storage
+-- policies (tenant_doc_path_allowed) already check that path.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('work-order-files', 'work-order-files', false)
+ON CONFLICT (id) DO NOTHING;
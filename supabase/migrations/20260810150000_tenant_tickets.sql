@@ -0,0 +1,184 @@
+-- ── Tenant support tickets ─────────────────────────────────────────────
+-- tickets / ticket_messages came with the old owner portal and nothing writes
+-- them; tenants email whichever staff address they have and requests get
+-- lost. This turns them into the staff inbox:
+--
+--   * every ticket belongs to an organization (backfilled from its property)
+--     and optionally to a tenant; requester_email is where replies go;
+--   * `number` is the reference carried in the email subject —
+--     "[Ticket #123]" — which is how reconcile-inbound-emails threads a
+--     tenant's reply back onto the ticket (src/lib/ticketThreads.ts);
+--   * messages have a direction: outbound (emailed by send-message), inbound
+--     (matched from inbound_emails, keyed by email_id so a replay can't
+--     duplicate it) or internal (staff notes, never emailed);
+--   * SLA timers run off created_at / first_response_at / resolved_at, which
+--     the triggers below keep honest whichever path wrote the row;
+--   * people are CRM users (public.users), and access follows the users-role
+--     model instead of the profiles-based is_staff_role().
+
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS number bigint GENERATED BY DEFAULT AS IDENTITY,
+  ADD COLUMN IF NOT EXISTS tenant_id uuid REFERENCES public.tenants(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS requester_name text,
+  ADD COLUMN IF NOT EXISTS requester_email text,
+  ADD COLUMN IF NOT EXISTS first_response_at timestamptz,
+  ADD COLUMN IF NOT EXISTS resolved_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_message_at timestamptz;
+
+UPDATE public.tickets t
+   SET organization_id = p.organization_id
+  FROM public.properties p
+ WHERE t.property_id = p.id AND t.organization_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS tickets_number_key ON public.tickets (number);
+CREATE INDEX IF NOT EXISTS tickets_org_status_idx ON public.tickets (organization_id, status);
+CREATE INDEX IF NOT EXISTS tickets_tenant_idx ON public.tickets (tenant_id) WHERE tenant_id IS NOT NULL;
+
+ALTER TABLE public.tickets ALTER COLUMN created_by DROP NOT NULL;
+ALTER TABLE public.tickets ALTER COLUMN status SET DEFAULT 'open';
+ALTER TABLE public.tickets ALTER COLUMN priority SET DEFAULT 'medium';
+
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_assigned_to_fkey;
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_created_by_fkey;
+ALTER TABLE public.tickets
+  ADD CONSTRAINT tickets_assigned_to_fkey
+    FOREIGN KEY (assigned_to) REFERENCES public.users(id) ON DELETE SET NULL NOT VALID,
+  ADD CONSTRAINT tickets_created_by_fkey
+    FOREIGN KEY (created_by) REFERENCES public.users(id) ON DELETE SET NULL NOT VALID;
+
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_status_check;
+ALTER TABLE public.tickets
+  ADD CONSTRAINT tickets_status_check
+    CHECK (status IN ('open', 'pending', 'resolved', 'closed')) NOT VALID;
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_priority_check;
+ALTER TABLE public.tickets
+  ADD CONSTRAINT tickets_priority_check
+    CHECK (priority IN ('low', 'medium', 'high', 'urgent')) NOT VALID;
+
+ALTER TABLE public.ticket_messages
+  ADD COLUMN IF NOT EXISTS direction text NOT NULL DEFAULT 'internal',
+  ADD COLUMN IF NOT EXISTS author_email text,
+  ADD COLUMN IF NOT EXISTS email_id text;
+
+ALTER TABLE public.ticket_messages ALTER COLUMN sender_id DROP NOT NULL;
+ALTER TABLE public.ticket_messages DROP CONSTRAINT IF EXISTS ticket_messages_sender_id_fkey;
+ALTER TABLE public.ticket_messages
+  ADD CONSTRAINT ticket_messages_sender_id_fkey
+    FOREIGN KEY (sender_id) REFERENCES public.users(id) ON DELETE SET NULL NOT VALID;
+
+ALTER TABLE public.ticket_messages DROP CONSTRAINT IF EXISTS ticket_messages_direction_check;
+ALTER TABLE public.ticket_messages
+  ADD CONSTRAINT ticket_messages_direction_check
+    CHECK (direction IN ('outbound', 'inbound', 'internal'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS ticket_messages_email_id_key
+  ON public.ticket_messages (email_id) WHERE email_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS ticket_messages_ticket_created_idx
+  ON public.ticket_messages (ticket_id, created_at);
+
+-- resolved_at follows status; reopening a ticket restarts the resolution clock.
+CREATE OR REPLACE FUNCTION public.tickets_stamp()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.updated_at := now();
+  IF NEW.status IN ('resolved', 'closed') THEN
+    NEW.resolved_at := COALESCE(NEW.resolved_at, now());
+  ELSE
+    NEW.resolved_at := NULL;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.last_message_at := COALESCE(NEW.last_message_at, NEW.created_at, now());
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS tickets_stamp ON public.tickets;
+CREATE TRIGGER tickets_stamp
+  BEFORE INSERT OR UPDATE ON public.tickets
+  FOR EACH ROW EXECUTE FUNCTION public.tickets_stamp();
+
+-- A message moves the ticket: our reply stops the first-response clock and
+-- waits on the tenant (open → pending); their reply puts it back in the queue.
+CREATE OR REPLACE FUNCTION public.ticket_messages_touch_ticket()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.direction = 'outbound' THEN
+    UPDATE tickets
+       SET first_response_at = COALESCE(first_response_at, NEW.created_at, now()),
+           last_message_at = COALESCE(NEW.created_at, now()),
+           status = CASE WHEN status = 'open' THEN 'pending' ELSE status END
+     WHERE id = NEW.ticket_id;
+  ELSIF NEW.direction = 'inbound' THEN
+    UPDATE tickets
+       SET last_message_at = COALESCE(NEW.created_at, now()),
+           status = CASE WHEN status IN ('pending', 'resolved') THEN 'open' ELSE status END
+     WHERE id = NEW.ticket_id;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.ticket_messages_touch_ticket() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS ticket_messages_touch_ticket ON public.ticket_messages;
+CREATE TRIGGER ticket_messages_touch_ticket
+  AFTER INSERT ON public.ticket_messages
+  FOR EACH ROW EXECUTE FUNCTION public.ticket_messages_touch_ticket();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────
+DROP POLICY IF EXISTS "Staff+creator org-scoped tickets" ON public.tickets;
+DROP POLICY IF EXISTS "Ticket-scoped ticket_messages" ON public.ticket_messages;
+
+CREATE POLICY "Org members read tickets" ON public.tickets
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Editors write tickets" ON public.tickets
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+    AND (property_id IS NULL OR public.property_in_user_org(property_id))
+  );
+
+CREATE POLICY "Editors update tickets" ON public.tickets
+  FOR UPDATE TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  )
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND (property_id IS NULL OR public.property_in_user_org(property_id))
+  );
+
+CREATE POLICY "Org members read ticket_messages" ON public.ticket_messages
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.tickets t
+    WHERE t.id = ticket_id
+      AND t.organization_id = public.get_user_organization_id(auth.uid())
+  ));
+
+-- Only notes are written from the browser. Outbound replies go through
+-- send-message (which emails them) and inbound ones through the reconcile cron.
+CREATE POLICY "Editors add internal notes" ON public.ticket_messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    direction = 'internal'
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+    AND EXISTS (
+      SELECT 1 FROM public.tickets t
+      WHERE t.id = ticket_id
+        AND t.organization_id = public.get_user_organization_id(auth.uid())
+    )
+  );
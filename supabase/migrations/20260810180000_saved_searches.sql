@@ -0,0 +1,106 @@
+-- ── Saved searches / new-listing alerts ─────────────────────────────────
+-- "Notify me" on the renter home page stores the visitor's filter set against
+-- their email (save-listing-alert — which also logs the consent in
+-- consent_log). When a unit becomes available, send-listing-alerts emails each
+-- matching search a digest through the process-email-queue pipeline.
+--
+--   * criteria is the filter set, matched by src/lib/listingAlerts.ts;
+--   * every search belongs to a lead, so the unsubscribe link and the
+--     marketing-consent gate in process-email-queue apply unchanged;
+--   * listing_alert_events is the outbox: the trigger below records every
+--     transition into 'available' — whether hemlane-sync-listings or the
+--     PropertyForm wrote it — and the cron marks each event processed once
+--     the digests are queued.
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  criteria jsonb NOT NULL DEFAULT '{}'::jsonb,
+  active boolean NOT NULL DEFAULT true,
+  last_notified_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS saved_searches_org_active_idx
+  ON public.saved_searches (organization_id) WHERE active;
+CREATE INDEX IF NOT EXISTS saved_searches_lead_idx ON public.saved_searches (lead_id);
+
+CREATE TABLE IF NOT EXISTS public.listing_alert_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS listing_alert_events_pending_idx
+  ON public.listing_alert_events (created_at) WHERE processed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.saved_searches_stamp()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.updated_at := now();
+  NEW.email := lower(btrim(NEW.email));
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS saved_searches_stamp ON public.saved_searches;
+CREATE TRIGGER saved_searches_stamp
+  BEFORE INSERT OR UPDATE ON public.saved_searches
+  FOR EACH ROW EXECUTE FUNCTION public.saved_searches_stamp();
+
+-- A unit entering 'available' (new listing, or back on the market). One
+-- pending event per property is enough — the digest reads the row as it is
+-- when the cron runs.
+CREATE OR REPLACE FUNCTION public.properties_listing_alert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'available'
+     AND NOT COALESCE(NEW.is_demo, false)
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'available')
+     AND NOT EXISTS (
+       SELECT 1 FROM listing_alert_events e
+        WHERE e.property_id = NEW.id AND e.processed_at IS NULL
+     ) THEN
+    INSERT INTO listing_alert_events (organization_id, property_id)
+    VALUES (NEW.organization_id, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.properties_listing_alert() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS properties_listing_alert ON public.properties;
+CREATE TRIGGER properties_listing_alert
+  AFTER INSERT OR UPDATE OF status ON public.properties
+  FOR EACH ROW EXECUTE FUNCTION public.properties_listing_alert();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────
+-- Searches are created by save-listing-alert (service role); staff can read
+-- them and switch one off. Events are service-role only.
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.listing_alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members read saved_searches" ON public.saved_searches
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Editors update saved_searches" ON public.saved_searches
+  FOR UPDATE TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  )
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
@@ -0,0 +1,136 @@
+-- ── Rental-application screening ───────────────────────────────────────
+-- Since the Applicants page was removed, an applicant is just a lead with
+-- applied_at set and nobody records how the application was judged. This
+-- gives each application a screening record:
+--
+--   * one row per lead and home applied for; rent_amount is the rent the
+--     applicant is responsible for, monthly_income what staff verified from
+--     their documents (the ratio is checked against ListingPolicies in the
+--     app — src/lib/screening.ts);
+--   * checklist is the document checklist, { item_id: true };
+--   * a decision other than approved carries a reason_code, and the
+--     adverse-action letter that went out is stamped on the row;
+--   * there is deliberately no voucher / source-of-income column (Fair
+--     Housing — same rule as predict-conversion).
+--
+-- Staff notes go in applicant_notes, which until now only held notes on job
+-- applicants: a note belongs to one or the other.
+
+CREATE TABLE IF NOT EXISTS public.application_screenings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES public.properties(id) ON DELETE SET NULL,
+  monthly_income numeric,
+  rent_amount numeric,
+  checklist jsonb NOT NULL DEFAULT '{}'::jsonb,
+  decision text NOT NULL DEFAULT 'pending',
+  reason_code text,
+  conditions text,
+  decided_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  decided_at timestamptz,
+  adverse_action_sent_at timestamptz,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT application_screenings_decision_check
+    CHECK (decision IN ('pending', 'approved', 'conditional', 'denied')),
+  CONSTRAINT application_screenings_reason_check
+    CHECK (decision IN ('pending', 'approved') OR reason_code IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS application_screenings_lead_property_key
+  ON public.application_screenings (lead_id, property_id) NULLS NOT DISTINCT;
+CREATE INDEX IF NOT EXISTS application_screenings_org_decision_idx
+  ON public.application_screenings (organization_id, decision);
+
+-- decided_at follows the decision; going back to review clears it.
+CREATE OR REPLACE FUNCTION public.application_screenings_stamp()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.updated_at := now();
+  IF NEW.decision = 'pending' THEN
+    NEW.decided_at := NULL;
+    NEW.decided_by := NULL;
+    NEW.reason_code := NULL;
+  ELSIF TG_OP = 'INSERT' OR OLD.decision IS DISTINCT FROM NEW.decision THEN
+    NEW.decided_at := now();
+    NEW.adverse_action_sent_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS application_screenings_stamp ON public.application_screenings;
+CREATE TRIGGER application_screenings_stamp
+  BEFORE INSERT OR UPDATE ON public.application_screenings
+  FOR EACH ROW EXECUTE FUNCTION public.application_screenings_stamp();
+
+-- ── applicant_notes: notes on a rental applicant (lead) ─────────────────
+ALTER TABLE public.applicant_notes
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS lead_id uuid REFERENCES public.leads(id) ON DELETE CASCADE;
+
+ALTER TABLE public.applicant_notes ALTER COLUMN applicant_id DROP NOT NULL;
+ALTER TABLE public.applicant_notes DROP CONSTRAINT IF EXISTS applicant_notes_subject_check;
+ALTER TABLE public.applicant_notes
+  ADD CONSTRAINT applicant_notes_subject_check
+    CHECK ((applicant_id IS NULL) <> (lead_id IS NULL));
+
+ALTER TABLE public.applicant_notes DROP CONSTRAINT IF EXISTS applicant_notes_author_id_fkey;
+ALTER TABLE public.applicant_notes
+  ADD CONSTRAINT applicant_notes_author_id_fkey
+    FOREIGN KEY (author_id) REFERENCES public.users(id) ON DELETE CASCADE NOT VALID;
+
+CREATE INDEX IF NOT EXISTS applicant_notes_lead_idx
+  ON public.applicant_notes (lead_id, created_at) WHERE lead_id IS NOT NULL;
+
+-- ── RLS ──────────────────────────────────────────────────────────────────
+ALTER TABLE public.application_screenings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members read application_screenings" ON public.application_screenings
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Editors write application_screenings" ON public.application_screenings
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+    AND (property_id IS NULL OR public.property_in_user_org(property_id))
+  );
+
+CREATE POLICY "Editors update application_screenings" ON public.application_screenings
+  FOR UPDATE TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  )
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND (property_id IS NULL OR public.property_in_user_org(property_id))
+  );
+
+-- The existing admin policy keeps covering job-applicant notes.
+CREATE POLICY "Org editors read lead applicant_notes" ON public.applicant_notes
+  FOR SELECT TO authenticated
+  USING (
+    lead_id IS NOT NULL
+    AND organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  );
+
+CREATE POLICY "Org editors add lead applicant_notes" ON public.applicant_notes
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    lead_id IS NOT NULL
+    AND organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+    AND EXISTS (
+      SELECT 1 FROM public.leads l
+      WHERE l.id = lead_id AND l.organization_id = applicant_notes.organization_id
+    )
+  );
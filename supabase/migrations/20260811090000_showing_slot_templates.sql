@@ -0,0 +1,307 @@
+-- ── Recurring availability templates for showing slots ─────────────────
+-- ManageSlotsTab opens half-hour slots one date at a time, so the same grid
+-- gets re-drawn by hand every Monday. A template is a weekly rule ("Tue/Thu
+-- 4–7pm at the Westropp homes, until Dec 31") that a cron materializes into
+-- showing_available_slots on a rolling horizon:
+--
+--   * property_ids is the set of homes the rule opens (a city, or a cluster
+--     picked home by home); only homes still 'available' get slots, the same
+--     bookable gate the grid applies;
+--   * weekdays are ISO days (1 = Mon … 7 = Sun); the rule yields one slot per
+--     half hour from start_time up to, not including, end_time;
+--   * an exception skips a date — for one template, or for every template
+--     in the org when template_id is NULL (holidays).
+--
+-- Materialized rows carry template_id. Inserts are ON CONFLICT DO NOTHING:
+-- an occurrence someone closed in the grid keeps its (disabled) row, so the
+-- next run never re-opens it and cancelling one occurrence leaves the series
+-- alone. Editing a rule only replaces its future open, unbooked rows.
+
+CREATE TABLE IF NOT EXISTS public.showing_slot_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  property_ids uuid[] NOT NULL DEFAULT '{}',
+  weekdays smallint[] NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  starts_on date NOT NULL DEFAULT CURRENT_DATE,
+  ends_on date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT showing_slot_templates_times_check CHECK (end_time > start_time),
+  CONSTRAINT showing_slot_templates_dates_check CHECK (ends_on IS NULL OR ends_on >= starts_on),
+  CONSTRAINT showing_slot_templates_weekdays_check
+    CHECK (cardinality(weekdays) > 0 AND weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::smallint[])
+);
+
+CREATE INDEX IF NOT EXISTS showing_slot_templates_org_idx
+  ON public.showing_slot_templates (organization_id) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.showing_slot_template_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  template_id uuid REFERENCES public.showing_slot_templates(id) ON DELETE CASCADE,
+  exception_date date NOT NULL,
+  note text,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS showing_slot_template_exceptions_key
+  ON public.showing_slot_template_exceptions (organization_id, template_id, exception_date) NULLS NOT DISTINCT;
+
+ALTER TABLE public.showing_available_slots
+  ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES public.showing_slot_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS showing_available_slots_template_idx
+  ON public.showing_available_slots (template_id, slot_date) WHERE template_id IS NOT NULL;
+
+-- ── Materializer ─────────────────────────────────────────────────────────
+-- Opens every occurrence from today (Cleveland) through the horizon. Skips
+-- past times, exception dates, non-bookable homes and any time whose market
+-- already has a booking (one agent can't take a second home — same rule as
+-- the grid's bulk open). Returns the number of slots created.
+CREATE OR REPLACE FUNCTION public.materialize_slot_templates(
+  p_template uuid DEFAULT NULL,
+  p_horizon_days integer DEFAULT 28
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_local timestamp := now() AT TIME ZONE 'America/New_York';
+  v_today date := v_local::date;
+  v_created int;
+BEGIN
+  WITH occurrences AS (
+    SELECT t.id AS template_id, t.organization_id, t.property_ids,
+           d::date AS slot_date, s::time AS slot_time
+    FROM showing_slot_templates t
+    CROSS JOIN LATERAL generate_series(
+      GREATEST(t.starts_on, v_today),
+      LEAST(COALESCE(t.ends_on, 'infinity'::date), v_today + p_horizon_days),
+      interval '1 day'
+    ) d
+    CROSS JOIN LATERAL generate_series(
+      '2000-01-01'::date + t.start_time,
+      '2000-01-01'::date + t.end_time - interval '30 minutes',
+      interval '30 minutes'
+    ) s
+    WHERE t.is_active
+      AND (p_template IS NULL OR t.id = p_template)
+      AND extract(isodow FROM d)::smallint = ANY (t.weekdays)
+      AND NOT EXISTS (
+        SELECT 1 FROM showing_slot_template_exceptions e
+        WHERE e.organization_id = t.organization_id
+          AND e.exception_date = d::date
+          AND (e.template_id IS NULL OR e.template_id = t.id)
+      )
+  ),
+  candidates AS (
+    SELECT o.template_id, o.organization_id, o.slot_date, o.slot_time,
+           p.id AS property_id, p.market
+    FROM occurrences o
+    JOIN properties p
+      ON p.id = ANY (o.property_ids)
+     AND p.organization_id = o.organization_id
+     AND p.status = 'available'
+    WHERE o.slot_date + o.slot_time > v_local
+  )
+  INSERT INTO showing_available_slots
+    (organization_id, property_id, slot_date, slot_time, is_enabled, template_id)
+  SELECT c.organization_id, c.property_id, c.slot_date, c.slot_time, true, c.template_id
+  FROM candidates c
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM showing_available_slots b
+    JOIN properties bp ON bp.id = b.property_id
+    WHERE b.organization_id = c.organization_id
+      AND b.slot_date = c.slot_date
+      AND b.slot_time = c.slot_time
+      AND b.is_booked
+      AND (b.property_id = c.property_id OR bp.market = c.market)
+  )
+  ON CONFLICT (organization_id, property_id, slot_date, slot_time) DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.materialize_slot_templates(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.materialize_slot_templates(uuid, integer) TO service_role;
+
+-- Drops a template's future slots that are still open and unbooked. Closed
+-- rows stay, so a cancelled occurrence remains cancelled after an edit.
+CREATE OR REPLACE FUNCTION public.clear_slot_template_future(p_template uuid, p_date date DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  DELETE FROM showing_available_slots
+  WHERE template_id = p_template
+    AND is_enabled
+    AND NOT is_booked
+    AND booked_showing_id IS NULL
+    AND (p_date IS NULL OR slot_date = p_date)
+    AND slot_date >= (now() AT TIME ZONE 'America/New_York')::date;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.clear_slot_template_future(uuid, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.clear_slot_template_future(uuid, date) TO service_role;
+
+-- ── Triggers ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION public.showing_slot_templates_stamp()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.updated_at := now();
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS showing_slot_templates_stamp ON public.showing_slot_templates;
+CREATE TRIGGER showing_slot_templates_stamp
+  BEFORE INSERT OR UPDATE ON public.showing_slot_templates
+  FOR EACH ROW EXECUTE FUNCTION public.showing_slot_templates_stamp();
+
+-- A new or edited rule shows up in the grid right away instead of at the
+-- next cron run.
+CREATE OR REPLACE FUNCTION public.showing_slot_templates_apply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.clear_slot_template_future(OLD.id);
+    RETURN OLD;
+  END IF;
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM public.clear_slot_template_future(NEW.id);
+  END IF;
+  IF NEW.is_active THEN
+    PERFORM public.materialize_slot_templates(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+-- DELETE runs BEFORE so the rows still carry template_id (the FK sets it NULL).
+DROP TRIGGER IF EXISTS showing_slot_templates_apply ON public.showing_slot_templates;
+CREATE TRIGGER showing_slot_templates_apply
+  AFTER INSERT OR UPDATE OF property_ids, weekdays, start_time, end_time, starts_on, ends_on, is_active
+  ON public.showing_slot_templates
+  FOR EACH ROW EXECUTE FUNCTION public.showing_slot_templates_apply();
+
+DROP TRIGGER IF EXISTS showing_slot_templates_remove ON public.showing_slot_templates;
+CREATE TRIGGER showing_slot_templates_remove
+  BEFORE DELETE ON public.showing_slot_templates
+  FOR EACH ROW EXECUTE FUNCTION public.showing_slot_templates_apply();
+
+-- Adding an exception takes that date's open template slots down; removing
+-- it puts them back.
+CREATE OR REPLACE FUNCTION public.showing_slot_template_exceptions_apply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  r record;
+  v_row public.showing_slot_template_exceptions := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+BEGIN
+  FOR r IN
+    SELECT t.id FROM showing_slot_templates t
+    WHERE t.organization_id = v_row.organization_id
+      AND (v_row.template_id IS NULL OR t.id = v_row.template_id)
+  LOOP
+    IF TG_OP = 'INSERT' THEN
+      PERFORM public.clear_slot_template_future(r.id, v_row.exception_date);
+    ELSE
+      PERFORM public.materialize_slot_templates(r.id);
+    END IF;
+  END LOOP;
+  RETURN NULL;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS showing_slot_template_exceptions_apply ON public.showing_slot_template_exceptions;
+CREATE TRIGGER showing_slot_template_exceptions_apply
+  AFTER INSERT OR DELETE ON public.showing_slot_template_exceptions
+  FOR EACH ROW EXECUTE FUNCTION public.showing_slot_template_exceptions_apply();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────
+ALTER TABLE public.showing_slot_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.showing_slot_template_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members read showing_slot_templates" ON public.showing_slot_templates
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Editors write showing_slot_templates" ON public.showing_slot_templates
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  );
+
+CREATE POLICY "Editors update showing_slot_templates" ON public.showing_slot_templates
+  FOR UPDATE TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  )
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Editors delete showing_slot_templates" ON public.showing_slot_templates
+  FOR DELETE TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  );
+
+CREATE POLICY "Org members read showing_slot_template_exceptions" ON public.showing_slot_template_exceptions
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Editors write showing_slot_template_exceptions" ON public.showing_slot_template_exceptions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+    AND (
+      template_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.showing_slot_templates t
+        WHERE t.id = template_id AND t.organization_id = showing_slot_template_exceptions.organization_id
+      )
+    )
+  );
+
+CREATE POLICY "Editors delete showing_slot_template_exceptions" ON public.showing_slot_template_exceptions
+  FOR DELETE TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  );
+
+-- Nightly, after midnight Cleveland time (05:15 UTC), roll the horizon
+-- forward by a day.
+SELECT cron.schedule(
+  'materialize-slot-templates',
+  '15 5 * * *',
+  $$SELECT public.materialize_slot_templates()$$
+);
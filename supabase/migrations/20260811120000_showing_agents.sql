@@ -0,0 +1,429 @@
+-- ── Multi-agent showing calendars ───────────────────────────────────────
+-- Until now a market had exactly one person giving tours: one booked showing
+-- blocked that time across every home in the market, and
+-- showings.leasing_agent_id was mostly left empty. That caps tour capacity at
+-- one per half hour per city. With more than one person touring, each of
+-- them gets a row here:
+--
+--   * markets is the agent's territory (properties.market values); empty
+--     means they cover every market;
+--   * showing_agent_hours are their weekly hours (ISO weekday, local time of
+--     the home); an agent with no hours rows is available whenever a slot is
+--     open;
+--   * showing_agent_time_off blocks whole dates;
+--   * last_assigned_at drives round-robin.
+--
+-- next_showing_agent() picks who takes a booking. organization_settings
+-- 'showing_assignment_mode' chooses how: 'round_robin' rotates through every
+-- free agent, 'territory' only considers agents whose territory includes the
+-- home's market (agents with no territory are the fallback).
+--
+-- An org with no active showing agents keeps the single-agent-per-market
+-- rules exactly as before.
+
+CREATE TABLE IF NOT EXISTS public.showing_agents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  markets text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  last_assigned_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT showing_agents_org_user_key UNIQUE (organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.showing_agent_hours (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  agent_id uuid NOT NULL REFERENCES public.showing_agents(id) ON DELETE CASCADE,
+  weekday smallint NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  CONSTRAINT showing_agent_hours_weekday_check CHECK (weekday BETWEEN 1 AND 7),
+  CONSTRAINT showing_agent_hours_times_check CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS showing_agent_hours_agent_idx
+  ON public.showing_agent_hours (agent_id, weekday);
+
+CREATE TABLE IF NOT EXISTS public.showing_agent_time_off (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  agent_id uuid NOT NULL REFERENCES public.showing_agents(id) ON DELETE CASCADE,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT showing_agent_time_off_dates_check CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS showing_agent_time_off_agent_idx
+  ON public.showing_agent_time_off (agent_id, ends_on);
+
+CREATE INDEX IF NOT EXISTS idx_showings_agent_scheduled
+  ON public.showings (leasing_agent_id, scheduled_at)
+  WHERE leasing_agent_id IS NOT NULL AND status IN ('scheduled', 'confirmed');
+
+CREATE OR REPLACE FUNCTION public.showing_agents_stamp()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS showing_agents_stamp ON public.showing_agents;
+CREATE TRIGGER showing_agents_stamp
+  BEFORE INSERT OR UPDATE ON public.showing_agents
+  FOR EACH ROW EXECUTE FUNCTION public.showing_agents_stamp();
+
+CREATE OR REPLACE FUNCTION public.org_uses_showing_agents(p_org uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM showing_agents a WHERE a.organization_id = p_org AND a.is_active
+  );
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.org_uses_showing_agents(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.org_uses_showing_agents(uuid) TO authenticated, service_role;
+
+-- ── Who takes a tour ─────────────────────────────────────────────────────
+-- The agent (users.id) free to show a home in p_market at p_slot_date /
+-- p_slot_time (the home's local clock; p_scheduled_at is the same instant).
+-- "Free" = active, covers the market under the org's mode, within their
+-- hours, not on time off, and no active showing of theirs overlapping this
+-- one plus the org's buffer on either side. p_group_property lets the
+-- agent already showing that home at that exact instant take another
+-- attendee (group tour). NULL when nobody is free.
+CREATE OR REPLACE FUNCTION public.next_showing_agent(
+  p_org uuid,
+  p_market text,
+  p_slot_date date,
+  p_slot_time time,
+  p_scheduled_at timestamptz,
+  p_duration_minutes integer DEFAULT 30,
+  p_group_property uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_mode text;
+  v_buffer int;
+  v_agent uuid;
+BEGIN
+  SELECT COALESCE(
+    (SELECT value #>> '{}' FROM organization_settings
+      WHERE organization_id = p_org AND key = 'showing_assignment_mode'),
+    'round_robin'
+  ) INTO v_mode;
+  SELECT COALESCE(
+    (SELECT (value #>> '{}')::int FROM organization_settings
+      WHERE organization_id = p_org AND key = 'buffer_minutes'),
+    0
+  ) INTO v_buffer;
+
+  SELECT a.user_id INTO v_agent
+  FROM showing_agents a
+  JOIN users u ON u.id = a.user_id AND COALESCE(u.is_active, true)
+  WHERE a.organization_id = p_org
+    AND a.is_active
+    AND (
+      v_mode <> 'territory'
+      OR cardinality(a.markets) = 0
+      OR p_market = ANY (a.markets)
+    )
+    AND (
+      NOT EXISTS (SELECT 1 FROM showing_agent_hours h WHERE h.agent_id = a.id)
+      OR EXISTS (
+        SELECT 1 FROM showing_agent_hours h
+        WHERE h.agent_id = a.id
+          AND h.weekday = extract(isodow FROM p_slot_date)::smallint
+          AND p_slot_time >= h.start_time
+          AND p_slot_time + make_interval(mins => COALESCE(p_duration_minutes, 30)) <= h.end_time
+      )
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM showing_agent_time_off o
+      WHERE o.agent_id = a.id AND p_slot_date BETWEEN o.starts_on AND o.ends_on
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM showings s
+      WHERE s.organization_id = p_org
+        AND s.leasing_agent_id = a.user_id
+        AND s.status IN ('scheduled', 'confirmed')
+        AND COALESCE(s.is_demo, false) = false
+        AND NOT (s.property_id = p_group_property AND s.scheduled_at = p_scheduled_at)
+        AND s.scheduled_at < p_scheduled_at + make_interval(mins => COALESCE(p_duration_minutes, 30) + v_buffer)
+        AND s.scheduled_at + make_interval(mins => COALESCE(s.duration_minutes, 30) + v_buffer) > p_scheduled_at
+    )
+  ORDER BY
+    -- Territory mode: the market's own agents before the everywhere agents.
+    CASE WHEN v_mode = 'territory' AND p_market = ANY (a.markets) THEN 0 ELSE 1 END,
+    -- The group-tour agent keeps the group.
+    CASE WHEN EXISTS (
+      SELECT 1 FROM showings g
+      WHERE g.leasing_agent_id = a.user_id AND g.property_id = p_group_property
+        AND g.scheduled_at = p_scheduled_at AND g.status IN ('scheduled', 'confirmed')
+    ) THEN 0 ELSE 1 END,
+    a.last_assigned_at NULLS FIRST,
+    a.created_at
+  LIMIT 1;
+
+  RETURN v_agent;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.next_showing_agent(uuid, text, date, time, timestamptz, integer, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.next_showing_agent(uuid, text, date, time, timestamptz, integer, uuid) TO service_role;
+
+-- ── enforce_showing_agent_slot: per agent when the org has agents ────────
+-- Orgs with showing agents: an assigned showing collides only with the same
+-- agent's other showings at that instant (a different home — the same home
+-- is still a group tour). Unassigned showings keep the market rule among
+-- themselves, so a manual booking without an agent behaves as before.
+-- Orgs without agents: unchanged (one agent per market). Guard (2) — one
+-- renter, one place — applies either way.
+CREATE OR REPLACE FUNCTION public.enforce_showing_agent_slot()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  new_market text;
+  per_agent boolean;
+BEGIN
+  -- Only active, real (non-demo) showings occupy an agent's time.
+  IF NEW.status NOT IN ('scheduled', 'confirmed') OR COALESCE(NEW.is_demo, false) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.market INTO new_market
+  FROM public.properties p
+  WHERE p.id = NEW.property_id;
+
+  per_agent := NEW.leasing_agent_id IS NOT NULL
+    AND public.org_uses_showing_agents(NEW.organization_id);
+
+  -- Serialize concurrent writers for the same agent (or, without one, the
+  -- same market) at the same instant so the EXISTS checks below are atomic
+  -- with the write.
+  PERFORM pg_advisory_xact_lock(
+    hashtext(NEW.organization_id::text || ':' ||
+      CASE WHEN per_agent THEN 'agent:' || NEW.leasing_agent_id::text
+           ELSE COALESCE(new_market, '') END),
+    hashtext(NEW.scheduled_at::text)
+  );
+
+  -- (1) The person giving the tour can't be at two homes at once. Same
+  -- property + same instant is allowed → group tour.
+  IF per_agent THEN
+    IF EXISTS (
+      SELECT 1
+      FROM public.showings s
+      WHERE s.organization_id = NEW.organization_id
+        AND s.leasing_agent_id = NEW.leasing_agent_id
+        AND s.scheduled_at = NEW.scheduled_at
+        AND s.id <> NEW.id
+        AND s.status IN ('scheduled', 'confirmed')
+        AND COALESCE(s.is_demo, false) = false
+        AND s.property_id <> NEW.property_id
+    ) THEN
+      RAISE EXCEPTION 'showing_slot_conflict: this agent is already booked at this time'
+        USING ERRCODE = '23505';
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1
+    FROM public.showings s
+    JOIN public.properties sp ON sp.id = s.property_id
+    WHERE s.organization_id = NEW.organization_id
+      AND s.scheduled_at = NEW.scheduled_at
+      AND s.id <> NEW.id
+      AND s.status IN ('scheduled', 'confirmed')
+      AND COALESCE(s.is_demo, false) = false
+      AND s.property_id <> NEW.property_id
+      AND sp.market IS NOT DISTINCT FROM new_market
+      AND (
+        NOT public.org_uses_showing_agents(NEW.organization_id)
+        OR s.leasing_agent_id IS NULL
+      )
+  ) THEN
+    -- Reuse unique_violation (23505) so every existing app-layer catch
+    -- (book-public-showing, ScheduleShowingDialog) keeps mapping it to a 409.
+    RAISE EXCEPTION 'showing_slot_conflict: a different property is already booked at this time'
+      USING ERRCODE = '23505';
+  END IF;
+
+  -- (2) One renter, one place: the same lead cannot hold two active showings
+  -- at the same instant, in any market.
+  IF EXISTS (
+    SELECT 1
+    FROM public.showings s
+    WHERE s.organization_id = NEW.organization_id
+      AND s.lead_id = NEW.lead_id
+      AND s.scheduled_at = NEW.scheduled_at
+      AND s.id <> NEW.id
+      AND s.status IN ('scheduled', 'confirmed')
+      AND COALESCE(s.is_demo, false) = false
+  ) THEN
+    RAISE EXCEPTION 'showing_lead_conflict: this person already has a showing at this time'
+      USING ERRCODE = '23505';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_showing_agent_slot() FROM PUBLIC, anon, authenticated;
+
+-- ── Templates: a booked market no longer closes the hour for everyone ────
+-- With several agents a booking only blocks the rest of the market once
+-- nobody is left free (book-public-showing does that), so the materializer
+-- stops treating one booking as "market taken" for those orgs.
+CREATE OR REPLACE FUNCTION public.materialize_slot_templates(
+  p_template uuid DEFAULT NULL,
+  p_horizon_days integer DEFAULT 28
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_local timestamp := now() AT TIME ZONE 'America/New_York';
+  v_today date := v_local::date;
+  v_created int;
+BEGIN
+  WITH occurrences AS (
+    SELECT t.id AS template_id, t.organization_id, t.property_ids,
+           d::date AS slot_date, s::time AS slot_time
+    FROM showing_slot_templates t
+    CROSS JOIN LATERAL generate_series(
+      GREATEST(t.starts_on, v_today),
+      LEAST(COALESCE(t.ends_on, 'infinity'::date), v_today + p_horizon_days),
+      interval '1 day'
+    ) d
+    CROSS JOIN LATERAL generate_series(
+      '2000-01-01'::date + t.start_time,
+      '2000-01-01'::date + t.end_time - interval '30 minutes',
+      interval '30 minutes'
+    ) s
+    WHERE t.is_active
+      AND (p_template IS NULL OR t.id = p_template)
+      AND extract(isodow FROM d)::smallint = ANY (t.weekdays)
+      AND NOT EXISTS (
+        SELECT 1 FROM showing_slot_template_exceptions e
+        WHERE e.organization_id = t.organization_id
+          AND e.exception_date = d::date
+          AND (e.template_id IS NULL OR e.template_id = t.id)
+      )
+  ),
+  candidates AS (
+    SELECT o.template_id, o.organization_id, o.slot_date, o.slot_time,
+           p.id AS property_id, p.market
+    FROM occurrences o
+    JOIN properties p
+      ON p.id = ANY (o.property_ids)
+     AND p.organization_id = o.organization_id
+     AND p.status = 'available'
+    WHERE o.slot_date + o.slot_time > v_local
+  )
+  INSERT INTO showing_available_slots
+    (organization_id, property_id, slot_date, slot_time, is_enabled, template_id)
+  SELECT c.organization_id, c.property_id, c.slot_date, c.slot_time, true, c.template_id
+  FROM candidates c
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM showing_available_slots b
+    JOIN properties bp ON bp.id = b.property_id
+    WHERE b.organization_id = c.organization_id
+      AND b.slot_date = c.slot_date
+      AND b.slot_time = c.slot_time
+      AND b.is_booked
+      AND (
+        b.property_id = c.property_id
+        OR (bp.market = c.market AND NOT public.org_uses_showing_agents(c.organization_id))
+      )
+  )
+  ON CONFLICT (organization_id, property_id, slot_date, slot_time) DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$function$;
+
+
+-- ── RLS ──────────────────────────────────────────────────────────────────
+ALTER TABLE public.showing_agents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.showing_agent_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.showing_agent_time_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members read showing_agents" ON public.showing_agents
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Admins write showing_agents" ON public.showing_agents
+  FOR ALL TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+  )
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+    AND EXISTS (
+      SELECT 1 FROM public.users u
+      WHERE u.id = user_id AND u.organization_id = showing_agents.organization_id
+    )
+  );
+
+CREATE POLICY "Org members read showing_agent_hours" ON public.showing_agent_hours
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Admins write showing_agent_hours" ON public.showing_agent_hours
+  FOR ALL TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+  )
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+    AND EXISTS (
+      SELECT 1 FROM public.showing_agents a
+      WHERE a.id = agent_id AND a.organization_id = showing_agent_hours.organization_id
+    )
+  );
+
+CREATE POLICY "Org members read showing_agent_time_off" ON public.showing_agent_time_off
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Admins write showing_agent_time_off" ON public.showing_agent_time_off
+  FOR ALL TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+  )
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+    AND EXISTS (
+      SELECT 1 FROM public.showing_agents a
+      WHERE a.id = agent_id AND a.organization_id = showing_agent_time_off.organization_id
+    )
+  );
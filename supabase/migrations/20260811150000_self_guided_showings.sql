@@ -0,0 +1,228 @@
+-- ── Self-guided showings ─────────────────────────────────────────────────
+-- Some homes can be toured without an agent: the renter gets a lockbox/smart
+-- lock code that only works for their slot, lets themselves in, and fills in
+-- a short check-out form afterwards that becomes the showing's agent_report.
+--
+-- properties.self_guided is the switch; showings.self_guided snapshots it at
+-- booking time, because it decides whether that showing takes an agent's time
+-- and flipping the property later must not rewrite history.
+
+ALTER TABLE public.properties
+  ADD COLUMN IF NOT EXISTS self_guided boolean NOT NULL DEFAULT false,
+  -- Shown to the renter with the code: where to park, where the lockbox is.
+  ADD COLUMN IF NOT EXISTS self_guided_instructions text,
+  -- The lock/lockbox id at the access-code provider (null for the fake one).
+  ADD COLUMN IF NOT EXISTS lockbox_id text;
+
+ALTER TABLE public.showings
+  ADD COLUMN IF NOT EXISTS self_guided boolean NOT NULL DEFAULT false;
+
+-- One code per showing, valid only for the slot window. Written by the edge
+-- functions with the service role (book-public-showing issues, manage-showing
+-- and self-guided-checkout revoke); staff can read them to help a renter who
+-- is standing at the door.
+CREATE TABLE IF NOT EXISTS public.showing_access_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  showing_id uuid NOT NULL UNIQUE REFERENCES public.showings(id) ON DELETE CASCADE,
+  property_id uuid REFERENCES public.properties(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  code text NOT NULL,
+  external_id text,
+  valid_from timestamptz NOT NULL,
+  valid_until timestamptz NOT NULL,
+  revoked_at timestamptz,
+  checked_out_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT showing_access_codes_window CHECK (valid_until > valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_showing_access_codes_org_window
+  ON public.showing_access_codes (organization_id, valid_until);
+
+ALTER TABLE public.showing_access_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read showing_access_codes" ON public.showing_access_codes
+  FOR SELECT TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  );
+
+-- ── enforce_showing_agent_slot: self-guided tours take nobody's time ─────
+-- Same rules as before (20260811120000_showing_agents); a self-guided showing
+-- skips guard (1) and never counts against another showing in it. Guard (2)
+-- — one renter, one place — still applies.
+CREATE OR REPLACE FUNCTION public.enforce_showing_agent_slot()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  new_market text;
+  per_agent boolean;
+BEGIN
+  -- Only active, real (non-demo) showings occupy an agent's time.
+  IF NEW.status NOT IN ('scheduled', 'confirmed') OR COALESCE(NEW.is_demo, false) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.market INTO new_market
+  FROM public.properties p
+  WHERE p.id = NEW.property_id;
+
+  per_agent := NEW.leasing_agent_id IS NOT NULL
+    AND public.org_uses_showing_agents(NEW.organization_id);
+
+  -- Serialize concurrent writers for the same agent (or, without one, the
+  -- same market) at the same instant so the EXISTS checks below are atomic
+  -- with the write.
+  PERFORM pg_advisory_xact_lock(
+    hashtext(NEW.organization_id::text || ':' ||
+      CASE WHEN per_agent THEN 'agent:' || NEW.leasing_agent_id::text
+           ELSE COALESCE(new_market, '') END),
+    hashtext(NEW.scheduled_at::text)
+  );
+
+  -- (1) The person giving the tour can't be at two homes at once. Same
+  -- property + same instant is allowed → group tour. A self-guided tour has
+  -- nobody giving it, so it neither takes nor collides with anyone's time.
+  IF NEW.self_guided THEN
+    NULL;
+  ELSIF per_agent THEN
+    IF EXISTS (
+      SELECT 1
+      FROM public.showings s
+      WHERE s.organization_id = NEW.organization_id
+        AND s.leasing_agent_id = NEW.leasing_agent_id
+        AND s.scheduled_at = NEW.scheduled_at
+        AND s.id <> NEW.id
+        AND s.status IN ('scheduled', 'confirmed')
+        AND COALESCE(s.is_demo, false) = false
+        AND s.property_id <> NEW.property_id
+        AND NOT s.self_guided
+    ) THEN
+      RAISE EXCEPTION 'showing_slot_conflict: this agent is already booked at this time'
+        USING ERRCODE = '23505';
+    END IF;
+  ELSIF EXISTS (
+    SELECT 1
+    FROM public.showings s
+    JOIN public.properties sp ON sp.id = s.property_id
+    WHERE s.organization_id = NEW.organization_id
+      AND s.scheduled_at = NEW.scheduled_at
+      AND s.id <> NEW.id
+      AND s.status IN ('scheduled', 'confirmed')
+      AND COALESCE(s.is_demo, false) = false
+      AND s.property_id <> NEW.property_id
+      AND sp.market IS NOT DISTINCT FROM new_market
+      AND NOT s.self_guided
+      AND (
+        NOT public.org_uses_showing_agents(NEW.organization_id)
+        OR s.leasing_agent_id IS NULL
+      )
+  ) THEN
+    -- Reuse unique_violation (23505) so every existing app-layer catch
+    -- (book-public-showing, ScheduleShowingDialog) keeps mapping it to a 409.
+    RAISE EXCEPTION 'showing_slot_conflict: a different property is already booked at this time'
+      USING ERRCODE = '23505';
+  END IF;
+
+  -- (2) One renter, one place: the same lead cannot hold two active showings
+  -- at the same instant, in any market.
+  IF EXISTS (
+    SELECT 1
+    FROM public.showings s
+    WHERE s.organization_id = NEW.organization_id
+      AND s.lead_id = NEW.lead_id
+      AND s.scheduled_at = NEW.scheduled_at
+      AND s.id <> NEW.id
+      AND s.status IN ('scheduled', 'confirmed')
+      AND COALESCE(s.is_demo, false) = false
+  ) THEN
+    RAISE EXCEPTION 'showing_lead_conflict: this person already has a showing at this time'
+      USING ERRCODE = '23505';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_showing_agent_slot() FROM PUBLIC, anon, authenticated;
+
+-- ── Templates: a self-guided booking does not close the market ──────────
+CREATE OR REPLACE FUNCTION public.materialize_slot_templates(
+  p_template uuid DEFAULT NULL,
+  p_horizon_days integer DEFAULT 28
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_local timestamp := now() AT TIME ZONE 'America/New_York';
+  v_today date := v_local::date;
+  v_created int;
+BEGIN
+  WITH occurrences AS (
+    SELECT t.id AS template_id, t.organization_id, t.property_ids,
+           d::date AS slot_date, s::time AS slot_time
+    FROM showing_slot_templates t
+    CROSS JOIN LATERAL generate_series(
+      GREATEST(t.starts_on, v_today),
+      LEAST(COALESCE(t.ends_on, 'infinity'::date), v_today + p_horizon_days),
+      interval '1 day'
+    ) d
+    CROSS JOIN LATERAL generate_series(
+      '2000-01-01'::date + t.start_time,
+      '2000-01-01'::date + t.end_time - interval '30 minutes',
+      interval '30 minutes'
+    ) s
+    WHERE t.is_active
+      AND (p_template IS NULL OR t.id = p_template)
+      AND extract(isodow FROM d)::smallint = ANY (t.weekdays)
+      AND NOT EXISTS (
+        SELECT 1 FROM showing_slot_template_exceptions e
+        WHERE e.organization_id = t.organization_id
+          AND e.exception_date = d::date
+          AND (e.template_id IS NULL OR e.template_id = t.id)
+      )
+  ),
+  candidates AS (
+    SELECT o.template_id, o.organization_id, o.slot_date, o.slot_time,
+           p.id AS property_id, p.market
+    FROM occurrences o
+    JOIN properties p
+      ON p.id = ANY (o.property_ids)
+     AND p.organization_id = o.organization_id
+     AND p.status = 'available'
+    WHERE o.slot_date + o.slot_time > v_local
+  )
+  INSERT INTO showing_available_slots
+    (organization_id, property_id, slot_date, slot_time, is_enabled, template_id)
+  SELECT c.organization_id, c.property_id, c.slot_date, c.slot_time, true, c.template_id
+  FROM candidates c
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM showing_available_slots b
+    JOIN properties bp ON bp.id = b.property_id
+    LEFT JOIN showings bs ON bs.id = b.booked_showing_id
+    WHERE b.organization_id = c.organization_id
+      AND b.slot_date = c.slot_date
+      AND b.slot_time = c.slot_time
+      AND b.is_booked
+      AND (
+        b.property_id = c.property_id
+        OR (bp.market = c.market
+            AND NOT public.org_uses_showing_agents(c.organization_id)
+            AND NOT COALESCE(bs.self_guided, false))
+      )
+  )
+  ON CONFLICT (organization_id, property_id, slot_date, slot_time) DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$function$;
@@ -0,0 +1,128 @@
+-- ── Per-property showing waitlist ─────────────────────────────────────────
+-- A home with no open slot used to dead-end the booking page. Renters can now
+-- join that home's waitlist (join-showing-waitlist). When a slot opens there —
+-- an admin opens it in the grid, a template materializes it, or a cancelled /
+-- moved showing frees it — send-showing-waitlist emails the people at the
+-- front of the line a link to the booking page, prefilled for them
+-- (resolve-lead-token), first come first served.
+--
+--   * One entry per (home, lead). Joining again while waiting keeps the place
+--     in line; joining again after being notified goes to the back.
+--   * Each opening notifies as many waiting renters as there are open slots
+--     at the home — not everyone, so the earliest in line get a fair shot at
+--     the time before the rest hear about it.
+--   * showing_waitlist_events is the outbox, like listing_alert_events: the
+--     trigger below records "a slot opened at this home" and the cron drains
+--     it. One pending event per home is enough — the job reads the slots as
+--     they are when it runs.
+--   * Booking any showing at the home takes the renter off its waitlist.
+
+CREATE TABLE IF NOT EXISTS public.showing_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  -- waiting → notified (a slot opened and we wrote) → booked | left
+  status text NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'notified', 'booked', 'left')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  notified_at timestamptz,
+  UNIQUE (property_id, lead_id)
+);
+
+CREATE INDEX IF NOT EXISTS showing_waitlist_waiting_idx
+  ON public.showing_waitlist (property_id, created_at)
+  WHERE status = 'waiting';
+
+CREATE TABLE IF NOT EXISTS public.showing_waitlist_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  processed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS showing_waitlist_events_pending_idx
+  ON public.showing_waitlist_events (created_at) WHERE processed_at IS NULL;
+
+-- A slot becoming bookable: inserted open, re-enabled, or released by a
+-- cancellation (sync_slot_booking_status sets is_booked back to false).
+-- Only worth an event when somebody is waiting for that home.
+CREATE OR REPLACE FUNCTION public.showing_waitlist_slot_opened()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.is_enabled
+     AND NOT NEW.is_booked
+     AND NEW.slot_date >= (now() AT TIME ZONE 'America/New_York')::date
+     AND (TG_OP = 'INSERT' OR OLD.is_booked OR NOT OLD.is_enabled)
+     AND EXISTS (
+       SELECT 1 FROM showing_waitlist w
+        WHERE w.property_id = NEW.property_id AND w.status = 'waiting'
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM showing_waitlist_events e
+        WHERE e.property_id = NEW.property_id AND e.processed_at IS NULL
+     ) THEN
+    INSERT INTO showing_waitlist_events (organization_id, property_id)
+    VALUES (NEW.organization_id, NEW.property_id);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.showing_waitlist_slot_opened() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS showing_waitlist_slot_opened ON public.showing_available_slots;
+CREATE TRIGGER showing_waitlist_slot_opened
+  AFTER INSERT OR UPDATE OF is_booked, is_enabled ON public.showing_available_slots
+  FOR EACH ROW EXECUTE FUNCTION public.showing_waitlist_slot_opened();
+
+-- Whoever books the home is done waiting for it (however they booked).
+CREATE OR REPLACE FUNCTION public.showing_waitlist_booked()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status IN ('scheduled', 'confirmed') THEN
+    UPDATE showing_waitlist
+       SET status = 'booked'
+     WHERE property_id = NEW.property_id
+       AND lead_id = NEW.lead_id
+       AND status IN ('waiting', 'notified');
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.showing_waitlist_booked() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS showing_waitlist_booked ON public.showings;
+CREATE TRIGGER showing_waitlist_booked
+  AFTER INSERT ON public.showings
+  FOR EACH ROW EXECUTE FUNCTION public.showing_waitlist_booked();
+
+-- ── RLS ──────────────────────────────────────────────────────────────────
+-- Entries are created by join-showing-waitlist and worked by
+-- send-showing-waitlist (service role); staff can read them and take someone
+-- off. Events are service-role only.
+ALTER TABLE public.showing_waitlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.showing_waitlist_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members read showing_waitlist" ON public.showing_waitlist
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Editors update showing_waitlist" ON public.showing_waitlist
+  FOR UPDATE TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  )
+  WITH CHECK (organization_id = public.get_user_organization_id(auth.uid()));
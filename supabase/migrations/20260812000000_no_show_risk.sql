@@ -0,0 +1,106 @@
+-- ── No-show risk: extra confirmation touch + optional overbooking ─────────
+-- src/lib/noShowRisk.ts scores each booked showing from how it was booked
+-- (lead time, confirmation, channel) and the renter's own earlier no-shows.
+-- book-public-showing acts on a high score in two ways:
+--
+--   * An extra showing_confirmation task a few hours before the tour
+--     (context.trigger = 'no_show_risk'), on top of the usual one.
+--   * At a home with properties.overbook_high_risk on, the slot stays open
+--     for one more renter: showing_available_slots.overbook_showing_id holds
+--     the high-risk showing while is_booked stays false. The next renter who
+--     books that time books it normally (is_booked = true) — two tours at
+--     the same home and instant, which enforce_showing_agent_slot already
+--     allows. Off by default.
+
+ALTER TABLE public.properties
+  ADD COLUMN IF NOT EXISTS overbook_high_risk boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.showing_available_slots
+  ADD COLUMN IF NOT EXISTS overbook_showing_id uuid
+    REFERENCES public.showings(id) ON DELETE SET NULL;
+
+-- Freeing a slot now also lets go of a high-risk hold. When the held
+-- showing drops out the slot is simply one-renter again (booked or not by
+-- whoever came second); when the second renter drops out the hold is still
+-- there and the slot reopens for one.
+CREATE OR REPLACE FUNCTION public.sync_slot_booking_status()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+  BEGIN
+    IF NEW.status IN ('cancelled', 'no_show', 'rescheduled')
+       AND OLD.status NOT IN ('cancelled', 'no_show', 'rescheduled') THEN
+      IF NEW.open_house_slot_id IS NOT NULL THEN
+        PERFORM public.refill_open_house(NEW.open_house_slot_id, NEW.id);
+      ELSE
+        UPDATE public.showing_available_slots
+        SET is_booked = false, booked_showing_id = NULL, booked_at = NULL, updated_at = now()
+        WHERE booked_showing_id = NEW.id;
+        UPDATE public.showing_available_slots
+        SET overbook_showing_id = NULL, updated_at = now()
+        WHERE overbook_showing_id = NEW.id;
+      END IF;
+    END IF;
+    RETURN NEW;
+  END; $function$;
+
+-- The extra touch must not stand in for the regular confirmation: the
+-- scheduler only looks for a pending regular one before creating it.
+CREATE OR REPLACE FUNCTION public.schedule_showing_confirmations()
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_showing RECORD;
+  v_count INTEGER := 0;
+  v_confirm_hours INTEGER;
+BEGIN
+  FOR v_showing IN
+    SELECT s.id, s.organization_id, s.lead_id, s.property_id,
+           s.scheduled_at, s.leasing_agent_id
+    FROM public.showings s
+    WHERE s.status = 'scheduled'
+      AND s.scheduled_at > NOW()
+      AND s.scheduled_at < NOW() + interval '48 hours'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.agent_tasks at
+        WHERE at.lead_id = s.lead_id
+          AND at.agent_type = 'showing_confirmation'
+          AND at.status IN ('pending', 'in_progress')
+          AND (at.context->>'showing_id')::UUID = s.id
+          AND COALESCE(at.context->>'trigger', '') <> 'no_show_risk'
+      )
+    LIMIT 30
+  LOOP
+    v_confirm_hours := COALESCE(
+      (public.get_org_setting(v_showing.organization_id, 'confirmation_hours_before', '24'::JSONB))::TEXT::INTEGER,
+      24);
+
+    INSERT INTO public.agent_tasks (
+      organization_id, lead_id, agent_type, action_type,
+      scheduled_for, attempt_number, max_attempts, status, context
+    ) VALUES (
+      v_showing.organization_id, v_showing.lead_id, 'showing_confirmation', 'email',
+      v_showing.scheduled_at - (v_confirm_hours || ' hours')::INTERVAL,
+      1,
+      COALESCE(
+        (public.get_org_setting(v_showing.organization_id, 'confirmation_max_attempts', '3'::JSONB))::TEXT::INTEGER,
+        3),
+      'pending',
+      jsonb_build_object(
+        'showing_id', v_showing.id,
+        'property_id', v_showing.property_id,
+        'scheduled_at', v_showing.scheduled_at,
+        'leasing_agent_id', v_showing.leasing_agent_id,
+        'trigger', 'confirmation_scheduler'
+      )
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$function$;
@@ -0,0 +1,188 @@
+-- ── Two-way calendar sync (CalDAV) ───────────────────────────────────────
+-- showings-ics is a read-only feed: an agent's dentist appointment never
+-- reached us, so tours got booked over it. Each agent can now connect their
+-- own calendar (agent_calendars — any CalDAV server: Google, iCloud,
+-- Fastmail, Nextcloud…) and caldav-sync, on a cron, does both directions:
+--
+--   * Reads their busy time for the next weeks into agent_busy_blocks and
+--     closes the open slots it overlaps (is_enabled = false,
+--     closed_by_calendar = true). A slot it closed reopens by itself once the
+--     busy time is gone; slots an admin closed by hand are never touched.
+--     Which slots: in an org without showing agents, the calendar's markets
+--     (empty = every market); with showing agents, a slot only closes when
+--     nobody else is free for it — next_showing_agent below now skips busy
+--     agents, so a booking never lands on one either.
+--   * Writes their upcoming showings into that calendar as events
+--     (showing_calendar_events remembers what was written where), moves them
+--     when the tour moves and deletes them when it's cancelled.
+
+CREATE TABLE IF NOT EXISTS public.agent_calendars (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- The calendar collection URL, and credentials for it (an app password —
+  -- Google, iCloud and Fastmail all issue one for CalDAV).
+  caldav_url text NOT NULL,
+  username text NOT NULL,
+  password text NOT NULL,
+  -- Orgs without showing agents: the markets this person tours. Empty = all.
+  markets text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  last_synced_at timestamptz,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT agent_calendars_org_user_key UNIQUE (organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.agent_busy_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  calendar_id uuid NOT NULL REFERENCES public.agent_calendars(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Only the time is kept — never the title or notes of someone's
+  -- personal appointment.
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  CONSTRAINT agent_busy_blocks_range_check CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS agent_busy_blocks_user_idx
+  ON public.agent_busy_blocks (user_id, starts_at);
+CREATE INDEX IF NOT EXISTS agent_busy_blocks_calendar_idx
+  ON public.agent_busy_blocks (calendar_id);
+
+CREATE TABLE IF NOT EXISTS public.showing_calendar_events (
+  showing_id uuid NOT NULL REFERENCES public.showings(id) ON DELETE CASCADE,
+  calendar_id uuid NOT NULL REFERENCES public.agent_calendars(id) ON DELETE CASCADE,
+  event_uid text NOT NULL,
+  -- What the event says now; a difference from the showing means rewrite.
+  scheduled_at timestamptz NOT NULL,
+  duration_minutes integer NOT NULL,
+  etag text,
+  synced_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (showing_id, calendar_id)
+);
+
+ALTER TABLE public.showing_available_slots
+  ADD COLUMN IF NOT EXISTS closed_by_calendar boolean NOT NULL DEFAULT false;
+
+DROP TRIGGER IF EXISTS agent_calendars_stamp ON public.agent_calendars;
+CREATE TRIGGER agent_calendars_stamp
+  BEFORE UPDATE ON public.agent_calendars
+  FOR EACH ROW EXECUTE FUNCTION public.showing_agents_stamp();
+
+-- ── Who takes a tour: also not while busy in their own calendar ──────────
+CREATE OR REPLACE FUNCTION public.next_showing_agent(
+  p_org uuid,
+  p_market text,
+  p_slot_date date,
+  p_slot_time time,
+  p_scheduled_at timestamptz,
+  p_duration_minutes integer DEFAULT 30,
+  p_group_property uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_mode text;
+  v_buffer int;
+  v_agent uuid;
+BEGIN
+  SELECT COALESCE(
+    (SELECT value #>> '{}' FROM organization_settings
+      WHERE organization_id = p_org AND key = 'showing_assignment_mode'),
+    'round_robin'
+  ) INTO v_mode;
+  SELECT COALESCE(
+    (SELECT (value #>> '{}')::int FROM organization_settings
+      WHERE organization_id = p_org AND key = 'buffer_minutes'),
+    0
+  ) INTO v_buffer;
+
+  SELECT a.user_id INTO v_agent
+  FROM showing_agents a
+  JOIN users u ON u.id = a.user_id AND COALESCE(u.is_active, true)
+  WHERE a.organization_id = p_org
+    AND a.is_active
+    AND (
+      v_mode <> 'territory'
+      OR cardinality(a.markets) = 0
+      OR p_market = ANY (a.markets)
+    )
+    AND (
+      NOT EXISTS (SELECT 1 FROM showing_agent_hours h WHERE h.agent_id = a.id)
+      OR EXISTS (
+        SELECT 1 FROM showing_agent_hours h
+        WHERE h.agent_id = a.id
+          AND h.weekday = extract(isodow FROM p_slot_date)::smallint
+          AND p_slot_time >= h.start_time
+          AND p_slot_time + make_interval(mins => COALESCE(p_duration_minutes, 30)) <= h.end_time
+      )
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM showing_agent_time_off o
+      WHERE o.agent_id = a.id AND p_slot_date BETWEEN o.starts_on AND o.ends_on
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM showings s
+      WHERE s.organization_id = p_org
+        AND s.leasing_agent_id = a.user_id
+        AND s.status IN ('scheduled', 'confirmed')
+        AND COALESCE(s.is_demo, false) = false
+        AND NOT (s.property_id = p_group_property AND s.scheduled_at = p_scheduled_at)
+        AND s.scheduled_at < p_scheduled_at + make_interval(mins => COALESCE(p_duration_minutes, 30) + v_buffer)
+        AND s.scheduled_at + make_interval(mins => COALESCE(s.duration_minutes, 30) + v_buffer) > p_scheduled_at
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM agent_busy_blocks b
+      WHERE b.user_id = a.user_id
+        AND b.starts_at < p_scheduled_at + make_interval(mins => COALESCE(p_duration_minutes, 30) + v_buffer)
+        AND b.ends_at + make_interval(mins => v_buffer) > p_scheduled_at
+    )
+  ORDER BY
+    -- Territory mode: the market's own agents before the everywhere agents.
+    CASE WHEN v_mode = 'territory' AND p_market = ANY (a.markets) THEN 0 ELSE 1 END,
+    -- The group-tour agent keeps the group.
+    CASE WHEN EXISTS (
+      SELECT 1 FROM showings g
+      WHERE g.leasing_agent_id = a.user_id AND g.property_id = p_group_property
+        AND g.scheduled_at = p_scheduled_at AND g.status IN ('scheduled', 'confirmed')
+    ) THEN 0 ELSE 1 END,
+    a.last_assigned_at NULLS FIRST,
+    a.created_at
+  LIMIT 1;
+
+  RETURN v_agent;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.next_showing_agent(uuid, text, date, time, timestamptz, integer, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.next_showing_agent(uuid, text, date, time, timestamptz, integer, uuid) TO service_role;
+
+-- ── RLS ──────────────────────────────────────────────────────────────────
+-- A connection holds a password, so only admins see or change it, like
+-- organization_credentials. Busy blocks are readable by the org (times
+-- only); both they and the event log are written by caldav-sync.
+ALTER TABLE public.agent_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_busy_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.showing_calendar_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage agent_calendars" ON public.agent_calendars
+  FOR ALL TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+  )
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+  );
+
+CREATE POLICY "Org members read agent_busy_blocks" ON public.agent_busy_blocks
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
@@ -0,0 +1,42 @@
+-- ── Post-tour survey ─────────────────────────────────────────────────────
+-- Owners keep asking why a unit isn't renting and all we had to show them
+-- were agent notes. The post-showing email now carries a signed link
+-- (<showingId>.survey.<exp>.<sig>) to a short survey — condition, price,
+-- neighborhood fit, how likely they are to apply, and free text — answered
+-- through the showing-survey function and kept here, one row per showing.
+--
+-- Staff read the answers per property in PropertyDetail; owners get the same
+-- summary in the public Leasing Tracker with contact details stripped from
+-- the free text (leasing-tracker-lookup, service role).
+
+CREATE TABLE IF NOT EXISTS public.showing_surveys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  showing_id uuid NOT NULL REFERENCES public.showings(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  lead_id uuid REFERENCES public.leads(id) ON DELETE SET NULL,
+  -- 1 (worst) – 5 (best).
+  condition_rating smallint NOT NULL,
+  price_perception text NOT NULL,
+  neighborhood_fit smallint NOT NULL,
+  apply_likelihood smallint NOT NULL,
+  comments text,
+  submitted_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT showing_surveys_showing_key UNIQUE (showing_id),
+  CONSTRAINT showing_surveys_condition_check CHECK (condition_rating BETWEEN 1 AND 5),
+  CONSTRAINT showing_surveys_neighborhood_check CHECK (neighborhood_fit BETWEEN 1 AND 5),
+  CONSTRAINT showing_surveys_apply_check CHECK (apply_likelihood BETWEEN 1 AND 5),
+  CONSTRAINT showing_surveys_price_check CHECK (price_perception IN ('too_high', 'fair', 'good_value')),
+  CONSTRAINT showing_surveys_comments_check CHECK (char_length(comments) <= 1000)
+);
+
+CREATE INDEX IF NOT EXISTS showing_surveys_property_idx
+  ON public.showing_surveys (property_id, submitted_at DESC);
+
+-- ── RLS ──────────────────────────────────────────────────────────────────
+-- Answers only arrive through showing-survey (service role); the org reads.
+ALTER TABLE public.showing_surveys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members read showing_surveys" ON public.showing_surveys
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
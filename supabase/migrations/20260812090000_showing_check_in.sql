@@ -0,0 +1,194 @@
+-- ── On-site check-in for showings ────────────────────────────────────────
+-- Attendance was only ever reported after the fact (showing-attendance links,
+-- Telegram buttons, ShowingReportDialog), so the show rate was whatever the
+-- agent said it was. The showing detail now has a check-in: the agent taps
+-- "I'm here" on arrival and "Prospect arrived" when the renter turns up, and
+-- the browser's location is compared here with the property's coordinates.
+-- Both timestamps are kept; the outcome report stays as it was.
+--
+-- The location comes from the agent's phone, so this proves "was at the
+-- door", not more — good enough to stop a tour being marked attended from
+-- the couch, which is the point.
+
+ALTER TABLE public.showings
+  ADD COLUMN IF NOT EXISTS agent_checked_in_at timestamptz,
+  ADD COLUMN IF NOT EXISTS agent_checked_in_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  -- Metres from the property at check-in, as measured.
+  ADD COLUMN IF NOT EXISTS agent_check_in_distance_m integer,
+  ADD COLUMN IF NOT EXISTS prospect_arrived_at timestamptz;
+
+-- p_event: 'agent_arrived' | 'prospect_arrived'. Raises a readable message
+-- when the check-in is refused; the dialog shows it as is. Stamps are kept
+-- from the first tap — a second tap only reports them back.
+CREATE OR REPLACE FUNCTION public.showing_check_in(
+  p_showing_id uuid,
+  p_event text,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_accuracy_m double precision DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  -- On the doorstep, give or take a GPS fix: 150 m plus the reported
+  -- accuracy, capped so a "somewhere in this city" fix never passes.
+  c_radius_m constant double precision := 150;
+  c_max_accuracy_m constant double precision := 100;
+  -- Check-in opens an hour before the tour and closes an hour after it ends.
+  c_window constant interval := interval '60 minutes';
+  v_org uuid := public.get_user_organization_id(auth.uid());
+  v_user uuid;
+  v_showing showings%ROWTYPE;
+  v_lat double precision;
+  v_lng double precision;
+  v_distance double precision;
+  v_radius double precision;
+BEGIN
+  IF COALESCE(public.get_user_role(auth.uid())::text, '') NOT IN ('super_admin', 'admin', 'editor', 'leasing_agent') THEN
+    RAISE EXCEPTION 'Not allowed to check in to showings';
+  END IF;
+  IF p_event NOT IN ('agent_arrived', 'prospect_arrived') THEN
+    RAISE EXCEPTION 'Unknown check-in event %', p_event;
+  END IF;
+
+  SELECT * INTO v_showing FROM showings WHERE id = p_showing_id AND organization_id = v_org FOR UPDATE;
+  IF v_showing.id IS NULL THEN
+    RAISE EXCEPTION 'Showing not found';
+  END IF;
+  IF v_showing.status NOT IN ('scheduled', 'confirmed') THEN
+    RAISE EXCEPTION 'This showing is % — nothing to check in to', v_showing.status;
+  END IF;
+  IF now() < v_showing.scheduled_at - c_window
+     OR now() > v_showing.scheduled_at
+                + make_interval(mins => COALESCE(v_showing.duration_minutes, 30)) + c_window THEN
+    RAISE EXCEPTION 'Check-in is open from an hour before the showing to an hour after it ends';
+  END IF;
+
+  SELECT latitude, longitude INTO v_lat, v_lng FROM properties WHERE id = v_showing.property_id;
+  IF v_lat IS NULL OR v_lng IS NULL THEN
+    RAISE EXCEPTION 'This property has no map location yet, so arrival cannot be verified';
+  END IF;
+  IF p_latitude IS NULL OR p_longitude IS NULL THEN
+    RAISE EXCEPTION 'Location unavailable — allow location access and try again';
+  END IF;
+
+  -- Haversine, metres.
+  v_distance := 2 * 6371000 * asin(sqrt(
+    power(sin(radians(p_latitude - v_lat) / 2), 2)
+    + cos(radians(v_lat)) * cos(radians(p_latitude)) * power(sin(radians(p_longitude - v_lng) / 2), 2)
+  ));
+  v_radius := c_radius_m + LEAST(GREATEST(COALESCE(p_accuracy_m, 0), 0), c_max_accuracy_m);
+  IF v_distance > v_radius THEN
+    RAISE EXCEPTION 'You are about % m from the property — check in when you get there', round(v_distance);
+  END IF;
+
+  IF p_event = 'agent_arrived' THEN
+    SELECT id INTO v_user FROM users WHERE auth_user_id = auth.uid() AND organization_id = v_org LIMIT 1;
+    UPDATE showings
+       SET agent_checked_in_at = COALESCE(agent_checked_in_at, now()),
+           agent_checked_in_by = COALESCE(agent_checked_in_by, v_user),
+           agent_check_in_distance_m = COALESCE(agent_check_in_distance_m, round(v_distance)::integer)
+     WHERE id = v_showing.id
+    RETURNING * INTO v_showing;
+  ELSE
+    IF v_showing.agent_checked_in_at IS NULL THEN
+      RAISE EXCEPTION 'Check yourself in first';
+    END IF;
+    UPDATE showings
+       SET prospect_arrived_at = COALESCE(prospect_arrived_at, now())
+     WHERE id = v_showing.id
+    RETURNING * INTO v_showing;
+  END IF;
+
+  RETURN json_build_object(
+    'agent_checked_in_at', v_showing.agent_checked_in_at,
+    'prospect_arrived_at', v_showing.prospect_arrived_at,
+    'distance_m', round(v_distance),
+    'radius_m', round(v_radius)
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.showing_check_in(uuid, text, double precision, double precision, double precision) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.showing_check_in(uuid, text, double precision, double precision, double precision) TO authenticated, service_role;
+
+-- ── Show rate from verified arrivals ─────────────────────────────────────
+-- analytics_overview has moved on in production since the last copy kept in
+-- this repo (the facts-based funnel), so rather than re-declare it from a
+-- stale body it is kept as analytics_overview_base and wrapped: the wrapper
+-- only rewrites the `showings` block.
+--
+-- show_rate is now arrivals ÷ check-ins over the tours an agent checked in
+-- to (once the prospect arrived or the tour is over). Until a range has any,
+-- it falls back to the reported completed ÷ (completed + no_show) —
+-- show_rate_basis says which one it is, reported_show_rate always has the old
+-- figure.
+DO $$
+BEGIN
+  IF to_regprocedure('public.analytics_overview_base(timestamptz, timestamptz, text, uuid[])') IS NULL THEN
+    ALTER FUNCTION public.analytics_overview(timestamptz, timestamptz, text, uuid[])
+      RENAME TO analytics_overview_base;
+  END IF;
+END $$;
+
+REVOKE ALL ON FUNCTION public.analytics_overview_base(timestamptz, timestamptz, text, uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_overview_base(timestamptz, timestamptz, text, uuid[]) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.analytics_overview(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_source text DEFAULT NULL,
+  p_property uuid[] DEFAULT NULL
+) RETURNS json
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _org uuid;
+  _base jsonb;
+  _checkins bigint;
+  _arrivals bigint;
+BEGIN
+  SELECT organization_id INTO _org
+  FROM public.users
+  WHERE auth_user_id = auth.uid() AND is_active = true
+  LIMIT 1;
+  IF _org IS NULL THEN RAISE EXCEPTION 'Unauthorized'; END IF;
+
+  _base := public.analytics_overview_base(p_from, p_to, p_source, p_property)::jsonb;
+
+  -- Same showing filters as the base function's showings block.
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE s.prospect_arrived_at IS NOT NULL)
+    INTO _checkins, _arrivals
+  FROM showings s
+  WHERE s.organization_id = _org
+    AND s.is_demo IS NOT TRUE
+    AND s.scheduled_at >= p_from AND s.scheduled_at < p_to
+    AND s.agent_checked_in_at IS NOT NULL
+    AND s.status NOT IN ('cancelled', 'rescheduled')
+    AND (s.prospect_arrived_at IS NOT NULL
+         OR s.scheduled_at + make_interval(mins => COALESCE(s.duration_minutes, 30)) < now())
+    AND (p_property IS NULL OR s.property_id = ANY(p_property))
+    AND (p_source IS NULL OR EXISTS (
+          SELECT 1 FROM leads l WHERE l.id = s.lead_id
+            AND CASE WHEN p_source = 'hemlane'
+                  THEN l.source IN ('hemlane','hemlane_email')
+                  ELSE l.source = p_source END));
+
+  RETURN jsonb_set(_base, '{showings}', COALESCE(_base->'showings', '{}'::jsonb) || jsonb_build_object(
+    'reported_show_rate', _base->'showings'->'show_rate',
+    'verified_checkins', _checkins,
+    'verified_arrivals', _arrivals,
+    'show_rate', CASE WHEN _checkins > 0
+                   THEN to_jsonb(ROUND(_arrivals::numeric / _checkins * 100, 1))
+                   ELSE _base->'showings'->'show_rate' END,
+    'show_rate_basis', CASE WHEN _checkins > 0 THEN 'verified' ELSE 'reported' END
+  ))::json;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.analytics_overview(timestamptz, timestamptz, text, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.analytics_overview(timestamptz, timestamptz, text, uuid[]) TO authenticated, service_role;
@@ -0,0 +1,471 @@
+-- ── Duplicate review: "not a duplicate" and undoable merges ─────────────────
+-- The Duplicates tab now scores pairs on fuzzy evidence (src/lib/leadDedup.ts)
+-- instead of exact keys, so it will flag pairs that turn out to be two people.
+-- A reviewer can say so once and the pair stays out of the queue.
+--
+-- merge_leads deleted the losing lead outright, so a wrong merge was
+-- permanent. Every merge now leaves a snapshot in lead_merges — the loser row,
+-- the winner before and after, and which linked rows were re-pointed or
+-- deleted — and unmerge_lead puts it back.
+
+CREATE TABLE IF NOT EXISTS public.lead_duplicate_dismissals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  lead_a_id uuid NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  lead_b_id uuid NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  dismissed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT lead_duplicate_dismissals_distinct_check CHECK (lead_a_id <> lead_b_id)
+);
+
+-- One row per pair whichever way round it was stored.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_duplicate_dismissals_pair
+  ON public.lead_duplicate_dismissals (LEAST(lead_a_id, lead_b_id), GREATEST(lead_a_id, lead_b_id));
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_dismissals_org
+  ON public.lead_duplicate_dismissals (organization_id);
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_dismissals_b
+  ON public.lead_duplicate_dismissals (lead_b_id);
+
+-- Lead ids are plain columns, not foreign keys: the loser is gone by design,
+-- and the snapshot must survive the winner being merged away later too.
+CREATE TABLE IF NOT EXISTS public.lead_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  winner_id uuid NOT NULL,
+  loser_id uuid NOT NULL,
+  loser_row jsonb NOT NULL,
+  winner_before jsonb NOT NULL,
+  winner_after jsonb,
+  field_overrides jsonb,
+  -- [{ "table", "column", "key", "repointed": [keys], "deleted": [rows] }]
+  children jsonb NOT NULL DEFAULT '[]'::jsonb,
+  merged_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  merged_at timestamptz NOT NULL DEFAULT now(),
+  unmerged_at timestamptz,
+  unmerged_by uuid REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_merges_winner ON public.lead_merges (organization_id, winner_id, merged_at DESC);
+
+ALTER TABLE public.lead_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lead_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members read lead_duplicate_dismissals" ON public.lead_duplicate_dismissals
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Editors write lead_duplicate_dismissals" ON public.lead_duplicate_dismissals
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+    AND EXISTS (SELECT 1 FROM public.leads l WHERE l.id = lead_a_id AND l.organization_id = lead_duplicate_dismissals.organization_id)
+    AND EXISTS (SELECT 1 FROM public.leads l WHERE l.id = lead_b_id AND l.organization_id = lead_duplicate_dismissals.organization_id)
+  );
+
+CREATE POLICY "Editors delete lead_duplicate_dismissals" ON public.lead_duplicate_dismissals
+  FOR DELETE TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin', 'editor')
+  );
+
+-- Snapshots are written and replayed by the functions below only.
+CREATE POLICY "Org members read lead_merges" ON public.lead_merges
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- ── Dedup trigger: stand aside while a merge is undone ───────────────────
+-- Re-inserting the loser would otherwise be folded straight back into the
+-- winner it shares a phone with. Same body as 20260719154358 plus the guard.
+CREATE OR REPLACE FUNCTION public.noah_deduplicate_lead()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_existing_lead RECORD;
+  v_match_type TEXT;
+BEGIN
+  -- unmerge_lead restores a row that was already a lead; leave it alone.
+  IF current_setting('app.lead_unmerge', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Canonicalize the incoming phone (format-proof dedup; "N/A"/junk -> NULL).
+  IF NEW.phone IS NOT NULL THEN
+    NEW.phone := public.normalize_phone_e164(NEW.phone);
+  END IF;
+
+  -- Primary match: normalized phone within the same org.
+  IF NEW.phone IS NOT NULL THEN
+    SELECT * INTO v_existing_lead
+    FROM public.leads
+    WHERE organization_id = NEW.organization_id
+      AND public.normalize_phone_e164(phone) = NEW.phone
+      AND id != NEW.id
+    ORDER BY created_at ASC
+    LIMIT 1;
+
+    IF v_existing_lead IS NOT NULL THEN
+      v_match_type := 'phone';
+    END IF;
+  END IF;
+
+  -- Fallback match: exact email.
+  IF v_existing_lead IS NULL AND NEW.email IS NOT NULL AND NEW.email != '' THEN
+    SELECT * INTO v_existing_lead
+    FROM public.leads
+    WHERE organization_id = NEW.organization_id
+      AND email = NEW.email
+      AND id != NEW.id
+    ORDER BY created_at ASC
+    LIMIT 1;
+
+    IF v_existing_lead IS NOT NULL THEN
+      v_match_type := 'email';
+    END IF;
+  END IF;
+
+  IF v_existing_lead IS NOT NULL THEN
+    UPDATE public.leads
+    SET
+      first_name = COALESCE(NULLIF(v_existing_lead.first_name, ''), NEW.first_name, v_existing_lead.first_name),
+      last_name = COALESCE(NULLIF(v_existing_lead.last_name, ''), NEW.last_name, v_existing_lead.last_name),
+      full_name = COALESCE(NULLIF(v_existing_lead.full_name, ''), NEW.full_name, v_existing_lead.full_name),
+      email = COALESCE(NULLIF(v_existing_lead.email, ''), NEW.email, v_existing_lead.email),
+      phone = COALESCE(NULLIF(v_existing_lead.phone, ''), NEW.phone, v_existing_lead.phone),
+      budget_min = COALESCE(NEW.budget_min, v_existing_lead.budget_min),
+      budget_max = COALESCE(NEW.budget_max, v_existing_lead.budget_max),
+      move_in_date = COALESCE(NEW.move_in_date, v_existing_lead.move_in_date),
+      has_voucher = COALESCE(NEW.has_voucher, v_existing_lead.has_voucher),
+      voucher_amount = COALESCE(NEW.voucher_amount, v_existing_lead.voucher_amount),
+      housing_authority = COALESCE(NULLIF(NEW.housing_authority, ''), v_existing_lead.housing_authority),
+      voucher_status = COALESCE(NEW.voucher_status, v_existing_lead.voucher_status),
+      source_detail = COALESCE(v_existing_lead.source_detail, '') ||
+        CASE WHEN NEW.source_detail IS NOT NULL THEN ' | Also: ' || NEW.source_detail ELSE '' END,
+      last_contact_at = GREATEST(v_existing_lead.last_contact_at, NEW.created_at),
+      updated_at = NOW()
+    WHERE id = v_existing_lead.id;
+
+    PERFORM public.log_agent_activity(
+      NEW.organization_id,
+      'lead_deduplicator',
+      'duplicate_merged',
+      'success',
+      format('Duplicate lead merged (matched by %s): %s %s (%s) into existing lead %s',
+        v_match_type,
+        COALESCE(NEW.first_name, ''),
+        COALESCE(NEW.last_name, ''),
+        CASE WHEN v_match_type = 'phone' THEN NEW.phone ELSE NEW.email END,
+        v_existing_lead.id),
+      jsonb_build_object(
+        'duplicate_lead_id', NEW.id,
+        'existing_lead_id', v_existing_lead.id,
+        'match_type', v_match_type,
+        'new_source', NEW.source,
+        'existing_source', v_existing_lead.source
+      ),
+      v_existing_lead.id
+    );
+
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- ── merge_leads: snapshot first ───────────────────────────────────────────
+-- The live merge_leads body is not kept in this repo, so it is renamed to
+-- merge_leads_base and wrapped (as analytics_overview was): the wrapper
+-- records what the base is about to change, runs it unchanged, then notes
+-- what actually happened to each linked row. Linked rows are found from the
+-- foreign keys pointing at leads(id), so a new table is covered without
+-- touching this function.
+--
+-- The wrapper locks, deletes and snapshots before the base function gets a
+-- say, so it checks the caller itself: a signed-in user must be an editor or
+-- above in the org that owns both leads; only service_role skips that. A
+-- cross-org pair is refused for everyone.
+DO $$
+BEGIN
+  IF to_regprocedure('public.merge_leads_base(uuid, uuid, jsonb, uuid)') IS NULL THEN
+    ALTER FUNCTION public.merge_leads(uuid, uuid, jsonb, uuid) RENAME TO merge_leads_base;
+  END IF;
+END $$;
+
+REVOKE ALL ON FUNCTION public.merge_leads_base(uuid, uuid, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_leads_base(uuid, uuid, jsonb, uuid) TO service_role;
+
+-- (table, column) pairs holding a lead id, with the column that identifies a
+-- row of that table in a snapshot: its single-column primary key (id, or e.g.
+-- inbound_emails.email_id). key_column is NULL when there is none — such a
+-- row could not be found again to undo, so merge_leads refuses to move it.
+CREATE OR REPLACE FUNCTION public.lead_reference_columns()
+RETURNS TABLE (table_name text, column_name text, key_column text)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT c.conrelid::regclass::text, a.attname::text, k.attname::text
+  FROM pg_constraint c
+  JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+  LEFT JOIN pg_constraint pk
+    ON pk.conrelid = c.conrelid AND pk.contype = 'p' AND array_length(pk.conkey, 1) = 1
+  LEFT JOIN pg_attribute k ON k.attrelid = pk.conrelid AND k.attnum = pk.conkey[1]
+  WHERE c.contype = 'f'
+    AND c.confrelid = 'public.leads'::regclass
+    AND array_length(c.conkey, 1) = 1
+  ORDER BY 1, 2;
+$function$;
+
+REVOKE ALL ON FUNCTION public.lead_reference_columns() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.lead_reference_columns() TO service_role;
+
+-- Column list for re-inserting a snapshot: generated columns can't be written.
+CREATE OR REPLACE FUNCTION public.insertable_columns(p_table regclass)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum)
+  FROM pg_attribute
+  WHERE attrelid = p_table AND attnum > 0 AND NOT attisdropped AND attgenerated = '';
+$function$;
+
+REVOKE ALL ON FUNCTION public.insertable_columns(regclass) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.insertable_columns(regclass) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.merge_leads(
+  p_winner_id uuid,
+  p_loser_id uuid,
+  p_field_overrides jsonb DEFAULT '{}'::jsonb,
+  p_merged_by_user_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_loser jsonb;
+  v_winner_before jsonb;
+  v_org uuid;
+  v_ref record;
+  v_rows jsonb;
+  v_before jsonb := '[]'::jsonb;
+  v_children jsonb := '[]'::jsonb;
+  v_entry jsonb;
+  v_repointed jsonb;
+  v_deleted jsonb;
+  v_result jsonb;
+  v_merge_id uuid;
+  v_caller_org uuid;
+  v_merged_by uuid := p_merged_by_user_id;
+  v_exists boolean;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    -- Only service_role may name someone else as the merger.
+    v_merged_by := public.get_user_id(auth.uid());
+    v_caller_org := public.get_user_organization_id(auth.uid());
+    IF v_caller_org IS NULL
+       OR COALESCE(public.get_user_role(auth.uid())::text, '') NOT IN ('super_admin', 'admin', 'editor') THEN
+      RAISE EXCEPTION 'Not allowed to merge leads';
+    END IF;
+    IF (SELECT count(*) FROM leads
+         WHERE id IN (p_winner_id, p_loser_id) AND organization_id = v_caller_org) < 2 THEN
+      RAISE EXCEPTION 'Lead not found';
+    END IF;
+  END IF;
+
+  SELECT to_jsonb(l) INTO v_loser FROM leads l WHERE l.id = p_loser_id FOR UPDATE;
+  SELECT to_jsonb(l) INTO v_winner_before FROM leads l WHERE l.id = p_winner_id FOR UPDATE;
+  -- Missing rows are the base function's to refuse.
+  IF v_loser IS NULL OR v_winner_before IS NULL THEN
+    RETURN to_jsonb(public.merge_leads_base(p_winner_id, p_loser_id, p_field_overrides, v_merged_by));
+  END IF;
+  IF v_loser->>'organization_id' IS DISTINCT FROM v_winner_before->>'organization_id' THEN
+    RAISE EXCEPTION 'Leads belong to different organizations';
+  END IF;
+  v_org := (v_loser->>'organization_id')::uuid;
+
+  -- A dismissal between the pair means nothing once they are one lead, and
+  -- one the winner already has against someone would collide when re-pointed.
+  DELETE FROM lead_duplicate_dismissals d
+   WHERE (d.lead_a_id = p_loser_id AND d.lead_b_id = p_winner_id)
+      OR (d.lead_b_id = p_loser_id AND d.lead_a_id = p_winner_id)
+      OR (p_loser_id IN (d.lead_a_id, d.lead_b_id) AND EXISTS (
+            SELECT 1 FROM lead_duplicate_dismissals w
+             WHERE p_winner_id IN (w.lead_a_id, w.lead_b_id)
+               AND (CASE WHEN d.lead_a_id = p_loser_id THEN d.lead_b_id ELSE d.lead_a_id END)
+                   IN (w.lead_a_id, w.lead_b_id)));
+
+  FOR v_ref IN SELECT * FROM public.lead_reference_columns() LOOP
+    IF v_ref.key_column IS NULL THEN
+      EXECUTE format('SELECT EXISTS (SELECT 1 FROM %s WHERE %I = $1)', v_ref.table_name, v_ref.column_name)
+        INTO v_exists USING p_loser_id;
+      IF v_exists THEN
+        RAISE EXCEPTION 'Can''t merge: the lead has % rows, which could not be moved back on undo',
+          v_ref.table_name;
+      END IF;
+      CONTINUE;
+    END IF;
+    EXECUTE format('SELECT jsonb_agg(to_jsonb(t)) FROM %s t WHERE %I = $1', v_ref.table_name, v_ref.column_name)
+      INTO v_rows USING p_loser_id;
+    IF v_rows IS NOT NULL THEN
+      v_before := v_before || jsonb_build_array(jsonb_build_object(
+        'table', v_ref.table_name, 'column', v_ref.column_name, 'key', v_ref.key_column, 'rows', v_rows));
+    END IF;
+  END LOOP;
+
+  v_result := to_jsonb(public.merge_leads_base(p_winner_id, p_loser_id, p_field_overrides, v_merged_by));
+
+  -- Re-pointed rows only need their key; deleted ones are kept whole.
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(v_before) LOOP
+    EXECUTE format(
+      'SELECT COALESCE(jsonb_agg(r->%L) FILTER (WHERE t.%I = $2), ''[]''::jsonb),
+              COALESCE(jsonb_agg(r) FILTER (WHERE t.%I IS NULL), ''[]''::jsonb)
+         FROM jsonb_array_elements($1) r
+         LEFT JOIN %s t ON t.%I::text = r->>%L',
+      v_entry->>'key', v_entry->>'column', v_entry->>'key', v_entry->>'table',
+      v_entry->>'key', v_entry->>'key')
+      INTO v_repointed, v_deleted USING v_entry->'rows', p_winner_id;
+    v_children := v_children || jsonb_build_array(jsonb_build_object(
+      'table', v_entry->'table', 'column', v_entry->'column', 'key', v_entry->'key',
+      'repointed', v_repointed, 'deleted', v_deleted));
+  END LOOP;
+
+  INSERT INTO lead_merges (organization_id, winner_id, loser_id, loser_row, winner_before, winner_after,
+                           field_overrides, children, merged_by)
+  SELECT v_org, p_winner_id, p_loser_id, v_loser, v_winner_before, to_jsonb(l),
+         p_field_overrides, v_children, v_merged_by
+    FROM leads l WHERE l.id = p_winner_id
+  RETURNING id INTO v_merge_id;
+
+  RETURN CASE WHEN jsonb_typeof(v_result) = 'object' THEN v_result ELSE jsonb_build_object('result', v_result) END
+         || jsonb_build_object('merge_id', v_merge_id);
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.merge_leads(uuid, uuid, jsonb, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_leads(uuid, uuid, jsonb, uuid) TO authenticated, service_role;
+
+-- ── unmerge_lead ──────────────────────────────────────────────────────────
+-- Puts the loser back with its own id, moves its re-pointed rows back and
+-- re-creates the ones the merge deleted. Winner fields the merge changed are
+-- restored only where nobody has edited them since — a later edit wins.
+-- Raises a readable message when the merge can't be undone; the dialog shows
+-- it as is. That includes a linked table that no longer fits its snapshot:
+-- the whole undo rolls back rather than bring the lead back without its rows.
+CREATE OR REPLACE FUNCTION public.unmerge_lead(p_merge_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_org uuid := public.get_user_organization_id(auth.uid());
+  v_user uuid;
+  v_merge lead_merges%ROWTYPE;
+  v_winner jsonb;
+  v_patch jsonb := '{}'::jsonb;
+  v_key text;
+  v_cols text;
+  v_entry jsonb;
+  v_moved bigint := 0;
+  v_restored bigint := 0;
+  v_count bigint;
+BEGIN
+  IF COALESCE(public.get_user_role(auth.uid())::text, '') NOT IN ('super_admin', 'admin', 'editor') THEN
+    RAISE EXCEPTION 'Not allowed to undo merges';
+  END IF;
+
+  SELECT * INTO v_merge FROM lead_merges WHERE id = p_merge_id AND organization_id = v_org FOR UPDATE;
+  IF v_merge.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+  IF v_merge.unmerged_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge was already undone';
+  END IF;
+  SELECT to_jsonb(l) INTO v_winner FROM leads l WHERE l.id = v_merge.winner_id FOR UPDATE;
+  IF v_winner IS NULL THEN
+    RAISE EXCEPTION 'The primary lead has since been merged or deleted — undo that first';
+  END IF;
+  IF EXISTS (SELECT 1 FROM leads WHERE id = v_merge.loser_id) THEN
+    RAISE EXCEPTION 'The merged lead already exists again';
+  END IF;
+
+  -- Winner first: it may hold the loser's phone or email only because of the
+  -- merge, and the loser needs them back.
+  FOR v_key IN SELECT jsonb_object_keys(v_merge.winner_before) LOOP
+    CONTINUE WHEN v_key IN ('id', 'organization_id', 'created_at', 'updated_at');
+    IF v_merge.winner_before->v_key IS DISTINCT FROM v_merge.winner_after->v_key
+       AND v_winner->v_key IS NOT DISTINCT FROM v_merge.winner_after->v_key
+       AND EXISTS (SELECT 1 FROM pg_attribute
+                    WHERE attrelid = 'public.leads'::regclass AND attname = v_key
+                      AND NOT attisdropped AND attgenerated = '') THEN
+      v_patch := v_patch || jsonb_build_object(v_key, v_merge.winner_before->v_key);
+    END IF;
+  END LOOP;
+  IF v_patch <> '{}'::jsonb THEN
+    SELECT string_agg(quote_ident(k), ', ') INTO v_cols FROM jsonb_object_keys(v_patch) k;
+    EXECUTE format('UPDATE leads SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::leads, $1)) WHERE id = $2',
+                   v_cols, v_cols)
+      USING v_winner || v_patch, v_merge.winner_id;
+  END IF;
+
+  v_cols := public.insertable_columns('public.leads'::regclass);
+  PERFORM set_config('app.lead_unmerge', 'on', true);
+  BEGIN
+    EXECUTE format('INSERT INTO leads (%s) SELECT %s FROM jsonb_populate_record(NULL::leads, $1)', v_cols, v_cols)
+      USING v_merge.loser_row;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'The merged lead can''t be restored: another lead now uses its details (%)', SQLERRM;
+  END;
+  PERFORM set_config('app.lead_unmerge', 'off', true);
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(v_merge.children) LOOP
+    BEGIN
+      IF jsonb_array_length(v_entry->'repointed') > 0 THEN
+        EXECUTE format('UPDATE %s SET %I = $1 WHERE %I = $2 AND %I::text IN (SELECT jsonb_array_elements_text($3))',
+                       v_entry->>'table', v_entry->>'column', v_entry->>'column', v_entry->>'key')
+          USING v_merge.loser_id, v_merge.winner_id, v_entry->'repointed';
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        v_moved := v_moved + v_count;
+      END IF;
+      IF jsonb_array_length(v_entry->'deleted') > 0 THEN
+        v_cols := public.insertable_columns((v_entry->>'table')::regclass);
+        EXECUTE format('INSERT INTO %s (%s) SELECT %s FROM jsonb_populate_recordset(NULL::%s, $1)',
+                       v_entry->>'table', v_cols, v_cols, v_entry->>'table')
+          USING v_entry->'deleted';
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        v_restored := v_restored + v_count;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'The merge can''t be undone: % no longer matches what was merged (%)',
+        v_entry->>'table', SQLERRM;
+    END;
+  END LOOP;
+
+  SELECT id INTO v_user FROM users WHERE auth_user_id = auth.uid() AND organization_id = v_org LIMIT 1;
+  UPDATE lead_merges SET unmerged_at = now(), unmerged_by = v_user WHERE id = v_merge.id;
+
+  -- They were merged once, so the scorer will flag them again; don't.
+  INSERT INTO lead_duplicate_dismissals (organization_id, lead_a_id, lead_b_id, dismissed_by)
+  VALUES (v_org, v_merge.winner_id, v_merge.loser_id, v_user)
+  ON CONFLICT DO NOTHING;
+
+  RETURN json_build_object(
+    'loser_id', v_merge.loser_id,
+    'moved_back', v_moved,
+    'restored', v_restored,
+    'winner_fields_restored', (SELECT COALESCE(array_agg(k), '{}') FROM jsonb_object_keys(v_patch) k)
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.unmerge_lead(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.unmerge_lead(uuid) TO authenticated, service_role;
@@ -0,0 +1,328 @@
+-- ── Lead ownership and automatic assignment ─────────────────────────────
+-- leads.assigned_leasing_agent_id has been there from the start, but only
+-- LeadForm ever filled it (a leasing agent creating a lead owns it). Every
+-- other lead — website inquiries, Hemlane emails, public bookings, CSV
+-- imports — arrived with no owner, so with more than one person working
+-- leads nobody knew whose lead it was.
+--
+--   * lead_assignment_agents is the pool of people who take new leads, each
+--     with an optional cap on open leads (anything not converted or lost);
+--   * lead_assignment_rules send leads to part of the pool by city (the
+--     lead's own city or a tagged home's), tagged property, property group
+--     or source, in priority order;
+--   * lead_assignment_log records every change of owner, automatic or not.
+--
+-- assign_leads() is called by each capture path once the lead and its
+-- property tags are written. Rules run in priority order; the first whose
+-- agents have room takes the lead, round-robin among them. A lead no rule
+-- takes goes round-robin across the whole pool. Leads that already have an
+-- owner are left alone, and an org with nobody in the pool is unchanged.
+
+CREATE TABLE IF NOT EXISTS public.lead_assignment_agents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Open leads this agent can hold before new ones skip them; NULL = no cap.
+  max_open_leads integer,
+  is_active boolean NOT NULL DEFAULT true,
+  last_assigned_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT lead_assignment_agents_org_user_key UNIQUE (organization_id, user_id),
+  CONSTRAINT lead_assignment_agents_cap_check CHECK (max_open_leads IS NULL OR max_open_leads >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS public.lead_assignment_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- Lower runs first.
+  priority integer NOT NULL DEFAULT 0,
+  match_type text NOT NULL,
+  -- Cities (any case), property ids, property group ids or lead sources.
+  match_values text[] NOT NULL DEFAULT '{}',
+  -- users.id of the agents this rule hands to; empty = the whole pool.
+  agent_ids uuid[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT lead_assignment_rules_match_type_check
+    CHECK (match_type IN ('city', 'property', 'property_group', 'source'))
+);
+
+CREATE INDEX IF NOT EXISTS lead_assignment_rules_org_idx
+  ON public.lead_assignment_rules (organization_id, priority);
+
+CREATE TABLE IF NOT EXISTS public.lead_assignment_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  from_user_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  to_user_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  -- 'rule' | 'round_robin' (assign_leads) | 'manual' (anything else).
+  via text NOT NULL DEFAULT 'manual',
+  rule_id uuid REFERENCES public.lead_assignment_rules(id) ON DELETE SET NULL,
+  -- Kept so the log still reads after the rule is deleted or renamed.
+  rule_name text,
+  changed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS lead_assignment_log_lead_idx
+  ON public.lead_assignment_log (lead_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.lead_assignment_stamp()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS lead_assignment_agents_stamp ON public.lead_assignment_agents;
+CREATE TRIGGER lead_assignment_agents_stamp
+  BEFORE INSERT OR UPDATE ON public.lead_assignment_agents
+  FOR EACH ROW EXECUTE FUNCTION public.lead_assignment_stamp();
+
+DROP TRIGGER IF EXISTS lead_assignment_rules_stamp ON public.lead_assignment_rules;
+CREATE TRIGGER lead_assignment_rules_stamp
+  BEFORE INSERT OR UPDATE ON public.lead_assignment_rules
+  FOR EACH ROW EXECUTE FUNCTION public.lead_assignment_stamp();
+
+-- ── Reassignment log ─────────────────────────────────────────────────────
+-- Every change of owner is logged here, whoever makes it. assign_leads()
+-- says how it picked the agent through the app.lead_assignment_* settings;
+-- without them the change is 'manual' (LeadForm, the owner card, SQL).
+CREATE OR REPLACE FUNCTION public.log_lead_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_rule uuid := NULLIF(current_setting('app.lead_assignment_rule', true), '')::uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.assigned_leasing_agent_id IS NOT DISTINCT FROM OLD.assigned_leasing_agent_id THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' AND NEW.assigned_leasing_agent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO lead_assignment_log
+    (organization_id, lead_id, from_user_id, to_user_id, via, rule_id, rule_name, changed_by)
+  VALUES (
+    NEW.organization_id,
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.assigned_leasing_agent_id END,
+    NEW.assigned_leasing_agent_id,
+    COALESCE(NULLIF(current_setting('app.lead_assignment_via', true), ''), 'manual'),
+    v_rule,
+    (SELECT r.name FROM lead_assignment_rules r WHERE r.id = v_rule),
+    public.get_user_id(auth.uid())
+  );
+  RETURN NEW;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.log_lead_assignment() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS log_lead_assignment ON public.leads;
+CREATE TRIGGER log_lead_assignment
+  AFTER INSERT OR UPDATE OF assigned_leasing_agent_id ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.log_lead_assignment();
+
+-- ── Who gets a new lead ──────────────────────────────────────────────────
+-- Assigns each unowned lead in p_lead_ids and returns how many got an owner.
+-- Capture paths call it best-effort after tagging the lead's properties, so
+-- property, group and city rules see the tags. A per-org lock keeps caps and
+-- the rotation exact when several captures land at once. service_role (the
+-- capture functions) may assign in any org; a signed-in user (CSV import)
+-- only in their own.
+CREATE OR REPLACE FUNCTION public.assign_leads(p_lead_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_any_org boolean := auth.role() IS NOT DISTINCT FROM 'service_role';
+  v_caller_org uuid;
+  v_lead record;
+  v_rule record;
+  v_cities text[];
+  v_properties text[];
+  v_groups text[];
+  v_agent uuid;
+  v_rule_id uuid;
+  v_locked uuid[] := '{}';
+  v_assigned integer := 0;
+BEGIN
+  IF NOT v_any_org THEN
+    v_caller_org := public.get_user_organization_id(auth.uid());
+    IF v_caller_org IS NULL THEN
+      RAISE EXCEPTION 'No organization for this user';
+    END IF;
+  END IF;
+
+  FOR v_lead IN
+    SELECT l.id, l.organization_id, l.city, l.source
+    FROM leads l
+    WHERE l.id = ANY (p_lead_ids)
+      AND l.assigned_leasing_agent_id IS NULL
+      AND l.is_demo IS NOT TRUE
+      AND (v_any_org OR l.organization_id = v_caller_org)
+    ORDER BY l.created_at
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM lead_assignment_agents a
+      WHERE a.organization_id = v_lead.organization_id AND a.is_active
+    ) THEN
+      CONTINUE;
+    END IF;
+    IF NOT v_lead.organization_id = ANY (v_locked) THEN
+      PERFORM pg_advisory_xact_lock(hashtext('lead_assignment:' || v_lead.organization_id::text));
+      v_locked := v_locked || v_lead.organization_id;
+    END IF;
+
+    SELECT
+      array_remove(array_agg(DISTINCT lower(trim(p.city))), NULL),
+      array_agg(DISTINCT p.id::text),
+      array_remove(array_agg(DISTINCT p.property_group_id::text), NULL)
+    INTO v_cities, v_properties, v_groups
+    FROM lead_property_interests i
+    JOIN properties p ON p.id = i.property_id
+    WHERE i.lead_id = v_lead.id;
+    IF NULLIF(trim(v_lead.city), '') IS NOT NULL THEN
+      v_cities := COALESCE(v_cities, '{}') || lower(trim(v_lead.city));
+    END IF;
+
+    v_agent := NULL;
+    v_rule_id := NULL;
+    FOR v_rule IN
+      SELECT r.id, r.agent_ids
+      FROM lead_assignment_rules r
+      WHERE r.organization_id = v_lead.organization_id
+        AND r.is_active
+        AND CASE r.match_type
+              WHEN 'city' THEN EXISTS (
+                SELECT 1 FROM unnest(r.match_values) m WHERE lower(trim(m)) = ANY (COALESCE(v_cities, '{}')))
+              WHEN 'property' THEN r.match_values && COALESCE(v_properties, '{}')
+              WHEN 'property_group' THEN r.match_values && COALESCE(v_groups, '{}')
+              WHEN 'source' THEN v_lead.source = ANY (r.match_values)
+              ELSE false
+            END
+      ORDER BY r.priority, r.created_at
+    LOOP
+      v_agent := public.next_lead_assignee(v_lead.organization_id, v_rule.agent_ids);
+      IF v_agent IS NOT NULL THEN
+        v_rule_id := v_rule.id;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF v_agent IS NULL THEN
+      v_agent := public.next_lead_assignee(v_lead.organization_id, '{}');
+    END IF;
+    IF v_agent IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    PERFORM set_config('app.lead_assignment_via', CASE WHEN v_rule_id IS NULL THEN 'round_robin' ELSE 'rule' END, true);
+    PERFORM set_config('app.lead_assignment_rule', COALESCE(v_rule_id::text, ''), true);
+    UPDATE leads SET assigned_leasing_agent_id = v_agent WHERE id = v_lead.id;
+    UPDATE lead_assignment_agents SET last_assigned_at = now()
+     WHERE organization_id = v_lead.organization_id AND user_id = v_agent;
+    v_assigned := v_assigned + 1;
+  END LOOP;
+
+  -- Later writes in the same transaction are not ours to label.
+  PERFORM set_config('app.lead_assignment_via', '', true);
+  PERFORM set_config('app.lead_assignment_rule', '', true);
+  RETURN v_assigned;
+END;
+$function$;
+
+-- The active pool agent (users.id) among p_agent_ids (empty = the whole
+-- pool) who is under their cap and has waited longest for a lead; NULL when
+-- everyone is full.
+CREATE OR REPLACE FUNCTION public.next_lead_assignee(p_org uuid, p_agent_ids uuid[])
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT a.user_id
+  FROM lead_assignment_agents a
+  JOIN users u ON u.id = a.user_id AND COALESCE(u.is_active, true)
+  WHERE a.organization_id = p_org
+    AND a.is_active
+    AND (cardinality(p_agent_ids) = 0 OR a.user_id = ANY (p_agent_ids))
+    AND (
+      a.max_open_leads IS NULL
+      OR (
+        SELECT count(*) FROM leads l
+        WHERE l.organization_id = p_org
+          AND l.assigned_leasing_agent_id = a.user_id
+          AND l.status NOT IN ('converted', 'lost')
+          AND l.is_demo IS NOT TRUE
+      ) < a.max_open_leads
+    )
+  ORDER BY a.last_assigned_at NULLS FIRST, a.created_at
+  LIMIT 1;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.next_lead_assignee(uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.next_lead_assignee(uuid, uuid[]) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.assign_leads(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assign_leads(uuid[]) TO authenticated, service_role;
+
+-- ── RLS ──────────────────────────────────────────────────────────────────
+ALTER TABLE public.lead_assignment_agents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lead_assignment_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lead_assignment_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members read lead_assignment_agents" ON public.lead_assignment_agents
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Admins write lead_assignment_agents" ON public.lead_assignment_agents
+  FOR ALL TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+  )
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+    AND EXISTS (
+      SELECT 1 FROM public.users u
+      WHERE u.id = user_id AND u.organization_id = lead_assignment_agents.organization_id
+    )
+  );
+
+CREATE POLICY "Org members read lead_assignment_rules" ON public.lead_assignment_rules
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Admins write lead_assignment_rules" ON public.lead_assignment_rules
+  FOR ALL TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+  )
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND public.get_user_role(auth.uid()) IN ('super_admin', 'admin')
+  );
+
+-- Written only by the trigger.
+CREATE POLICY "Org members read lead_assignment_log" ON public.lead_assignment_log
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));
@@ -0,0 +1,200 @@
+-- ── Saved lead views and bulk actions ───────────────────────────────────
+-- LeadsList filters reset on every visit, and the only way to act on many
+-- leads was one at a time (or the Stale tab's page-sized snooze). Two things
+-- here:
+--
+--   * lead_saved_views — a named set of LeadsList filters, owned by the user
+--     who saved it. is_shared puts it in everyone's Views menu and makes its
+--     ?view= link open for the rest of the org; only the owner edits it.
+--   * bulk_lead_action() — one action over a chunk of lead ids. The list
+--     pages the filtered set's ids 1,000 at a time (PostgREST's cap) before
+--     writing anything, then sends them here in chunks, so an action over
+--     18k leads neither stops at the first 1,000 nor skips rows whose filter
+--     column it just changed.
+
+CREATE TABLE IF NOT EXISTS public.lead_saved_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- LeadViewFilters (src/lib/leadViews.ts); unknown keys are ignored on load.
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_shared boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT lead_saved_views_name_check CHECK (length(trim(name)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS lead_saved_views_org_idx
+  ON public.lead_saved_views (organization_id, user_id);
+
+DROP TRIGGER IF EXISTS update_lead_saved_views_updated_at ON public.lead_saved_views;
+CREATE TRIGGER update_lead_saved_views_updated_at BEFORE UPDATE ON public.lead_saved_views
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.lead_saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members read lead_saved_views" ON public.lead_saved_views
+  FOR SELECT TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND (is_shared OR user_id = public.get_user_id(auth.uid()))
+  );
+
+CREATE POLICY "Owners write lead_saved_views" ON public.lead_saved_views
+  FOR ALL TO authenticated
+  USING (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND user_id = public.get_user_id(auth.uid())
+  )
+  WITH CHECK (
+    organization_id = public.get_user_organization_id(auth.uid())
+    AND user_id = public.get_user_id(auth.uid())
+  );
+
+-- ── Bulk actions ─────────────────────────────────────────────────────────
+-- p_action / p_params:
+--   'set_status'     {status}        — leads already there are skipped
+--   'add_tag'        {property_id}   — through add_lead_property_tag, so an
+--                                      existing tag only has its recency bumped
+--   'snooze'         {days}          — hides the lead from the Stale tab
+--   'enroll_nurture' {flow_id}       — opens a run of that active
+--                                      manual_enroll flow of the org, as the
+--                                      dispatcher's claimForFlow does, for
+--                                      leads that pass enroll_showing_nurture's
+--                                      eligibility
+-- Ids outside the caller's org are ignored. Returns {matched, updated}:
+-- matched = ids in the org, updated = leads the action changed.
+CREATE OR REPLACE FUNCTION public.bulk_lead_action(
+  p_lead_ids uuid[],
+  p_action text,
+  p_params jsonb DEFAULT '{}'::jsonb
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  c_max_ids constant integer := 1000;
+  v_org uuid := public.get_user_organization_id(auth.uid());
+  v_ids uuid[];
+  v_updated integer := 0;
+  v_status text;
+  v_property uuid;
+  v_days integer;
+  v_id uuid;
+  v_flow uuid;
+  v_step record;
+BEGIN
+  IF COALESCE(public.get_user_role(auth.uid())::text, '') NOT IN ('super_admin', 'admin', 'editor') THEN
+    RAISE EXCEPTION 'Not allowed to run bulk actions on leads';
+  END IF;
+  IF cardinality(p_lead_ids) > c_max_ids THEN
+    RAISE EXCEPTION 'Send at most % leads per call', c_max_ids;
+  END IF;
+
+  SELECT COALESCE(array_agg(l.id), '{}') INTO v_ids
+  FROM leads l
+  WHERE l.id = ANY (p_lead_ids) AND l.organization_id = v_org;
+
+  CASE p_action
+    WHEN 'set_status' THEN
+      v_status := NULLIF(trim(p_params->>'status'), '');
+      IF v_status IS NULL THEN
+        RAISE EXCEPTION 'Pick a status';
+      END IF;
+      UPDATE leads SET status = v_status, updated_at = now()
+       WHERE id = ANY (v_ids) AND status IS DISTINCT FROM v_status;
+      GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+    WHEN 'add_tag' THEN
+      SELECT p.id INTO v_property FROM properties p
+       WHERE p.id = NULLIF(p_params->>'property_id', '')::uuid AND p.organization_id = v_org;
+      IF v_property IS NULL THEN
+        RAISE EXCEPTION 'Property not found';
+      END IF;
+      FOREACH v_id IN ARRAY v_ids LOOP
+        PERFORM public.add_lead_property_tag(v_id, v_property, 'bulk_action');
+        v_updated := v_updated + 1;
+      END LOOP;
+
+    WHEN 'snooze' THEN
+      v_days := (p_params->>'days')::integer;
+      IF v_days IS NULL OR v_days NOT BETWEEN 1 AND 365 THEN
+        RAISE EXCEPTION 'Snooze for 1 to 365 days';
+      END IF;
+      UPDATE leads SET snoozed_until = now() + make_interval(days => v_days), updated_at = now()
+       WHERE id = ANY (v_ids);
+      GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+    WHEN 'enroll_nurture' THEN
+      -- Runs go through the flow engine, so its steps, waits and exit
+      -- conditions apply. With the flow off there is nothing to enroll into.
+      SELECT f.id INTO v_flow FROM flows f
+       WHERE f.id = NULLIF(p_params->>'flow_id', '')::uuid
+         AND f.organization_id = v_org AND f.trigger_type = 'manual_enroll';
+      IF v_flow IS NULL THEN
+        RAISE EXCEPTION 'Flow not found';
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM flows WHERE id = v_flow AND is_active) THEN
+        RAISE EXCEPTION 'Turn on the manual enrollment flow first';
+      END IF;
+      SELECT s.position, s.delay_minutes INTO v_step FROM flow_steps s
+       WHERE s.flow_id = v_flow AND s.is_enabled AND s.parent_step_id IS NULL
+       ORDER BY s.position LIMIT 1;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The manual enrollment flow has no enabled steps';
+      END IF;
+
+      -- Same gate as enroll_showing_nurture: reachable by email, consenting,
+      -- still in play, never nurtured, nothing booked, no hard bounce.
+      CREATE TEMP TABLE _bulk_enroll ON COMMIT DROP AS
+      SELECT l.id
+      FROM leads l
+      WHERE l.id = ANY (v_ids)
+        AND l.is_demo IS NOT TRUE
+        AND l.email IS NOT NULL AND l.email <> ''
+        AND l.unsubscribed_at IS NULL
+        AND COALESCE(l.email_marketing_consent, true) IS TRUE
+        AND l.status NOT IN ('converted', 'lost', 'in_application')
+        AND l.nurture_outcome IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM showings s
+          WHERE s.lead_id = l.id AND s.status IN ('scheduled', 'confirmed', 'completed')
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM email_events e
+          WHERE lower(e.recipient_email) = lower(l.email)
+            AND e.details->>'status' = 'bounced'
+        );
+
+      -- A lead already running the flow keeps its run (uniq_flow_runs_active)
+      -- and is counted as skipped. First steps spread over six hours, as the
+      -- manual enrollment does.
+      WITH runs AS (
+        INSERT INTO flow_runs (organization_id, flow_id, lead_id, current_position)
+        SELECT v_org, v_flow, e.id, v_step.position FROM _bulk_enroll e
+        ON CONFLICT (flow_id, lead_id) WHERE status = 'active' DO NOTHING
+        RETURNING id, lead_id, started_at
+      )
+      INSERT INTO agent_tasks (organization_id, lead_id, agent_type, action_type, status,
+                               attempt_number, max_attempts, scheduled_for, context)
+      SELECT v_org, r.lead_id, 'flow_step', 'email', 'pending', 1, 3,
+             now() + make_interval(mins => v_step.delay_minutes) + (random() * interval '6 hours'),
+             jsonb_build_object('flow_id', v_flow, 'run_id', r.id,
+                                'position', v_step.position, 'started_at', r.started_at)
+      FROM runs r;
+      GET DIAGNOSTICS v_updated = ROW_COUNT;
+      DROP TABLE _bulk_enroll;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown bulk action %', p_action;
+  END CASE;
+
+  RETURN json_build_object('matched', cardinality(v_ids), 'updated', v_updated);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.bulk_lead_action(uuid[], text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.bulk_lead_action(uuid[], text, jsonb) TO authenticated;
@@ -0,0 +1,100 @@
+-- ── Lead field history ───────────────────────────────────────────────────
+-- lead_field_changes existed, but track_lead_field_changes() was never
+-- versioned here and only a couple of writers ended up in it — when the
+-- Hemlane parser overwrote a phone number there was no way to tell what it
+-- had been. The trigger below records every changed column on every lead
+-- update, whoever makes it, with old value, new value, actor and source:
+--
+--   change_source       app.change_source if a SQL function set one, else
+--                       the RPC that made the write (/rpc/merge_leads →
+--                       'merge_leads'), else 'ui' for a signed-in user, else
+--                       the x-change-source header edge functions send
+--                       (_shared/leadAudit.ts), else 'system' for other
+--                       service-role writes and 'database' for cron and
+--                       triggers
+--   changed_by_agent    the x-change-agent header, for agent functions
+--   changed_by_user_id  the signed-in user, if any
+--
+-- Any browser can send headers, so the two x-change-* headers count only on
+-- service_role requests; a user can't relabel their own edits as an agent's.
+--
+-- Bookkeeping columns that move on every message or nightly job are left
+-- out; lead_score has its own lead_score_history.
+
+CREATE INDEX IF NOT EXISTS idx_lead_field_changes_lead
+  ON public.lead_field_changes (lead_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.track_lead_field_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  c_untracked constant text[] := ARRAY[
+    'updated_at', 'last_contact_at', 'last_contact_channel', 'lead_score',
+    'nurture_emails_sent', 'nurture_last_sent_at',
+    'ai_brief', 'ai_brief_generated_at', 'ai_brief_generated_by'
+  ];
+  v_old jsonb := to_jsonb(OLD);
+  v_new jsonb := to_jsonb(NEW);
+  v_headers jsonb := COALESCE(NULLIF(current_setting('request.headers', true), '')::jsonb, '{}'::jsonb);
+  v_path text := COALESCE(current_setting('request.path', true), '');
+  v_user uuid;
+  v_source text;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    v_user := public.get_user_id(auth.uid());
+  END IF;
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    v_headers := '{}'::jsonb;
+  END IF;
+
+  v_source := COALESCE(
+    NULLIF(current_setting('app.change_source', true), ''),
+    CASE WHEN v_path LIKE '/rpc/%' THEN NULLIF(substr(v_path, 6), '') END,
+    CASE WHEN v_user IS NOT NULL THEN 'ui' END,
+    NULLIF(v_headers->>'x-change-source', ''),
+    CASE WHEN auth.role() = 'service_role' THEN 'system' ELSE 'database' END
+  );
+
+  INSERT INTO lead_field_changes (organization_id, lead_id, field_name, old_value, new_value,
+                                  change_source, changed_by_agent, changed_by_user_id)
+  SELECT NEW.organization_id, NEW.id, n.key, v_old->>n.key, v_new->>n.key,
+         v_source, NULLIF(v_headers->>'x-change-agent', ''), v_user
+  FROM jsonb_each(v_new) n
+  WHERE n.value IS DISTINCT FROM v_old->n.key
+    AND n.key <> ALL (c_untracked);
+
+  RETURN NULL;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.track_lead_field_changes() FROM PUBLIC, anon;
+
+-- Whatever trigger the old function hung off (it was created outside the
+-- repo) goes, so every change is logged exactly once.
+DO $$
+DECLARE
+  t record;
+BEGIN
+  FOR t IN
+    SELECT tgname FROM pg_trigger
+    WHERE tgrelid = 'public.leads'::regclass
+      AND tgfoid = 'public.track_lead_field_changes()'::regprocedure
+      AND NOT tgisinternal
+  LOOP
+    EXECUTE format('DROP TRIGGER %I ON public.leads', t.tgname);
+  END LOOP;
+END $$;
+
+CREATE TRIGGER track_lead_field_changes
+  AFTER UPDATE ON public.leads
+  FOR EACH ROW
+  WHEN (OLD.* IS DISTINCT FROM NEW.*)
+  EXECUTE FUNCTION public.track_lead_field_changes();
+
+DROP POLICY IF EXISTS "Org members read lead_field_changes" ON public.lead_field_changes;
+CREATE POLICY "Org members read lead_field_changes" ON public.lead_field_changes
+  FOR SELECT TO authenticated
+  USING (organization_id = public.get_user_organization_id(auth.uid()));